@@ -1,5 +1,9 @@
 export const config = {
-  matcher: ['/((?!_vercel|_next/static|_next/image|assets|favicon\\.ico|.*\\..*).*)'],
+  matcher: [
+    '/((?!_vercel|_next/static|_next/image|assets|favicon\\.ico|.*\\..*).*)',
+    '/robots.txt',
+    '/sitemap.xml',
+  ],
 };
 
 const ROOT_HOSTNAMES = [
@@ -9,7 +13,104 @@ const ROOT_HOSTNAMES = [
   '127.0.0.1',
 ];
 
-export default function middleware(req: Request): Response {
+// Crawlers and link unfurlers that don't run the SPA bundle
+const BOT_USER_AGENT =
+  /bot|crawler|spider|crawling|googlebot|bingbot|yandex|baiduspider|duckduckbot|facebookexternalhit|facebot|twitterbot|linkedinbot|slackbot|discordbot|whatsapp|telegrambot|applebot|pinterest|embedly|quora link preview|skypeuripreview|redditbot/i;
+
+const PRERENDER_TIMEOUT_MS = 5000;
+
+interface PrerenderResult {
+  status: number;
+  content_type: string;
+  head: string | null;
+  body: string;
+}
+
+function passThrough(tenantDomain?: string): Response {
+  const headers: Record<string, string> = { 'x-middleware-next': '1' };
+  if (tenantDomain) headers['x-tenant-domain'] = tenantDomain;
+  const response = new Response(null, { status: 200, headers });
+
+  // Set a short-lived cookie so client-side JS can read the tenant domain
+  // without relying on the request header (headers are server-side only)
+  if (tenantDomain) {
+    response.headers.append('Set-Cookie', `tenant-domain=${tenantDomain}; Path=/; Max-Age=3600; SameSite=Lax`);
+  }
+
+  return response;
+}
+
+async function fetchPrerender(domain: string, path: string): Promise<PrerenderResult | null> {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !anonKey) return null;
+
+  const endpoint = `${supabaseUrl}/functions/v1/prerender-page?domain=${encodeURIComponent(domain)}&path=${encodeURIComponent(path)}`;
+  const res = await fetch(endpoint, {
+    headers: { Authorization: `Bearer ${anonKey}`, Apikey: anonKey },
+    signal: AbortSignal.timeout(PRERENDER_TIMEOUT_MS),
+  });
+  if (!res.ok) return null;
+  return (await res.json()) as PrerenderResult;
+}
+
+/**
+ * Swaps index.html's generic title/description for the page's tags and fills
+ * #root with its markup. Replacements are functions so `$&`-style patterns in
+ * tenant content are inserted literally.
+ */
+function injectPrerender(shell: string, result: PrerenderResult): string {
+  let html = shell
+    .replace(/<title>[\s\S]*?<\/title>/i, '')
+    .replace(/<meta\s+name="description"[^>]*>/i, '');
+  if (result.head) html = html.replace(/<\/head>/i, () => `    ${result.head}\n  </head>`);
+  return html.replace(/<div id="root"><\/div>/, () => `<div id="root">${result.body}</div>`);
+}
+
+async function serveTenantRequest(req: Request, url: URL, domain: string): Promise<Response> {
+  const isTextRoute = url.pathname === '/robots.txt' || url.pathname === '/sitemap.xml';
+
+  if (!isTextRoute) {
+    const accept = req.headers.get('accept') || '';
+    const wantsHtml = req.method === 'GET' && (accept === '' || accept.includes('text/html') || accept.includes('*/*'));
+    if (!wantsHtml || !BOT_USER_AGENT.test(req.headers.get('user-agent') || '')) {
+      return passThrough(domain);
+    }
+  }
+
+  try {
+    const [result, shell] = await Promise.all([
+      fetchPrerender(domain, url.pathname),
+      isTextRoute ? Promise.resolve(null) : fetch(new URL('/index.html', url)).then((r) => (r.ok ? r.text() : null)),
+    ]);
+
+    if (!result) return passThrough(domain);
+
+    if (isTextRoute) {
+      return new Response(result.body, {
+        status: result.status,
+        headers: { 'Content-Type': result.content_type, 'Cache-Control': 'public, max-age=3600' },
+      });
+    }
+
+    if (!shell) return passThrough(domain);
+
+    return new Response(injectPrerender(shell, result), {
+      status: result.status,
+      headers: {
+        'Content-Type': result.content_type,
+        'Cache-Control': 'public, max-age=300',
+        'x-tenant-domain': domain,
+        Vary: 'User-Agent',
+      },
+    });
+  } catch {
+    // Crawlers still get the SPA shell if prerendering is unavailable
+    return passThrough(domain);
+  }
+}
+
+export default async function middleware(req: Request): Promise<Response> {
   const url = new URL(req.url);
   const hostname = req.headers.get('host') || '';
 
@@ -24,22 +125,10 @@ export default function middleware(req: Request): Response {
     host.endsWith('.vercel.app');
 
   if (isRoot) {
-    return new Response(null, { status: 200, headers: { 'x-middleware-next': '1' } });
+    return passThrough();
   }
 
-  // For any other domain (tenant subdomain or custom domain), tag the request
-  const response = new Response(null, {
-    status: 200,
-    headers: {
-      'x-middleware-next': '1',
-      'x-tenant-domain': hostWithoutWww,
-    },
-  });
-
-  // Set a short-lived cookie so client-side JS can read the tenant domain
-  // without relying on the request header (headers are server-side only)
-  const cookieValue = `tenant-domain=${hostWithoutWww}; Path=/; Max-Age=3600; SameSite=Lax`;
-  response.headers.append('Set-Cookie', cookieValue);
-
-  return response;
+  // For any other domain (tenant subdomain or custom domain), tag the request,
+  // and hand crawlers and robots/sitemap requests prerendered output
+  return serveTenantRequest(req, url, hostWithoutWww);
 }
@@ -37,6 +37,7 @@ function lazyWithReload<T extends React.ComponentType<unknown>>(
 const ClientPortal = lazyWithReload(() => import('./components/ClientPortal'));
 const ManagerPortal = lazyWithReload(() => import('./components/ManagerPortal'));
 const PlatformAdminPortal = lazyWithReload(() => import('./components/platform/PlatformAdminPortal'));
+const AuditorPortal = lazyWithReload(() => import('./components/AuditorPortal'));
 const AcceptInvitation = lazyWithReload(() => import('./components/AcceptInvitation'));
 const ClientSignup = lazyWithReload(() => import('./components/ClientSignup'));
 const SalesSheet = lazyWithReload(() => import('./components/SalesSheet'));
@@ -54,7 +55,8 @@ function AppContent() {
   const [route, navigate] = useRoute();
   const primedTenant = (window as any).__PRIMED_TENANT__ as { id: string; slug: string; name?: string } | undefined;
   const [publicTenant, setPublicTenant] = useState<{ id: string; slug: string; name?: string } | null>(primedTenant ?? null);
-  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultSession, setVaultSession] = useState('');
+  const [vaultRoomTenant, setVaultRoomTenant] = useState<{ id: string; slug: string; name?: string } | null>(null);
 
   // On the platform root (clearnav.cv, vercel previews, localhost without ?tenant),
   // there is never a public tenant — skip the network lookup entirely.
@@ -158,14 +160,17 @@ function AppContent() {
     );
   }
 
+  const vaultTenant = publicTenant ?? vaultRoomTenant ?? (currentTenant ? { id: currentTenant.id, slug: currentTenant.slug, name: currentTenant.name } : null);
+
   if (route === 'vault') {
     return (
       <ErrorBoundary>
         <Suspense fallback={<Fallback />}>
           <InvestorVault
+            tenant={vaultTenant}
             onBack={() => navigate('/')}
-            onOpenReport={(passphrase) => { setVaultPassphrase(passphrase); navigate('/vault/report'); }}
-            onApply={(passphrase) => { setVaultPassphrase(passphrase); navigate('/vault/apply'); }}
+            onOpenReport={(sessionToken: string) => { setVaultSession(sessionToken); navigate('/vault/report'); }}
+            onApply={(tenant: { id: string; slug: string; name?: string }) => { setVaultRoomTenant(tenant); navigate('/vault/apply'); }}
           />
         </Suspense>
       </ErrorBoundary>
@@ -176,7 +181,7 @@ function AppContent() {
     return (
       <ErrorBoundary>
         <Suspense fallback={<Fallback />}>
-          <InvestorReport onBack={() => navigate('/vault')} passphrase={vaultPassphrase} />
+          <InvestorReport onBack={() => navigate('/vault')} sessionToken={vaultSession} />
         </Suspense>
       </ErrorBoundary>
     );
@@ -186,7 +191,7 @@ function AppContent() {
     return (
       <ErrorBoundary>
         <Suspense fallback={<Fallback />}>
-          <InvestorApplicationForm onBack={() => navigate('/vault')} passphrase={vaultPassphrase} />
+          <InvestorApplicationForm onBack={() => navigate('/vault')} tenant={vaultTenant} />
         </Suspense>
       </ErrorBoundary>
     );
@@ -210,6 +215,8 @@ function AppContent() {
         return <Suspense fallback={<Fallback />}><ManagerPortal /></Suspense>;
       case 'client':
         return <Suspense fallback={<Fallback />}><ClientPortal /></Suspense>;
+      case 'auditor':
+        return <Suspense fallback={<Fallback />}><AuditorPortal /></Suspense>;
       default:
         return (
           <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { LogOut, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../lib/auth';
+import { getAuditTrailTenants } from '../lib/auditTrail';
+import AuditTrailViewer from './manager/AuditTrailViewer';
+
+export default function AuditorPortal() {
+  const { user, signOut, auditorProfile } = useAuth();
+  const [tenants, setTenants] = useState<{ id: string; name: string }[]>([]);
+  const [tenantId, setTenantId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadTenants();
+    }
+  }, [user]);
+
+  const loadTenants = async () => {
+    try {
+      const list = await getAuditTrailTenants();
+      setTenants(list);
+      if (list.length > 0) setTenantId(list[0].id);
+    } catch (error) {
+      console.error('Error loading audit engagements:', error);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
+      <nav className="border-b border-slate-800/50 bg-slate-950/80 backdrop-blur-md">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <ShieldCheck className="w-7 h-7 text-cyan-400" />
+              <span className="text-2xl font-light tracking-wider text-white">
+                AUDITOR <span className="font-semibold">WORKSPACE</span>
+              </span>
+            </div>
+            <div className="flex items-center space-x-4">
+              <div className="text-right">
+                <div className="text-sm text-slate-400">{auditorProfile?.firm_name || 'Auditor'}</div>
+                <div className="text-white font-medium">{user?.email}</div>
+              </div>
+              <button
+                onClick={signOut}
+                className="flex items-center space-x-2 px-4 py-2 text-slate-300 hover:text-white transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                <span className="text-sm">Sign Out</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full"></div>
+          </div>
+        ) : tenants.length === 0 ? (
+          <div className="text-center py-24">
+            <ShieldCheck className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-slate-300 mb-2">No active engagements</h2>
+            <p className="text-slate-500 text-sm">
+              Audit trails become available once a fund manager assigns you an engagement and you accept it.
+            </p>
+          </div>
+        ) : (
+          <>
+            {tenants.length > 1 && (
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-slate-400">Engagement</span>
+                <select
+                  value={tenantId}
+                  onChange={(e) => setTenantId(e.target.value)}
+                  className="px-4 py-2 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+                >
+                  {tenants.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+            )}
+            {tenantId && <AuditTrailViewer tenantId={tenantId} recordEvents={false} />}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -166,7 +166,7 @@ export default function ClientPortal() {
         </div>
 
         <div className="animate-fadeIn">
-          {activeTab === 'dashboard' && <Dashboard profile={profile} />}
+          {activeTab === 'dashboard' && <Dashboard />}
           {activeTab === 'returns' && <Returns />}
           {activeTab === 'risk' && <RiskMetrics />}
           {activeTab === 'documents' && <Documents />}
@@ -3,7 +3,7 @@ import { ChevronLeft, MapPin, Mail } from 'lucide-react';
 
 interface InvestorReportProps {
   onBack: () => void;
-  passphrase?: string;
+  sessionToken?: string;
 }
 
 // ─── Palette ──────────────────────────────────────────────────────────────────
@@ -888,15 +888,15 @@ function ReportContent({ onBack }: { onBack: () => void }) {
   );
 }
 
-export default function InvestorReport({ onBack, passphrase: preAuthPassphrase }: InvestorReportProps) {
+export default function InvestorReport({ onBack, sessionToken }: InvestorReportProps) {
   useEffect(() => {
-    // No passphrase in state (e.g. direct URL or back-button after full reload) — send to vault gate
-    if (!preAuthPassphrase) {
+    // No vault session in state (e.g. direct URL or back-button after full reload) — send to vault gate
+    if (!sessionToken) {
       onBack();
     }
-  }, [preAuthPassphrase, onBack]);
+  }, [sessionToken, onBack]);
 
-  if (!preAuthPassphrase) return null;
+  if (!sessionToken) return null;
 
   return <ReportContent onBack={onBack} />;
 }
@@ -1,23 +1,26 @@
-import { useState, useEffect } from 'react';
-import { Lock, Unlock, FileText, Download, ExternalLink, AlertCircle, Loader2, MapPin, Mail, ChevronLeft, BookOpen, ClipboardList } from 'lucide-react';
-
-interface VaultDocument {
-  id: string;
-  document_name: string;
-  document_type: string;
-  description: string;
-  sort_order: number;
-  signed_url: string | null;
-  internal_path?: string | null;
-}
+import { useState, useEffect, useCallback } from 'react';
+import { Lock, Unlock, FileText, Download, Eye, AlertCircle, Loader2, Mail, ChevronLeft, BookOpen, ClipboardList, Folder } from 'lucide-react';
+import { fetchPublishedApplicationSchema } from '../lib/applicationSchema';
+import {
+  fetchVaultDocument,
+  openVaultRoom,
+  trackVaultDocumentOpen,
+  type VaultCredentials,
+  type VaultRoom,
+  type VaultRoomDocument,
+} from '../lib/dataRoom';
+import VaultDocumentViewer from './vault/VaultDocumentViewer';
+import type { VaultTenant } from './vault/InvestorApplicationForm';
 
 interface InvestorVaultProps {
+  tenant: VaultTenant | null;
   onBack: () => void;
-  onOpenReport: (passphrase: string) => void;
-  onApply: (passphrase: string) => void;
+  onOpenReport: (sessionToken: string) => void;
+  onApply: (tenant: VaultTenant) => void;
 }
 
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
+// Survives the round trip to the in-app report and application routes
+const SESSION_KEY = 'vault_session';
 
 const DOC_TYPE_LABELS: Record<string, string> = {
   pitch_deck:       'Pitch Deck',
@@ -39,15 +42,75 @@ const DOC_TYPE_ICONS: Record<string, string> = {
   other:            '📎',
 };
 
-export default function InvestorVault({ onBack, onOpenReport, onApply }: InvestorVaultProps) {
-  const [phase, setPhase] = useState<'gate' | 'loading' | 'documents' | 'error'>('gate');
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function InvestorVault({ tenant, onBack, onOpenReport, onApply }: InvestorVaultProps) {
+  const [phase, setPhase] = useState<'gate' | 'loading' | 'documents' | 'error'>('loading');
   const [passphrase, setPassphrase] = useState('');
+  const [viewerName, setViewerName] = useState('');
+  const [viewerEmail, setViewerEmail] = useState('');
   const [authError, setAuthError] = useState('');
   const [submitting, setSubmitting] = useState(false);
-  const [documents, setDocuments] = useState<VaultDocument[]>([]);
+  const [room, setRoom] = useState<VaultRoom | null>(null);
   const [generalError, setGeneralError] = useState('');
+  const [documentError, setDocumentError] = useState('');
+  const [viewing, setViewing] = useState<VaultRoomDocument | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [applicationOpen, setApplicationOpen] = useState(false);
+  const [contactEmail, setContactEmail] = useState<string | null>(null);
+
+  // Invite links carry their own tenant, so the vault works on any domain
+  const activeTenant: VaultTenant | null = tenant ?? room?.tenant ?? null;
+  const tenantName = activeTenant?.name || 'Investor Vault';
+  const activeTenantId = activeTenant?.id;
+  const sessionToken = room?.session.token ?? '';
+
+  useEffect(() => {
+    if (!activeTenantId) return;
+    fetchPublishedApplicationSchema(activeTenantId)
+      .then(published => {
+        setApplicationOpen(!!published);
+        setContactEmail(published?.schema.contact_email || null);
+      })
+      .catch(() => setApplicationOpen(false));
+  }, [activeTenantId]);
+
+  const enterRoom = useCallback(async (credentials: VaultCredentials) => {
+    const opened = await openVaultRoom(credentials);
+    sessionStorage.setItem(SESSION_KEY, opened.session.token);
+    setRoom(opened);
+    setPhase('documents');
+  }, []);
+
+  useEffect(() => {
+    const accessToken = new URLSearchParams(window.location.search).get('access');
+    const storedSession = sessionStorage.getItem(SESSION_KEY);
 
-  // Inject Google Fonts for Arkline brand typography
+    if (accessToken) {
+      // Keep the personal link out of the address bar and browser history
+      window.history.replaceState(null, '', window.location.pathname);
+      enterRoom({ access_token: accessToken }).catch((err) => {
+        setGeneralError(err instanceof Error ? err.message : 'This access link could not be opened');
+        setPhase('error');
+      });
+    } else if (storedSession) {
+      enterRoom({ session_token: storedSession }).catch(() => {
+        sessionStorage.removeItem(SESSION_KEY);
+        setPhase('gate');
+      });
+    } else {
+      setPhase('gate');
+    }
+  }, [enterRoom]);
+
+  // Inject Google Fonts for vault typography
   useEffect(() => {
     const link = document.createElement('link');
     link.rel = 'stylesheet';
@@ -58,39 +121,60 @@ export default function InvestorVault({ onBack, onOpenReport, onApply }: Investo
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!passphrase.trim()) return;
+    if (!passphrase.trim() || !viewerName.trim() || !viewerEmail.trim() || !tenant) return;
 
     setSubmitting(true);
     setAuthError('');
 
     try {
-      const res = await fetch(`${SUPABASE_URL}/functions/v1/get-vault-documents`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ passphrase: passphrase.trim(), tenant_slug: 'arkline' }),
+      await enterRoom({
+        tenant_slug: tenant.slug,
+        passphrase: passphrase.trim(),
+        viewer_name: viewerName.trim(),
+        viewer_email: viewerEmail.trim(),
       });
-
-      if (res.status === 401) {
-        setAuthError('Incorrect passphrase. Please try again.');
-        setSubmitting(false);
-        return;
-      }
-
-      if (!res.ok) {
-        throw new Error('Server error');
-      }
-
-      const data = await res.json();
-      setDocuments(data.documents ?? []);
-      setPhase('documents');
-    } catch {
-      setGeneralError('Unable to connect. Please try again shortly.');
-      setPhase('error');
+    } catch (err) {
+      setAuthError(err instanceof Error ? err.message : 'Access denied');
     } finally {
       setSubmitting(false);
     }
   };
 
+  const handleDownload = async (doc: VaultRoomDocument) => {
+    setDownloading(doc.id);
+    setDocumentError('');
+    try {
+      const { blob } = await fetchVaultDocument(sessionToken, doc.id, 'download');
+      saveBlob(blob, `${doc.document_name}.${doc.file_type ?? 'pdf'}`);
+    } catch (err) {
+      setDocumentError(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const trackInternalOpen = (doc: VaultRoomDocument) => {
+    trackVaultDocumentOpen(sessionToken, doc.id).catch(() => {});
+  };
+
+  const sections = room
+    ? [
+        { id: 'root', name: null as string | null, description: '', documents: room.documents.filter((d) => !d.folder_id) },
+        ...room.folders.map((f) => ({
+          id: f.id,
+          name: f.name as string | null,
+          description: f.description,
+          documents: room.documents.filter((d) => d.folder_id === f.id),
+        })),
+      ].filter((section) => section.documents.length > 0)
+    : [];
+
+  const inputStyle = (invalid?: boolean) => ({
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    border: invalid ? '1px solid rgba(239,68,68,0.6)' : '1px solid rgba(255,255,255,0.12)',
+    color: '#F5F2EE',
+  });
+
   return (
     <div
       className="min-h-screen flex flex-col"
@@ -115,13 +199,13 @@ export default function InvestorVault({ onBack, onOpenReport, onApply }: Investo
             className="w-7 h-7 rounded flex items-center justify-center text-xs font-bold"
             style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
           >
-            A
+            {tenantName.charAt(0).toUpperCase()}
           </div>
           <span
             className="text-base tracking-widest uppercase"
             style={{ fontFamily: '"Cormorant Garamond", Georgia, serif', fontWeight: 500, letterSpacing: '0.18em' }}
           >
-            Arkline Trust
+            {tenantName}
           </span>
         </div>
         <div className="w-20" />
@@ -130,6 +214,10 @@ export default function InvestorVault({ onBack, onOpenReport, onApply }: Investo
       {/* Main content */}
       <main className="flex-1 flex items-center justify-center px-6 py-16">
 
+        {phase === 'loading' && (
+          <Loader2 size={28} className="animate-spin opacity-50" style={{ color: '#B8934A' }} />
+        )}
+
         {/* PASSWORD GATE */}
         {phase === 'gate' && (
           <div className="w-full max-w-md">
@@ -151,59 +239,92 @@ export default function InvestorVault({ onBack, onOpenReport, onApply }: Investo
                 style={{ backgroundColor: '#B8934A' }}
               />
               <p className="text-sm leading-relaxed opacity-60 max-w-xs mx-auto">
-                This area contains confidential materials prepared exclusively for prospective wholesale investors. Enter your access passphrase to continue.
+                {tenant
+                  ? 'This area contains confidential materials prepared exclusively for prospective wholesale investors. Enter your details and access passphrase to continue.'
+                  : 'This area contains confidential materials prepared exclusively for prospective wholesale investors. Open the personal access link from your invitation to continue.'}
               </p>
             </div>
 
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label
-                  className="block text-xs font-semibold uppercase tracking-widest mb-2 opacity-50"
-                >
-                  Access Passphrase
-                </label>
-                <input
-                  type="password"
-                  value={passphrase}
-                  onChange={(e) => { setPassphrase(e.target.value); setAuthError(''); }}
-                  autoComplete="current-password"
-                  className="w-full px-4 py-3.5 rounded-sm text-sm focus:outline-none transition-all"
-                  style={{
-                    backgroundColor: 'rgba(255,255,255,0.06)',
-                    border: authError ? '1px solid rgba(239,68,68,0.6)' : '1px solid rgba(255,255,255,0.12)',
-                    color: '#F5F2EE',
-                  }}
-                  placeholder="Enter passphrase"
-                  disabled={submitting}
-                />
-                {authError && (
-                  <div className="flex items-center gap-2 mt-2 text-red-400 text-xs">
-                    <AlertCircle size={13} />
-                    <span>{authError}</span>
+            {tenant && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-semibold uppercase tracking-widest mb-2 opacity-50">
+                      Full Name
+                    </label>
+                    <input
+                      type="text"
+                      value={viewerName}
+                      onChange={(e) => setViewerName(e.target.value)}
+                      autoComplete="name"
+                      className="w-full px-4 py-3.5 rounded-sm text-sm focus:outline-none transition-all"
+                      style={inputStyle()}
+                      disabled={submitting}
+                    />
                   </div>
-                )}
-              </div>
+                  <div>
+                    <label className="block text-xs font-semibold uppercase tracking-widest mb-2 opacity-50">
+                      Email
+                    </label>
+                    <input
+                      type="email"
+                      value={viewerEmail}
+                      onChange={(e) => setViewerEmail(e.target.value)}
+                      autoComplete="email"
+                      className="w-full px-4 py-3.5 rounded-sm text-sm focus:outline-none transition-all"
+                      style={inputStyle()}
+                      disabled={submitting}
+                    />
+                  </div>
+                </div>
 
-              <button
-                type="submit"
-                disabled={submitting || !passphrase.trim()}
-                className="w-full py-3.5 rounded-sm text-sm font-semibold tracking-wide transition-all hover:brightness-110 disabled:opacity-40 flex items-center justify-center gap-2"
-                style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
-              >
-                {submitting ? (
-                  <><Loader2 size={16} className="animate-spin" /> Verifying...</>
-                ) : (
-                  <><Unlock size={16} /> Access Documents</>
-                )}
-              </button>
-            </form>
-
-            <p className="text-center text-xs opacity-30 mt-8">
-              Don't have a passphrase? Contact{' '}
-              <a href="mailto:enquiries@arklinetrust.com" className="underline opacity-70 hover:opacity-100">
-                enquiries@arklinetrust.com
-              </a>
-            </p>
+                <div>
+                  <label
+                    className="block text-xs font-semibold uppercase tracking-widest mb-2 opacity-50"
+                  >
+                    Access Passphrase
+                  </label>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => { setPassphrase(e.target.value); setAuthError(''); }}
+                    autoComplete="current-password"
+                    className="w-full px-4 py-3.5 rounded-sm text-sm focus:outline-none transition-all"
+                    style={inputStyle(!!authError)}
+                    placeholder="Enter passphrase"
+                    disabled={submitting}
+                  />
+                  {authError && (
+                    <div className="flex items-center gap-2 mt-2 text-red-400 text-xs">
+                      <AlertCircle size={13} />
+                      <span>{authError}</span>
+                    </div>
+                  )}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={submitting || !passphrase.trim() || !viewerName.trim() || !viewerEmail.trim()}
+                  className="w-full py-3.5 rounded-sm text-sm font-semibold tracking-wide transition-all hover:brightness-110 disabled:opacity-40 flex items-center justify-center gap-2"
+                  style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
+                >
+                  {submitting ? (
+                    <><Loader2 size={16} className="animate-spin" /> Verifying...</>
+                  ) : (
+                    <><Unlock size={16} /> Access Documents</>
+                  )}
+                </button>
+              </form>
+            )}
+
+            {contactEmail && (
+              <p className="text-center text-xs opacity-30 mt-8">
+                Don't have access? Contact{' '}
+                <a href={`mailto:${contactEmail}`} className="underline opacity-70 hover:opacity-100">
+                  {contactEmail}
+                </a>
+              </p>
+            )}
           </div>
         )}
 
@@ -223,7 +344,7 @@ export default function InvestorVault({ onBack, onOpenReport, onApply }: Investo
         )}
 
         {/* DOCUMENTS VIEW */}
-        {phase === 'documents' && (
+        {phase === 'documents' && room && (
           <div className="w-full max-w-5xl">
             <div className="text-center mb-12">
               <div
@@ -243,192 +364,225 @@ export default function InvestorVault({ onBack, onOpenReport, onApply }: Investo
                 style={{ backgroundColor: '#B8934A' }}
               />
               <p className="text-sm opacity-50">
-                Confidential — For Prospective Wholesale Investors Only
+                Confidential — Prepared for {room.session.viewer_name}
               </p>
             </div>
 
-            {documents.length === 0 ? (
+            {documentError && (
+              <div className="flex items-center justify-center gap-2 mb-6 text-red-400 text-xs">
+                <AlertCircle size={13} />
+                <span>{documentError}</span>
+              </div>
+            )}
+
+            {sections.length === 0 ? (
               <div
                 className="text-center py-16 rounded-sm border"
                 style={{ borderColor: 'rgba(255,255,255,0.1)', backgroundColor: 'rgba(255,255,255,0.03)' }}
               >
                 <FileText size={36} className="mx-auto mb-4 opacity-20" />
                 <p className="text-sm opacity-40">Documents are being prepared and will appear here shortly.</p>
-                <p className="text-xs opacity-25 mt-2">
-                  Contact{' '}
-                  <a href="mailto:enquiries@arklinetrust.com" className="underline">
-                    enquiries@arklinetrust.com
-                  </a>{' '}
-                  for immediate assistance.
-                </p>
+                {contactEmail && (
+                  <p className="text-xs opacity-25 mt-2">
+                    Contact{' '}
+                    <a href={`mailto:${contactEmail}`} className="underline">
+                      {contactEmail}
+                    </a>{' '}
+                    for immediate assistance.
+                  </p>
+                )}
               </div>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {documents.map((doc) => (
-                  <div
-                    key={doc.id}
-                    className="flex flex-col rounded-sm border p-6 transition-all duration-200 hover:-translate-y-0.5 hover:border-opacity-30"
-                    style={{
-                      borderColor: 'rgba(184,147,74,0.2)',
-                      backgroundColor: 'rgba(255,255,255,0.04)',
-                    }}
-                  >
-                    <div className="flex items-start gap-3 mb-4">
-                      <div
-                        className="w-10 h-10 rounded flex items-center justify-center flex-shrink-0 text-lg"
-                        style={{ backgroundColor: 'rgba(184,147,74,0.12)' }}
-                      >
-                        {DOC_TYPE_ICONS[doc.document_type] ?? '📎'}
-                      </div>
-                      <div>
-                        <p
-                          className="text-xs font-semibold uppercase tracking-widest mb-0.5"
-                          style={{ color: '#B8934A' }}
-                        >
-                          {DOC_TYPE_LABELS[doc.document_type] ?? 'Document'}
-                        </p>
-                        <h3
-                          className="text-base font-semibold leading-tight"
-                          style={{ fontFamily: '"Cormorant Garamond", Georgia, serif' }}
-                        >
-                          {doc.document_name}
-                        </h3>
+              <div className="space-y-12">
+                {sections.map((section) => (
+                  <section key={section.id}>
+                    {section.name && (
+                      <div className="flex items-center gap-3 mb-5">
+                        <Folder size={16} style={{ color: '#B8934A' }} />
+                        <div>
+                          <h2
+                            className="text-xl font-semibold"
+                            style={{ fontFamily: '"Cormorant Garamond", Georgia, serif' }}
+                          >
+                            {section.name}
+                          </h2>
+                          {section.description && <p className="text-xs opacity-45">{section.description}</p>}
+                        </div>
                       </div>
-                    </div>
-
-                    {doc.description && (
-                      <p className="text-xs leading-relaxed opacity-50 mb-5 flex-1">
-                        {doc.description}
-                      </p>
                     )}
 
-                    <div className="flex gap-2 mt-auto pt-4 border-t" style={{ borderColor: 'rgba(255,255,255,0.08)' }}>
-                      {doc.internal_path ? (
-                        doc.internal_path.endsWith('.pdf') ? (
-                          <>
-                            <a
-                              href={doc.internal_path}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-sm text-xs font-semibold transition-all hover:brightness-110"
-                              style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
-                            >
-                              <ExternalLink size={13} />
-                              View PDF
-                            </a>
-                            <a
-                              href={doc.internal_path}
-                              download
-                              className="flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-sm text-xs font-semibold transition-all"
-                              style={{ backgroundColor: 'rgba(184,147,74,0.12)', color: '#B8934A', border: '1px solid rgba(184,147,74,0.25)' }}
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {section.documents.map((doc) => (
+                        <div
+                          key={doc.id}
+                          className="flex flex-col rounded-sm border p-6 transition-all duration-200 hover:-translate-y-0.5 hover:border-opacity-30"
+                          style={{
+                            borderColor: 'rgba(184,147,74,0.2)',
+                            backgroundColor: 'rgba(255,255,255,0.04)',
+                          }}
+                        >
+                          <div className="flex items-start gap-3 mb-4">
+                            <div
+                              className="w-10 h-10 rounded flex items-center justify-center flex-shrink-0 text-lg"
+                              style={{ backgroundColor: 'rgba(184,147,74,0.12)' }}
                             >
-                              <Download size={13} />
-                            </a>
-                          </>
-                        ) : (
-                          <button
-                            onClick={() => onOpenReport(passphrase)}
-                            className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-sm text-xs font-semibold transition-all hover:brightness-110"
-                            style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
-                          >
-                            <BookOpen size={13} />
-                            Read Report
-                          </button>
-                        )
-                      ) : doc.signed_url ? (
-                        <>
-                          <a
-                            href={doc.signed_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-sm text-xs font-semibold transition-all hover:brightness-110"
-                            style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
-                          >
-                            <ExternalLink size={13} />
-                            View
-                          </a>
-                          <a
-                            href={doc.signed_url}
-                            download
-                            className="flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-sm text-xs font-semibold transition-all"
-                            style={{ backgroundColor: 'rgba(184,147,74,0.12)', color: '#B8934A', border: '1px solid rgba(184,147,74,0.25)' }}
-                          >
-                            <Download size={13} />
-                          </a>
-                        </>
-                      ) : (
-                        <span className="text-xs opacity-30 py-2.5">Link unavailable</span>
-                      )}
+                              {DOC_TYPE_ICONS[doc.document_type] ?? '📎'}
+                            </div>
+                            <div>
+                              <p
+                                className="text-xs font-semibold uppercase tracking-widest mb-0.5"
+                                style={{ color: '#B8934A' }}
+                              >
+                                {DOC_TYPE_LABELS[doc.document_type] ?? 'Document'}
+                              </p>
+                              <h3
+                                className="text-base font-semibold leading-tight"
+                                style={{ fontFamily: '"Cormorant Garamond", Georgia, serif' }}
+                              >
+                                {doc.document_name}
+                              </h3>
+                            </div>
+                          </div>
+
+                          {doc.description && (
+                            <p className="text-xs leading-relaxed opacity-50 mb-5 flex-1">
+                              {doc.description}
+                            </p>
+                          )}
+
+                          <div className="flex gap-2 mt-auto pt-4 border-t" style={{ borderColor: 'rgba(255,255,255,0.08)' }}>
+                            {doc.internal_path ? (
+                              doc.internal_path.endsWith('.pdf') ? (
+                                <>
+                                  <a
+                                    href={doc.internal_path}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    onClick={() => trackInternalOpen(doc)}
+                                    className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-sm text-xs font-semibold transition-all hover:brightness-110"
+                                    style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
+                                  >
+                                    <Eye size={13} />
+                                    View PDF
+                                  </a>
+                                  <a
+                                    href={doc.internal_path}
+                                    download
+                                    onClick={() => trackInternalOpen(doc)}
+                                    className="flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-sm text-xs font-semibold transition-all"
+                                    style={{ backgroundColor: 'rgba(184,147,74,0.12)', color: '#B8934A', border: '1px solid rgba(184,147,74,0.25)' }}
+                                  >
+                                    <Download size={13} />
+                                  </a>
+                                </>
+                              ) : (
+                                <button
+                                  onClick={() => { trackInternalOpen(doc); onOpenReport(sessionToken); }}
+                                  className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-sm text-xs font-semibold transition-all hover:brightness-110"
+                                  style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
+                                >
+                                  <BookOpen size={13} />
+                                  Read Report
+                                </button>
+                              )
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => (doc.file_type === 'pdf' ? setViewing(doc) : handleDownload(doc))}
+                                  className="flex-1 flex items-center justify-center gap-1.5 py-2.5 rounded-sm text-xs font-semibold transition-all hover:brightness-110"
+                                  style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
+                                >
+                                  <Eye size={13} />
+                                  View
+                                </button>
+                                <button
+                                  onClick={() => handleDownload(doc)}
+                                  disabled={downloading === doc.id}
+                                  className="flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-sm text-xs font-semibold transition-all disabled:opacity-50"
+                                  style={{ backgroundColor: 'rgba(184,147,74,0.12)', color: '#B8934A', border: '1px solid rgba(184,147,74,0.25)' }}
+                                >
+                                  {downloading === doc.id ? <Loader2 size={13} className="animate-spin" /> : <Download size={13} />}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  </div>
+                  </section>
                 ))}
               </div>
             )}
 
             <div className="text-center mt-10">
               <p className="text-xs opacity-25">
-                Document links expire after 2 hours. Refresh this page and re-enter your passphrase to regenerate them.
+                Documents are watermarked for {room.session.viewer_name} ({room.session.viewer_email}) and access is logged.
+                This session ends at {new Date(room.session.expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
               </p>
             </div>
 
             {/* Apply Online CTA */}
-            <div
-              className="mt-14 rounded-sm border p-8 flex flex-col md:flex-row items-center gap-6"
-              style={{ borderColor: 'rgba(184,147,74,0.25)', backgroundColor: 'rgba(184,147,74,0.05)' }}
-            >
+            {applicationOpen && activeTenant && (
               <div
-                className="w-14 h-14 rounded-full flex items-center justify-center flex-shrink-0"
-                style={{ backgroundColor: 'rgba(184,147,74,0.15)', border: '1px solid rgba(184,147,74,0.3)' }}
+                className="mt-14 rounded-sm border p-8 flex flex-col md:flex-row items-center gap-6"
+                style={{ borderColor: 'rgba(184,147,74,0.25)', backgroundColor: 'rgba(184,147,74,0.05)' }}
               >
-                <ClipboardList size={24} style={{ color: '#B8934A' }} />
-              </div>
-              <div className="flex-1 text-center md:text-left">
-                <h2
-                  className="text-xl font-semibold mb-1"
-                  style={{ fontFamily: '"Cormorant Garamond", Georgia, serif' }}
+                <div
+                  className="w-14 h-14 rounded-full flex items-center justify-center flex-shrink-0"
+                  style={{ backgroundColor: 'rgba(184,147,74,0.15)', border: '1px solid rgba(184,147,74,0.3)' }}
+                >
+                  <ClipboardList size={24} style={{ color: '#B8934A' }} />
+                </div>
+                <div className="flex-1 text-center md:text-left">
+                  <h2
+                    className="text-xl font-semibold mb-1"
+                    style={{ fontFamily: '"Cormorant Garamond", Georgia, serif' }}
+                  >
+                    Ready to Invest?
+                  </h2>
+                  <p className="text-sm opacity-55 leading-relaxed max-w-lg">
+                    Complete your application online. The form guides you through each section that applies to your investor type.
+                  </p>
+                </div>
+                <button
+                  onClick={() => onApply(activeTenant)}
+                  className="flex-shrink-0 flex items-center gap-2 px-6 py-3 rounded-sm text-sm font-semibold tracking-wide transition-all hover:brightness-110"
+                  style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
                 >
-                  Ready to Invest?
-                </h2>
-                <p className="text-sm opacity-55 leading-relaxed max-w-lg">
-                  Complete your application online. The form guides you through each section based on your investor type — individual, joint, company, or trust.
-                </p>
+                  <ClipboardList size={15} />
+                  Apply Online
+                </button>
               </div>
-              <button
-                onClick={() => onApply(passphrase)}
-                className="flex-shrink-0 flex items-center gap-2 px-6 py-3 rounded-sm text-sm font-semibold tracking-wide transition-all hover:brightness-110"
-                style={{ backgroundColor: '#B8934A', color: '#0E2219' }}
-              >
-                <ClipboardList size={15} />
-                Apply Online
-              </button>
-            </div>
+            )}
           </div>
         )}
       </main>
 
+      {viewing && (
+        <VaultDocumentViewer
+          sessionToken={sessionToken}
+          document={viewing}
+          onClose={() => setViewing(null)}
+          onDownload={handleDownload}
+        />
+      )}
+
       {/* Footer */}
       <footer className="flex-shrink-0 border-t px-6 py-8" style={{ borderColor: 'rgba(255,255,255,0.08)' }}>
         <div className="max-w-5xl mx-auto">
           <div className="flex flex-col md:flex-row items-center justify-between gap-6">
-            <div className="flex flex-col sm:flex-row gap-6 text-xs opacity-40">
-              <div className="flex items-start gap-2">
-                <MapPin size={13} className="mt-0.5 flex-shrink-0" />
-                <div>
-                  <p className="font-semibold mb-0.5" style={{ color: '#B8934A', opacity: 1 }}>Australia</p>
-                  <p>Level 6, 111 Cecil Street</p>
-                  <p>South Melbourne VIC 3205</p>
-                </div>
+            <p className="text-xs opacity-40" style={{ fontFamily: '"Cormorant Garamond", Georgia, serif' }}>{tenantName}</p>
+            {contactEmail && (
+              <div className="flex items-center gap-2 text-xs opacity-40">
+                <Mail size={13} />
+                <a href={`mailto:${contactEmail}`} className="hover:opacity-70 transition-opacity">
+                  {contactEmail}
+                </a>
               </div>
-            </div>
-            <div className="flex items-center gap-2 text-xs opacity-40">
-              <Mail size={13} />
-              <a href="mailto:enquiries@arklinetrust.com" className="hover:opacity-70 transition-opacity">
-                enquiries@arklinetrust.com
-              </a>
-            </div>
+            )}
           </div>
           <p className="text-center text-xs opacity-20 mt-6 max-w-3xl mx-auto leading-relaxed">
-            This document contains confidential information prepared exclusively for prospective wholesale investors as defined under the Corporations Act 2001 (Cth). It does not constitute an offer to sell or a solicitation to acquire any financial product. Past performance is not indicative of future results.
+            This area contains confidential information prepared exclusively for prospective wholesale investors. It does not constitute an offer to sell or a solicitation to acquire any financial product. Past performance is not indicative of future results.
           </p>
         </div>
       </footer>
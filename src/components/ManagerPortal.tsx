@@ -2,8 +2,10 @@ import { useState, lazy, Suspense, useCallback } from 'react';
 import { LogOut } from 'lucide-react';
 import LanguageSelector from './shared/LanguageSelector';
 import { useAuth } from '../lib/auth';
+import PermissionGuard from './shared/PermissionGuard';
 import { useTenantBranding } from '../lib/hooks';
 import ManagerSidebar, { TabType } from './manager/ManagerSidebar';
+import { TAB_PERMISSIONS } from './manager/tabPermissions';
 import { PanelLoader } from './shared/Spinner';
 import { TutorialProvider } from '../lib/tutorial/TutorialContext';
 import { TourOverlay } from './tutorial/TourOverlay';
@@ -61,8 +63,10 @@ const InvitationTemplateManager = lazy(() => import('./manager/InvitationTemplat
 const EmailTemplateManager = lazy(() => import('./manager/EmailTemplateManager'));
 const InvoiceManager = lazy(() => import('./manager/invoicing/InvoiceManager'));
 const VaultDocumentManager = lazy(() => import('./manager/VaultDocumentManager'));
+const ApplicationFormBuilder = lazy(() => import('./manager/ApplicationFormBuilder'));
 const BusinessPhone = lazy(() => import('./manager/phone/BusinessPhone'));
 const LeadSourcing = lazy(() => import('./manager/LeadSourcing'));
+const AuditTrailViewer = lazy(() => import('./manager/AuditTrailViewer'));
 
 function TabFallback() {
   return <PanelLoader />;
@@ -149,57 +153,61 @@ export default function ManagerPortal() {
         <main className="flex-1 overflow-y-auto scrollbar-thin bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
           <div className="max-w-[1600px] mx-auto px-6 py-6">
             <div className="animate-fadeIn">
-              <Suspense fallback={<TabFallback />}>
-                {activeTab === 'dashboard' && <CRMDashboard onNavigate={(tab) => setActiveTab(tab as TabType)} />}
-                {activeTab === 'funds' && <FundManagement />}
-                {activeTab === 'classes' && <ShareClassManager />}
-                {activeTab === 'accounts' && <CapitalAccountManager />}
-                {activeTab === 'nav' && <NAVDashboard />}
-                {activeTab === 'transactions' && <TransactionManager />}
-                {activeTab === 'capital_calls' && <CapitalCallManager />}
-                {activeTab === 'distributions' && <DistributionManager />}
-                {activeTab === 'redemptions' && <RedemptionManager />}
-                {activeTab === 'fees' && <FeeManager />}
-                {activeTab === 'invoices' && <InvoiceManager />}
-                {activeTab === 'statements' && <InvestorStatements />}
-                {activeTab === 'performance' && <PerformanceReports />}
-                {activeTab === 'reports' && <ReportLibrary />}
-                {activeTab === 'waterfall' && <WaterfallCalculator />}
-                {activeTab === 'carried_interest' && <CarriedInterestTracker />}
-                {activeTab === 'side_pockets' && <SidePocketManager />}
-                {activeTab === 'tax_docs' && <TaxDocumentManager />}
-                {activeTab === 'exchange' && <ExchangeManagement />}
-                {activeTab === 'contacts' && <ContactList />}
-                {activeTab === 'onboarding' && <OnboardingManager />}
-                {activeTab === 'clients' && <ClientManager />}
-                {activeTab === 'communications' && <Communications />}
-                {activeTab === 'newsletters' && <NewsletterManager />}
-                {activeTab === 'email' && <EmailClient />}
-                {activeTab === 'community' && <CommunityHub />}
-                {activeTab === 'whitelabel' && <WhiteLabelManager />}
-                {activeTab === 'ai_agents' && <AIAgentManagement />}
-                {activeTab === 'voice_setup' && <VoiceAgentSetup />}
-                {activeTab === 'voice_live' && <LiveCallDashboard />}
-                {activeTab === 'voice_dialer' && <VoiceAgentDialer />}
-                {activeTab === 'voice_analytics' && <VoiceAgentAnalytics />}
-                {activeTab === 'tasks' && <TaskManager />}
-                {activeTab === 'analytics' && <Analytics />}
-                {activeTab === 'compliance' && <ComplianceCenter />}
-                {activeTab === 'users' && <UserManagement />}
-                {activeTab === 'staff' && <StaffManagement />}
-                {activeTab === 'blog' && <BlogManager />}
-                {activeTab === 'testimonials' && <TestimonialsManager />}
-                {activeTab === 'faq' && <FAQManager />}
-                {activeTab === 'forms' && <FormBuilder />}
-                {activeTab === 'scheduler' && <ContentScheduler />}
-                {activeTab === 'subscribers' && <NewsletterSubscribers />}
-                {activeTab === 'invitation_templates' && <InvitationTemplateManager />}
-                {activeTab === 'email_templates' && <EmailTemplateManager />}
-                {activeTab === 'account_settings' && <AccountSettings />}
-                {activeTab === 'vault_docs' && <VaultDocumentManager />}
-                {activeTab === 'business_phone' && <BusinessPhone />}
-                {activeTab === 'lead_sourcing' && <LeadSourcing />}
-              </Suspense>
+              <PermissionGuard permission={TAB_PERMISSIONS[activeTab]}>
+                <Suspense fallback={<TabFallback />}>
+                  {activeTab === 'dashboard' && <CRMDashboard onNavigate={(tab) => setActiveTab(tab as TabType)} />}
+                  {activeTab === 'funds' && <FundManagement />}
+                  {activeTab === 'classes' && <ShareClassManager />}
+                  {activeTab === 'accounts' && <CapitalAccountManager />}
+                  {activeTab === 'nav' && <NAVDashboard />}
+                  {activeTab === 'transactions' && <TransactionManager />}
+                  {activeTab === 'capital_calls' && <CapitalCallManager />}
+                  {activeTab === 'distributions' && <DistributionManager />}
+                  {activeTab === 'redemptions' && <RedemptionManager />}
+                  {activeTab === 'fees' && <FeeManager />}
+                  {activeTab === 'invoices' && <InvoiceManager />}
+                  {activeTab === 'statements' && <InvestorStatements />}
+                  {activeTab === 'performance' && <PerformanceReports />}
+                  {activeTab === 'reports' && <ReportLibrary />}
+                  {activeTab === 'waterfall' && <WaterfallCalculator />}
+                  {activeTab === 'carried_interest' && <CarriedInterestTracker />}
+                  {activeTab === 'side_pockets' && <SidePocketManager />}
+                  {activeTab === 'tax_docs' && <TaxDocumentManager />}
+                  {activeTab === 'exchange' && <ExchangeManagement />}
+                  {activeTab === 'contacts' && <ContactList />}
+                  {activeTab === 'onboarding' && <OnboardingManager />}
+                  {activeTab === 'clients' && <ClientManager />}
+                  {activeTab === 'communications' && <Communications />}
+                  {activeTab === 'newsletters' && <NewsletterManager />}
+                  {activeTab === 'email' && <EmailClient />}
+                  {activeTab === 'community' && <CommunityHub />}
+                  {activeTab === 'whitelabel' && <WhiteLabelManager />}
+                  {activeTab === 'ai_agents' && <AIAgentManagement />}
+                  {activeTab === 'voice_setup' && <VoiceAgentSetup />}
+                  {activeTab === 'voice_live' && <LiveCallDashboard />}
+                  {activeTab === 'voice_dialer' && <VoiceAgentDialer />}
+                  {activeTab === 'voice_analytics' && <VoiceAgentAnalytics />}
+                  {activeTab === 'tasks' && <TaskManager />}
+                  {activeTab === 'analytics' && <Analytics />}
+                  {activeTab === 'compliance' && <ComplianceCenter />}
+                  {activeTab === 'users' && <UserManagement />}
+                  {activeTab === 'staff' && <StaffManagement />}
+                  {activeTab === 'blog' && <BlogManager />}
+                  {activeTab === 'testimonials' && <TestimonialsManager />}
+                  {activeTab === 'faq' && <FAQManager />}
+                  {activeTab === 'forms' && <FormBuilder />}
+                  {activeTab === 'scheduler' && <ContentScheduler />}
+                  {activeTab === 'subscribers' && <NewsletterSubscribers />}
+                  {activeTab === 'invitation_templates' && <InvitationTemplateManager />}
+                  {activeTab === 'email_templates' && <EmailTemplateManager />}
+                  {activeTab === 'account_settings' && <AccountSettings />}
+                  {activeTab === 'vault_docs' && <VaultDocumentManager />}
+                  {activeTab === 'application_forms' && <ApplicationFormBuilder />}
+                  {activeTab === 'business_phone' && <BusinessPhone />}
+                  {activeTab === 'lead_sourcing' && <LeadSourcing />}
+                  {activeTab === 'audit_trail' && currentTenant && <AuditTrailViewer tenantId={currentTenant.id} />}
+                </Suspense>
+              </PermissionGuard>
             </div>
           </div>
         </main>
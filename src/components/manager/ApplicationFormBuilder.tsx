@@ -0,0 +1,888 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  ClipboardList, Plus, Trash2, ChevronUp, ChevronDown, ChevronRight, Save, Upload, Download,
+  AlertCircle, CheckCircle, Loader2, X, FileText, History,
+} from 'lucide-react';
+import { useAuth } from '../../lib/auth';
+import {
+  ApplicationField, ApplicationFieldType, ApplicationOption, ApplicationSchema, ApplicationSchemaRecord,
+  FieldCondition, PROMOTED_COLUMNS, PromotedColumn, SignatureBlock, FIELD_TYPE_LABELS, OPTION_FIELD_TYPES,
+  checkSchema, discardApplicationSchemaDraft, fetchApplicationSchemaVersions, publishApplicationSchema,
+  saveApplicationSchemaDraft,
+} from '../../lib/applicationSchema';
+import { APPLICATION_TEMPLATES, cloneTemplateSchema } from '../../lib/applicationTemplates';
+import { renderApplicationPdf } from '../../lib/applicationPdf';
+import { downloadPdf } from '../../lib/pdfDocument';
+
+const inputCls = 'w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50';
+const labelCls = 'block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5';
+
+const COLUMN_LABELS: Record<PromotedColumn, string> = {
+  contact_title: 'Contact title',
+  contact_given_names: 'Contact given names',
+  contact_surname: 'Contact surname',
+  contact_email: 'Contact email',
+  contact_phone: 'Contact phone',
+  postal_address: 'Postal address',
+  postal_suburb: 'Postal suburb',
+  postal_state: 'Postal state',
+  postal_postcode: 'Postal postcode',
+  postal_country: 'Postal country',
+};
+
+const EMPTY_SCHEMA: ApplicationSchema = {
+  title: 'Investor Application Form',
+  investor_types: [{ value: 'individual', label: 'Individual' }],
+  sections: [],
+  signatures: [{ id: 'investor', label: 'Investor signature', min_signers: 1, max_signers: 1 }],
+};
+
+function toId(label: string) {
+  const id = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(id) ? id : `f_${id}`;
+}
+
+/** One option per line as `value | Label`, or just `Label` to derive the value. */
+function parseOptions(text: string): ApplicationOption[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [value, label] = line.includes('|') ? line.split('|').map((s) => s.trim()) : [toId(line), line];
+      return { value, label: label || value };
+    });
+}
+
+function formatOptions(options?: ApplicationOption[]) {
+  return (options || []).map((o) => (o.value === toId(o.label) ? o.label : `${o.value} | ${o.label}`)).join('\n');
+}
+
+function conditionValue(condition: FieldCondition) {
+  if (condition.in) return condition.in.join(', ');
+  return condition.equals === undefined ? '' : String(condition.equals);
+}
+
+function parseCondition(field: string, text: string): FieldCondition {
+  const value = text.trim();
+  if (!value) return { field };
+  if (value.includes(',')) return { field, in: value.split(',').map((v) => v.trim()).filter(Boolean) };
+  if (value === 'true' || value === 'false') return { field, equals: value === 'true' };
+  return { field, equals: value };
+}
+
+function move<T>(items: T[], index: number, delta: number): T[] {
+  const target = index + delta;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+function collectFieldIds(schema: ApplicationSchema): string[] {
+  const ids: string[] = ['investor_type'];
+  const walk = (fields: ApplicationField[]) => fields.forEach((f) => {
+    if (f.type !== 'note' && f.type !== 'group') ids.push(f.id);
+    walk(f.fields || []);
+  });
+  schema.sections.forEach((s) => walk(s.fields));
+  return Array.from(new Set(ids));
+}
+
+// ─── Small editors ──────────────────────────────────────────────────────────────
+
+function InvestorTypeToggles({
+  types, selected, onChange,
+}: { types: ApplicationOption[]; selected?: string[]; onChange: (v: string[] | undefined) => void }) {
+  const current = selected || [];
+  const toggle = (value: string) => {
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    onChange(next.length ? next : undefined);
+  };
+  return (
+    <div>
+      <p className={labelCls}>Investor types</p>
+      <div className="flex flex-wrap gap-1.5">
+        {types.map((t) => (
+          <button
+            key={t.value}
+            type="button"
+            onClick={() => toggle(t.value)}
+            className={`px-2 py-1 rounded text-xs border transition-colors ${current.includes(t.value) ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-1">{current.length ? 'Shown only for the selected types' : 'Shown for every investor type'}</p>
+    </div>
+  );
+}
+
+function ConditionsEditor({
+  conditions, fieldIds, onChange,
+}: { conditions?: FieldCondition[]; fieldIds: string[]; onChange: (v: FieldCondition[] | undefined) => void }) {
+  const list = conditions || [];
+  const update = (index: number, condition: FieldCondition) => {
+    const next = [...list];
+    next[index] = condition;
+    onChange(next);
+  };
+  return (
+    <div>
+      <p className={labelCls}>Show when</p>
+      <div className="space-y-2">
+        {list.map((c, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <select value={c.field} onChange={(e) => update(i, parseCondition(e.target.value, conditionValue(c)))} className={inputCls}>
+              {!fieldIds.includes(c.field) && <option value={c.field}>{c.field}</option>}
+              {fieldIds.map((id) => <option key={id} value={id}>{id}</option>)}
+            </select>
+            <span className="text-xs text-slate-500 flex-shrink-0">is</span>
+            <input
+              value={conditionValue(c)}
+              onChange={(e) => update(i, parseCondition(c.field, e.target.value))}
+              placeholder="any answer"
+              className={inputCls}
+            />
+            <button type="button" onClick={() => { const next = list.filter((_, j) => j !== i); onChange(next.length ? next : undefined); }} className="p-2 text-slate-500 hover:text-red-400">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button type="button" onClick={() => onChange([...list, { field: fieldIds[0] || 'investor_type' }])} className="mt-2 text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1">
+        <Plus className="w-3 h-3" /> Add condition
+      </button>
+      {list.length > 0 && <p className="text-xs text-slate-500 mt-1">Use true/false for yes/no questions; separate several accepted values with commas.</p>}
+    </div>
+  );
+}
+
+function FieldEditor({
+  field, onChange, onRemove, onMove, schema, fieldIds, nested,
+}: {
+  field: ApplicationField;
+  onChange: (f: ApplicationField) => void;
+  onRemove: () => void;
+  onMove: (delta: number) => void;
+  schema: ApplicationSchema;
+  fieldIds: string[];
+  nested?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [optionsText, setOptionsText] = useState(formatOptions(field.options));
+  const set = <K extends keyof ApplicationField>(key: K, value: ApplicationField[K]) => onChange({ ...field, [key]: value });
+
+  // Resync the options text when the field under this editor changes, e.g. after reordering
+  useEffect(() => {
+    setOptionsText((current) =>
+      JSON.stringify(parseOptions(current)) !== JSON.stringify(field.options || []) ? formatOptions(field.options) : current
+    );
+  }, [field.options]);
+
+  const updateSub = (index: number, sub: ApplicationField) => {
+    const next = [...(field.fields || [])];
+    next[index] = sub;
+    set('fields', next);
+  };
+
+  return (
+    <div className="border border-slate-700/60 rounded-lg bg-slate-900/40">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button type="button" onClick={() => setOpen(!open)} className="text-slate-400 hover:text-white">
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <div className="flex-1 min-w-0 cursor-pointer" onClick={() => setOpen(!open)}>
+          <p className="text-sm text-white truncate">
+            {field.label || <span className="text-slate-500">Untitled field</span>}
+            {field.required && <span className="text-amber-400"> *</span>}
+          </p>
+          <p className="text-xs text-slate-500 font-mono truncate">
+            {field.id} · {FIELD_TYPE_LABELS[field.type]}
+            {field.investor_types?.length ? ` · ${field.investor_types.length} types` : ''}
+            {field.visible_when?.length ? ' · conditional' : ''}
+          </p>
+        </div>
+        <button type="button" onClick={() => onMove(-1)} className="p-1 text-slate-500 hover:text-white"><ChevronUp className="w-4 h-4" /></button>
+        <button type="button" onClick={() => onMove(1)} className="p-1 text-slate-500 hover:text-white"><ChevronDown className="w-4 h-4" /></button>
+        <button type="button" onClick={onRemove} className="p-1 text-slate-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+      </div>
+
+      {open && (
+        <div className="px-4 pb-4 pt-2 space-y-4 border-t border-slate-800">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2">
+              <label className={labelCls}>Label</label>
+              <input value={field.label} onChange={(e) => set('label', e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>Id</label>
+              <input value={field.id} onChange={(e) => set('id', e.target.value)} className={`${inputCls} font-mono`} />
+            </div>
+            <div>
+              <label className={labelCls}>Type</label>
+              <select value={field.type} onChange={(e) => set('type', e.target.value as ApplicationFieldType)} className={inputCls}>
+                {(Object.keys(FIELD_TYPE_LABELS) as ApplicationFieldType[])
+                  .filter((t) => !nested || t !== 'group')
+                  .map((t) => <option key={t} value={t}>{FIELD_TYPE_LABELS[t]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>Width</label>
+              <select value={field.width || 'full'} onChange={(e) => set('width', e.target.value as ApplicationField['width'])} className={inputCls}>
+                <option value="full">Full</option>
+                <option value="half">Half</option>
+                <option value="third">Third</option>
+              </select>
+            </div>
+            <div className="flex items-end gap-4 pb-2">
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input type="checkbox" checked={!!field.required} onChange={(e) => set('required', e.target.checked || undefined)} /> Required
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300" title="Left out of notification emails">
+                <input type="checkbox" checked={!!field.sensitive} onChange={(e) => set('sensitive', e.target.checked || undefined)} /> Sensitive
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelCls}>{field.type === 'note' ? 'Text' : 'Help text'}</label>
+            <textarea rows={field.type === 'note' ? 4 : 2} value={field.help || ''} onChange={(e) => set('help', e.target.value || undefined)} className={`${inputCls} resize-y`} />
+          </div>
+
+          {OPTION_FIELD_TYPES.includes(field.type) && (
+            <div>
+              <label className={labelCls}>Options</label>
+              <textarea
+                rows={4}
+                value={optionsText}
+                onChange={(e) => { setOptionsText(e.target.value); set('options', parseOptions(e.target.value)); }}
+                placeholder={'One per line, e.g.\nclass_a | Class A Units'}
+                className={`${inputCls} font-mono resize-y`}
+              />
+            </div>
+          )}
+
+          {['text', 'phone', 'number'].includes(field.type) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelCls}>Format pattern</label>
+                <input value={field.pattern || ''} onChange={(e) => set('pattern', e.target.value || undefined)} placeholder="e.g. \d{3}-?\d{3}" className={`${inputCls} font-mono`} />
+              </div>
+              <div>
+                <label className={labelCls}>Format message</label>
+                <input value={field.pattern_message || ''} onChange={(e) => set('pattern_message', e.target.value || undefined)} className={inputCls} />
+              </div>
+            </div>
+          )}
+
+          {field.type === 'attachment' && (
+            <div>
+              <label className={labelCls}>Accepted files</label>
+              <input value={field.accept || ''} onChange={(e) => set('accept', e.target.value || undefined)} placeholder=".pdf,image/*" className={inputCls} />
+            </div>
+          )}
+
+          {field.type === 'currency' && (
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={!!field.commitment} onChange={(e) => set('commitment', e.target.checked || undefined)} />
+              Counts towards the total committed capital
+            </label>
+          )}
+
+          {!nested && ['text', 'email', 'phone', 'select'].includes(field.type) && (
+            <div>
+              <label className={labelCls}>Store in application column</label>
+              <select value={field.column || ''} onChange={(e) => set('column', (e.target.value || undefined) as PromotedColumn | undefined)} className={inputCls}>
+                <option value="">None</option>
+                {PROMOTED_COLUMNS.map((c) => <option key={c} value={c}>{COLUMN_LABELS[c]}</option>)}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">Mapped columns appear in application lists and search.</p>
+            </div>
+          )}
+
+          {field.type === 'group' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className={labelCls}>Entry label</label>
+                  <input value={field.item_label || ''} onChange={(e) => set('item_label', e.target.value || undefined)} placeholder="Director" className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Minimum</label>
+                  <input type="number" min={0} value={field.min_items ?? ''} onChange={(e) => set('min_items', e.target.value ? Number(e.target.value) : undefined)} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Maximum</label>
+                  <input type="number" min={1} value={field.max_items ?? ''} onChange={(e) => set('max_items', e.target.value ? Number(e.target.value) : undefined)} className={inputCls} />
+                </div>
+              </div>
+              <p className={labelCls}>Fields in each entry</p>
+              {(field.fields || []).map((sub, i) => (
+                <FieldEditor
+                  key={i}
+                  field={sub}
+                  onChange={(f) => updateSub(i, f)}
+                  onRemove={() => set('fields', (field.fields || []).filter((_, j) => j !== i))}
+                  onMove={(delta) => set('fields', move(field.fields || [], i, delta))}
+                  schema={schema}
+                  fieldIds={[...fieldIds, ...(field.fields || []).map((f) => f.id)]}
+                  nested
+                />
+              ))}
+              <button
+                type="button"
+                onClick={() => set('fields', [...(field.fields || []), { id: `field_${(field.fields?.length || 0) + 1}`, type: 'text', label: '' }])}
+                className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> Add field to group
+              </button>
+            </div>
+          )}
+
+          {!nested && <InvestorTypeToggles types={schema.investor_types} selected={field.investor_types} onChange={(v) => set('investor_types', v)} />}
+          <ConditionsEditor conditions={field.visible_when} fieldIds={fieldIds.filter((id) => id !== field.id)} onChange={(v) => set('visible_when', v)} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SignatureBlockEditor({
+  block, types, onChange, onRemove,
+}: { block: SignatureBlock; types: ApplicationOption[]; onChange: (b: SignatureBlock) => void; onRemove: () => void }) {
+  const set = <K extends keyof SignatureBlock>(key: K, value: SignatureBlock[K]) => onChange({ ...block, [key]: value });
+  return (
+    <div className="border border-slate-700/60 rounded-lg bg-slate-900/40 p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-2">
+            <label className={labelCls}>Label</label>
+            <input value={block.label} onChange={(e) => set('label', e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className={labelCls}>Id</label>
+            <input value={block.id} onChange={(e) => set('id', e.target.value)} className={`${inputCls} font-mono`} />
+          </div>
+        </div>
+        <button type="button" onClick={onRemove} className="p-2 mt-6 text-slate-500 hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+      </div>
+      <div>
+        <label className={labelCls}>Instructions</label>
+        <input value={block.description || ''} onChange={(e) => set('description', e.target.value || undefined)} className={inputCls} />
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className={labelCls}>Min signers</label>
+          <input type="number" min={1} value={block.min_signers} onChange={(e) => set('min_signers', Number(e.target.value) || 1)} className={inputCls} />
+        </div>
+        <div>
+          <label className={labelCls}>Max signers</label>
+          <input type="number" min={1} value={block.max_signers} onChange={(e) => set('max_signers', Number(e.target.value) || 1)} className={inputCls} />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelCls}>Capacities (comma separated)</label>
+          <input
+            value={(block.capacities || []).join(', ')}
+            onChange={(e) => {
+              const list = e.target.value.split(',').map((s) => s.trim()).filter(Boolean);
+              set('capacities', list.length ? list : undefined);
+            }}
+            placeholder="Director, Company Secretary"
+            className={inputCls}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        <input type="checkbox" checked={!!block.witness} onChange={(e) => set('witness', e.target.checked || undefined)} /> Requires a witness
+      </label>
+      <InvestorTypeToggles types={types} selected={block.investor_types} onChange={(v) => set('investor_types', v)} />
+    </div>
+  );
+}
+
+// ─── Main component ─────────────────────────────────────────────────────────────
+
+export default function ApplicationFormBuilder() {
+  const { currentTenant, user } = useAuth();
+  const [versions, setVersions] = useState<ApplicationSchemaRecord[]>([]);
+  const [schema, setSchema] = useState<ApplicationSchema | null>(null);
+  const [name, setName] = useState('Investor application');
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [openSection, setOpenSection] = useState<number | null>(0);
+  // Bumped whenever a whole schema is swapped in, so field editors drop their local state
+  const [revision, setRevision] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const tenantId = currentTenant?.id;
+  const problems = useMemo(() => (schema ? checkSchema(schema) : []), [schema]);
+  const fieldIds = useMemo(() => (schema ? collectFieldIds(schema) : []), [schema]);
+  const base = versions.find((v) => v.id === baseId) || null;
+  const published = versions.find((v) => v.status === 'published') || null;
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = setTimeout(() => setToast(null), 4000);
+    return () => clearTimeout(t);
+  }, [toast]);
+
+  const openVersion = useCallback((record: ApplicationSchemaRecord) => {
+    setSchema(JSON.parse(JSON.stringify(record.schema)));
+    setName(record.name);
+    setBaseId(record.id);
+    setDirty(false);
+    setRevision((r) => r + 1);
+  }, []);
+
+  const loadVersions = useCallback(async (openLatest = false) => {
+    if (!tenantId) return;
+    try {
+      const list = await fetchApplicationSchemaVersions(tenantId);
+      setVersions(list);
+      if (openLatest) {
+        const current = list.find((v) => v.status === 'draft') || list.find((v) => v.status === 'published');
+        if (current) openVersion(current);
+      }
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to load form versions' });
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId, openVersion]);
+
+  useEffect(() => {
+    if (tenantId) loadVersions(true);
+  }, [tenantId, loadVersions]);
+
+  function loadTemplate(templateId: string) {
+    if (dirty && !confirm('Replace the current form with this template? Unsaved changes will be lost.')) return;
+    const copy = cloneTemplateSchema(templateId);
+    if (!copy) return;
+    setSchema(copy);
+    setName(APPLICATION_TEMPLATES.find((t) => t.id === templateId)?.name || name);
+    setOpenSection(0);
+    setDirty(true);
+    setRevision((r) => r + 1);
+  }
+
+  function update(next: ApplicationSchema) {
+    setSchema(next);
+    setDirty(true);
+  }
+
+  function updateSection(index: number, patch: Partial<ApplicationSchema['sections'][number]>) {
+    if (!schema) return;
+    const sections = [...schema.sections];
+    sections[index] = { ...sections[index], ...patch };
+    update({ ...schema, sections });
+  }
+
+  async function saveDraft(): Promise<ApplicationSchemaRecord | null> {
+    if (!tenantId || !schema) return null;
+    setBusy(true);
+    try {
+      const saved = await saveApplicationSchemaDraft(tenantId, name, schema, user?.id);
+      setBaseId(saved.id);
+      setDirty(false);
+      await loadVersions();
+      setToast({ type: 'success', message: `Draft version ${saved.version} saved.` });
+      return saved;
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to save draft' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function publish() {
+    if (problems.length > 0) return;
+    if (!confirm('Publish this form? New applicants will see it immediately; applications already started keep the version they began with.')) return;
+    const draft = dirty || base?.status !== 'draft' ? await saveDraft() : base;
+    if (!draft) return;
+    setBusy(true);
+    try {
+      await publishApplicationSchema(draft.id);
+      await loadVersions();
+      setToast({ type: 'success', message: `Version ${draft.version} is now live.` });
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to publish form' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function discardDraft() {
+    if (!base || base.status !== 'draft') return;
+    if (!confirm('Discard this draft?')) return;
+    setBusy(true);
+    try {
+      await discardApplicationSchemaDraft(base.id);
+      const list = await fetchApplicationSchemaVersions(tenantId!);
+      setVersions(list);
+      const live = list.find((v) => v.status === 'published');
+      if (live) openVersion(live);
+      else { setSchema(null); setBaseId(null); setDirty(false); }
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to discard draft' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function downloadBlank() {
+    if (!schema) return;
+    const bytes = await renderApplicationPdf(schema, {
+      tenantName: currentTenant?.name || '',
+      primaryColor: currentTenant?.branding?.primary_color,
+    });
+    downloadPdf(bytes, `${schema.title.replace(/[^a-zA-Z0-9]+/g, '_')}.pdf`);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-6 h-6 text-slate-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-lg bg-amber-500/10 flex items-center justify-center">
+            <ClipboardList className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-white">Application Forms</h1>
+            <p className="text-sm text-slate-400">
+              The subscription form investors complete online from the vault
+              {published ? ` · version ${published.version} is live` : ' · not yet published'}
+            </p>
+          </div>
+        </div>
+        {schema && (
+          <div className="flex items-center gap-2">
+            <button onClick={downloadBlank} className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 border border-slate-700 hover:border-slate-500 transition-colors">
+              <Download className="w-4 h-4" /> Blank PDF
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={busy || (!dirty && base?.status === 'draft')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-40"
+            >
+              <Save className="w-4 h-4" /> Save Draft
+            </button>
+            <button
+              onClick={publish}
+              disabled={busy || problems.length > 0 || (!dirty && base?.status === 'published')}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors disabled:opacity-40"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} Publish
+            </button>
+          </div>
+        )}
+      </div>
+
+      {toast && (
+        <div className={`flex items-center gap-2 px-4 py-3 rounded-lg text-sm border ${toast.type === 'success' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+          {toast.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          {toast.message}
+        </div>
+      )}
+
+      {!schema ? (
+        <div className="border border-dashed border-slate-800 rounded-xl p-8">
+          <div className="text-center mb-6">
+            <ClipboardList className="w-10 h-10 text-slate-700 mx-auto mb-4" />
+            <p className="text-slate-400 font-medium mb-1">No application form yet</p>
+            <p className="text-slate-600 text-sm">Start from a template or a blank form, then adapt it to your offer.</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 max-w-4xl mx-auto">
+            {APPLICATION_TEMPLATES.map((t) => (
+              <button key={t.id} onClick={() => loadTemplate(t.id)} className="text-left p-4 rounded-lg border border-slate-700 hover:border-amber-500/50 bg-slate-800/40 transition-colors">
+                <p className="text-sm font-medium text-white mb-1">{t.name}</p>
+                <p className="text-xs text-slate-500">{t.description}</p>
+              </button>
+            ))}
+            <button onClick={() => update(JSON.parse(JSON.stringify(EMPTY_SCHEMA)))} className="text-left p-4 rounded-lg border border-slate-700 hover:border-amber-500/50 bg-slate-800/40 transition-colors">
+              <p className="text-sm font-medium text-white mb-1">Blank form</p>
+              <p className="text-xs text-slate-500">One investor type and a signature block.</p>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="xl:col-span-2 space-y-6">
+            {/* Settings */}
+            <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-5 space-y-4">
+              <h2 className="text-sm font-semibold text-white">Form</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className={labelCls}>Title</label>
+                  <input value={schema.title} onChange={(e) => update({ ...schema, title: e.target.value })} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Subtitle</label>
+                  <input value={schema.subtitle || ''} onChange={(e) => update({ ...schema, subtitle: e.target.value || undefined })} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Enquiries email</label>
+                  <input value={schema.contact_email || ''} onChange={(e) => update({ ...schema, contact_email: e.target.value || undefined })} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Notify on submission</label>
+                  <input
+                    value={(schema.notification_emails || []).join(', ')}
+                    onChange={(e) => {
+                      const list = e.target.value.split(',').map((s) => s.trim()).filter(Boolean);
+                      update({ ...schema, notification_emails: list.length ? list : undefined });
+                    }}
+                    placeholder="ops@example.com, compliance@example.com"
+                    className={inputCls}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelCls}>Message after submission</label>
+                <textarea rows={2} value={schema.submitted_message || ''} onChange={(e) => update({ ...schema, submitted_message: e.target.value || undefined })} className={`${inputCls} resize-y`} />
+              </div>
+              <div>
+                <label className={labelCls}>Version name</label>
+                <input value={name} onChange={(e) => { setName(e.target.value); setDirty(true); }} className={inputCls} />
+              </div>
+            </div>
+
+            {/* Investor types */}
+            <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-5 space-y-3">
+              <h2 className="text-sm font-semibold text-white">Investor types</h2>
+              {schema.investor_types.map((t, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    value={t.label}
+                    onChange={(e) => {
+                      const types = [...schema.investor_types];
+                      types[i] = { ...t, label: e.target.value };
+                      update({ ...schema, investor_types: types });
+                    }}
+                    className={inputCls}
+                  />
+                  <input
+                    value={t.value}
+                    onChange={(e) => {
+                      const types = [...schema.investor_types];
+                      types[i] = { ...t, value: e.target.value };
+                      update({ ...schema, investor_types: types });
+                    }}
+                    className={`${inputCls} font-mono max-w-[14rem]`}
+                  />
+                  <button type="button" onClick={() => update({ ...schema, investor_types: schema.investor_types.filter((_, j) => j !== i) })} className="p-2 text-slate-500 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => update({ ...schema, investor_types: [...schema.investor_types, { value: `type_${schema.investor_types.length + 1}`, label: '' }] })}
+                className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" /> Add investor type
+              </button>
+            </div>
+
+            {/* Sections */}
+            <div className="space-y-3">
+              <h2 className="text-sm font-semibold text-white">Sections</h2>
+              {schema.sections.map((section, si) => (
+                <div key={si} className="bg-slate-800/40 border border-slate-700/50 rounded-lg">
+                  <div className="flex items-center gap-2 px-4 py-3">
+                    <button type="button" onClick={() => setOpenSection(openSection === si ? null : si)} className="flex-1 flex items-center gap-2 text-left">
+                      {openSection === si ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                      <span className="text-sm font-medium text-white">{section.title || 'Untitled section'}</span>
+                      <span className="text-xs text-slate-500">{section.fields.length} fields</span>
+                      {(section.investor_types?.length || section.visible_when?.length) ? <span className="text-xs text-amber-400/80">conditional</span> : null}
+                    </button>
+                    <button type="button" onClick={() => update({ ...schema, sections: move(schema.sections, si, -1) })} className="p-1 text-slate-500 hover:text-white"><ChevronUp className="w-4 h-4" /></button>
+                    <button type="button" onClick={() => update({ ...schema, sections: move(schema.sections, si, 1) })} className="p-1 text-slate-500 hover:text-white"><ChevronDown className="w-4 h-4" /></button>
+                    <button
+                      type="button"
+                      onClick={() => { if (confirm(`Remove the section "${section.title}"?`)) update({ ...schema, sections: schema.sections.filter((_, j) => j !== si) }); }}
+                      className="p-1 text-slate-500 hover:text-red-400"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {openSection === si && (
+                    <div className="px-4 pb-4 space-y-4 border-t border-slate-700/50 pt-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div className="md:col-span-2">
+                          <label className={labelCls}>Title</label>
+                          <input value={section.title} onChange={(e) => updateSection(si, { title: e.target.value })} className={inputCls} />
+                        </div>
+                        <div>
+                          <label className={labelCls}>Id</label>
+                          <input value={section.id} onChange={(e) => updateSection(si, { id: e.target.value })} className={`${inputCls} font-mono`} />
+                        </div>
+                      </div>
+                      <div>
+                        <label className={labelCls}>Introduction</label>
+                        <textarea rows={2} value={section.description || ''} onChange={(e) => updateSection(si, { description: e.target.value || undefined })} className={`${inputCls} resize-y`} />
+                      </div>
+                      <InvestorTypeToggles types={schema.investor_types} selected={section.investor_types} onChange={(v) => updateSection(si, { investor_types: v })} />
+                      <ConditionsEditor conditions={section.visible_when} fieldIds={fieldIds} onChange={(v) => updateSection(si, { visible_when: v })} />
+
+                      <div className="space-y-2">
+                        <p className={labelCls}>Fields</p>
+                        {section.fields.map((field, fi) => (
+                          <FieldEditor
+                            key={`${revision}-${si}-${fi}`}
+                            field={field}
+                            onChange={(f) => { const fields = [...section.fields]; fields[fi] = f; updateSection(si, { fields }); }}
+                            onRemove={() => updateSection(si, { fields: section.fields.filter((_, j) => j !== fi) })}
+                            onMove={(delta) => updateSection(si, { fields: move(section.fields, fi, delta) })}
+                            schema={schema}
+                            fieldIds={fieldIds}
+                          />
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => updateSection(si, { fields: [...section.fields, { id: `${section.id}_field_${section.fields.length + 1}`, type: 'text', label: '' }] })}
+                          className="text-xs text-amber-400 hover:text-amber-300 flex items-center gap-1"
+                        >
+                          <Plus className="w-3 h-3" /> Add field
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => {
+                  update({ ...schema, sections: [...schema.sections, { id: `section_${schema.sections.length + 1}`, title: 'New section', fields: [] }] });
+                  setOpenSection(schema.sections.length);
+                }}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-amber-400 border border-dashed border-slate-700 hover:border-amber-500/50 w-full justify-center"
+              >
+                <Plus className="w-4 h-4" /> Add section
+              </button>
+            </div>
+
+            {/* Declaration */}
+            <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-5 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-white">Declaration</h2>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={!!schema.declaration}
+                    onChange={(e) => update({
+                      ...schema,
+                      declaration: e.target.checked ? { title: 'Declaration', text: '', agree_label: 'I have read and agree to the declaration above' } : undefined,
+                    })}
+                  />
+                  Applicants must accept a declaration
+                </label>
+              </div>
+              {schema.declaration && (
+                <>
+                  <input value={schema.declaration.title} onChange={(e) => update({ ...schema, declaration: { ...schema.declaration!, title: e.target.value } })} className={inputCls} />
+                  <textarea rows={8} value={schema.declaration.text} onChange={(e) => update({ ...schema, declaration: { ...schema.declaration!, text: e.target.value } })} className={`${inputCls} resize-y`} />
+                  <div>
+                    <label className={labelCls}>Acceptance wording</label>
+                    <input value={schema.declaration.agree_label} onChange={(e) => update({ ...schema, declaration: { ...schema.declaration!, agree_label: e.target.value } })} className={inputCls} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Signatures */}
+            <div className="space-y-3">
+              <h2 className="text-sm font-semibold text-white">Signature blocks</h2>
+              {schema.signatures.map((block, i) => (
+                <SignatureBlockEditor
+                  key={i}
+                  block={block}
+                  types={schema.investor_types}
+                  onChange={(b) => { const signatures = [...schema.signatures]; signatures[i] = b; update({ ...schema, signatures }); }}
+                  onRemove={() => update({ ...schema, signatures: schema.signatures.filter((_, j) => j !== i) })}
+                />
+              ))}
+              <button
+                type="button"
+                onClick={() => update({ ...schema, signatures: [...schema.signatures, { id: `signature_${schema.signatures.length + 1}`, label: 'Signature', min_signers: 1, max_signers: 1 }] })}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-amber-400 border border-dashed border-slate-700 hover:border-amber-500/50 w-full justify-center"
+              >
+                <Plus className="w-4 h-4" /> Add signature block
+              </button>
+            </div>
+          </div>
+
+          {/* Side panel */}
+          <div className="space-y-4">
+            <div className={`rounded-lg p-4 border ${problems.length ? 'bg-red-500/5 border-red-500/30' : 'bg-emerald-500/5 border-emerald-500/30'}`}>
+              {problems.length === 0 ? (
+                <p className="flex items-center gap-2 text-sm text-emerald-300"><CheckCircle className="w-4 h-4" /> Ready to publish</p>
+              ) : (
+                <>
+                  <p className="flex items-center gap-2 text-sm text-red-300 mb-2"><AlertCircle className="w-4 h-4" /> {problems.length} problem{problems.length === 1 ? '' : 's'} to fix before publishing</p>
+                  <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {problems.map((p, i) => <li key={i} className="text-xs text-red-200/80">{p}</li>)}
+                  </ul>
+                </>
+              )}
+            </div>
+
+            <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-4">
+              <p className="flex items-center gap-2 text-sm font-semibold text-white mb-3"><History className="w-4 h-4 text-slate-400" /> Versions</p>
+              {versions.length === 0 ? (
+                <p className="text-xs text-slate-500">Nothing saved yet.</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {versions.map((v) => (
+                    <button
+                      key={v.id}
+                      onClick={() => { if (!dirty || confirm('Open this version? Unsaved changes will be lost.')) openVersion(v); }}
+                      className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded text-left text-xs transition-colors ${v.id === baseId ? 'bg-slate-700/60' : 'hover:bg-slate-700/30'}`}
+                    >
+                      <span className="text-slate-300 truncate">v{v.version} · {v.name}</span>
+                      <span className={`px-1.5 py-0.5 rounded flex-shrink-0 ${v.status === 'published' ? 'bg-emerald-500/15 text-emerald-300' : v.status === 'draft' ? 'bg-amber-500/15 text-amber-300' : 'bg-slate-700 text-slate-400'}`}>
+                        {v.status}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {base?.status === 'draft' && (
+                <button onClick={discardDraft} disabled={busy} className="mt-3 text-xs text-red-400 hover:text-red-300 flex items-center gap-1">
+                  <Trash2 className="w-3 h-3" /> Discard draft
+                </button>
+              )}
+              {base && base.status !== 'draft' && (
+                <p className="text-xs text-slate-500 mt-3">Saving changes to a {base.status} version creates a new draft.</p>
+              )}
+            </div>
+
+            <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-4">
+              <p className="flex items-center gap-2 text-sm font-semibold text-white mb-3"><FileText className="w-4 h-4 text-slate-400" /> Templates</p>
+              <div className="space-y-1.5">
+                {APPLICATION_TEMPLATES.map((t) => (
+                  <button key={t.id} onClick={() => loadTemplate(t.id)} className="w-full text-left px-3 py-2 rounded text-xs text-slate-300 hover:bg-slate-700/30">
+                    {t.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, ShieldAlert, Download, Search, ChevronDown, ChevronRight, History } from 'lucide-react';
+import { formatDateTime } from '../../lib/format';
+import {
+  AUDITED_RESOURCES,
+  AUDIT_PAGE_SIZE,
+  AuditLogEntry,
+  AuditLogFilters,
+  ChainVerification,
+  exportAuditLogsCsv,
+  searchAuditLogs,
+  verifyAuditChain,
+} from '../../lib/auditTrail';
+
+interface AuditTrailViewerProps {
+  tenantId: string;
+  /** Record verifications and exports in the trail; off for auditors, who are read-only. */
+  recordEvents?: boolean;
+}
+
+const EMPTY_FILTERS: AuditLogFilters = { resource: '', action: '', search: '', actor: '', from: '', to: '' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditTrailViewer({ tenantId, recordEvents = true }: AuditTrailViewerProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<AuditLogFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    setVerification(null);
+    setPage(0);
+  }, [tenantId]);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await searchAuditLogs(tenantId, applied, page);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error loading audit trail:', error);
+    }
+    setLoading(false);
+  }, [tenantId, applied, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setApplied({ ...filters });
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      setVerification(await verifyAuditChain(tenantId, recordEvents));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to verify the audit chain');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { csv } = await exportAuditLogsCsv(tenantId, applied, recordEvents);
+      const blob = new Blob([csv], { type: 'text/csv' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-trail-${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to export the audit trail');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const changedFields = (entry: AuditLogEntry) => {
+    const before = entry.changes?.before || {};
+    const after = entry.changes?.after || {};
+    return Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  };
+
+  const actionColor = (action: string | null) => {
+    if (action === 'delete') return 'text-red-400';
+    if (action === 'insert') return 'text-green-400';
+    if (action === 'update') return 'text-yellow-400';
+    return 'text-cyan-400';
+  };
+
+  const pageCount = Math.max(Math.ceil(total / AUDIT_PAGE_SIZE), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-light text-white mb-1">
+            Audit <span className="font-semibold">Trail</span>
+          </h2>
+          <p className="text-slate-400">Append-only, hash-chained record of changes to financial and investor data</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleVerify}
+            disabled={verifying}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            {verifying ? 'Verifying...' : 'Verify Chain'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || total === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+      </div>
+
+      {verification && (
+        verification.valid ? (
+          <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg flex items-start gap-3">
+            <ShieldCheck className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <div className="text-green-300 font-medium">Chain intact across {verification.checked.toLocaleString()} entries</div>
+              {verification.head_hash && (
+                <div className="text-slate-400 mt-1">
+                  Head hash <span className="font-mono text-slate-300 break-all">{verification.head_hash}</span>. Record it in your workpapers to detect later truncation.
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-3">
+            <ShieldAlert className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <div className="text-red-300 font-medium">Chain broken at entry {verification.broken_at}</div>
+              <div className="text-slate-400 mt-1">
+                {verification.problem}. {verification.checked.toLocaleString()} entries before it verified.
+              </div>
+            </div>
+          </div>
+        )
+      )}
+
+      <form onSubmit={applyFilters} className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 grid grid-cols-6 gap-3">
+        <select
+          value={filters.resource}
+          onChange={(e) => setFilters({ ...filters, resource: e.target.value })}
+          className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+        >
+          <option value="">All records</option>
+          {AUDITED_RESOURCES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          <option value="audit_logs">Audit trail access</option>
+        </select>
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+        >
+          <option value="">All actions</option>
+          <option value="insert">Created</option>
+          <option value="update">Updated</option>
+          <option value="delete">Deleted</option>
+          <option value="event">Events</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Actor email"
+          value={filters.actor}
+          onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+          className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+        />
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          className="px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Record ID, reason..."
+            value={filters.search}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+          />
+          <button type="submit" className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg" title="Search">
+            <Search className="w-4 h-4" />
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-400">Loading audit trail...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <History className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">No audit entries match these filters</p>
+        </div>
+      ) : (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="px-4 py-3 w-8"></th>
+                <th className="px-4 py-3">#</th>
+                <th className="px-4 py-3">Time</th>
+                <th className="px-4 py-3">Event</th>
+                <th className="px-4 py-3">Actor</th>
+                <th className="px-4 py-3">Record</th>
+                <th className="px-4 py-3">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                    className="border-b border-slate-800 hover:bg-slate-800/60 cursor-pointer"
+                  >
+                    <td className="px-4 py-3 text-slate-500">
+                      {expanded === entry.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="px-4 py-3 text-slate-500 font-mono">{entry.sequence_number ?? '-'}</td>
+                    <td className="px-4 py-3 text-slate-300 whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+                    <td className="px-4 py-3">
+                      <span className={actionColor(entry.action)}>{entry.event_type.replace(/_/g, ' ')}</span>
+                    </td>
+                    <td className="px-4 py-3 text-white">{entry.additional_data?.actor_email || (entry.user_id ? entry.user_id.slice(0, 8) : 'system')}</td>
+                    <td className="px-4 py-3 text-slate-300">
+                      {entry.resource?.replace(/_/g, ' ')}
+                      {entry.resource_id && <span className="text-slate-500 font-mono text-xs ml-2">{entry.resource_id.slice(0, 8)}</span>}
+                    </td>
+                    <td className="px-4 py-3 text-slate-400 truncate max-w-xs">{entry.reason || '-'}</td>
+                  </tr>
+                  {expanded === entry.id && (
+                    <tr className="border-b border-slate-800 bg-slate-900/60">
+                      <td colSpan={7} className="px-8 py-4 space-y-4">
+                        {entry.changes && changedFields(entry).length > 0 && (
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-left text-slate-500">
+                                <th className="py-1 w-1/5">Field</th>
+                                <th className="py-1 w-2/5">Before</th>
+                                <th className="py-1 w-2/5">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {changedFields(entry).map(field => (
+                                <tr key={field} className="border-t border-slate-800">
+                                  <td className="py-1 text-slate-400 font-mono">{field}</td>
+                                  <td className="py-1 text-red-300 font-mono break-all">{formatValue(entry.changes?.before?.[field])}</td>
+                                  <td className="py-1 text-green-300 font-mono break-all">{formatValue(entry.changes?.after?.[field])}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {entry.action === 'event' && entry.additional_data && (
+                          <pre className="text-xs text-slate-300 font-mono whitespace-pre-wrap">{JSON.stringify(entry.additional_data, null, 2)}</pre>
+                        )}
+                        <div className="grid grid-cols-2 gap-4 text-xs">
+                          <div>
+                            <div className="text-slate-500">Record ID</div>
+                            <div className="text-slate-300 font-mono break-all">{entry.resource_id || '-'}</div>
+                          </div>
+                          <div>
+                            <div className="text-slate-500">IP address / user agent</div>
+                            <div className="text-slate-300 break-all">{entry.ip_address || '-'} · {entry.user_agent || '-'}</div>
+                          </div>
+                          <div>
+                            <div className="text-slate-500">Previous hash</div>
+                            <div className="text-slate-400 font-mono break-all">{entry.previous_hash || '(start of chain)'}</div>
+                          </div>
+                          <div>
+                            <div className="text-slate-500">Entry hash</div>
+                            <div className="text-slate-300 font-mono break-all">{entry.current_hash}</div>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex justify-between items-center px-4 py-3 text-sm text-slate-400 border-t border-slate-700">
+            <span>{total.toLocaleString()} entries</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount}
+                className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
 import { useState, useEffect } from 'react';
-import { Plus, Bell, CheckCircle, Clock, AlertCircle, DollarSign } from 'lucide-react';
+import { Plus, Bell, CheckCircle, Clock, AlertCircle, Users } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import { getSendingAccountId } from '../../lib/email';
+import {
+  CallAllocation,
+  DefaultStatus,
+  computeCallAllocations,
+  issueCapitalCallBatch,
+  refreshOverdueCalls,
+  sendCapitalCallNotices,
+  setDefaultStatus,
+} from '../../lib/capitalCalls';
 
 interface Fund {
   id: string;
@@ -29,6 +39,10 @@ interface CapitalCall {
   percentage_of_commitment: number;
   status: string;
   purpose: string;
+  batch_id: string | null;
+  default_interest_accrued: number | null;
+  default_status: DefaultStatus;
+  notice_sent_at: string | null;
   capital_account: {
     account_number: string;
     investor: { full_name: string; email: string };
@@ -36,7 +50,8 @@ interface CapitalCall {
 }
 
 export default function CapitalCallManager() {
-  const { currentTenant, user } = useAuth();
+  const { currentTenant, user, hasPermission } = useAuth();
+  const canSendEmail = hasPermission('can_send_communications');
   const [funds, setFunds] = useState<Fund[]>([]);
   const [accounts, setAccounts] = useState<CapitalAccount[]>([]);
   const [calls, setCalls] = useState<CapitalCall[]>([]);
@@ -44,6 +59,22 @@ export default function CapitalCallManager() {
   const [filterStatus, setFilterStatus] = useState('all');
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
+  const [showBatchModal, setShowBatchModal] = useState(false);
+  const [issuing, setIssuing] = useState(false);
+  const [batchForm, setBatchForm] = useState({
+    call_basis: 'amount' as 'amount' | 'percent_of_commitment',
+    total_amount: 0,
+    percentage_of_commitment: 0,
+    call_date: new Date().toISOString().split('T')[0],
+    due_date: '',
+    default_interest_rate_pct: 8,
+    purpose: '',
+    payment_instructions: '',
+    notes: '',
+    send_notices: true,
+  });
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [excusedReasons, setExcusedReasons] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState({
     capital_account_id: '',
     call_date: new Date().toISOString().split('T')[0],
@@ -62,7 +93,9 @@ export default function CapitalCallManager() {
   useEffect(() => {
     if (selectedFund) {
       loadAccounts();
-      loadCalls();
+      refreshOverdueCalls(selectedFund)
+        .catch(error => console.error('Error refreshing overdue calls:', error))
+        .finally(() => loadCalls());
     }
   }, [selectedFund, filterStatus]);
 
@@ -130,49 +163,122 @@ export default function CapitalCallManager() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const callNumber = `CALL-${Date.now().toString().slice(-8)}`;
+    const account = accounts.find(a => a.id === formData.capital_account_id);
     const selectedFundData = funds.find(f => f.id === selectedFund);
 
-    const { error } = await supabase
-      .from('capital_calls')
-      .insert({
-        tenant_id: currentTenant?.id,
-        fund_id: selectedFund,
-        capital_account_id: formData.capital_account_id,
-        call_number: callNumber,
-        call_date: formData.call_date,
-        due_date: formData.due_date,
-        call_amount: formData.call_amount,
-        percentage_of_commitment: formData.percentage_of_commitment,
+    try {
+      await issueCapitalCallBatch({
+        tenantId: currentTenant!.id,
+        fundId: selectedFund,
+        callDate: formData.call_date,
+        dueDate: formData.due_date,
+        callBasis: 'amount',
+        totalAmount: formData.call_amount,
+        percentageOfCommitment: null,
         currency: selectedFundData?.base_currency || 'USD',
-        status: 'issued',
+        excludedAccountIds: [],
+        excusedAccounts: [],
+        defaultInterestRatePct: 0,
         purpose: formData.purpose,
+        paymentInstructions: formData.payment_instructions,
         notes: formData.notes,
-        payment_instructions: formData.payment_instructions,
-        created_by: user?.id,
-      });
+      }, [{
+        capitalAccountId: formData.capital_account_id,
+        unfunded: account ? account.commitment_amount - (account.capital_called || 0) : 0,
+        callAmount: formData.call_amount,
+        percentageOfCommitment: formData.percentage_of_commitment,
+      }]);
 
-    if (!error) {
       closeModal();
       loadCalls();
-      updateCapitalAccountCalled(formData.capital_account_id, formData.call_amount);
-    } else {
+      loadAccounts();
+    } catch (error) {
+      console.error('Error creating capital call:', error);
       alert('Error creating capital call');
     }
   };
 
-  const updateCapitalAccountCalled = async (accountId: string, amount: number) => {
-    const { data: account } = await supabase
-      .from('capital_accounts')
-      .select('capital_called')
-      .eq('id', accountId)
-      .single();
+  const previewAllocations = (): { allocations: CallAllocation[]; error: string | null } => {
+    try {
+      return {
+        allocations: computeCallAllocations({
+          accounts,
+          basis: batchForm.call_basis,
+          totalAmount: batchForm.total_amount,
+          percentageOfCommitment: batchForm.percentage_of_commitment,
+          excludedAccountIds: Array.from(excludedIds),
+          excusedAccountIds: Object.keys(excusedReasons),
+        }),
+        error: null,
+      };
+    } catch (error) {
+      return { allocations: [], error: error instanceof Error ? error.message : 'Error allocating capital call' };
+    }
+  };
 
-    if (account) {
-      await supabase
-        .from('capital_accounts')
-        .update({ capital_called: (account.capital_called || 0) + amount })
-        .eq('id', accountId);
+  const handleBatchSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { allocations, error: allocationError } = previewAllocations();
+    if (allocationError || allocations.length === 0) {
+      alert(allocationError || 'No investors with unfunded commitment to call');
+      return;
+    }
+
+    const selectedFundData = funds.find(f => f.id === selectedFund);
+    setIssuing(true);
+
+    try {
+      const batchId = await issueCapitalCallBatch({
+        tenantId: currentTenant!.id,
+        fundId: selectedFund,
+        callDate: batchForm.call_date,
+        dueDate: batchForm.due_date,
+        callBasis: batchForm.call_basis,
+        totalAmount: batchForm.total_amount,
+        percentageOfCommitment: batchForm.call_basis === 'percent_of_commitment' ? batchForm.percentage_of_commitment : null,
+        currency: selectedFundData?.base_currency || 'USD',
+        excludedAccountIds: Array.from(excludedIds),
+        excusedAccounts: Object.entries(excusedReasons).map(([capital_account_id, reason]) => ({ capital_account_id, reason })),
+        defaultInterestRatePct: batchForm.default_interest_rate_pct,
+        purpose: batchForm.purpose,
+        paymentInstructions: batchForm.payment_instructions,
+        notes: batchForm.notes,
+      }, allocations);
+
+      if (batchForm.send_notices && canSendEmail) {
+        const accountId = await getSendingAccountId(user!.id);
+        if (!accountId) {
+          alert('Capital call issued, but notices were not sent: you have no email account with send access.');
+        } else {
+          const sent = await sendCapitalCallNotices(batchId, {
+            tenantName: currentTenant?.name || '',
+            primaryColor: currentTenant?.branding?.primary_color,
+          }, accountId);
+          alert(`Capital call issued to ${allocations.length} investors; ${sent} notices emailed.`);
+        }
+      }
+
+      setShowBatchModal(false);
+      loadCalls();
+      loadAccounts();
+    } catch (error) {
+      console.error('Error issuing capital call:', error);
+      alert(error instanceof Error ? error.message : 'Error issuing capital call');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleDefaultStatus = async (call: CapitalCall, status: DefaultStatus) => {
+    const notes = status === 'none' ? undefined : prompt('Remedy notes (optional):') ?? undefined;
+
+    try {
+      await setDefaultStatus(call.id, status, notes);
+      loadCalls();
+    } catch (error) {
+      console.error('Error updating default status:', error);
+      alert('Error updating default status');
     }
   };
 
@@ -235,6 +341,47 @@ export default function CapitalCallManager() {
     setShowModal(false);
   };
 
+  const openBatchModal = () => {
+    const defaultDueDate = new Date();
+    defaultDueDate.setDate(defaultDueDate.getDate() + 10);
+
+    setBatchForm({
+      ...batchForm,
+      total_amount: 0,
+      percentage_of_commitment: 0,
+      call_date: new Date().toISOString().split('T')[0],
+      due_date: defaultDueDate.toISOString().split('T')[0],
+      purpose: '',
+      notes: '',
+    });
+    setExcludedIds(new Set());
+    setExcusedReasons({});
+    setShowBatchModal(true);
+  };
+
+  const toggleExcluded = (accountId: string) => {
+    const next = new Set(excludedIds);
+    if (next.has(accountId)) {
+      next.delete(accountId);
+    } else {
+      next.add(accountId);
+    }
+    setExcludedIds(next);
+  };
+
+  const toggleExcused = (accountId: string) => {
+    if (excusedReasons[accountId] !== undefined) {
+      const next = { ...excusedReasons };
+      delete next[accountId];
+      setExcusedReasons(next);
+    } else {
+      const reason = prompt('Excuse reason (e.g. regulatory restriction on this investment):');
+      if (reason) {
+        setExcusedReasons({ ...excusedReasons, [accountId]: reason });
+      }
+    }
+  };
+
   const calculateTotals = () => {
     return calls.reduce((acc, call) => {
       acc.totalCalled += call.call_amount;
@@ -277,10 +424,17 @@ export default function CapitalCallManager() {
           </select>
           <button
             onClick={openModal}
-            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center space-x-2 transition-colors"
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center space-x-2 transition-colors"
           >
             <Plus className="w-4 h-4" />
-            <span>Issue Capital Call</span>
+            <span>Single Investor</span>
+          </button>
+          <button
+            onClick={openBatchModal}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center space-x-2 transition-colors"
+          >
+            <Users className="w-4 h-4" />
+            <span>Call Capital for Fund</span>
           </button>
         </div>
       </div>
@@ -297,6 +451,9 @@ export default function CapitalCallManager() {
                 Total overdue: {selectedFundData?.base_currency} {
                   (overdueCalls.reduce((sum, c) => sum + c.amount_outstanding, 0) / 1000).toFixed(0)
                 }K
+                {' '}· Default interest accrued: {selectedFundData?.base_currency} {
+                  overdueCalls.reduce((sum, c) => sum + (c.default_interest_accrued || 0), 0).toLocaleString(undefined, { maximumFractionDigits: 0 })
+                }
               </p>
             </div>
           </div>
@@ -395,6 +552,11 @@ export default function CapitalCallManager() {
                     <div className="text-xs text-yellow-400">
                       Due: {(call.amount_outstanding / 1000).toFixed(0)}K
                     </div>
+                    {(call.default_interest_accrued || 0) > 0 && (
+                      <div className="text-xs text-red-400">
+                        Interest: {(call.default_interest_accrued || 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </div>
+                    )}
                   </div>
                   <div>
                     <span className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
@@ -421,6 +583,25 @@ export default function CapitalCallManager() {
                         Record Payment
                       </button>
                     )}
+                    {(call.status === 'overdue' || call.default_status !== 'none') && (
+                      <select
+                        value={call.default_status}
+                        onChange={(e) => handleDefaultStatus(call, e.target.value as DefaultStatus)}
+                        className="mt-2 w-full px-2 py-1 bg-slate-800 border border-slate-700 rounded text-xs text-white"
+                      >
+                        <option value="none">No remedy</option>
+                        <option value="notice_sent">Default notice sent</option>
+                        <option value="cured">Cured</option>
+                        <option value="suspended">Rights suspended</option>
+                        <option value="forfeited">Interest forfeited</option>
+                        <option value="forced_sale">Forced sale</option>
+                      </select>
+                    )}
+                    {call.notice_sent_at && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        Notice sent {new Date(call.notice_sent_at).toLocaleDateString()}
+                      </div>
+                    )}
                   </div>
                 </div>
                 {call.purpose && (
@@ -441,6 +622,211 @@ export default function CapitalCallManager() {
         )}
       </div>
 
+      {showBatchModal && (() => {
+        const { allocations, error: allocationError } = previewAllocations();
+        const totalCalled = allocations.reduce((sum, a) => sum + a.callAmount, 0);
+
+        return (
+          <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-slate-900 rounded-xl border border-slate-700 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+              <div className="p-6 border-b border-slate-700">
+                <h3 className="text-2xl font-bold text-white">Call Capital for Fund</h3>
+                <p className="text-slate-400 mt-1">
+                  Split pro-rata to unfunded commitment across {selectedFundData?.fund_name}
+                </p>
+              </div>
+
+              <form onSubmit={handleBatchSubmit} className="p-6 space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Call Basis</label>
+                    <select
+                      value={batchForm.call_basis}
+                      onChange={(e) => setBatchForm({ ...batchForm, call_basis: e.target.value as 'amount' | 'percent_of_commitment' })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    >
+                      <option value="amount">Total amount</option>
+                      <option value="percent_of_commitment">% of commitment</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      {batchForm.call_basis === 'amount' ? `Total Amount (${selectedFundData?.base_currency})` : '% of Commitment'}
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      required
+                      value={batchForm.call_basis === 'amount' ? batchForm.total_amount : batchForm.percentage_of_commitment}
+                      onChange={(e) => setBatchForm(batchForm.call_basis === 'amount'
+                        ? { ...batchForm, total_amount: parseFloat(e.target.value) || 0 }
+                        : { ...batchForm, percentage_of_commitment: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Default Interest (% p.a.)</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={batchForm.default_interest_rate_pct}
+                      onChange={(e) => setBatchForm({ ...batchForm, default_interest_rate_pct: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Call Date</label>
+                    <input
+                      type="date"
+                      required
+                      value={batchForm.call_date}
+                      onChange={(e) => setBatchForm({ ...batchForm, call_date: e.target.value })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Due Date</label>
+                    <input
+                      type="date"
+                      required
+                      value={batchForm.due_date}
+                      onChange={(e) => setBatchForm({ ...batchForm, due_date: e.target.value })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Purpose</label>
+                  <input
+                    type="text"
+                    required
+                    value={batchForm.purpose}
+                    onChange={(e) => setBatchForm({ ...batchForm, purpose: e.target.value })}
+                    placeholder="e.g., Acquisition of Portfolio Company X, management fees"
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Payment Instructions</label>
+                  <textarea
+                    value={batchForm.payment_instructions}
+                    onChange={(e) => setBatchForm({ ...batchForm, payment_instructions: e.target.value })}
+                    rows={3}
+                    placeholder="Wire transfer details, account information, etc."
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+
+                <div>
+                  <div className="text-sm font-medium text-slate-300 mb-2">Investor Allocation</div>
+                  {allocationError && (
+                    <div className="mb-2 text-sm text-red-400">{allocationError}</div>
+                  )}
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-400 border-b border-slate-700">
+                        <th className="py-2">Investor</th>
+                        <th className="py-2 text-right">Unfunded</th>
+                        <th className="py-2 text-right">Call Amount</th>
+                        <th className="py-2 text-center">Exclude</th>
+                        <th className="py-2 text-center">Excuse</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {accounts.map(account => {
+                        const allocation = allocations.find(a => a.capitalAccountId === account.id);
+                        const excused = excusedReasons[account.id];
+                        return (
+                          <tr key={account.id} className="border-b border-slate-800 text-white">
+                            <td className="py-2">
+                              <div>{account.investor.full_name}</div>
+                              <div className="text-xs text-slate-400">
+                                {account.account_number}{excused ? ` · Excused: ${excused}` : ''}
+                              </div>
+                            </td>
+                            <td className="py-2 text-right text-slate-300">
+                              {Math.max(0, account.commitment_amount - (account.capital_called || 0)).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            </td>
+                            <td className="py-2 text-right font-medium">
+                              {allocation ? allocation.callAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '—'}
+                              {allocation && (
+                                <div className="text-xs text-slate-400">{allocation.percentageOfCommitment.toFixed(2)}%</div>
+                              )}
+                            </td>
+                            <td className="py-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={excludedIds.has(account.id)}
+                                onChange={() => toggleExcluded(account.id)}
+                                className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-cyan-600"
+                              />
+                            </td>
+                            <td className="py-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={excused !== undefined}
+                                onChange={() => toggleExcused(account.id)}
+                                className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-cyan-600"
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                    <tfoot>
+                      <tr className="text-white font-semibold">
+                        <td className="py-2">{allocations.length} investors</td>
+                        <td></td>
+                        <td className="py-2 text-right">
+                          {selectedFundData?.base_currency} {totalCalled.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </td>
+                        <td colSpan={2}></td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={batchForm.send_notices && canSendEmail}
+                    disabled={!canSendEmail}
+                    onChange={(e) => setBatchForm({ ...batchForm, send_notices: e.target.checked })}
+                    className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-cyan-600 focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+                  />
+                  <span className="text-sm text-slate-300">
+                    Email each investor their notice PDF
+                    {!canSendEmail && <span className="text-slate-500"> (requires the send communications permission)</span>}
+                  </span>
+                </label>
+
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowBatchModal(false)}
+                    className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={issuing || !!allocationError || allocations.length === 0}
+                    className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+                  >
+                    {issuing ? 'Issuing...' : `Issue ${allocations.length} Calls`}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        );
+      })()}
+
       {showModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-slate-900 rounded-xl border border-slate-700 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
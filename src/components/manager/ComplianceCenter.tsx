@@ -1,21 +1,61 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Shield, FileCheck, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
 import KYCManagement from './KYCManagement';
+import FrameworkComplianceAlerts from './FrameworkComplianceAlerts';
+import RegulatoryFilingCalendar from './RegulatoryFilingCalendar';
+import { OPEN_FILING_STATUSES } from '../../lib/filingCalendar';
 
-type ComplianceTab = 'kyc' | 'documents' | 'accreditation';
+type ComplianceTab = 'kyc' | 'documents' | 'accreditation' | 'regulatory' | 'filings';
 
 export default function ComplianceCenter() {
+  const { currentTenant } = useAuth();
   const [activeTab, setActiveTab] = useState<ComplianceTab>('kyc');
+  const [funds, setFunds] = useState<{ id: string; fund_name: string }[]>([]);
+  const [selectedFund, setSelectedFund] = useState('');
   const [documents, setDocuments] = useState<any[]>([]);
   const [kycRecords, setKycRecords] = useState<any[]>([]);
   const [accreditations, setAccreditations] = useState<any[]>([]);
+  const [filingsDue, setFilingsDue] = useState(0);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadComplianceData();
   }, []);
 
+  const loadFunds = useCallback(async () => {
+    const { data } = await supabase
+      .from('funds')
+      .select('id, fund_name')
+      .eq('tenant_id', currentTenant!.id)
+      .eq('status', 'active')
+      .order('fund_name');
+
+    setFunds(data || []);
+    if (data && data.length > 0) setSelectedFund(current => current || data[0].id);
+  }, [currentTenant]);
+
+  // Open filings overdue or due within two weeks
+  const loadFilingsDue = useCallback(async () => {
+    const soon = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { count } = await supabase
+      .from('regulatory_reporting_calendar')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', currentTenant!.id)
+      .in('filing_status', OPEN_FILING_STATUSES)
+      .lte('due_date', soon);
+
+    setFilingsDue(count || 0);
+  }, [currentTenant]);
+
+  useEffect(() => {
+    if (currentTenant) {
+      loadFunds();
+      loadFilingsDue();
+    }
+  }, [currentTenant, loadFunds, loadFilingsDue]);
+
   const loadComplianceData = async () => {
     const [docsRes, kycRes, accredRes] = await Promise.all([
       supabase.from('compliance_documents').select('*, crm_contacts(full_name)').order('uploaded_at', { ascending: false }).limit(50),
@@ -57,6 +97,8 @@ export default function ComplianceCenter() {
     { id: 'kyc', label: 'KYC / AML Screening', badge: kycPending > 0 ? kycPending : undefined },
     { id: 'documents', label: 'Documents', badge: pendingDocs > 0 ? pendingDocs : undefined },
     { id: 'accreditation', label: 'Accreditation' },
+    { id: 'regulatory', label: 'Regulatory Limits' },
+    { id: 'filings', label: 'Filing Calendar', badge: filingsDue > 0 ? filingsDue : undefined },
   ];
 
   return (
@@ -65,7 +107,7 @@ export default function ComplianceCenter() {
         <h2 className="text-2xl font-light text-white mb-1">
           Compliance <span className="font-semibold">Center</span>
         </h2>
-        <p className="text-slate-400">KYC/AML screening, document verification, and accreditation tracking</p>
+        <p className="text-slate-400">KYC/AML screening, document verification, accreditation and regulatory limit monitoring and filings</p>
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -193,6 +235,28 @@ export default function ComplianceCenter() {
           </div>
         </div>
       )}
+
+      {/* Regulatory Limits Tab */}
+      {activeTab === 'regulatory' && (
+        <div className="space-y-4">
+          <select
+            value={selectedFund}
+            onChange={(e) => setSelectedFund(e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+          >
+            {funds.length === 0 && <option value="">No active funds</option>}
+            {funds.map(fund => (
+              <option key={fund.id} value={fund.id}>{fund.fund_name}</option>
+            ))}
+          </select>
+          {selectedFund && currentTenant && (
+            <FrameworkComplianceAlerts fundId={selectedFund} tenantId={currentTenant.id} />
+          )}
+        </div>
+      )}
+
+      {/* Filing Calendar Tab */}
+      {activeTab === 'filings' && <RegulatoryFilingCalendar />}
     </div>
   );
 }
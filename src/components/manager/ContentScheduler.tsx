@@ -19,11 +19,23 @@ interface BlogPost {
   title: string;
 }
 
+interface PageDraftOption {
+  id: string;
+  page_slug: string;
+  updated_at: string;
+}
+
+type ScheduleContentType = 'blog_post' | 'page';
+
+const pageLabel = (slug: string) => (slug === 'home' ? 'Homepage' : slug.charAt(0).toUpperCase() + slug.slice(1));
+
 export function ContentScheduler() {
   const { tenantId, user } = useAuth();
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
+  const [pageDrafts, setPageDrafts] = useState<PageDraftOption[]>([]);
   const [showModal, setShowModal] = useState(false);
+  const [contentType, setContentType] = useState<ScheduleContentType>('blog_post');
   const [selectedPost, setSelectedPost] = useState('');
   const [selectedAction, setSelectedAction] = useState<'publish' | 'unpublish'>('publish');
   const [scheduledDate, setScheduledDate] = useState('');
@@ -36,6 +48,7 @@ export function ContentScheduler() {
     if (tenantId) {
       loadSchedules();
       loadBlogPosts();
+      loadPageDrafts();
     }
   }, [tenantId]);
 
@@ -72,6 +85,21 @@ export function ContentScheduler() {
     }
   }
 
+  async function loadPageDrafts() {
+    try {
+      const { data, error } = await supabase
+        .from('page_drafts')
+        .select('id, page_slug, updated_at')
+        .eq('tenant_id', tenantId)
+        .order('page_slug');
+
+      if (error) throw error;
+      setPageDrafts(data || []);
+    } catch (err) {
+      console.error('Error loading page drafts:', err);
+    }
+  }
+
   async function createSchedule() {
     try {
       if (!selectedPost || !scheduledDate || !scheduledTime) {
@@ -86,10 +114,10 @@ export function ContentScheduler() {
       const { error } = await supabase.from('content_schedule').insert([
         {
           tenant_id: tenantId,
-          content_type: 'blog_post',
+          content_type: contentType,
           content_id: selectedPost,
           scheduled_for: scheduledFor,
-          action: selectedAction,
+          action: contentType === 'page' ? 'publish' : selectedAction,
           created_by: user?.id,
         },
       ]);
@@ -149,7 +177,7 @@ export function ContentScheduler() {
           <Calendar className="w-6 h-6 text-blue-600" />
           <div>
             <h3 className="text-xl font-semibold text-gray-900">Content Scheduler</h3>
-            <p className="text-sm text-gray-600">Schedule posts to publish automatically</p>
+            <p className="text-sm text-gray-600">Schedule posts and page drafts to publish automatically</p>
           </div>
         </div>
         <button onClick={() => setShowModal(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
@@ -164,7 +192,7 @@ export function ContentScheduler() {
         <table className="w-full">
           <thead className="bg-gray-50 border-b border-gray-200">
             <tr>
-              <th className="text-left px-6 py-3 text-sm font-semibold text-gray-900">Post</th>
+              <th className="text-left px-6 py-3 text-sm font-semibold text-gray-900">Content</th>
               <th className="text-left px-6 py-3 text-sm font-semibold text-gray-900">Action</th>
               <th className="text-left px-6 py-3 text-sm font-semibold text-gray-900">Scheduled For</th>
               <th className="text-left px-6 py-3 text-sm font-semibold text-gray-900">Status</th>
@@ -177,9 +205,13 @@ export function ContentScheduler() {
             ) : (
               schedules.map((schedule) => {
                 const post = blogPosts.find((p) => p.id === schedule.content_id);
+                const draft = pageDrafts.find((d) => d.id === schedule.content_id);
+                const label = schedule.content_type === 'page'
+                  ? draft ? `${pageLabel(draft.page_slug)} (page draft)` : 'Page draft'
+                  : post?.title || 'Unknown Post';
                 return (
                   <tr key={schedule.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 font-medium text-gray-900">{post?.title || 'Unknown Post'}</td>
+                    <td className="px-6 py-4 font-medium text-gray-900">{label}</td>
                     <td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-semibold rounded ${schedule.action === 'publish' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>{schedule.action}</span></td>
                     <td className="px-6 py-4 text-gray-600">{new Date(schedule.scheduled_for).toLocaleString()}</td>
                     <td className="px-6 py-4"><div className="flex items-center gap-2">{getStatusIcon(schedule.status)}<span className="text-sm text-gray-700 capitalize">{schedule.status}</span></div>{schedule.error_message && <div className="text-xs text-red-600 mt-1">{schedule.error_message}</div>}</td>
@@ -200,22 +232,47 @@ export function ContentScheduler() {
               <h3 className="text-lg font-semibold text-gray-900">Schedule Content</h3>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Select Post</label>
-                <select value={selectedPost} onChange={(e) => setSelectedPost(e.target.value)} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
-                  <option value="">Choose a post...</option>
-                  {blogPosts.map((post) => (
-                    <option key={post.id} value={post.id}>{post.title}</option>
-                  ))}
+                <label className="block text-sm font-medium text-gray-700 mb-2">Content Type</label>
+                <select value={contentType} onChange={(e) => { setContentType(e.target.value as ScheduleContentType); setSelectedPost(''); }} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                  <option value="blog_post">Blog Post</option>
+                  <option value="page">Website Page Draft</option>
                 </select>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Action</label>
-                <select value={selectedAction} onChange={(e) => setSelectedAction(e.target.value as 'publish' | 'unpublish')} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
-                  <option value="publish">Publish</option>
-                  <option value="unpublish">Unpublish</option>
-                </select>
-              </div>
+              {contentType === 'blog_post' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Select Post</label>
+                  <select value={selectedPost} onChange={(e) => setSelectedPost(e.target.value)} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                    <option value="">Choose a post...</option>
+                    {blogPosts.map((post) => (
+                      <option key={post.id} value={post.id}>{post.title}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Select Page Draft</label>
+                  <select value={selectedPost} onChange={(e) => setSelectedPost(e.target.value)} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                    <option value="">Choose a draft...</option>
+                    {pageDrafts.map((draft) => (
+                      <option key={draft.id} value={draft.id}>
+                        {pageLabel(draft.page_slug)} — saved {new Date(draft.updated_at).toLocaleString()}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">The draft as it stands at the scheduled time is published. Save drafts in the page builder.</p>
+                </div>
+              )}
+
+              {contentType === 'blog_post' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Action</label>
+                  <select value={selectedAction} onChange={(e) => setSelectedAction(e.target.value as 'publish' | 'unpublish')} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500">
+                    <option value="publish">Publish</option>
+                    <option value="unpublish">Unpublish</option>
+                  </select>
+                </div>
+              )}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
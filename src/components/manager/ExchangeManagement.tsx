@@ -1,7 +1,21 @@
-import { useState, useEffect } from 'react';
-import { ShoppingCart, FileCheck, TrendingUp, DollarSign, Coins, CheckCircle, XCircle, Clock, AlertCircle, Plus, X } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { ShoppingCart, FileCheck, TrendingUp, DollarSign, Coins, CheckCircle, XCircle, Clock, AlertCircle, Plus, X, Download, Send, ShieldCheck, BookOpen, Gavel } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import { getSendingAccountId } from '../../lib/email';
+import { downloadPdf } from '../../lib/pdfDocument';
+import {
+  OrderReview,
+  buildTransferConfirmationPdf,
+  getTransferConfirmations,
+  matchExchangeOrder,
+  recordGPDecision,
+  reviewExchangeOrder,
+  sendTransferConfirmations,
+  settleExchangeOrder,
+} from '../../lib/exchangeSettlement';
+import { BookDepth, BookMode, DepthLevel, ExchangeBook, getBookDepth, previewAuction, runAuction } from '../../lib/exchangeOrderBook';
+import { formatCurrency, formatDate, formatNumber } from '../../lib/format';
 
 interface Listing {
   id: string;
@@ -26,9 +40,18 @@ interface Order {
   total_amount: number;
   status: string;
   created_at: string;
+  rofr_status: string | null;
+  rofr_deadline: string | null;
+  gp_consent_at: string | null;
+  settled_at: string | null;
+  settlement_error: string | null;
+  order_source: string | null;
   marketplace_listings: {
     asset_name: string;
-  };
+  } | null;
+  fund: {
+    fund_name: string;
+  } | null;
   buyer: {
     full_name: string;
     email: string;
@@ -39,6 +62,9 @@ interface Order {
   };
 }
 
+const orderAssetName = (order: Order) =>
+  order.marketplace_listings?.asset_name || order.fund?.fund_name || 'Unknown asset';
+
 interface Transaction {
   id: string;
   asset_name: string;
@@ -69,8 +95,9 @@ interface TokenizationRequest {
 }
 
 export default function ExchangeManagement() {
-  const { currentTenant, user } = useAuth();
-  const [activeView, setActiveView] = useState<'listings' | 'orders' | 'transactions' | 'fees' | 'tokenization'>('listings');
+  const { currentTenant, user, hasPermission } = useAuth();
+  const canSendEmail = hasPermission('can_send_communications');
+  const [activeView, setActiveView] = useState<'listings' | 'orders' | 'books' | 'transactions' | 'fees' | 'tokenization'>('listings');
   const [listings, setListings] = useState<Listing[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -93,6 +120,8 @@ export default function ExchangeManagement() {
     requires_accreditation: true,
     expires_at: '',
   });
+  const [orderReview, setOrderReview] = useState<{ order: Order; review: OrderReview } | null>(null);
+  const [processingOrder, setProcessingOrder] = useState<string | null>(null);
   const [stats, setStats] = useState({
     pendingListings: 0,
     activeOrders: 0,
@@ -230,6 +259,7 @@ export default function ExchangeManagement() {
       .select(`
         *,
         marketplace_listings(asset_name),
+        fund:funds!fund_id(fund_name),
         buyer:client_profiles!buyer_id(full_name, email),
         seller:client_profiles!seller_id(full_name, email)
       `)
@@ -294,21 +324,101 @@ export default function ExchangeManagement() {
     }
   };
 
+  const branding = () => ({
+    tenantName: currentTenant?.name || '',
+    primaryColor: currentTenant?.branding?.primary_color,
+  });
+
+  const handleReviewOrder = async (order: Order) => {
+    setProcessingOrder(order.id);
+    try {
+      const review = await reviewExchangeOrder(order.id);
+      setOrderReview({ order, review });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to review order');
+    } finally {
+      setProcessingOrder(null);
+    }
+  };
+
   const handleMatchOrder = async (orderId: string) => {
-    const { error } = await supabase
-      .from('exchange_orders')
-      .update({
-        status: 'matched',
-        matched_at: new Date().toISOString(),
-      })
-      .eq('id', orderId);
+    setProcessingOrder(orderId);
+    try {
+      await matchExchangeOrder(orderId, user!.id);
+      setOrderReview(null);
+      loadData();
+      loadStats();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to match order');
+    } finally {
+      setProcessingOrder(null);
+    }
+  };
 
-    if (!error) {
+  const handleGPDecision = async (order: Order, decision: 'waive' | 'exercise') => {
+    const message = decision === 'waive'
+      ? 'Waive the right of first refusal and consent to this transfer?'
+      : 'Exercise the right of first refusal? The order will be cancelled.';
+    if (!confirm(message)) return;
+
+    try {
+      await recordGPDecision(order.id, user!.id, decision);
       loadData();
       loadStats();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to record decision');
     }
   };
 
+  const handleSettleOrder = async (order: Order) => {
+    if (!confirm(`Settle ${Number(order.quantity).toLocaleString()} units of ${orderAssetName(order)} from ${order.seller.full_name} to ${order.buyer.full_name}?`)) return;
+
+    setProcessingOrder(order.id);
+    try {
+      await settleExchangeOrder(order.id);
+      alert('Order settled and transfer confirmations issued');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Settlement failed');
+    } finally {
+      setProcessingOrder(null);
+      loadData();
+      loadStats();
+    }
+  };
+
+  const handleDownloadConfirmations = async (transactionId: string) => {
+    try {
+      const confirmations = await getTransferConfirmations(transactionId);
+      if (confirmations.length === 0) {
+        alert('No transfer confirmations were issued for this transaction');
+        return;
+      }
+      for (const confirmation of confirmations) {
+        const pdf = await buildTransferConfirmationPdf(branding(), confirmation);
+        downloadPdf(pdf, `${confirmation.confirmation_number}.pdf`);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to build confirmations');
+    }
+  };
+
+  const handleSendConfirmations = async (transactionId: string) => {
+    try {
+      const accountId = await getSendingAccountId(user!.id);
+      if (!accountId) {
+        alert('You have no email account with send access');
+        return;
+      }
+      const sent = await sendTransferConfirmations(transactionId, branding(), accountId);
+      alert(`Sent ${sent} transfer confirmation${sent === 1 ? '' : 's'}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to send confirmations');
+    }
+  };
+
+  const rofrWindowOpen = (order: Order) =>
+    order.rofr_status === 'open' && !!order.rofr_deadline && new Date(order.rofr_deadline) > new Date();
+
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       active: 'text-green-400',
@@ -385,6 +495,7 @@ export default function ExchangeManagement() {
         {[
           { id: 'listings', label: 'Listings', icon: ShoppingCart },
           { id: 'orders', label: 'Orders', icon: FileCheck },
+          { id: 'books', label: 'Order Books', icon: BookOpen },
           { id: 'transactions', label: 'Transactions', icon: CheckCircle },
           { id: 'fees', label: 'Fee Configuration', icon: DollarSign },
           { id: 'tokenization', label: 'Tokenization', icon: Coins },
@@ -499,11 +610,16 @@ export default function ExchangeManagement() {
                   <div className="flex justify-between items-start mb-4">
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
-                        <h3 className="text-lg font-semibold text-white">{order.marketplace_listings.asset_name}</h3>
+                        <h3 className="text-lg font-semibold text-white">{orderAssetName(order)}</h3>
                         <span className={`flex items-center space-x-1 text-xs font-medium px-2 py-1 rounded ${getStatusColor(order.status)} bg-slate-900`}>
                           {getStatusIcon(order.status)}
                           <span>{order.status}</span>
                         </span>
+                        {order.order_source && order.order_source !== 'listing' && (
+                          <span className="text-xs px-2 py-1 rounded bg-slate-900 text-cyan-400">
+                            {order.order_source === 'auction' ? 'Auction' : 'Order book'}
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-slate-400 space-y-1">
                         <div>Buyer: {order.buyer.full_name} ({order.buyer.email})</div>
@@ -512,14 +628,63 @@ export default function ExchangeManagement() {
                     </div>
                     {order.status === 'pending' && (
                       <button
-                        onClick={() => handleMatchOrder(order.id)}
-                        className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-sm transition-colors"
+                        onClick={() => handleReviewOrder(order)}
+                        disabled={processingOrder === order.id}
+                        className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
                       >
-                        Match Order
+                        {processingOrder === order.id ? 'Checking...' : 'Review & Match'}
                       </button>
                     )}
+                    {order.status === 'matched' && (
+                      <div className="flex space-x-2">
+                        {(order.rofr_status === 'open' || !order.gp_consent_at) && (
+                          <>
+                            <button
+                              onClick={() => handleGPDecision(order, 'waive')}
+                              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+                            >
+                              Waive ROFR / Consent
+                            </button>
+                            {order.rofr_status === 'open' && (
+                              <button
+                                onClick={() => handleGPDecision(order, 'exercise')}
+                                className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-300 rounded-lg text-sm transition-colors"
+                              >
+                                Exercise ROFR
+                              </button>
+                            )}
+                          </>
+                        )}
+                        <button
+                          onClick={() => handleSettleOrder(order)}
+                          disabled={processingOrder === order.id || rofrWindowOpen(order)}
+                          title={rofrWindowOpen(order) ? 'Waiting for the right-of-first-refusal window to close' : undefined}
+                          className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                        >
+                          {processingOrder === order.id ? 'Settling...' : 'Settle'}
+                        </button>
+                      </div>
+                    )}
                   </div>
 
+                  {order.status === 'matched' && (
+                    <div className="mb-4 flex flex-wrap gap-3 text-xs">
+                      <span className="px-2 py-1 rounded bg-slate-900 text-slate-300">
+                        ROFR: {order.rofr_status === 'open' && order.rofr_deadline
+                          ? `open until ${new Date(order.rofr_deadline).toLocaleDateString()}`
+                          : (order.rofr_status || 'not_applicable').replace('_', ' ')}
+                      </span>
+                      <span className={`px-2 py-1 rounded bg-slate-900 ${order.gp_consent_at ? 'text-green-400' : 'text-yellow-400'}`}>
+                        GP consent: {order.gp_consent_at ? new Date(order.gp_consent_at).toLocaleDateString() : 'pending'}
+                      </span>
+                      {order.settlement_error && (
+                        <span className="px-2 py-1 rounded bg-red-500/10 text-red-400">
+                          Last settlement attempt failed: {order.settlement_error}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-4 gap-4">
                     <div>
                       <div className="text-xs text-slate-400 mb-1">Quantity</div>
@@ -566,10 +731,27 @@ export default function ExchangeManagement() {
                         <div>Seller: {txn.seller.full_name}</div>
                       </div>
                     </div>
-                    <span className={`flex items-center space-x-1 text-xs font-medium px-2 py-1 rounded ${getStatusColor(txn.status)} bg-slate-900`}>
-                      {getStatusIcon(txn.status)}
-                      <span>{txn.status}</span>
-                    </span>
+                    <div className="flex items-center space-x-2">
+                      <span className={`flex items-center space-x-1 text-xs font-medium px-2 py-1 rounded ${getStatusColor(txn.status)} bg-slate-900`}>
+                        {getStatusIcon(txn.status)}
+                        <span>{txn.status}</span>
+                      </span>
+                      <button
+                        onClick={() => handleDownloadConfirmations(txn.id)}
+                        title="Download transfer confirmations"
+                        className="p-2 text-slate-400 hover:text-cyan-400 transition-colors"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleSendConfirmations(txn.id)}
+                        disabled={!canSendEmail}
+                        title={canSendEmail ? 'Email transfer confirmations to both parties' : 'Requires the send communications permission'}
+                        className="p-2 text-slate-400 hover:text-cyan-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    </div>
                   </div>
 
                   <div className="grid grid-cols-5 gap-4">
@@ -601,9 +783,65 @@ export default function ExchangeManagement() {
         </div>
       )}
 
+      {activeView === 'books' && <OrderBooks funds={listingFunds} />}
       {activeView === 'fees' && <FeeConfiguration />}
       {activeView === 'tokenization' && <TokenizationManagement requests={tokenRequests} onUpdate={loadData} />}
 
+      {orderReview && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-5 border-b border-slate-800">
+              <div>
+                <h3 className="text-lg font-semibold text-white">Settlement Eligibility</h3>
+                <p className="text-sm text-slate-400">{orderAssetName(orderReview.order)}</p>
+              </div>
+              <button onClick={() => setOrderReview(null)} className="p-1 hover:bg-slate-800 rounded text-slate-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-5 space-y-3">
+              {orderReview.review.checks.map(check => (
+                <div key={check.id} className="flex items-start space-x-3">
+                  {check.passed ? (
+                    <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                  )}
+                  <div>
+                    <div className="text-sm text-white">{check.label}</div>
+                    <div className="text-xs text-slate-400">{check.detail}</div>
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-start space-x-3 pt-3 border-t border-slate-800">
+                <ShieldCheck className="w-5 h-5 text-cyan-400 flex-shrink-0" />
+                <div className="text-xs text-slate-400">
+                  {orderReview.review.rofrDays > 0
+                    ? `Matching opens a ${orderReview.review.rofrDays}-day GP right-of-first-refusal window.`
+                    : 'The fund has no right-of-first-refusal window.'}
+                  {orderReview.review.requiresConsent && ' GP consent is required before settlement.'}
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3 p-5 border-t border-slate-800">
+              <button
+                onClick={() => setOrderReview(null)}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={() => handleMatchOrder(orderReview.order.id)}
+                disabled={!orderReview.review.eligible || processingOrder === orderReview.order.id}
+                className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                Match Order
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showCreateListing && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
@@ -787,6 +1025,386 @@ export default function ExchangeManagement() {
   );
 }
 
+type ManagedBook = ExchangeBook & {
+  funds: { fund_name: string; base_currency: string } | null;
+  share_classes: { class_name: string } | null;
+};
+
+function OrderBooks({ funds }: { funds: { id: string; fund_name: string }[] }) {
+  const { currentTenant, user } = useAuth();
+  const [books, setBooks] = useState<ManagedBook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [shareClasses, setShareClasses] = useState<{ id: string; class_name: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [depth, setDepth] = useState<{ bookId: string; data: BookDepth } | null>(null);
+  const [runningBook, setRunningBook] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    fund_id: '',
+    share_class_id: '',
+    name: '',
+    mode: 'continuous' as BookMode,
+    auction_frequency: 'monthly',
+    next_auction_date: '',
+    price_band_pct: '',
+    requires_accreditation: true,
+  });
+
+  useEffect(() => {
+    if (!form.fund_id) {
+      setShareClasses([]);
+      return;
+    }
+    supabase
+      .from('share_classes')
+      .select('id, class_name')
+      .eq('fund_id', form.fund_id)
+      .order('class_name')
+      .then(({ data }) => setShareClasses(data || []));
+  }, [form.fund_id]);
+
+  const loadBooks = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('exchange_books')
+      .select('*, funds(fund_name, base_currency), share_classes(class_name)')
+      .eq('tenant_id', currentTenant?.id)
+      .order('created_at', { ascending: false });
+
+    if (error) console.error('Error loading order books:', error);
+    setBooks((data as ManagedBook[]) || []);
+    setLoading(false);
+  }, [currentTenant]);
+
+  useEffect(() => {
+    loadBooks();
+  }, [loadBooks]);
+
+  const handleCreate = async () => {
+    if (!form.fund_id || !form.name) return;
+    if (form.mode === 'auction' && !form.next_auction_date) {
+      alert('Auction books need a first auction date');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('exchange_books')
+      .insert({
+        tenant_id: currentTenant?.id,
+        fund_id: form.fund_id,
+        share_class_id: form.share_class_id || null,
+        name: form.name,
+        mode: form.mode,
+        auction_frequency: form.auction_frequency,
+        next_auction_date: form.mode === 'auction' ? form.next_auction_date : null,
+        price_band_pct: form.price_band_pct ? parseFloat(form.price_band_pct) : null,
+        requires_accreditation: form.requires_accreditation,
+        created_by: user?.id,
+      });
+
+    if (error) {
+      alert('Error creating order book: ' + error.message);
+    } else {
+      setShowForm(false);
+      loadBooks();
+    }
+    setSaving(false);
+  };
+
+  const toggleActive = async (book: ManagedBook) => {
+    const { error } = await supabase
+      .from('exchange_books')
+      .update({ is_active: !book.is_active })
+      .eq('id', book.id);
+
+    if (error) {
+      alert(error.message || 'Failed to update order book');
+      return;
+    }
+    loadBooks();
+  };
+
+  const toggleDepth = async (bookId: string) => {
+    if (depth?.bookId === bookId) {
+      setDepth(null);
+      return;
+    }
+    try {
+      setDepth({ bookId, data: await getBookDepth(bookId) });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load depth');
+    }
+  };
+
+  const handleRunAuction = async (book: ManagedBook) => {
+    setRunningBook(book.id);
+    try {
+      const { clearing, referencePrice, referenceDate } = await previewAuction(book);
+      const reference = referencePrice != null
+        ? `Reference NAV ${formatCurrency(referencePrice)} (${referenceDate})`
+        : 'No approved NAV on file';
+
+      let price: number | null;
+      if (clearing) {
+        price = clearing.price;
+        if (!confirm(`${reference}.\n\nClear ${formatNumber(clearing.volume, 2)} units at ${formatCurrency(clearing.price)}? Demand ${formatNumber(clearing.demand, 2)}, supply ${formatNumber(clearing.supply, 2)}.`)) return;
+      } else {
+        price = referencePrice ?? book.last_auction_price;
+        if (!price) {
+          alert(`${reference} and no orders cross, so there is no price to roll the auction at.`);
+          return;
+        }
+        if (!confirm(`${reference}.\n\nNo bids cross any asks. Close this auction with no trades and move to the next date?`)) return;
+      }
+
+      const fills = await runAuction(book.id, price);
+      alert(`Auction closed with ${fills} fill${fills === 1 ? '' : 's'}. Matched trades are in the Orders tab awaiting settlement.`);
+      loadBooks();
+      if (depth?.bookId === book.id) setDepth({ bookId: book.id, data: await getBookDepth(book.id) });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to run auction');
+    } finally {
+      setRunningBook(null);
+    }
+  };
+
+  const depthRows = (levels: DepthLevel[], color: string) => levels.length === 0 ? (
+    <div className="text-xs text-slate-500 py-2">None</div>
+  ) : (
+    <table className="w-full text-sm">
+      <tbody>
+        {levels.map(level => (
+          <tr key={level.price} className="border-b border-slate-800">
+            <td className={`py-1 font-mono ${color}`}>{formatCurrency(level.price)}</td>
+            <td className="py-1 text-right text-white">{formatNumber(level.quantity, 2)}</td>
+            <td className="py-1 text-right text-slate-500">{level.orders}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Order Books</h3>
+          <p className="text-sm text-slate-400">Continuous books match on entry; auction books cross once per period at a single price</p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg transition-colors"
+        >
+          {showForm ? 'Cancel' : 'New Order Book'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Fund</label>
+              <select
+                value={form.fund_id}
+                onChange={(e) => {
+                  const fund = funds.find(f => f.id === e.target.value);
+                  setForm({ ...form, fund_id: e.target.value, share_class_id: '', name: form.name || fund?.fund_name || '' });
+                }}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+              >
+                <option value="">Select fund...</option>
+                {funds.map(f => <option key={f.id} value={f.id}>{f.fund_name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Share Class</label>
+              <select
+                value={form.share_class_id}
+                onChange={(e) => setForm({ ...form, share_class_id: e.target.value })}
+                disabled={shareClasses.length === 0}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm disabled:opacity-50"
+              >
+                <option value="">Fund level</option>
+                {shareClasses.map(c => <option key={c.id} value={c.id}>{c.class_name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Mode</label>
+              <select
+                value={form.mode}
+                onChange={(e) => setForm({ ...form, mode: e.target.value as BookMode })}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+              >
+                <option value="continuous">Continuous</option>
+                <option value="auction">Periodic auction</option>
+              </select>
+            </div>
+            {form.mode === 'auction' && (
+              <>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Frequency</label>
+                  <select
+                    value={form.auction_frequency}
+                    onChange={(e) => setForm({ ...form, auction_frequency: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+                  >
+                    <option value="monthly">Monthly</option>
+                    <option value="quarterly">Quarterly</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">First Auction (NAV date)</label>
+                  <input
+                    type="date"
+                    value={form.next_auction_date}
+                    onChange={(e) => setForm({ ...form, next_auction_date: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Price Band (% of NAV)</label>
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                placeholder="No band"
+                value={form.price_band_pct}
+                onChange={(e) => setForm({ ...form, price_band_pct: e.target.value })}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={form.requires_accreditation}
+              onChange={(e) => setForm({ ...form, requires_accreditation: e.target.checked })}
+              className="rounded border-slate-600"
+            />
+            Buyers must be verified accredited investors
+          </label>
+          <div className="flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={saving || !form.fund_id || !form.name}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium"
+            >
+              {saving ? 'Creating...' : 'Create Order Book'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-400">Loading order books...</div>
+      ) : books.length === 0 ? (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center">
+          <BookOpen className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">No order books yet. Investors trade through listings only.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {books.map((book) => (
+            <div key={book.id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <div className="flex items-center space-x-3 mb-1">
+                    <h4 className="text-lg font-semibold text-white">{book.name}</h4>
+                    <span className={`text-xs px-2 py-1 rounded bg-slate-900 ${book.is_active ? 'text-green-400' : 'text-slate-500'}`}>
+                      {book.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-400">
+                    {book.funds?.fund_name}{book.share_classes ? ` - ${book.share_classes.class_name}` : ''}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => toggleDepth(book.id)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+                  >
+                    {depth?.bookId === book.id ? 'Hide Depth' : 'Depth'}
+                  </button>
+                  {book.mode === 'auction' && book.is_active && (
+                    <button
+                      onClick={() => handleRunAuction(book)}
+                      disabled={runningBook === book.id}
+                      className="flex items-center gap-1 px-4 py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                    >
+                      <Gavel className="w-4 h-4" />
+                      {runningBook === book.id ? 'Running...' : 'Run Auction'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => toggleActive(book)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+                  >
+                    {book.is_active ? 'Suspend' : 'Activate'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-5 gap-4 text-sm">
+                <div>
+                  <div className="text-slate-400 mb-1">Mode</div>
+                  <div className="text-white">{book.mode === 'auction' ? `${book.auction_frequency} auction` : 'Continuous'}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400 mb-1">Next Auction</div>
+                  <div className="text-white">{book.mode === 'auction' && book.next_auction_date ? formatDate(book.next_auction_date, 'short') : '-'}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400 mb-1">Last Price</div>
+                  <div className="text-cyan-400 font-semibold">{book.last_price ? formatCurrency(book.last_price, book.funds?.base_currency) : '-'}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400 mb-1">Price Band</div>
+                  <div className="text-white">{book.price_band_pct ? `±${Number(book.price_band_pct)}% of NAV` : 'None'}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400 mb-1">Accreditation</div>
+                  <div className="text-white">{book.requires_accreditation ? 'Required' : 'Not required'}</div>
+                </div>
+              </div>
+
+              {depth && depth.bookId === book.id && (
+                <div className="mt-4 pt-4 border-t border-slate-700">
+                  <div className="text-xs text-slate-400 mb-3">
+                    Reference NAV: {depth.data.reference_nav != null
+                      ? `${formatCurrency(depth.data.reference_nav)} (${depth.data.reference_nav_date})`
+                      : 'none approved'}
+                  </div>
+                  <div className="grid grid-cols-2 gap-6">
+                    <div>
+                      <div className="text-sm font-medium text-green-400 mb-2">Bids</div>
+                      {depthRows(depth.data.bids, 'text-green-400')}
+                    </div>
+                    <div>
+                      <div className="text-sm font-medium text-red-400 mb-2">Asks</div>
+                      {depthRows(depth.data.asks, 'text-red-400')}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function FeeConfiguration() {
   const [fees, setFees] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Upload, Save, AlertTriangle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { parseExchangeRateCsv, saveExchangeRates, ExchangeRateRow } from '../../lib/fxRevaluation';
+
+interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate_date: string;
+  rate: number;
+  source: string | null;
+}
+
+interface ExchangeRateManagerProps {
+  baseCurrency: string;
+  onClose: () => void;
+}
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'HKD', 'SGD'];
+
+export default function ExchangeRateManager({ baseCurrency, onClose }: ExchangeRateManagerProps) {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pairFilter, setPairFilter] = useState('');
+  const [editing, setEditing] = useState<Record<string, string>>({});
+  const [newRate, setNewRate] = useState({
+    from_currency: 'EUR',
+    to_currency: baseCurrency,
+    rate_date: new Date().toISOString().split('T')[0],
+    rate: '',
+  });
+  const [importPreview, setImportPreview] = useState<{ rows: ExchangeRateRow[]; errors: string[]; fileName: string } | null>(null);
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const loadRates = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('rate_date', { ascending: false })
+      .order('from_currency')
+      .limit(500);
+
+    if (error) {
+      console.error('Error loading exchange rates:', error);
+    } else {
+      setRates(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleAdd = async () => {
+    const rate = parseFloat(newRate.rate);
+    if (newRate.from_currency === newRate.to_currency || !(rate > 0)) {
+      alert('Choose two different currencies and a positive rate');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveExchangeRates([{
+        from_currency: newRate.from_currency,
+        to_currency: newRate.to_currency,
+        rate_date: newRate.rate_date,
+        rate,
+        source: 'manual',
+      }]);
+      setNewRate({ ...newRate, rate: '' });
+      await loadRates();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (rate: ExchangeRate) => {
+    const value = parseFloat(editing[rate.id]);
+    if (!(value > 0)) {
+      alert('Rate must be a positive number');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .update({ rate: value, source: 'manual' })
+      .eq('id', rate.id);
+
+    if (error) {
+      alert(error.message || 'Failed to update exchange rate');
+      return;
+    }
+
+    const next = { ...editing };
+    delete next[rate.id];
+    setEditing(next);
+    loadRates();
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.from_currency}/${rate.to_currency} rate for ${rate.rate_date}?`)) return;
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', rate.id);
+
+    if (error) {
+      alert(error.message || 'Failed to delete exchange rate');
+      return;
+    }
+    loadRates();
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const { rows, errors } = parseExchangeRateCsv(event.target?.result as string);
+      setImportPreview({ rows, errors, fileName: file.name });
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!importPreview || importPreview.rows.length === 0) return;
+
+    setSaving(true);
+    try {
+      const count = await saveExchangeRates(importPreview.rows);
+      alert(`Imported ${count} exchange rates`);
+      setImportPreview(null);
+      await loadRates();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import exchange rates');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredRates = rates.filter(rate =>
+    !pairFilter || `${rate.from_currency}/${rate.to_currency}`.includes(pairFilter.toUpperCase())
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-xl border border-slate-700 max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-slate-700">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Exchange Rates</h3>
+            <p className="text-sm text-slate-400 mt-1">
+              NAV strikes use the latest rate on or before the NAV date; inverse pairs are used when the direct pair is missing
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="bg-slate-800/50 rounded-lg border border-slate-700 p-4">
+            <div className="text-sm font-medium text-white mb-3">Add or replace a rate</div>
+            <div className="grid grid-cols-12 gap-2">
+              <select
+                value={newRate.from_currency}
+                onChange={(e) => setNewRate({ ...newRate, from_currency: e.target.value })}
+                className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              >
+                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <select
+                value={newRate.to_currency}
+                onChange={(e) => setNewRate({ ...newRate, to_currency: e.target.value })}
+                className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              >
+                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <input
+                type="date"
+                value={newRate.rate_date}
+                onChange={(e) => setNewRate({ ...newRate, rate_date: e.target.value })}
+                className="col-span-3 px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              />
+              <input
+                type="number"
+                step="0.000001"
+                placeholder="Rate"
+                value={newRate.rate}
+                onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+                className="col-span-3 px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              />
+              <button
+                onClick={handleAdd}
+                disabled={saving || !newRate.rate}
+                className="col-span-2 px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm flex items-center justify-center gap-1 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Save
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              1 {newRate.from_currency} = {newRate.rate || '?'} {newRate.to_currency}
+            </p>
+          </div>
+
+          <div className="bg-slate-800/50 rounded-lg border border-slate-700 p-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <div className="text-sm font-medium text-white">Import CSV</div>
+                <p className="text-xs text-slate-500 mt-1">Columns: from, to, date (YYYY-MM-DD), rate, source (optional)</p>
+              </div>
+              <label className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm flex items-center gap-2 cursor-pointer transition-colors">
+                <Upload className="w-4 h-4" />
+                Choose File
+                <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
+              </label>
+            </div>
+
+            {importPreview && (
+              <div className="mt-3 space-y-2">
+                <div className="text-sm text-slate-300">
+                  {importPreview.fileName}: {importPreview.rows.length} valid rows
+                  {importPreview.errors.length > 0 && `, ${importPreview.errors.length} rejected`}
+                </div>
+                {importPreview.errors.length > 0 && (
+                  <div className="max-h-32 overflow-y-auto p-2 bg-red-500/10 border border-red-500/30 rounded text-xs text-red-300 space-y-1">
+                    {importPreview.errors.map((err, i) => (
+                      <div key={i} className="flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                        {err}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleImport}
+                    disabled={saving || importPreview.rows.length === 0}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                  >
+                    Import {importPreview.rows.length} Rates
+                  </button>
+                  <button
+                    onClick={() => setImportPreview(null)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-sm font-medium text-white">Rates on file</div>
+              <input
+                type="text"
+                placeholder="Filter pair, e.g. EUR/USD"
+                value={pairFilter}
+                onChange={(e) => setPairFilter(e.target.value)}
+                className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+
+            {loading ? (
+              <div className="text-center py-8 text-slate-400">Loading...</div>
+            ) : filteredRates.length === 0 ? (
+              <div className="text-center py-8 text-slate-400">No exchange rates on file</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-400 border-b border-slate-700">
+                    <th className="py-2">Pair</th>
+                    <th className="py-2">Date</th>
+                    <th className="py-2 text-right">Rate</th>
+                    <th className="py-2">Source</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredRates.map(rate => (
+                    <tr key={rate.id} className="border-b border-slate-800">
+                      <td className="py-2 text-white font-mono">{rate.from_currency}/{rate.to_currency}</td>
+                      <td className="py-2 text-slate-300">{rate.rate_date}</td>
+                      <td className="py-2 text-right">
+                        {editing[rate.id] !== undefined ? (
+                          <input
+                            type="number"
+                            step="0.000001"
+                            value={editing[rate.id]}
+                            onChange={(e) => setEditing({ ...editing, [rate.id]: e.target.value })}
+                            className="w-32 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white text-sm text-right font-mono focus:ring-2 focus:ring-cyan-500"
+                          />
+                        ) : (
+                          <button
+                            onClick={() => setEditing({ ...editing, [rate.id]: String(rate.rate) })}
+                            className="text-white font-mono hover:text-cyan-400"
+                            title="Edit rate"
+                          >
+                            {Number(rate.rate).toFixed(6)}
+                          </button>
+                        )}
+                      </td>
+                      <td className="py-2 text-slate-400">{rate.source || '-'}</td>
+                      <td className="py-2 text-right space-x-2">
+                        {editing[rate.id] !== undefined && (
+                          <button onClick={() => handleUpdate(rate)} className="text-cyan-400 hover:text-cyan-300" title="Save">
+                            <Save className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => handleDelete(rate)} className="text-red-400 hover:text-red-300" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
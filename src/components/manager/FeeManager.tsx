@@ -1,11 +1,902 @@
-import { DollarSign } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, DollarSign, Percent, Calendar, FileText, Receipt } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { getLatestNAV } from '../../lib/navCalculation';
+import {
+  AccrualRow,
+  FeeStructure,
+  buildAccrualSchedule,
+  crystallisePerformanceFee,
+  generateFeeInvoice,
+  getNextCrystallisationDate,
+  postManagementFees,
+  reverseFeePosting,
+} from '../../lib/fees';
+
+interface Fund {
+  id: string;
+  fund_code: string;
+  fund_name: string;
+  base_currency: string;
+}
+
+interface ShareClass {
+  id: string;
+  class_code: string;
+  class_name: string;
+}
+
+interface FeePosting {
+  id: string;
+  fee_type: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  basis_amount: number;
+  status: string;
+  invoice_id: string | null;
+  share_class: { class_code: string } | null;
+  capital_account: { account_number: string; investor: { full_name: string } | null } | null;
+}
+
+type ActiveTab = 'structures' | 'accruals' | 'postings';
+
+const EMPTY_FORM = {
+  share_class_id: '',
+  fee_type: 'management',
+  description: '',
+  calculation_method: 'percentage_of_nav',
+  rate_pct: 2.0,
+  frequency: 'monthly',
+  payment_schedule: 'arrears',
+  hurdle_rate_pct: 0,
+  catch_up_pct: 0,
+  crystallisation_frequency: 'annual',
+  crystallisation_month: 12,
+  effective_from: new Date().toISOString().split('T')[0],
+  effective_to: '',
+};
 
 export default function FeeManager() {
+  const { currentTenant, user } = useAuth();
+  const [activeTab, setActiveTab] = useState<ActiveTab>('structures');
+  const [funds, setFunds] = useState<Fund[]>([]);
+  const [shareClasses, setShareClasses] = useState<ShareClass[]>([]);
+  const [structures, setStructures] = useState<FeeStructure[]>([]);
+  const [postings, setPostings] = useState<FeePosting[]>([]);
+  const [selectedFund, setSelectedFund] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingStructure, setEditingStructure] = useState<FeeStructure | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [selectedPostings, setSelectedPostings] = useState<Set<string>>(new Set());
+  const [working, setWorking] = useState(false);
+  const [preview, setPreview] = useState({
+    structure_id: '',
+    from: new Date(Date.UTC(new Date().getUTCFullYear(), 0, 1)).toISOString().split('T')[0],
+    to: new Date().toISOString().split('T')[0],
+    granularity: 'monthly' as 'daily' | 'monthly',
+    nav: 0,
+  });
+  const [schedule, setSchedule] = useState<AccrualRow[]>([]);
+
+  const loadFunds = useCallback(async () => {
+    setLoading(true);
+    const { data } = await supabase
+      .from('funds')
+      .select('id, fund_code, fund_name, base_currency')
+      .eq('tenant_id', currentTenant?.id)
+      .eq('status', 'active')
+      .order('fund_name');
+
+    if (data) {
+      setFunds(data);
+      if (data.length > 0) {
+        setSelectedFund(current => current || data[0].id);
+      }
+    }
+    setLoading(false);
+  }, [currentTenant]);
+
+  const loadShareClasses = useCallback(async () => {
+    const { data } = await supabase
+      .from('share_classes')
+      .select('id, class_code, class_name')
+      .eq('fund_id', selectedFund)
+      .order('class_code');
+
+    setShareClasses(data || []);
+  }, [selectedFund]);
+
+  const loadStructures = useCallback(async () => {
+    const { data } = await supabase
+      .from('fee_structures')
+      .select('*')
+      .eq('fund_id', selectedFund)
+      .order('fee_type')
+      .order('effective_from', { ascending: false });
+
+    setStructures((data as FeeStructure[]) || []);
+  }, [selectedFund]);
+
+  const loadPostings = useCallback(async () => {
+    const { data } = await supabase
+      .from('fee_postings')
+      .select(`
+        *,
+        share_class:share_classes!share_class_id(class_code),
+        capital_account:capital_accounts!capital_account_id(
+          account_number,
+          investor:client_profiles!investor_id(full_name)
+        )
+      `)
+      .eq('fund_id', selectedFund)
+      .neq('status', 'reversed')
+      .order('period_end', { ascending: false });
+
+    setPostings((data as FeePosting[]) || []);
+    setSelectedPostings(new Set());
+  }, [selectedFund]);
+
+  useEffect(() => {
+    loadFunds();
+  }, [loadFunds]);
+
+  useEffect(() => {
+    if (selectedFund) {
+      loadShareClasses();
+      loadStructures();
+      loadPostings();
+    }
+  }, [selectedFund, loadShareClasses, loadStructures, loadPostings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = {
+      ...formData,
+      share_class_id: formData.share_class_id || null,
+      effective_to: formData.effective_to || null,
+    };
+
+    const { error } = editingStructure
+      ? await supabase.from('fee_structures').update(payload).eq('id', editingStructure.id)
+      : await supabase.from('fee_structures').insert({ fund_id: selectedFund, ...payload, status: 'active' });
+
+    if (!error) {
+      closeModal();
+      loadStructures();
+    } else {
+      alert('Error saving fee structure');
+    }
+  };
+
+  const handleDeactivate = async (structure: FeeStructure) => {
+    if (!confirm('Deactivate this fee structure? Existing postings are kept.')) return;
+
+    const { error } = await supabase
+      .from('fee_structures')
+      .update({ status: 'inactive', effective_to: new Date().toISOString().split('T')[0] })
+      .eq('id', structure.id);
+
+    if (!error) {
+      loadStructures();
+    }
+  };
+
+  const openModal = (structure?: FeeStructure) => {
+    if (structure) {
+      setEditingStructure(structure);
+      setFormData({
+        share_class_id: structure.share_class_id || '',
+        fee_type: structure.fee_type,
+        description: structure.description || '',
+        calculation_method: structure.calculation_method,
+        rate_pct: structure.rate_pct,
+        frequency: structure.frequency,
+        payment_schedule: structure.payment_schedule,
+        hurdle_rate_pct: structure.hurdle_rate_pct,
+        catch_up_pct: structure.catch_up_pct,
+        crystallisation_frequency: structure.crystallisation_frequency || 'annual',
+        crystallisation_month: structure.crystallisation_month || 12,
+        effective_from: structure.effective_from,
+        effective_to: structure.effective_to || '',
+      });
+    } else {
+      setEditingStructure(null);
+      setFormData({ ...EMPTY_FORM, share_class_id: shareClasses[0]?.id || '' });
+    }
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingStructure(null);
+  };
+
+  const handlePreview = async (structureId = preview.structure_id) => {
+    const structure = structures.find(s => s.id === structureId);
+    if (!structure) return;
+
+    let nav = preview.nav;
+    if (structureId !== preview.structure_id || nav === 0) {
+      const latest = await getLatestNAV(selectedFund, structure.share_class_id || undefined);
+      nav = latest?.net_asset_value || 0;
+    }
+
+    setPreview({ ...preview, structure_id: structureId, nav });
+    setSchedule(buildAccrualSchedule(structure.rate_pct, nav, new Date(preview.from), new Date(preview.to), preview.granularity));
+  };
+
+  const handlePostManagement = async (structure: FeeStructure) => {
+    const periodEnd = prompt('Post fees for the period ending (YYYY-MM-DD):', new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 0)).toISOString().split('T')[0]);
+    if (!periodEnd) return;
+    const end = new Date(periodEnd);
+    const start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1));
+
+    setWorking(true);
+    try {
+      const posted = await postManagementFees({
+        tenantId: currentTenant!.id,
+        structure,
+        periodStart: start,
+        periodEnd: end,
+        currency: selectedFundData?.base_currency || 'USD',
+        postedBy: user!.id,
+      });
+      alert(`Posted ${posted.length} fee entries`);
+      loadPostings();
+    } catch (error) {
+      console.error('Error posting fees:', error);
+      alert(error instanceof Error ? error.message : 'Error posting fees');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCrystallise = async (structure: FeeStructure) => {
+    const suggested = getNextCrystallisationDate(structure, new Date(Date.now() - 366 * 24 * 60 * 60 * 1000));
+    const date = prompt('Crystallisation date (YYYY-MM-DD):', suggested.toISOString().split('T')[0]);
+    if (!date) return;
+
+    setWorking(true);
+    try {
+      const posted = await crystallisePerformanceFee({
+        tenantId: currentTenant!.id,
+        structure,
+        crystallisationDate: new Date(date),
+        currency: selectedFundData?.base_currency || 'USD',
+        postedBy: user!.id,
+      });
+      alert(`Crystallised performance fee across ${posted.length} capital accounts`);
+      loadPostings();
+    } catch (error) {
+      console.error('Error crystallising fee:', error);
+      alert(error instanceof Error ? error.message : 'Error crystallising performance fee');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleGenerateInvoice = async () => {
+    const fund = funds.find(f => f.id === selectedFund);
+    if (!fund || selectedPostings.size === 0) return;
+
+    setWorking(true);
+    try {
+      const invoice = await generateFeeInvoice({
+        tenantId: currentTenant!.id,
+        fundId: fund.id,
+        postingIds: Array.from(selectedPostings),
+      });
+      alert(`Draft invoice ${invoice.invoice_number} created. Review and send it from Invoices.`);
+      loadPostings();
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      alert(error instanceof Error ? error.message : 'Error generating invoice');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReverse = async (posting: FeePosting) => {
+    if (!confirm('Reverse this fee posting?')) return;
+
+    try {
+      await reverseFeePosting(posting.id);
+      loadPostings();
+    } catch (error) {
+      console.error('Error reversing posting:', error);
+      alert('Error reversing fee posting');
+    }
+  };
+
+  const togglePosting = (id: string) => {
+    const next = new Set(selectedPostings);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedPostings(next);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-500"></div>
+      </div>
+    );
+  }
+
+  const selectedFundData = funds.find(f => f.id === selectedFund);
+  const currency = selectedFundData?.base_currency || 'USD';
+  const classLabel = (id: string | null) => {
+    const shareClass = shareClasses.find(c => c.id === id);
+    return shareClass ? `Class ${shareClass.class_code}` : 'Fund level';
+  };
+  const uninvoiced = postings.filter(p => p.status === 'posted');
+  const totals = postings.reduce((acc, p) => {
+    if (p.fee_type === 'performance') acc.performance += p.amount;
+    else acc.management += p.amount;
+    if (p.status === 'posted') acc.uninvoiced += p.amount;
+    return acc;
+  }, { management: 0, performance: 0, uninvoiced: 0 });
+
+  const tabs: { id: ActiveTab; label: string; icon: typeof Percent }[] = [
+    { id: 'structures', label: 'Fee Structures', icon: Percent },
+    { id: 'accruals', label: 'Accrual Preview', icon: Calendar },
+    { id: 'postings', label: 'Postings & Invoicing', icon: Receipt },
+  ];
+
   return (
-    <div className="flex flex-col items-center justify-center py-24 text-center">
-      <DollarSign className="w-12 h-12 text-gray-500 mb-4" />
-      <h2 className="text-xl font-semibold text-gray-200 mb-2">Fee Manager</h2>
-      <p className="text-gray-500 text-sm max-w-xs">Fee management tools are coming soon.</p>
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Fee Management</h2>
+          <p className="text-slate-400 mt-1">Fee terms, accruals, crystallisation and management-company billing</p>
+        </div>
+        <div className="flex space-x-3">
+          <select
+            value={selectedFund}
+            onChange={(e) => setSelectedFund(e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+          >
+            {funds.map(fund => (
+              <option key={fund.id} value={fund.id}>
+                {fund.fund_code} - {fund.fund_name}
+              </option>
+            ))}
+          </select>
+          {activeTab === 'structures' && (
+            <button
+              onClick={() => openModal()}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center space-x-2 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Fee Structure</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Management Fees Posted</span>
+            <DollarSign className="w-5 h-5 text-cyan-500" />
+          </div>
+          <div className="text-2xl font-bold text-white">{formatCurrency(totals.management, currency, 0)}</div>
+        </div>
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Performance Fees Crystallised</span>
+            <Percent className="w-5 h-5 text-emerald-500" />
+          </div>
+          <div className="text-2xl font-bold text-emerald-400">{formatCurrency(totals.performance, currency, 0)}</div>
+        </div>
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Not Yet Invoiced</span>
+            <FileText className="w-5 h-5 text-yellow-500" />
+          </div>
+          <div className="text-2xl font-bold text-yellow-400">{formatCurrency(totals.uninvoiced, currency, 0)}</div>
+        </div>
+      </div>
+
+      <div className="flex space-x-1 bg-slate-800/50 rounded-xl p-1 border border-slate-700 w-fit">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === tab.id
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <tab.icon className="w-4 h-4" />
+            <span>{tab.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'structures' && (
+        structures.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {structures.map(structure => (
+              <div
+                key={structure.id}
+                className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700 hover:border-cyan-500/50 transition-all"
+              >
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">
+                      {classLabel(structure.share_class_id)}
+                    </div>
+                    <h3 className="text-lg font-bold text-white capitalize">
+                      {structure.description || `${structure.fee_type} fee`}
+                    </h3>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    structure.status === 'active'
+                      ? 'bg-green-500/20 text-green-400'
+                      : 'bg-slate-500/20 text-slate-400'
+                  }`}>
+                    {structure.status}
+                  </span>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-slate-400">Rate</span>
+                    <span className="text-cyan-400 font-medium">{structure.rate_pct}%</span>
+                  </div>
+                  {structure.fee_type === 'performance' ? (
+                    <>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-slate-400">Hurdle</span>
+                        <span className="text-amber-400 font-medium">{structure.hurdle_rate_pct}%</span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-slate-400">Crystallises</span>
+                        <span className="text-white font-medium capitalize">
+                          {(structure.crystallisation_frequency || 'annual').replace('_', '-')}
+                        </span>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-400">Charged</span>
+                      <span className="text-white font-medium capitalize">{structure.frequency} in {structure.payment_schedule}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-slate-400">Effective</span>
+                    <span className="text-white font-medium">
+                      {formatDate(structure.effective_from, 'short')}{structure.effective_to ? ` – ${formatDate(structure.effective_to, 'short')}` : ''}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex space-x-2 mt-4 pt-4 border-t border-slate-700">
+                  {structure.status === 'active' && (
+                    <button
+                      disabled={working}
+                      onClick={() => structure.fee_type === 'performance' ? handleCrystallise(structure) : handlePostManagement(structure)}
+                      className="flex-1 px-3 py-2 bg-cyan-600/20 hover:bg-cyan-600/30 text-cyan-400 rounded-lg text-sm transition-colors"
+                    >
+                      {structure.fee_type === 'performance' ? 'Crystallise' : 'Post Period'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => openModal(structure)}
+                    className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  {structure.status === 'active' && (
+                    <button
+                      onClick={() => handleDeactivate(structure)}
+                      className="px-3 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg text-sm transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-slate-800/30 rounded-xl p-12 border-2 border-dashed border-slate-700 text-center">
+            <Percent className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">No Fee Structures</h3>
+            <p className="text-slate-400 mb-6">Define management and performance fee terms for each share class</p>
+            <button
+              onClick={() => openModal()}
+              className="px-6 py-3 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg inline-flex items-center space-x-2 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Create First Fee Structure</span>
+            </button>
+          </div>
+        )
+      )}
+
+      {activeTab === 'accruals' && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-300 mb-2">Fee Structure</label>
+              <select
+                value={preview.structure_id}
+                onChange={(e) => handlePreview(e.target.value)}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              >
+                <option value="">Select…</option>
+                {structures.filter(s => s.fee_type !== 'performance').map(s => (
+                  <option key={s.id} value={s.id}>
+                    {classLabel(s.share_class_id)} – {s.description || s.fee_type} ({s.rate_pct}%)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">From</label>
+              <input
+                type="date"
+                value={preview.from}
+                onChange={(e) => setPreview({ ...preview, from: e.target.value })}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">To</label>
+              <input
+                type="date"
+                value={preview.to}
+                onChange={(e) => setPreview({ ...preview, to: e.target.value })}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+            <div className="flex space-x-2">
+              <select
+                value={preview.granularity}
+                onChange={(e) => setPreview({ ...preview, granularity: e.target.value as 'daily' | 'monthly' })}
+                className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              >
+                <option value="monthly">Monthly</option>
+                <option value="daily">Daily</option>
+              </select>
+              <button
+                onClick={() => handlePreview()}
+                disabled={!preview.structure_id}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+              >
+                Run
+              </button>
+            </div>
+          </div>
+
+          {preview.structure_id && (
+            <div className="flex items-center space-x-3 text-sm">
+              <span className="text-slate-400">NAV basis</span>
+              <input
+                type="number"
+                value={preview.nav}
+                onChange={(e) => setPreview({ ...preview, nav: parseFloat(e.target.value) || 0 })}
+                className="w-48 px-3 py-1 bg-slate-800 border border-slate-700 rounded-lg text-white"
+              />
+              <span className="text-slate-500">Defaults to the latest approved NAV</span>
+            </div>
+          )}
+
+          {schedule.length > 0 && (
+            <div className="max-h-[480px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-900">
+                  <tr className="text-left text-slate-400 border-b border-slate-700">
+                    <th className="py-2">Period</th>
+                    <th className="py-2 text-right">Days</th>
+                    <th className="py-2 text-right">Accrual</th>
+                    <th className="py-2 text-right">Cumulative</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.map(row => (
+                    <tr key={row.periodStart} className="border-b border-slate-800 text-white">
+                      <td className="py-2">
+                        {row.periodStart === row.periodEnd ? row.periodStart : `${row.periodStart} – ${row.periodEnd}`}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">{row.days}</td>
+                      <td className="py-2 text-right">{formatCurrency(row.accrual, currency)}</td>
+                      <td className="py-2 text-right text-cyan-400">{formatCurrency(row.cumulative, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === 'postings' && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-semibold text-white">Fee Postings ({postings.length})</h3>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setSelectedPostings(new Set(uninvoiced.map(p => p.id)))}
+                className="text-sm text-cyan-400 hover:text-cyan-300"
+              >
+                Select all un-invoiced
+              </button>
+              <button
+                onClick={handleGenerateInvoice}
+                disabled={working || selectedPostings.size === 0}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg flex items-center space-x-2 transition-colors"
+              >
+                <Receipt className="w-4 h-4" />
+                <span>Generate Invoice ({selectedPostings.size})</span>
+              </button>
+            </div>
+          </div>
+
+          {postings.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2 w-8"></th>
+                  <th className="py-2">Investor</th>
+                  <th className="py-2">Fee</th>
+                  <th className="py-2">Period</th>
+                  <th className="py-2 text-right">Amount</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {postings.map(posting => (
+                  <tr key={posting.id} className="border-b border-slate-800 text-white">
+                    <td className="py-2">
+                      {posting.status === 'posted' && (
+                        <input
+                          type="checkbox"
+                          checked={selectedPostings.has(posting.id)}
+                          onChange={() => togglePosting(posting.id)}
+                          className="rounded border-slate-600 text-cyan-600"
+                        />
+                      )}
+                    </td>
+                    <td className="py-2">
+                      <div>{posting.capital_account?.investor?.full_name}</div>
+                      <div className="text-xs text-slate-400 font-mono">{posting.capital_account?.account_number}</div>
+                    </td>
+                    <td className="py-2 capitalize">
+                      {posting.fee_type}
+                      {posting.share_class && <span className="text-slate-400"> · {posting.share_class.class_code}</span>}
+                    </td>
+                    <td className="py-2 text-slate-300">
+                      {formatDate(posting.period_start, 'short')} – {formatDate(posting.period_end, 'short')}
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(posting.amount, currency)}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${
+                        posting.status === 'invoiced' ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'
+                      }`}>
+                        {posting.status}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">
+                      {posting.status === 'posted' && (
+                        <button onClick={() => handleReverse(posting)} className="text-xs text-red-400 hover:text-red-300">
+                          Reverse
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="text-center py-12">
+              <Receipt className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+              <p className="text-slate-400 text-lg">No fee postings yet</p>
+              <p className="text-slate-500 text-sm mt-2">Post a management fee period or crystallise a performance fee from Fee Structures</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-slate-900 rounded-xl border border-slate-700 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-700">
+              <h3 className="text-2xl font-bold text-white">
+                {editingStructure ? 'Edit Fee Structure' : 'Create Fee Structure'}
+              </h3>
+              <p className="text-slate-400 mt-1">{selectedFundData?.fund_name}</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Share Class</label>
+                  <select
+                    value={formData.share_class_id}
+                    onChange={(e) => setFormData({ ...formData, share_class_id: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="">Fund level (all classes)</option>
+                    {shareClasses.map(sc => (
+                      <option key={sc.id} value={sc.id}>{sc.class_code} - {sc.class_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Fee Type</label>
+                  <select
+                    value={formData.fee_type}
+                    onChange={(e) => setFormData({ ...formData, fee_type: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="management">Management</option>
+                    <option value="performance">Performance</option>
+                    <option value="admin">Administration</option>
+                    <option value="other">Other</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Class A management fee"
+                  className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Rate (%)</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    required
+                    value={formData.rate_pct}
+                    onChange={(e) => setFormData({ ...formData, rate_pct: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+                {formData.fee_type === 'performance' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Hurdle (%)</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={formData.hurdle_rate_pct}
+                        onChange={(e) => setFormData({ ...formData, hurdle_rate_pct: parseFloat(e.target.value) || 0 })}
+                        className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Catch-up (%)</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={formData.catch_up_pct}
+                        onChange={(e) => setFormData({ ...formData, catch_up_pct: parseFloat(e.target.value) || 0 })}
+                        className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Frequency</label>
+                      <select
+                        value={formData.frequency}
+                        onChange={(e) => setFormData({ ...formData, frequency: e.target.value })}
+                        className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                      >
+                        <option value="monthly">Monthly</option>
+                        <option value="quarterly">Quarterly</option>
+                        <option value="annual">Annual</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Payment</label>
+                      <select
+                        value={formData.payment_schedule}
+                        onChange={(e) => setFormData({ ...formData, payment_schedule: e.target.value })}
+                        className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                      >
+                        <option value="arrears">In arrears</option>
+                        <option value="advance">In advance</option>
+                      </select>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {formData.fee_type === 'performance' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Crystallisation</label>
+                    <select
+                      value={formData.crystallisation_frequency}
+                      onChange={(e) => setFormData({ ...formData, crystallisation_frequency: e.target.value })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    >
+                      <option value="quarterly">Quarterly</option>
+                      <option value="semi_annual">Semi-Annual</option>
+                      <option value="annual">Annual</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Fee Year Ends</label>
+                    <select
+                      value={formData.crystallisation_month}
+                      onChange={(e) => setFormData({ ...formData, crystallisation_month: parseInt(e.target.value) })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    >
+                      {Array.from({ length: 12 }, (_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          {new Date(Date.UTC(2000, i, 1)).toLocaleString('en-US', { month: 'long', timeZone: 'UTC' })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Effective From</label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.effective_from}
+                    onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Effective To (Optional)</label>
+                  <input
+                    type="date"
+                    value={formData.effective_to}
+                    onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors"
+                >
+                  {editingStructure ? 'Update' : 'Create'} Fee Structure
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -19,6 +19,7 @@ interface FormField {
   field_label: string;
   field_type: string;
   placeholder: string;
+  options: string[] | null;
   is_required: boolean;
   display_order: number;
 }
@@ -140,7 +141,10 @@ export function FormBuilder() {
       if (!editingField || !selectedForm) return;
       setError(null);
 
-      const data = { ...editingField, form_id: selectedForm.id };
+      const options = Array.isArray(editingField.options)
+        ? editingField.options.map((o: string) => o.trim()).filter(Boolean)
+        : editingField.options;
+      const data = { ...editingField, options, form_id: selectedForm.id };
 
       if (editingField.id) {
         const { error } = await supabase.from('form_fields').update(data).eq('id', editingField.id);
@@ -258,11 +262,15 @@ export function FormBuilder() {
             </div>
 
             <div className="grid grid-cols-3 gap-4">
-              <div><label className="block text-sm font-medium text-gray-700 mb-2">Type</label><select value={editingField.field_type || 'text'} onChange={(e) => setEditingField({ ...editingField, field_type: e.target.value })} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"><option value="text">Text</option><option value="email">Email</option><option value="phone">Phone</option><option value="textarea">Textarea</option><option value="number">Number</option><option value="select">Select</option><option value="checkbox">Checkbox</option><option value="date">Date</option></select></div>
+              <div><label className="block text-sm font-medium text-gray-700 mb-2">Type</label><select value={editingField.field_type || 'text'} onChange={(e) => setEditingField({ ...editingField, field_type: e.target.value })} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"><option value="text">Text</option><option value="email">Email</option><option value="phone">Phone</option><option value="textarea">Textarea</option><option value="number">Number</option><option value="select">Select</option><option value="radio">Radio</option><option value="checkbox">Checkbox</option><option value="date">Date</option></select></div>
               <div><label className="block text-sm font-medium text-gray-700 mb-2">Placeholder</label><input type="text" value={editingField.placeholder || ''} onChange={(e) => setEditingField({ ...editingField, placeholder: e.target.value })} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500" /></div>
               <div><label className="flex items-center gap-2 mt-8"><input type="checkbox" checked={editingField.is_required || false} onChange={(e) => setEditingField({ ...editingField, is_required: e.target.checked })} className="w-4 h-4 text-blue-600" /><span className="text-sm text-gray-700">Required</span></label></div>
             </div>
 
+            {['select', 'radio', 'checkbox'].includes(editingField.field_type || '') && (
+              <div><label className="block text-sm font-medium text-gray-700 mb-2">Options (one per line)</label><textarea value={(Array.isArray(editingField.options) ? editingField.options : []).join('\n')} onChange={(e) => setEditingField({ ...editingField, options: e.target.value.split('\n') })} rows={4} className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500" /></div>
+            )}
+
             <button onClick={saveField} className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"><Save size={20} /> Save Field</button>
           </div>
         ) : (
@@ -323,7 +331,7 @@ export function FormBuilder() {
         ) : (
           forms.map((form) => (
             <div key={form.id} className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
-              <div className="flex items-start justify-between"><div><div className="font-semibold text-gray-900">{form.name}</div>{form.description && <div className="text-sm text-gray-600 mt-1">{form.description}</div>}</div><div className="flex gap-2"><button onClick={() => { setEditing(form); }} className="p-2 text-blue-600 hover:bg-blue-50 rounded"><Edit2 size={16} /></button><button onClick={() => deleteForm(form.id)} className="p-2 text-red-600 hover:bg-red-50 rounded"><Trash2 size={16} /></button></div></div>
+              <div className="flex items-start justify-between"><div><div className="font-semibold text-gray-900">{form.name}</div>{form.description && <div className="text-sm text-gray-600 mt-1">{form.description}</div>}<div className="text-xs text-gray-500 mt-1">/forms/{form.slug}</div></div><div className="flex gap-2"><button onClick={() => { setEditing(form); }} className="p-2 text-blue-600 hover:bg-blue-50 rounded"><Edit2 size={16} /></button><button onClick={() => deleteForm(form.id)} className="p-2 text-red-600 hover:bg-red-50 rounded"><Trash2 size={16} /></button></div></div>
               <button onClick={() => { setSelectedForm(form); setView('edit'); }} className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">Edit Fields & View Submissions</button>
             </div>
           ))
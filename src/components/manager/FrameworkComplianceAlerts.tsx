@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Shield, AlertTriangle, CheckCircle, XCircle, TrendingUp, Clock, FileText } from 'lucide-react';
+import { Shield, AlertTriangle, CheckCircle, XCircle, TrendingUp, TrendingDown, Clock, Play, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { runFundComplianceChecks, getComplianceRunHistory, LIQUIDITY_BUCKETS } from '../../lib/regulatoryCompliance';
+import PreTradeCompliance from './PreTradeCompliance';
 
 interface ComplianceMonitoring {
   id: string;
@@ -13,10 +15,39 @@ interface ComplianceMonitoring {
   concentration_status: string;
   investor_qualification_status: string;
   restriction_violations: any[];
-  breach_details: any[];
+  breach_details: { description?: string; rule?: string }[];
   remediation_actions: any[];
   last_checked_at: string;
   next_check_date: string;
+  metadata: { liquidity_status?: string; [key: string]: unknown } | null;
+}
+
+interface RuleMetrics {
+  concentratedIssuers?: { issuer: string; percentage: number }[];
+  buckets?: Record<string, number>;
+  [key: string]: unknown;
+}
+
+interface RuleResult {
+  rule_code: string;
+  rule_name: string;
+  rule_category: string;
+  severity: string;
+  status: string;
+  message: string;
+  metrics: RuleMetrics;
+}
+
+interface ComplianceRun {
+  id: string;
+  framework_id: string;
+  overall_status: string;
+  holdings_source: string;
+  as_of_date: string | null;
+  total_assets: number;
+  net_asset_value: number;
+  rule_results: RuleResult[];
+  run_at: string;
 }
 
 interface RegulatoryFramework {
@@ -26,16 +57,54 @@ interface RegulatoryFramework {
   jurisdiction: string;
 }
 
+interface IssuerMapping {
+  id: string;
+  security_identifier: string;
+  issuer_name: string;
+  ultimate_issuer: string | null;
+  issuer_type: string;
+  liquidity_bucket: string | null;
+}
+
 interface FrameworkComplianceAlertsProps {
   fundId: string;
   tenantId: string;
 }
 
+// Metric plotted in the trend for each rule category
+const HEADLINE_METRICS: Record<string, { key: string; label: string; unit: string }> = {
+  diversification: { key: 'largestSingleIssuer', label: 'Largest issuer', unit: '%' },
+  leverage: { key: 'leverageRatio', label: 'Leverage', unit: 'x' },
+  concentration: { key: 'largestInvestorPercentage', label: 'Largest investor', unit: '%' },
+  liquidity: { key: 'liquidityPercentage', label: 'Liquid assets', unit: '%' },
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  nav_calculation: 'Approved NAV',
+  trust_positions: 'Trust positions',
+  none: 'No holdings',
+};
+
+const emptyMapping = {
+  security_identifier: '',
+  issuer_name: '',
+  ultimate_issuer: '',
+  issuer_type: 'corporate',
+  liquidity_bucket: '',
+};
+
 export default function FrameworkComplianceAlerts({ fundId, tenantId }: FrameworkComplianceAlertsProps) {
   const [complianceData, setComplianceData] = useState<ComplianceMonitoring[]>([]);
+  const [runs, setRuns] = useState<ComplianceRun[]>([]);
   const [frameworks, setFrameworks] = useState<Record<string, RegulatoryFramework>>({});
+  const [mappings, setMappings] = useState<IssuerMapping[]>([]);
   const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showMappings, setShowMappings] = useState(false);
+  const [showSimulation, setShowSimulation] = useState(false);
+  const [mappingForm, setMappingForm] = useState(emptyMapping);
 
   useEffect(() => {
     loadComplianceData();
@@ -43,21 +112,35 @@ export default function FrameworkComplianceAlerts({ fundId, tenantId }: Framewor
 
   const loadComplianceData = async () => {
     try {
-      const [complianceResult, frameworksResult] = await Promise.all([
+      const [complianceResult, frameworksResult, mappingsResult, history] = await Promise.all([
         supabase
           .from('compliance_monitoring')
           .select('*')
           .eq('fund_id', fundId)
-          .order('monitoring_date', { ascending: false }),
+          .order('last_checked_at', { ascending: false }),
         supabase
           .from('regulatory_frameworks')
+          .select('*'),
+        supabase
+          .from('security_issuer_mappings')
           .select('*')
+          .eq('tenant_id', tenantId)
+          .order('security_identifier'),
+        getComplianceRunHistory(fundId),
       ]);
 
       if (complianceResult.error) throw complianceResult.error;
       if (frameworksResult.error) throw frameworksResult.error;
+      if (mappingsResult.error) throw mappingsResult.error;
 
-      setComplianceData(complianceResult.data || []);
+      // Only the latest record per framework; older ones are the run history
+      const latest = new Map<string, ComplianceMonitoring>();
+      (complianceResult.data || []).forEach(record => {
+        if (!latest.has(record.framework_id)) latest.set(record.framework_id, record);
+      });
+      setComplianceData(Array.from(latest.values()));
+      setRuns(history as ComplianceRun[]);
+      setMappings(mappingsResult.data || []);
 
       const frameworkMap: Record<string, RegulatoryFramework> = {};
       (frameworksResult.data || []).forEach(f => {
@@ -71,45 +154,110 @@ export default function FrameworkComplianceAlerts({ fundId, tenantId }: Framewor
     }
   };
 
+  const handleRunChecks = async () => {
+    setRunning(true);
+    try {
+      const results = await runFundComplianceChecks(fundId, tenantId);
+      if (results.length === 0) {
+        alert('This fund is not mapped to any regulatory frameworks');
+      }
+      await loadComplianceData();
+    } catch (error) {
+      console.error('Error running compliance checks:', error);
+      alert('Failed to run compliance checks');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleAddMapping = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = await supabase.from('security_issuer_mappings').upsert({
+      tenant_id: tenantId,
+      security_identifier: mappingForm.security_identifier.trim(),
+      issuer_name: mappingForm.issuer_name.trim(),
+      ultimate_issuer: mappingForm.ultimate_issuer.trim() || null,
+      issuer_type: mappingForm.issuer_type,
+      liquidity_bucket: mappingForm.liquidity_bucket || null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'tenant_id,security_identifier' });
+
+    if (error) {
+      console.error('Error saving issuer mapping:', error);
+      alert('Failed to save issuer mapping');
+      return;
+    }
+    setMappingForm(emptyMapping);
+    loadComplianceData();
+  };
+
+  const handleDeleteMapping = async (id: string) => {
+    if (!confirm('Delete this issuer mapping?')) return;
+    const { error } = await supabase.from('security_issuer_mappings').delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting issuer mapping:', error);
+      return;
+    }
+    loadComplianceData();
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'compliant':
-        return <CheckCircle className="h-5 w-5 text-green-600" />;
+        return <CheckCircle className="h-5 w-5 text-emerald-400" />;
       case 'warning':
-        return <AlertTriangle className="h-5 w-5 text-yellow-600" />;
+        return <AlertTriangle className="h-5 w-5 text-amber-400" />;
       case 'breach':
-        return <XCircle className="h-5 w-5 text-red-600" />;
+        return <XCircle className="h-5 w-5 text-red-400" />;
       default:
-        return <Clock className="h-5 w-5 text-gray-400" />;
+        return <Clock className="h-5 w-5 text-slate-500" />;
     }
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'compliant':
-        return 'bg-green-50 border-green-200 text-green-900';
+        return 'bg-slate-900/50 border-emerald-500/30';
       case 'warning':
-        return 'bg-yellow-50 border-yellow-200 text-yellow-900';
+        return 'bg-amber-500/5 border-amber-500/30';
       case 'breach':
-        return 'bg-red-50 border-red-200 text-red-900';
+        return 'bg-red-500/5 border-red-500/40';
       default:
-        return 'bg-gray-50 border-gray-200 text-gray-900';
+        return 'bg-slate-900/50 border-slate-800';
     }
   };
 
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
       case 'compliant':
-        return 'bg-green-100 text-green-800';
+        return 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30';
+      case 'warning':
+        return 'bg-amber-500/20 text-amber-300 border-amber-500/30';
+      case 'breach':
+        return 'bg-red-500/20 text-red-300 border-red-500/30';
+      default:
+        return 'bg-slate-500/20 text-slate-300 border-slate-500/30';
+    }
+  };
+
+  const getDotColor = (status: string) => {
+    switch (status) {
+      case 'compliant':
+        return 'bg-emerald-400';
       case 'warning':
-        return 'bg-yellow-100 text-yellow-800';
+        return 'bg-amber-400';
       case 'breach':
-        return 'bg-red-100 text-red-800';
+        return 'bg-red-400';
       default:
-        return 'bg-gray-100 text-gray-800';
+        return 'bg-slate-500';
     }
   };
 
+  const formatMetric = (value: number | undefined, unit: string) => {
+    if (value === undefined || value === null) return '—';
+    return unit === 'x' ? `${value.toFixed(2)}x` : `${value.toFixed(2)}%`;
+  };
+
   const filteredData = filterStatus === 'all'
     ? complianceData
     : complianceData.filter(d => d.overall_status === filterStatus);
@@ -125,273 +273,449 @@ export default function FrameworkComplianceAlerts({ fundId, tenantId }: Framewor
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <div className="animate-spin w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full" />
       </div>
     );
   }
 
-  if (complianceData.length === 0) {
+  const renderTrend = (frameworkId: string) => {
+    // Oldest first, last 12 runs
+    const history = runs.filter(r => r.framework_id === frameworkId).slice(0, 12).reverse();
+    if (history.length === 0) return null;
+
+    const latestRules = history[history.length - 1].rule_results || [];
+
     return (
-      <div className="text-center p-8 bg-white border border-gray-200 rounded-lg">
-        <Shield className="mx-auto h-12 w-12 text-gray-400" />
-        <h3 className="mt-2 text-sm font-medium text-gray-900">No Compliance Data</h3>
-        <p className="mt-1 text-sm text-gray-500">
-          Compliance monitoring data will appear here once frameworks are configured and checks are run.
-        </p>
+      <div className="bg-slate-950/40 rounded-lg p-3 mb-3">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold text-white">Trend</h4>
+          <div className="flex items-center gap-1">
+            {history.map(run => (
+              <span
+                key={run.id}
+                title={`${new Date(run.run_at).toLocaleString()}: ${run.overall_status}`}
+                className={`w-2.5 h-2.5 rounded-full ${getDotColor(run.overall_status)}`}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          {latestRules.filter(rule => HEADLINE_METRICS[rule.rule_category]).map(rule => {
+            const headline = HEADLINE_METRICS[rule.rule_category];
+            const values = history.map(run => {
+              const match = (run.rule_results || []).find(r => r.rule_code === rule.rule_code);
+              return match?.metrics?.[headline.key] as number | undefined;
+            });
+            const defined = values.filter((v): v is number => v !== undefined);
+            const current = defined[defined.length - 1];
+            const previous = defined[defined.length - 2];
+            const max = Math.max(...defined, 0.0001);
+
+            return (
+              <div key={rule.rule_code} className="grid grid-cols-12 gap-3 items-center">
+                <div className="col-span-4 text-xs text-slate-400 truncate" title={rule.rule_name}>
+                  {rule.rule_name} · {headline.label}
+                </div>
+                <div className="col-span-5 flex items-end gap-0.5 h-6">
+                  {values.map((value, idx) => (
+                    <div
+                      key={idx}
+                      className="flex-1 bg-cyan-500/40 rounded-sm"
+                      style={{ height: `${value === undefined ? 0 : Math.max(4, (value / max) * 100)}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="col-span-3 flex items-center justify-end gap-1 text-sm font-mono text-white">
+                  {formatMetric(current, headline.unit)}
+                  {previous !== undefined && current !== undefined && current !== previous && (
+                    current > previous
+                      ? <TrendingUp className="w-3.5 h-3.5 text-slate-400" />
+                      : <TrendingDown className="w-3.5 h-3.5 text-slate-400" />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
       </div>
     );
-  }
+  };
+
+  const renderRuleDetails = (frameworkId: string) => {
+    const latestRun = runs.find(r => r.framework_id === frameworkId);
+    if (!latestRun) {
+      return <p className="text-sm text-slate-500">No run history for this framework yet.</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+          <span>Source: {SOURCE_LABELS[latestRun.holdings_source] || latestRun.holdings_source}</span>
+          {latestRun.as_of_date && <span>Holdings as of {new Date(latestRun.as_of_date).toLocaleDateString()}</span>}
+          <span>Total assets: {Number(latestRun.total_assets).toLocaleString()}</span>
+          <span>NAV: {Number(latestRun.net_asset_value).toLocaleString()}</span>
+        </div>
+        {(latestRun.rule_results || []).map(rule => (
+          <div key={rule.rule_code} className="bg-slate-950/40 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex items-center gap-2">
+                {getStatusIcon(rule.status)}
+                <span className="text-sm font-medium text-white">{rule.rule_name}</span>
+                <span className="text-xs text-slate-500">{rule.rule_code}</span>
+              </div>
+              <span className="text-xs text-slate-500 capitalize">{rule.severity} severity</span>
+            </div>
+            <p className="text-sm text-slate-300 mb-2">{rule.message}</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {Object.entries(rule.metrics || {})
+                .filter(([, value]) => typeof value === 'number')
+                .map(([key, value]) => (
+                  <div key={key} className="text-xs">
+                    <span className="text-slate-500">{key.replace(/([A-Z])/g, ' $1').toLowerCase()}: </span>
+                    <span className="text-slate-200 font-mono">{(value as number).toLocaleString()}</span>
+                  </div>
+                ))}
+            </div>
+            {rule.metrics?.concentratedIssuers && rule.metrics.concentratedIssuers.length > 0 && (
+              <div className="mt-2 text-xs text-slate-400">
+                Concentrated issuers: {rule.metrics.concentratedIssuers
+                  .map(e => `${e.issuer} (${e.percentage}%)`)
+                  .join(', ')}
+              </div>
+            )}
+            {rule.metrics?.buckets && (
+              <div className="mt-2 flex flex-wrap gap-3 text-xs text-slate-400">
+                {LIQUIDITY_BUCKETS.map(bucket => (
+                  <span key={bucket.id}>{bucket.label}: {rule.metrics.buckets?.[bucket.id] ?? 0}%</span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-bold text-gray-900">Multi-Framework Compliance Dashboard</h2>
-          <p className="text-sm text-gray-600 mt-1">
-            Real-time compliance status across all regulatory frameworks
+          <h2 className="text-xl font-semibold text-white">Multi-Framework Compliance</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            Checks run against the latest approved NAV holdings and investor capital accounts
           </p>
         </div>
-        <button
-          onClick={loadComplianceData}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-        >
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowSimulation(true)}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm transition-colors"
+          >
+            What-If
+          </button>
+          <button
+            onClick={() => setShowMappings(!showMappings)}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm transition-colors"
+          >
+            Issuer Mappings ({mappings.length})
+          </button>
+          <button
+            onClick={loadComplianceData}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm transition-colors"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={handleRunChecks}
+            disabled={running}
+            className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {running ? 'Running...' : 'Run Checks'}
+          </button>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <div className="bg-white border border-gray-200 rounded-lg p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600">Total Frameworks</p>
-              <p className="text-2xl font-bold text-gray-900 mt-1">{overallSummary.total}</p>
-            </div>
-            <Shield className="h-8 w-8 text-gray-400" />
-          </div>
-        </div>
+      {showSimulation && (
+        <PreTradeCompliance
+          fundId={fundId}
+          tenantId={tenantId}
+          frameworkNames={Object.fromEntries(Object.values(frameworks).map(f => [f.id, f.framework_name]))}
+          onClose={() => setShowSimulation(false)}
+        />
+      )}
 
-        <div className="bg-white border border-green-200 rounded-lg p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-green-600">Compliant</p>
-              <p className="text-2xl font-bold text-green-900 mt-1">{overallSummary.compliant}</p>
-            </div>
-            <CheckCircle className="h-8 w-8 text-green-600" />
+      {showMappings && (
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-4 space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Issuer Look-Through</h3>
+            <p className="text-xs text-slate-400 mt-1">
+              Map a symbol or NAV line description to its issuer. Holdings sharing an ultimate issuer are aggregated
+              for diversification limits; government and cash holdings count as diversified.
+            </p>
           </div>
+          <form onSubmit={handleAddMapping} className="grid grid-cols-2 md:grid-cols-6 gap-2">
+            <input
+              required
+              placeholder="Symbol / description"
+              value={mappingForm.security_identifier}
+              onChange={(e) => setMappingForm({ ...mappingForm, security_identifier: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <input
+              required
+              placeholder="Issuer"
+              value={mappingForm.issuer_name}
+              onChange={(e) => setMappingForm({ ...mappingForm, issuer_name: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <input
+              placeholder="Ultimate parent"
+              value={mappingForm.ultimate_issuer}
+              onChange={(e) => setMappingForm({ ...mappingForm, ultimate_issuer: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <select
+              value={mappingForm.issuer_type}
+              onChange={(e) => setMappingForm({ ...mappingForm, issuer_type: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            >
+              <option value="corporate">Corporate</option>
+              <option value="government">Government</option>
+              <option value="fund">Fund</option>
+              <option value="cash">Cash</option>
+            </select>
+            <select
+              value={mappingForm.liquidity_bucket}
+              onChange={(e) => setMappingForm({ ...mappingForm, liquidity_bucket: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            >
+              <option value="">Default liquidity</option>
+              {LIQUIDITY_BUCKETS.map(bucket => (
+                <option key={bucket.id} value={bucket.id}>{bucket.label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-1 px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Save
+            </button>
+          </form>
+          {mappings.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-800">
+                  <th className="py-2">Security</th>
+                  <th className="py-2">Issuer</th>
+                  <th className="py-2">Ultimate Parent</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Liquidity</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {mappings.map(mapping => (
+                  <tr key={mapping.id} className="border-b border-slate-800/50 text-slate-300">
+                    <td className="py-2 font-mono">{mapping.security_identifier}</td>
+                    <td className="py-2">{mapping.issuer_name}</td>
+                    <td className="py-2">{mapping.ultimate_issuer || '—'}</td>
+                    <td className="py-2 capitalize">{mapping.issuer_type}</td>
+                    <td className="py-2">
+                      {LIQUIDITY_BUCKETS.find(b => b.id === mapping.liquidity_bucket)?.label || 'Default'}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleDeleteMapping(mapping.id)}
+                        className="p-1.5 hover:bg-red-500/20 rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-400" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
+      )}
 
-        <div className="bg-white border border-yellow-200 rounded-lg p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-yellow-600">Warnings</p>
-              <p className="text-2xl font-bold text-yellow-900 mt-1">{overallSummary.warning}</p>
-            </div>
-            <AlertTriangle className="h-8 w-8 text-yellow-600" />
-          </div>
+      {complianceData.length === 0 ? (
+        <div className="text-center p-8 bg-slate-900/50 border border-slate-800/50 rounded-lg">
+          <Shield className="mx-auto h-12 w-12 text-slate-600" />
+          <h3 className="mt-2 text-sm font-medium text-white">No Compliance Data</h3>
+          <p className="mt-1 text-sm text-slate-400">
+            Map this fund to a regulatory framework and run checks to see its compliance status.
+          </p>
         </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Frameworks</p>
+                  <p className="text-2xl font-bold text-white mt-1">{overallSummary.total}</p>
+                </div>
+                <Shield className="h-8 w-8 text-slate-500" />
+              </div>
+            </div>
 
-        <div className="bg-white border border-red-200 rounded-lg p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-red-600">Breaches</p>
-              <p className="text-2xl font-bold text-red-900 mt-1">{overallSummary.breach}</p>
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Compliant</p>
+                  <p className="text-2xl font-bold text-emerald-400 mt-1">{overallSummary.compliant}</p>
+                </div>
+                <CheckCircle className="h-8 w-8 text-emerald-400" />
+              </div>
             </div>
-            <XCircle className="h-8 w-8 text-red-600" />
-          </div>
-        </div>
-      </div>
 
-      <div className="bg-white border border-gray-200 rounded-lg p-4">
-        <div className="flex items-center space-x-4">
-          <label className="text-sm font-medium text-gray-700">Filter by Status:</label>
-          <select
-            value={filterStatus}
-            onChange={(e) => setFilterStatus(e.target.value)}
-            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            <option value="all">All Statuses</option>
-            <option value="compliant">Compliant</option>
-            <option value="warning">Warning</option>
-            <option value="breach">Breach</option>
-            <option value="under_review">Under Review</option>
-          </select>
-        </div>
-      </div>
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Warnings</p>
+                  <p className="text-2xl font-bold text-amber-400 mt-1">{overallSummary.warning}</p>
+                </div>
+                <AlertTriangle className="h-8 w-8 text-amber-400" />
+              </div>
+            </div>
 
-      <div className="space-y-4">
-        {filteredData.map((compliance) => {
-          const framework = frameworks[compliance.framework_id];
-          if (!framework) return null;
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-slate-400">Breaches</p>
+                  <p className="text-2xl font-bold text-red-400 mt-1">{overallSummary.breach}</p>
+                </div>
+                <XCircle className="h-8 w-8 text-red-400" />
+              </div>
+            </div>
+          </div>
 
-          return (
-            <div
-              key={compliance.id}
-              className={`border-2 rounded-lg overflow-hidden ${getStatusColor(compliance.overall_status)}`}
+          <div className="flex items-center space-x-4">
+            <label className="text-sm text-slate-400">Filter by Status:</label>
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value)}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
             >
-              <div className="p-4">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-start space-x-3">
-                    {getStatusIcon(compliance.overall_status)}
-                    <div>
-                      <h3 className="font-semibold text-lg">{framework.framework_name}</h3>
-                      <div className="flex items-center space-x-2 mt-1">
-                        <span className="text-xs text-gray-600">{framework.framework_code}</span>
-                        <span className="text-xs text-gray-400">•</span>
-                        <span className="text-xs text-gray-600">{framework.jurisdiction}</span>
+              <option value="all">All Statuses</option>
+              <option value="compliant">Compliant</option>
+              <option value="warning">Warning</option>
+              <option value="breach">Breach</option>
+              <option value="under_review">Under Review</option>
+            </select>
+          </div>
+
+          <div className="space-y-4">
+            {filteredData.map((compliance) => {
+              const framework = frameworks[compliance.framework_id];
+              if (!framework) return null;
+
+              const statuses: [string, string][] = [
+                ['Diversification', compliance.diversification_status],
+                ['Leverage', compliance.leverage_status],
+                ['Concentration', compliance.concentration_status],
+                ['Liquidity', compliance.metadata?.liquidity_status || 'compliant'],
+                ['Investor Qualification', compliance.investor_qualification_status],
+              ];
+
+              return (
+                <div
+                  key={compliance.id}
+                  className={`border rounded-lg overflow-hidden ${getStatusColor(compliance.overall_status)}`}
+                >
+                  <div className="p-4">
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-start space-x-3">
+                        {getStatusIcon(compliance.overall_status)}
+                        <div>
+                          <h3 className="font-semibold text-lg text-white">{framework.framework_name}</h3>
+                          <div className="flex items-center space-x-2 mt-1">
+                            <span className="text-xs text-slate-400">{framework.framework_code}</span>
+                            <span className="text-xs text-slate-600">•</span>
+                            <span className="text-xs text-slate-400">{framework.jurisdiction}</span>
+                          </div>
+                        </div>
                       </div>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusBadgeColor(compliance.overall_status)}`}>
+                        {compliance.overall_status.toUpperCase()}
+                      </span>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeColor(compliance.overall_status)}`}>
-                      {compliance.overall_status.toUpperCase()}
-                    </span>
-                  </div>
-                </div>
 
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-                  <div>
-                    <p className="text-xs text-gray-600 mb-1">Diversification</p>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(compliance.diversification_status)}
-                      <span className="text-sm font-medium capitalize">{compliance.diversification_status}</span>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+                      {statuses.map(([label, status]) => (
+                        <div key={label}>
+                          <p className="text-xs text-slate-500 mb-1">{label}</p>
+                          <div className="flex items-center space-x-2">
+                            {getStatusIcon(status)}
+                            <span className="text-sm font-medium text-slate-200 capitalize">{status}</span>
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  </div>
 
-                  <div>
-                    <p className="text-xs text-gray-600 mb-1">Leverage</p>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(compliance.leverage_status)}
-                      <span className="text-sm font-medium capitalize">{compliance.leverage_status}</span>
-                    </div>
-                  </div>
+                    {compliance.breach_details && compliance.breach_details.length > 0 && (
+                      <div className="bg-slate-950/40 rounded-lg p-3 mb-3">
+                        <h4 className="text-sm font-semibold text-white mb-2 flex items-center">
+                          <XCircle className="h-4 w-4 mr-2 text-red-400" />
+                          Findings ({compliance.breach_details.length})
+                        </h4>
+                        <ul className="space-y-1">
+                          {compliance.breach_details.map((breach, idx) => (
+                            <li key={idx} className="text-sm text-slate-300">
+                              • {breach.description || breach.rule || 'Compliance breach detected'}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
 
-                  <div>
-                    <p className="text-xs text-gray-600 mb-1">Concentration</p>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(compliance.concentration_status)}
-                      <span className="text-sm font-medium capitalize">{compliance.concentration_status}</span>
-                    </div>
-                  </div>
+                    {renderTrend(compliance.framework_id)}
 
-                  <div>
-                    <p className="text-xs text-gray-600 mb-1">Investor Qualification</p>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(compliance.investor_qualification_status)}
-                      <span className="text-sm font-medium capitalize">{compliance.investor_qualification_status}</span>
+                    {expanded === compliance.framework_id && (
+                      <div className="mb-3">{renderRuleDetails(compliance.framework_id)}</div>
+                    )}
+
+                    <div className="flex items-center justify-between text-xs text-slate-500 pt-3 border-t border-slate-800">
+                      <div className="flex items-center space-x-4">
+                        <span>
+                          Last Checked: {new Date(compliance.last_checked_at).toLocaleString()}
+                        </span>
+                        {compliance.next_check_date && (
+                          <span>
+                            Next Check: {new Date(compliance.next_check_date).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => setExpanded(expanded === compliance.framework_id ? null : compliance.framework_id)}
+                        className="text-cyan-400 hover:text-cyan-300 font-medium"
+                      >
+                        {expanded === compliance.framework_id ? 'Hide Details' : 'View Details →'}
+                      </button>
                     </div>
                   </div>
                 </div>
+              );
+            })}
+          </div>
 
-                {compliance.breach_details && compliance.breach_details.length > 0 && (
-                  <div className="bg-white bg-opacity-50 rounded-lg p-3 mb-3">
-                    <h4 className="text-sm font-semibold mb-2 flex items-center">
-                      <XCircle className="h-4 w-4 mr-2" />
-                      Breach Details ({compliance.breach_details.length})
-                    </h4>
-                    <ul className="space-y-1">
-                      {compliance.breach_details.slice(0, 3).map((breach: any, idx: number) => (
-                        <li key={idx} className="text-sm">
-                          • {breach.description || breach.rule || 'Compliance breach detected'}
-                        </li>
-                      ))}
-                      {compliance.breach_details.length > 3 && (
-                        <li className="text-sm text-gray-600">
-                          + {compliance.breach_details.length - 3} more breaches
-                        </li>
-                      )}
-                    </ul>
-                  </div>
-                )}
-
-                {compliance.remediation_actions && compliance.remediation_actions.length > 0 && (
-                  <div className="bg-white bg-opacity-50 rounded-lg p-3 mb-3">
-                    <h4 className="text-sm font-semibold mb-2 flex items-center">
-                      <TrendingUp className="h-4 w-4 mr-2" />
-                      Remediation Actions ({compliance.remediation_actions.length})
-                    </h4>
-                    <ul className="space-y-1">
-                      {compliance.remediation_actions.slice(0, 3).map((action: any, idx: number) => (
-                        <li key={idx} className="text-sm">
-                          • {action.action || action.description || 'Remediation required'}
-                        </li>
-                      ))}
-                      {compliance.remediation_actions.length > 3 && (
-                        <li className="text-sm text-gray-600">
-                          + {compliance.remediation_actions.length - 3} more actions
-                        </li>
-                      )}
-                    </ul>
-                  </div>
-                )}
-
-                <div className="flex items-center justify-between text-xs text-gray-600 pt-3 border-t border-current border-opacity-20">
-                  <div className="flex items-center space-x-4">
-                    <span>
-                      Last Checked: {new Date(compliance.last_checked_at).toLocaleString()}
-                    </span>
-                    {compliance.next_check_date && (
-                      <span>
-                        Next Check: {new Date(compliance.next_check_date).toLocaleDateString()}
-                      </span>
-                    )}
-                  </div>
-                  <button className="text-blue-600 hover:text-blue-700 font-medium">
-                    View Details →
-                  </button>
+          {overallSummary.breach > 0 && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <h4 className="text-sm font-medium text-red-300">Compliance Breaches Detected</h4>
+                  <p className="text-sm text-red-200/80 mt-1">
+                    {overallSummary.breach} framework{overallSummary.breach !== 1 ? 's have' : ' has'} breaches on the
+                    latest check. Review the findings above and rebalance or document the remediation.
+                  </p>
                 </div>
               </div>
             </div>
-          );
-        })}
-      </div>
-
-      {overallSummary.breach > 0 && (
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-          <div className="flex items-start space-x-3">
-            <AlertTriangle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <h4 className="text-sm font-medium text-red-900">Critical Compliance Breaches Detected</h4>
-              <p className="text-sm text-red-800 mt-1">
-                You have {overallSummary.breach} framework{overallSummary.breach !== 1 ? 's' : ''} with compliance breaches.
-                Immediate action is required to remediate these issues. Failure to address breaches may result
-                in regulatory penalties or loss of registration status.
-              </p>
-              <button className="mt-3 px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700">
-                Generate Remediation Report
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {overallSummary.warning > 0 && overallSummary.breach === 0 && (
-        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-          <div className="flex items-start space-x-3">
-            <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <h4 className="text-sm font-medium text-yellow-900">Compliance Warnings</h4>
-              <p className="text-sm text-yellow-800 mt-1">
-                You have {overallSummary.warning} framework{overallSummary.warning !== 1 ? 's' : ''} with warnings.
-                While not critical, these should be addressed to maintain optimal compliance status.
-              </p>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {overallSummary.total > 0 && overallSummary.breach === 0 && overallSummary.warning === 0 && (
-        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-          <div className="flex items-start space-x-3">
-            <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <h4 className="text-sm font-medium text-green-900">Full Compliance Achieved</h4>
-              <p className="text-sm text-green-800 mt-1">
-                Congratulations! All {overallSummary.total} regulatory framework{overallSummary.total !== 1 ? 's are' : ' is'} in full compliance.
-                Continue monitoring to maintain this status.
-              </p>
-            </div>
-          </div>
-        </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -43,6 +43,8 @@ export default function FundManagement() {
     accounting_standard: 'GAAP',
     nav_frequency: 'monthly',
     total_commitments: 0,
+    transfer_rofr_days: 0,
+    transfer_requires_consent: true,
   });
 
   useEffect(() => {
@@ -83,6 +85,8 @@ export default function FundManagement() {
         accounting_standard: 'GAAP',
         nav_frequency: 'monthly',
         total_commitments: 0,
+        transfer_rofr_days: 0,
+        transfer_requires_consent: true,
       });
       loadFunds();
     }
@@ -334,6 +338,7 @@ export default function FundManagement() {
                     <option value="credit">Credit Fund</option>
                     <option value="family_office">Family Office</option>
                     <option value="alternative">Alternative Investments</option>
+                    <option value="pooled_trust">Pooled Trust</option>
                     <option value="other">Other</option>
                   </select>
                 </div>
@@ -431,6 +436,33 @@ export default function FundManagement() {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Secondary Transfer ROFR Window (days)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.transfer_rofr_days}
+                    onChange={(e) => setFormData({ ...formData, transfer_rofr_days: parseInt(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+                <div className="flex items-center space-x-3 pt-7">
+                  <input
+                    type="checkbox"
+                    id="transfer_requires_consent"
+                    checked={formData.transfer_requires_consent}
+                    onChange={(e) => setFormData({ ...formData, transfer_requires_consent: e.target.checked })}
+                    className="w-5 h-5 rounded border-slate-600 text-cyan-600 focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <label htmlFor="transfer_requires_consent" className="text-slate-300 cursor-pointer">
+                    Transfers need GP consent
+                  </label>
+                </div>
+              </div>
+
               <div className="flex justify-end space-x-3 pt-4">
                 <button
                   type="button"
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { FileText, Calendar, Send, Eye, Download } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import { calculateStatementFigures, fetchStatementNavs } from '../../lib/reportGenerator';
+import { reportFileUrl } from '../../lib/reportLibrary';
 
 interface Fund {
   id: string;
@@ -27,6 +29,7 @@ interface InvestorStatement {
   shares_ending: number;
   nav_per_share: number;
   status: string;
+  file_path: string | null;
   capital_account: {
     account_number: string;
     investor: { full_name: string; email: string };
@@ -106,8 +109,6 @@ export default function InvestorStatements() {
     const periodDate = new Date(selectedPeriod);
     const periodEnd = new Date(periodDate.getFullYear(), periodDate.getMonth() + 1, 0);
     const periodStart = new Date(periodDate.getFullYear(), periodDate.getMonth(), 1);
-    const prevPeriodEnd = new Date(periodStart);
-    prevPeriodEnd.setDate(prevPeriodEnd.getDate() - 1);
 
     const { data: accounts } = await supabase
       .from('capital_accounts')
@@ -121,62 +122,12 @@ export default function InvestorStatements() {
       return;
     }
 
-    const { data: latestNAV } = await supabase
-      .from('nav_calculations')
-      .select('nav_per_share')
-      .eq('fund_id', selectedFund)
-      .lte('calculation_date', periodEnd.toISOString().split('T')[0])
-      .order('calculation_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    const { data: prevNAV } = await supabase
-      .from('nav_calculations')
-      .select('nav_per_share')
-      .eq('fund_id', selectedFund)
-      .lte('calculation_date', prevPeriodEnd.toISOString().split('T')[0])
-      .order('calculation_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    const navPerShare = latestNAV?.nav_per_share || 100;
-    const prevNavPerShare = prevNAV?.nav_per_share || 100;
+    const start = periodStart.toISOString().split('T')[0];
+    const end = periodEnd.toISOString().split('T')[0];
+    const navs = await fetchStatementNavs(supabase, selectedFund, start, end);
 
     for (const account of accounts) {
-      const { data: transactions } = await supabase
-        .from('capital_transactions')
-        .select('transaction_type, amount, shares')
-        .eq('capital_account_id', account.id)
-        .gte('transaction_date', periodStart.toISOString().split('T')[0])
-        .lte('transaction_date', periodEnd.toISOString().split('T')[0]);
-
-      const contributions = transactions
-        ?.filter(t => t.transaction_type === 'contribution')
-        .reduce((sum, t) => sum + t.amount, 0) || 0;
-
-      const distributions = transactions
-        ?.filter(t => t.transaction_type === 'distribution')
-        .reduce((sum, t) => sum + t.amount, 0) || 0;
-
-      const { data: fees } = await supabase
-        .from('fee_transactions')
-        .select('fee_amount')
-        .eq('capital_account_id', account.id)
-        .gte('period_start', periodStart.toISOString().split('T')[0])
-        .lte('period_end', periodEnd.toISOString().split('T')[0]);
-
-      const totalFees = fees?.reduce((sum, f) => sum + f.fee_amount, 0) || 0;
-
-      const sharesBeginning = account.shares_owned -
-        (transactions?.reduce((sum, t) => sum + (t.shares || 0), 0) || 0);
-
-      const sharesEnding = account.shares_owned;
-
-      const beginningBalance = sharesBeginning * prevNavPerShare;
-      const endingBalance = sharesEnding * navPerShare;
-
-      const returnAmount = endingBalance - beginningBalance - contributions + distributions + totalFees;
-      const returnPercent = beginningBalance > 0 ? (returnAmount / beginningBalance) * 100 : 0;
+      const figures = await calculateStatementFigures(supabase, account, navs, start, end);
 
       await supabase
         .from('investor_statements')
@@ -184,20 +135,11 @@ export default function InvestorStatements() {
           tenant_id: currentTenant?.id,
           capital_account_id: account.id,
           fund_id: selectedFund,
-          statement_date: periodEnd.toISOString().split('T')[0],
-          period_start: periodStart.toISOString().split('T')[0],
-          period_end: periodEnd.toISOString().split('T')[0],
+          statement_date: end,
+          period_start: start,
+          period_end: end,
           statement_type: 'monthly',
-          beginning_balance: beginningBalance,
-          ending_balance: endingBalance,
-          contributions: contributions,
-          distributions: distributions,
-          fees: totalFees,
-          return_amount: returnAmount,
-          return_percent: returnPercent,
-          shares_beginning: sharesBeginning,
-          shares_ending: sharesEnding,
-          nav_per_share: navPerShare,
+          ...figures,
           status: 'draft',
           created_by: user?.id,
         });
@@ -237,6 +179,14 @@ export default function InvestorStatements() {
     }
   };
 
+  const openStatementPdf = async (path: string) => {
+    try {
+      window.open(await reportFileUrl(path), '_blank', 'noopener');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not open statement PDF');
+    }
+  };
+
   const calculateStats = () => {
     return statements.reduce((acc, stmt) => {
       if (stmt.status === 'draft') acc.draft++;
@@ -426,6 +376,15 @@ export default function InvestorStatements() {
                           <span>Send</span>
                         </button>
                       )}
+                      {stmt.file_path && (
+                        <button
+                          onClick={() => openStatementPdf(stmt.file_path!)}
+                          className="text-xs text-slate-300 hover:text-white flex items-center space-x-1"
+                        >
+                          <Download className="w-3 h-3" />
+                          <span>PDF</span>
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
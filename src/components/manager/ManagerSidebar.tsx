@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { BarChart3, Building2, Layers, Wallet, TrendingUp, ArrowRightLeft, Bell, DollarSign, ArrowUpCircle, Percent, Receipt, PieChart, FolderOpen, Calculator, Coins, Package, FileCheck, ShoppingCart, Contact, UserCheck, Users, MessageSquare, Mail, Inbox, Globe, CheckSquare, Briefcase, Shield, UserCog, Settings, ChevronDown, ChevronRight, PanelLeftClose, PanelLeft, Video as LucideIcon, Bot, Phone, PhoneCall, BarChart2, CreditCard, BookOpen, Star, HelpCircle, FileText, Calendar, UserPlus, Lock, Smartphone, Target } from 'lucide-react';
+import { BarChart3, Building2, Layers, Wallet, TrendingUp, ArrowRightLeft, Bell, DollarSign, ArrowUpCircle, Percent, Receipt, PieChart, FolderOpen, Calculator, Coins, Package, FileCheck, ShoppingCart, Contact, UserCheck, Users, MessageSquare, Mail, Inbox, Globe, CheckSquare, Briefcase, Shield, UserCog, Settings, ChevronDown, ChevronRight, PanelLeftClose, PanelLeft, Video as LucideIcon, Bot, Phone, PhoneCall, BarChart2, CreditCard, BookOpen, Star, HelpCircle, FileText, Calendar, UserPlus, Lock, Smartphone, Target, History, ClipboardList } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
+import { TAB_PERMISSIONS } from './tabPermissions';
 
-export type TabType = 'dashboard' | 'funds' | 'classes' | 'accounts' | 'nav' | 'transactions' | 'capital_calls' | 'distributions' | 'redemptions' | 'fees' | 'invoices' | 'statements' | 'performance' | 'reports' | 'waterfall' | 'tax_docs' | 'carried_interest' | 'side_pockets' | 'exchange' | 'contacts' | 'onboarding' | 'clients' | 'lead_sourcing' | 'communications' | 'newsletters' | 'email' | 'community' | 'tasks' | 'analytics' | 'staff' | 'compliance' | 'users' | 'whitelabel' | 'ai_agents' | 'voice_setup' | 'voice_live' | 'voice_dialer' | 'voice_analytics' | 'business_phone' | 'blog' | 'testimonials' | 'faq' | 'forms' | 'scheduler' | 'subscribers' | 'invitation_templates' | 'email_templates' | 'account_settings' | 'vault_docs';
+export type TabType = 'dashboard' | 'funds' | 'classes' | 'accounts' | 'nav' | 'transactions' | 'capital_calls' | 'distributions' | 'redemptions' | 'fees' | 'invoices' | 'statements' | 'performance' | 'reports' | 'waterfall' | 'tax_docs' | 'carried_interest' | 'side_pockets' | 'exchange' | 'contacts' | 'onboarding' | 'clients' | 'lead_sourcing' | 'communications' | 'newsletters' | 'email' | 'community' | 'tasks' | 'analytics' | 'staff' | 'compliance' | 'users' | 'whitelabel' | 'ai_agents' | 'voice_setup' | 'voice_live' | 'voice_dialer' | 'voice_analytics' | 'business_phone' | 'blog' | 'testimonials' | 'faq' | 'forms' | 'scheduler' | 'subscribers' | 'invitation_templates' | 'email_templates' | 'account_settings' | 'vault_docs' | 'application_forms' | 'audit_trail';
 
 interface NavItem {
   id: TabType;
@@ -30,6 +32,7 @@ const SECTIONS_KEY = 'clearnav-sidebar-sections';
 
 export default function ManagerSidebar({ activeTab, onTabChange, isTenantAdmin, userRole, primaryColor, tenantId }: ManagerSidebarProps) {
   const { t } = useTranslation();
+  const { hasPermission } = useAuth();
   const [collapsed, setCollapsed] = useState(() => {
     try {
       return localStorage.getItem(STORAGE_KEY) === 'true';
@@ -97,7 +100,7 @@ export default function ManagerSidebar({ activeTab, onTabChange, isTenantAdmin,
     setCollapsedSections(prev => ({ ...prev, [label]: !prev[label] }));
   };
 
-  const navGroups: NavGroup[] = [
+  const allGroups: NavGroup[] = [
     {
       label: t('navGroups.portfolio'),
       items: [
@@ -119,6 +122,7 @@ export default function ManagerSidebar({ activeTab, onTabChange, isTenantAdmin,
         { id: 'invoices', label: t('nav.invoices'), icon: CreditCard },
         { id: 'exchange', label: t('nav.exchange'), icon: ShoppingCart },
         { id: 'vault_docs' as TabType, label: 'Investor Vault', icon: Lock },
+        { id: 'application_forms' as TabType, label: 'Application Forms', icon: ClipboardList },
       ],
     },
     {
@@ -192,12 +196,23 @@ export default function ManagerSidebar({ activeTab, onTabChange, isTenantAdmin,
         ...(userRole === 'general_manager' || userRole === 'compliance_manager' || userRole === 'legal_counsel' ? [
           { id: 'compliance' as TabType, label: t('nav.compliance'), icon: Shield },
         ] : []),
+        { id: 'audit_trail' as TabType, label: 'Audit Trail', icon: History },
         { id: 'tasks' as TabType, label: t('nav.tasks'), icon: CheckSquare },
         { id: 'analytics' as TabType, label: t('nav.analytics'), icon: Briefcase },
         { id: 'account_settings' as TabType, label: t('nav.accountSettings'), icon: CreditCard },
       ],
     },
-  ].filter(g => g.items.length > 0);
+  ];
+
+  const navGroups = allGroups
+    .map(g => ({
+      ...g,
+      items: g.items.filter(item => {
+        const permission = TAB_PERMISSIONS[item.id];
+        return !permission || hasPermission(permission);
+      }),
+    }))
+    .filter(g => g.items.length > 0);
 
   const activeGroupLabel = navGroups.find(g => g.items.some(i => i.id === activeTab))?.label;
 
@@ -1,13 +1,22 @@
-import { useState, useEffect } from 'react';
-import { X, Plus, Trash2, Calculator, Save, CheckCircle } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { X, Plus, Trash2, Calculator, Save, CheckCircle, History, AlertTriangle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
 import { calculateNAV, NAVLineItem } from '../../lib/navCalculation';
+import { restateNAV } from '../../lib/navRestatement';
+import { resolveNAVRates } from '../../lib/fxRevaluation';
 
 interface NAVCalculatorProps {
   onClose: () => void;
   onSuccess: () => void;
   fundId?: string;
+  // Approved NAV to restate; its figures are loaded for correction
+  restate?: {
+    navCalculationId: string;
+    navDate: string;
+    shareClassId: string | null;
+    version: number;
+  };
 }
 
 interface Fund {
@@ -22,6 +31,7 @@ interface ShareClass {
   class_code: string;
   class_name: string;
   currency: string;
+  is_hedged: boolean;
 }
 
 interface LineItem {
@@ -33,6 +43,8 @@ interface LineItem {
   unitPrice: number;
   amount: number;
   currency: string;
+  metadata?: Record<string, unknown>;
+  hedgeShareClassId?: string;
 }
 
 const ASSET_CATEGORIES = [
@@ -44,6 +56,7 @@ const ASSET_CATEGORIES = [
   'Receivables',
   'Prepaid Expenses',
   'Other Assets',
+  'FX Hedge Overlay',
 ];
 
 const LIABILITY_CATEGORIES = [
@@ -54,15 +67,26 @@ const LIABILITY_CATEGORIES = [
   'Prime Broker Payable',
   'Short Positions',
   'Other Liabilities',
+  'FX Hedge Overlay',
 ];
 
-export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundId }: NAVCalculatorProps) {
+const HEDGE_CATEGORY = 'FX Hedge Overlay';
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'HKD', 'SGD'];
+
+// Rates older than this on the NAV date are flagged as stale
+const STALE_RATE_DAYS = 5;
+
+export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundId, restate }: NAVCalculatorProps) {
   const { user, currentTenant } = useAuth();
   const [funds, setFunds] = useState<Fund[]>([]);
   const [shareClasses, setShareClasses] = useState<ShareClass[]>([]);
   const [selectedFund, setSelectedFund] = useState(initialFundId || '');
-  const [selectedShareClass, setSelectedShareClass] = useState('');
-  const [navDate, setNavDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedShareClass, setSelectedShareClass] = useState(restate?.shareClassId || '');
+  const [navDate, setNavDate] = useState(restate?.navDate || new Date().toISOString().split('T')[0]);
+  const [restatementReason, setRestatementReason] = useState('');
+  const [fxRates, setFxRates] = useState<Record<string, { rate: number; rateDate: string }>>({});
+  const [missingRates, setMissingRates] = useState<string[]>([]);
   const [totalShares, setTotalShares] = useState(0);
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
   const [notes, setNotes] = useState('');
@@ -73,6 +97,39 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
     loadFunds();
   }, [currentTenant]);
 
+  const baseCurrency = funds.find(f => f.id === selectedFund)?.base_currency || 'USD';
+  const foreignCurrencies = Array.from(new Set(lineItems.map(item => item.currency)))
+    .filter(currency => currency !== baseCurrency)
+    .sort();
+
+  const currencyKey = foreignCurrencies.join(',');
+
+  const loadFxRates = useCallback(async () => {
+    const currencies = currencyKey ? currencyKey.split(',') : [];
+    if (currencies.length === 0) {
+      setFxRates({});
+      setMissingRates([]);
+      return;
+    }
+
+    try {
+      const { rates, missing } = await resolveNAVRates(currencies, baseCurrency, new Date(navDate));
+      setFxRates(Object.fromEntries(rates));
+      setMissingRates(missing);
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    }
+  }, [currencyKey, baseCurrency, navDate]);
+
+  useEffect(() => {
+    loadFxRates();
+  }, [loadFxRates]);
+
+  const rateFor = (currency: string) => (currency === baseCurrency ? 1 : fxRates[currency]?.rate);
+
+  const isStale = (rateDate: string) =>
+    (new Date(navDate).getTime() - new Date(rateDate).getTime()) / (1000 * 60 * 60 * 24) > STALE_RATE_DAYS;
+
   useEffect(() => {
     if (selectedFund) {
       loadShareClasses();
@@ -99,7 +156,7 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
   const loadShareClasses = async () => {
     const { data } = await supabase
       .from('share_classes')
-      .select('id, class_code, class_name, currency')
+      .select('id, class_code, class_name, currency, is_hedged')
       .eq('fund_id', selectedFund)
       .eq('status', 'active')
       .order('class_code');
@@ -110,6 +167,9 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
   };
 
   const loadTotalShares = async () => {
+    // A restatement keeps the share count of the version it corrects
+    if (restate) return;
+
     const { data } = await supabase
       .from('capital_accounts')
       .select('shares_owned')
@@ -122,6 +182,47 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
     }
   };
 
+  const restatedNavId = restate?.navCalculationId;
+
+  const loadRestatedLines = useCallback(async () => {
+    if (!restatedNavId) return;
+
+    const { data: original } = await supabase
+      .from('nav_calculations')
+      .select('total_shares')
+      .eq('id', restatedNavId)
+      .single();
+
+    if (original) {
+      setTotalShares(original.total_shares || 0);
+    }
+
+    const { data } = await supabase
+      .from('nav_calculation_details')
+      .select('*')
+      .eq('nav_calculation_id', restatedNavId)
+      .order('sort_order');
+
+    if (data) {
+      setLineItems(data.map(detail => ({
+        id: crypto.randomUUID(),
+        lineType: detail.line_type,
+        category: detail.category,
+        description: detail.description || '',
+        quantity: detail.quantity || 0,
+        unitPrice: detail.unit_price || 0,
+        amount: detail.amount || 0,
+        currency: detail.currency,
+        metadata: detail.metadata || undefined,
+        hedgeShareClassId: detail.hedge_share_class_id || undefined,
+      })));
+    }
+  }, [restatedNavId]);
+
+  useEffect(() => {
+    loadRestatedLines();
+  }, [loadRestatedLines]);
+
   const addLineItem = (type: 'asset' | 'liability') => {
     const newItem: LineItem = {
       id: crypto.randomUUID(),
@@ -143,6 +244,9 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
         if (field === 'quantity' || field === 'unitPrice') {
           updated.amount = updated.quantity * updated.unitPrice;
         }
+        if (field === 'category' && value !== HEDGE_CATEGORY) {
+          updated.hedgeShareClassId = undefined;
+        }
         return updated;
       }
       return item;
@@ -154,13 +258,15 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
   };
 
   const calculateTotals = () => {
+    // Lines without a rate are left out of the base totals until one is entered
+    const baseAmount = (item: LineItem) => item.amount * (rateFor(item.currency) ?? 0);
     const assets = lineItems
       .filter(item => item.lineType === 'asset')
-      .reduce((sum, item) => sum + item.amount, 0);
+      .reduce((sum, item) => sum + baseAmount(item), 0);
 
     const liabilities = lineItems
       .filter(item => item.lineType === 'liability')
-      .reduce((sum, item) => sum + item.amount, 0);
+      .reduce((sum, item) => sum + baseAmount(item), 0);
 
     const nav = assets - liabilities;
     const navPerShare = totalShares > 0 ? nav / totalShares : 0;
@@ -171,6 +277,17 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
   const handleCalculate = async (status: 'draft' | 'pending_approval') => {
     if (!selectedFund || lineItems.length === 0) return;
 
+    if (missingRates.length > 0) {
+      alert(`Enter ${missingRates.map(c => `${c}/${baseCurrency}`).join(', ')} rates for ${navDate} before striking the NAV`);
+      return;
+    }
+
+    const unassignedHedge = lineItems.find(item => item.category === HEDGE_CATEGORY && !item.hedgeShareClassId);
+    if (unassignedHedge) {
+      alert('Choose the hedged share class for every FX hedge overlay line');
+      return;
+    }
+
     setCalculating(true);
 
     try {
@@ -183,10 +300,42 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
         unitPrice: item.unitPrice,
         amount: item.amount,
         currency: item.currency,
+        fxRate: rateFor(item.currency),
         source: 'manual',
+        metadata: item.metadata,
+        hedgeShareClassId: item.hedgeShareClassId,
       }));
 
-      await calculateNAV({
+      if (restate) {
+        if (!restatementReason.trim()) {
+          alert('Enter the reason for the restatement');
+          return;
+        }
+
+        const restatement = await restateNAV({
+          tenantId: currentTenant!.id,
+          navCalculationId: restate.navCalculationId,
+          reason: restatementReason,
+          input: {
+            totalAssets: totals.assets,
+            totalLiabilities: totals.liabilities,
+            totalShares,
+            calculatedBy: user?.id || '',
+            notes,
+            details: navLineItems,
+          },
+        });
+
+        alert(
+          `Version ${restatement.to_version} created for approval. ` +
+          `${restatement.affected_artifacts.length} downstream item(s) used version ${restatement.from_version} and will need reissuing.`
+        );
+        onSuccess();
+        onClose();
+        return;
+      }
+
+      const { navCalculation } = await calculateNAV({
         fundId: selectedFund,
         shareClassId: selectedShareClass || undefined,
         navDate: new Date(navDate),
@@ -199,28 +348,17 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
       });
 
       if (status === 'pending_approval') {
-        const { data: calculation } = await supabase
+        await supabase
           .from('nav_calculations')
-          .select('id')
-          .eq('fund_id', selectedFund)
-          .eq('nav_date', navDate)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (calculation) {
-          await supabase
-            .from('nav_calculations')
-            .update({ status: 'pending_approval' })
-            .eq('id', calculation.id);
-        }
+          .update({ status: 'pending_approval' })
+          .eq('id', navCalculation.id);
       }
 
       onSuccess();
       onClose();
     } catch (error) {
       console.error('Error calculating NAV:', error);
-      alert('Error calculating NAV. Please check your entries and try again.');
+      alert(error instanceof Error ? error.message : 'Error calculating NAV. Please check your entries and try again.');
     } finally {
       setCalculating(false);
     }
@@ -236,9 +374,13 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
           <div>
             <h3 className="text-2xl font-bold text-white flex items-center">
               <Calculator className="w-6 h-6 mr-3 text-cyan-500" />
-              NAV Calculator
+              {restate ? `Restate NAV (Version ${restate.version})` : 'NAV Calculator'}
             </h3>
-            <p className="text-slate-400 mt-1">Calculate Net Asset Value for your fund</p>
+            <p className="text-slate-400 mt-1">
+              {restate
+                ? 'Correct the approved figures; the restated version replaces it once approved'
+                : 'Calculate Net Asset Value for your fund'}
+            </p>
           </div>
           <button
             onClick={onClose}
@@ -257,7 +399,8 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
               <select
                 value={selectedFund}
                 onChange={(e) => setSelectedFund(e.target.value)}
-                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                disabled={!!restate}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500 disabled:opacity-60"
               >
                 {funds.map(fund => (
                   <option key={fund.id} value={fund.id}>
@@ -274,7 +417,8 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
               <select
                 value={selectedShareClass}
                 onChange={(e) => setSelectedShareClass(e.target.value)}
-                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                disabled={!!restate}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500 disabled:opacity-60"
               >
                 <option value="">All Classes (Fund Level)</option>
                 {shareClasses.map(sc => (
@@ -293,7 +437,8 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
                 type="date"
                 value={navDate}
                 onChange={(e) => setNavDate(e.target.value)}
-                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                disabled={!!restate}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500 disabled:opacity-60"
               />
             </div>
           </div>
@@ -319,6 +464,35 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
             </div>
           </div>
 
+          {foreignCurrencies.length > 0 && (
+            <div className={`p-4 rounded-lg border ${missingRates.length > 0 ? 'bg-red-500/10 border-red-500/30' : 'bg-slate-800/50 border-slate-700'}`}>
+              <div className="text-sm font-medium text-white mb-2">Exchange rates into {baseCurrency} on {navDate}</div>
+              <div className="flex flex-wrap gap-3 text-sm">
+                {foreignCurrencies.map(currency => {
+                  const rate = fxRates[currency];
+                  if (!rate) {
+                    return (
+                      <span key={currency} className="flex items-center gap-1 text-red-400">
+                        <AlertTriangle className="w-4 h-4" />
+                        {currency}: no rate on file
+                      </span>
+                    );
+                  }
+                  return (
+                    <span
+                      key={currency}
+                      className={`font-mono ${isStale(rate.rateDate) ? 'text-amber-400' : 'text-slate-300'}`}
+                      title={`Rate dated ${rate.rateDate}`}
+                    >
+                      {currency}/{baseCurrency} {rate.rate.toFixed(6)}
+                      {isStale(rate.rateDate) && ` (stale: ${rate.rateDate})`}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div>
             <div className="flex justify-between items-center mb-3">
               <h4 className="text-lg font-semibold text-white">Assets</h4>
@@ -345,14 +519,45 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
                       ))}
                     </select>
                   </div>
-                  <div className="col-span-3">
-                    <input
-                      type="text"
-                      placeholder="Description"
-                      value={item.description}
-                      onChange={(e) => updateLineItem(item.id, 'description', e.target.value)}
-                      className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
-                    />
+                  <div className="col-span-2">
+                    {item.category === HEDGE_CATEGORY ? (
+                      <select
+                        value={item.hedgeShareClassId || ''}
+                        onChange={(e) => {
+                          const shareClass = shareClasses.find(sc => sc.id === e.target.value);
+                          setLineItems(lineItems.map(li => li.id === item.id
+                            ? { ...li, hedgeShareClassId: e.target.value || undefined, description: shareClass ? `Class ${shareClass.class_code} currency hedge` : li.description }
+                            : li));
+                        }}
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+                      >
+                        <option value="">Hedged class...</option>
+                        {shareClasses.filter(sc => sc.is_hedged).map(sc => (
+                          <option key={sc.id} value={sc.id}>Class {sc.class_code} ({sc.currency})</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        placeholder="Description"
+                        value={item.description}
+                        onChange={(e) => updateLineItem(item.id, 'description', e.target.value)}
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+                      />
+                    )}
+                  </div>
+                  <div className="col-span-1">
+                    <select
+                      value={item.currency}
+                      onChange={(e) => updateLineItem(item.id, 'currency', e.target.value)}
+                      className={`w-full px-2 py-2 bg-slate-800 border rounded text-white text-sm focus:ring-2 focus:ring-cyan-500 ${
+                        missingRates.includes(item.currency) ? 'border-red-500' : 'border-slate-700'
+                      }`}
+                    >
+                      {Array.from(new Set([...CURRENCIES, item.currency])).map(currency => (
+                        <option key={currency} value={currency}>{currency}</option>
+                      ))}
+                    </select>
                   </div>
                   <div className="col-span-2">
                     <input
@@ -379,6 +584,11 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
                       readOnly
                       className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded text-white text-sm font-mono"
                     />
+                    {item.currency !== baseCurrency && rateFor(item.currency) !== undefined && (
+                      <div className="text-[10px] text-slate-500 mt-1 font-mono truncate">
+                        {baseCurrency} {(item.amount * rateFor(item.currency)!).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </div>
+                    )}
                   </div>
                   <div className="col-span-1 flex items-center justify-center">
                     <button
@@ -419,14 +629,45 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
                       ))}
                     </select>
                   </div>
-                  <div className="col-span-3">
-                    <input
-                      type="text"
-                      placeholder="Description"
-                      value={item.description}
-                      onChange={(e) => updateLineItem(item.id, 'description', e.target.value)}
-                      className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
-                    />
+                  <div className="col-span-2">
+                    {item.category === HEDGE_CATEGORY ? (
+                      <select
+                        value={item.hedgeShareClassId || ''}
+                        onChange={(e) => {
+                          const shareClass = shareClasses.find(sc => sc.id === e.target.value);
+                          setLineItems(lineItems.map(li => li.id === item.id
+                            ? { ...li, hedgeShareClassId: e.target.value || undefined, description: shareClass ? `Class ${shareClass.class_code} currency hedge` : li.description }
+                            : li));
+                        }}
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+                      >
+                        <option value="">Hedged class...</option>
+                        {shareClasses.filter(sc => sc.is_hedged).map(sc => (
+                          <option key={sc.id} value={sc.id}>Class {sc.class_code} ({sc.currency})</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        placeholder="Description"
+                        value={item.description}
+                        onChange={(e) => updateLineItem(item.id, 'description', e.target.value)}
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+                      />
+                    )}
+                  </div>
+                  <div className="col-span-1">
+                    <select
+                      value={item.currency}
+                      onChange={(e) => updateLineItem(item.id, 'currency', e.target.value)}
+                      className={`w-full px-2 py-2 bg-slate-800 border rounded text-white text-sm focus:ring-2 focus:ring-cyan-500 ${
+                        missingRates.includes(item.currency) ? 'border-red-500' : 'border-slate-700'
+                      }`}
+                    >
+                      {Array.from(new Set([...CURRENCIES, item.currency])).map(currency => (
+                        <option key={currency} value={currency}>{currency}</option>
+                      ))}
+                    </select>
                   </div>
                   <div className="col-span-2">
                     <input
@@ -453,6 +694,11 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
                       readOnly
                       className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded text-white text-sm font-mono"
                     />
+                    {item.currency !== baseCurrency && rateFor(item.currency) !== undefined && (
+                      <div className="text-[10px] text-slate-500 mt-1 font-mono truncate">
+                        {baseCurrency} {(item.amount * rateFor(item.currency)!).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </div>
+                    )}
                   </div>
                   <div className="col-span-1 flex items-center justify-center">
                     <button
@@ -467,6 +713,21 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
             </div>
           </div>
 
+          {restate && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Restatement Reason *
+              </label>
+              <textarea
+                value={restatementReason}
+                onChange={(e) => setRestatementReason(e.target.value)}
+                placeholder="e.g. Corrected year-end price for XYZ bond received from administrator"
+                rows={2}
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
               Notes
@@ -516,22 +777,35 @@ export default function NAVCalculator({ onClose, onSuccess, fundId: initialFundI
             >
               Cancel
             </button>
-            <button
-              onClick={() => handleCalculate('draft')}
-              disabled={calculating || lineItems.length === 0}
-              className="px-6 py-2.5 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Save className="w-4 h-4" />
-              <span>Save as Draft</span>
-            </button>
-            <button
-              onClick={() => handleCalculate('pending_approval')}
-              disabled={calculating || lineItems.length === 0}
-              className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <CheckCircle className="w-4 h-4" />
-              <span>Submit for Approval</span>
-            </button>
+            {restate ? (
+              <button
+                onClick={() => handleCalculate('draft')}
+                disabled={calculating || lineItems.length === 0}
+                className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <History className="w-4 h-4" />
+                <span>Create Restatement</span>
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleCalculate('draft')}
+                  disabled={calculating || lineItems.length === 0}
+                  className="px-6 py-2.5 bg-slate-600 hover:bg-slate-500 text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>Save as Draft</span>
+                </button>
+                <button
+                  onClick={() => handleCalculate('pending_approval')}
+                  disabled={calculating || lineItems.length === 0}
+                  className="px-6 py-2.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Submit for Approval</span>
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
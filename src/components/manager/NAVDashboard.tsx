@@ -1,9 +1,19 @@
 import { useState, useEffect } from 'react';
-import { TrendingUp, DollarSign, Calendar, CheckCircle, Clock, Plus, Eye, LineChart, ThumbsUp, X } from 'lucide-react';
+import { TrendingUp, DollarSign, Calendar, CheckCircle, Clock, Plus, LineChart, ThumbsUp, X, Lock, Unlock, History, ChevronDown, ChevronUp, Globe } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
-import { getLatestNAV, getNAVHistory, approveNAV } from '../../lib/navCalculation';
+import {
+  getLatestNAV,
+  getNAVHistory,
+  approveNAV,
+  getNAVPeriodLocks,
+  lockNAVPeriod,
+  unlockNAVPeriod,
+} from '../../lib/navCalculation';
+import { getNAVRestatements, markRestatementReissued, NAVRestatement } from '../../lib/navRestatement';
+import { PnLAttribution, ShareClassNAV } from '../../lib/fxRevaluation';
 import NAVCalculator from './NAVCalculator';
+import ExchangeRateManager from './ExchangeRateManager';
 
 interface Fund {
   id: string;
@@ -21,9 +31,30 @@ interface NAVCalculation {
   total_shares: number;
   status: string;
   version: number;
+  share_class_id: string | null;
+  restatement_reason: string | null;
+  calculation_data: {
+    pnl_attribution?: PnLAttribution;
+    share_classes?: ShareClassNAV[];
+  } | null;
   created_at: string;
 }
 
+interface NAVPeriodLock {
+  id: string;
+  locked_through: string;
+  reason: string | null;
+  locked_at: string;
+  unlocked_at: string | null;
+}
+
+const ARTIFACT_LABELS: Record<string, string> = {
+  statement: 'Investor statement',
+  fee_posting: 'Fee posting',
+  waterfall_run: 'Waterfall run',
+  redemption: 'Redemption',
+};
+
 export default function NAVDashboard() {
   const { currentTenant, user } = useAuth();
   const [funds, setFunds] = useState<Fund[]>([]);
@@ -33,6 +64,11 @@ export default function NAVDashboard() {
   const [pendingNAVs, setPendingNAVs] = useState<NAVCalculation[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCalculator, setShowCalculator] = useState(false);
+  const [locks, setLocks] = useState<NAVPeriodLock[]>([]);
+  const [restatements, setRestatements] = useState<NAVRestatement[]>([]);
+  const [expandedRestatement, setExpandedRestatement] = useState<string | null>(null);
+  const [restateTarget, setRestateTarget] = useState<NAVCalculation | null>(null);
+  const [showRates, setShowRates] = useState(false);
 
   useEffect(() => {
     loadFunds();
@@ -85,6 +121,72 @@ export default function NAVDashboard() {
     if (pending) {
       setPendingNAVs(pending);
     }
+
+    try {
+      const [lockRows, restatementRows] = await Promise.all([
+        getNAVPeriodLocks(selectedFund),
+        getNAVRestatements(selectedFund),
+      ]);
+      setLocks(lockRows);
+      setRestatements(restatementRows);
+    } catch (error) {
+      console.error('Error loading NAV locks and restatements:', error);
+    }
+  };
+
+  const activeLock = locks
+    .filter(l => !l.unlocked_at)
+    .sort((a, b) => b.locked_through.localeCompare(a.locked_through))[0];
+
+  const handleLockPeriod = async () => {
+    const suggested = latestNAV?.nav_date || new Date().toISOString().split('T')[0];
+    const lockedThrough = prompt('Lock NAV period through (YYYY-MM-DD):', suggested);
+    if (!lockedThrough) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(lockedThrough)) {
+      alert('Enter the date as YYYY-MM-DD');
+      return;
+    }
+    const reason = prompt('Reason (optional):') ?? undefined;
+
+    try {
+      await lockNAVPeriod({
+        tenantId: currentTenant!.id,
+        fundId: selectedFund,
+        lockedThrough,
+        lockedBy: user?.id || '',
+        reason,
+      });
+      loadNAVData();
+    } catch (error) {
+      console.error('Error locking NAV period:', error);
+      alert(error instanceof Error ? error.message : 'Error locking NAV period');
+    }
+  };
+
+  const handleUnlockPeriod = async (lock: NAVPeriodLock) => {
+    if (!confirm(`Unlock the period through ${new Date(lock.locked_through).toLocaleDateString()}? Back-dated activity will be accepted again.`)) {
+      return;
+    }
+
+    try {
+      await unlockNAVPeriod(lock.id, user?.id || '');
+      loadNAVData();
+    } catch (error) {
+      console.error('Error unlocking NAV period:', error);
+      alert('Error unlocking NAV period');
+    }
+  };
+
+  const handleMarkReissued = async (restatementId: string) => {
+    if (!confirm('Confirm every listed item has been reissued against the restated NAV?')) return;
+
+    try {
+      await markRestatementReissued(restatementId);
+      loadNAVData();
+    } catch (error) {
+      console.error('Error updating restatement:', error);
+      alert('Error updating restatement');
+    }
   };
 
   const handleApproveNAV = async (navId: string) => {
@@ -93,7 +195,7 @@ export default function NAVDashboard() {
       loadNAVData();
     } catch (error) {
       console.error('Error approving NAV:', error);
-      alert('Error approving NAV');
+      alert(error instanceof Error ? error.message : 'Error approving NAV');
     }
   };
 
@@ -148,6 +250,32 @@ export default function NAVDashboard() {
               </option>
             ))}
           </select>
+          {activeLock ? (
+            <button
+              onClick={() => handleUnlockPeriod(activeLock)}
+              title={activeLock.reason || undefined}
+              className="px-4 py-2 bg-amber-500/10 border border-amber-500/40 hover:bg-amber-500/20 text-amber-300 rounded-lg flex items-center space-x-2 transition-colors"
+            >
+              <Lock className="w-4 h-4" />
+              <span>Locked through {new Date(activeLock.locked_through).toLocaleDateString()}</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleLockPeriod}
+              disabled={!selectedFund}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+            >
+              <Unlock className="w-4 h-4" />
+              <span>Lock Period</span>
+            </button>
+          )}
+          <button
+            onClick={() => setShowRates(true)}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center space-x-2 transition-colors"
+          >
+            <Globe className="w-4 h-4" />
+            <span>FX Rates</span>
+          </button>
           <button
             onClick={() => setShowCalculator(true)}
             className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center space-x-2 transition-colors"
@@ -219,6 +347,85 @@ export default function NAVDashboard() {
         </div>
       )}
 
+      {latestNAV?.calculation_data?.pnl_attribution && latestNAV.calculation_data.pnl_attribution.priorNavCalculationId && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4">P&L Attribution vs Prior NAV</h3>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            {[
+              ['Price Effect', latestNAV.calculation_data.pnl_attribution.priceEffect],
+              ['FX Effect', latestNAV.calculation_data.pnl_attribution.fxEffect],
+              ['Total', latestNAV.calculation_data.pnl_attribution.total],
+            ].map(([label, value]) => (
+              <div key={label as string} className="p-3 bg-slate-900/50 rounded-lg">
+                <div className="text-xs text-slate-400">{label}</div>
+                <div className={`text-lg font-semibold font-mono ${(value as number) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {selectedFundData?.base_currency} {(value as number).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                </div>
+              </div>
+            ))}
+          </div>
+          {latestNAV.calculation_data.pnl_attribution.lines.some(line => Math.abs(line.fxEffect) > 0.005) && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2">Line</th>
+                  <th className="py-2">Currency</th>
+                  <th className="py-2 text-right">Price</th>
+                  <th className="py-2 text-right">FX</th>
+                  <th className="py-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {latestNAV.calculation_data.pnl_attribution.lines
+                  .filter(line => Math.abs(line.total) > 0.005)
+                  .map(line => (
+                    <tr key={line.key} className="border-b border-slate-800">
+                      <td className="py-2 text-white">{line.description}</td>
+                      <td className="py-2 text-slate-400">{line.currency}</td>
+                      <td className="py-2 text-right font-mono text-slate-300">{line.priceEffect.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                      <td className="py-2 text-right font-mono text-slate-300">{line.fxEffect.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                      <td className="py-2 text-right font-mono text-white">{line.total.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {latestNAV?.calculation_data?.share_classes && latestNAV.calculation_data.share_classes.length > 0 && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-lg font-semibold text-white mb-4">Share Class NAV</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-2">Class</th>
+                <th className="py-2 text-right">Weight</th>
+                <th className="py-2 text-right">Hedge P&L</th>
+                <th className="py-2 text-right">NAV ({selectedFundData?.base_currency})</th>
+                <th className="py-2 text-right">NAV (Class Ccy)</th>
+                <th className="py-2 text-right">NAV / Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latestNAV.calculation_data.share_classes.map(sc => (
+                <tr key={sc.shareClassId} className="border-b border-slate-800">
+                  <td className="py-2 text-white">
+                    {sc.classCode}
+                    {sc.isHedged && <span className="ml-2 px-2 py-0.5 bg-cyan-500/20 text-cyan-400 rounded text-xs">Hedged</span>}
+                  </td>
+                  <td className="py-2 text-right text-slate-300">{sc.weightPct.toFixed(2)}%</td>
+                  <td className="py-2 text-right font-mono text-slate-300">{sc.isHedged ? sc.hedgePnl.toLocaleString(undefined, { maximumFractionDigits: 0 }) : '-'}</td>
+                  <td className="py-2 text-right font-mono text-slate-300">{sc.navBase.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                  <td className="py-2 text-right font-mono text-white">{sc.currency} {sc.navLocal.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                  <td className="py-2 text-right font-mono text-white">{sc.shares > 0 ? sc.navPerShare.toFixed(4) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {pendingNAVs.length > 0 && (
         <div className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 rounded-xl p-6 border border-yellow-500/50">
           <div className="flex items-center justify-between mb-4">
@@ -240,6 +447,11 @@ export default function NAVDashboard() {
                     <div className="text-white font-medium">
                       {new Date(nav.nav_date).toLocaleDateString()}
                     </div>
+                    {nav.restatement_reason && (
+                      <div className="text-xs text-amber-400 mt-1" title={nav.restatement_reason}>
+                        Restatement v{nav.version}
+                      </div>
+                    )}
                   </div>
                   <div>
                     <div className="text-xs text-slate-400">NAV per Share</div>
@@ -315,8 +527,12 @@ export default function NAVDashboard() {
                 key={nav.id}
                 className="grid grid-cols-6 gap-4 items-center py-3 hover:bg-slate-700/50 rounded-lg px-3 transition-colors"
               >
-                <div className="text-white font-medium">
+                <div className="text-white font-medium flex items-center gap-2">
                   {new Date(nav.nav_date).toLocaleDateString()}
+                  {nav.version > 1 && <span className="text-xs text-slate-500">v{nav.version}</span>}
+                  {activeLock && nav.nav_date <= activeLock.locked_through && (
+                    <Lock className="w-3 h-3 text-amber-400" />
+                  )}
                 </div>
                 <div className="text-white font-mono">
                   {selectedFundData?.base_currency} {nav.nav_per_share.toFixed(4)}
@@ -339,9 +555,15 @@ export default function NAVDashboard() {
                   </span>
                 </div>
                 <div>
-                  <button className="p-2 hover:bg-slate-600 rounded-lg transition-colors">
-                    <Eye className="w-4 h-4 text-cyan-400" />
-                  </button>
+                  {nav.status === 'approved' && (
+                    <button
+                      onClick={() => setRestateTarget(nav)}
+                      className="p-2 hover:bg-slate-600 rounded-lg transition-colors"
+                      title="Restate"
+                    >
+                      <History className="w-4 h-4 text-cyan-400" />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -355,6 +577,130 @@ export default function NAVDashboard() {
         )}
       </div>
 
+      {restatements.length > 0 && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-xl font-semibold text-white flex items-center mb-4">
+            <History className="w-5 h-5 mr-2 text-amber-400" />
+            Restatements ({restatements.length})
+          </h3>
+          <div className="space-y-3">
+            {restatements.map(restatement => {
+              const expanded = expandedRestatement === restatement.id;
+              return (
+                <div key={restatement.id} className="bg-slate-800/80 rounded-lg border border-slate-700">
+                  <button
+                    onClick={() => setExpandedRestatement(expanded ? null : restatement.id)}
+                    className="w-full p-4 grid grid-cols-6 gap-4 items-center text-left"
+                  >
+                    <div className="text-white font-medium">{new Date(restatement.nav_date).toLocaleDateString()}</div>
+                    <div className="text-slate-300 text-sm">v{restatement.from_version} → v{restatement.to_version}</div>
+                    <div className="col-span-2 text-slate-400 text-sm truncate">{restatement.reason}</div>
+                    <div className={`text-sm font-mono ${restatement.diff.navPerShareChangePct < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      {restatement.diff.navPerShareChangePct >= 0 ? '+' : ''}{restatement.diff.navPerShareChangePct.toFixed(4)}% NAV/share
+                    </div>
+                    <div className="flex items-center justify-end gap-2">
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        restatement.status === 'reissued'
+                          ? 'bg-green-500/20 text-green-400'
+                          : restatement.status === 'approved'
+                          ? 'bg-amber-500/20 text-amber-400'
+                          : 'bg-slate-500/20 text-slate-400'
+                      }`}>
+                        {restatement.status === 'approved' ? 'reissue pending' : restatement.status}
+                      </span>
+                      {expanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+                    </div>
+                  </button>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-4">
+                      {restatement.diff.fields.length > 0 && (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+                              <th className="py-2">Field</th>
+                              <th className="py-2 text-right">v{restatement.from_version}</th>
+                              <th className="py-2 text-right">v{restatement.to_version}</th>
+                              <th className="py-2 text-right">Change</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {restatement.diff.fields.map(field => (
+                              <tr key={field.field} className="border-b border-slate-700/50">
+                                <td className="py-2 text-slate-300 capitalize">{field.field.replace(/_/g, ' ')}</td>
+                                <td className="py-2 text-right font-mono text-slate-400">{field.before.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                <td className="py-2 text-right font-mono text-white">{field.after.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                <td className={`py-2 text-right font-mono ${field.change < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                  {field.change >= 0 ? '+' : ''}{field.change.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+
+                      {restatement.diff.lines.length > 0 && (
+                        <div>
+                          <div className="text-xs text-slate-400 mb-2">Line items</div>
+                          <div className="space-y-1 text-sm">
+                            {restatement.diff.lines.map((line, idx) => (
+                              <div key={idx} className="flex justify-between">
+                                <span className="text-slate-300">
+                                  {line.category}{line.description ? ` – ${line.description}` : ''}
+                                  <span className="text-xs text-slate-500 ml-2">{line.status}</span>
+                                </span>
+                                <span className={`font-mono ${line.change < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                  {line.change >= 0 ? '+' : ''}{line.change.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div>
+                        <div className="text-xs text-slate-400 mb-2">
+                          To reissue ({restatement.affected_artifacts.length})
+                        </div>
+                        {restatement.affected_artifacts.length > 0 ? (
+                          <div className="space-y-1 text-sm">
+                            {restatement.affected_artifacts.map(artifact => (
+                              <div key={`${artifact.type}-${artifact.id}`} className="flex justify-between">
+                                <span className="text-slate-300">
+                                  <span className="text-slate-500">{ARTIFACT_LABELS[artifact.type]}:</span> {artifact.description}
+                                </span>
+                                <span className="text-slate-400 text-xs">
+                                  {artifact.date ? new Date(artifact.date).toLocaleDateString() : ''}
+                                  {artifact.status ? ` · ${artifact.status}` : ''}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-slate-500">Nothing downstream used the original NAV.</p>
+                        )}
+                      </div>
+
+                      {restatement.status === 'approved' && (
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => handleMarkReissued(restatement.id)}
+                            className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm flex items-center space-x-1 transition-colors"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                            <span>Mark Reissued</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {!latestNAV && funds.length > 0 && (
         <div className="bg-slate-800/30 rounded-xl p-12 border-2 border-dashed border-slate-700 text-center">
           <TrendingUp className="w-16 h-16 text-slate-600 mx-auto mb-4" />
@@ -389,6 +735,27 @@ export default function NAVDashboard() {
           onSuccess={() => loadNAVData()}
         />
       )}
+
+      {showRates && (
+        <ExchangeRateManager
+          baseCurrency={selectedFundData?.base_currency || 'USD'}
+          onClose={() => setShowRates(false)}
+        />
+      )}
+
+      {restateTarget && (
+        <NAVCalculator
+          fundId={selectedFund}
+          restate={{
+            navCalculationId: restateTarget.id,
+            navDate: restateTarget.nav_date,
+            shareClassId: restateTarget.share_class_id,
+            version: restateTarget.version,
+          }}
+          onClose={() => setRestateTarget(null)}
+          onSuccess={() => loadNAVData()}
+        />
+      )}
     </div>
   );
 }
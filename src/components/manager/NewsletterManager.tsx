@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
-import { Mail, Plus, Edit, Eye, Send, Save, Trash2, Calendar, Users, BarChart3, FileText, X } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Mail, Plus, Edit, Eye, Send, Save, Trash2, Calendar, Users, BarChart3, FileText, X, AlertTriangle, Undo2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import NewsletterStats from './NewsletterStats';
 
 interface Newsletter {
   id: string;
@@ -11,24 +12,29 @@ interface Newsletter {
   summary: string | null;
   status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled';
   target_audience: string;
+  target_fund_ids: string[] | null;
+  target_share_class_ids: string[] | null;
+  target_client_ids: string[] | null;
+  include_subscribers: boolean | null;
   scheduled_send_at: string | null;
   sent_at: string | null;
   total_recipients: number;
   delivered_count: number;
   opened_count: number;
   clicked_count: number;
+  last_error: string | null;
   created_at: string;
   created_by: string;
 }
 
 interface Fund {
   id: string;
-  name: string;
+  fund_name: string;
 }
 
 interface ShareClass {
   id: string;
-  name: string;
+  class_name: string;
   fund_id: string;
 }
 
@@ -45,16 +51,21 @@ export default function NewsletterManager() {
   const [showEditor, setShowEditor] = useState(false);
   const [editingNewsletter, setEditingNewsletter] = useState<Newsletter | null>(null);
   const [viewingNewsletter, setViewingNewsletter] = useState<Newsletter | null>(null);
-  const [filter, setFilter] = useState<'all' | 'draft' | 'sent' | 'scheduled'>('all');
+  const [filter, setFilter] = useState<'all' | 'draft' | 'scheduled' | 'sending' | 'sent'>('all');
 
-  const [formData, setFormData] = useState({
+  const emptyForm = {
     title: '',
     subject: '',
     content: '',
     summary: '',
     target_audience: 'all_clients' as string,
+    target_fund_ids: [] as string[],
+    target_share_class_ids: [] as string[],
+    target_client_ids: [] as string[],
+    include_subscribers: false,
     scheduled_send_at: '',
-  });
+  };
+  const [formData, setFormData] = useState(emptyForm);
 
   const [funds, setFunds] = useState<Fund[]>([]);
   const [shareClasses, setShareClasses] = useState<ShareClass[]>([]);
@@ -64,10 +75,6 @@ export default function NewsletterManager() {
     loadNewsletters();
   }, [filter]);
 
-  useEffect(() => {
-    loadTargetOptions();
-  }, []);
-
   const loadNewsletters = async () => {
     setLoading(true);
 
@@ -90,36 +97,38 @@ export default function NewsletterManager() {
     setLoading(false);
   };
 
-  const loadTargetOptions = async () => {
+  const loadTargetOptions = useCallback(async () => {
     try {
-      const [fundsRes, classesRes, clientsRes] = await Promise.all([
-        supabase.from('funds').select('id, fund_name'),
-        supabase.from('share_classes').select('id, name, fund_id'),
-        supabase.from('client_profiles').select('id, full_name, email'),
+      const [fundsRes, clientsRes] = await Promise.all([
+        supabase.from('funds').select('id, fund_name').eq('tenant_id', currentTenant!.id).order('fund_name'),
+        supabase.from('client_profiles').select('id, full_name, email').eq('tenant_id', currentTenant!.id).order('full_name'),
       ]);
 
       if (fundsRes.error) console.error('Error loading funds:', fundsRes.error);
-      if (classesRes.error) console.error('Error loading share classes:', classesRes.error);
       if (clientsRes.error) console.error('Error loading clients:', clientsRes.error);
 
+      const fundIds = (fundsRes.data || []).map(f => f.id);
+      const classesRes = fundIds.length > 0
+        ? await supabase.from('share_classes').select('id, class_name, fund_id').in('fund_id', fundIds).order('class_name')
+        : { data: [], error: null };
+
+      if (classesRes.error) console.error('Error loading share classes:', classesRes.error);
+
       if (fundsRes.data) setFunds(fundsRes.data);
       if (classesRes.data) setShareClasses(classesRes.data);
       if (clientsRes.data) setClients(clientsRes.data);
     } catch (err) {
       console.error('Error loading target options:', err);
     }
-  };
+  }, [currentTenant]);
+
+  useEffect(() => {
+    if (currentTenant) loadTargetOptions();
+  }, [currentTenant, loadTargetOptions]);
 
   const handleCreate = () => {
     setEditingNewsletter(null);
-    setFormData({
-      title: '',
-      subject: '',
-      content: '',
-      summary: '',
-      target_audience: 'all_clients',
-      scheduled_send_at: '',
-    });
+    setFormData(emptyForm);
     setShowEditor(true);
   };
 
@@ -131,26 +140,73 @@ export default function NewsletterManager() {
       content: newsletter.content,
       summary: newsletter.summary || '',
       target_audience: newsletter.target_audience,
-      scheduled_send_at: newsletter.scheduled_send_at || '',
+      target_fund_ids: newsletter.target_fund_ids || [],
+      target_share_class_ids: newsletter.target_share_class_ids || [],
+      target_client_ids: newsletter.target_client_ids || [],
+      include_subscribers: !!newsletter.include_subscribers,
+      scheduled_send_at: newsletter.scheduled_send_at ? toLocalInput(newsletter.scheduled_send_at) : '',
     });
     setShowEditor(true);
   };
 
-  const handleSave = async (saveAs: 'draft' | 'scheduled' | 'sent') => {
+  // datetime-local inputs hold local wall-clock time without an offset
+  const toLocalInput = (iso: string) => {
+    const d = new Date(iso);
+    return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
+  const missingTargets = () => {
+    switch (formData.target_audience) {
+      case 'specific_funds': return formData.target_fund_ids.length === 0;
+      case 'specific_share_classes': return formData.target_share_class_ids.length === 0;
+      case 'custom_list': return formData.target_client_ids.length === 0;
+      default: return false;
+    }
+  };
+
+  const toggleTarget = (field: 'target_fund_ids' | 'target_share_class_ids' | 'target_client_ids', id: string) => {
+    const current = formData[field];
+    setFormData({
+      ...formData,
+      [field]: current.includes(id) ? current.filter(x => x !== id) : [...current, id],
+    });
+  };
+
+  const handleSave = async (saveAs: 'draft' | 'scheduled' | 'send_now') => {
     if (!formData.title || !formData.subject || !formData.content) {
       alert('Please fill in all required fields');
       return;
     }
 
+    if (saveAs !== 'draft' && missingTargets()) {
+      alert('Select at least one recipient group for the chosen audience');
+      return;
+    }
+
+    if (saveAs === 'scheduled' && new Date(formData.scheduled_send_at) <= new Date()) {
+      alert('The scheduled send time must be in the future');
+      return;
+    }
+
+    if (saveAs === 'send_now' && !confirm('Send this newsletter now? Delivery starts on the next worker run.')) {
+      return;
+    }
+
     const newsletterData = {
       tenant_id: currentTenant!.id,
       title: formData.title,
       subject: formData.subject,
       content: formData.content,
       summary: formData.summary || null,
-      status: saveAs,
+      status: saveAs === 'draft' ? 'draft' : 'scheduled',
       target_audience: formData.target_audience,
-      scheduled_send_at: formData.scheduled_send_at || null,
+      target_fund_ids: formData.target_audience === 'specific_funds' ? formData.target_fund_ids : null,
+      target_share_class_ids: formData.target_audience === 'specific_share_classes' ? formData.target_share_class_ids : null,
+      target_client_ids: formData.target_audience === 'custom_list' ? formData.target_client_ids : null,
+      include_subscribers: formData.include_subscribers,
+      scheduled_send_at: saveAs === 'send_now'
+        ? new Date().toISOString()
+        : formData.scheduled_send_at ? new Date(formData.scheduled_send_at).toISOString() : null,
     };
 
     let error;
@@ -176,6 +232,21 @@ export default function NewsletterManager() {
     }
   };
 
+  const handleUnschedule = async (newsletter: Newsletter) => {
+    const { error } = await supabase
+      .from('newsletters')
+      .update({ status: 'draft' })
+      .eq('id', newsletter.id)
+      .eq('status', 'scheduled');
+
+    if (error) {
+      console.error('Error unscheduling newsletter:', error);
+      alert('Failed to unschedule newsletter');
+    } else {
+      loadNewsletters();
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this newsletter?')) return;
 
@@ -256,25 +327,8 @@ export default function NewsletterManager() {
               </div>
             </div>
 
-            {viewingNewsletter.status === 'sent' && (
-              <div className="grid grid-cols-4 gap-4 pt-6 border-t border-slate-700">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-white">{viewingNewsletter.total_recipients}</div>
-                  <div className="text-sm text-slate-400">Recipients</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-green-400">{viewingNewsletter.delivered_count}</div>
-                  <div className="text-sm text-slate-400">Delivered</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-blue-400">{viewingNewsletter.opened_count}</div>
-                  <div className="text-sm text-slate-400">Opened</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-purple-400">{viewingNewsletter.clicked_count}</div>
-                  <div className="text-sm text-slate-400">Clicked</div>
-                </div>
-              </div>
+            {(viewingNewsletter.status === 'sending' || viewingNewsletter.status === 'sent') && (
+              <NewsletterStats newsletterId={viewingNewsletter.id} />
             )}
 
             <div className="flex space-x-3 pt-4">
@@ -284,7 +338,7 @@ export default function NewsletterManager() {
               >
                 Close
               </button>
-              {viewingNewsletter.status === 'draft' && (
+              {(viewingNewsletter.status === 'draft' || viewingNewsletter.status === 'scheduled') && (
                 <button
                   onClick={() => {
                     setViewingNewsletter(null);
@@ -391,6 +445,85 @@ export default function NewsletterManager() {
               </select>
             </div>
 
+            {formData.target_audience === 'specific_funds' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Funds <span className="text-slate-500 font-normal">(investors currently holding units)</span>
+                </label>
+                <div className="max-h-48 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-3 space-y-2">
+                  {funds.map((fund) => (
+                    <label key={fund.id} className="flex items-center space-x-2 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={formData.target_fund_ids.includes(fund.id)}
+                        onChange={() => toggleTarget('target_fund_ids', fund.id)}
+                        className="rounded border-slate-600"
+                      />
+                      <span>{fund.fund_name}</span>
+                    </label>
+                  ))}
+                  {funds.length === 0 && <div className="text-sm text-slate-500">No funds</div>}
+                </div>
+              </div>
+            )}
+
+            {formData.target_audience === 'specific_share_classes' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Share Classes <span className="text-slate-500 font-normal">(investors currently holding units)</span>
+                </label>
+                <div className="max-h-48 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-3 space-y-2">
+                  {shareClasses.map((sc) => (
+                    <label key={sc.id} className="flex items-center space-x-2 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={formData.target_share_class_ids.includes(sc.id)}
+                        onChange={() => toggleTarget('target_share_class_ids', sc.id)}
+                        className="rounded border-slate-600"
+                      />
+                      <span>
+                        {funds.find(f => f.id === sc.fund_id)?.fund_name} — {sc.class_name}
+                      </span>
+                    </label>
+                  ))}
+                  {shareClasses.length === 0 && <div className="text-sm text-slate-500">No share classes</div>}
+                </div>
+              </div>
+            )}
+
+            {formData.target_audience === 'custom_list' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Clients
+                </label>
+                <div className="max-h-48 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-3 space-y-2">
+                  {clients.map((client) => (
+                    <label key={client.id} className="flex items-center space-x-2 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={formData.target_client_ids.includes(client.id)}
+                        onChange={() => toggleTarget('target_client_ids', client.id)}
+                        className="rounded border-slate-600"
+                      />
+                      <span>{client.full_name}</span>
+                      <span className="text-slate-500">{client.email}</span>
+                    </label>
+                  ))}
+                  {clients.length === 0 && <div className="text-sm text-slate-500">No clients</div>}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center space-x-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={formData.include_subscribers}
+                onChange={(e) => setFormData({ ...formData, include_subscribers: e.target.checked })}
+                className="rounded border-slate-600"
+              />
+              <span>Also send to website newsletter subscribers</span>
+            </label>
+
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-2">
                 Schedule Send (Optional)
@@ -426,6 +559,13 @@ export default function NewsletterManager() {
                   <span>Schedule</span>
                 </button>
               )}
+              <button
+                onClick={() => handleSave('send_now')}
+                className="flex items-center space-x-2 px-6 py-2 bg-green-600 hover:bg-green-500 text-white rounded-lg transition-colors"
+              >
+                <Send className="w-4 h-4" />
+                <span>Send Now</span>
+              </button>
             </div>
           </div>
         </div>
@@ -450,7 +590,7 @@ export default function NewsletterManager() {
       </div>
 
       <div className="flex space-x-2 mb-6">
-        {(['all', 'draft', 'sent', 'scheduled'] as const).map((f) => (
+        {(['all', 'draft', 'scheduled', 'sending', 'sent'] as const).map((f) => (
           <button
             key={f}
             onClick={() => setFilter(f)}
@@ -497,18 +637,30 @@ export default function NewsletterManager() {
                   {newsletter.summary && (
                     <p className="text-slate-500 text-sm mb-3">{newsletter.summary}</p>
                   )}
+                  {newsletter.last_error && newsletter.status === 'sending' && (
+                    <div className="flex items-center space-x-2 text-sm text-red-400 mb-3">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>{newsletter.last_error}</span>
+                    </div>
+                  )}
                   <div className="flex items-center space-x-6 text-sm text-slate-400">
                     <div className="flex items-center space-x-2">
                       <Calendar className="w-4 h-4" />
                       <span>{formatDate(newsletter.created_at)}</span>
                     </div>
+                    {newsletter.status === 'scheduled' && newsletter.scheduled_send_at && (
+                      <div className="flex items-center space-x-2 text-blue-400">
+                        <Send className="w-4 h-4" />
+                        <span>Sends {new Date(newsletter.scheduled_send_at).toLocaleString()}</span>
+                      </div>
+                    )}
                     {newsletter.sent_at && (
                       <div className="flex items-center space-x-2">
                         <Send className="w-4 h-4" />
                         <span>Sent {formatDate(newsletter.sent_at)}</span>
                       </div>
                     )}
-                    {newsletter.status === 'sent' && (
+                    {(newsletter.status === 'sending' || newsletter.status === 'sent') && (
                       <>
                         <div className="flex items-center space-x-2">
                           <Users className="w-4 h-4" />
@@ -530,7 +682,16 @@ export default function NewsletterManager() {
                   >
                     <Eye className="w-4 h-4" />
                   </button>
-                  {newsletter.status === 'draft' && (
+                  {newsletter.status === 'scheduled' && (
+                    <button
+                      onClick={() => handleUnschedule(newsletter)}
+                      className="p-2 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white rounded-lg transition-colors"
+                      title="Unschedule"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(newsletter.status === 'draft' || newsletter.status === 'scheduled') && (
                     <button
                       onClick={() => handleEdit(newsletter)}
                       className="p-2 bg-blue-600/20 hover:bg-blue-600 text-blue-400 hover:text-white rounded-lg transition-colors"
@@ -539,13 +700,15 @@ export default function NewsletterManager() {
                       <Edit className="w-4 h-4" />
                     </button>
                   )}
-                  <button
-                    onClick={() => handleDelete(newsletter.id)}
-                    className="p-2 bg-red-600/20 hover:bg-red-600 text-red-400 hover:text-white rounded-lg transition-colors"
-                    title="Delete"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {newsletter.status !== 'sending' && (
+                    <button
+                      onClick={() => handleDelete(newsletter.id)}
+                      className="p-2 bg-red-600/20 hover:bg-red-600 text-red-400 hover:text-white rounded-lg transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Link as LinkIcon } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+
+interface NewsletterTotals {
+  id: string;
+  status: string;
+  total_recipients: number;
+  delivered_count: number;
+  opened_count: number;
+  clicked_count: number;
+  bounced_count: number;
+  unsubscribed_count: number;
+  last_error: string | null;
+}
+
+interface Recipient {
+  id: string;
+  email: string;
+  status: string;
+  sent_at: string | null;
+  first_opened_at: string | null;
+  open_count: number;
+  click_count: number;
+  links_clicked: string[] | null;
+  error_message: string | null;
+}
+
+interface LinkStat {
+  link_url: string;
+  clicks: number;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'text-slate-400 bg-slate-800/50',
+  sent: 'text-blue-400 bg-blue-900/20',
+  delivered: 'text-cyan-400 bg-cyan-900/20',
+  opened: 'text-green-400 bg-green-900/20',
+  clicked: 'text-purple-400 bg-purple-900/20',
+  bounced: 'text-orange-400 bg-orange-900/20',
+  failed: 'text-red-400 bg-red-900/20',
+  unsubscribed: 'text-yellow-400 bg-yellow-900/20',
+};
+
+const PAGE_SIZE = 100;
+
+export default function NewsletterStats({ newsletterId }: { newsletterId: string }) {
+  const [totals, setTotals] = useState<NewsletterTotals | null>(null);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [recipientCount, setRecipientCount] = useState(0);
+  const [links, setLinks] = useState<LinkStat[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+
+    let recipientQuery = supabase
+      .from('newsletter_recipients')
+      .select('id, email, status, sent_at, first_opened_at, open_count, click_count, links_clicked, error_message', { count: 'exact' })
+      .eq('newsletter_id', newsletterId)
+      .order('email')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (statusFilter !== 'all') {
+      recipientQuery = recipientQuery.eq('status', statusFilter);
+    }
+
+    const [totalsRes, recipientsRes, linksRes] = await Promise.all([
+      supabase
+        .from('newsletters')
+        .select('id, status, total_recipients, delivered_count, opened_count, clicked_count, bounced_count, unsubscribed_count, last_error')
+        .eq('id', newsletterId)
+        .maybeSingle(),
+      recipientQuery,
+      supabase
+        .from('newsletter_analytics')
+        .select('link_url, clicks')
+        .eq('newsletter_id', newsletterId)
+        .not('link_url', 'is', null),
+    ]);
+
+    if (totalsRes.error) console.error('Error loading newsletter totals:', totalsRes.error);
+    if (recipientsRes.error) console.error('Error loading recipients:', recipientsRes.error);
+    if (linksRes.error) console.error('Error loading link analytics:', linksRes.error);
+
+    setTotals(totalsRes.data);
+    setRecipients(recipientsRes.data || []);
+    setRecipientCount(recipientsRes.count || 0);
+
+    const byLink = new Map<string, LinkStat>();
+    for (const row of linksRes.data || []) {
+      const current = byLink.get(row.link_url) || { link_url: row.link_url, clicks: 0 };
+      current.clicks += row.clicks || 0;
+      byLink.set(row.link_url, current);
+    }
+    setLinks([...byLink.values()].sort((a, b) => b.clicks - a.clicks));
+    setLoading(false);
+  }, [newsletterId, statusFilter, page]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const rate = (count: number) => {
+    const delivered = totals?.delivered_count || 0;
+    return delivered > 0 ? `${((count / delivered) * 100).toFixed(1)}%` : '—';
+  };
+
+  if (!totals) {
+    return loading ? <div className="text-slate-400 text-sm py-6">Loading delivery stats...</div> : null;
+  }
+
+  const queued = Math.max(totals.total_recipients - totals.delivered_count - totals.bounced_count, 0);
+
+  return (
+    <div className="space-y-6 pt-6 border-t border-slate-700">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Delivery</h3>
+        <button
+          onClick={loadStats}
+          className="flex items-center space-x-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white rounded-lg text-sm transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {totals.last_error && (
+        <div className="p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-sm text-red-300">
+          {totals.last_error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-white">{totals.total_recipients}</div>
+          <div className="text-sm text-slate-400">Recipients</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-green-400">{totals.delivered_count}</div>
+          <div className="text-sm text-slate-400">Delivered</div>
+          {totals.status === 'sending' && <div className="text-xs text-slate-500">{queued} in queue</div>}
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-400">{totals.opened_count}</div>
+          <div className="text-sm text-slate-400">Opened</div>
+          <div className="text-xs text-slate-500">{rate(totals.opened_count)}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-purple-400">{totals.clicked_count}</div>
+          <div className="text-sm text-slate-400">Clicked</div>
+          <div className="text-xs text-slate-500">{rate(totals.clicked_count)}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-orange-400">{totals.bounced_count}</div>
+          <div className="text-sm text-slate-400">Bounced</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-yellow-400">{totals.unsubscribed_count}</div>
+          <div className="text-sm text-slate-400">Unsubscribed</div>
+        </div>
+      </div>
+
+      {links.length > 0 && (
+        <div>
+          <div className="text-sm text-slate-400 mb-2">Links</div>
+          <div className="bg-slate-900/50 border border-slate-700 rounded-lg divide-y divide-slate-800">
+            {links.map((link) => (
+              <div key={link.link_url} className="flex items-center justify-between px-4 py-2 text-sm">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <LinkIcon className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                  <span className="text-slate-300 truncate">{link.link_url}</span>
+                </div>
+                <div className="text-slate-400 ml-4 whitespace-nowrap">
+                  {link.clicks} {link.clicks === 1 ? 'click' : 'clicks'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm text-slate-400">Recipients ({recipientCount})</div>
+          <select
+            value={statusFilter}
+            onChange={(e) => { setStatusFilter(e.target.value); setPage(0); }}
+            className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="all">All statuses</option>
+            {Object.keys(STATUS_STYLES).map(s => (
+              <option key={s} value={s}>{s.charAt(0).toUpperCase() + s.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="bg-slate-900/50 border border-slate-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-800/50">
+              <tr className="text-left text-slate-400">
+                <th className="px-4 py-2 font-medium">Email</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium text-right">Opens</th>
+                <th className="px-4 py-2 font-medium text-right">Clicks</th>
+                <th className="px-4 py-2 font-medium">First Opened</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {recipients.map((r) => (
+                <tr key={r.id}>
+                  <td className="px-4 py-2 text-slate-300">
+                    {r.email}
+                    {r.error_message && <div className="text-xs text-red-400">{r.error_message}</div>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[r.status] || STATUS_STYLES.pending}`}>
+                      {r.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-slate-300">{r.open_count || 0}</td>
+                  <td className="px-4 py-2 text-right text-slate-300" title={(r.links_clicked || []).join('\n')}>{r.click_count || 0}</td>
+                  <td className="px-4 py-2 text-slate-400">
+                    {r.first_opened_at ? new Date(r.first_opened_at).toLocaleString() : '—'}
+                  </td>
+                </tr>
+              ))}
+              {recipients.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-slate-500">No recipients</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {recipientCount > PAGE_SIZE && (
+          <div className="flex items-center justify-end space-x-2 mt-2 text-sm">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded transition-colors"
+            >
+              Previous
+            </button>
+            <span className="text-slate-400">
+              Page {page + 1} of {Math.ceil(recipientCount / PAGE_SIZE)}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={(page + 1) * PAGE_SIZE >= recipientCount}
+              className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded transition-colors"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
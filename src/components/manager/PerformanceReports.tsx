@@ -1,7 +1,17 @@
-import { useState, useEffect } from 'react';
-import { TrendingUp, TrendingDown, Calculator, BarChart3, PieChart } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { TrendingUp, TrendingDown, Calculator, BarChart3, PieChart, Activity } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import {
+  accountsPerformance,
+  fundPerformance,
+  shareClassPerformance,
+  type AccountPerformance,
+  type PerformanceResult,
+  type PerformanceWindow,
+} from '../../lib/performanceAnalytics';
+import { formatCurrency, formatPct } from '../../lib/format';
+import { PerformanceChart } from '../shared/PerformanceChart';
 
 interface Fund {
   id: string;
@@ -28,14 +38,29 @@ interface PerformanceMetric {
   tvpi: number | null;
 }
 
+interface ShareClass {
+  id: string;
+  class_name: string;
+}
+
+type AnalyticsLevel = 'fund' | 'share_class' | 'investor';
+
 export default function PerformanceReports() {
-  const { currentTenant, user } = useAuth();
+  const { currentTenant } = useAuth();
   const [funds, setFunds] = useState<Fund[]>([]);
   const [metrics, setMetrics] = useState<PerformanceMetric[]>([]);
   const [selectedFund, setSelectedFund] = useState('');
   const [selectedPeriod, setSelectedPeriod] = useState<'monthly' | 'quarterly' | 'yearly' | 'inception_to_date'>('quarterly');
   const [loading, setLoading] = useState(true);
   const [calculating, setCalculating] = useState(false);
+  const [shareClasses, setShareClasses] = useState<ShareClass[]>([]);
+  const [fundResult, setFundResult] = useState<PerformanceResult | null>(null);
+  const [classResults, setClassResults] = useState<Record<string, PerformanceResult>>({});
+  const [accountResults, setAccountResults] = useState<AccountPerformance[]>([]);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [level, setLevel] = useState<AnalyticsLevel>('fund');
+  const [selectedClass, setSelectedClass] = useState('');
+  const [selectedAccount, setSelectedAccount] = useState('');
 
   useEffect(() => {
     loadFunds();
@@ -72,6 +97,7 @@ export default function PerformanceReports() {
       .eq('fund_id', selectedFund)
       .eq('period_type', selectedPeriod)
       .is('capital_account_id', null)
+      .is('share_class_id', null)
       .order('metric_date', { ascending: false })
       .limit(12);
 
@@ -80,6 +106,41 @@ export default function PerformanceReports() {
     }
   };
 
+  const loadAnalytics = useCallback(async () => {
+    setAnalyticsLoading(true);
+    try {
+      const { data: classes } = await supabase
+        .from('share_classes')
+        .select('id, class_name')
+        .eq('fund_id', selectedFund)
+        .order('class_name');
+      const classList = classes || [];
+
+      const [fund, perClass, accounts] = await Promise.all([
+        fundPerformance(selectedFund),
+        Promise.all(classList.map(async (sc) => [sc.id, await shareClassPerformance(selectedFund, sc.id)] as const)),
+        accountsPerformance({ fundId: selectedFund }),
+      ]);
+
+      setShareClasses(classList);
+      setFundResult(fund);
+      setClassResults(Object.fromEntries(perClass));
+      setAccountResults(accounts);
+      setSelectedClass(classList[0]?.id || '');
+      setSelectedAccount(accounts[0]?.accountId || '');
+    } catch (err) {
+      console.error('Error loading performance analytics:', err);
+    } finally {
+      setAnalyticsLoading(false);
+    }
+  }, [selectedFund]);
+
+  useEffect(() => {
+    if (selectedFund) {
+      loadAnalytics();
+    }
+  }, [selectedFund, loadAnalytics]);
+
   const calculatePerformance = async () => {
     setCalculating(true);
 
@@ -103,88 +164,56 @@ export default function PerformanceReports() {
       periodEnd = today;
     }
 
-    const { data: navStart } = await supabase
-      .from('nav_calculations')
-      .select('total_nav')
-      .eq('fund_id', selectedFund)
-      .lte('calculation_date', periodStart.toISOString().split('T')[0])
-      .order('calculation_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    const { data: navEnd } = await supabase
-      .from('nav_calculations')
-      .select('total_nav')
-      .eq('fund_id', selectedFund)
-      .lte('calculation_date', periodEnd.toISOString().split('T')[0])
-      .order('calculation_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    const beginningNAV = navStart?.total_nav || 0;
-    const endingNAV = navEnd?.total_nav || 0;
-
-    const { data: contributions } = await supabase
-      .from('capital_transactions')
-      .select('amount')
-      .eq('fund_id', selectedFund)
-      .eq('transaction_type', 'contribution')
-      .gte('transaction_date', periodStart.toISOString().split('T')[0])
-      .lte('transaction_date', periodEnd.toISOString().split('T')[0]);
-
-    const { data: distributions } = await supabase
-      .from('capital_transactions')
-      .select('amount')
-      .eq('fund_id', selectedFund)
-      .in('transaction_type', ['distribution', 'redemption'])
-      .gte('transaction_date', periodStart.toISOString().split('T')[0])
-      .lte('transaction_date', periodEnd.toISOString().split('T')[0]);
+    const period: PerformanceWindow = {
+      from: selectedPeriod === 'inception_to_date' ? undefined : periodStart.toISOString().split('T')[0],
+      to: periodEnd.toISOString().split('T')[0],
+    };
 
-    const netContributions = contributions?.reduce((sum, t) => sum + t.amount, 0) || 0;
-    const netDistributions = distributions?.reduce((sum, t) => sum + t.amount, 0) || 0;
+    let error: unknown = null;
+    try {
+      const [fund, classes, accounts] = await Promise.all([
+        fundPerformance(selectedFund, period),
+        Promise.all(shareClasses.map(async (sc) => ({ id: sc.id, result: await shareClassPerformance(selectedFund, sc.id, period) }))),
+        accountsPerformance({ fundId: selectedFund }, period),
+      ]);
 
-    const totalReturnAmount = endingNAV + netDistributions - beginningNAV - netContributions;
-    const totalReturnPercent = beginningNAV > 0 ? (totalReturnAmount / beginningNAV) * 100 : 0;
-
-    const { data: allContributions } = await supabase
-      .from('capital_transactions')
-      .select('amount')
-      .eq('fund_id', selectedFund)
-      .eq('transaction_type', 'contribution');
-
-    const { data: allDistributions } = await supabase
-      .from('capital_transactions')
-      .select('amount')
-      .eq('fund_id', selectedFund)
-      .in('transaction_type', ['distribution', 'redemption']);
-
-    const totalContributions = allContributions?.reduce((sum, t) => sum + t.amount, 0) || 1;
-    const totalDistributions = allDistributions?.reduce((sum, t) => sum + t.amount, 0) || 0;
-
-    const dpi = totalDistributions / totalContributions;
-    const rvpi = endingNAV / totalContributions;
-    const tvpi = dpi + rvpi;
-    const moic = tvpi;
-
-    const { error } = await supabase
-      .from('performance_metrics')
-      .insert({
+      const toRow = (result: PerformanceResult, scope: { share_class_id?: string | null; capital_account_id?: string }) => ({
         tenant_id: currentTenant?.id,
         fund_id: selectedFund,
-        metric_date: periodEnd.toISOString().split('T')[0],
+        ...scope,
+        metric_date: period.to,
         period_type: selectedPeriod,
-        beginning_nav: beginningNAV,
-        ending_nav: endingNAV,
-        net_contributions: netContributions,
-        net_distributions: netDistributions,
-        total_return_amount: totalReturnAmount,
-        total_return_percent: totalReturnPercent,
-        dpi: dpi,
-        rvpi: rvpi,
-        tvpi: tvpi,
-        moic: moic,
+        beginning_nav: result.beginningValue,
+        ending_nav: result.endingValue,
+        net_contributions: result.contributed - result.beginningValue,
+        net_distributions: result.distributed,
+        total_return_amount: result.endingValue + result.distributed - result.contributed,
+        total_return_percent: result.twr ?? 0,
+        irr: result.irr,
+        moic: result.tvpi,
+        dpi: result.dpi,
+        rvpi: result.rvpi,
+        tvpi: result.tvpi,
+        calculation_notes: {
+          start_date: result.startDate,
+          end_date: result.endDate,
+          twr_annualised: result.twrAnnualised,
+          method: 'chain_linked_twr_xirr',
+        },
       });
 
+      const { error: insertError } = await supabase
+        .from('performance_metrics')
+        .insert([
+          toRow(fund, {}),
+          ...classes.filter((c) => c.result.endDate).map((c) => toRow(c.result, { share_class_id: c.id })),
+          ...accounts.filter((a) => a.endDate).map((a) => toRow(a, { share_class_id: a.shareClassId, capital_account_id: a.accountId })),
+        ]);
+      error = insertError;
+    } catch (err) {
+      error = err;
+    }
+
     setCalculating(false);
 
     if (!error) {
@@ -209,6 +238,12 @@ export default function PerformanceReports() {
 
   const selectedFundData = funds.find(f => f.id === selectedFund);
   const latestMetric = getLatestMetric();
+  const currency = selectedFundData?.base_currency || 'USD';
+  const analytics = level === 'fund'
+    ? fundResult
+    : level === 'share_class'
+      ? classResults[selectedClass] || null
+      : accountResults.find((a) => a.accountId === selectedAccount) || null;
 
   return (
     <div className="space-y-6">
@@ -374,6 +409,137 @@ export default function PerformanceReports() {
         </>
       )}
 
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Since-Inception Analytics</h3>
+            <p className="text-slate-400 text-sm mt-1">
+              Money-weighted IRR and chain-linked time-weighted return from approved NAVs and settled capital activity
+            </p>
+          </div>
+          <div className="flex space-x-3">
+            <div className="flex bg-slate-800 border border-slate-700 rounded-lg p-1">
+              {([['fund', 'Fund'], ['share_class', 'Share Class'], ['investor', 'Investor']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setLevel(value)}
+                  className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                    level === value ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {level === 'share_class' && (
+              <select
+                value={selectedClass}
+                onChange={(e) => setSelectedClass(e.target.value)}
+                className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              >
+                {shareClasses.map((sc) => (
+                  <option key={sc.id} value={sc.id}>{sc.class_name}</option>
+                ))}
+              </select>
+            )}
+            {level === 'investor' && (
+              <select
+                value={selectedAccount}
+                onChange={(e) => setSelectedAccount(e.target.value)}
+                className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+              >
+                {accountResults.map((a) => (
+                  <option key={a.accountId} value={a.accountId}>
+                    {a.accountNumber} - {a.investorName || 'Investor'}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+
+        {analyticsLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full"></div>
+          </div>
+        ) : analytics && analytics.endDate ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <div className="text-slate-400 text-sm">IRR (annualised)</div>
+                <div className={`text-xl font-bold ${(analytics.irr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatPct(analytics.irr)}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-400 text-sm">TWR (cumulative)</div>
+                <div className={`text-xl font-bold ${(analytics.twr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatPct(analytics.twr)}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-400 text-sm">TWR (annualised)</div>
+                <div className="text-xl font-bold text-white">{formatPct(analytics.twrAnnualised)}</div>
+                {analytics.twrAnnualised === null && (
+                  <div className="text-xs text-slate-500 mt-1">Under one year</div>
+                )}
+              </div>
+              <div>
+                <div className="text-slate-400 text-sm">TVPI</div>
+                <div className="text-xl font-bold text-white">{analytics.tvpi?.toFixed(2) || '-'}x</div>
+              </div>
+              <div>
+                <div className="text-slate-400 text-sm">Current Value</div>
+                <div className="text-xl font-bold text-white">{formatCurrency(analytics.endingValue, currency, 0)}</div>
+              </div>
+            </div>
+
+            <PerformanceChart series={analytics.series} />
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Activity className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No approved NAVs to measure performance against</p>
+          </div>
+        )}
+
+        {!analyticsLoading && accountResults.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-slate-700">
+            <h4 className="text-sm font-semibold text-slate-300 mb-3">Capital Accounts</h4>
+            <div className="grid grid-cols-7 gap-4 text-sm font-medium text-slate-400 pb-3 border-b border-slate-700">
+              <div>Account</div>
+              <div>Investor</div>
+              <div className="text-right">Value</div>
+              <div className="text-right">IRR</div>
+              <div className="text-right">TWR</div>
+              <div className="text-right">TWR Ann.</div>
+              <div className="text-right">TVPI</div>
+            </div>
+            {accountResults.map((a) => (
+              <button
+                key={a.accountId}
+                onClick={() => { setLevel('investor'); setSelectedAccount(a.accountId); }}
+                className={`w-full grid grid-cols-7 gap-4 items-center py-3 px-3 rounded-lg text-left transition-colors ${
+                  level === 'investor' && selectedAccount === a.accountId ? 'bg-slate-700/50' : 'hover:bg-slate-700/50'
+                }`}
+              >
+                <div className="text-white text-sm font-mono">{a.accountNumber}</div>
+                <div className="text-slate-300 text-sm truncate">{a.investorName || '-'}</div>
+                <div className="text-right text-white text-sm">{formatCurrency(a.endingValue, currency, 0)}</div>
+                <div className={`text-right text-sm font-semibold ${(a.irr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatPct(a.irr)}
+                </div>
+                <div className={`text-right text-sm ${(a.twr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatPct(a.twr)}
+                </div>
+                <div className="text-right text-slate-300 text-sm">{formatPct(a.twrAnnualised)}</div>
+                <div className="text-right text-purple-400 text-sm">{a.tvpi?.toFixed(2) || '-'}x</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
         <h3 className="text-xl font-semibold text-white mb-6">
           Historical Performance - {selectedPeriod.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
@@ -381,12 +547,13 @@ export default function PerformanceReports() {
 
         {metrics.length > 0 ? (
           <div className="space-y-2">
-            <div className="grid grid-cols-7 gap-4 text-sm font-medium text-slate-400 pb-3 border-b border-slate-700">
+            <div className="grid grid-cols-8 gap-4 text-sm font-medium text-slate-400 pb-3 border-b border-slate-700">
               <div>Period</div>
               <div className="text-right">Beginning NAV</div>
               <div className="text-right">Ending NAV</div>
               <div className="text-right">Net Cash Flow</div>
               <div className="text-right">Return %</div>
+              <div className="text-right">IRR</div>
               <div className="text-right">MOIC</div>
               <div className="text-right">TVPI</div>
             </div>
@@ -394,7 +561,7 @@ export default function PerformanceReports() {
             {metrics.map((metric) => (
               <div
                 key={metric.id}
-                className="grid grid-cols-7 gap-4 items-center py-3 hover:bg-slate-700/50 rounded-lg px-3 transition-colors"
+                className="grid grid-cols-8 gap-4 items-center py-3 hover:bg-slate-700/50 rounded-lg px-3 transition-colors"
               >
                 <div className="text-white text-sm">
                   {new Date(metric.metric_date).toLocaleDateString('en-US', {
@@ -416,6 +583,9 @@ export default function PerformanceReports() {
                 }`}>
                   {metric.total_return_percent >= 0 ? '+' : ''}{metric.total_return_percent.toFixed(2)}%
                 </div>
+                <div className="text-right text-slate-300 text-sm">
+                  {formatPct(metric.irr)}
+                </div>
                 <div className="text-right text-cyan-400 text-sm">
                   {metric.moic?.toFixed(2) || '-'}x
                 </div>
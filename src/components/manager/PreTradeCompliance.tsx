@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { X, Plus, Trash2, Play, CheckCircle, AlertTriangle, XCircle, ArrowRight } from 'lucide-react';
+import { LIQUIDITY_BUCKETS, LiquidityBucket, RuleHeadroom } from '../../lib/regulatoryCompliance';
+import { simulateCompliance, ComplianceSimulation, HypotheticalChange } from '../../lib/complianceSimulation';
+
+interface PreTradeComplianceProps {
+  fundId: string;
+  tenantId: string;
+  frameworkNames: Record<string, string>;
+  onClose: () => void;
+}
+
+interface ChangeRow {
+  id: string;
+  type: HypotheticalChange['type'];
+  identifier: string;
+  issuer: string;
+  liquidityBucket: LiquidityBucket | '';
+  side: 'buy' | 'sell';
+  amount: number;
+  fundedBy: 'cash' | 'borrowing';
+}
+
+const CHANGE_TYPES: { id: HypotheticalChange['type']; label: string }[] = [
+  { id: 'trade', label: 'Trade' },
+  { id: 'borrowing', label: 'Borrowing' },
+  { id: 'redemption', label: 'Redemption' },
+  { id: 'subscription', label: 'Subscription' },
+];
+
+const newRow = (): ChangeRow => ({
+  id: crypto.randomUUID(),
+  type: 'trade',
+  identifier: '',
+  issuer: '',
+  liquidityBucket: '',
+  side: 'buy',
+  amount: 0,
+  fundedBy: 'cash',
+});
+
+function toChange(row: ChangeRow): HypotheticalChange {
+  switch (row.type) {
+    case 'trade':
+      return {
+        type: 'trade',
+        identifier: row.identifier.trim(),
+        amount: row.side === 'buy' ? row.amount : -row.amount,
+        issuer: row.issuer.trim() || undefined,
+        liquidityBucket: row.liquidityBucket || undefined,
+        fundedBy: row.fundedBy,
+      };
+    case 'borrowing':
+      return { type: 'borrowing', amount: row.side === 'buy' ? row.amount : -row.amount };
+    default:
+      return { type: row.type, amount: row.amount };
+  }
+}
+
+export default function PreTradeCompliance({ fundId, tenantId, frameworkNames, onClose }: PreTradeComplianceProps) {
+  const [rows, setRows] = useState<ChangeRow[]>([newRow()]);
+  const [result, setResult] = useState<ComplianceSimulation | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const updateRow = <K extends keyof ChangeRow>(id: string, field: K, value: ChangeRow[K]) => {
+    setRows(rows.map(row => (row.id === id ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSimulate = async () => {
+    const valid = rows.filter(row => row.amount > 0 && (row.type !== 'trade' || row.identifier.trim()));
+    if (valid.length === 0) {
+      alert('Add at least one change with an amount');
+      return;
+    }
+
+    setRunning(true);
+    try {
+      setResult(await simulateCompliance(fundId, tenantId, valid.map(toChange)));
+    } catch (error) {
+      console.error('Error simulating compliance:', error);
+      alert('Failed to run simulation');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const statusIcon = (status: string) => {
+    if (status === 'breach') return <XCircle className="w-4 h-4 text-red-400" />;
+    if (status === 'warning') return <AlertTriangle className="w-4 h-4 text-amber-400" />;
+    return <CheckCircle className="w-4 h-4 text-emerald-400" />;
+  };
+
+  const formatHeadroom = (h: RuleHeadroom) => {
+    const unit = h.metric === 'leverageRatio' ? 'x' : '%';
+    return `${h.headroom >= 0 ? '' : '-'}${Math.abs(h.headroom).toFixed(2)}${unit}`;
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-xl border border-slate-700 max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-2xl font-bold text-white">Pre-Trade Compliance</h3>
+            <p className="text-sm text-slate-400 mt-1">
+              Test trades, borrowing and investor flows against the fund's limits before they happen
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {rows.map(row => (
+            <div key={row.id} className="grid grid-cols-12 gap-2 p-3 bg-slate-800/50 rounded-lg border border-slate-700">
+              <div className="col-span-2">
+                <select value={row.type} onChange={(e) => updateRow(row.id, 'type', e.target.value as ChangeRow['type'])} className={inputClass}>
+                  {CHANGE_TYPES.map(t => (
+                    <option key={t.id} value={t.id}>{t.label}</option>
+                  ))}
+                </select>
+              </div>
+              {(row.type === 'trade' || row.type === 'borrowing') && (
+                <div className="col-span-1">
+                  <select value={row.side} onChange={(e) => updateRow(row.id, 'side', e.target.value as ChangeRow['side'])} className={inputClass}>
+                    <option value="buy">{row.type === 'trade' ? 'Buy' : 'Draw'}</option>
+                    <option value="sell">{row.type === 'trade' ? 'Sell' : 'Repay'}</option>
+                  </select>
+                </div>
+              )}
+              {row.type === 'trade' && (
+                <>
+                  <div className="col-span-2">
+                    <input
+                      placeholder="Symbol"
+                      value={row.identifier}
+                      onChange={(e) => updateRow(row.id, 'identifier', e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <input
+                      placeholder="Issuer (optional)"
+                      value={row.issuer}
+                      onChange={(e) => updateRow(row.id, 'issuer', e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                </>
+              )}
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  placeholder="Amount"
+                  value={row.amount || ''}
+                  onChange={(e) => updateRow(row.id, 'amount', parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              {row.type === 'trade' && row.side === 'buy' && (
+                <>
+                  <div className="col-span-1">
+                    <select value={row.fundedBy} onChange={(e) => updateRow(row.id, 'fundedBy', e.target.value as ChangeRow['fundedBy'])} className={inputClass}>
+                      <option value="cash">Cash</option>
+                      <option value="borrowing">Borrow</option>
+                    </select>
+                  </div>
+                  <div className="col-span-1">
+                    <select value={row.liquidityBucket} onChange={(e) => updateRow(row.id, 'liquidityBucket', e.target.value as ChangeRow['liquidityBucket'])} className={inputClass} title="Liquidity">
+                      <option value="">Liquidity</option>
+                      {LIQUIDITY_BUCKETS.map(b => (
+                        <option key={b.id} value={b.id}>{b.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+              <div className="col-span-1 flex items-center justify-center ml-auto">
+                <button
+                  onClick={() => setRows(rows.filter(r => r.id !== row.id))}
+                  className="p-2 hover:bg-red-500/20 rounded transition-colors"
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setRows([...rows, newRow()])}
+              className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm flex items-center space-x-1 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Change</span>
+            </button>
+            <button
+              onClick={handleSimulate}
+              disabled={running}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg text-sm flex items-center gap-2 transition-colors"
+            >
+              <Play className="w-4 h-4" />
+              {running ? 'Simulating...' : 'Simulate'}
+            </button>
+          </div>
+
+          {result && (
+            <div className="space-y-4 pt-2">
+              <div className={`p-4 rounded-lg border ${result.blocked ? 'bg-red-500/10 border-red-500/30' : 'bg-emerald-500/10 border-emerald-500/30'}`}>
+                <div className="flex items-center gap-2">
+                  {result.blocked
+                    ? <XCircle className="w-5 h-5 text-red-400" />
+                    : <CheckCircle className="w-5 h-5 text-emerald-400" />}
+                  <span className={`text-sm font-medium ${result.blocked ? 'text-red-300' : 'text-emerald-300'}`}>
+                    {result.blocked
+                      ? 'These changes would worsen the compliance status of one or more rules'
+                      : 'No rule would move to a worse status'}
+                  </span>
+                </div>
+                <div className="flex gap-6 mt-2 text-xs text-slate-400">
+                  <span>NAV {result.before.netAssetValue.toLocaleString(undefined, { maximumFractionDigits: 0 })} → {result.after.netAssetValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                  <span>Total assets {result.before.totalAssets.toLocaleString(undefined, { maximumFractionDigits: 0 })} → {result.after.totalAssets.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                </div>
+              </div>
+
+              {result.frameworks.length === 0 && (
+                <p className="text-sm text-slate-500">This fund is not mapped to any regulatory frameworks.</p>
+              )}
+
+              {result.frameworks.map(framework => (
+                <div key={framework.frameworkId} className="bg-slate-800/50 rounded-lg border border-slate-700 p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-white font-semibold">{frameworkNames[framework.frameworkId] || 'Framework'}</h4>
+                    <div className="flex items-center gap-2 text-sm text-slate-300 capitalize">
+                      {statusIcon(framework.before)} {framework.before}
+                      <ArrowRight className="w-4 h-4 text-slate-500" />
+                      {statusIcon(framework.after)} {framework.after}
+                    </div>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+                        <th className="py-2">Rule</th>
+                        <th className="py-2">Status</th>
+                        <th className="py-2">Limit</th>
+                        <th className="py-2 text-right">Current</th>
+                        <th className="py-2 text-right">After</th>
+                        <th className="py-2 text-right">Headroom After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {framework.rules.flatMap(rule => {
+                        const limits = rule.headroomAfter.length > 0 ? rule.headroomAfter : [null];
+                        return limits.map((after, idx) => {
+                          const before = after ? rule.headroomBefore.find(h => h.metric === after.metric) : undefined;
+                          return (
+                            <tr
+                              key={`${rule.ruleCode}-${idx}`}
+                              className={`border-b border-slate-700/50 ${rule.deteriorated ? 'bg-red-500/5' : ''}`}
+                            >
+                              <td className="py-2 text-slate-200">{idx === 0 ? rule.ruleName : ''}</td>
+                              <td className="py-2">
+                                {idx === 0 && (
+                                  <span className="flex items-center gap-1 text-xs text-slate-300 capitalize">
+                                    {statusIcon(rule.before)}
+                                    <ArrowRight className="w-3 h-3 text-slate-500" />
+                                    {statusIcon(rule.after)} {rule.after}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-2 text-xs text-slate-400">
+                                {after ? `${after.metric.replace(/([A-Z])/g, ' $1').toLowerCase()} ${after.type === 'max' ? '≤' : '≥'} ${after.limit}` : rule.message}
+                              </td>
+                              <td className="py-2 text-right font-mono text-slate-300">{before ? before.value.toFixed(2) : '—'}</td>
+                              <td className="py-2 text-right font-mono text-white">{after ? after.value.toFixed(2) : '—'}</td>
+                              <td className={`py-2 text-right font-mono ${after && after.headroom < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                                {after ? formatHeadroom(after) : '—'}
+                              </td>
+                            </tr>
+                          );
+                        });
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,558 @@
-import { ArrowDownCircle } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowDownCircle, CheckCircle, XCircle, AlertTriangle, Clock, Lock, Scale } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
+import { formatCurrency, formatDate } from '../../lib/format';
+import {
+  RedemptionFrequency,
+  applyRedemptionGate,
+  approveRedemptionRequest,
+  getNextDealingDate,
+  rejectRedemptionRequest,
+  releaseHoldback,
+  reviewRedemptionRequest,
+  settleRedemptions,
+  termsFromShareClass,
+} from '../../lib/redemptions';
+import { getLatestNAV } from '../../lib/navCalculation';
+
+interface Fund {
+  id: string;
+  fund_code: string;
+  fund_name: string;
+  base_currency: string;
+  redemption_gate_pct: number | null;
+}
+
+interface ShareClass {
+  id: string;
+  class_code: string;
+  class_name: string;
+  redemption_frequency: RedemptionFrequency;
+  redemption_notice_days: number;
+  lock_up_months: number;
+  redemption_holdback_pct: number;
+}
+
+interface CapitalAccount {
+  id: string;
+  account_number: string;
+  investor_id: string;
+  share_class_id: string | null;
+  shares_owned: number;
+  inception_date: string | null;
+}
+
+interface RedemptionRequest {
+  id: string;
+  tenant_id: string;
+  client_id: string | null;
+  fund_id: string | null;
+  capital_account_id: string | null;
+  amount: number | null;
+  amount_requested: number | null;
+  redemption_type: string;
+  reason: string | null;
+  status: string;
+  requested_date: string;
+  request_date: string | null;
+  dealing_date: string | null;
+  amount_approved: number | null;
+  settlement_amount: number | null;
+  gated_amount: number | null;
+  holdback_amount: number | null;
+  holdback_released_amount: number | null;
+  settlement_date: string | null;
+  carried_forward_from: string | null;
+  investor: { full_name: string; email: string } | null;
+}
+
+const OPEN_STATUSES = ['pending', 'requested', 'under_review'];
 
 export default function RedemptionManager() {
+  const { currentTenant, user } = useAuth();
+  const [funds, setFunds] = useState<Fund[]>([]);
+  const [shareClasses, setShareClasses] = useState<ShareClass[]>([]);
+  const [accounts, setAccounts] = useState<CapitalAccount[]>([]);
+  const [requests, setRequests] = useState<RedemptionRequest[]>([]);
+  const [selectedFund, setSelectedFund] = useState('');
+  const [dealingDate, setDealingDate] = useState(getNextDealingDate('monthly', new Date()).toISOString().split('T')[0]);
+  const [navPerClass, setNavPerClass] = useState<Record<string, number>>({});
+  const [fundNAV, setFundNAV] = useState(0);
+  const [accountSelections, setAccountSelections] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [settling, setSettling] = useState(false);
+
+  const loadFunds = useCallback(async () => {
+    setLoading(true);
+    const { data } = await supabase
+      .from('funds')
+      .select('id, fund_code, fund_name, base_currency, redemption_gate_pct')
+      .eq('tenant_id', currentTenant?.id)
+      .eq('status', 'active')
+      .order('fund_name');
+
+    if (data) {
+      setFunds(data);
+      if (data.length > 0) {
+        setSelectedFund(current => current || data[0].id);
+      }
+    }
+    setLoading(false);
+  }, [currentTenant]);
+
+  const loadFundData = useCallback(async () => {
+    const [{ data: classData }, { data: accountData }, { data: requestData }] = await Promise.all([
+      supabase
+        .from('share_classes')
+        .select('id, class_code, class_name, redemption_frequency, redemption_notice_days, lock_up_months, redemption_holdback_pct')
+        .eq('fund_id', selectedFund)
+        .order('class_code'),
+      supabase
+        .from('capital_accounts')
+        .select('id, account_number, investor_id, share_class_id, shares_owned, inception_date')
+        .eq('fund_id', selectedFund)
+        .eq('status', 'active'),
+      supabase
+        .from('redemption_requests')
+        .select('*, investor:client_profiles!client_id(full_name, email)')
+        .eq('tenant_id', currentTenant?.id)
+        .or(`fund_id.eq.${selectedFund},fund_id.is.null`)
+        .order('requested_date', { ascending: true }),
+    ]);
+
+    setShareClasses((classData as ShareClass[]) || []);
+    setAccounts((accountData as CapitalAccount[]) || []);
+    setRequests((requestData as RedemptionRequest[]) || []);
+
+    const fundLevel = await getLatestNAV(selectedFund);
+    setFundNAV(fundLevel?.net_asset_value || 0);
+
+    const prices: Record<string, number> = {};
+    for (const shareClass of classData || []) {
+      const classNAV = await getLatestNAV(selectedFund, shareClass.id);
+      prices[shareClass.id] = classNAV?.nav_per_share || fundLevel?.nav_per_share || 0;
+    }
+    prices[''] = fundLevel?.nav_per_share || 0;
+    setNavPerClass(prices);
+  }, [currentTenant, selectedFund]);
+
+  useEffect(() => {
+    loadFunds();
+  }, [loadFunds]);
+
+  useEffect(() => {
+    if (selectedFund) {
+      loadFundData();
+    }
+  }, [selectedFund, loadFundData]);
+
+  const accountFor = (request: RedemptionRequest) => {
+    const accountId = request.capital_account_id || accountSelections[request.id];
+    if (accountId) return accounts.find(a => a.id === accountId) || null;
+    const candidates = accounts.filter(a => a.investor_id === request.client_id);
+    return candidates.length === 1 ? candidates[0] : null;
+  };
+
+  const requestedAmount = (request: RedemptionRequest, account: CapitalAccount | null) => {
+    if (request.redemption_type === 'full' && account) {
+      return account.shares_owned * (navPerClass[account.share_class_id || ''] || 0);
+    }
+    return request.amount_requested ?? request.amount ?? 0;
+  };
+
+  const reviewFor = (request: RedemptionRequest) => {
+    const account = accountFor(request);
+    if (!account) {
+      return { account, amount: requestedAmount(request, null), review: { eligible: false, issues: ['No capital account linked to this request'] } };
+    }
+    const shareClass = shareClasses.find(c => c.id === account.share_class_id);
+    const amount = requestedAmount(request, account);
+    const review = reviewRedemptionRequest({
+      requestDate: new Date(request.request_date || request.requested_date),
+      dealingDate: new Date(dealingDate),
+      inceptionDate: account.inception_date ? new Date(account.inception_date) : null,
+      requestedAmount: amount,
+      accountValue: account.shares_owned * (navPerClass[account.share_class_id || ''] || 0),
+      terms: termsFromShareClass(shareClass),
+    });
+    return { account, amount, review };
+  };
+
+  const handleApprove = async (request: RedemptionRequest) => {
+    const { account, review } = reviewFor(request);
+    if (!account) {
+      alert('Select the capital account this redemption applies to first');
+      return;
+    }
+    if (!review.eligible && !confirm(`This request has review issues:\n\n${review.issues.join('\n')}\n\nApprove anyway?`)) {
+      return;
+    }
+
+    try {
+      await approveRedemptionRequest(request.id, {
+        fundId: selectedFund,
+        capitalAccountId: account.id,
+        dealingDate: new Date(dealingDate),
+        reviewedBy: user!.id,
+        overriddenIssues: review.issues,
+      });
+      loadFundData();
+    } catch (error) {
+      console.error('Error approving redemption:', error);
+      alert('Error approving redemption request');
+    }
+  };
+
+  const handleReject = async (request: RedemptionRequest) => {
+    const reason = prompt('Reason for rejection:');
+    if (!reason) return;
+
+    try {
+      await rejectRedemptionRequest(request.id, reason, user!.id);
+      loadFundData();
+    } catch (error) {
+      console.error('Error rejecting redemption:', error);
+      alert('Error rejecting redemption request');
+    }
+  };
+
+  const handleSettle = async () => {
+    const fund = funds.find(f => f.id === selectedFund);
+    if (!fund || dealingQueue.length === 0) return;
+    if (!confirm(`Settle ${dealingQueue.length} redemption(s) for ${formatDate(dealingDate)}? Transactions will be posted to capital accounts.`)) {
+      return;
+    }
+
+    setSettling(true);
+    try {
+      await settleRedemptions({
+        fundId: selectedFund,
+        dealingDate: new Date(dealingDate),
+        gatePct: fund.redemption_gate_pct,
+        currency: fund.base_currency,
+        requests: dealingQueue.map(({ request, account, amount }) => {
+          const terms = termsFromShareClass(shareClasses.find(c => c.id === account?.share_class_id));
+          return {
+            id: request.id,
+            capitalAccountId: account!.id,
+            shareClassId: account?.share_class_id || null,
+            redemptionType: request.redemption_type,
+            requestedAmount: amount,
+            holdbackPct: terms.holdbackPct,
+            frequency: terms.frequency,
+          };
+        }),
+      });
+      loadFundData();
+    } catch (error) {
+      console.error('Error settling redemptions:', error);
+      alert(error instanceof Error ? error.message : 'Error settling redemptions');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const handleEditGate = async () => {
+    const fund = funds.find(f => f.id === selectedFund);
+    const value = prompt('Fund redemption gate (% of NAV per dealing date, blank for no gate):', fund?.redemption_gate_pct?.toString() || '');
+    if (value === null) return;
+
+    const gatePct = value.trim() === '' ? null : parseFloat(value);
+    if (gatePct !== null && (isNaN(gatePct) || gatePct <= 0 || gatePct > 100)) {
+      alert('Gate must be between 0 and 100');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('funds')
+      .update({ redemption_gate_pct: gatePct })
+      .eq('id', selectedFund);
+
+    if (!error) {
+      loadFunds();
+    } else {
+      alert('Error updating redemption gate');
+    }
+  };
+
+  const handleReleaseHoldback = async (request: RedemptionRequest) => {
+    if (!confirm('Release the outstanding holdback for this redemption?')) return;
+
+    try {
+      await releaseHoldback(request.id, user!.id);
+      loadFundData();
+    } catch (error) {
+      console.error('Error releasing holdback:', error);
+      alert(error instanceof Error ? error.message : 'Error releasing holdback');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-500"></div>
+      </div>
+    );
+  }
+
+  const selectedFundData = funds.find(f => f.id === selectedFund);
+  const currency = selectedFundData?.base_currency || 'USD';
+  const openRequests = requests.filter(r => OPEN_STATUSES.includes(r.status));
+  const dealingQueue = requests
+    .filter(r => r.status === 'approved' && r.dealing_date === dealingDate)
+    .map(request => ({ request, account: accountFor(request), amount: requestedAmount(request, accountFor(request)) }))
+    .filter(item => item.account);
+  const gatePreview = applyRedemptionGate(
+    dealingQueue.map(item => ({ id: item.request.id, amount: item.amount })),
+    fundNAV,
+    selectedFundData?.redemption_gate_pct ?? null
+  );
+  const holdbacks = requests.filter(r => (r.holdback_amount || 0) > (r.holdback_released_amount || 0));
+  const outstandingHoldback = holdbacks.reduce((sum, r) => sum + (r.holdback_amount || 0) - (r.holdback_released_amount || 0), 0);
+
   return (
-    <div className="flex flex-col items-center justify-center py-24 text-center">
-      <ArrowDownCircle className="w-12 h-12 text-gray-500 mb-4" />
-      <h2 className="text-xl font-semibold text-gray-200 mb-2">Redemption Manager</h2>
-      <p className="text-gray-500 text-sm max-w-xs">Redemption management tools are coming soon.</p>
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Redemption Management</h2>
+          <p className="text-slate-400 mt-1">Review, gate and settle investor redemption requests</p>
+        </div>
+        <div className="flex space-x-3">
+          <select
+            value={selectedFund}
+            onChange={(e) => setSelectedFund(e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+          >
+            {funds.map(fund => (
+              <option key={fund.id} value={fund.id}>
+                {fund.fund_code} - {fund.fund_name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={dealingDate}
+            onChange={(e) => setDealingDate(e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+            title="Dealing date"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Awaiting Review</span>
+            <Clock className="w-5 h-5 text-yellow-500" />
+          </div>
+          <div className="text-2xl font-bold text-white">{openRequests.length}</div>
+        </div>
+
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Approved for Dealing Date</span>
+            <CheckCircle className="w-5 h-5 text-green-500" />
+          </div>
+          <div className="text-2xl font-bold text-green-400">{formatCurrency(gatePreview.totalRequested, currency, 0)}</div>
+        </div>
+
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Gate Capacity</span>
+            <Scale className="w-5 h-5 text-cyan-500" />
+          </div>
+          <div className="text-2xl font-bold text-white">
+            {gatePreview.capacity != null ? formatCurrency(gatePreview.capacity, currency, 0) : 'No gate'}
+          </div>
+          <button onClick={handleEditGate} className="text-xs text-cyan-400 hover:text-cyan-300 mt-1">
+            {selectedFundData?.redemption_gate_pct != null ? `${selectedFundData.redemption_gate_pct}% of NAV · Edit` : 'Set gate'}
+          </button>
+        </div>
+
+        <div className="bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl p-6 border border-slate-700">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-sm">Holdbacks Outstanding</span>
+            <Lock className="w-5 h-5 text-orange-500" />
+          </div>
+          <div className="text-2xl font-bold text-orange-400">{formatCurrency(outstandingHoldback, currency, 0)}</div>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-xl font-semibold text-white mb-6">Review Queue ({openRequests.length})</h3>
+
+        {openRequests.length > 0 ? (
+          <div className="space-y-3">
+            {openRequests.map(request => {
+              const { account, amount, review } = reviewFor(request);
+              const investorAccounts = accounts.filter(a => a.investor_id === request.client_id);
+
+              return (
+                <div key={request.id} className="bg-slate-800/80 rounded-lg p-4">
+                  <div className="grid grid-cols-6 gap-4 items-start">
+                    <div className="col-span-2">
+                      <div className="font-medium text-white">{request.investor?.full_name || 'Unknown investor'}</div>
+                      <div className="text-xs text-slate-400">{request.investor?.email}</div>
+                      {account && !request.capital_account_id && investorAccounts.length <= 1 ? (
+                        <div className="text-xs text-slate-400 mt-1">{account.account_number}</div>
+                      ) : request.capital_account_id ? (
+                        <div className="text-xs text-slate-400 mt-1">{account?.account_number}</div>
+                      ) : (
+                        <select
+                          value={accountSelections[request.id] || ''}
+                          onChange={(e) => setAccountSelections({ ...accountSelections, [request.id]: e.target.value })}
+                          className="mt-2 w-full px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-xs"
+                        >
+                          <option value="">Select capital account…</option>
+                          {(investorAccounts.length > 0 ? investorAccounts : accounts).map(a => (
+                            <option key={a.id} value={a.id}>{a.account_number}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-xs text-slate-400">Requested</div>
+                      <div className="text-white font-semibold">{formatCurrency(amount, currency)}</div>
+                      <div className="text-xs text-slate-400 capitalize mt-1">{request.redemption_type}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-slate-400">Notice Received</div>
+                      <div className="text-white text-sm">{formatDate(request.request_date || request.requested_date, 'short')}</div>
+                      {request.carried_forward_from && (
+                        <div className="text-xs text-cyan-400 mt-1">Carried forward</div>
+                      )}
+                    </div>
+                    <div>
+                      {review.eligible ? (
+                        <span className="inline-flex items-center space-x-1 text-xs text-green-400">
+                          <CheckCircle className="w-4 h-4" />
+                          <span>Meets terms</span>
+                        </span>
+                      ) : (
+                        <div className="space-y-1">
+                          {review.issues.map(issue => (
+                            <div key={issue} className="flex items-start space-x-1 text-xs text-yellow-400">
+                              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                              <span>{issue}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => handleApprove(request)}
+                        className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm transition-colors"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReject(request)}
+                        className="px-3 py-1.5 bg-slate-700 hover:bg-red-600 text-white rounded-lg text-sm transition-colors"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {request.reason && (
+                    <div className="mt-3 pt-3 border-t border-slate-700 text-sm text-slate-300">{request.reason}</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <ArrowDownCircle className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-400 text-lg">No redemption requests awaiting review</p>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Dealing Date {formatDate(dealingDate)}</h3>
+            {gatePreview.scaleFactor < 1 && (
+              <p className="text-sm text-orange-400 mt-1">
+                Gate applies: requests scaled to {(gatePreview.scaleFactor * 100).toFixed(2)}%, residuals carried forward
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleSettle}
+            disabled={settling || dealingQueue.length === 0}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {settling ? 'Settling...' : 'Settle at Approved NAV'}
+          </button>
+        </div>
+
+        {dealingQueue.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="pb-2">Investor</th>
+                <th className="pb-2">Account</th>
+                <th className="pb-2 text-right">Requested</th>
+                <th className="pb-2 text-right">After Gate</th>
+                <th className="pb-2 text-right">Carried Forward</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dealingQueue.map(({ request, account }) => {
+                const allocation = gatePreview.allocations.find(a => a.id === request.id)!;
+                return (
+                  <tr key={request.id} className="border-b border-slate-800 text-white">
+                    <td className="py-2">{request.investor?.full_name}</td>
+                    <td className="py-2 font-mono text-xs">{account?.account_number}</td>
+                    <td className="py-2 text-right">{formatCurrency(allocation.requested, currency)}</td>
+                    <td className="py-2 text-right text-green-400">{formatCurrency(allocation.approved, currency)}</td>
+                    <td className="py-2 text-right text-orange-400">{formatCurrency(allocation.gated, currency)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-slate-400 text-sm">No approved requests for this dealing date.</p>
+        )}
+      </div>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-xl font-semibold text-white mb-6">Holdbacks ({holdbacks.length})</h3>
+
+        {holdbacks.length > 0 ? (
+          <div className="space-y-3">
+            {holdbacks.map(request => (
+              <div key={request.id} className="bg-slate-800/80 rounded-lg p-4 flex items-center justify-between">
+                <div>
+                  <div className="font-medium text-white">{request.investor?.full_name}</div>
+                  <div className="text-xs text-slate-400">Settled {formatDate(request.settlement_date, 'short')}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-xs text-slate-400">Paid / Held Back</div>
+                  <div className="text-white text-sm">
+                    {formatCurrency(request.settlement_amount, currency)} / {' '}
+                    <span className="text-orange-400">
+                      {formatCurrency((request.holdback_amount || 0) - (request.holdback_released_amount || 0), currency)}
+                    </span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleReleaseHoldback(request)}
+                  className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm transition-colors"
+                >
+                  Release
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-sm">No holdbacks outstanding.</p>
+        )}
+      </div>
     </div>
   );
 }
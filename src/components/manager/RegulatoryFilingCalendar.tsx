@@ -0,0 +1,382 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CalendarDays, CheckCircle, ChevronDown, ChevronRight, Download, FileCog, Loader2, RefreshCw } from 'lucide-react';
+import { useAuth } from '../../lib/auth';
+import { formatCurrency, formatDate, formatDateTime } from '../../lib/format';
+import { LIQUIDITY_BUCKETS } from '../../lib/regulatoryCompliance';
+import { FILING_STATUSES, OPEN_FILING_STATUSES, daysUntil, frequencyLabel, type FilingStatus } from '../../lib/filingCalendar';
+import {
+  assembleFilingDraft,
+  exportFilingDraft,
+  fetchFilingCalendar,
+  generateFilingCalendar,
+  updateFilingStatus,
+  type FilingCalendarEntry,
+  type FilingExportFormat,
+} from '../../lib/regulatoryFilings';
+
+type StatusFilter = 'open' | 'all' | FilingStatus;
+
+const STATUS_STYLES: Record<FilingStatus, string> = {
+  pending: 'bg-slate-500/20 text-slate-300 border-slate-500/30',
+  in_progress: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  submitted: 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30',
+  accepted: 'bg-green-500/20 text-green-300 border-green-500/30',
+  rejected: 'bg-red-500/20 text-red-300 border-red-500/30',
+  amended: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+};
+
+function dueLabel(entry: FilingCalendarEntry) {
+  if (!OPEN_FILING_STATUSES.includes(entry.filing_status)) return null;
+  const days = daysUntil(entry.due_date);
+  if (days < 0) return { text: `${-days}d overdue`, className: 'text-red-400' };
+  if (days === 0) return { text: 'Due today', className: 'text-red-400' };
+  return { text: `${days}d left`, className: days <= 14 ? 'text-amber-400' : 'text-slate-500' };
+}
+
+export default function RegulatoryFilingCalendar() {
+  const { currentTenant, user } = useAuth();
+  const tenantId = currentTenant?.id;
+
+  const [entries, setEntries] = useState<FilingCalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [fundFilter, setFundFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [statusForm, setStatusForm] = useState<{ status: FilingStatus; reference: string; notes: string }>({ status: 'pending', reference: '', notes: '' });
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const load = useCallback(async () => {
+    if (!tenantId) return;
+    try {
+      setEntries(await fetchFilingCalendar(tenantId));
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Could not load the filing calendar.' });
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 4000);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const handleGenerate = async () => {
+    if (!tenantId) return;
+    setGenerating(true);
+    try {
+      const added = await generateFilingCalendar(tenantId);
+      setToast({ type: 'success', message: added > 0 ? `Added ${added} filing${added === 1 ? '' : 's'} to the calendar.` : 'The calendar is up to date.' });
+      await load();
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Could not generate the calendar.' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const toggleExpanded = (entry: FilingCalendarEntry) => {
+    if (expanded === entry.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(entry.id);
+    setStatusForm({ status: entry.filing_status, reference: entry.submission_reference || '', notes: entry.notes || '' });
+  };
+
+  const handleAssemble = async (entry: FilingCalendarEntry) => {
+    setBusy(entry.id);
+    try {
+      await assembleFilingDraft(entry, user?.id);
+      setToast({ type: 'success', message: `${entry.report_name} draft assembled.` });
+      setExpanded(entry.id);
+      setStatusForm({ status: entry.filing_status === 'pending' ? 'in_progress' : entry.filing_status, reference: entry.submission_reference || '', notes: entry.notes || '' });
+      await load();
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Could not assemble the draft.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = (entry: FilingCalendarEntry, format: FilingExportFormat) => {
+    try {
+      exportFilingDraft(entry, format);
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Could not export the draft.' });
+    }
+  };
+
+  const handleSaveStatus = async (entry: FilingCalendarEntry) => {
+    if (statusForm.status === 'submitted' && !statusForm.reference.trim()) {
+      setToast({ type: 'error', message: 'Enter the submission reference from the regulator.' });
+      return;
+    }
+    setBusy(entry.id);
+    try {
+      await updateFilingStatus(entry, statusForm, user?.id);
+      setToast({ type: 'success', message: 'Filing updated.' });
+      await load();
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Could not update the filing.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 text-cyan-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const funds = Array.from(new Map(entries.map((e) => [e.fund_id, e.funds?.fund_name || 'Fund'])));
+  const open = entries.filter((e) => OPEN_FILING_STATUSES.includes(e.filing_status));
+  const overdue = open.filter((e) => daysUntil(e.due_date) < 0).length;
+  const dueSoon = open.filter((e) => daysUntil(e.due_date) >= 0 && daysUntil(e.due_date) <= 30).length;
+  const inProgress = entries.filter((e) => e.filing_status === 'in_progress').length;
+  const submitted = entries.filter((e) => ['submitted', 'accepted'].includes(e.filing_status)).length;
+
+  const visible = entries.filter((e) =>
+    (!fundFilter || e.fund_id === fundFilter) &&
+    (statusFilter === 'all' || (statusFilter === 'open' ? OPEN_FILING_STATUSES.includes(e.filing_status) : e.filing_status === statusFilter))
+  );
+
+  const inputClass = 'px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:ring-2 focus:ring-cyan-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Filing Calendar</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Filings owed under each fund's regulatory framework mappings, with drafts pre-filled from NAV and capital-account data
+          </p>
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+        >
+          {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Generate Calendar
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Overdue', value: overdue, className: overdue > 0 ? 'text-red-400' : 'text-white' },
+          { label: 'Due in 30 days', value: dueSoon, className: dueSoon > 0 ? 'text-amber-400' : 'text-white' },
+          { label: 'Drafts in progress', value: inProgress, className: 'text-white' },
+          { label: 'Submitted', value: submitted, className: 'text-white' },
+        ].map((card) => (
+          <div key={card.label} className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-4">
+            <div className={`text-2xl font-bold ${card.className}`}>{card.value}</div>
+            <div className="text-sm text-slate-400">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <select value={fundFilter} onChange={(e) => setFundFilter(e.target.value)} className={inputClass}>
+          <option value="">All funds</option>
+          {funds.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)} className={inputClass}>
+          <option value="open">Open filings</option>
+          <option value="all">All filings</option>
+          {FILING_STATUSES.map((s) => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center border border-dashed border-slate-800 rounded-xl">
+          <CalendarDays className="w-10 h-10 text-slate-600 mb-3" />
+          <p className="text-sm text-slate-300 mb-1">No filings to show</p>
+          <p className="text-xs text-slate-500 max-w-sm">
+            Filings are generated for funds with a registered, exempt or in-progress framework mapping. Map frameworks to a fund, then generate the calendar.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((entry) => {
+            const due = dueLabel(entry);
+            const draft = entry.draft_data;
+            const isExpanded = expanded === entry.id;
+
+            return (
+              <div key={entry.id} className="bg-slate-800/40 border border-slate-700/50 rounded-lg">
+                <div className="flex items-center gap-4 px-4 py-3">
+                  <button onClick={() => toggleExpanded(entry)} className="text-slate-400 hover:text-white">
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </button>
+                  <div className="w-28 flex-shrink-0">
+                    <p className="text-sm text-white">{formatDate(entry.due_date, 'short')}</p>
+                    {due && <p className={`text-xs ${due.className}`}>{due.text}</p>}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white truncate">
+                      {entry.report_name} · {entry.funds?.fund_name || 'Fund'}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {entry.regulatory_frameworks?.framework_name || entry.regulatory_frameworks?.framework_code}
+                      {' · '}{frequencyLabel(entry.reporting_frequency)}
+                      {entry.report_period_end && ` · Period ${formatDate(entry.report_period_start, 'short')} – ${formatDate(entry.report_period_end, 'short')}`}
+                      {entry.submission_reference && ` · Ref ${entry.submission_reference}`}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 text-xs rounded-full border ${STATUS_STYLES[entry.filing_status]}`}>
+                    {FILING_STATUSES.find((s) => s.value === entry.filing_status)?.label}
+                  </span>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleAssemble(entry)}
+                      disabled={busy !== null}
+                      title={draft ? 'Reassemble draft from current data' : 'Assemble draft'}
+                      className="p-2 rounded-lg text-slate-400 hover:text-cyan-400 hover:bg-cyan-400/10 transition-colors disabled:opacity-30"
+                    >
+                      {busy === entry.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileCog className="w-4 h-4" />}
+                    </button>
+                    {(['csv', 'xml'] as FilingExportFormat[]).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(entry, format)}
+                        disabled={!draft}
+                        title={`Export draft as ${format.toUpperCase()}`}
+                        className="flex items-center gap-1 px-2 py-1.5 text-xs rounded-lg text-slate-300 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors disabled:opacity-30"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                        {format.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="border-t border-slate-700/50 px-4 py-4 space-y-4">
+                    {draft ? (
+                      <>
+                        <p className="text-xs text-slate-500">
+                          Draft assembled {formatDateTime(entry.draft_generated_at)}
+                          {draft.asOfDate && ` · Holdings as of ${formatDate(draft.asOfDate, 'short')}`}
+                        </p>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          {[
+                            ['Net asset value', formatCurrency(draft.assets.netAssetValue, draft.fund.baseCurrency, 0)],
+                            ['Gross asset value', formatCurrency(draft.assets.grossAssetValue, draft.fund.baseCurrency, 0)],
+                            ['Gross leverage', `${draft.leverage.grossMethodRatio.toFixed(2)}x`],
+                            ['Borrowings / NAV', `${draft.leverage.borrowingToNav.toFixed(2)}%`],
+                            ['Beneficial owners', String(draft.investors.count)],
+                            ['Largest owner', `${draft.investors.largestPct.toFixed(2)}%`],
+                            ['Five largest owners', `${draft.investors.top5Pct.toFixed(2)}%`],
+                            ...(draft.assets.netAssetValueEur !== null
+                              ? [['NAV in EUR', formatCurrency(draft.assets.netAssetValueEur, 'EUR', 0)]]
+                              : []),
+                          ].map(([label, value]) => (
+                            <div key={label} className="bg-slate-950/40 rounded-lg p-3">
+                              <p className="text-xs text-slate-500">{label}</p>
+                              <p className="text-sm font-mono text-white">{value}</p>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+                          <span className="text-slate-500">Portfolio liquidity:</span>
+                          {LIQUIDITY_BUCKETS.map((bucket) => (
+                            <span key={bucket.id}>{bucket.label}: {draft.liquidity[bucket.id] ?? 0}%</span>
+                          ))}
+                        </div>
+                        {draft.reviewItems.length > 0 && (
+                          <div className="bg-amber-500/5 border border-amber-500/30 rounded-lg p-3">
+                            <p className="flex items-center gap-2 text-sm font-medium text-amber-300 mb-1">
+                              <AlertCircle className="w-4 h-4" />
+                              To complete before submitting
+                            </p>
+                            <ul className="list-disc list-inside text-xs text-amber-200/80 space-y-0.5">
+                              {draft.reviewItems.map((item) => <li key={item}>{item}</li>)}
+                            </ul>
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-sm text-slate-500">
+                        No draft yet. Assemble one to pre-fill AUM, leverage, investor concentration and liquidity from the approved NAV at the period end.
+                      </p>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                      <label className="text-xs text-slate-400">
+                        Status
+                        <select
+                          value={statusForm.status}
+                          onChange={(e) => setStatusForm({ ...statusForm, status: e.target.value as FilingStatus })}
+                          className={`${inputClass} w-full mt-1`}
+                        >
+                          {FILING_STATUSES.map((s) => (
+                            <option key={s.value} value={s.value}>{s.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-xs text-slate-400">
+                        Submission reference
+                        <input
+                          value={statusForm.reference}
+                          onChange={(e) => setStatusForm({ ...statusForm, reference: e.target.value })}
+                          className={`${inputClass} w-full mt-1`}
+                          placeholder="Regulator filing ID"
+                        />
+                      </label>
+                      <label className="text-xs text-slate-400">
+                        Notes
+                        <input
+                          value={statusForm.notes}
+                          onChange={(e) => setStatusForm({ ...statusForm, notes: e.target.value })}
+                          className={`${inputClass} w-full mt-1`}
+                        />
+                      </label>
+                      <button
+                        onClick={() => handleSaveStatus(entry)}
+                        disabled={busy !== null}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                    {entry.submission_date && (
+                      <p className="text-xs text-slate-500">Submitted {formatDateTime(entry.submission_date)}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {toast && (
+        <div
+          className={`fixed bottom-6 right-6 flex items-center gap-2 px-4 py-3 rounded-lg border text-sm shadow-lg ${
+            toast.type === 'success'
+              ? 'bg-green-500/10 border-green-500/30 text-green-300'
+              : 'bg-red-500/10 border-red-500/30 text-red-300'
+          }`}
+        >
+          {toast.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          {toast.message}
+        </div>
+      )}
+    </div>
+  );
+}
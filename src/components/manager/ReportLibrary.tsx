@@ -1,11 +1,400 @@
-import { Library } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  CalendarClock,
+  CheckCircle,
+  Download,
+  FileText,
+  Library,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+  Zap,
+} from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
+import { formatDate, formatDateTime } from '../../lib/format';
+import {
+  deleteReportSchedule,
+  downloadGeneratedReport,
+  fetchGeneratedReports,
+  fetchReportSchedules,
+  fetchScheduleRuns,
+  runReportScheduleNow,
+  setReportScheduleActive,
+  type GeneratedReport,
+  type ReportSchedule,
+  type ReportScheduleRun,
+} from '../../lib/reportLibrary';
+import { REPORT_FREQUENCIES, reportTypeLabel } from '../../lib/reportSchedule';
+import { REPORT_FORMATS, type ReportFormat } from '../../lib/reportRender';
+import ReportScheduleModal from './reports/ReportScheduleModal';
+
+type LibraryTab = 'schedules' | 'history' | 'reports';
+
+interface FundOption {
+  id: string;
+  fund_code: string;
+  fund_name: string;
+}
+
+const RUN_STATUS_STYLES: Record<ReportScheduleRun['status'], string> = {
+  running: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  completed: 'bg-green-500/20 text-green-300 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/30',
+};
+
+function recipientSummary(schedule: ReportSchedule): string {
+  if (!schedule.auto_send) {
+    return schedule.report_type === 'investor_statement' ? 'Drafts for review' : 'Library only';
+  }
+  if (schedule.report_type === 'investor_statement') {
+    return schedule.recipients.some((r) => r.type === 'investors')
+      ? 'Portal and investor email'
+      : 'Investor portal';
+  }
+  const emails = schedule.recipients.filter((r) => r.type === 'email').length;
+  return `${emails} recipient${emails === 1 ? '' : 's'}`;
+}
 
 export default function ReportLibrary() {
+  const { currentTenant, user } = useAuth();
+  const tenantId = currentTenant?.id;
+
+  const [activeTab, setActiveTab] = useState<LibraryTab>('schedules');
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [runs, setRuns] = useState<ReportScheduleRun[]>([]);
+  const [reports, setReports] = useState<GeneratedReport[]>([]);
+  const [funds, setFunds] = useState<FundOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ReportSchedule | null | undefined>(undefined);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const load = useCallback(async () => {
+    if (!tenantId) return;
+    try {
+      const [scheduleRows, runRows, reportRows, { data: fundRows }] = await Promise.all([
+        fetchReportSchedules(tenantId),
+        fetchScheduleRuns(tenantId),
+        fetchGeneratedReports(tenantId),
+        supabase
+          .from('funds')
+          .select('id, fund_code, fund_name')
+          .eq('tenant_id', tenantId)
+          .eq('status', 'active')
+          .order('fund_name'),
+      ]);
+      setSchedules(scheduleRows);
+      setRuns(runRows);
+      setReports(reportRows);
+      setFunds(fundRows || []);
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to load the report library.' });
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = setTimeout(() => setToast(null), 4000);
+    return () => clearTimeout(t);
+  }, [toast]);
+
+  const handleToggle = async (schedule: ReportSchedule) => {
+    try {
+      await setReportScheduleActive(schedule, !schedule.is_active);
+      load();
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to update schedule.' });
+    }
+  };
+
+  const handleRunNow = async (schedule: ReportSchedule) => {
+    try {
+      await runReportScheduleNow(schedule.id);
+      setToast({ type: 'success', message: `"${schedule.report_name}" will run within a few minutes.` });
+      load();
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to queue schedule.' });
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.report_name}"? Reports it already generated stay in the library.`)) return;
+    try {
+      await deleteReportSchedule(schedule.id);
+      load();
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to delete schedule.' });
+    }
+  };
+
+  const handleDownload = async (report: GeneratedReport, format: ReportFormat) => {
+    if (!tenantId) return;
+    setExporting(`${report.id}:${format}`);
+    try {
+      await downloadGeneratedReport(tenantId, report, format);
+    } catch (err) {
+      setToast({ type: 'error', message: err instanceof Error ? err.message : 'Could not export report.' });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const schedulesById = new Map(schedules.map((s) => [s.id, s]));
+  const failedRuns = runs.filter((r) => r.status === 'failed').length;
+
+  const tabs: { id: LibraryTab; label: string; badge?: number }[] = [
+    { id: 'schedules', label: 'Schedules' },
+    { id: 'history', label: 'Run History', badge: failedRuns > 0 ? failedRuns : undefined },
+    { id: 'reports', label: 'Generated Reports' },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 text-cyan-500 animate-spin" />
+      </div>
+    );
+  }
+
   return (
-    <div className="flex flex-col items-center justify-center py-24 text-center">
-      <Library className="w-12 h-12 text-gray-500 mb-4" />
-      <h2 className="text-xl font-semibold text-gray-200 mb-2">Report Library</h2>
-      <p className="text-gray-500 text-sm max-w-xs">The report library is coming soon.</p>
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-light text-white mb-1">
+            Report <span className="font-semibold">Library</span>
+          </h2>
+          <p className="text-slate-400">Schedule recurring reports and investor statements, and deliver them automatically</p>
+        </div>
+        <button
+          onClick={() => setEditing(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Schedule
+        </button>
+      </div>
+
+      <div className="flex gap-1 border-b border-slate-800">
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors -mb-px ${
+              activeTab === tab.id
+                ? 'border-cyan-500 text-cyan-400'
+                : 'border-transparent text-slate-400 hover:text-slate-300'
+            }`}
+          >
+            {tab.label}
+            {tab.badge !== undefined && (
+              <span className="px-1.5 py-0.5 text-xs bg-red-500/20 text-red-400 border border-red-500/30 rounded-full">
+                {tab.badge}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'schedules' && (
+        schedules.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center border border-dashed border-slate-800 rounded-xl">
+            <Library className="w-10 h-10 text-slate-600 mb-3" />
+            <p className="text-sm text-slate-300 mb-1">No report schedules yet</p>
+            <p className="text-xs text-slate-500 max-w-sm">
+              Create a schedule to generate monthly investor statements or recurring fund reports without rebuilding them by hand.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className={`flex items-center gap-4 px-5 py-4 rounded-lg border ${
+                  schedule.is_active ? 'bg-slate-800/40 border-slate-700/50' : 'bg-slate-900/40 border-slate-800 opacity-70'
+                }`}
+              >
+                <div className="w-10 h-10 rounded-lg bg-cyan-500/10 flex items-center justify-center flex-shrink-0">
+                  <CalendarClock className="w-5 h-5 text-cyan-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-white truncate">{schedule.report_name}</p>
+                    {!schedule.is_active && (
+                      <span className="px-2 py-0.5 text-xs rounded-full border bg-slate-700/40 text-slate-400 border-slate-600">Paused</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {reportTypeLabel(schedule.report_type)}
+                    {' · '}{REPORT_FREQUENCIES.find((f) => f.value === schedule.frequency)?.label ?? schedule.frequency} on day {schedule.day_of_period}
+                    {' · '}{funds.find((f) => f.id === schedule.fund_id)?.fund_code ?? 'All funds'}
+                    {' · '}{recipientSummary(schedule)}
+                  </p>
+                  {schedule.last_error && (
+                    <p className="text-xs text-red-400 mt-1 truncate">Last run failed: {schedule.last_error}</p>
+                  )}
+                </div>
+                <div className="text-right text-xs text-slate-500 flex-shrink-0">
+                  <p>Next: <span className="text-slate-300">{schedule.is_active ? formatDateTime(schedule.next_run_at) : '—'}</span></p>
+                  <p>Last: {schedule.last_run_at ? formatDateTime(schedule.last_run_at) : 'Never'}</p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleRunNow(schedule)}
+                    disabled={!schedule.is_active}
+                    title="Run now for the last completed period"
+                    className="p-2 rounded-lg text-slate-400 hover:text-cyan-400 hover:bg-cyan-400/10 transition-colors disabled:opacity-30"
+                  >
+                    <Zap className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleToggle(schedule)}
+                    title={schedule.is_active ? 'Pause schedule' : 'Resume schedule'}
+                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                  >
+                    {schedule.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => setEditing(schedule)}
+                    title="Edit schedule"
+                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule)}
+                    title="Delete schedule"
+                    className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {activeTab === 'history' && (
+        runs.length === 0 ? (
+          <div className="text-center py-12 border border-dashed border-slate-800 rounded-xl text-sm text-slate-500">
+            No scheduled runs yet.
+          </div>
+        ) : (
+          <div className="overflow-x-auto border border-slate-800 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-800/50 text-xs uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium">Schedule</th>
+                  <th className="text-left px-4 py-3 font-medium">Period</th>
+                  <th className="text-left px-4 py-3 font-medium">Status</th>
+                  <th className="text-right px-4 py-3 font-medium">Reports</th>
+                  <th className="text-right px-4 py-3 font-medium">Delivered</th>
+                  <th className="text-right px-4 py-3 font-medium">Started</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {runs.map((run) => (
+                  <tr key={run.id} className="hover:bg-slate-800/30">
+                    <td className="px-4 py-3 text-white">
+                      {schedulesById.get(run.schedule_id)?.report_name ?? 'Deleted schedule'}
+                      {run.error && <p className="text-xs text-red-400 mt-0.5">{run.error}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-slate-300 text-xs">
+                      {formatDate(run.period_start, 'short')} – {formatDate(run.period_end, 'short')}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 text-xs rounded-full border ${RUN_STATUS_STYLES[run.status]}`}>{run.status}</span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-slate-300">{run.report_ids.length}</td>
+                    <td className="px-4 py-3 text-right text-slate-300">{run.delivered_count}</td>
+                    <td className="px-4 py-3 text-right text-slate-500 text-xs">{formatDateTime(run.started_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {activeTab === 'reports' && (
+        reports.length === 0 ? (
+          <div className="text-center py-12 border border-dashed border-slate-800 rounded-xl text-sm text-slate-500">
+            No reports have been generated yet.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {reports.map((report) => (
+              <div key={report.id} className="flex items-center gap-4 px-4 py-3 rounded-lg bg-slate-800/40 border border-slate-700/50">
+                <FileText className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{report.report_name}</p>
+                  <p className="text-xs text-slate-500">
+                    {reportTypeLabel(report.report_type)} · Generated {formatDateTime(report.generation_date)}
+                    {report.sent_at && ` · Sent ${formatDate(report.sent_at, 'short')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5 flex-shrink-0">
+                  {REPORT_FORMATS.map((format) => (
+                    <button
+                      key={format.value}
+                      onClick={() => handleDownload(report, format.value)}
+                      disabled={exporting !== null}
+                      title={`Download as ${format.label}`}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg text-slate-300 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors disabled:opacity-40"
+                    >
+                      {exporting === `${report.id}:${format.value}`
+                        ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        : <Download className="w-3.5 h-3.5" />}
+                      {format.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {editing !== undefined && tenantId && (
+        <ReportScheduleModal
+          tenantId={tenantId}
+          userId={user?.id}
+          funds={funds}
+          schedule={editing}
+          onClose={() => setEditing(undefined)}
+          onSaved={() => {
+            setEditing(undefined);
+            load();
+          }}
+          onToast={setToast}
+        />
+      )}
+
+      {toast && (
+        <div
+          className={`fixed bottom-6 right-6 flex items-center gap-3 px-4 py-3 rounded-lg shadow-xl z-50 text-sm font-medium ${
+            toast.type === 'success'
+              ? 'bg-emerald-900 border border-emerald-700 text-emerald-200'
+              : 'bg-red-900 border border-red-700 text-red-200'
+          }`}
+        >
+          {toast.type === 'success'
+            ? <CheckCircle className="w-4 h-4 text-emerald-400" />
+            : <AlertCircle className="w-4 h-4 text-red-400" />}
+          {toast.message}
+        </div>
+      )}
     </div>
   );
 }
@@ -20,8 +20,14 @@ interface ShareClass {
   performance_fee_pct: number;
   hurdle_rate_pct: number;
   high_water_mark: boolean;
+  is_hedged: boolean;
+  hedge_ratio: number;
   share_price_precision: number;
   minimum_investment: number;
+  redemption_frequency: string;
+  redemption_notice_days: number;
+  lock_up_months: number;
+  redemption_holdback_pct: number;
   status: string;
   created_at: string;
 }
@@ -42,8 +48,14 @@ export default function ShareClassManager() {
     performance_fee_pct: 20.0,
     hurdle_rate_pct: 8.0,
     high_water_mark: true,
+    is_hedged: false,
+    hedge_ratio: 1,
     share_price_precision: 4,
     minimum_investment: 100000,
+    redemption_frequency: 'monthly',
+    redemption_notice_days: 30,
+    lock_up_months: 0,
+    redemption_holdback_pct: 0,
   });
 
   useEffect(() => {
@@ -139,8 +151,14 @@ export default function ShareClassManager() {
         performance_fee_pct: shareClass.performance_fee_pct,
         hurdle_rate_pct: shareClass.hurdle_rate_pct,
         high_water_mark: shareClass.high_water_mark,
+        is_hedged: shareClass.is_hedged ?? false,
+        hedge_ratio: shareClass.hedge_ratio ?? 1,
         share_price_precision: shareClass.share_price_precision,
         minimum_investment: shareClass.minimum_investment,
+        redemption_frequency: shareClass.redemption_frequency || 'monthly',
+        redemption_notice_days: shareClass.redemption_notice_days ?? 30,
+        lock_up_months: shareClass.lock_up_months ?? 0,
+        redemption_holdback_pct: shareClass.redemption_holdback_pct ?? 0,
       });
     } else {
       setEditingClass(null);
@@ -152,8 +170,14 @@ export default function ShareClassManager() {
         performance_fee_pct: 20.0,
         hurdle_rate_pct: 8.0,
         high_water_mark: true,
+        is_hedged: false,
+        hedge_ratio: 1,
         share_price_precision: 4,
         minimum_investment: 100000,
+        redemption_frequency: 'monthly',
+        redemption_notice_days: 30,
+        lock_up_months: 0,
+        redemption_holdback_pct: 0,
       });
     }
     setShowModal(true);
@@ -249,12 +273,30 @@ export default function ShareClassManager() {
                     {sc.high_water_mark ? 'Yes' : 'No'}
                   </span>
                 </div>
+                {sc.is_hedged && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-slate-400">Currency Hedge</span>
+                    <span className="text-cyan-400 font-medium">{(sc.hedge_ratio * 100).toFixed(0)}% hedged</span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-slate-400">Min Investment</span>
                   <span className="text-white font-medium">
                     {sc.currency} {(sc.minimum_investment / 1000000).toFixed(2)}M
                   </span>
                 </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-400">Liquidity</span>
+                  <span className="text-white font-medium capitalize">
+                    {(sc.redemption_frequency || 'monthly').replace('_', '-')}, {sc.redemption_notice_days ?? 30}d notice
+                  </span>
+                </div>
+                {sc.lock_up_months > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-slate-400">Lock-up</span>
+                    <span className="text-white font-medium">{sc.lock_up_months} months</span>
+                  </div>
+                )}
               </div>
 
               <div className="flex space-x-2 mt-4 pt-4 border-t border-slate-700">
@@ -422,6 +464,64 @@ export default function ShareClassManager() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Redemptions
+                  </label>
+                  <select
+                    value={formData.redemption_frequency}
+                    onChange={(e) => setFormData({ ...formData, redemption_frequency: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="monthly">Monthly</option>
+                    <option value="quarterly">Quarterly</option>
+                    <option value="semi_annual">Semi-Annual</option>
+                    <option value="annual">Annual</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Notice (days)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.redemption_notice_days}
+                    onChange={(e) => setFormData({ ...formData, redemption_notice_days: parseInt(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Lock-up (months)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.lock_up_months}
+                    onChange={(e) => setFormData({ ...formData, lock_up_months: parseInt(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Holdback (%)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.redemption_holdback_pct}
+                    onChange={(e) => setFormData({ ...formData, redemption_holdback_pct: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+              </div>
+
               <div className="flex items-center space-x-3 p-4 bg-slate-800/50 rounded-lg">
                 <input
                   type="checkbox"
@@ -435,6 +535,37 @@ export default function ShareClassManager() {
                 </label>
               </div>
 
+              <div className="p-4 bg-slate-800/50 rounded-lg space-y-3">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    id="is_hedged"
+                    checked={formData.is_hedged}
+                    onChange={(e) => setFormData({ ...formData, is_hedged: e.target.checked })}
+                    className="w-5 h-5 rounded border-slate-600 text-cyan-600 focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <label htmlFor="is_hedged" className="text-slate-300 cursor-pointer">
+                    Currency-hedged class (hedge overlay P&L is allocated to this class only)
+                  </label>
+                </div>
+                {formData.is_hedged && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      Hedge Ratio (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      max="150"
+                      value={formData.hedge_ratio * 100}
+                      onChange={(e) => setFormData({ ...formData, hedge_ratio: (parseFloat(e.target.value) || 0) / 100 })}
+                      className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:ring-2 focus:ring-cyan-500"
+                    />
+                  </div>
+                )}
+              </div>
+
               <div className="flex justify-end space-x-3 pt-4">
                 <button
                   type="button"
@@ -1,7 +1,19 @@
-import { useState, useEffect } from 'react';
-import { FileText, Plus, Calendar, Send, CheckCircle, Filter } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { FileText, Plus, Calendar, Send, CheckCircle, Filter, Download, Trash2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import { getSendingAccountId } from '../../lib/email';
+import { downloadPdf } from '../../lib/pdfDocument';
+import {
+  AllocationMethod,
+  TAX_ITEM_CATEGORIES,
+  TaxItemCategory,
+  buildTaxDocumentPdf,
+  generate1099Documents,
+  generateK1Documents,
+  loadTaxDocumentForPdf,
+  sendTaxDocument,
+} from '../../lib/taxAllocation';
 
 interface Fund {
   id: string;
@@ -29,8 +41,17 @@ interface TaxDocument {
   };
 }
 
+interface FundTaxItem {
+  id: string;
+  item_date: string;
+  category: TaxItemCategory;
+  amount: number;
+  description: string | null;
+}
+
 export default function TaxDocumentManager() {
-  const { currentTenant, user } = useAuth();
+  const { currentTenant, user, hasPermission } = useAuth();
+  const canSendEmail = hasPermission('can_send_communications');
   const [funds, setFunds] = useState<Fund[]>([]);
   const [taxDocuments, setTaxDocuments] = useState<TaxDocument[]>([]);
   const [selectedFund, setSelectedFund] = useState('');
@@ -39,6 +60,14 @@ export default function TaxDocumentManager() {
   const [filterStatus, setFilterStatus] = useState('all');
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [allocationMethod, setAllocationMethod] = useState<AllocationMethod>('full_year');
+  const [taxItems, setTaxItems] = useState<FundTaxItem[]>([]);
+  const [itemForm, setItemForm] = useState({
+    item_date: '',
+    category: 'ordinary_business_income' as TaxItemCategory,
+    amount: 0,
+    description: '',
+  });
   const [showModal, setShowModal] = useState(false);
   const [formData, setFormData] = useState({
     capital_account_id: '',
@@ -109,69 +138,117 @@ export default function TaxDocumentManager() {
     }
   };
 
-  const generateK1s = async () => {
-    setGenerating(true);
-
-    const { data: accounts } = await supabase
-      .from('capital_accounts')
-      .select('id, account_number')
+  const loadTaxItems = useCallback(async () => {
+    const { data } = await supabase
+      .from('fund_tax_items')
+      .select('id, item_date, category, amount, description')
       .eq('fund_id', selectedFund)
-      .eq('status', 'active');
+      .eq('tax_year', selectedYear)
+      .order('item_date');
 
-    if (!accounts || accounts.length === 0) {
-      alert('No active capital accounts found');
-      setGenerating(false);
+    setTaxItems(data || []);
+  }, [selectedFund, selectedYear]);
+
+  useEffect(() => {
+    if (selectedFund) {
+      loadTaxItems();
+    }
+  }, [selectedFund, loadTaxItems]);
+
+  const addTaxItem = async () => {
+    if (!itemForm.item_date || !itemForm.amount) {
+      alert('Enter a date and an amount');
+      return;
+    }
+    if (!itemForm.item_date.startsWith(String(selectedYear))) {
+      alert(`The date must fall in tax year ${selectedYear}`);
       return;
     }
 
-    const { data: performanceMetrics } = await supabase
-      .from('performance_metrics')
-      .select('*')
-      .eq('fund_id', selectedFund)
-      .eq('period_type', 'yearly')
-      .gte('metric_date', `${selectedYear}-01-01`)
-      .lte('metric_date', `${selectedYear}-12-31`)
-      .maybeSingle();
-
-    for (const account of accounts) {
-      const { data: transactions } = await supabase
-        .from('capital_transactions')
-        .select('*')
-        .eq('capital_account_id', account.id)
-        .gte('transaction_date', `${selectedYear}-01-01`)
-        .lte('transaction_date', `${selectedYear}-12-31`);
-
-      const distributions = transactions?.filter(t => t.transaction_type === 'distribution') || [];
-      const totalDistributions = distributions.reduce((sum, t) => sum + t.amount, 0);
-
-      const ordinaryIncome = totalDistributions * 0.3;
-      const qualifiedDividends = totalDistributions * 0.2;
-      const capitalGainsLong = totalDistributions * 0.4;
-      const capitalGainsShort = totalDistributions * 0.1;
-
-      await supabase
-        .from('tax_documents')
-        .insert({
-          tenant_id: currentTenant?.id,
-          capital_account_id: account.id,
-          fund_id: selectedFund,
-          document_type: 'k1',
-          tax_year: selectedYear,
-          document_status: 'draft',
-          generation_date: new Date().toISOString().split('T')[0],
-          ordinary_income: ordinaryIncome,
-          qualified_dividends: qualifiedDividends,
-          capital_gains_short: capitalGainsShort,
-          capital_gains_long: capitalGainsLong,
-          interest_income: 0,
-          other_income: 0,
-          created_by: user?.id,
-        });
+    const { error } = await supabase
+      .from('fund_tax_items')
+      .insert({
+        tenant_id: currentTenant?.id,
+        fund_id: selectedFund,
+        tax_year: selectedYear,
+        item_date: itemForm.item_date,
+        category: itemForm.category,
+        amount: itemForm.amount,
+        description: itemForm.description || null,
+        created_by: user?.id,
+      });
+
+    if (error) {
+      console.error('Error adding tax item:', error);
+      alert('Failed to add tax item');
+      return;
+    }
+
+    setItemForm({ ...itemForm, amount: 0, description: '' });
+    loadTaxItems();
+  };
+
+  const deleteTaxItem = async (itemId: string) => {
+    const { error } = await supabase.from('fund_tax_items').delete().eq('id', itemId);
+    if (!error) {
+      loadTaxItems();
+    }
+  };
+
+  const generateK1s = async () => {
+    setGenerating(true);
+    try {
+      const count = await generateK1Documents({
+        tenantId: currentTenant!.id,
+        fundId: selectedFund,
+        taxYear: selectedYear,
+        method: allocationMethod,
+        userId: user?.id,
+      });
+      loadTaxDocuments();
+      alert(`Generated ${count} K-1 documents`);
+    } catch (error) {
+      console.error('Error generating K-1s:', error);
+      alert(error instanceof Error ? error.message : 'Failed to generate K-1s');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const generate1099s = async () => {
+    setGenerating(true);
+    try {
+      const count = await generate1099Documents({
+        tenantId: currentTenant!.id,
+        fundId: selectedFund,
+        taxYear: selectedYear,
+        method: allocationMethod,
+        userId: user?.id,
+      });
+      loadTaxDocuments();
+      alert(`Generated ${count} 1099 documents`);
+    } catch (error) {
+      console.error('Error generating 1099s:', error);
+      alert(error instanceof Error ? error.message : 'Failed to generate 1099s');
+    } finally {
+      setGenerating(false);
     }
+  };
 
-    setGenerating(false);
-    loadTaxDocuments();
-    alert(`Generated ${accounts.length} K-1 documents`);
+  const branding = () => ({
+    tenantName: currentTenant?.name || '',
+    primaryColor: currentTenant?.branding?.primary_color,
+  });
+
+  const downloadDocument = async (documentId: string) => {
+    try {
+      const doc = await loadTaxDocumentForPdf(documentId);
+      const pdf = await buildTaxDocumentPdf(branding(), doc);
+      downloadPdf(pdf, `${doc.document_type}-${doc.tax_year}-${doc.account_number}.pdf`);
+    } catch (error) {
+      console.error('Error building tax document PDF:', error);
+      alert('Failed to build PDF');
+    }
   };
 
   const finalizeDocument = async (documentId: string) => {
@@ -189,17 +266,18 @@ export default function TaxDocumentManager() {
   };
 
   const sendDocument = async (documentId: string) => {
-    const { error } = await supabase
-      .from('tax_documents')
-      .update({
-        document_status: 'sent',
-        sent_date: new Date().toISOString().split('T')[0],
-      })
-      .eq('id', documentId);
-
-    if (!error) {
+    try {
+      const accountId = await getSendingAccountId(user!.id);
+      if (!accountId) {
+        alert('You have no email account with send access');
+        return;
+      }
+      await sendTaxDocument(documentId, branding(), accountId);
       loadTaxDocuments();
       alert('Document sent to investor');
+    } catch (error) {
+      console.error('Error sending tax document:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send document');
     }
   };
 
@@ -277,18 +355,114 @@ export default function TaxDocumentManager() {
           <div>
             <h3 className="text-lg font-semibold text-white mb-2">Generate K-1s for {selectedYear}</h3>
             <p className="text-slate-400 text-sm">
-              Generate Schedule K-1 forms for all active investors
+              Allocate the fund's tax items to every partner by capital and roll tax basis forward
             </p>
           </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={allocationMethod}
+              onChange={(e) => setAllocationMethod(e.target.value as AllocationMethod)}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            >
+              <option value="full_year">Full-year proration</option>
+              <option value="interim_closing">Interim closing (monthly)</option>
+            </select>
+            <button
+              onClick={generate1099s}
+              disabled={generating}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              <span>Generate 1099s</span>
+            </button>
+            <button
+              onClick={generateK1s}
+              disabled={generating}
+              className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              <span>{generating ? 'Generating...' : 'Generate K-1s'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+        <h3 className="text-xl font-semibold text-white mb-4">Fund Tax Items ({taxItems.length})</h3>
+        <div className="grid grid-cols-12 gap-3 mb-4">
+          <input
+            type="date"
+            value={itemForm.item_date}
+            onChange={(e) => setItemForm({ ...itemForm, item_date: e.target.value })}
+            className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+          />
+          <select
+            value={itemForm.category}
+            onChange={(e) => setItemForm({ ...itemForm, category: e.target.value as TaxItemCategory })}
+            className="col-span-4 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+          >
+            {TAX_ITEM_CATEGORIES.map(c => (
+              <option key={c.id} value={c.id}>Box {c.k1Box} - {c.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            placeholder="Amount"
+            value={itemForm.amount || ''}
+            onChange={(e) => setItemForm({ ...itemForm, amount: parseFloat(e.target.value) || 0 })}
+            className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+          />
+          <input
+            placeholder="Description"
+            value={itemForm.description}
+            onChange={(e) => setItemForm({ ...itemForm, description: e.target.value })}
+            className="col-span-3 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+          />
           <button
-            onClick={generateK1s}
-            disabled={generating}
-            className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+            onClick={addTaxItem}
+            className="col-span-1 px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg flex items-center justify-center transition-colors"
           >
-            <FileText className="w-4 h-4" />
-            <span>{generating ? 'Generating...' : 'Generate K-1s'}</span>
+            <Plus className="w-4 h-4" />
           </button>
         </div>
+        {taxItems.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+                <th className="py-2">Date</th>
+                <th className="py-2">Category</th>
+                <th className="py-2">Description</th>
+                <th className="py-2 text-right">Amount</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {taxItems.map(item => (
+                <tr key={item.id} className="border-b border-slate-700/50">
+                  <td className="py-2 text-slate-300">{new Date(item.item_date).toLocaleDateString()}</td>
+                  <td className="py-2 text-white">{TAX_ITEM_CATEGORIES.find(c => c.id === item.category)?.label || item.category}</td>
+                  <td className="py-2 text-slate-400">{item.description || '-'}</td>
+                  <td className={`py-2 text-right font-mono ${item.amount < 0 ? 'text-red-400' : 'text-white'}`}>
+                    ${Number(item.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => deleteTaxItem(item.id)}
+                      className="p-1 hover:bg-red-500/20 rounded transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-slate-500">
+            Record the fund's income, gains, deductions and credits for {selectedYear} before generating K-1s
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -427,6 +601,13 @@ export default function TaxDocumentManager() {
                       {doc.document_status}
                     </span>
                     <div className="flex items-center space-x-2 mt-2">
+                      <button
+                        onClick={() => downloadDocument(doc.id)}
+                        className="text-slate-400 hover:text-white"
+                        title="Download PDF"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                      </button>
                       {doc.document_status === 'draft' && (
                         <button
                           onClick={() => finalizeDocument(doc.id)}
@@ -438,7 +619,9 @@ export default function TaxDocumentManager() {
                       {doc.document_status === 'finalized' && (
                         <button
                           onClick={() => sendDocument(doc.id)}
-                          className="text-xs text-green-400 hover:text-green-300"
+                          disabled={!canSendEmail}
+                          title={canSendEmail ? undefined : 'Requires the send communications permission'}
+                          className="text-xs text-green-400 hover:text-green-300 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                           Send
                         </button>
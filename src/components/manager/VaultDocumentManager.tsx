@@ -1,7 +1,23 @@
-import { useState, useEffect, useRef } from 'react';
-import { Lock, Upload, Trash2, Eye, EyeOff, Plus, FileText, AlertCircle, CheckCircle, Loader2, X } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Lock, Upload, Trash2, Eye, EyeOff, Plus, FileText, AlertCircle, CheckCircle, Loader2, X, Star, FolderCog, Bell } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import {
+  fetchDocumentEvents,
+  fetchVaultFolders,
+  fetchVaultSettings,
+  formatDuration,
+  saveVaultSettings,
+  stageLabel,
+  summarizeDocumentEvents,
+  type VaultDocumentEvent,
+  type VaultFolder,
+  type VaultSettings,
+} from '../../lib/dataRoom';
+import VaultAccessGrants from './vault/VaultAccessGrants';
+import VaultActivity from './vault/VaultActivity';
+import VaultFolderManager from './vault/VaultFolderManager';
+import VaultSettingsPanel from './vault/VaultSettingsPanel';
 
 interface VaultDocument {
   id: string;
@@ -11,6 +27,8 @@ interface VaultDocument {
   description: string;
   sort_order: number;
   is_active: boolean;
+  folder_id: string | null;
+  is_key_document: boolean;
   created_at: string;
 }
 
@@ -23,10 +41,16 @@ const DOC_TYPE_OPTIONS = [
   { value: 'other',           label: 'Other' },
 ];
 
+type VaultTab = 'documents' | 'access' | 'activity' | 'settings';
+
+const ACTIVITY_WINDOW_DAYS = 90;
+
 interface UploadForm {
   document_name: string;
   document_type: string;
   description: string;
+  folder_id: string;
+  is_key_document: boolean;
   file: File | null;
 }
 
@@ -34,22 +58,88 @@ const EMPTY_FORM: UploadForm = {
   document_name: '',
   document_type: 'pitch_deck',
   description: '',
+  folder_id: '',
+  is_key_document: false,
   file: null,
 };
 
 export default function VaultDocumentManager() {
   const { currentTenant } = useAuth();
+  const [tab, setTab] = useState<VaultTab>('documents');
   const [documents, setDocuments] = useState<VaultDocument[]>([]);
+  const [folders, setFolders] = useState<VaultFolder[]>([]);
+  const [events, setEvents] = useState<VaultDocumentEvent[]>([]);
+  const [settings, setSettings] = useState<VaultSettings | null>(null);
+  const [alertsSeenAt, setAlertsSeenAt] = useState('');
   const [loading, setLoading] = useState(true);
   const [showUpload, setShowUpload] = useState(false);
+  const [showFolders, setShowFolders] = useState(false);
   const [form, setForm] = useState<UploadForm>(EMPTY_FORM);
   const [uploading, setUploading] = useState(false);
   const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const fileRef = useRef<HTMLInputElement>(null);
+  const documentsRef = useRef<VaultDocument[]>([]);
+  documentsRef.current = documents;
+
+  const tenantId = currentTenant?.id;
+
+  const loadDocuments = useCallback(async () => {
+    if (!tenantId) return;
+    const { data, error } = await supabase
+      .from('investor_vault_documents')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('sort_order', { ascending: true });
+    if (!error) setDocuments(data ?? []);
+  }, [tenantId]);
+
+  const loadFolders = useCallback(async () => {
+    if (!tenantId) return;
+    try {
+      setFolders(await fetchVaultFolders(tenantId));
+    } catch {
+      setToast({ type: 'error', message: 'Failed to load folders.' });
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    if (!tenantId) return;
+    const since = new Date(Date.now() - ACTIVITY_WINDOW_DAYS * 86400000).toISOString();
+    setLoading(true);
+    Promise.all([
+      loadDocuments(),
+      loadFolders(),
+      fetchDocumentEvents(tenantId, since).then(setEvents),
+      fetchVaultSettings(tenantId).then((s) => { setSettings(s); setAlertsSeenAt(s.alerts_seen_at); }),
+    ])
+      .catch(() => setToast({ type: 'error', message: 'Failed to load vault activity.' }))
+      .finally(() => setLoading(false));
+  }, [tenantId, loadDocuments, loadFolders]);
 
+  // Live key-document alerts and time-on-document updates
   useEffect(() => {
-    if (currentTenant?.id) loadDocuments();
-  }, [currentTenant?.id]);
+    if (!tenantId) return;
+    const channel = supabase
+      .channel('vault-document-events')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'vault_document_events',
+        filter: `tenant_id=eq.${tenantId}`,
+      }, (payload) => {
+        const event = payload.new as VaultDocumentEvent;
+        if (!event?.id) return;
+        setEvents((prev) => (prev.some((e) => e.id === event.id)
+          ? prev.map((e) => (e.id === event.id ? event : e))
+          : [event, ...prev]));
+        const doc = documentsRef.current.find((d) => d.id === event.document_id);
+        if (payload.eventType === 'INSERT' && doc?.is_key_document) {
+          setToast({ type: 'success', message: `${event.viewer_name} opened ${doc.document_name}` });
+        }
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [tenantId]);
 
   useEffect(() => {
     if (!toast) return;
@@ -57,32 +147,44 @@ export default function VaultDocumentManager() {
     return () => clearTimeout(t);
   }, [toast]);
 
-  const loadDocuments = async () => {
-    if (!currentTenant?.id) return;
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('investor_vault_documents')
-      .select('*')
-      .eq('tenant_id', currentTenant.id)
-      .order('sort_order', { ascending: true });
-    if (!error) setDocuments(data ?? []);
-    setLoading(false);
+  const keyDocumentIds = new Set(documents.filter((d) => d.is_key_document).map((d) => d.id));
+  const unreadAlerts = settings
+    ? events.filter((e) => keyDocumentIds.has(e.document_id) && e.started_at > settings.alerts_seen_at).length
+    : 0;
+  const analytics = summarizeDocumentEvents(events);
+
+  const openTab = (next: VaultTab) => {
+    setTab(next);
+    if (next === 'activity' && settings && tenantId && unreadAlerts > 0) {
+      // Keep this visit's highlights; mark everything up to now as seen
+      setAlertsSeenAt(settings.alerts_seen_at);
+      const seenAt = new Date().toISOString();
+      setSettings({ ...settings, alerts_seen_at: seenAt });
+      saveVaultSettings(tenantId, { alerts_seen_at: seenAt }).catch(() => {});
+    }
   };
 
-  const handleToggleActive = async (doc: VaultDocument) => {
+  const updateDocument = async (doc: VaultDocument, changes: Partial<VaultDocument>, errorMessage: string) => {
     const { error } = await supabase
       .from('investor_vault_documents')
-      .update({ is_active: !doc.is_active })
+      .update(changes)
       .eq('id', doc.id);
     if (error) {
-      setToast({ type: 'error', message: 'Failed to update document visibility.' });
+      setToast({ type: 'error', message: errorMessage });
     } else {
-      setDocuments((prev) =>
-        prev.map((d) => (d.id === doc.id ? { ...d, is_active: !d.is_active } : d))
-      );
+      setDocuments((prev) => prev.map((d) => (d.id === doc.id ? { ...d, ...changes } : d)));
     }
   };
 
+  const handleToggleActive = (doc: VaultDocument) =>
+    updateDocument(doc, { is_active: !doc.is_active }, 'Failed to update document visibility.');
+
+  const handleToggleKey = (doc: VaultDocument) =>
+    updateDocument(doc, { is_key_document: !doc.is_key_document }, 'Failed to update key document.');
+
+  const handleMoveToFolder = (doc: VaultDocument, folderId: string) =>
+    updateDocument(doc, { folder_id: folderId || null }, 'Failed to move document.');
+
   const handleDelete = async (doc: VaultDocument) => {
     if (!confirm(`Delete "${doc.document_name}"? This cannot be undone.`)) return;
 
@@ -131,6 +233,8 @@ export default function VaultDocumentManager() {
           description:   form.description.trim(),
           sort_order:    maxOrder + 1,
           is_active:     true,
+          folder_id:     form.folder_id || null,
+          is_key_document: form.is_key_document,
         });
 
       if (insertError) throw insertError;
@@ -146,6 +250,88 @@ export default function VaultDocumentManager() {
     }
   };
 
+  const tabs: { id: VaultTab; label: string; badge?: number }[] = [
+    { id: 'documents', label: 'Documents' },
+    { id: 'access',    label: 'Access' },
+    { id: 'activity',  label: 'Activity', badge: unreadAlerts || undefined },
+    { id: 'settings',  label: 'Settings' },
+  ];
+
+  const sections = [
+    { id: '', name: 'No folder', stage: null as string | null, documents: documents.filter((d) => !d.folder_id) },
+    ...folders.map((f) => ({
+      id: f.id,
+      name: f.name,
+      stage: f.min_stage as string | null,
+      documents: documents.filter((d) => d.folder_id === f.id),
+    })),
+  ].filter((section) => section.id !== '' || section.documents.length > 0);
+
+  const renderDocument = (doc: VaultDocument) => {
+    const stat = analytics.get(doc.id);
+    return (
+      <div
+        key={doc.id}
+        className={`flex items-center gap-4 px-4 py-3.5 rounded-lg border transition-all ${
+          doc.is_active
+            ? 'bg-slate-800/40 border-slate-700/50'
+            : 'bg-slate-900/40 border-slate-800/40 opacity-50'
+        }`}
+      >
+        <div className="w-8 h-8 rounded bg-amber-500/10 flex items-center justify-center flex-shrink-0">
+          <FileText className="w-4 h-4 text-amber-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-white truncate">{doc.document_name}</p>
+          <div className="flex items-center gap-2 mt-0.5">
+            <span className="text-xs text-amber-400/70">
+              {DOC_TYPE_OPTIONS.find((o) => o.value === doc.document_type)?.label ?? doc.document_type}
+            </span>
+            <span className="text-slate-700">·</span>
+            <span className="text-xs text-slate-500 truncate">
+              {stat
+                ? `${stat.views + stat.downloads} opens · ${stat.uniqueViewers} viewers · ${formatDuration(stat.totalSeconds)}`
+                : 'Not opened yet'}
+            </span>
+          </div>
+        </div>
+        <select
+          value={doc.folder_id ?? ''}
+          onChange={(e) => handleMoveToFolder(doc, e.target.value)}
+          className="px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-xs text-slate-300 focus:outline-none focus:border-amber-500/50"
+        >
+          <option value="">No folder</option>
+          {folders.map((f) => (
+            <option key={f.id} value={f.id}>{f.name}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={() => handleToggleKey(doc)}
+            title={doc.is_key_document ? 'Stop alerting on opens' : 'Mark as key document (alert on opens)'}
+            className="p-2 rounded-lg text-slate-400 hover:text-amber-400 hover:bg-slate-700 transition-colors"
+          >
+            <Star className={`w-4 h-4 ${doc.is_key_document ? 'text-amber-400 fill-amber-400' : ''}`} />
+          </button>
+          <button
+            onClick={() => handleToggleActive(doc)}
+            title={doc.is_active ? 'Hide from vault' : 'Show in vault'}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+          >
+            {doc.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => handleDelete(doc)}
+            title="Delete document"
+            className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -157,29 +343,51 @@ export default function VaultDocumentManager() {
           <div>
             <h1 className="text-xl font-semibold text-white">Investor Vault</h1>
             <p className="text-sm text-slate-400">
-              Manage documents shown at{' '}
-              <span className="font-mono text-slate-300">arklinetrust.com/vault</span>
+              Data room shown at{' '}
+              <span className="font-mono text-slate-300">{window.location.host}/vault</span>
             </p>
           </div>
         </div>
-        <button
-          onClick={() => setShowUpload(true)}
-          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          Upload Document
-        </button>
+        <div className="flex items-center gap-2">
+          {unreadAlerts > 0 && (
+            <button
+              onClick={() => openTab('activity')}
+              title="Key documents opened since your last visit"
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-amber-400 bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 transition-colors"
+            >
+              <Bell className="w-4 h-4" />
+              {unreadAlerts}
+            </button>
+          )}
+          <button
+            onClick={() => setShowUpload(true)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Upload Document
+          </button>
+        </div>
       </div>
 
-      {/* Vault URL callout */}
-      <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-4 flex items-start gap-3">
-        <Lock className="w-4 h-4 text-amber-400 mt-0.5 flex-shrink-0" />
-        <div className="text-sm">
-          <p className="text-slate-300 font-medium mb-0.5">Vault access passphrase is configured</p>
-          <p className="text-slate-500">
-            Share the URL <span className="font-mono text-slate-300">arklinetrust.com/vault</span> privately with prospective investors. They will be prompted for the passphrase before any documents are shown.
-          </p>
-        </div>
+      <div className="flex gap-1 border-b border-slate-800">
+        {tabs.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => openTab(t.id)}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors -mb-px ${
+              tab === t.id
+                ? 'border-amber-500 text-amber-400'
+                : 'border-transparent text-slate-400 hover:text-slate-300'
+            }`}
+          >
+            {t.label}
+            {t.badge !== undefined && (
+              <span className="px-1.5 py-0.5 text-xs bg-amber-500/20 text-amber-400 border border-amber-500/30 rounded-full">
+                {t.badge}
+              </span>
+            )}
+          </button>
+        ))}
       </div>
 
       {/* Upload modal */}
@@ -204,7 +412,7 @@ export default function VaultDocumentManager() {
                   value={form.document_name}
                   onChange={(e) => setForm({ ...form, document_name: e.target.value })}
                   className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50"
-                  placeholder="e.g. Arkline Trust Pitch Deck 2026"
+                  placeholder="e.g. Fund Pitch Deck 2026"
                 />
               </div>
 
@@ -236,6 +444,33 @@ export default function VaultDocumentManager() {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">
+                    Folder
+                  </label>
+                  <select
+                    value={form.folder_id}
+                    onChange={(e) => setForm({ ...form, folder_id: e.target.value })}
+                    className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+                  >
+                    <option value="">No folder (all stages)</option>
+                    {folders.map((f) => (
+                      <option key={f.id} value={f.id}>{f.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 mt-6 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.is_key_document}
+                    onChange={(e) => setForm({ ...form, is_key_document: e.target.checked })}
+                    className="rounded border-slate-600 bg-slate-800 text-amber-500 focus:ring-amber-500/50"
+                  />
+                  Key document
+                </label>
+              </div>
+
               <div>
                 <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">
                   File (PDF) *
@@ -292,73 +527,83 @@ export default function VaultDocumentManager() {
         </div>
       )}
 
-      {/* Document list */}
+      {showFolders && tenantId && (
+        <VaultFolderManager
+          tenantId={tenantId}
+          folders={folders}
+          onClose={() => setShowFolders(false)}
+          onChanged={() => { loadFolders(); loadDocuments(); }}
+          onToast={setToast}
+        />
+      )}
+
       {loading ? (
         <div className="flex items-center justify-center py-16">
           <Loader2 className="w-6 h-6 text-slate-500 animate-spin" />
         </div>
-      ) : documents.length === 0 ? (
-        <div className="text-center py-16 border border-dashed border-slate-800 rounded-xl">
-          <Lock className="w-10 h-10 text-slate-700 mx-auto mb-4" />
-          <p className="text-slate-400 font-medium mb-1">No documents uploaded yet</p>
-          <p className="text-slate-600 text-sm mb-6">
-            Upload your pitch deck, term sheet, and one-pager to make them available to prospects.
-          </p>
-          <button
-            onClick={() => setShowUpload(true)}
-            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Upload First Document
-          </button>
-        </div>
       ) : (
-        <div className="space-y-2">
-          {documents.map((doc) => (
-            <div
-              key={doc.id}
-              className={`flex items-center gap-4 px-4 py-3.5 rounded-lg border transition-all ${
-                doc.is_active
-                  ? 'bg-slate-800/40 border-slate-700/50'
-                  : 'bg-slate-900/40 border-slate-800/40 opacity-50'
-              }`}
-            >
-              <div className="w-8 h-8 rounded bg-amber-500/10 flex items-center justify-center flex-shrink-0">
-                <FileText className="w-4 h-4 text-amber-400" />
-              </div>
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-white truncate">{doc.document_name}</p>
-                <div className="flex items-center gap-2 mt-0.5">
-                  <span className="text-xs text-amber-400/70">
-                    {DOC_TYPE_OPTIONS.find((o) => o.value === doc.document_type)?.label ?? doc.document_type}
-                  </span>
-                  {doc.description && (
-                    <>
-                      <span className="text-slate-700">·</span>
-                      <span className="text-xs text-slate-500 truncate">{doc.description}</span>
-                    </>
-                  )}
+        <>
+          {tab === 'documents' && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between gap-4 bg-slate-800/40 border border-slate-700/50 rounded-lg p-4">
+                <div className="flex items-start gap-3 text-sm">
+                  <Lock className="w-4 h-4 text-amber-400 mt-0.5 flex-shrink-0" />
+                  <p className="text-slate-500">
+                    Prospects enter with a personal link from the Access tab or with the vault passphrase. Folders are shown by investor stage, PDFs are watermarked with each viewer's name and email, and starred key documents alert you when opened.
+                  </p>
                 </div>
-              </div>
-              <div className="flex items-center gap-1 flex-shrink-0">
                 <button
-                  onClick={() => handleToggleActive(doc)}
-                  title={doc.is_active ? 'Hide from vault' : 'Show in vault'}
-                  className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                  onClick={() => setShowFolders(true)}
+                  className="flex-shrink-0 flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 border border-slate-700 hover:border-slate-500 hover:text-white transition-colors"
                 >
-                  {doc.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                </button>
-                <button
-                  onClick={() => handleDelete(doc)}
-                  title="Delete document"
-                  className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
-                >
-                  <Trash2 className="w-4 h-4" />
+                  <FolderCog className="w-4 h-4" />
+                  Folders
                 </button>
               </div>
+
+              {documents.length === 0 ? (
+                <div className="text-center py-16 border border-dashed border-slate-800 rounded-xl">
+                  <Lock className="w-10 h-10 text-slate-700 mx-auto mb-4" />
+                  <p className="text-slate-400 font-medium mb-1">No documents uploaded yet</p>
+                  <p className="text-slate-600 text-sm mb-6">
+                    Upload your pitch deck, term sheet, and one-pager to make them available to prospects.
+                  </p>
+                  <button
+                    onClick={() => setShowUpload(true)}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Upload First Document
+                  </button>
+                </div>
+              ) : (
+                sections.map((section) => (
+                  <div key={section.id || 'none'} className="space-y-2">
+                    {folders.length > 0 && (
+                      <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-500">
+                        <span className="font-semibold text-slate-400">{section.name}</span>
+                        {section.stage && <span>· {stageLabel(section.stage)} and beyond</span>}
+                      </div>
+                    )}
+                    {section.documents.length === 0
+                      ? <p className="text-xs text-slate-600 px-1">Empty folder</p>
+                      : section.documents.map(renderDocument)}
+                  </div>
+                ))
+              )}
             </div>
-          ))}
-        </div>
+          )}
+
+          {tab === 'access' && tenantId && <VaultAccessGrants tenantId={tenantId} onToast={setToast} />}
+
+          {tab === 'activity' && settings && (
+            <VaultActivity documents={documents} events={events} alertsSeenAt={alertsSeenAt} />
+          )}
+
+          {tab === 'settings' && settings && (
+            <VaultSettingsPanel settings={settings} onSaved={setSettings} onToast={setToast} />
+          )}
+        </>
       )}
 
       {/* Toast */}
@@ -1,7 +1,17 @@
 import { useState, useEffect } from 'react';
-import { Plus, Calculator, TrendingUp, Layers, DollarSign } from 'lucide-react';
+import { Plus, Calculator, TrendingUp, Layers, DollarSign, Briefcase, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import { getLatestNAV } from '../../lib/navCalculation';
+import {
+  buildStandardTiers,
+  calculateFundWaterfall,
+  DealCashFlows,
+  LPCashFlows,
+  LPWaterfallResult,
+  TierAllocation,
+  normaliseTiers,
+} from '../../lib/waterfall';
 
 interface Fund {
   id: string;
@@ -19,10 +29,23 @@ interface WaterfallStructure {
   carried_interest_rate: number;
   calculation_method: string;
   clawback_provision: boolean;
+  preferred_return_compounded: boolean;
+  gp_commitment_percent: number | null;
   status: string;
   tiers: any;
 }
 
+interface FundDeal {
+  id: string;
+  deal_name: string;
+  invested_amount: number;
+  investment_date: string;
+  realized_proceeds: number;
+  realization_date: string | null;
+  current_value: number;
+  status: string;
+}
+
 interface WaterfallCalculation {
   id: string;
   calculation_date: string;
@@ -34,6 +57,18 @@ interface WaterfallCalculation {
   gp_allocation: number;
   catch_up_amount: number | null;
   tier_breakdown: any;
+  calculation_details: {
+    method?: string;
+    proceeds?: number;
+    capital?: number;
+    clawback?: number;
+  } | null;
+}
+
+interface InvestorAccount {
+  id: string;
+  shares_owned: number | null;
+  investor: { full_name: string } | null;
 }
 
 export default function WaterfallCalculator() {
@@ -42,10 +77,22 @@ export default function WaterfallCalculator() {
   const [structures, setStructures] = useState<WaterfallStructure[]>([]);
   const [calculations, setCalculations] = useState<WaterfallCalculation[]>([]);
   const [selectedFund, setSelectedFund] = useState('');
-  const [selectedTab, setSelectedTab] = useState<'structures' | 'calculations'>('structures');
+  const [deals, setDeals] = useState<FundDeal[]>([]);
+  const [selectedTab, setSelectedTab] = useState<'structures' | 'calculations' | 'deals'>('structures');
+  const [expandedCalculation, setExpandedCalculation] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [calculating, setCalculating] = useState(false);
   const [showModal, setShowModal] = useState(false);
+  const [additionalSplits, setAdditionalSplits] = useState<{ hurdleRate: number; gp: number }[]>([]);
+  const [dealForm, setDealForm] = useState({
+    deal_name: '',
+    invested_amount: 0,
+    investment_date: new Date().toISOString().split('T')[0],
+    realized_proceeds: 0,
+    realization_date: '',
+    current_value: 0,
+    status: 'unrealized',
+  });
   const [formData, setFormData] = useState({
     structure_name: '',
     structure_type: 'european',
@@ -66,6 +113,7 @@ export default function WaterfallCalculator() {
     if (selectedFund) {
       loadStructures();
       loadCalculations();
+      loadDeals();
     }
   }, [selectedFund]);
 
@@ -112,35 +160,27 @@ export default function WaterfallCalculator() {
     }
   };
 
+  const loadDeals = async () => {
+    const { data } = await supabase
+      .from('fund_deals')
+      .select('*')
+      .eq('fund_id', selectedFund)
+      .order('investment_date');
+
+    if (data) {
+      setDeals(data);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const tiers = [
-      {
-        tier: 1,
-        name: 'Return of Capital',
-        allocation: { lp: 100, gp: 0 },
-        description: '100% to LPs until return of capital'
-      },
-      {
-        tier: 2,
-        name: 'Preferred Return',
-        allocation: { lp: 100, gp: 0 },
-        description: `${formData.hurdle_rate}% hurdle to LPs`
-      },
-      {
-        tier: 3,
-        name: 'Catch-Up',
-        allocation: { lp: 100 - formData.catch_up_rate, gp: formData.catch_up_rate },
-        description: `${formData.catch_up_rate}% to GP until ${formData.carried_interest_rate}% of profits`
-      },
-      {
-        tier: 4,
-        name: 'Carried Interest',
-        allocation: { lp: 100 - formData.carried_interest_rate, gp: formData.carried_interest_rate },
-        description: `${100 - formData.carried_interest_rate}% LP / ${formData.carried_interest_rate}% GP`
-      }
-    ];
+    const tiers = buildStandardTiers({
+      hurdleRate: formData.hurdle_rate,
+      catchUpRate: formData.catch_up_rate,
+      carriedInterestRate: formData.carried_interest_rate,
+      additionalSplits,
+    });
 
     const { error } = await supabase
       .from('waterfall_structures')
@@ -168,105 +208,161 @@ export default function WaterfallCalculator() {
     }
   };
 
-  const calculateWaterfall = async (structureId: string) => {
-    setCalculating(true);
-
-    const structure = structures.find(s => s.id === structureId);
-    if (!structure) return;
-
-    const { data: contributions } = await supabase
-      .from('capital_transactions')
-      .select('amount')
-      .eq('fund_id', selectedFund)
-      .eq('transaction_type', 'contribution');
+  const handleAddDeal = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-    const { data: distributions } = await supabase
-      .from('capital_transactions')
-      .select('amount')
-      .eq('fund_id', selectedFund)
-      .in('transaction_type', ['distribution', 'redemption']);
+    const { error } = await supabase
+      .from('fund_deals')
+      .insert({
+        tenant_id: currentTenant?.id,
+        fund_id: selectedFund,
+        ...dealForm,
+        realization_date: dealForm.realization_date || null,
+      });
 
-    const { data: latestNAV } = await supabase
-      .from('nav_calculations')
-      .select('total_nav')
-      .eq('fund_id', selectedFund)
-      .order('calculation_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    if (!error) {
+      setDealForm({ ...dealForm, deal_name: '', invested_amount: 0, realized_proceeds: 0, realization_date: '', current_value: 0, status: 'unrealized' });
+      loadDeals();
+    } else {
+      alert('Error adding deal');
+    }
+  };
 
-    const totalContributions = contributions?.reduce((sum, t) => sum + t.amount, 0) || 0;
-    const totalDistributions = distributions?.reduce((sum, t) => sum + t.amount, 0) || 0;
-    const currentNAV = latestNAV?.total_nav || 0;
+  const handleDeleteDeal = async (dealId: string) => {
+    if (!confirm('Delete this deal?')) return;
 
-    const totalValue = currentNAV + totalDistributions;
-    const totalProfit = totalValue - totalContributions;
+    const { error } = await supabase.from('fund_deals').delete().eq('id', dealId);
+    if (!error) {
+      loadDeals();
+    }
+  };
 
-    const hurdleAmount = (totalContributions * (structure.hurdle_rate || 0) / 100);
+  const loadInvestorCashFlows = async (): Promise<LPCashFlows[]> => {
+    const { data: accounts } = await supabase
+      .from('capital_accounts')
+      .select('id, shares_owned, investor:client_profiles!investor_id(full_name)')
+      .eq('fund_id', selectedFund);
 
-    let lpAllocation = 0;
-    let gpAllocation = 0;
-    let catchUpAmount = 0;
-    let preferredReturn = 0;
+    const { data: transactions } = await supabase
+      .from('capital_transactions')
+      .select('capital_account_id, transaction_type, transaction_date, amount')
+      .eq('fund_id', selectedFund)
+      .in('transaction_type', ['contribution', 'distribution', 'redemption'])
+      .not('status', 'in', '(cancelled,failed)');
+
+    const latestNAV = await getLatestNAV(selectedFund);
+    const navPerShare = latestNAV?.nav_per_share || 0;
+
+    const flows: LPCashFlows[] = ((accounts as InvestorAccount[] | null) || []).map(account => {
+      const own = (transactions || []).filter(t => t.capital_account_id === account.id);
+      return {
+        capitalAccountId: account.id,
+        investorName: account.investor?.full_name,
+        contributions: own
+          .filter(t => t.transaction_type === 'contribution')
+          .map(t => ({ date: new Date(t.transaction_date), amount: t.amount })),
+        distributions: own
+          .filter(t => t.transaction_type !== 'contribution')
+          .map(t => ({ date: new Date(t.transaction_date), amount: t.amount })),
+        currentValue: (account.shares_owned || 0) * navPerShare,
+      };
+    });
 
-    if (totalProfit <= 0) {
-      lpAllocation = totalDistributions;
-      gpAllocation = 0;
-    } else {
-      preferredReturn = Math.min(totalProfit, hurdleAmount);
-      lpAllocation = totalContributions + preferredReturn;
+    // Accounts without shares on the register share the fund NAV by contributed capital
+    const unitisedValue = flows.reduce((sum, lp) => sum + lp.currentValue, 0);
+    if (unitisedValue === 0 && latestNAV) {
+      const totalContributed = flows.reduce((sum, lp) => sum + lp.contributions.reduce((a, c) => a + c.amount, 0), 0);
+      flows.forEach(lp => {
+        const contributed = lp.contributions.reduce((a, c) => a + c.amount, 0);
+        lp.currentValue = totalContributed > 0 ? latestNAV.net_asset_value * (contributed / totalContributed) : 0;
+      });
+    }
 
-      let remainingProfit = totalProfit - preferredReturn;
+    return flows.filter(lp => lp.contributions.length > 0 || lp.distributions.length > 0);
+  };
 
-      if (remainingProfit > 0) {
-        const targetCarry = preferredReturn * (structure.carried_interest_rate / 100) / ((100 - structure.carried_interest_rate) / 100);
-        catchUpAmount = Math.min(remainingProfit, targetCarry);
-        gpAllocation = catchUpAmount;
-        remainingProfit -= catchUpAmount;
+  const calculateWaterfall = async (structureId: string) => {
+    const structure = structures.find(s => s.id === structureId);
+    if (!structure) return;
 
-        if (remainingProfit > 0) {
-          const lpShare = remainingProfit * ((100 - structure.carried_interest_rate) / 100);
-          const gpShare = remainingProfit * (structure.carried_interest_rate / 100);
+    setCalculating(true);
 
-          lpAllocation += lpShare;
-          gpAllocation += gpShare;
-        }
+    try {
+      const lps = await loadInvestorCashFlows();
+      const method = structure.calculation_method === 'deal_by_deal' || structure.structure_type === 'american'
+        ? 'deal_by_deal'
+        : structure.calculation_method as 'whole_fund' | 'distribution_waterfall';
+
+      const dealFlows: DealCashFlows[] = deals.map(deal => ({
+        id: deal.id,
+        name: deal.deal_name,
+        investments: [{ date: new Date(deal.investment_date), amount: deal.invested_amount }],
+        realizations: deal.realization_date && deal.realized_proceeds > 0
+          ? [{ date: new Date(deal.realization_date), amount: deal.realized_proceeds }]
+          : [],
+        currentValue: deal.current_value,
+        realized: deal.status === 'realized' || deal.status === 'written_off',
+      }));
+
+      if (method === 'deal_by_deal' && dealFlows.length === 0) {
+        alert('Add the fund\'s deals before running a deal-by-deal waterfall');
+        return;
       }
-    }
 
-    const tierBreakdown = {
-      tier1: { name: 'Return of Capital', lp: totalContributions, gp: 0 },
-      tier2: { name: 'Preferred Return', lp: preferredReturn, gp: 0 },
-      tier3: { name: 'Catch-Up', lp: 0, gp: catchUpAmount },
-      tier4: { name: 'Carry Split', lp: lpAllocation - totalContributions - preferredReturn, gp: gpAllocation - catchUpAmount }
-    };
-
-    await supabase
-      .from('waterfall_calculations')
-      .insert({
-        tenant_id: currentTenant?.id,
-        fund_id: selectedFund,
-        waterfall_structure_id: structureId,
-        calculation_date: new Date().toISOString().split('T')[0],
-        total_contributions: totalContributions,
-        total_distributions: totalDistributions,
-        current_nav: currentNAV,
-        preferred_return: preferredReturn,
-        lp_allocation: lpAllocation,
-        gp_allocation: gpAllocation,
-        catch_up_amount: catchUpAmount,
-        tier_breakdown: tierBreakdown,
-        calculation_details: {
-          total_value: totalValue,
-          total_profit: totalProfit,
-          hurdle_amount: hurdleAmount,
+      const result = calculateFundWaterfall({
+        method,
+        terms: {
+          tiers: normaliseTiers(structure),
+          carriedInterestRate: structure.carried_interest_rate,
+          compounded: structure.preferred_return_compounded,
+          gpCommitmentPercent: structure.gp_commitment_percent || 0,
         },
-        created_by: user?.id,
+        lps,
+        deals: dealFlows,
+        asOf: new Date(),
+        clawbackProvision: structure.clawback_provision,
       });
 
-    setCalculating(false);
-    loadCalculations();
-    setSelectedTab('calculations');
-    alert('Waterfall calculated successfully');
+      const { error } = await supabase
+        .from('waterfall_calculations')
+        .insert({
+          tenant_id: currentTenant?.id,
+          fund_id: selectedFund,
+          waterfall_structure_id: structureId,
+          calculation_date: new Date().toISOString().split('T')[0],
+          total_contributions: result.totalContributions,
+          total_distributions: result.totalDistributions,
+          current_nav: result.currentValue,
+          preferred_return: result.preferredReturn,
+          lp_allocation: result.lpAllocation,
+          gp_allocation: result.gpAllocation,
+          catch_up_amount: result.catchUpAmount,
+          tier_breakdown: {
+            tiers: result.tiers,
+            investors: result.investors,
+            deals: result.deals,
+          },
+          calculation_details: {
+            method: result.method,
+            proceeds: result.proceeds,
+            capital: result.capital,
+            gp_commitment: result.gpCommitment,
+            clawback: result.clawback,
+          },
+          created_by: user?.id,
+        });
+
+      if (error) throw error;
+
+      loadCalculations();
+      setSelectedTab('calculations');
+      alert('Waterfall calculated successfully');
+    } catch (error) {
+      console.error('Error calculating waterfall:', error);
+      alert('Error calculating waterfall');
+    } finally {
+      setCalculating(false);
+    }
   };
 
   const openModal = () => {
@@ -281,6 +377,7 @@ export default function WaterfallCalculator() {
       preferred_return_compounded: true,
       gp_commitment_percent: 1,
     });
+    setAdditionalSplits([]);
     setShowModal(true);
   };
 
@@ -351,6 +448,16 @@ export default function WaterfallCalculator() {
         >
           Calculations ({calculations.length})
         </button>
+        <button
+          onClick={() => setSelectedTab('deals')}
+          className={`px-6 py-3 font-medium transition-colors ${
+            selectedTab === 'deals'
+              ? 'text-cyan-400 border-b-2 border-cyan-400'
+              : 'text-slate-400 hover:text-white'
+          }`}
+        >
+          Deals ({deals.length})
+        </button>
       </div>
 
       {latestCalculation && selectedTab === 'calculations' && (
@@ -490,7 +597,7 @@ export default function WaterfallCalculator() {
             </div>
           )}
         </div>
-      ) : (
+      ) : selectedTab === 'calculations' ? (
         <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
           <h3 className="text-xl font-semibold text-white mb-6">Waterfall Calculations</h3>
 
@@ -544,13 +651,63 @@ export default function WaterfallCalculator() {
                         {(calc.gp_allocation / 1000000).toFixed(2)}M
                       </div>
                     </div>
-                    <div>
-                      <div className="text-xs text-slate-400">Carry %</div>
-                      <div className="text-white text-sm font-semibold">
-                        {((calc.gp_allocation / (calc.lp_allocation + calc.gp_allocation)) * 100).toFixed(1)}%
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-xs text-slate-400">Carry %</div>
+                        <div className="text-white text-sm font-semibold">
+                          {((calc.gp_allocation / (calc.lp_allocation + calc.gp_allocation)) * 100).toFixed(1)}%
+                        </div>
                       </div>
+                      {calc.tier_breakdown?.investors && (
+                        <button
+                          onClick={() => setExpandedCalculation(expandedCalculation === calc.id ? null : calc.id)}
+                          className="text-slate-400 hover:text-white"
+                        >
+                          {expandedCalculation === calc.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        </button>
+                      )}
                     </div>
                   </div>
+
+                  {expandedCalculation === calc.id && calc.tier_breakdown?.investors && (
+                    <div className="mt-4 pt-4 border-t border-slate-700 space-y-4">
+                      {(calc.calculation_details?.clawback || 0) > 0 && (
+                        <div className="text-sm text-amber-400">
+                          Clawback exposure: {((calc.calculation_details?.clawback || 0) / 1000000).toFixed(2)}M
+                        </div>
+                      )}
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-slate-400 border-b border-slate-700">
+                            <th className="py-2">Investor</th>
+                            <th className="py-2 text-right">Capital</th>
+                            <th className="py-2 text-right">Proceeds</th>
+                            {calc.tier_breakdown.tiers?.map((tier: TierAllocation) => (
+                              <th key={tier.tier} className="py-2 text-right">{tier.name}</th>
+                            ))}
+                            <th className="py-2 text-right">LP</th>
+                            <th className="py-2 text-right">GP</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {calc.tier_breakdown.investors.map((investor: LPWaterfallResult) => (
+                            <tr key={investor.capitalAccountId} className="border-b border-slate-800 text-white">
+                              <td className="py-2">{investor.investorName || investor.capitalAccountId.slice(0, 8)}</td>
+                              <td className="py-2 text-right">{investor.capital.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                              <td className="py-2 text-right">{investor.proceeds.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                              {investor.tiers.map(tier => (
+                                <td key={tier.tier} className="py-2 text-right text-slate-300">
+                                  {(tier.lp + tier.gp).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                </td>
+                              ))}
+                              <td className="py-2 text-right text-green-400">{investor.lpAllocation.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                              <td className="py-2 text-right text-cyan-400">{investor.gpAllocation.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -562,6 +719,104 @@ export default function WaterfallCalculator() {
             </div>
           )}
         </div>
+      ) : (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700">
+          <h3 className="text-xl font-semibold text-white mb-2">Fund Deals</h3>
+          <p className="text-slate-400 text-sm mb-6">Investments and realizations used by deal-by-deal (American) waterfalls</p>
+
+          <form onSubmit={handleAddDeal} className="grid grid-cols-2 md:grid-cols-7 gap-3 mb-6 items-end">
+            <input
+              type="text"
+              required
+              placeholder="Deal name"
+              value={dealForm.deal_name}
+              onChange={(e) => setDealForm({ ...dealForm, deal_name: e.target.value })}
+              className="md:col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <input
+              type="number"
+              required
+              placeholder="Invested"
+              value={dealForm.invested_amount || ''}
+              onChange={(e) => setDealForm({ ...dealForm, invested_amount: parseFloat(e.target.value) || 0 })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <input
+              type="date"
+              required
+              value={dealForm.investment_date}
+              onChange={(e) => setDealForm({ ...dealForm, investment_date: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <input
+              type="number"
+              placeholder="Proceeds"
+              value={dealForm.realized_proceeds || ''}
+              onChange={(e) => setDealForm({ ...dealForm, realized_proceeds: parseFloat(e.target.value) || 0 })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <input
+              type="date"
+              value={dealForm.realization_date}
+              onChange={(e) => setDealForm({ ...dealForm, realization_date: e.target.value })}
+              className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+            <div className="flex space-x-2">
+              <select
+                value={dealForm.status}
+                onChange={(e) => setDealForm({ ...dealForm, status: e.target.value })}
+                className="flex-1 px-2 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              >
+                <option value="unrealized">Unrealized</option>
+                <option value="partially_realized">Partial</option>
+                <option value="realized">Realized</option>
+                <option value="written_off">Written off</option>
+              </select>
+              <button type="submit" className="px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors">
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </form>
+
+          {deals.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2">Deal</th>
+                  <th className="py-2">Invested</th>
+                  <th className="py-2 text-right">Amount</th>
+                  <th className="py-2">Realized</th>
+                  <th className="py-2 text-right">Proceeds</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deals.map(deal => (
+                  <tr key={deal.id} className="border-b border-slate-800 text-white">
+                    <td className="py-2">{deal.deal_name}</td>
+                    <td className="py-2 text-slate-300">{new Date(deal.investment_date).toLocaleDateString()}</td>
+                    <td className="py-2 text-right">{deal.invested_amount.toLocaleString()}</td>
+                    <td className="py-2 text-slate-300">{deal.realization_date ? new Date(deal.realization_date).toLocaleDateString() : '—'}</td>
+                    <td className="py-2 text-right">{deal.realized_proceeds.toLocaleString()}</td>
+                    <td className="py-2 capitalize text-slate-300">{deal.status.replace('_', ' ')}</td>
+                    <td className="py-2 text-right">
+                      <button onClick={() => handleDeleteDeal(deal.id)} className="text-red-400 hover:text-red-300">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="text-center py-12">
+              <Briefcase className="w-16 h-16 text-slate-600 mx-auto mb-4" />
+              <p className="text-slate-400 text-lg">No deals recorded</p>
+              <p className="text-slate-500 text-sm mt-2">Record investments and exits to run deal-by-deal waterfalls</p>
+            </div>
+          )}
+        </div>
       )}
 
       {showModal && (
@@ -674,6 +929,53 @@ export default function WaterfallCalculator() {
                 />
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-300">
+                    Additional Carry Tiers
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setAdditionalSplits([...additionalSplits, { hurdleRate: 15, gp: 30 }])}
+                    className="text-sm text-cyan-400 hover:text-cyan-300"
+                  >
+                    + Add tier
+                  </button>
+                </div>
+                {additionalSplits.length > 0 && (
+                  <p className="text-xs text-slate-500 mb-2">
+                    The base carry applies until the first LP IRR threshold; each tier's GP share applies above it
+                  </p>
+                )}
+                {additionalSplits.map((split, index) => (
+                  <div key={index} className="grid grid-cols-5 gap-2 mb-2 items-center">
+                    <span className="text-sm text-slate-400 col-span-1">Above IRR</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={split.hurdleRate}
+                      onChange={(e) => setAdditionalSplits(additionalSplits.map((s, i) => i === index ? { ...s, hurdleRate: parseFloat(e.target.value) || 0 } : s))}
+                      className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm"
+                    />
+                    <span className="text-sm text-slate-400">% GP share</span>
+                    <input
+                      type="number"
+                      step="1"
+                      value={split.gp}
+                      onChange={(e) => setAdditionalSplits(additionalSplits.map((s, i) => i === index ? { ...s, gp: parseFloat(e.target.value) || 0 } : s))}
+                      className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setAdditionalSplits(additionalSplits.filter((_, i) => i !== index))}
+                      className="text-red-400 hover:text-red-300 justify-self-end"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
               <div className="space-y-2">
                 <label className="flex items-center space-x-2">
                   <input
@@ -66,7 +66,7 @@ export default function WhiteLabelManager() {
       case 'email': return <TenantEmailClaiming />;
       case 'design': return <SiteDesignEditor />;
       case 'nav': return <NavigationEditor />;
-      case 'content': return <VisualPageBuilder />;
+      case 'content': return <VisualPageBuilder siteUrl={getPreviewUrl()} />;
       case 'seo': return <SEOManager />;
       case 'css': return <CustomCSSEditor />;
       case 'settings': return <AdvancedSettings />;
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import { saveReportSchedule, type ReportSchedule, type ReportScheduleForm } from '../../../lib/reportLibrary';
+import {
+  REPORT_FREQUENCIES,
+  SCHEDULABLE_REPORT_TYPES,
+  nextRunAt,
+  reportTypeLabel,
+  type ReportFrequency,
+  type ReportRecipient,
+} from '../../../lib/reportSchedule';
+import { REPORT_FORMATS, type ReportFormat } from '../../../lib/reportRender';
+
+interface FundOption {
+  id: string;
+  fund_code: string;
+  fund_name: string;
+}
+
+interface ReportScheduleModalProps {
+  tenantId: string;
+  userId?: string;
+  funds: FundOption[];
+  schedule: ReportSchedule | null;
+  onClose: () => void;
+  onSaved: () => void;
+  onToast: (toast: { type: 'success' | 'error'; message: string }) => void;
+}
+
+const inputClass = 'w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500/50';
+
+function toForm(schedule: ReportSchedule | null): ReportScheduleForm {
+  if (!schedule) {
+    return {
+      report_type: 'investor_statement',
+      report_name: 'Monthly Investor Statements',
+      frequency: 'monthly',
+      day_of_period: 5,
+      auto_send: false,
+      fund_id: '',
+      recipients: [{ type: 'investors' }],
+      formats: ['pdf'],
+      parameters: {},
+    };
+  }
+  return {
+    id: schedule.id,
+    report_type: schedule.report_type,
+    report_name: schedule.report_name,
+    frequency: schedule.frequency,
+    day_of_period: schedule.day_of_period,
+    auto_send: schedule.auto_send,
+    fund_id: schedule.fund_id || '',
+    recipients: schedule.recipients || [],
+    formats: schedule.parameters?.formats || ['pdf'],
+    parameters: schedule.parameters || {},
+  };
+}
+
+export default function ReportScheduleModal({ tenantId, userId, funds, schedule, onClose, onSaved, onToast }: ReportScheduleModalProps) {
+  const [form, setForm] = useState<ReportScheduleForm>(() => toForm(schedule));
+  const [emailsText, setEmailsText] = useState(() =>
+    toForm(schedule).recipients.flatMap((r) => (r.type === 'email' ? [r.email] : [])).join('\n'));
+  const [saving, setSaving] = useState(false);
+
+  const isStatement = form.report_type === 'investor_statement';
+
+  const toggleFormat = (format: ReportFormat) => {
+    const formats = form.formats.includes(format)
+      ? form.formats.filter((f) => f !== format)
+      : [...form.formats, format];
+    if (formats.length > 0) setForm({ ...form, formats });
+  };
+  const emailInvestors = form.recipients.some((r) => r.type === 'investors');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.report_name.trim()) return;
+
+    const emails = isStatement
+      ? []
+      : emailsText.split(/[\s,;]+/).map((e) => e.trim().toLowerCase()).filter(Boolean);
+    const invalid = emails.filter((e) => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e));
+    if (invalid.length > 0) {
+      onToast({ type: 'error', message: `Invalid email: ${invalid[0]}` });
+      return;
+    }
+    if (form.auto_send && !isStatement && emails.length === 0) {
+      onToast({ type: 'error', message: 'Add at least one recipient to send reports automatically.' });
+      return;
+    }
+
+    const recipients: ReportRecipient[] = isStatement
+      ? (emailInvestors ? [{ type: 'investors' }] : [])
+      : emails.map((email) => ({ type: 'email', email }));
+
+    setSaving(true);
+    try {
+      await saveReportSchedule(tenantId, userId, { ...form, recipients });
+      onToast({ type: 'success', message: form.id ? 'Schedule updated.' : 'Schedule created.' });
+      onSaved();
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to save schedule.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const firstRun = nextRunAt(form.frequency, form.day_of_period);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-xl shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-base font-semibold text-white">{form.id ? 'Edit Schedule' : 'New Report Schedule'}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSave} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">Report</label>
+              <select
+                value={form.report_type}
+                onChange={(e) => setForm({
+                  ...form,
+                  report_type: e.target.value,
+                  recipients: e.target.value === 'investor_statement' ? [{ type: 'investors' }] : [],
+                })}
+                className={inputClass}
+              >
+                {SCHEDULABLE_REPORT_TYPES.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">Fund</label>
+              <select
+                value={form.fund_id}
+                onChange={(e) => setForm({ ...form, fund_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">All funds</option>
+                {funds.map((f) => <option key={f.id} value={f.id}>{f.fund_code} - {f.fund_name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5">Name</label>
+            <input
+              type="text"
+              value={form.report_name}
+              onChange={(e) => setForm({ ...form, report_name: e.target.value })}
+              className={inputClass}
+              placeholder={reportTypeLabel(form.report_type)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">Frequency</label>
+              <select
+                value={form.frequency}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value as ReportFrequency })}
+                className={inputClass}
+              >
+                {REPORT_FREQUENCIES.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">Run on day</label>
+              <input
+                type="number"
+                min={1}
+                max={28}
+                value={form.day_of_period}
+                onChange={(e) => setForm({ ...form, day_of_period: Math.min(28, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Each run reports on the {form.frequency === 'monthly' ? 'month' : form.frequency === 'quarterly' ? 'quarter' : 'year'} just
+            ended. First run: {firstRun.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.
+          </p>
+
+          <label className="flex items-start gap-3 px-3 py-3 rounded-lg bg-slate-800/40 border border-slate-700/50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.auto_send}
+              onChange={(e) => setForm({ ...form, auto_send: e.target.checked })}
+              className="mt-0.5 accent-cyan-500"
+            />
+            <span>
+              <span className="block text-sm text-white">Send automatically</span>
+              <span className="block text-xs text-slate-500">
+                {isStatement
+                  ? 'Publish statements to the investor portal as soon as they are generated. Otherwise they wait as drafts in Investor Statements.'
+                  : 'Email the PDF to the recipients below after each run. Otherwise reports are kept in the library only.'}
+              </span>
+            </span>
+          </label>
+
+          {isStatement ? (
+            <label className={`flex items-center gap-3 text-sm ${form.auto_send ? 'text-slate-300' : 'text-slate-600'}`}>
+              <input
+                type="checkbox"
+                checked={emailInvestors}
+                disabled={!form.auto_send}
+                onChange={(e) => setForm({ ...form, recipients: e.target.checked ? [{ type: 'investors' }] : [] })}
+                className="accent-cyan-500"
+              />
+              Also email each investor their statement PDF
+            </label>
+          ) : (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1.5">Recipients</label>
+              <textarea
+                rows={3}
+                value={emailsText}
+                onChange={(e) => setEmailsText(e.target.value)}
+                className={`${inputClass} resize-none font-mono`}
+                placeholder={'ops@example.com\ncfo@example.com'}
+              />
+              <div className="flex items-center gap-4 mt-2">
+                <span className="text-xs text-slate-500">Attach as</span>
+                {REPORT_FORMATS.map((format) => (
+                  <label key={format.value} className="flex items-center gap-1.5 text-xs text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={form.formats.includes(format.value)}
+                      onChange={() => toggleFormat(format.value)}
+                      className="accent-cyan-500"
+                    />
+                    {format.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-2.5 rounded-lg text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !form.report_name.trim()}
+              className="flex-1 py-2.5 rounded-lg text-sm font-medium bg-cyan-600 hover:bg-cyan-700 text-white transition-colors disabled:opacity-40 flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {form.id ? 'Save Schedule' : 'Create Schedule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { StaffPermission } from '../../lib/auth';
+import type { TabType } from './ManagerSidebar';
+
+/** Tabs that need a staff permission; tabs not listed are open to all staff. */
+export const TAB_PERMISSIONS: Partial<Record<TabType, StaffPermission>> = {
+  funds: 'can_manage_funds',
+  classes: 'can_manage_funds',
+  accounts: 'can_manage_funds',
+  nav: 'can_manage_nav',
+  transactions: 'can_manage_funds',
+  capital_calls: 'can_manage_funds',
+  distributions: 'can_manage_funds',
+  redemptions: 'can_process_redemptions',
+  fees: 'can_manage_funds',
+  invoices: 'can_manage_funds',
+  exchange: 'can_manage_exchange',
+  statements: 'can_view_reports',
+  performance: 'can_view_reports',
+  reports: 'can_view_reports',
+  tax_docs: 'can_view_reports',
+  waterfall: 'can_manage_funds',
+  carried_interest: 'can_manage_funds',
+  side_pockets: 'can_manage_funds',
+  contacts: 'can_manage_clients',
+  onboarding: 'can_manage_clients',
+  clients: 'can_manage_clients',
+  lead_sourcing: 'can_manage_clients',
+  application_forms: 'can_manage_clients',
+  email: 'can_send_communications',
+  communications: 'can_send_communications',
+  invitation_templates: 'can_send_communications',
+  email_templates: 'can_send_communications',
+  newsletters: 'can_manage_newsletters',
+  subscribers: 'can_manage_newsletters',
+  compliance: 'can_view_compliance',
+  audit_trail: 'can_view_compliance',
+  analytics: 'can_access_analytics',
+};
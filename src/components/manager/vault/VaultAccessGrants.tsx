@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, Link2, Loader2, Plus, RotateCcw, UserPlus, X, Ban } from 'lucide-react';
+import {
+  VAULT_STAGES,
+  createAccessGrant,
+  fetchAccessGrants,
+  grantStatus,
+  inviteLink,
+  stageLabel,
+  updateAccessGrant,
+  type VaultAccessGrant,
+  type VaultStage,
+} from '../../../lib/dataRoom';
+
+interface VaultAccessGrantsProps {
+  tenantId: string;
+  onToast: (toast: { type: 'success' | 'error'; message: string }) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 7,  label: '7 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  active:  'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  expired: 'bg-slate-700/40 text-slate-400 border-slate-600/40',
+  revoked: 'bg-red-500/10 text-red-400 border-red-500/30',
+};
+
+function daysFromNow(days: number) {
+  return new Date(Date.now() + days * 86400000).toISOString();
+}
+
+export default function VaultAccessGrants({ tenantId, onToast }: VaultAccessGrantsProps) {
+  const [grants, setGrants] = useState<VaultAccessGrant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInvite, setShowInvite] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({ prospect_name: '', prospect_email: '', stage: 'prospect' as VaultStage, days: 14, note: '' });
+
+  const load = useCallback(async () => {
+    try {
+      setGrants(await fetchAccessGrants(tenantId));
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to load access grants.' });
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId, onToast]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const copyLink = async (grant: VaultAccessGrant) => {
+    await navigator.clipboard.writeText(inviteLink(grant));
+    onToast({ type: 'success', message: `Access link for ${grant.prospect_name} copied.` });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const grant = await createAccessGrant(tenantId, {
+        prospect_name: form.prospect_name,
+        prospect_email: form.prospect_email,
+        stage: form.stage,
+        expires_at: daysFromNow(form.days),
+        note: form.note,
+      });
+      setGrants((prev) => [grant, ...prev]);
+      setShowInvite(false);
+      setForm({ prospect_name: '', prospect_email: '', stage: 'prospect', days: 14, note: '' });
+      await copyLink(grant);
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to create access grant.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const applyChange = async (grant: VaultAccessGrant, changes: Parameters<typeof updateAccessGrant>[1], message: string) => {
+    try {
+      await updateAccessGrant(grant.id, changes);
+      setGrants((prev) => prev.map((g) => (g.id === grant.id ? { ...g, ...changes } : g)));
+      onToast({ type: 'success', message });
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to update access grant.' });
+    }
+  };
+
+  const handleRevoke = (grant: VaultAccessGrant) => {
+    if (!confirm(`Revoke vault access for ${grant.prospect_name}? Any open session ends immediately.`)) return;
+    applyChange(grant, { revoked_at: new Date().toISOString() }, 'Access revoked.');
+  };
+
+  const handleRestore = (grant: VaultAccessGrant) => {
+    applyChange(grant, { revoked_at: null, expires_at: daysFromNow(14) }, 'Access restored for 14 days.');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          Each prospect gets a personal link. Their stage decides which folders they see, and every document is watermarked with their name and email.
+        </p>
+        <button
+          onClick={() => setShowInvite(true)}
+          className="flex-shrink-0 flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors"
+        >
+          <UserPlus className="w-4 h-4" />
+          Invite Prospect
+        </button>
+      </div>
+
+      {showInvite && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+          <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-xl shadow-2xl">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+              <h2 className="text-base font-semibold text-white">Invite Prospect</h2>
+              <button onClick={() => setShowInvite(false)} className="text-slate-400 hover:text-white transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleInvite} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">Name *</label>
+                  <input
+                    type="text"
+                    required
+                    value={form.prospect_name}
+                    onChange={(e) => setForm({ ...form, prospect_name: e.target.value })}
+                    className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">Email *</label>
+                  <input
+                    type="email"
+                    required
+                    value={form.prospect_email}
+                    onChange={(e) => setForm({ ...form, prospect_email: e.target.value })}
+                    className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">Investor Stage</label>
+                  <select
+                    value={form.stage}
+                    onChange={(e) => setForm({ ...form, stage: e.target.value as VaultStage })}
+                    className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+                  >
+                    {VAULT_STAGES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">Link Expires In</label>
+                  <select
+                    value={form.days}
+                    onChange={(e) => setForm({ ...form, days: Number(e.target.value) })}
+                    className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+                  >
+                    {EXPIRY_OPTIONS.map((o) => <option key={o.days} value={o.days}>{o.label}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1.5">Internal Note</label>
+                <input
+                  type="text"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50"
+                  placeholder="e.g. Introduced by family office network"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowInvite(false)}
+                  className="flex-1 py-2.5 rounded-lg text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !form.prospect_name.trim() || !form.prospect_email.trim()}
+                  className="flex-1 py-2.5 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors disabled:opacity-40 flex items-center justify-center gap-2"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                  Create &amp; Copy Link
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="w-6 h-6 text-slate-500 animate-spin" />
+        </div>
+      ) : grants.length === 0 ? (
+        <div className="text-center py-16 border border-dashed border-slate-800 rounded-xl">
+          <UserPlus className="w-10 h-10 text-slate-700 mx-auto mb-4" />
+          <p className="text-slate-400 font-medium mb-1">No prospects invited yet</p>
+          <p className="text-slate-600 text-sm mb-6">Invite a prospect to give them a personal, expiring link to the vault.</p>
+          <button
+            onClick={() => setShowInvite(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Invite First Prospect
+          </button>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-slate-800 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-800/50 text-xs uppercase tracking-wider text-slate-500">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium">Prospect</th>
+                <th className="text-left px-4 py-3 font-medium">Stage</th>
+                <th className="text-left px-4 py-3 font-medium">Status</th>
+                <th className="text-left px-4 py-3 font-medium">Expires</th>
+                <th className="text-left px-4 py-3 font-medium">Last Visit</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {grants.map((grant) => {
+                const status = grantStatus(grant);
+                return (
+                  <tr key={grant.id} className="hover:bg-slate-800/30">
+                    <td className="px-4 py-3">
+                      <p className="text-white font-medium">{grant.prospect_name}</p>
+                      <p className="text-xs text-slate-500">{grant.prospect_email}</p>
+                      {grant.note && <p className="text-xs text-slate-600 mt-0.5">{grant.note}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={grant.stage}
+                        disabled={status === 'revoked'}
+                        onChange={(e) => applyChange(grant, { stage: e.target.value as VaultStage }, `${grant.prospect_name} moved to ${stageLabel(e.target.value)}.`)}
+                        className="px-2 py-1 bg-slate-800 border border-slate-700 rounded text-xs text-white focus:outline-none focus:border-amber-500/50 disabled:opacity-50"
+                      >
+                        {VAULT_STAGES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 text-xs rounded-full border capitalize ${STATUS_STYLES[status]}`}>{status}</span>
+                    </td>
+                    <td className="px-4 py-3 text-slate-400 text-xs">{new Date(grant.expires_at).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 text-slate-400 text-xs">
+                      {grant.last_accessed_at ? new Date(grant.last_accessed_at).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        {status === 'active' && (
+                          <button
+                            onClick={() => copyLink(grant)}
+                            title="Copy access link"
+                            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                        )}
+                        {status === 'active' ? (
+                          <button
+                            onClick={() => handleRevoke(grant)}
+                            title="Revoke access"
+                            className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleRestore(grant)}
+                            title="Restore access for 14 days"
+                            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
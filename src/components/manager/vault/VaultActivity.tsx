@@ -0,0 +1,159 @@
+import { useMemo, useState } from 'react';
+import { Clock, Download, Eye, Search, Star, Users } from 'lucide-react';
+import { formatDuration, summarizeDocumentEvents, type VaultDocumentEvent } from '../../../lib/dataRoom';
+
+interface ActivityDocument {
+  id: string;
+  document_name: string;
+  is_key_document: boolean;
+}
+
+interface VaultActivityProps {
+  documents: ActivityDocument[];
+  events: VaultDocumentEvent[];
+  alertsSeenAt: string;
+}
+
+export default function VaultActivity({ documents, events, alertsSeenAt }: VaultActivityProps) {
+  const [search, setSearch] = useState('');
+
+  const documentsById = useMemo(() => new Map(documents.map((d) => [d.id, d])), [documents]);
+  const analytics = useMemo(() => summarizeDocumentEvents(events), [events]);
+
+  const viewers = new Set(events.map((e) => e.viewer_email.toLowerCase()));
+  const totalSeconds = events.reduce((sum, e) => sum + e.seconds_viewed, 0);
+  const keyOpens = events.filter((e) => documentsById.get(e.document_id)?.is_key_document).length;
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? events.filter((e) =>
+        e.viewer_name.toLowerCase().includes(term)
+        || e.viewer_email.toLowerCase().includes(term)
+        || documentsById.get(e.document_id)?.document_name.toLowerCase().includes(term))
+    : events;
+
+  const stats = [
+    { label: 'Document Opens', value: events.length.toString(), icon: Eye },
+    { label: 'Unique Viewers', value: viewers.size.toString(), icon: Users },
+    { label: 'Time on Documents', value: formatDuration(totalSeconds), icon: Clock },
+    { label: 'Key Document Opens', value: keyOpens.toString(), icon: Star },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-xs text-slate-500 mb-1">
+              <stat.icon className="w-3.5 h-3.5" />
+              {stat.label}
+            </div>
+            <p className="text-xl font-semibold text-white">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-white mb-3">By Document</h3>
+        <div className="overflow-x-auto border border-slate-800 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-800/50 text-xs uppercase tracking-wider text-slate-500">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium">Document</th>
+                <th className="text-right px-4 py-3 font-medium">Views</th>
+                <th className="text-right px-4 py-3 font-medium">Downloads</th>
+                <th className="text-right px-4 py-3 font-medium">Viewers</th>
+                <th className="text-right px-4 py-3 font-medium">Avg. Time</th>
+                <th className="text-right px-4 py-3 font-medium">Last Opened</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {documents.map((doc) => {
+                const stat = analytics.get(doc.id);
+                return (
+                  <tr key={doc.id} className="hover:bg-slate-800/30">
+                    <td className="px-4 py-3 text-white">
+                      <span className="flex items-center gap-2">
+                        {doc.is_key_document && <Star className="w-3.5 h-3.5 text-amber-400 fill-amber-400" />}
+                        {doc.document_name}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-slate-300">{stat?.views ?? 0}</td>
+                    <td className="px-4 py-3 text-right text-slate-300">{stat?.downloads ?? 0}</td>
+                    <td className="px-4 py-3 text-right text-slate-300">{stat?.uniqueViewers ?? 0}</td>
+                    <td className="px-4 py-3 text-right text-slate-300">
+                      {stat?.views ? formatDuration(Math.round(stat.totalSeconds / stat.views)) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right text-slate-500 text-xs">
+                      {stat?.lastOpenedAt ? new Date(stat.lastOpenedAt).toLocaleString() : 'Never'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-white">Activity Log</h3>
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 pr-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50"
+              placeholder="Filter by viewer or document"
+            />
+          </div>
+        </div>
+
+        {filtered.length === 0 ? (
+          <div className="text-center py-12 border border-dashed border-slate-800 rounded-xl text-sm text-slate-500">
+            No vault activity in the last 90 days.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.slice(0, 200).map((event) => {
+              const doc = documentsById.get(event.document_id);
+              const isNewAlert = doc?.is_key_document && event.started_at > alertsSeenAt;
+              return (
+                <div
+                  key={event.id}
+                  className={`flex items-center gap-4 px-4 py-3 rounded-lg border ${
+                    isNewAlert ? 'bg-amber-500/5 border-amber-500/30' : 'bg-slate-800/40 border-slate-700/50'
+                  }`}
+                >
+                  <div className="w-8 h-8 rounded bg-amber-500/10 flex items-center justify-center flex-shrink-0">
+                    {event.action === 'download'
+                      ? <Download className="w-4 h-4 text-amber-400" />
+                      : <Eye className="w-4 h-4 text-amber-400" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">
+                      <span className="font-medium">{event.viewer_name}</span>
+                      <span className="text-slate-400"> {event.action === 'download' ? 'downloaded' : 'viewed'} </span>
+                      <span className="font-medium">{doc?.document_name ?? 'a removed document'}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {event.viewer_email} · {new Date(event.started_at).toLocaleString()}
+                      {event.seconds_viewed > 0 && ` · ${formatDuration(event.seconds_viewed)} on document`}
+                    </p>
+                  </div>
+                  {doc?.is_key_document && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border bg-amber-500/10 text-amber-400 border-amber-500/30">
+                      <Star className="w-3 h-3" />
+                      {isNewAlert ? 'New' : 'Key'}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
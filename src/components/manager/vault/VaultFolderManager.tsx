@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Folder, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import {
+  VAULT_STAGES,
+  deleteVaultFolder,
+  saveVaultFolder,
+  stageLabel,
+  type VaultFolder,
+  type VaultStage,
+} from '../../../lib/dataRoom';
+
+interface VaultFolderManagerProps {
+  tenantId: string;
+  folders: VaultFolder[];
+  onClose: () => void;
+  onChanged: () => void;
+  onToast: (toast: { type: 'success' | 'error'; message: string }) => void;
+}
+
+interface FolderForm {
+  id?: string;
+  name: string;
+  description: string;
+  min_stage: VaultStage;
+}
+
+const EMPTY_FOLDER: FolderForm = { name: '', description: '', min_stage: 'prospect' };
+
+export default function VaultFolderManager({ tenantId, folders, onClose, onChanged, onToast }: VaultFolderManagerProps) {
+  const [form, setForm] = useState<FolderForm>(EMPTY_FOLDER);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+    setSaving(true);
+    try {
+      const maxOrder = folders.reduce((max, f) => Math.max(max, f.sort_order), -1);
+      await saveVaultFolder(tenantId, { ...form, sort_order: maxOrder + 1 });
+      setForm(EMPTY_FOLDER);
+      onChanged();
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to save folder.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (folder: VaultFolder) => {
+    if (!confirm(`Delete folder "${folder.name}"? Its documents move to the top level and become visible to every stage.`)) return;
+    try {
+      await deleteVaultFolder(folder.id);
+      onChanged();
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to delete folder.' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-xl shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-base font-semibold text-white">Folders</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-xs text-slate-500">
+            A folder is visible to prospects at or beyond its minimum stage. Documents outside any folder are visible to everyone admitted to the vault.
+          </p>
+
+          {folders.length > 0 && (
+            <div className="space-y-2">
+              {folders.map((folder) => (
+                <div key={folder.id} className="flex items-center gap-3 px-3 py-2.5 rounded-lg bg-slate-800/40 border border-slate-700/50">
+                  <Folder className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{folder.name}</p>
+                    <p className="text-xs text-slate-500">From {stageLabel(folder.min_stage)}</p>
+                  </div>
+                  <button
+                    onClick={() => setForm({ id: folder.id, name: folder.name, description: folder.description, min_stage: folder.min_stage })}
+                    title="Edit folder"
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(folder)}
+                    title="Delete folder"
+                    className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-400/10 transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="space-y-3 pt-2 border-t border-slate-800">
+            <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 pt-3">
+              {form.id ? 'Edit Folder' : 'New Folder'}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50"
+                placeholder="e.g. Due Diligence"
+              />
+              <select
+                value={form.min_stage}
+                onChange={(e) => setForm({ ...form, min_stage: e.target.value as VaultStage })}
+                className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+              >
+                {VAULT_STAGES.map((s) => <option key={s.value} value={s.value}>{s.label} and beyond</option>)}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50"
+              placeholder="Short description shown above the folder"
+            />
+            <div className="flex gap-3">
+              {form.id && (
+                <button
+                  type="button"
+                  onClick={() => setForm(EMPTY_FOLDER)}
+                  className="flex-1 py-2.5 rounded-lg text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 transition-colors"
+                >
+                  Cancel Edit
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving || !form.name.trim()}
+                className="flex-1 py-2.5 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors disabled:opacity-40 flex items-center justify-center gap-2"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                {form.id ? 'Save Folder' : 'Add Folder'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
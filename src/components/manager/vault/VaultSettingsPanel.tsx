@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Bell, KeyRound, Loader2, Save } from 'lucide-react';
+import { VAULT_STAGES, saveVaultSettings, type VaultSettings, type VaultStage } from '../../../lib/dataRoom';
+
+interface VaultSettingsPanelProps {
+  settings: VaultSettings;
+  onSaved: (settings: VaultSettings) => void;
+  onToast: (toast: { type: 'success' | 'error'; message: string }) => void;
+}
+
+export default function VaultSettingsPanel({ settings, onSaved, onToast }: VaultSettingsPanelProps) {
+  const [passphraseStage, setPassphraseStage] = useState<VaultStage>(settings.passphrase_stage);
+  const [emailsText, setEmailsText] = useState(settings.notify_emails.join('\n'));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const emails = emailsText.split(/[\s,;]+/).map((e) => e.trim().toLowerCase()).filter(Boolean);
+    const invalid = emails.filter((e) => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e));
+    if (invalid.length > 0) {
+      onToast({ type: 'error', message: `Invalid email: ${invalid[0]}` });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveVaultSettings(settings.tenant_id, { passphrase_stage: passphraseStage, notify_emails: emails });
+      onSaved({ ...settings, passphrase_stage: passphraseStage, notify_emails: emails });
+      setEmailsText(emails.join('\n'));
+      onToast({ type: 'success', message: 'Vault settings saved.' });
+    } catch (err) {
+      onToast({ type: 'error', message: err instanceof Error ? err.message : 'Failed to save vault settings.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-5 space-y-3">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-amber-400" />
+          <h3 className="text-sm font-semibold text-white">Passphrase Access</h3>
+        </div>
+        <p className="text-xs text-slate-500">
+          Visitors who enter the shared vault passphrase give their name and email, which are used for watermarks and the activity log. Choose the stage they are treated as.
+        </p>
+        <select
+          value={passphraseStage}
+          onChange={(e) => setPassphraseStage(e.target.value as VaultStage)}
+          className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-amber-500/50"
+        >
+          {VAULT_STAGES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+      </div>
+
+      <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg p-5 space-y-3">
+        <div className="flex items-center gap-2">
+          <Bell className="w-4 h-4 text-amber-400" />
+          <h3 className="text-sm font-semibold text-white">Key Document Alerts</h3>
+        </div>
+        <p className="text-xs text-slate-500">
+          These addresses are emailed the first time a prospect opens a document marked as key in each visit. Alerts also appear in the Activity tab.
+        </p>
+        <textarea
+          rows={3}
+          value={emailsText}
+          onChange={(e) => setEmailsText(e.target.value)}
+          className="w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/50 resize-none font-mono"
+          placeholder={'ir@example.com\npartner@example.com'}
+        />
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 hover:bg-amber-400 text-slate-950 transition-colors disabled:opacity-40"
+      >
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        Save Settings
+      </button>
+    </div>
+  );
+}
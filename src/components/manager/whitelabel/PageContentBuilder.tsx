@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Plus, Trash2, Save, Eye, ChevronUp, ChevronDown } from 'lucide-react';
-import { supabase } from '../../../lib/supabase';
+import { FileText, Plus, Trash2, Save, Eye, ChevronUp, ChevronDown, Upload } from 'lucide-react';
 import { useAuth } from '../../../lib/auth';
+import { PageDraft, fetchLiveSections, fetchPageDraft, publishPageDraft, savePageDraft } from '../../../lib/pageDrafts';
 
 interface ContentSection {
   id?: string;
@@ -30,11 +30,13 @@ const sectionTypes = [
 ];
 
 export default function PageContentBuilder() {
-  const { tenantId } = useAuth();
+  const { tenantId, user } = useAuth();
   const [selectedPage, setSelectedPage] = useState<string>('home');
   const [sections, setSections] = useState<ContentSection[]>([]);
+  const [draft, setDraft] = useState<PageDraft | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [publishing, setPublishing] = useState(false);
   const [showAddSection, setShowAddSection] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -50,15 +52,13 @@ export default function PageContentBuilder() {
   const loadSections = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('website_content')
-        .select('*')
-        .eq('tenant_id', tenantId)
-        .eq('page_slug', selectedPage)
-        .order('section_order');
-
-      if (error) throw error;
-      setSections(data || []);
+      const [pageDraft, liveSections] = await Promise.all([
+        fetchPageDraft(tenantId!, selectedPage),
+        fetchLiveSections(tenantId!, selectedPage),
+      ]);
+
+      setDraft(pageDraft);
+      setSections((pageDraft ? pageDraft.sections : liveSections) as ContentSection[]);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -176,40 +176,42 @@ export default function PageContentBuilder() {
     setSections(updated);
   };
 
-  const saveSections = async () => {
+  const saveSections = async (): Promise<PageDraft | null> => {
     try {
       setSaving(true);
       setError(null);
       setSuccess(null);
 
-      await supabase
-        .from('website_content')
-        .delete()
-        .eq('tenant_id', tenantId)
-        .eq('page_slug', selectedPage);
-
-      if (sections.length > 0) {
-        const { error } = await supabase.from('website_content').insert(
-          sections.map((section) => ({
-            tenant_id: tenantId,
-            page_slug: selectedPage,
-            section_type: section.section_type,
-            section_order: section.section_order,
-            content: section.content,
-            is_published: section.is_published,
-          }))
-        );
+      const saved = await savePageDraft(tenantId!, selectedPage, sections, user?.id);
+      setDraft(saved);
+
+      setSuccess('Draft saved. Changes go live when you publish.');
+      setTimeout(() => setSuccess(null), 3000);
+      return saved;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save draft');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
 
-        if (error) throw error;
-      }
+  const publishSections = async () => {
+    if (!confirm('Publish this page? Visitors will see the changes immediately.')) return;
 
-      setSuccess('Page content saved successfully!');
+    const saved = await saveSections();
+    if (!saved) return;
+
+    try {
+      setPublishing(true);
+      await publishPageDraft(saved.id);
+      setSuccess('Page published!');
       setTimeout(() => setSuccess(null), 3000);
       loadSections();
     } catch (err: any) {
       setError(err.message);
     } finally {
-      setSaving(false);
+      setPublishing(false);
     }
   };
 
@@ -423,15 +425,29 @@ export default function PageContentBuilder() {
           </button>
           <button
             onClick={saveSections}
-            disabled={saving}
-            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            disabled={saving || publishing}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
           >
             <Save className="w-4 h-4" />
-            {saving ? 'Saving...' : 'Save Page'}
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+          <button
+            onClick={publishSections}
+            disabled={saving || publishing}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            {publishing ? 'Publishing...' : 'Publish'}
           </button>
         </div>
       </div>
 
+      {draft && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-900 px-4 py-3 rounded-lg text-sm">
+          Editing a draft saved {new Date(draft.updated_at).toLocaleString()}. Visitors still see the published version.
+        </div>
+      )}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
           {error}
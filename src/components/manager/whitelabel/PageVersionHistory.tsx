@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, X, Plus, Minus, Pencil } from 'lucide-react';
+import {
+  PageSection,
+  PageVersion,
+  SectionChange,
+  diffPageSections,
+  fetchPageVersions,
+  rollbackPageVersion,
+} from '../../../lib/pageDrafts';
+
+interface PageVersionHistoryProps {
+  tenantId: string;
+  pageSlug: string;
+  draftSections: PageSection[] | null;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+type CompareTarget = 'previous' | 'draft';
+
+function preview(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value.replace(/<[^>]+>/g, ' ') : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+function ChangeRow({ change }: { change: SectionChange }) {
+  if (change.kind === 'added' || change.kind === 'removed') {
+    const section = change.kind === 'added' ? change.after : change.before;
+    const added = change.kind === 'added';
+    return (
+      <div className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${added ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+        {added ? <Plus size={14} /> : <Minus size={14} />}
+        <span className="font-medium capitalize">{section.section_type}</span>
+        <span className="text-xs opacity-75">section {change.index + 1} {added ? 'added' : 'removed'}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-amber-200 rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 bg-amber-50 text-amber-800 text-sm">
+        <Pencil size={14} />
+        <span className="font-medium capitalize">{change.after.section_type}</span>
+        <span className="text-xs opacity-75">section {change.index + 1}</span>
+      </div>
+      <table className="w-full text-xs">
+        <tbody className="divide-y divide-gray-100">
+          {change.fields.map((field) => (
+            <tr key={field}>
+              <td className="px-3 py-2 font-mono text-gray-500 align-top w-32">{field}</td>
+              <td className="px-3 py-2 text-red-700 align-top line-through decoration-red-300">
+                {field === 'visibility' ? (change.before.is_published ? 'visible' : 'hidden') : preview(change.before.content?.[field])}
+              </td>
+              <td className="px-3 py-2 text-green-700 align-top">
+                {field === 'visibility' ? (change.after.is_published ? 'visible' : 'hidden') : preview(change.after.content?.[field])}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function PageVersionHistory({ tenantId, pageSlug, draftSections, onClose, onRestored }: PageVersionHistoryProps) {
+  const [versions, setVersions] = useState<PageVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous');
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await fetchPageVersions(tenantId, pageSlug);
+      setVersions(data);
+      setSelectedId((current) => current ?? data[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId, pageSlug]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  async function handleRestore(version: PageVersion) {
+    if (!confirm(`Restore version ${version.version_number}? It will go live immediately as a new version. Your draft, if any, is kept.`)) return;
+
+    try {
+      setRestoring(true);
+      setError(null);
+      await rollbackPageVersion(version.id);
+      await loadVersions();
+      setSelectedId(null);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] : undefined;
+
+  let changes: SectionChange[] = [];
+  let compareLabel = '';
+  if (selected) {
+    if (compareTo === 'draft' && draftSections) {
+      changes = diffPageSections(selected.sections, draftSections);
+      compareLabel = `Version ${selected.version_number} → current draft`;
+    } else {
+      changes = diffPageSections(previous?.sections || [], selected.sections);
+      compareLabel = previous
+        ? `Version ${previous.version_number} → version ${selected.version_number}`
+        : `Version ${selected.version_number} (first version)`;
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <History className="w-6 h-6 text-blue-600" />
+            <h2 className="text-2xl font-semibold text-gray-900">Version History</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">This page hasn't been published yet.</div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <div className="w-72 border-r border-gray-200 overflow-y-auto">
+              {versions.map((version, index) => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                    version.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-gray-900">Version {version.version_number}</span>
+                    {index === 0 && (
+                      <span className="px-2 py-0.5 text-xs font-semibold rounded bg-green-100 text-green-800">Live</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">{new Date(version.published_at).toLocaleString()}</div>
+                  {version.note && <div className="text-xs text-gray-700 mt-1 line-clamp-2">{version.note}</div>}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{compareLabel}</h3>
+                      <p className="text-sm text-gray-500">
+                        {changes.length === 0 ? 'No differences' : `${changes.length} change${changes.length === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {draftSections && (
+                        <select
+                          value={compareTo}
+                          onChange={(e) => setCompareTo(e.target.value as CompareTarget)}
+                          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+                        >
+                          <option value="previous">Compare with previous version</option>
+                          <option value="draft">Compare with current draft</option>
+                        </select>
+                      )}
+                      {selectedIndex > 0 && (
+                        <button
+                          onClick={() => handleRestore(selected)}
+                          disabled={restoring}
+                          className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors"
+                        >
+                          <RotateCcw size={16} />
+                          {restoring ? 'Restoring...' : 'Restore'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    {changes.map((change, i) => (
+                      <ChangeRow key={`${change.kind}-${change.index}-${i}`} change={change} />
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
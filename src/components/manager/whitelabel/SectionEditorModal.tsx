@@ -394,6 +394,167 @@ export function SectionEditorModal({ sectionType, content, onSave, onClose }: Se
     );
   }
 
+  function renderHeadingFields() {
+    return (
+      <>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Heading</label>
+          <input
+            type="text"
+            value={formData.heading || ''}
+            onChange={(e) => setFormData({ ...formData, heading: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Subheading</label>
+          <input
+            type="text"
+            value={formData.subheading || ''}
+            onChange={(e) => setFormData({ ...formData, subheading: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </>
+    );
+  }
+
+  function renderBlogEditor() {
+    return (
+      <div className="space-y-4">
+        {renderHeadingFields()}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Number of Posts</label>
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={formData.limit || 3}
+              onChange={(e) => setFormData({ ...formData, limit: parseInt(e.target.value) || 3 })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Category Slug</label>
+            <input
+              type="text"
+              value={formData.category || ''}
+              onChange={(e) => setFormData({ ...formData, category: e.target.value || undefined })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              placeholder="All categories"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={formData.show_view_all !== false}
+              onChange={(e) => setFormData({ ...formData, show_view_all: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="text-sm font-medium text-gray-700">Link to the full blog</span>
+          </label>
+        </div>
+      </div>
+    );
+  }
+
+  function renderFaqEditor() {
+    return (
+      <div className="space-y-4">
+        {renderHeadingFields()}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+          <input
+            type="text"
+            value={formData.category || ''}
+            onChange={(e) => setFormData({ ...formData, category: e.target.value || undefined })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            placeholder="All categories"
+          />
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={formData.group_by_category !== false}
+              onChange={(e) => setFormData({ ...formData, group_by_category: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="text-sm font-medium text-gray-700">Group questions by category</span>
+          </label>
+        </div>
+      </div>
+    );
+  }
+
+  function renderTestimonialsEditor() {
+    return (
+      <div className="space-y-4">
+        {renderHeadingFields()}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Seconds per Testimonial</label>
+          <input
+            type="number"
+            min={3}
+            value={formData.interval_seconds || 8}
+            onChange={(e) => setFormData({ ...formData, interval_seconds: parseInt(e.target.value) || 8 })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!formData.featured_only}
+              onChange={(e) => setFormData({ ...formData, featured_only: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="text-sm font-medium text-gray-700">Featured testimonials only</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={formData.autoplay !== false}
+              onChange={(e) => setFormData({ ...formData, autoplay: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            <span className="text-sm font-medium text-gray-700">Rotate automatically</span>
+          </label>
+        </div>
+      </div>
+    );
+  }
+
+  function renderFormEditor() {
+    return (
+      <div className="space-y-4">
+        {renderHeadingFields()}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Form Slug</label>
+          <input
+            type="text"
+            value={formData.form_slug || ''}
+            onChange={(e) => setFormData({ ...formData, form_slug: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            placeholder="contact-form"
+          />
+          <p className="text-xs text-gray-500 mt-1">The slug of a form created in the Form Builder</p>
+        </div>
+      </div>
+    );
+  }
+
   function renderCustomEditor() {
     return (
       <div className="space-y-4">
@@ -478,6 +639,10 @@ export function SectionEditorModal({ sectionType, content, onSave, onClose }: Se
               {sectionType === 'about' && renderAboutEditor()}
               {sectionType === 'contact' && renderContactEditor()}
               {sectionType === 'custom' && renderCustomEditor()}
+              {sectionType === 'blog' && renderBlogEditor()}
+              {sectionType === 'faq' && renderFaqEditor()}
+              {sectionType === 'testimonials' && renderTestimonialsEditor()}
+              {sectionType === 'form' && renderFormEditor()}
             </>
           )}
         </div>
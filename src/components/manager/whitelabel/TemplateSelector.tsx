@@ -55,7 +55,7 @@ export function TemplateSelector({ onTemplateApplied }: TemplateSelectorProps) {
   async function applyTemplate(templateId: string, templateName: string) {
     if (!tenantId) return;
 
-    if (!confirm(`Apply the "${templateName}" template? This will replace your current homepage content.`)) {
+    if (!confirm(`Apply the "${templateName}" template? This will replace your current homepage content and publish it immediately.`)) {
       return;
     }
 
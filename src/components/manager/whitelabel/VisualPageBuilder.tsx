@@ -3,15 +3,25 @@ import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, us
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { FileText, Plus, Trash2, Save, GripVertical, CreditCard as Edit, Eye, EyeOff, Sparkles } from 'lucide-react';
-import { supabase } from '../../../lib/supabase';
+import { FileText, Plus, Trash2, Save, GripVertical, CreditCard as Edit, Eye, EyeOff, Sparkles, Upload, History, ExternalLink, Clock } from 'lucide-react';
 import { useAuth } from '../../../lib/auth';
+import {
+  PageDraft,
+  buildPreviewUrl,
+  discardPageDraft,
+  fetchLiveSections,
+  fetchPageDraft,
+  fetchScheduledPublish,
+  publishPageDraft,
+  savePageDraft,
+} from '../../../lib/pageDrafts';
 import { SectionEditorModal } from './SectionEditorModal';
 import { TemplateSelector } from './TemplateSelector';
+import { PageVersionHistory } from './PageVersionHistory';
 
 interface ContentSection {
   id: string;
-  section_type: 'hero' | 'features' | 'about' | 'contact' | 'custom';
+  section_type: 'hero' | 'features' | 'about' | 'contact' | 'custom' | 'blog' | 'faq' | 'testimonials' | 'form';
   section_order: number;
   content: any;
   is_published: boolean;
@@ -23,6 +33,10 @@ const sectionTypes = [
   { value: 'about', label: 'About', icon: '📖', description: 'About your company' },
   { value: 'contact', label: 'Contact', icon: '📧', description: 'Contact information and form' },
   { value: 'custom', label: 'Custom', icon: '✏️', description: 'Custom HTML/text content' },
+  { value: 'blog', label: 'Blog', icon: '📰', description: 'Latest published blog posts' },
+  { value: 'faq', label: 'FAQ', icon: '❓', description: 'Accordion of frequently asked questions' },
+  { value: 'testimonials', label: 'Testimonials', icon: '💬', description: 'Rotating client testimonials' },
+  { value: 'form', label: 'Form', icon: '📝', description: 'Embed a form from the Form Builder' },
 ];
 
 function SortableSection({ section, onEdit, onDelete, onTogglePublish }: any) {
@@ -120,18 +134,52 @@ function SortableSection({ section, onEdit, onDelete, onTogglePublish }: any) {
               <p className="text-xs mt-1">Custom content section</p>
             </div>
           )}
+          {section.section_type === 'blog' && (
+            <div>
+              <strong>{section.content.heading || 'Insights'}</strong>
+              <p className="text-xs mt-1">Latest {section.content.limit || 3} posts{section.content.category ? ` in ${section.content.category}` : ''}</p>
+            </div>
+          )}
+          {section.section_type === 'faq' && (
+            <div>
+              <strong>{section.content.heading || 'Frequently Asked Questions'}</strong>
+              <p className="text-xs mt-1">{section.content.category ? `${section.content.category} questions` : 'All active questions'}</p>
+            </div>
+          )}
+          {section.section_type === 'testimonials' && (
+            <div>
+              <strong>{section.content.heading || 'What Our Clients Say'}</strong>
+              <p className="text-xs mt-1">{section.content.featured_only ? 'Featured testimonials' : 'All active testimonials'}</p>
+            </div>
+          )}
+          {section.section_type === 'form' && (
+            <div>
+              <strong>{section.content.heading || 'Embedded form'}</strong>
+              <p className="text-xs mt-1">{section.content.form_slug || 'No form selected'}</p>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-export default function VisualPageBuilder() {
-  const { tenantId } = useAuth();
+interface VisualPageBuilderProps {
+  /** Public site URL used for draft preview links */
+  siteUrl?: string | null;
+}
+
+export default function VisualPageBuilder({ siteUrl }: VisualPageBuilderProps) {
+  const { tenantId, user } = useAuth();
   const [selectedPage, setSelectedPage] = useState<string>('home');
   const [sections, setSections] = useState<ContentSection[]>([]);
+  const [draft, setDraft] = useState<PageDraft | null>(null);
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [unsaved, setUnsaved] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [showAddSection, setShowAddSection] = useState(false);
   const [showTemplates, setShowTemplates] = useState(false);
   const [editingSection, setEditingSection] = useState<ContentSection | null>(null);
@@ -156,21 +204,21 @@ export default function VisualPageBuilder() {
   async function loadSections() {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('website_content')
-        .select('*')
-        .eq('tenant_id', tenantId)
-        .eq('page_slug', selectedPage)
-        .order('section_order');
-
-      if (error) throw error;
-
-      const sectionsWithIds = (data || []).map((section, index) => ({
+      // Edit the draft when there is one, otherwise start from what is live
+      const [pageDraft, liveSections] = await Promise.all([
+        fetchPageDraft(tenantId!, selectedPage),
+        fetchLiveSections(tenantId!, selectedPage),
+      ]);
+
+      const source = pageDraft ? pageDraft.sections : liveSections;
+      setSections(source.map((section, index) => ({
         ...section,
-        id: section.id || `temp-${index}`,
-      }));
-
-      setSections(sectionsWithIds);
+        section_type: section.section_type as ContentSection['section_type'],
+        id: `section-${index}`,
+      })));
+      setDraft(pageDraft);
+      setScheduledFor(pageDraft ? await fetchScheduledPublish(tenantId!, pageDraft.id) : null);
+      setUnsaved(false);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -219,6 +267,14 @@ export default function VisualPageBuilder() {
           html: '<div class="text-center"><h2>Custom Section</h2><p>Add your content here</p></div>',
           padding: 'medium',
         };
+      case 'blog':
+        return { heading: 'Insights', limit: 3, show_view_all: true };
+      case 'faq':
+        return { heading: 'Frequently Asked Questions', group_by_category: true };
+      case 'testimonials':
+        return { heading: 'What Our Clients Say', autoplay: true, interval_seconds: 8 };
+      case 'form':
+        return { heading: 'Get In Touch', form_slug: '' };
       default:
         return {};
     }
@@ -233,6 +289,7 @@ export default function VisualPageBuilder() {
       content: getDefaultContent(type),
     };
     setSections([...sections, newSection]);
+    setUnsaved(true);
     setShowAddSection(false);
     setEditingSection(newSection);
   }
@@ -251,6 +308,7 @@ export default function VisualPageBuilder() {
           section_order: index,
         }));
       });
+      setUnsaved(true);
     }
   }
 
@@ -260,6 +318,7 @@ export default function VisualPageBuilder() {
         section.id === id ? { ...section, is_published: !section.is_published } : section
       )
     );
+    setUnsaved(true);
   }
 
   function handleDelete(id: string) {
@@ -272,6 +331,7 @@ export default function VisualPageBuilder() {
         section_order: index,
       }));
     });
+    setUnsaved(true);
   }
 
   function handleSaveSection(content: any) {
@@ -283,46 +343,68 @@ export default function VisualPageBuilder() {
       )
     );
 
+    setUnsaved(true);
     setEditingSection(null);
   }
 
-  async function saveSections() {
+  async function saveDraft(): Promise<PageDraft | null> {
     try {
       setSaving(true);
       setError(null);
       setSuccess(null);
 
-      await supabase
-        .from('website_content')
-        .delete()
-        .eq('tenant_id', tenantId)
-        .eq('page_slug', selectedPage);
-
-      if (sections.length > 0) {
-        const { error } = await supabase.from('website_content').insert(
-          sections.map((section) => ({
-            tenant_id: tenantId,
-            page_slug: selectedPage,
-            section_type: section.section_type,
-            section_order: section.section_order,
-            content: section.content,
-            is_published: section.is_published,
-          }))
-        );
-
-        if (error) throw error;
-      }
-
-      setSuccess('Page saved successfully!');
+      const saved = await savePageDraft(tenantId!, selectedPage, sections, user?.id);
+      setDraft(saved);
+      setUnsaved(false);
+
+      setSuccess('Draft saved. Changes go live when you publish.');
       setTimeout(() => setSuccess(null), 3000);
-      await loadSections();
+      return saved;
     } catch (err: any) {
       setError(err.message);
+      return null;
     } finally {
       setSaving(false);
     }
   }
 
+  async function publishDraft() {
+    if (!confirm('Publish this page? Visitors will see the changes immediately.')) return;
+    const note = prompt('Describe this change (optional):');
+    if (note === null) return;
+
+    const current = unsaved || !draft ? await saveDraft() : draft;
+    if (!current) return;
+
+    try {
+      setPublishing(true);
+      setError(null);
+
+      await publishPageDraft(current.id, note);
+
+      setSuccess('Page published!');
+      setTimeout(() => setSuccess(null), 3000);
+      await loadSections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish page');
+    } finally {
+      setPublishing(false);
+    }
+  }
+
+  async function discardDraft() {
+    if (!draft) return;
+    if (!confirm('Discard this draft and go back to the live version of the page?')) return;
+
+    try {
+      setError(null);
+      await discardPageDraft(draft.id);
+      await loadSections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard draft');
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -357,7 +439,10 @@ export default function VisualPageBuilder() {
         <div className="flex items-center gap-3">
           <select
             value={selectedPage}
-            onChange={(e) => setSelectedPage(e.target.value)}
+            onChange={(e) => {
+              if (unsaved && !confirm('Discard unsaved changes to this page?')) return;
+              setSelectedPage(e.target.value);
+            }}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
           >
             <option value="home">Homepage</option>
@@ -379,16 +464,75 @@ export default function VisualPageBuilder() {
             Add Section
           </button>
           <button
-            onClick={saveSections}
-            disabled={saving}
-            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+            onClick={() => setShowHistory(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <History size={20} />
+            History
+          </button>
+          <button
+            onClick={saveDraft}
+            disabled={saving || publishing}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 transition-colors"
           >
             <Save size={20} />
-            {saving ? 'Saving...' : 'Save Page'}
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+          <button
+            onClick={publishDraft}
+            disabled={saving || publishing || (!draft && !unsaved)}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+          >
+            <Upload size={20} />
+            {publishing ? 'Publishing...' : 'Publish'}
           </button>
         </div>
       </div>
 
+      <div
+        className={`flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-lg border text-sm ${
+          draft || unsaved ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-gray-50 border-gray-200 text-gray-600'
+        }`}
+      >
+        <div className="flex items-center gap-2">
+          {draft || unsaved ? (
+            <span>
+              <strong>Draft</strong>
+              {unsaved || !draft
+                ? ' — unsaved changes'
+                : ` — saved ${new Date(draft.updated_at).toLocaleString()}`}
+              . Visitors still see the published version.
+            </span>
+          ) : (
+            <span>Showing the published page. Edits are saved as a draft until you publish.</span>
+          )}
+          {scheduledFor && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-100 text-blue-800">
+              <Clock size={14} />
+              Publishes {new Date(scheduledFor).toLocaleString()}
+            </span>
+          )}
+        </div>
+        {draft && (
+          <div className="flex items-center gap-3">
+            {siteUrl && (
+              <a
+                href={buildPreviewUrl(siteUrl, selectedPage, draft.preview_token)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 font-medium text-blue-700 hover:text-blue-800"
+              >
+                <ExternalLink size={14} />
+                Preview draft
+              </a>
+            )}
+            <button onClick={discardDraft} className="font-medium text-red-700 hover:text-red-800">
+              Discard draft
+            </button>
+          </div>
+        )}
+      </div>
+
       {showTemplates && (
         <div className="bg-white rounded-lg border-2 border-purple-200 p-6">
           <TemplateSelector
@@ -467,6 +611,16 @@ export default function VisualPageBuilder() {
         )}
       </div>
 
+      {showHistory && (
+        <PageVersionHistory
+          tenantId={tenantId}
+          pageSlug={selectedPage}
+          draftSections={draft || unsaved ? sections : null}
+          onClose={() => setShowHistory(false)}
+          onRestored={loadSections}
+        />
+      )}
+
       {editingSection && (
         <SectionEditorModal
           sectionType={editingSection.section_type}
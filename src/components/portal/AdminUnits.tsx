@@ -1,10 +1,26 @@
-import { useEffect, useState } from 'react';
-import { Users, Plus, TrendingUp } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, TrendingUp } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
+import { formatCurrency, formatNumber } from '../../lib/format';
+import { issueTrustUnits, loadPooledTrustFunds, trustUnitPrice, type PooledTrustFund } from '../../lib/pooledTrust';
+
+interface UnitAccount {
+  id: string;
+  investor_id: string;
+  shares_owned: number | null;
+  cost_basis: number | null;
+  capital_contributed: number | null;
+  capital_returned: number | null;
+}
 
 export default function AdminUnits() {
+  const { currentTenant, user } = useAuth();
   const [clients, setClients] = useState<any[]>([]);
-  const [trustAccount, setTrustAccount] = useState<any>(null);
+  const [funds, setFunds] = useState<PooledTrustFund[]>([]);
+  const [fundId, setFundId] = useState('');
+  const [accounts, setAccounts] = useState<UnitAccount[]>([]);
+  const [unitPrice, setUnitPrice] = useState(1);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState({
@@ -14,31 +30,46 @@ export default function AdminUnits() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
 
-  useEffect(() => {
-    loadData();
-  }, []);
+  const fund = funds.find(f => f.id === fundId);
+  const currency = fund?.base_currency || 'USD';
 
-  const loadData = async () => {
+  const loadFunds = useCallback(async () => {
+    if (!currentTenant) return;
+    const [trustFunds, clientsRes] = await Promise.all([
+      loadPooledTrustFunds(currentTenant.id),
+      supabase.from('client_profiles').select('id, full_name, email').order('full_name'),
+    ]);
+    setFunds(trustFunds);
+    setClients(clientsRes.data || []);
+    if (trustFunds.length > 0) setFundId(trustFunds[0].id);
+    else setLoading(false);
+  }, [currentTenant]);
+
+  const loadData = useCallback(async () => {
+    if (!fund) return;
     setLoading(true);
 
-    const [clientsRes, trustRes, unitsRes] = await Promise.all([
-      supabase.from('client_profiles').select('*').order('full_name'),
-      supabase.from('trust_account').select('*').maybeSingle(),
-      supabase.from('client_units').select('*, client_profiles(full_name, email)')
+    const [price, accountsRes] = await Promise.all([
+      trustUnitPrice(fund),
+      supabase
+        .from('capital_accounts')
+        .select('id, investor_id, shares_owned, cost_basis, capital_contributed, capital_returned')
+        .eq('fund_id', fund.id)
+        .eq('status', 'active'),
     ]);
 
-    const clientsWithUnits = clientsRes.data?.map((client: any) => {
-      const units = unitsRes.data?.find((u: any) => u.client_id === client.id);
-      return {
-        ...client,
-        units: units || null
-      };
-    });
-
-    setClients(clientsWithUnits || []);
-    setTrustAccount(trustRes.data);
+    setUnitPrice(price);
+    setAccounts((accountsRes.data || []) as UnitAccount[]);
     setLoading(false);
-  };
+  }, [fund]);
+
+  useEffect(() => {
+    loadFunds();
+  }, [loadFunds]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
 
   const handleIssueUnits = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -59,86 +90,19 @@ export default function AdminUnits() {
       return;
     }
 
-    const navPerUnit = trustAccount?.current_nav_per_unit || 1.00;
-    const unitsToIssue = amount / navPerUnit;
-
-    const { data: existingUnits } = await supabase
-      .from('client_units')
-      .select('*')
-      .eq('client_id', formData.client_id)
-      .eq('trust_account_id', trustAccount.id)
-      .maybeSingle();
-
-    if (existingUnits) {
-      const newTotalUnits = existingUnits.units_owned + unitsToIssue;
-      const newCostBasis = existingUnits.cost_basis + amount;
-      const newAvgCostPerUnit = newCostBasis / newTotalUnits;
-
-      const { error: updateError } = await supabase
-        .from('client_units')
-        .update({
-          units_owned: newTotalUnits,
-          cost_basis: newCostBasis,
-          cost_basis_per_unit: newAvgCostPerUnit,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingUnits.id);
-
-      if (updateError) {
-        setError('Failed to update units');
-        setSubmitting(false);
-        return;
-      }
-    } else {
-      const { error: insertError } = await supabase
-        .from('client_units')
-        .insert({
-          client_id: formData.client_id,
-          trust_account_id: trustAccount.id,
-          units_owned: unitsToIssue,
-          cost_basis: amount,
-          cost_basis_per_unit: navPerUnit,
-          purchase_date: new Date().toISOString(),
-        });
-
-      if (insertError) {
-        setError('Failed to issue units');
-        setSubmitting(false);
-        return;
-      }
-    }
-
-    await supabase
-      .from('unit_transactions')
-      .insert({
-        client_id: formData.client_id,
-        trust_account_id: trustAccount.id,
-        transaction_type: 'subscription',
-        units: unitsToIssue,
-        amount: amount,
-        nav_per_unit: navPerUnit,
-        transaction_date: new Date().toISOString(),
-        status: 'completed',
+    try {
+      await issueTrustUnits({
+        tenantId: currentTenant!.id,
+        fund: fund!,
+        investorId: formData.client_id,
+        amount,
+        createdBy: user?.id,
       });
-
-    const newTotalUnits = (trustAccount?.total_units_outstanding || 0) + unitsToIssue;
-    await supabase
-      .from('trust_account')
-      .update({
-        total_units_outstanding: newTotalUnits,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', trustAccount.id);
-
-    const currentValue = unitsToIssue * navPerUnit;
-    await supabase
-      .from('client_profiles')
-      .update({
-        total_invested: amount,
-        current_value: currentValue,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', formData.client_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue units');
+      setSubmitting(false);
+      return;
+    }
 
     setShowForm(false);
     setFormData({ client_id: '', amount: '' });
@@ -154,12 +118,38 @@ export default function AdminUnits() {
     );
   }
 
+  if (!fund) {
+    return (
+      <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-12 text-center text-slate-400">
+        No pooled trust fund is set up for this tenant.
+      </div>
+    );
+  }
+
+  const unitsOutstanding = accounts.reduce((sum, a) => sum + Number(a.shares_owned || 0), 0);
+  const holders = clients
+    .map((client) => ({ ...client, account: accounts.find((a) => a.investor_id === client.id) || null }))
+    .sort((a, b) => Number(!!b.account) - Number(!!a.account));
+
   return (
     <div className="space-y-8">
       <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-light text-white">
-          Unit <span className="font-semibold">Management</span>
-        </h2>
+        <div className="flex items-center gap-4">
+          <h2 className="text-2xl font-light text-white">
+            Unit <span className="font-semibold">Management</span>
+          </h2>
+          {funds.length > 1 && (
+            <select
+              value={fundId}
+              onChange={(e) => setFundId(e.target.value)}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded text-white focus:outline-none focus:border-cyan-500"
+            >
+              {funds.map(f => (
+                <option key={f.id} value={f.id}>{f.fund_name}</option>
+              ))}
+            </select>
+          )}
+        </div>
         <button
           onClick={() => setShowForm(!showForm)}
           className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-cyan-600 to-blue-600 text-white rounded font-medium hover:from-cyan-500 hover:to-blue-500 transition-all duration-200"
@@ -169,28 +159,26 @@ export default function AdminUnits() {
         </button>
       </div>
 
-      {trustAccount && (
-        <div className="grid grid-cols-3 gap-6">
-          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-            <div className="text-sm text-slate-400 mb-2">Total Trust AUM</div>
-            <div className="text-3xl font-bold text-white">
-              ${trustAccount.total_aum.toLocaleString()}
-            </div>
+      <div className="grid grid-cols-3 gap-6">
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+          <div className="text-sm text-slate-400 mb-2">Total Trust AUM</div>
+          <div className="text-3xl font-bold text-white">
+            {formatCurrency(unitsOutstanding * unitPrice, currency, 0)}
           </div>
-          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-            <div className="text-sm text-slate-400 mb-2">Total Units Outstanding</div>
-            <div className="text-3xl font-bold text-white">
-              {trustAccount.total_units_outstanding.toLocaleString(undefined, { maximumFractionDigits: 2 })}
-            </div>
+        </div>
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+          <div className="text-sm text-slate-400 mb-2">Total Units Outstanding</div>
+          <div className="text-3xl font-bold text-white">
+            {formatNumber(unitsOutstanding, 2)}
           </div>
-          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-            <div className="text-sm text-slate-400 mb-2">Current NAV/Unit</div>
-            <div className="text-3xl font-bold text-white">
-              ${trustAccount.current_nav_per_unit.toFixed(4)}
-            </div>
+        </div>
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+          <div className="text-sm text-slate-400 mb-2">Current NAV/Unit</div>
+          <div className="text-3xl font-bold text-white">
+            {formatCurrency(unitPrice, currency, 4)}
           </div>
         </div>
-      )}
+      </div>
 
       {showForm && (
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
@@ -218,7 +206,7 @@ export default function AdminUnits() {
 
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-2">
-                Investment Amount ($)
+                Investment Amount ({currency})
               </label>
               <input
                 type="number"
@@ -230,9 +218,9 @@ export default function AdminUnits() {
                 className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500 transition-colors"
                 placeholder="0.00"
               />
-              {formData.amount && trustAccount && (
+              {formData.amount && (
                 <div className="mt-2 text-sm text-slate-400">
-                  Will issue {(parseFloat(formData.amount) / trustAccount.current_nav_per_unit).toFixed(4)} units at ${trustAccount.current_nav_per_unit.toFixed(4)}/unit
+                  Will issue {formatNumber(parseFloat(formData.amount) / unitPrice, 4)} units at {formatCurrency(unitPrice, currency, 4)}/unit
                 </div>
               )}
             </div>
@@ -266,7 +254,7 @@ export default function AdminUnits() {
       <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
         <h3 className="text-xl font-semibold text-white mb-6">Client Allocations</h3>
 
-        {clients.length === 0 ? (
+        {holders.length === 0 ? (
           <div className="text-center py-12 text-slate-500">
             No clients found
           </div>
@@ -284,8 +272,8 @@ export default function AdminUnits() {
                 </tr>
               </thead>
               <tbody>
-                {clients.map((client) => {
-                  if (!client.units) {
+                {holders.map((client) => {
+                  if (!client.account) {
                     return (
                       <tr key={client.id} className="border-b border-slate-800/50">
                         <td className="py-4 px-4 text-white">{client.full_name}</td>
@@ -294,12 +282,12 @@ export default function AdminUnits() {
                     );
                   }
 
-                  const currentValue = client.units.units_owned * (trustAccount?.current_nav_per_unit || 1);
-                  const gainLoss = currentValue - client.units.cost_basis;
-                  const returnPct = client.units.cost_basis > 0 ? (gainLoss / client.units.cost_basis) * 100 : 0;
-                  const ownershipPct = trustAccount?.total_units_outstanding > 0
-                    ? (client.units.units_owned / trustAccount.total_units_outstanding) * 100
-                    : 0;
+                  const units = Number(client.account.shares_owned || 0);
+                  const costBasis = Number(client.account.cost_basis || 0);
+                  const currentValue = units * unitPrice;
+                  const gainLoss = currentValue - costBasis;
+                  const returnPct = costBasis > 0 ? (gainLoss / costBasis) * 100 : 0;
+                  const ownershipPct = unitsOutstanding > 0 ? (units / unitsOutstanding) * 100 : 0;
 
                   return (
                     <tr key={client.id} className="border-b border-slate-800/50 hover:bg-slate-800/30 transition-colors">
@@ -308,13 +296,13 @@ export default function AdminUnits() {
                         <div className="text-sm text-slate-400">{client.email}</div>
                       </td>
                       <td className="py-4 px-4 text-right text-white">
-                        {client.units.units_owned.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {formatNumber(units, 2)}
                       </td>
                       <td className="py-4 px-4 text-right text-white">
-                        ${client.units.cost_basis.toLocaleString()}
+                        {formatCurrency(costBasis, currency)}
                       </td>
                       <td className="py-4 px-4 text-right text-white">
-                        ${currentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {formatCurrency(currentValue, currency)}
                       </td>
                       <td className="py-4 px-4 text-right text-white">
                         {ownershipPct.toFixed(2)}%
@@ -1,19 +1,33 @@
 import { useEffect, useState } from 'react';
-import { TrendingUp, TrendingDown, DollarSign, Calendar, PieChart, RefreshCw, Percent } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { TrendingUp, TrendingDown, DollarSign, PieChart, Landmark, ArrowDownCircle, ArrowUpCircle, Coins } from 'lucide-react';
 import { useAuth } from '../../lib/auth';
+import { formatCurrency, formatDate, formatNumber } from '../../lib/format';
+import {
+  POOLED_TRUST_FUND_TYPE,
+  loadInvestorPortfolio,
+  loadTrustHoldings,
+  type InvestorAccount,
+  type InvestorPortfolio,
+  type TrustHolding,
+} from '../../lib/investorPortfolio';
+import InvestorStatementList from './InvestorStatementList';
 
-interface DashboardProps {
-  profile: any;
-}
+const TRANSACTION_LABELS: Record<string, string> = {
+  contribution: 'Contribution',
+  redemption: 'Redemption',
+  distribution: 'Distribution',
+  transfer_in: 'Transfer in',
+  transfer_out: 'Transfer out',
+  fee: 'Fee',
+  adjustment: 'Adjustment',
+};
 
-export default function Dashboard({ profile }: DashboardProps) {
+export default function Dashboard() {
   const { user } = useAuth();
-  const [clientUnits, setClientUnits] = useState<any>(null);
-  const [trustAccount, setTrustAccount] = useState<any>(null);
-  const [trustPositions, setTrustPositions] = useState<any[]>([]);
+  const [portfolio, setPortfolio] = useState<InvestorPortfolio | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [holdings, setHoldings] = useState<TrustHolding[]>([]);
   const [loading, setLoading] = useState(true);
-  const [syncing, setSyncing] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -21,32 +35,21 @@ export default function Dashboard({ profile }: DashboardProps) {
     }
   }, [user]);
 
+  const selected = portfolio?.accounts.find(a => a.id === selectedId) || null;
+
+  useEffect(() => {
+    setHoldings([]);
+    if (selected?.fund.type === POOLED_TRUST_FUND_TYPE) {
+      loadTrustHoldings(selected)
+        .then(setHoldings)
+        .catch(err => console.warn('Trust holdings load error:', err));
+    }
+  }, [selected]);
+
   const loadData = async () => {
     setLoading(true);
     try {
-      const [unitsRes, trustRes, positionsRes] = await Promise.all([
-        supabase
-          .from('client_units')
-          .select('*')
-          .eq('client_id', user?.id)
-          .maybeSingle(),
-        supabase
-          .from('trust_account')
-          .select('*')
-          .maybeSingle(),
-        supabase
-          .from('trust_positions')
-          .select('*')
-          .order('market_value', { ascending: false })
-      ]);
-
-      if (unitsRes.error) throw unitsRes.error;
-      if (trustRes.error) throw trustRes.error;
-      if (positionsRes.error) throw positionsRes.error;
-
-      setClientUnits(unitsRes.data);
-      setTrustAccount(trustRes.data);
-      setTrustPositions(positionsRes.data || []);
+      setPortfolio(await loadInvestorPortfolio(user!.id));
     } catch (err) {
       console.warn('Dashboard load error:', err);
     } finally {
@@ -54,29 +57,6 @@ export default function Dashboard({ profile }: DashboardProps) {
     }
   };
 
-  const handleManualSync = async () => {
-    setSyncing(true);
-    try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ibkr-sync-portfolio`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (response.ok) {
-        await loadData();
-      }
-    } catch (error) {
-      console.error('Sync failed:', error);
-    }
-    setSyncing(false);
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -85,45 +65,39 @@ export default function Dashboard({ profile }: DashboardProps) {
     );
   }
 
-  if (!clientUnits || !trustAccount) {
+  if (!portfolio || portfolio.accounts.length === 0) {
     return (
       <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-12 text-center">
         <PieChart className="w-12 h-12 text-slate-600 mx-auto mb-4" />
-        <p className="text-slate-400 mb-4">No units allocated yet. Contact your account manager to complete setup.</p>
+        <p className="text-slate-400 mb-4">No investments on file yet. Contact your account manager to complete setup.</p>
       </div>
     );
   }
 
-  const currentValue = clientUnits.units_owned * trustAccount.current_nav_per_unit;
-  const totalGainLoss = currentValue - clientUnits.cost_basis;
-  const totalReturn = clientUnits.cost_basis > 0 ? ((totalGainLoss / clientUnits.cost_basis) * 100) : 0;
-  const ownershipPercentage = trustAccount.total_units_outstanding > 0
-    ? (clientUnits.units_owned / trustAccount.total_units_outstanding) * 100
-    : 0;
+  const [primary, ...otherCurrencies] = portfolio.totals;
+  const totalReturn = primary.contributed > 0 ? (primary.gainLoss / primary.contributed) * 100 : 0;
+  const latestNav = portfolio.accounts
+    .map(a => a.navDate)
+    .filter((d): d is string => !!d)
+    .sort()
+    .pop();
+
+  const transactions = portfolio.transactions.filter(t => !selected || t.accountId === selected.id).slice(0, 15);
+  const distributions = portfolio.distributions.filter(d => !selected || d.accountId === selected.id).slice(0, 10);
 
-  const lastSyncTime = trustAccount.last_sync_at
-    ? new Date(trustAccount.last_sync_at).toLocaleString()
-    : 'Never';
+  const accountLabel = (account: InvestorAccount) =>
+    account.shareClass ? `${account.fund.name} · ${account.shareClass.name}` : account.fund.name;
 
   return (
     <div className="space-y-8">
-      <div className="flex justify-between items-center">
-        <div>
-          <h2 className="text-2xl font-light text-white mb-1">
-            Portfolio <span className="font-semibold">Overview</span>
-          </h2>
-          <p className="text-sm text-slate-400">
-            Last synced: {lastSyncTime}
-          </p>
-        </div>
-        <button
-          onClick={handleManualSync}
-          disabled={syncing}
-          className="flex items-center space-x-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
-          <span>{syncing ? 'Syncing...' : 'Refresh Data'}</span>
-        </button>
+      <div>
+        <h2 className="text-2xl font-light text-white mb-1">
+          Portfolio <span className="font-semibold">Overview</span>
+        </h2>
+        <p className="text-sm text-slate-400">
+          {portfolio.accounts.length} account{portfolio.accounts.length === 1 ? '' : 's'}
+          {latestNav && ` · Valued at approved NAVs through ${formatDate(latestNav, 'short')}`}
+        </p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -133,90 +107,198 @@ export default function Dashboard({ profile }: DashboardProps) {
             <DollarSign className="w-5 h-5 text-cyan-400" />
           </div>
           <div className="text-3xl font-bold text-white mb-1">
-            ${currentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            {formatCurrency(primary.currentValue, primary.currency)}
           </div>
-          <div className={`text-sm flex items-center ${totalGainLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-            {totalGainLoss >= 0 ? <TrendingUp className="w-4 h-4 mr-1" /> : <TrendingDown className="w-4 h-4 mr-1" />}
-            {totalReturn >= 0 ? '+' : ''}{totalReturn.toFixed(2)}%
+          <div className={`text-sm flex items-center ${primary.gainLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {primary.gainLoss >= 0 ? <TrendingUp className="w-4 h-4 mr-1" /> : <TrendingDown className="w-4 h-4 mr-1" />}
+            {formatCurrency(primary.gainLoss, primary.currency)} ({totalReturn >= 0 ? '+' : ''}{totalReturn.toFixed(2)}%)
           </div>
         </div>
 
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
           <div className="flex items-center justify-between mb-4">
-            <div className="text-sm text-slate-400">Units Owned</div>
-            <PieChart className="w-5 h-5 text-cyan-400" />
+            <div className="text-sm text-slate-400">Commitments</div>
+            <Landmark className="w-5 h-5 text-cyan-400" />
           </div>
           <div className="text-3xl font-bold text-white mb-1">
-            {clientUnits.units_owned.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            {formatCurrency(primary.commitment, primary.currency, 0)}
           </div>
           <div className="text-sm text-slate-500">
-            NAV: ${trustAccount.current_nav_per_unit.toFixed(4)}/unit
+            {formatCurrency(primary.called, primary.currency, 0)} called · {formatCurrency(primary.unfunded, primary.currency, 0)} unfunded
           </div>
         </div>
 
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
           <div className="flex items-center justify-between mb-4">
-            <div className="text-sm text-slate-400">Cost Basis</div>
-            <Calendar className="w-5 h-5 text-cyan-400" />
+            <div className="text-sm text-slate-400">Net Invested</div>
+            <ArrowDownCircle className="w-5 h-5 text-cyan-400" />
           </div>
           <div className="text-3xl font-bold text-white mb-1">
-            ${clientUnits.cost_basis.toLocaleString()}
+            {formatCurrency(primary.contributed - primary.returned, primary.currency, 0)}
           </div>
           <div className="text-sm text-slate-500">
-            ${clientUnits.cost_basis_per_unit.toFixed(4)}/unit
+            {formatCurrency(primary.contributed, primary.currency, 0)} in · {formatCurrency(primary.returned, primary.currency, 0)} returned
           </div>
         </div>
 
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
           <div className="flex items-center justify-between mb-4">
-            <div className="text-sm text-slate-400">Trust Ownership</div>
-            <Percent className="w-5 h-5 text-cyan-400" />
+            <div className="text-sm text-slate-400">Distributions Paid</div>
+            <Coins className="w-5 h-5 text-cyan-400" />
           </div>
           <div className="text-3xl font-bold text-white mb-1">
-            {ownershipPercentage.toFixed(2)}%
+            {formatCurrency(primary.distributionsPaid, primary.currency)}
           </div>
           <div className="text-sm text-slate-500">
-            Of ${trustAccount.total_aum.toLocaleString()} AUM
+            {portfolio.distributions.filter(d => d.status === 'pending').length} pending
           </div>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {otherCurrencies.length > 0 && (
+        <div className="text-sm text-slate-400">
+          Also held:{' '}
+          {otherCurrencies.map(t => (
+            <span key={t.currency} className="mr-4">
+              {formatCurrency(t.currentValue, t.currency)} ({formatCurrency(t.unfunded, t.currency, 0)} unfunded)
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+        <h3 className="text-xl font-semibold text-white mb-6">Your Accounts</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-800">
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Fund</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Units</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">NAV / Unit</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Value</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Commitment</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Unfunded</th>
+                <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Gain / Loss</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.accounts.map(account => (
+                <tr
+                  key={account.id}
+                  onClick={() => setSelectedId(selectedId === account.id ? null : account.id)}
+                  className={`border-b border-slate-800/50 cursor-pointer transition-colors ${
+                    selectedId === account.id ? 'bg-cyan-500/10' : 'hover:bg-slate-800/30'
+                  }`}
+                >
+                  <td className="py-4 px-4">
+                    <div className="text-white font-medium">{accountLabel(account)}</div>
+                    <div className="text-sm text-slate-400">
+                      {account.accountNumber}
+                      {account.fund.type === POOLED_TRUST_FUND_TYPE && ' · Pooled trust'}
+                    </div>
+                  </td>
+                  <td className="py-4 px-4 text-right text-white">{formatNumber(account.sharesOwned, 4)}</td>
+                  <td className="py-4 px-4 text-right">
+                    {account.navPerShare !== null ? (
+                      <>
+                        <div className="text-white">{formatCurrency(account.navPerShare, account.fund.currency, 4)}</div>
+                        <div className="text-xs text-slate-500">{formatDate(account.navDate, 'short')}</div>
+                      </>
+                    ) : (
+                      <span className="text-slate-500">Pending</span>
+                    )}
+                  </td>
+                  <td className="py-4 px-4 text-right">
+                    <div className="text-white">{formatCurrency(account.currentValue, account.fund.currency)}</div>
+                    {account.valuedAtCost && <div className="text-xs text-slate-500">At cost</div>}
+                  </td>
+                  <td className="py-4 px-4 text-right text-white">
+                    {account.commitment > 0 ? formatCurrency(account.commitment, account.fund.currency, 0) : '—'}
+                  </td>
+                  <td className="py-4 px-4 text-right text-white">
+                    {account.commitment > 0 ? formatCurrency(account.unfunded, account.fund.currency, 0) : '—'}
+                  </td>
+                  <td className={`py-4 px-4 text-right ${account.gainLoss >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCurrency(account.gainLoss, account.fund.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && holdings.length > 0 && (
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-          <h3 className="text-xl font-semibold text-white mb-6">Your Proportional Holdings</h3>
+          <h3 className="text-xl font-semibold text-white mb-1">Your Proportional Holdings</h3>
+          <p className="text-sm text-slate-400 mb-6">
+            {accountLabel(selected)} · {selected.totalShares ? ((selected.sharesOwned / selected.totalShares) * 100).toFixed(2) : '0.00'}% of units outstanding
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {holdings.map(position => {
+              const positionReturn = position.averageCost > 0
+                ? ((position.price - position.averageCost) / position.averageCost) * 100
+                : 0;
 
-          {trustPositions.length === 0 ? (
-            <div className="text-center py-12 text-slate-500">
-              No positions in trust portfolio
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {trustPositions.map((position) => {
-                const clientShare = (position.market_value * ownershipPercentage) / 100;
-                const clientQuantity = (position.quantity * ownershipPercentage) / 100;
-                const positionReturn = position.average_cost > 0
-                  ? ((position.current_price - position.average_cost) / position.average_cost) * 100
-                  : 0;
+              return (
+                <div key={position.id} className="p-4 bg-slate-800/50 border border-slate-700/50 rounded-lg">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <div className="font-semibold text-white text-lg">{position.symbol}</div>
+                      <div className="text-sm text-slate-400">
+                        {formatNumber(position.shareQuantity, 2)} of {formatNumber(position.quantity, 0)} shares
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-semibold text-white">{formatCurrency(position.shareValue, selected.fund.currency)}</div>
+                      <div className={`text-sm ${positionReturn >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {positionReturn >= 0 ? '+' : ''}{positionReturn.toFixed(2)}%
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex justify-between text-sm text-slate-500">
+                    <span>Price: {formatCurrency(position.price, selected.fund.currency)}</span>
+                    <span>Avg Cost: {formatCurrency(position.averageCost, selected.fund.currency)}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+          <h3 className="text-xl font-semibold text-white mb-6">
+            Transactions{selected && <span className="text-sm font-normal text-slate-400"> · {accountLabel(selected)}</span>}
+          </h3>
+          {transactions.length === 0 ? (
+            <div className="text-center py-12 text-slate-500">No transactions yet</div>
+          ) : (
+            <div className="space-y-3">
+              {transactions.map(txn => {
+                const inflow = txn.type === 'contribution' || txn.type === 'transfer_in';
                 return (
-                  <div key={position.id} className="p-4 bg-slate-800/50 border border-slate-700/50 rounded-lg">
-                    <div className="flex justify-between items-start mb-2">
+                  <div key={txn.id} className="flex items-center justify-between p-3 bg-slate-800/50 border border-slate-700/50 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {inflow
+                        ? <ArrowDownCircle className="w-5 h-5 text-green-400" />
+                        : <ArrowUpCircle className="w-5 h-5 text-amber-400" />}
                       <div>
-                        <div className="font-semibold text-white text-lg">{position.symbol}</div>
-                        <div className="text-sm text-slate-400">
-                          {clientQuantity.toFixed(2)} shares ({ownershipPercentage.toFixed(2)}% of {position.quantity.toLocaleString()})
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <div className="font-semibold text-white">${clientShare.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-                        <div className={`text-sm ${positionReturn >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {positionReturn >= 0 ? '+' : ''}{positionReturn.toFixed(2)}%
+                        <div className="text-white">{TRANSACTION_LABELS[txn.type] || txn.type}</div>
+                        <div className="text-xs text-slate-500">
+                          {formatDate(txn.date, 'short')} · {txn.fundName}
+                          {txn.status !== 'settled' && <span className="ml-1 capitalize text-amber-400">· {txn.status}</span>}
                         </div>
                       </div>
                     </div>
-                    <div className="flex justify-between text-sm text-slate-500">
-                      <span>Price: ${position.current_price.toFixed(2)}</span>
-                      <span>Avg Cost: ${position.average_cost.toFixed(2)}</span>
+                    <div className="text-right">
+                      <div className="text-white">{formatCurrency(txn.amount, txn.currency)}</div>
+                      {txn.shares ? (
+                        <div className="text-xs text-slate-500">
+                          {formatNumber(txn.shares, 4)} units{txn.pricePerShare ? ` @ ${formatCurrency(txn.pricePerShare, txn.currency, 4)}` : ''}
+                        </div>
+                      ) : null}
                     </div>
                   </div>
                 );
@@ -226,43 +308,33 @@ export default function Dashboard({ profile }: DashboardProps) {
         </div>
 
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-          <h3 className="text-xl font-semibold text-white mb-6">Trust Summary</h3>
-
-          <div className="space-y-6">
-            <div className="p-4 bg-slate-800/50 border border-slate-700/50 rounded-lg">
-              <div className="text-sm text-slate-400 mb-1">Total Trust AUM</div>
-              <div className="text-2xl font-bold text-white">
-                ${trustAccount.total_aum.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-              </div>
-            </div>
-
-            <div className="p-4 bg-slate-800/50 border border-slate-700/50 rounded-lg">
-              <div className="text-sm text-slate-400 mb-1">Total Units Outstanding</div>
-              <div className="text-2xl font-bold text-white">
-                {trustAccount.total_units_outstanding.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-              </div>
-            </div>
-
-            <div className="p-4 bg-slate-800/50 border border-slate-700/50 rounded-lg">
-              <div className="text-sm text-slate-400 mb-1">Current NAV per Unit</div>
-              <div className="text-2xl font-bold text-white">
-                ${trustAccount.current_nav_per_unit.toFixed(4)}
-              </div>
-            </div>
-
-            <div className="p-4 bg-cyan-500/10 border border-cyan-500/30 rounded-lg">
-              <div className="text-sm text-cyan-300 mb-2">Performance Calculation</div>
-              <div className="text-xs text-slate-400 space-y-1">
-                <div>Your Units: {clientUnits.units_owned.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
-                <div>× Current NAV: ${trustAccount.current_nav_per_unit.toFixed(4)}</div>
-                <div className="pt-1 border-t border-cyan-500/30">
-                  = Current Value: ${currentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          <h3 className="text-xl font-semibold text-white mb-6">
+            Distributions{selected && <span className="text-sm font-normal text-slate-400"> · {accountLabel(selected)}</span>}
+          </h3>
+          {distributions.length === 0 ? (
+            <div className="text-center py-12 text-slate-500">No distributions yet</div>
+          ) : (
+            <div className="space-y-3">
+              {distributions.map(dist => (
+                <div key={dist.id} className="flex items-center justify-between p-3 bg-slate-800/50 border border-slate-700/50 rounded-lg">
+                  <div>
+                    <div className="text-white capitalize">{dist.type.replace(/_/g, ' ')}</div>
+                    <div className="text-xs text-slate-500">
+                      {formatDate(dist.paymentDate, 'short')} · {dist.fundName} · {formatNumber(dist.sharesHeld, 2)} units @ {formatCurrency(dist.amountPerShare, dist.currency, 4)}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-white">{formatCurrency(dist.amount, dist.currency)}</div>
+                    <div className={`text-xs capitalize ${dist.status === 'paid' ? 'text-green-400' : 'text-amber-400'}`}>{dist.status}</div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
-          </div>
+          )}
         </div>
       </div>
+
+      <InvestorStatementList />
     </div>
   );
 }
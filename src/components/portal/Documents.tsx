@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { FileText, Download, Calendar } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import InvestorStatementList from './InvestorStatementList';
 
 export default function Documents() {
   const [documents, setDocuments] = useState<any[]>([]);
@@ -85,6 +86,8 @@ export default function Documents() {
         </div>
       </div>
 
+      <InvestorStatementList />
+
       {documents.length === 0 ? (
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-12 text-center">
           <FileText className="w-12 h-12 text-slate-600 mx-auto mb-4" />
@@ -1,17 +1,412 @@
-import { ShoppingCart } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { ShoppingCart, Gavel, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../lib/auth';
+import { formatCurrency, formatDate, formatDateTime, formatNumber } from '../../lib/format';
+import {
+  BookDepth,
+  BookOrder,
+  DepthLevel,
+  ExchangeBook,
+  OrderSide,
+  cancelBookOrder,
+  getBookDepth,
+  placeBookOrder,
+} from '../../lib/exchangeOrderBook';
 
 interface ExchangeProps {
   profile: unknown;
 }
 
+type PortalBook = ExchangeBook & {
+  funds: { fund_name: string; base_currency: string } | null;
+  share_classes: { class_name: string } | null;
+};
+
 export default function Exchange(_props: ExchangeProps) {
+  const { user } = useAuth();
+  const [books, setBooks] = useState<PortalBook[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [depth, setDepth] = useState<BookDepth | null>(null);
+  const [myOrders, setMyOrders] = useState<BookOrder[]>([]);
+  const [unitsHeld, setUnitsHeld] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState({
+    side: 'bid' as OrderSide,
+    quantity: '',
+    limit_price: '',
+    expires_at: '',
+  });
+
+  useEffect(() => {
+    if (user) {
+      loadBooks();
+    }
+  }, [user]);
+
+  const selected = books.find(b => b.id === selectedId);
+  const currency = selected?.funds?.base_currency || 'USD';
+
+  const loadBooks = async () => {
+    const { data } = await supabase
+      .from('exchange_books')
+      .select('*, funds(fund_name, base_currency), share_classes(class_name)')
+      .eq('is_active', true)
+      .order('name');
+
+    const list = (data || []) as PortalBook[];
+    setBooks(list);
+    if (list.length > 0) setSelectedId(list[0].id);
+    setLoading(false);
+  };
+
+  const loadBook = useCallback(async () => {
+    const book = books.find(b => b.id === selectedId);
+    if (!book) return;
+
+    let accounts = supabase
+      .from('capital_accounts')
+      .select('shares_owned')
+      .eq('investor_id', user?.id)
+      .eq('fund_id', book.fund_id)
+      .eq('status', 'active');
+    if (book.share_class_id) accounts = accounts.eq('share_class_id', book.share_class_id);
+
+    const [depthData, ordersRes, accountsRes] = await Promise.all([
+      getBookDepth(book.id).catch(() => null),
+      supabase
+        .from('exchange_book_orders')
+        .select('*')
+        .eq('book_id', book.id)
+        .eq('client_id', user?.id)
+        .order('created_at', { ascending: false }),
+      accounts.order('shares_owned', { ascending: false }).limit(1),
+    ]);
+
+    setDepth(depthData);
+    setMyOrders(ordersRes.data || []);
+    setUnitsHeld(Number(accountsRes.data?.[0]?.shares_owned || 0));
+  }, [books, selectedId, user]);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadBook();
+    }
+  }, [selectedId, loadBook]);
+
+  const isLive = (order: BookOrder) =>
+    (order.status === 'open' || order.status === 'partially_filled') &&
+    (!order.expires_at || new Date(order.expires_at) > new Date());
+
+  const unitsOnOffer = myOrders
+    .filter(o => o.side === 'ask' && isLive(o))
+    .reduce((sum, o) => sum + Number(o.quantity) - Number(o.quantity_filled), 0);
+  const unitsAvailable = Math.max(unitsHeld - unitsOnOffer, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setError('');
+
+    const quantity = parseFloat(form.quantity);
+    const limitPrice = parseFloat(form.limit_price);
+    if (!(quantity > 0) || !(limitPrice > 0)) {
+      setError('Enter a positive quantity and limit price');
+      return;
+    }
+    if (form.side === 'ask' && quantity > unitsAvailable) {
+      setError(`You have ${formatNumber(unitsAvailable, 4)} units available to sell`);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await placeBookOrder({
+        bookId: selected.id,
+        side: form.side,
+        quantity,
+        limitPrice,
+        expiresAt: form.expires_at ? new Date(`${form.expires_at}T23:59:59`) : null,
+      });
+      setForm({ ...form, quantity: '', limit_price: '' });
+      await loadBook();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (order: BookOrder) => {
+    if (!confirm('Cancel the unfilled part of this order?')) return;
+
+    try {
+      await cancelBookOrder(order.id);
+      await loadBook();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel order');
+    }
+  };
+
+  const depthTable = (levels: DepthLevel[], color: string, empty: string) => (
+    levels.length === 0 ? (
+      <div className="text-sm text-slate-500 py-4 text-center">{empty}</div>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-slate-500 text-xs border-b border-slate-800">
+            <th className="py-2 text-left font-normal">Price</th>
+            <th className="py-2 text-right font-normal">Units</th>
+            <th className="py-2 text-right font-normal">Orders</th>
+          </tr>
+        </thead>
+        <tbody>
+          {levels.map(level => (
+            <tr key={level.price} className="border-b border-slate-800/50">
+              <td className={`py-2 font-mono ${color}`}>{formatCurrency(level.price, currency)}</td>
+              <td className="py-2 text-right text-white">{formatNumber(level.quantity, 2)}</td>
+              <td className="py-2 text-right text-slate-500">{level.orders}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (books.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-center">
+        <ShoppingCart className="w-12 h-12 text-gray-600 mb-4" />
+        <h2 className="text-xl font-semibold text-gray-300 mb-2">Exchange</h2>
+        <p className="text-gray-500 text-sm max-w-xs">
+          No order books are open for trading. Contact your fund manager for access.
+        </p>
+      </div>
+    );
+  }
+
   return (
-    <div className="flex flex-col items-center justify-center py-24 text-center">
-      <ShoppingCart className="w-12 h-12 text-gray-600 mb-4" />
-      <h2 className="text-xl font-semibold text-gray-300 mb-2">Exchange</h2>
-      <p className="text-gray-500 text-sm max-w-xs">
-        The exchange feature is not available for your account. Contact your fund manager for access.
-      </p>
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-light text-white">
+          Secondary <span className="font-semibold">Exchange</span>
+        </h2>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="px-4 py-2 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+        >
+          {books.map(book => (
+            <option key={book.id} value={book.id}>{book.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {selected && (
+        <div className="grid grid-cols-4 gap-4">
+          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+            <div className="text-sm text-slate-400 mb-1">Reference NAV</div>
+            <div className="text-2xl font-semibold text-white">
+              {depth?.reference_nav != null ? formatCurrency(depth.reference_nav, currency) : '-'}
+            </div>
+            {depth?.reference_nav_date && (
+              <div className="text-xs text-slate-500 mt-1">as of {formatDate(depth.reference_nav_date, 'short')}</div>
+            )}
+          </div>
+          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+            <div className="text-sm text-slate-400 mb-1">Last Trade</div>
+            <div className="text-2xl font-semibold text-cyan-400">
+              {depth?.last_price != null ? formatCurrency(depth.last_price, currency) : '-'}
+            </div>
+          </div>
+          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+            <div className="text-sm text-slate-400 mb-1">Trading</div>
+            {selected.mode === 'auction' ? (
+              <>
+                <div className="text-lg font-semibold text-white flex items-center gap-2">
+                  <Gavel className="w-4 h-4 text-cyan-400" />
+                  <span className="capitalize">{selected.auction_frequency} auction</span>
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  Next: {selected.next_auction_date ? formatDate(selected.next_auction_date, 'short') : 'to be scheduled'}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="text-lg font-semibold text-white">Continuous</div>
+                <div className="text-xs text-slate-500 mt-1">Orders match as soon as prices cross</div>
+              </>
+            )}
+          </div>
+          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+            <div className="text-sm text-slate-400 mb-1">Units Available to Sell</div>
+            <div className="text-2xl font-semibold text-white">{formatNumber(unitsAvailable, 4)}</div>
+            {unitsOnOffer > 0 && (
+              <div className="text-xs text-slate-500 mt-1">{formatNumber(unitsOnOffer, 4)} on offer</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-6">
+        <div className="col-span-2 bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Market Depth</h3>
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <div className="text-sm font-medium text-green-400 mb-2">Bids</div>
+              {depthTable(depth?.bids || [], 'text-green-400', 'No bids')}
+            </div>
+            <div>
+              <div className="text-sm font-medium text-red-400 mb-2">Asks</div>
+              {depthTable(depth?.asks || [], 'text-red-400', 'No offers')}
+            </div>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-white">Place Order</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {(['bid', 'ask'] as const).map(side => (
+              <button
+                key={side}
+                type="button"
+                onClick={() => setForm({ ...form, side })}
+                className={`py-2 rounded text-sm font-medium transition-colors ${
+                  form.side === side
+                    ? side === 'bid' ? 'bg-green-500/20 text-green-400 border border-green-500/40' : 'bg-red-500/20 text-red-400 border border-red-500/40'
+                    : 'bg-slate-800 text-slate-400 border border-slate-700 hover:text-white'
+                }`}
+              >
+                {side === 'bid' ? 'Buy' : 'Sell'}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Units</label>
+            <input
+              type="number"
+              step="0.0001"
+              min="0"
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Limit Price ({currency})</label>
+            <input
+              type="number"
+              step="0.0001"
+              min="0"
+              value={form.limit_price}
+              onChange={(e) => setForm({ ...form, limit_price: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+              required
+            />
+            {selected?.price_band_pct && depth?.reference_nav != null && (
+              <p className="text-xs text-slate-500 mt-1">
+                Must be within {Number(selected.price_band_pct)}% of the reference NAV
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Good Until (optional)</label>
+            <input
+              type="date"
+              value={form.expires_at}
+              min={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setForm({ ...form, expires_at: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded text-white text-sm focus:ring-2 focus:ring-cyan-500"
+            />
+          </div>
+          {form.quantity && form.limit_price && (
+            <div className="text-sm text-slate-400">
+              Order value: <span className="text-white">{formatCurrency(parseFloat(form.quantity) * parseFloat(form.limit_price), currency)}</span>
+            </div>
+          )}
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded text-sm text-red-400">{error}</div>
+          )}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded font-medium text-sm transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Placing...' : `Place ${form.side === 'bid' ? 'Buy' : 'Sell'} Order`}
+          </button>
+          <p className="text-xs text-slate-500">
+            Matched trades are subject to fund transfer restrictions and settle once approved by the manager.
+          </p>
+        </form>
+      </div>
+
+      <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">My Orders</h3>
+        {myOrders.length === 0 ? (
+          <div className="text-center py-8 text-slate-400">You have no orders in this book</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-800">
+                <th className="py-2 font-normal">Placed</th>
+                <th className="py-2 font-normal">Side</th>
+                <th className="py-2 font-normal text-right">Limit</th>
+                <th className="py-2 font-normal text-right">Filled</th>
+                <th className="py-2 font-normal">Expires</th>
+                <th className="py-2 font-normal">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {myOrders.map(order => {
+                const filledPct = Number(order.quantity) > 0 ? Number(order.quantity_filled) / Number(order.quantity) * 100 : 0;
+                const expired = !isLive(order) && (order.status === 'open' || order.status === 'partially_filled');
+                return (
+                  <tr key={order.id} className="border-b border-slate-800/50">
+                    <td className="py-3 text-slate-300">{formatDateTime(order.created_at)}</td>
+                    <td className={`py-3 font-medium ${order.side === 'bid' ? 'text-green-400' : 'text-red-400'}`}>
+                      {order.side === 'bid' ? 'Buy' : 'Sell'}
+                    </td>
+                    <td className="py-3 text-right text-white font-mono">{formatCurrency(order.limit_price, currency)}</td>
+                    <td className="py-3 text-right">
+                      <div className="text-white">
+                        {formatNumber(Number(order.quantity_filled), 2)} / {formatNumber(Number(order.quantity), 2)}
+                      </div>
+                      <div className="w-full bg-slate-800 rounded-full h-1 mt-1">
+                        <div className="bg-cyan-500 h-1 rounded-full" style={{ width: `${filledPct}%` }}></div>
+                      </div>
+                    </td>
+                    <td className="py-3 text-slate-400">{order.expires_at ? formatDate(order.expires_at, 'short') : 'GTC'}</td>
+                    <td className="py-3 text-slate-300 capitalize">{expired ? 'expired' : order.status.replace('_', ' ')}</td>
+                    <td className="py-3 text-right">
+                      {isLive(order) && (
+                        <button
+                          onClick={() => handleCancel(order)}
+                          className="text-slate-400 hover:text-red-400 transition-colors"
+                          title="Cancel order"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { formatCurrency, formatDate } from '../../lib/format';
+import { reportFileUrl } from '../../lib/reportLibrary';
+
+interface PortalStatement {
+  id: string;
+  statement_type: string;
+  period_start: string;
+  period_end: string;
+  ending_balance: number | null;
+  return_percent: number | null;
+  status: string;
+  file_path: string | null;
+  sent_at: string | null;
+  fund: { fund_name: string; base_currency: string } | null;
+}
+
+/** The signed-in investor's released statements; RLS limits rows to their own accounts. */
+export default function InvestorStatementList() {
+  const [statements, setStatements] = useState<PortalStatement[]>([]);
+  const [opening, setOpening] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('investor_statements')
+        .select('id, statement_type, period_start, period_end, ending_balance, return_percent, status, file_path, sent_at, fund:funds!fund_id(fund_name, base_currency)')
+        .in('status', ['sent', 'viewed'])
+        .order('period_end', { ascending: false })
+        .limit(24);
+      if (error) {
+        console.warn('Statements load error:', error);
+        return;
+      }
+      setStatements((data || []) as PortalStatement[]);
+    };
+    load();
+  }, []);
+
+  const openStatement = async (statement: PortalStatement) => {
+    if (!statement.file_path) return;
+    setOpening(statement.id);
+    try {
+      window.open(await reportFileUrl(statement.file_path), '_blank', 'noopener');
+      if (statement.status === 'sent') {
+        await supabase.rpc('mark_investor_statement_viewed', { p_statement_id: statement.id });
+        setStatements((prev) => prev.map((s) => (s.id === statement.id ? { ...s, status: 'viewed' } : s)));
+      }
+    } catch (err) {
+      console.warn('Statement open error:', err);
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  if (statements.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-white">Account Statements</h3>
+      <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg divide-y divide-slate-800/50">
+        {statements.map((statement) => (
+          <div key={statement.id} className="flex items-center gap-4 px-6 py-4">
+            <div className="w-10 h-10 bg-cyan-500/10 rounded-lg flex items-center justify-center flex-shrink-0">
+              <FileText className="w-5 h-5 text-cyan-400" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-white font-medium truncate">
+                {statement.fund?.fund_name ?? 'Fund'} · {formatDate(statement.period_start, 'short')} – {formatDate(statement.period_end, 'short')}
+              </p>
+              <p className="text-sm text-slate-400">
+                <span className="capitalize">{statement.statement_type.replace('_', ' ')}</span> statement
+                {statement.ending_balance != null && ` · Ending balance ${formatCurrency(statement.ending_balance, statement.fund?.base_currency || 'USD')}`}
+                {statement.status === 'sent' && <span className="ml-2 text-cyan-400">New</span>}
+              </p>
+            </div>
+            {statement.file_path && (
+              <button
+                onClick={() => openStatement(statement)}
+                disabled={opening === statement.id}
+                className="flex items-center space-x-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm transition-colors disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
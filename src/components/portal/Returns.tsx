@@ -1,13 +1,26 @@
 import { useEffect, useState } from 'react';
 import { TrendingUp, TrendingDown } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../lib/auth';
+import { accountsPerformance, monthlyReturns, type AccountPerformance } from '../../lib/performanceAnalytics';
+import { formatCurrency, formatPct } from '../../lib/format';
+import { PerformanceChart } from '../shared/PerformanceChart';
+
+type Timeframe = 'all' | 'ytd' | '1y' | '3y';
+
+function timeframeStart(timeframe: Timeframe): string | undefined {
+  if (timeframe === 'all') return undefined;
+  const now = new Date();
+  if (timeframe === 'ytd') return `${now.getFullYear() - 1}-12-31`;
+  const today = now.toISOString().split('T')[0];
+  return `${now.getFullYear() - (timeframe === '1y' ? 1 : 3)}${today.slice(4)}`;
+}
 
 export default function Returns() {
   const { user } = useAuth();
-  const [returns, setReturns] = useState<any[]>([]);
+  const [accounts, setAccounts] = useState<AccountPerformance[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState('');
   const [loading, setLoading] = useState(true);
-  const [timeframe, setTimeframe] = useState<'all' | 'ytd' | '1y' | '3y'>('all');
+  const [timeframe, setTimeframe] = useState<Timeframe>('all');
 
   useEffect(() => {
     if (user) {
@@ -17,46 +30,19 @@ export default function Returns() {
 
   const loadReturns = async () => {
     setLoading(true);
-
-    let query = supabase
-      .from('performance_returns')
-      .select('*')
-      .eq('client_id', user?.id)
-      .order('period', { ascending: false });
-
-    if (timeframe !== 'all') {
-      const now = new Date();
-      let startDate = new Date();
-
-      if (timeframe === 'ytd') {
-        startDate = new Date(now.getFullYear(), 0, 1);
-      } else if (timeframe === '1y') {
-        startDate = new Date(now.setFullYear(now.getFullYear() - 1));
-      } else if (timeframe === '3y') {
-        startDate = new Date(now.setFullYear(now.getFullYear() - 3));
+    try {
+      const results = await accountsPerformance({ investorId: user!.id }, { from: timeframeStart(timeframe) });
+      setAccounts(results);
+      if (!results.some((a) => a.accountId === selectedAccount)) {
+        setSelectedAccount(results[0]?.accountId || '');
       }
-
-      query = query.gte('period', startDate.toISOString());
+    } catch (err) {
+      console.error('Error loading returns:', err);
+    } finally {
+      setLoading(false);
     }
-
-    const { data } = await query;
-    setReturns(data || []);
-    setLoading(false);
-  };
-
-  const calculateStats = () => {
-    if (returns.length === 0) return { avgReturn: 0, bestMonth: 0, worstMonth: 0, positiveMonths: 0 };
-
-    const avgReturn = returns.reduce((sum, r) => sum + r.return_percentage, 0) / returns.length;
-    const bestMonth = Math.max(...returns.map(r => r.return_percentage));
-    const worstMonth = Math.min(...returns.map(r => r.return_percentage));
-    const positiveMonths = returns.filter(r => r.return_percentage > 0).length;
-
-    return { avgReturn, bestMonth, worstMonth, positiveMonths };
   };
 
-  const stats = calculateStats();
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -65,13 +51,30 @@ export default function Returns() {
     );
   }
 
+  const account = accounts.find((a) => a.accountId === selectedAccount) || null;
+  const months = account ? monthlyReturns(account.subPeriods).reverse() : [];
+  const gain = account ? account.endingValue + account.distributed - account.contributed : 0;
+
   return (
     <div className="space-y-8">
-      <div className="flex justify-between items-center">
+      <div className="flex flex-wrap justify-between items-center gap-4">
         <h2 className="text-2xl font-light text-white">
           Performance <span className="font-semibold">Returns</span>
         </h2>
-        <div className="flex space-x-2">
+        <div className="flex flex-wrap gap-2">
+          {accounts.length > 1 && (
+            <select
+              value={selectedAccount}
+              onChange={(e) => setSelectedAccount(e.target.value)}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded text-sm text-white focus:ring-2 focus:ring-cyan-500"
+            >
+              {accounts.map((a) => (
+                <option key={a.accountId} value={a.accountId}>
+                  {a.fundName} ({a.accountNumber})
+                </option>
+              ))}
+            </select>
+          )}
           {(['all', 'ytd', '1y', '3y'] as const).map((tf) => (
             <button
               key={tf}
@@ -82,103 +85,136 @@ export default function Returns() {
                   : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
               }`}
             >
-              {tf === 'all' ? 'All Time' : tf.toUpperCase()}
+              {tf === 'all' ? 'Since Inception' : tf.toUpperCase()}
             </button>
           ))}
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-          <div className="text-sm text-slate-400 mb-2">Average Return</div>
-          <div className={`text-3xl font-bold ${stats.avgReturn >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-            {stats.avgReturn >= 0 ? '+' : ''}{stats.avgReturn.toFixed(2)}%
-          </div>
+      {!account || !account.endDate ? (
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-12 text-center text-slate-500">
+          No return data available for selected timeframe
         </div>
-
-        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-          <div className="text-sm text-slate-400 mb-2">Best Month</div>
-          <div className="text-3xl font-bold text-green-400">
-            +{stats.bestMonth.toFixed(2)}%
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+              <div className="text-sm text-slate-400 mb-2">Internal Rate of Return</div>
+              <div className={`text-3xl font-bold ${(account.irr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatPct(account.irr)}
+              </div>
+              <div className="text-xs text-slate-500 mt-2">Annualised, money-weighted</div>
+            </div>
+
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+              <div className="text-sm text-slate-400 mb-2">Time-Weighted Return</div>
+              <div className={`text-3xl font-bold ${(account.twr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatPct(account.twr)}
+              </div>
+              <div className="text-xs text-slate-500 mt-2">
+                {account.twrAnnualised !== null
+                  ? `${formatPct(account.twrAnnualised)} annualised`
+                  : 'Cumulative; not annualised under one year'}
+              </div>
+            </div>
+
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+              <div className="text-sm text-slate-400 mb-2">Gain / Loss</div>
+              <div className={`text-3xl font-bold ${gain >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatCurrency(gain, account.currency, 0)}
+              </div>
+              <div className="text-xs text-slate-500 mt-2">
+                Value {formatCurrency(account.endingValue, account.currency, 0)}
+              </div>
+            </div>
+
+            <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+              <div className="text-sm text-slate-400 mb-2">Total Value / Paid-In</div>
+              <div className="text-3xl font-bold text-white">{account.tvpi?.toFixed(2) || '-'}x</div>
+              <div className="text-xs text-slate-500 mt-2">DPI {account.dpi?.toFixed(2) || '-'}x</div>
+            </div>
           </div>
-        </div>
 
-        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-          <div className="text-sm text-slate-400 mb-2">Worst Month</div>
-          <div className="text-3xl font-bold text-red-400">
-            {stats.worstMonth.toFixed(2)}%
+          <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+            <h3 className="text-xl font-semibold text-white mb-6">Cumulative Return</h3>
+            <PerformanceChart series={account.series} />
           </div>
-        </div>
+        </>
+      )}
 
+      {accounts.length > 1 && (
         <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-          <div className="text-sm text-slate-400 mb-2">Win Rate</div>
-          <div className="text-3xl font-bold text-white">
-            {returns.length > 0 ? ((stats.positiveMonths / returns.length) * 100).toFixed(0) : 0}%
+          <h3 className="text-xl font-semibold text-white mb-6">By Account</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-800">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Fund</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Value</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">IRR</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">TWR</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">TVPI</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((a) => (
+                  <tr
+                    key={a.accountId}
+                    onClick={() => setSelectedAccount(a.accountId)}
+                    className={`border-b border-slate-800/50 cursor-pointer transition-colors ${
+                      a.accountId === selectedAccount ? 'bg-slate-800/50' : 'hover:bg-slate-800/30'
+                    }`}
+                  >
+                    <td className="py-4 px-4">
+                      <div className="text-white">{a.fundName}</div>
+                      <div className="text-xs text-slate-500 font-mono">{a.accountNumber}</div>
+                    </td>
+                    <td className="py-4 px-4 text-right text-white">{formatCurrency(a.endingValue, a.currency, 0)}</td>
+                    <td className={`py-4 px-4 text-right ${(a.irr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatPct(a.irr)}
+                    </td>
+                    <td className={`py-4 px-4 text-right ${(a.twr ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatPct(a.twr)}
+                    </td>
+                    <td className="py-4 px-4 text-right text-slate-300">{a.tvpi?.toFixed(2) || '-'}x</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         </div>
-      </div>
+      )}
 
-      <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
-        <h3 className="text-xl font-semibold text-white mb-6">Historical Returns</h3>
-
-        {returns.length === 0 ? (
-          <div className="text-center py-12 text-slate-500">
-            No return data available for selected timeframe
-          </div>
-        ) : (
+      {months.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-800/50 rounded-lg p-6">
+          <h3 className="text-xl font-semibold text-white mb-6">Monthly Returns</h3>
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead>
                 <tr className="border-b border-slate-800">
                   <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Period</th>
                   <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Return</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Portfolio Value</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Benchmark</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Outperformance</th>
                 </tr>
               </thead>
               <tbody>
-                {returns.map((returnData) => {
-                  const outperformance = returnData.benchmark_return !== null
-                    ? returnData.return_percentage - returnData.benchmark_return
-                    : null;
-
-                  return (
-                    <tr key={returnData.id} className="border-b border-slate-800/50 hover:bg-slate-800/30 transition-colors">
-                      <td className="py-4 px-4 text-white">
-                        {new Date(returnData.period).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
-                      </td>
-                      <td className="py-4 px-4 text-right">
-                        <span className={`font-semibold flex items-center justify-end ${returnData.return_percentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                          {returnData.return_percentage >= 0 ? <TrendingUp className="w-4 h-4 mr-1" /> : <TrendingDown className="w-4 h-4 mr-1" />}
-                          {returnData.return_percentage >= 0 ? '+' : ''}{returnData.return_percentage.toFixed(2)}%
-                        </span>
-                      </td>
-                      <td className="py-4 px-4 text-right text-white">
-                        ${returnData.portfolio_value.toLocaleString()}
-                      </td>
-                      <td className="py-4 px-4 text-right text-slate-400">
-                        {returnData.benchmark_return !== null
-                          ? `${returnData.benchmark_return >= 0 ? '+' : ''}${returnData.benchmark_return.toFixed(2)}%`
-                          : 'N/A'}
-                      </td>
-                      <td className="py-4 px-4 text-right">
-                        {outperformance !== null ? (
-                          <span className={outperformance >= 0 ? 'text-green-400' : 'text-red-400'}>
-                            {outperformance >= 0 ? '+' : ''}{outperformance.toFixed(2)}%
-                          </span>
-                        ) : (
-                          <span className="text-slate-500">N/A</span>
-                        )}
-                      </td>
-                    </tr>
-                  );
-                })}
+                {months.map((m) => (
+                  <tr key={m.month} className="border-b border-slate-800/50 hover:bg-slate-800/30 transition-colors">
+                    <td className="py-4 px-4 text-white">
+                      {new Date(`${m.month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                    </td>
+                    <td className="py-4 px-4 text-right">
+                      <span className={`font-semibold flex items-center justify-end ${m.return >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {m.return >= 0 ? <TrendingUp className="w-4 h-4 mr-1" /> : <TrendingDown className="w-4 h-4 mr-1" />}
+                        {formatPct(m.return)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
-        )}
-      </div>
+        </div>
+      )}
     </div>
   );
 }
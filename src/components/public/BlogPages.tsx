@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { PostCard } from './sections/BlogSection';
+import {
+  PublicBlogCategory,
+  PublicPost,
+  PublicPostSummary,
+  fetchBlogCategories,
+  fetchPostBySlug,
+  fetchPublishedPosts,
+  formatPublicDate,
+  navigatePublic,
+  renderPostHtml,
+} from '../../lib/publicContent';
+
+function Spinner() {
+  return (
+    <div
+      className="min-h-[60vh] flex items-center justify-center"
+      style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}
+    >
+      <div
+        className="w-8 h-8 border border-t-transparent rounded-full animate-spin"
+        style={{ borderColor: 'var(--color-border, #E0DBD4)', borderTopColor: 'transparent' }}
+      />
+    </div>
+  );
+}
+
+function setMetaDescription(value: string) {
+  let tag = document.querySelector('meta[name="description"]');
+  if (!tag) {
+    tag = document.createElement('meta');
+    tag.setAttribute('name', 'description');
+    document.head.appendChild(tag);
+  }
+  tag.setAttribute('content', value);
+}
+
+export function BlogIndexPage({ tenantId }: { tenantId: string }) {
+  const [category, setCategory] = useState(() => new URLSearchParams(window.location.search).get('category') || '');
+  const [categories, setCategories] = useState<PublicBlogCategory[]>([]);
+  const [posts, setPosts] = useState<PublicPostSummary[] | null>(null);
+
+  useEffect(() => {
+    fetchBlogCategories(tenantId)
+      .then(setCategories)
+      .catch((err) => console.error('Error loading categories:', err));
+  }, [tenantId]);
+
+  useEffect(() => {
+    setPosts(null);
+    fetchPublishedPosts(tenantId, { categorySlug: category || undefined })
+      .then(setPosts)
+      .catch((err) => {
+        console.error('Error loading posts:', err);
+        setPosts([]);
+      });
+  }, [tenantId, category]);
+
+  const selectCategory = (slug: string) => {
+    setCategory(slug);
+    window.history.replaceState({}, '', slug ? `/blog?category=${encodeURIComponent(slug)}` : '/blog');
+  };
+
+  return (
+    <section className="py-24 px-6 min-h-[70vh]" style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}>
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center mb-12">
+          <h1
+            className="text-4xl md:text-5xl font-bold mb-4"
+            style={{ fontFamily: 'var(--font-heading, Georgia, serif)', color: 'var(--color-text, #0A1628)' }}
+          >
+            Insights
+          </h1>
+        </div>
+
+        {categories.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2 mb-12">
+            {[{ id: '', name: 'All', slug: '' }, ...categories].map((c) => (
+              <button
+                key={c.id || 'all'}
+                onClick={() => selectCategory(c.slug)}
+                className="px-4 py-2 rounded-full text-sm font-semibold border transition-colors"
+                style={
+                  category === c.slug
+                    ? { backgroundColor: 'var(--color-primary, #0A1628)', borderColor: 'var(--color-primary, #0A1628)', color: 'var(--color-background, #FFFFFF)' }
+                    : { borderColor: 'var(--color-border, #E2E8F0)', color: 'var(--color-textSecondary, #4A5568)' }
+                }
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {posts === null ? (
+          <Spinner />
+        ) : posts.length === 0 ? (
+          <p className="text-center py-16" style={{ color: 'var(--color-textSecondary, #4A5568)' }}>
+            No posts published yet.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export function BlogArticlePage({ tenantId, slug, notFound }: { tenantId: string; slug: string; notFound: React.ReactNode }) {
+  const [post, setPost] = useState<PublicPost | null | undefined>(undefined);
+
+  useEffect(() => {
+    setPost(undefined);
+    fetchPostBySlug(tenantId, slug)
+      .then(setPost)
+      .catch((err) => {
+        console.error('Error loading post:', err);
+        setPost(null);
+      });
+  }, [tenantId, slug]);
+
+  useEffect(() => {
+    if (!post) return;
+    const previousTitle = document.title;
+    document.title = post.meta_title || post.title;
+    if (post.meta_description || post.excerpt) {
+      setMetaDescription(post.meta_description || post.excerpt || '');
+    }
+    return () => { document.title = previousTitle; };
+  }, [post]);
+
+  if (post === undefined) return <Spinner />;
+  if (post === null) return <>{notFound}</>;
+
+  return (
+    <article className="py-24 px-6" style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}>
+      <div className="max-w-3xl mx-auto">
+        <a
+          href="/blog"
+          onClick={(e) => { e.preventDefault(); navigatePublic('/blog'); }}
+          className="inline-flex items-center gap-2 text-sm font-semibold mb-10 hover:underline"
+          style={{ color: 'var(--color-accent, #C9A84C)' }}
+        >
+          <ArrowLeft size={16} /> All posts
+        </a>
+
+        {post.category && (
+          <p
+            className="text-xs font-bold uppercase tracking-wider mb-4"
+            style={{ color: 'var(--color-accent, #C9A84C)' }}
+          >
+            {post.category.name}
+          </p>
+        )}
+        <h1
+          className="text-4xl md:text-5xl font-bold mb-6 leading-tight"
+          style={{ fontFamily: 'var(--font-heading, Georgia, serif)', color: 'var(--color-text, #0A1628)' }}
+        >
+          {post.title}
+        </h1>
+        <p className="text-sm mb-10" style={{ color: 'var(--color-textLight, #718096)' }}>
+          {[post.author_name, formatPublicDate(post.published_at), post.read_time_minutes ? `${post.read_time_minutes} min read` : null]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+
+        {post.featured_image_url && (
+          <img src={post.featured_image_url} alt={post.title} className="w-full rounded-lg mb-10" />
+        )}
+
+        <div
+          className="text-lg leading-relaxed [&_p]:mb-6 [&_h2]:text-3xl [&_h2]:font-bold [&_h2]:mt-12 [&_h2]:mb-4 [&_h3]:text-2xl [&_h3]:font-bold [&_h3]:mt-10 [&_h3]:mb-3 [&_ul]:list-disc [&_ul]:pl-6 [&_ul]:mb-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_ol]:mb-6 [&_li]:mb-2 [&_a]:underline [&_blockquote]:border-l-4 [&_blockquote]:pl-6 [&_blockquote]:italic [&_blockquote]:my-8 [&_img]:rounded-lg [&_img]:my-8 [&_pre]:p-4 [&_pre]:rounded-lg [&_pre]:overflow-x-auto [&_hr]:my-12"
+          style={{ color: 'var(--color-text, #0A1628)', fontFamily: 'var(--font-body, Georgia, serif)' }}
+          dangerouslySetInnerHTML={{ __html: renderPostHtml(post.content) }}
+        />
+      </div>
+    </article>
+  );
+}
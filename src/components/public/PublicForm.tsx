@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { PublicForm as PublicFormData, PublicFormField, PublicFormValue, fetchPublicForm, submitPublicForm } from '../../lib/publicContent';
+
+interface PublicFormProps {
+  tenantId: string;
+  slug: string;
+  showTitle?: boolean;
+}
+
+const inputStyle = {
+  borderColor: 'var(--color-border, #E2E8F0)',
+  color: 'var(--color-text, #0A1628)',
+};
+
+const labelStyle = { color: 'var(--color-textSecondary, #4A5568)' };
+
+function fieldOptions(field: PublicFormField): string[] {
+  const raw = Array.isArray(field.options) ? field.options : field.options?.choices;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((o) => (typeof o === 'string' ? o : o?.value ?? o?.label))
+    .filter((o): o is string => !!o);
+}
+
+function initialValues(fields: PublicFormField[]): Record<string, PublicFormValue> {
+  const values: Record<string, PublicFormValue> = {};
+  for (const field of fields) {
+    if (field.field_type === 'checkbox') {
+      values[field.field_name] = fieldOptions(field).length > 0 ? [] : field.default_value === 'true';
+    } else {
+      values[field.field_name] = field.default_value || '';
+    }
+  }
+  return values;
+}
+
+/**
+ * Renders a custom form built in the manager's Form Builder and posts it to
+ * the submit-form edge function. File fields are not supported on the public
+ * site and are skipped.
+ */
+export function PublicForm({ tenantId, slug, showTitle = false }: PublicFormProps) {
+  const [form, setForm] = useState<PublicFormData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [values, setValues] = useState<Record<string, PublicFormValue>>({});
+  const [honeypot, setHoneypot] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+  const startedAt = useRef(Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchPublicForm(tenantId, slug)
+      .then((data) => {
+        if (cancelled) return;
+        setForm(data);
+        setValues(initialValues(data?.fields || []));
+        startedAt.current = Date.now();
+      })
+      .catch((err) => console.error('Error loading form:', err))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [tenantId, slug]);
+
+  const setValue = (name: string, value: PublicFormValue) => setValues((prev) => ({ ...prev, [name]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setStatus('sending');
+    setMessage(null);
+
+    try {
+      const result = await submitPublicForm(tenantId, form.id, values, {
+        startedAt: startedAt.current,
+        honeypot,
+      });
+      if (result.redirect_url) {
+        window.location.href = result.redirect_url;
+        return;
+      }
+      setStatus('sent');
+      setMessage(result.message || form.success_message || 'Thank you for your submission!');
+    } catch (err) {
+      setStatus('error');
+      setMessage(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 flex justify-center">
+        <div
+          className="w-6 h-6 border rounded-full animate-spin"
+          style={{ borderColor: 'var(--color-border, #E0DBD4)', borderTopColor: 'transparent' }}
+        />
+      </div>
+    );
+  }
+
+  if (!form) {
+    return (
+      <p className="text-center text-sm py-8" style={labelStyle}>
+        This form is not available.
+      </p>
+    );
+  }
+
+  if (status === 'sent') {
+    return (
+      <div
+        className="flex flex-col items-center justify-center gap-3 p-12 rounded-lg text-center"
+        style={{ backgroundColor: 'var(--color-backgroundAlt, #F8F7F4)' }}
+      >
+        <CheckCircle size={40} color="var(--color-accent, #C9A84C)" />
+        <p className="text-base font-semibold" style={labelStyle}>
+          {message}
+        </p>
+      </div>
+    );
+  }
+
+  const renderField = (field: PublicFormField) => {
+    const value = values[field.field_name];
+    const text = typeof value === 'string' ? value : '';
+    const common = {
+      id: `form-${form.id}-${field.field_name}`,
+      name: field.field_name,
+      required: field.is_required,
+      placeholder: field.placeholder || undefined,
+      className: 'w-full px-4 py-3 rounded-lg border text-base focus:outline-none focus:ring-2',
+      style: inputStyle,
+    };
+
+    switch (field.field_type) {
+      case 'textarea':
+        return (
+          <textarea
+            {...common}
+            rows={5}
+            minLength={field.min_length || undefined}
+            maxLength={field.max_length || undefined}
+            value={text}
+            onChange={(e) => setValue(field.field_name, e.target.value)}
+            className={`${common.className} resize-none`}
+          />
+        );
+      case 'select':
+        return (
+          <select {...common} value={text} onChange={(e) => setValue(field.field_name, e.target.value)}>
+            <option value="">{field.placeholder || 'Select...'}</option>
+            {fieldOptions(field).map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'radio':
+        return (
+          <div className="space-y-2">
+            {fieldOptions(field).map((option) => (
+              <label key={option} className="flex items-center gap-2 text-base" style={{ color: 'var(--color-text, #0A1628)' }}>
+                <input
+                  type="radio"
+                  name={field.field_name}
+                  value={option}
+                  required={field.is_required}
+                  checked={value === option}
+                  onChange={() => setValue(field.field_name, option)}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      case 'checkbox': {
+        const options = fieldOptions(field);
+        if (options.length === 0) {
+          return (
+            <label className="flex items-center gap-2 text-base" style={{ color: 'var(--color-text, #0A1628)' }}>
+              <input
+                type="checkbox"
+                required={field.is_required}
+                checked={!!value}
+                onChange={(e) => setValue(field.field_name, e.target.checked)}
+              />
+              {field.placeholder || field.field_label}
+            </label>
+          );
+        }
+        const selected: string[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-2">
+            {options.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-base" style={{ color: 'var(--color-text, #0A1628)' }}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) =>
+                    setValue(
+                      field.field_name,
+                      e.target.checked ? [...selected, option] : selected.filter((s) => s !== option)
+                    )
+                  }
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default: {
+        const inputType =
+          field.field_type === 'phone' ? 'tel' : ['email', 'number', 'date'].includes(field.field_type) ? field.field_type : 'text';
+        return (
+          <input
+            {...common}
+            type={inputType}
+            minLength={field.min_length || undefined}
+            maxLength={field.max_length || undefined}
+            pattern={field.pattern || undefined}
+            title={field.validation_message || undefined}
+            value={text}
+            onChange={(e) => setValue(field.field_name, e.target.value)}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {showTitle && (
+        <div className="mb-8">
+          <h2
+            className="text-3xl font-bold mb-2"
+            style={{ fontFamily: 'var(--font-heading, Georgia, serif)', color: 'var(--color-text, #0A1628)' }}
+          >
+            {form.name}
+          </h2>
+          {form.description && <p style={labelStyle}>{form.description}</p>}
+        </div>
+      )}
+
+      {form.fields
+        .filter((field) => field.field_type !== 'file')
+        .map((field) => (
+          <div key={field.id}>
+            {!(field.field_type === 'checkbox' && fieldOptions(field).length === 0) && (
+              <label
+                htmlFor={`form-${form.id}-${field.field_name}`}
+                className="block text-sm font-bold uppercase tracking-wider mb-2"
+                style={labelStyle}
+              >
+                {field.field_label}{field.is_required && ' *'}
+              </label>
+            )}
+            {renderField(field)}
+            {field.help_text && (
+              <p className="text-sm mt-1" style={{ color: 'var(--color-textLight, #718096)' }}>
+                {field.help_text}
+              </p>
+            )}
+          </div>
+        ))}
+
+      {/* Honeypot: hidden from people, filled in by naive bots */}
+      <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', width: 1, height: 1, overflow: 'hidden' }}>
+        <label>
+          Website
+          <input type="text" tabIndex={-1} autoComplete="off" value={honeypot} onChange={(e) => setHoneypot(e.target.value)} />
+        </label>
+      </div>
+
+      {status === 'error' && message && (
+        <div className="flex items-center gap-2 text-red-600 text-sm">
+          <AlertCircle size={16} />
+          <span>{message}</span>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === 'sending'}
+        className="w-full px-6 py-3.5 rounded-lg text-base font-bold tracking-wide transition-all hover:brightness-110 disabled:opacity-60"
+        style={{
+          backgroundColor: 'var(--color-accent, #C9A84C)',
+          color: 'var(--color-primary, #0A1628)',
+        }}
+      >
+        {status === 'sending' ? 'Sending...' : form.submit_button_text || 'Submit'}
+      </button>
+    </form>
+  );
+}
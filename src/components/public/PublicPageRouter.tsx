@@ -1,6 +1,9 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
 import { SectionRenderer } from './SectionRenderer';
+import { BlogArticlePage, BlogIndexPage } from './BlogPages';
+import { PublicForm } from './PublicForm';
+import { DraftPreview, fetchDraftPreview } from '../../lib/pageDrafts';
 import {
   PageData,
   readPageCache,
@@ -23,7 +26,131 @@ function getInitialPageData(tenantId: string, slug: string): PageData | null {
   return cached?.data ?? null;
 }
 
+function NotFoundPage() {
+  return (
+    <div
+      className="min-h-[70vh] flex items-center justify-center px-6"
+      style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}
+    >
+      <div className="text-center max-w-md">
+        <p
+          className="text-8xl font-semibold mb-4 tracking-tight"
+          style={{ fontFamily: 'var(--font-heading, "Cormorant Garamond", Georgia, serif)', color: 'var(--color-border, #E0DBD4)' }}
+        >
+          404
+        </p>
+        <h2
+          className="text-2xl font-semibold mb-3"
+          style={{ fontFamily: 'var(--font-heading, "Cormorant Garamond", Georgia, serif)', color: 'var(--color-text, #1A1A1A)' }}
+        >
+          Page Not Found
+        </h2>
+        <p className="mb-8 text-sm" style={{ color: 'var(--color-textSecondary, #4A4A4A)' }}>
+          The page you are looking for does not exist or has not been published yet.
+        </p>
+        <a
+          href="/"
+          className="inline-block px-6 py-3 text-sm font-semibold rounded-sm transition-all hover:brightness-110"
+          style={{ backgroundColor: 'var(--color-accent, #B8934A)', color: 'var(--color-primary, #1B3A2D)' }}
+        >
+          Return Home
+        </a>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Blog and form routes are served from their own tables; every other path is
+ * a site_pages slug. A `?preview=<token>` link from the page builder shows
+ * that page's unpublished draft instead.
+ */
 export function PublicPageRouter({ tenantId, path }: PublicPageRouterProps) {
+  const segments = path.replace(/^\/|\/$/g, '').split('/');
+  const previewToken = new URLSearchParams(window.location.search).get('preview');
+
+  if (previewToken) {
+    return <DraftPreviewPage tenantId={tenantId} token={previewToken} />;
+  }
+
+  if (segments[0] === 'blog' && segments.length === 1) {
+    return <BlogIndexPage tenantId={tenantId} />;
+  }
+  if (segments[0] === 'blog' && segments.length === 2) {
+    return <BlogArticlePage tenantId={tenantId} slug={segments[1]} notFound={<NotFoundPage />} />;
+  }
+  if (segments[0] === 'forms' && segments.length === 2) {
+    return (
+      <section className="py-24 px-6 min-h-[70vh]" style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}>
+        <div className="max-w-2xl mx-auto">
+          <PublicForm tenantId={tenantId} slug={segments[1]} showTitle />
+        </div>
+      </section>
+    );
+  }
+
+  return <SitePage tenantId={tenantId} path={path} />;
+}
+
+function DraftPreviewPage({ tenantId, token }: { tenantId: string; token: string }) {
+  const [preview, setPreview] = useState<DraftPreview | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    // Preview links must never be indexed
+    const robots = document.createElement('meta');
+    robots.name = 'robots';
+    robots.content = 'noindex, nofollow';
+    document.head.appendChild(robots);
+
+    fetchDraftPreview(token)
+      .then((data) => setPreview(data && data.tenant_id === tenantId ? data : null))
+      .catch((err) => console.error('Error loading draft preview:', err))
+      .finally(() => setLoaded(true));
+
+    return () => {
+      robots.remove();
+    };
+  }, [tenantId, token]);
+
+  if (!loaded) {
+    return (
+      <div
+        className="min-h-[60vh] flex items-center justify-center"
+        style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}
+      >
+        <div
+          className="w-8 h-8 border border-t-transparent rounded-full animate-spin"
+          style={{ borderColor: 'var(--color-border, #E0DBD4)', borderTopColor: 'transparent' }}
+        />
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return <NotFoundPage />;
+  }
+
+  return (
+    <div className="public-page">
+      <div className="sticky top-0 z-50 bg-amber-400 text-amber-950 text-sm font-semibold text-center px-4 py-2">
+        Draft preview of {preview.title || preview.page_slug} — saved {new Date(preview.updated_at).toLocaleString()}. Not visible to visitors.
+      </div>
+      {preview.sections
+        .filter((section) => section.is_published)
+        .map((section, index) => (
+          <SectionRenderer
+            key={`${section.section_type}-${index}`}
+            sectionType={section.section_type}
+            content={section.content}
+            tenantId={tenantId}
+          />
+        ))}
+    </div>
+  );
+}
+
+function SitePage({ tenantId, path }: PublicPageRouterProps) {
   const slug = slugFromPath(path);
   const [pageData, setPageData] = useState<PageData | null>(() =>
     getInitialPageData(tenantId, slug)
@@ -136,37 +263,7 @@ export function PublicPageRouter({ tenantId, path }: PublicPageRouterProps) {
   }
 
   if (fetchError || !pageData?.page) {
-    return (
-      <div
-        className="min-h-[70vh] flex items-center justify-center px-6"
-        style={{ backgroundColor: 'var(--color-background, #FFFFFF)' }}
-      >
-        <div className="text-center max-w-md">
-          <p
-            className="text-8xl font-semibold mb-4 tracking-tight"
-            style={{ fontFamily: 'var(--font-heading, "Cormorant Garamond", Georgia, serif)', color: 'var(--color-border, #E0DBD4)' }}
-          >
-            404
-          </p>
-          <h2
-            className="text-2xl font-semibold mb-3"
-            style={{ fontFamily: 'var(--font-heading, "Cormorant Garamond", Georgia, serif)', color: 'var(--color-text, #1A1A1A)' }}
-          >
-            Page Not Found
-          </h2>
-          <p className="mb-8 text-sm" style={{ color: 'var(--color-textSecondary, #4A4A4A)' }}>
-            The page you are looking for does not exist or has not been published yet.
-          </p>
-          <a
-            href="/"
-            className="inline-block px-6 py-3 text-sm font-semibold rounded-sm transition-all hover:brightness-110"
-            style={{ backgroundColor: 'var(--color-accent, #B8934A)', color: 'var(--color-primary, #1B3A2D)' }}
-          >
-            Return Home
-          </a>
-        </div>
-      </div>
-    );
+    return <NotFoundPage />;
   }
 
   if (pageData.sections.length === 0) {
@@ -189,6 +286,7 @@ export function PublicPageRouter({ tenantId, path }: PublicPageRouterProps) {
           key={section.id}
           sectionType={section.section_type}
           content={section.content}
+          tenantId={tenantId}
         />
       ))}
     </div>
@@ -7,13 +7,18 @@ import { CustomSection } from './sections/CustomSection';
 import { StatsSection } from './sections/StatsSection';
 import { CTASection } from './sections/CTASection';
 import { TeamSection } from './sections/TeamSection';
+import { BlogSection } from './sections/BlogSection';
+import { FAQSection } from './sections/FAQSection';
+import { TestimonialsSection } from './sections/TestimonialsSection';
+import { FormSection } from './sections/FormSection';
 
 interface SectionRendererProps {
   sectionType: string;
   content: any;
+  tenantId?: string;
 }
 
-export function SectionRenderer({ sectionType, content }: SectionRendererProps) {
+export function SectionRenderer({ sectionType, content, tenantId }: SectionRendererProps) {
   switch (sectionType) {
     case 'hero':
       return <HeroSection content={content} />;
@@ -31,6 +36,14 @@ export function SectionRenderer({ sectionType, content }: SectionRendererProps)
       return <CustomSection content={content} />;
     case 'team':
       return <TeamSection content={content} />;
+    case 'blog':
+      return <BlogSection tenantId={tenantId} content={content} />;
+    case 'faq':
+      return <FAQSection tenantId={tenantId} content={content} />;
+    case 'testimonials':
+      return <TestimonialsSection tenantId={tenantId} content={content} />;
+    case 'form':
+      return <FormSection tenantId={tenantId} content={content} />;
     default:
       return null;
   }
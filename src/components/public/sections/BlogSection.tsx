@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { PublicPostSummary, fetchPublishedPosts, formatPublicDate, navigatePublic } from '../../../lib/publicContent';
+
+interface BlogSectionProps {
+  tenantId?: string;
+  content: {
+    heading?: string;
+    subheading?: string;
+    show_divider?: boolean;
+    limit?: number;
+    category?: string;
+    show_view_all?: boolean;
+    background?: 'white' | 'alt';
+  };
+}
+
+export function PostCard({ post }: { post: PublicPostSummary }) {
+  const href = `/blog/${post.slug}`;
+  return (
+    <a
+      href={href}
+      onClick={(e) => { e.preventDefault(); navigatePublic(href); }}
+      className="group flex flex-col rounded-lg overflow-hidden border transition-shadow hover:shadow-lg"
+      style={{ borderColor: 'var(--color-border, #E2E8F0)', backgroundColor: 'var(--color-background, #FFFFFF)' }}
+    >
+      {post.featured_image_url && (
+        <div className="aspect-[16/9] overflow-hidden">
+          <img
+            src={post.featured_image_url}
+            alt={post.title}
+            className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+          />
+        </div>
+      )}
+      <div className="flex flex-col flex-1 p-6">
+        {post.category && (
+          <span
+            className="text-xs font-bold uppercase tracking-wider mb-3"
+            style={{ color: 'var(--color-accent, #C9A84C)' }}
+          >
+            {post.category.name}
+          </span>
+        )}
+        <h3
+          className="text-xl font-bold mb-3 leading-snug"
+          style={{ fontFamily: 'var(--font-heading, Georgia, serif)', color: 'var(--color-text, #0A1628)' }}
+        >
+          {post.title}
+        </h3>
+        {post.excerpt && (
+          <p className="text-base leading-relaxed mb-4 flex-1" style={{ color: 'var(--color-textSecondary, #4A5568)' }}>
+            {post.excerpt}
+          </p>
+        )}
+        <div className="flex items-center justify-between text-sm" style={{ color: 'var(--color-textLight, #718096)' }}>
+          <span>
+            {formatPublicDate(post.published_at)}
+            {post.read_time_minutes ? ` · ${post.read_time_minutes} min read` : ''}
+          </span>
+          <ArrowRight size={16} className="transition-transform group-hover:translate-x-1" />
+        </div>
+      </div>
+    </a>
+  );
+}
+
+export function BlogSection({ tenantId, content }: BlogSectionProps) {
+  const {
+    heading = 'Insights',
+    subheading,
+    show_divider,
+    limit = 3,
+    category,
+    show_view_all = true,
+    background = 'white',
+  } = content;
+
+  const [posts, setPosts] = useState<PublicPostSummary[]>([]);
+
+  useEffect(() => {
+    if (!tenantId) return;
+    fetchPublishedPosts(tenantId, { limit, categorySlug: category })
+      .then(setPosts)
+      .catch((err) => console.error('Error loading posts:', err));
+  }, [tenantId, limit, category]);
+
+  if (posts.length === 0) return null;
+
+  const bgColor =
+    background === 'alt'
+      ? 'var(--color-backgroundAlt, #F8F7F4)'
+      : 'var(--color-background, #FFFFFF)';
+
+  return (
+    <section className="py-24 px-6" style={{ backgroundColor: bgColor }}>
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center mb-16">
+          <h2
+            className="text-4xl md:text-5xl font-bold mb-4"
+            style={{
+              fontFamily: 'var(--font-heading, Georgia, serif)',
+              color: 'var(--color-text, #0A1628)',
+            }}
+          >
+            {heading}
+          </h2>
+          {show_divider && (
+            <div
+              className="w-16 h-0.5 mx-auto my-5"
+              style={{ backgroundColor: 'var(--color-accent, #C9A84C)' }}
+            />
+          )}
+          {subheading && (
+            <p
+              className="text-xl max-w-3xl mx-auto leading-relaxed font-semibold"
+              style={{
+                fontFamily: 'var(--font-body, "Cormorant Garamond", Georgia, serif)',
+                color: 'var(--color-textSecondary, #4A5568)',
+              }}
+            >
+              {subheading}
+            </p>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {posts.map((post) => (
+            <PostCard key={post.id} post={post} />
+          ))}
+        </div>
+
+        {show_view_all && (
+          <div className="text-center mt-12">
+            <a
+              href="/blog"
+              onClick={(e) => { e.preventDefault(); navigatePublic('/blog'); }}
+              className="inline-flex items-center gap-2 px-6 py-3 rounded-lg text-base font-bold tracking-wide transition-all hover:brightness-110"
+              style={{ backgroundColor: 'var(--color-accent, #C9A84C)', color: 'var(--color-primary, #0A1628)' }}
+            >
+              View all posts <ArrowRight size={16} />
+            </a>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
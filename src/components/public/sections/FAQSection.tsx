@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { PublicFaqItem, fetchFaqItems } from '../../../lib/publicContent';
+
+interface FAQSectionProps {
+  tenantId?: string;
+  content: {
+    heading?: string;
+    subheading?: string;
+    show_divider?: boolean;
+    category?: string;
+    group_by_category?: boolean;
+    background?: 'white' | 'alt';
+  };
+}
+
+export function FAQSection({ tenantId, content }: FAQSectionProps) {
+  const {
+    heading = 'Frequently Asked Questions',
+    subheading,
+    show_divider,
+    category,
+    group_by_category = true,
+    background = 'white',
+  } = content;
+
+  const [items, setItems] = useState<PublicFaqItem[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!tenantId) return;
+    fetchFaqItems(tenantId, category)
+      .then(setItems)
+      .catch((err) => console.error('Error loading FAQs:', err));
+  }, [tenantId, category]);
+
+  if (items.length === 0) return null;
+
+  const groups = new Map<string, PublicFaqItem[]>();
+  for (const item of items) {
+    const key = group_by_category && !category ? item.category || '' : '';
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  const bgColor =
+    background === 'alt'
+      ? 'var(--color-backgroundAlt, #F8F7F4)'
+      : 'var(--color-background, #FFFFFF)';
+
+  return (
+    <section className="py-24 px-6" style={{ backgroundColor: bgColor }}>
+      <div className="max-w-3xl mx-auto">
+        <div className="text-center mb-16">
+          <h2
+            className="text-4xl md:text-5xl font-bold mb-4"
+            style={{
+              fontFamily: 'var(--font-heading, Georgia, serif)',
+              color: 'var(--color-text, #0A1628)',
+            }}
+          >
+            {heading}
+          </h2>
+          {show_divider && (
+            <div
+              className="w-16 h-0.5 mx-auto my-5"
+              style={{ backgroundColor: 'var(--color-accent, #C9A84C)' }}
+            />
+          )}
+          {subheading && (
+            <p
+              className="text-xl max-w-3xl mx-auto leading-relaxed font-semibold"
+              style={{
+                fontFamily: 'var(--font-body, "Cormorant Garamond", Georgia, serif)',
+                color: 'var(--color-textSecondary, #4A5568)',
+              }}
+            >
+              {subheading}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-10">
+          {[...groups.entries()].map(([group, groupItems]) => (
+            <div key={group || 'all'}>
+              {group && (
+                <h3
+                  className="text-sm font-bold uppercase tracking-wider mb-4"
+                  style={{ color: 'var(--color-accent, #C9A84C)' }}
+                >
+                  {group}
+                </h3>
+              )}
+              <div className="border-t" style={{ borderColor: 'var(--color-border, #E2E8F0)' }}>
+                {groupItems.map((item) => {
+                  const open = openId === item.id;
+                  return (
+                    <div key={item.id} className="border-b" style={{ borderColor: 'var(--color-border, #E2E8F0)' }}>
+                      <button
+                        onClick={() => setOpenId(open ? null : item.id)}
+                        aria-expanded={open}
+                        className="w-full flex items-center justify-between gap-4 py-5 text-left"
+                      >
+                        <span
+                          className="text-lg font-semibold"
+                          style={{ color: 'var(--color-text, #0A1628)' }}
+                        >
+                          {item.question}
+                        </span>
+                        <ChevronDown
+                          size={20}
+                          className={`flex-shrink-0 transition-transform ${open ? 'rotate-180' : ''}`}
+                          style={{ color: 'var(--color-accent, #C9A84C)' }}
+                        />
+                      </button>
+                      {open && (
+                        <p
+                          className="pb-5 text-base leading-relaxed whitespace-pre-line"
+                          style={{ color: 'var(--color-textSecondary, #4A5568)' }}
+                        >
+                          {item.answer}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
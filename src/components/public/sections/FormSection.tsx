@@ -0,0 +1,61 @@
+import { PublicForm } from '../PublicForm';
+
+interface FormSectionProps {
+  tenantId?: string;
+  content: {
+    heading?: string;
+    subheading?: string;
+    show_divider?: boolean;
+    form_slug?: string;
+    background?: 'white' | 'alt';
+  };
+}
+
+export function FormSection({ tenantId, content }: FormSectionProps) {
+  const { heading, subheading, show_divider, form_slug, background = 'white' } = content;
+
+  if (!tenantId || !form_slug) return null;
+
+  const bgColor =
+    background === 'alt'
+      ? 'var(--color-backgroundAlt, #F8F7F4)'
+      : 'var(--color-background, #FFFFFF)';
+
+  return (
+    <section className="py-24 px-6" style={{ backgroundColor: bgColor }}>
+      <div className="max-w-2xl mx-auto">
+        {heading && (
+          <div className="text-center mb-12">
+            <h2
+              className="text-4xl md:text-5xl font-bold mb-4"
+              style={{
+                fontFamily: 'var(--font-heading, Georgia, serif)',
+                color: 'var(--color-text, #0A1628)',
+              }}
+            >
+              {heading}
+            </h2>
+            {show_divider && (
+              <div
+                className="w-16 h-0.5 mx-auto my-5"
+                style={{ backgroundColor: 'var(--color-accent, #C9A84C)' }}
+              />
+            )}
+            {subheading && (
+              <p
+                className="text-xl max-w-3xl mx-auto leading-relaxed font-semibold"
+                style={{
+                  fontFamily: 'var(--font-body, "Cormorant Garamond", Georgia, serif)',
+                  color: 'var(--color-textSecondary, #4A5568)',
+                }}
+              >
+                {subheading}
+              </p>
+            )}
+          </div>
+        )}
+        <PublicForm tenantId={tenantId} slug={form_slug} showTitle={!heading} />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Quote, Star } from 'lucide-react';
+import { PublicTestimonial, fetchTestimonials } from '../../../lib/publicContent';
+
+interface TestimonialsSectionProps {
+  tenantId?: string;
+  content: {
+    heading?: string;
+    subheading?: string;
+    show_divider?: boolean;
+    featured_only?: boolean;
+    autoplay?: boolean;
+    interval_seconds?: number;
+    show_rating?: boolean;
+    background?: 'white' | 'alt';
+  };
+}
+
+export function TestimonialsSection({ tenantId, content }: TestimonialsSectionProps) {
+  const {
+    heading = 'What Our Clients Say',
+    subheading,
+    show_divider,
+    featured_only = false,
+    autoplay = true,
+    interval_seconds = 8,
+    show_rating = true,
+    background = 'alt',
+  } = content;
+
+  const [items, setItems] = useState<PublicTestimonial[]>([]);
+  const [index, setIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    if (!tenantId) return;
+    fetchTestimonials(tenantId, featured_only)
+      .then((data) => { setItems(data); setIndex(0); })
+      .catch((err) => console.error('Error loading testimonials:', err));
+  }, [tenantId, featured_only]);
+
+  useEffect(() => {
+    if (!autoplay || paused || items.length < 2) return;
+    const timer = setInterval(() => setIndex((i) => (i + 1) % items.length), interval_seconds * 1000);
+    return () => clearInterval(timer);
+  }, [autoplay, paused, items.length, interval_seconds]);
+
+  if (items.length === 0) return null;
+
+  const current = items[index];
+  const attribution = [current.client_position, current.client_company].filter(Boolean).join(', ');
+  const bgColor =
+    background === 'alt'
+      ? 'var(--color-backgroundAlt, #F8F7F4)'
+      : 'var(--color-background, #FFFFFF)';
+
+  return (
+    <section className="py-24 px-6" style={{ backgroundColor: bgColor }}>
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-16">
+          <h2
+            className="text-4xl md:text-5xl font-bold mb-4"
+            style={{
+              fontFamily: 'var(--font-heading, Georgia, serif)',
+              color: 'var(--color-text, #0A1628)',
+            }}
+          >
+            {heading}
+          </h2>
+          {show_divider && (
+            <div
+              className="w-16 h-0.5 mx-auto my-5"
+              style={{ backgroundColor: 'var(--color-accent, #C9A84C)' }}
+            />
+          )}
+          {subheading && (
+            <p
+              className="text-xl max-w-3xl mx-auto leading-relaxed font-semibold"
+              style={{
+                fontFamily: 'var(--font-body, "Cormorant Garamond", Georgia, serif)',
+                color: 'var(--color-textSecondary, #4A5568)',
+              }}
+            >
+              {subheading}
+            </p>
+          )}
+        </div>
+
+        <div
+          className="relative text-center px-4 md:px-16"
+          onMouseEnter={() => setPaused(true)}
+          onMouseLeave={() => setPaused(false)}
+        >
+          <Quote size={40} className="mx-auto mb-6" color="var(--color-accent, #C9A84C)" />
+          <blockquote
+            key={current.id}
+            className="text-2xl leading-relaxed mb-8 animate-fadeIn"
+            style={{ fontFamily: 'var(--font-heading, Georgia, serif)', color: 'var(--color-text, #0A1628)' }}
+          >
+            {current.testimonial_text}
+          </blockquote>
+
+          {show_rating && current.rating ? (
+            <div className="flex justify-center gap-1 mb-4">
+              {Array.from({ length: 5 }, (_, i) => (
+                <Star
+                  key={i}
+                  size={16}
+                  color="var(--color-accent, #C9A84C)"
+                  fill={i < (current.rating || 0) ? 'var(--color-accent, #C9A84C)' : 'none'}
+                />
+              ))}
+            </div>
+          ) : null}
+
+          <div className="flex items-center justify-center gap-4">
+            {current.client_photo_url && (
+              <img src={current.client_photo_url} alt={current.client_name} className="w-14 h-14 rounded-full object-cover" />
+            )}
+            <div className="text-left">
+              <p className="font-bold" style={{ color: 'var(--color-text, #0A1628)' }}>{current.client_name}</p>
+              {attribution && (
+                <p className="text-sm" style={{ color: 'var(--color-textLight, #718096)' }}>{attribution}</p>
+              )}
+            </div>
+          </div>
+
+          {items.length > 1 && (
+            <>
+              <button
+                onClick={() => setIndex((index - 1 + items.length) % items.length)}
+                aria-label="Previous testimonial"
+                className="absolute left-0 top-1/2 -translate-y-1/2 p-2 rounded-full transition-opacity hover:opacity-70"
+                style={{ color: 'var(--color-text, #0A1628)' }}
+              >
+                <ChevronLeft size={28} />
+              </button>
+              <button
+                onClick={() => setIndex((index + 1) % items.length)}
+                aria-label="Next testimonial"
+                className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full transition-opacity hover:opacity-70"
+                style={{ color: 'var(--color-text, #0A1628)' }}
+              >
+                <ChevronRight size={28} />
+              </button>
+              <div className="flex justify-center gap-2 mt-10">
+                {items.map((item, i) => (
+                  <button
+                    key={item.id}
+                    onClick={() => setIndex(i)}
+                    aria-label={`Show testimonial ${i + 1}`}
+                    className="w-2.5 h-2.5 rounded-full transition-colors"
+                    style={{ backgroundColor: i === index ? 'var(--color-accent, #C9A84C)' : 'var(--color-border, #E2E8F0)' }}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+import type { PerformancePoint } from '../../lib/performanceAnalytics';
+import { formatDate, formatPct } from '../../lib/format';
+
+interface PerformanceChartProps {
+  /** Points from a performance result, oldest first. */
+  series: PerformancePoint[];
+  height?: number;
+}
+
+/**
+ * Cumulative time-weighted return over a performance window, as a line
+ * against a zero baseline.
+ */
+export function PerformanceChart({ series, height = 200 }: PerformanceChartProps) {
+  if (series.length < 2) {
+    return (
+      <div className="flex items-center justify-center text-sm text-slate-500" style={{ height }}>
+        Not enough approved NAVs to chart this period
+      </div>
+    );
+  }
+
+  const W = 540;
+  const H = 180;
+  const padL = 50;
+  const padB = 30;
+  const padT = 10;
+  const chartW = W - padL - 10;
+  const chartH = H - padB - padT;
+
+  const returns = series.map((p) => p.cumulativeReturn);
+  const max = Math.max(0, ...returns);
+  const min = Math.min(0, ...returns);
+  const span = max - min || 1;
+  const top = max + span * 0.1;
+  const bottom = min - span * 0.1;
+
+  const start = Date.parse(series[0].date);
+  const range = Date.parse(series[series.length - 1].date) - start || 1;
+
+  function xPos(date: string) {
+    return padL + ((Date.parse(date) - start) / range) * chartW;
+  }
+  function yPos(val: number) {
+    return padT + ((top - val) / (top - bottom)) * chartH;
+  }
+
+  const gridLines = [0, 0.25, 0.5, 0.75, 1].map((p) => bottom + (top - bottom) * p);
+  const labels = [series[0], series[Math.floor(series.length / 2)], series[series.length - 1]];
+  const final = returns[returns.length - 1];
+  const color = final >= 0 ? '#22d3ee' : '#f87171';
+
+  return (
+    <div className="w-full">
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full" style={{ height }}>
+        {gridLines.map((v) => (
+          <g key={v}>
+            <line x1={padL} x2={W - 10} y1={yPos(v)} y2={yPos(v)} stroke="#1e293b" strokeWidth={1} />
+            <text x={padL - 6} y={yPos(v) + 4} textAnchor="end" fill="#475569" fontSize={9}>
+              {`${v.toFixed(1)}%`}
+            </text>
+          </g>
+        ))}
+
+        <line x1={padL} x2={W - 10} y1={yPos(0)} y2={yPos(0)} stroke="#334155" strokeWidth={1} strokeDasharray="4 3" />
+
+        {labels.map((p, i) => (
+          <text
+            key={`${p.date}-${i}`}
+            x={xPos(p.date)}
+            y={H - 6}
+            textAnchor={i === 0 ? 'start' : i === 2 ? 'end' : 'middle'}
+            fill="#475569"
+            fontSize={10}
+          >
+            {formatDate(p.date, 'short')}
+          </text>
+        ))}
+
+        <polyline
+          points={series.map((p) => `${xPos(p.date)},${yPos(p.cumulativeReturn)}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+
+        {series.length <= 60 && series.map((p) => (
+          <circle key={p.date} cx={xPos(p.date)} cy={yPos(p.cumulativeReturn)} r={3} fill={color}>
+            <title>{`${formatDate(p.date, 'short')}: ${formatPct(p.cumulativeReturn)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
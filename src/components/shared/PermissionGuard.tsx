@@ -0,0 +1,30 @@
+import type { ReactNode } from 'react';
+import { useAuth, type StaffPermission } from '../../lib/auth';
+
+interface PermissionGuardProps {
+  /** Omit to render children unconditionally. */
+  permission?: StaffPermission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export default function PermissionGuard({ permission, children, fallback }: PermissionGuardProps) {
+  const { hasPermission } = useAuth();
+
+  if (!permission || hasPermission(permission)) {
+    return <>{children}</>;
+  }
+
+  if (fallback !== undefined) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center py-24 text-center">
+      <h2 className="text-xl font-semibold text-slate-300 mb-2">Access restricted</h2>
+      <p className="text-slate-500 text-sm max-w-sm">
+        Your staff account does not have the {permission.replace(/^can_/, '').replace(/_/g, ' ')} permission. Ask an administrator to grant it.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,567 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, Loader2, PenLine, Paperclip, Plus, Trash2, Type, X } from 'lucide-react';
+import {
+  ApplicationField, ApplicationResponses, AttachmentValue, FieldValue, FieldValues,
+  SignatureBlock, SignatureEntry, ValidationErrors, BLANK_SIGNATURE,
+  emptyGroupRow, visibleFields,
+} from '../../lib/applicationSchema';
+import { GREEN, GOLD, CREAM, SERIF, INK, inputCls, inputStyle, labelCls, labelStyle } from './vaultTheme';
+
+const WIDTH_CLS: Record<NonNullable<ApplicationField['width']>, string> = {
+  full: 'sm:col-span-6',
+  half: 'sm:col-span-3',
+  third: 'sm:col-span-2',
+};
+
+export type UploadHandler = (fieldId: string, file: File) => Promise<AttachmentValue>;
+
+export function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="flex items-center gap-1.5 mt-1.5 text-xs text-red-400">
+      <AlertCircle size={12} /> {message}
+    </p>
+  );
+}
+
+function Shell({
+  field, error, children,
+}: { field: ApplicationField; error?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className={labelCls} style={labelStyle}>
+        {field.label}{field.required && <span style={{ color: GOLD }}> *</span>}
+      </label>
+      {children}
+      {field.help && <p className="text-xs opacity-40 mt-1.5 leading-relaxed">{field.help}</p>}
+      <FieldError message={error} />
+    </div>
+  );
+}
+
+function ChoiceInput({
+  type, name, checked, label, onChange,
+}: { type: 'radio' | 'checkbox'; name?: string; checked: boolean; label: string; onChange: () => void }) {
+  return (
+    <label className="flex items-center gap-2.5 cursor-pointer text-sm">
+      <input type={type} name={name} checked={checked} onChange={onChange} style={{ accentColor: GOLD }} />
+      <span style={{ color: CREAM }}>{label}</span>
+    </label>
+  );
+}
+
+// ─── Attachment ────────────────────────────────────────────────────────────────
+function AttachmentInput({
+  field, value, onChange, onUpload,
+}: {
+  field: ApplicationField;
+  value: AttachmentValue | null;
+  onChange: (v: AttachmentValue | null) => void;
+  onUpload: UploadHandler;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setUploading(true);
+    setUploadError('');
+    try {
+      onChange(await onUpload(field.id, file));
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  }
+
+  return (
+    <div>
+      {value ? (
+        <div
+          className="flex items-center justify-between gap-3 px-3 py-2.5 rounded-sm text-sm"
+          style={{ backgroundColor: 'rgba(184,147,74,0.08)', border: `1px solid ${GOLD}44` }}
+        >
+          <span className="flex items-center gap-2 min-w-0">
+            <Paperclip size={14} style={{ color: GOLD }} />
+            <span className="truncate">{value.name}</span>
+            <span className="text-xs opacity-40 flex-shrink-0">{(value.size / 1024).toFixed(0)} KB</span>
+          </span>
+          <button type="button" onClick={() => onChange(null)} className="opacity-50 hover:opacity-90">
+            <X size={14} />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="flex items-center gap-2 px-4 py-2.5 rounded-sm text-xs font-semibold transition-all disabled:opacity-50"
+          style={{ backgroundColor: 'rgba(184,147,74,0.1)', color: GOLD, border: `1px solid ${GOLD}33` }}
+        >
+          {uploading ? <><Loader2 size={13} className="animate-spin" /> Uploading...</> : <><Paperclip size={13} /> Attach file</>}
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={field.accept || '.pdf,image/*'}
+        className="hidden"
+        onChange={e => handleFile(e.target.files?.[0])}
+      />
+      <FieldError message={uploadError} />
+    </div>
+  );
+}
+
+// ─── Repeating group ───────────────────────────────────────────────────────────
+function GroupInput({
+  field, rows, onChange, responses, errors, errorKey, onUpload,
+}: {
+  field: ApplicationField;
+  rows: FieldValues[];
+  onChange: (rows: FieldValues[]) => void;
+  responses: ApplicationResponses;
+  errors: ValidationErrors;
+  errorKey: string;
+  onUpload: UploadHandler;
+}) {
+  const itemLabel = field.item_label || 'Entry';
+  const canAdd = !field.max_items || rows.length < field.max_items;
+  const canRemove = rows.length > (field.min_items ?? 0);
+
+  const updateRow = (index: number, row: FieldValues) => {
+    const next = [...rows];
+    next[index] = row;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {rows.map((row, index) => (
+        <div key={index} className="rounded-sm border p-4 space-y-4" style={{ borderColor: `${GOLD}33` }}>
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold" style={{ fontFamily: SERIF, color: GOLD }}>
+              {itemLabel} {index + 1}
+            </p>
+            {canRemove && (
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                className="text-xs opacity-40 hover:opacity-70 flex items-center gap-1"
+              >
+                <Trash2 size={12} /> Remove
+              </button>
+            )}
+          </div>
+          <FieldGrid
+            fields={visibleFields(field.fields || [], responses, row)}
+            values={row}
+            onChange={(id, v) => updateRow(index, { ...row, [id]: v })}
+            responses={responses}
+            errors={errors}
+            errorPrefix={`${errorKey}.${index}.`}
+            onUpload={onUpload}
+          />
+        </div>
+      ))}
+      {canAdd && (
+        <button
+          type="button"
+          onClick={() => onChange([...rows, emptyGroupRow(field)])}
+          className="text-xs flex items-center gap-1.5 transition-opacity hover:opacity-80"
+          style={{ color: GOLD }}
+        >
+          <Plus size={12} /> Add {itemLabel.toLowerCase()}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ─── Single field ──────────────────────────────────────────────────────────────
+const INPUT_TYPES: Partial<Record<ApplicationField['type'], string>> = {
+  email: 'email',
+  phone: 'tel',
+  date: 'date',
+  number: 'text',
+  currency: 'text',
+};
+
+export function SchemaField({
+  field, value, onChange, responses, errors, errorKey, onUpload,
+}: {
+  field: ApplicationField;
+  value: FieldValue | undefined;
+  onChange: (v: FieldValue) => void;
+  responses: ApplicationResponses;
+  errors: ValidationErrors;
+  errorKey: string;
+  onUpload: UploadHandler;
+}) {
+  const error = errors[errorKey];
+  const text = typeof value === 'string' ? value : '';
+
+  switch (field.type) {
+    case 'note':
+      return (
+        <div
+          className="rounded-sm p-4 text-xs leading-relaxed whitespace-pre-line"
+          style={{ backgroundColor: 'rgba(184,147,74,0.08)', border: `1px solid ${GOLD}33`, color: 'rgba(245,242,238,0.7)' }}
+        >
+          {field.label && <p className="font-semibold mb-1" style={{ color: GOLD }}>{field.label}</p>}
+          {field.help}
+        </div>
+      );
+
+    case 'group':
+      return (
+        <div>
+          <p className={labelCls} style={labelStyle}>
+            {field.label}{field.required && <span style={{ color: GOLD }}> *</span>}
+          </p>
+          {field.help && <p className="text-xs opacity-40 mb-3 leading-relaxed">{field.help}</p>}
+          <GroupInput
+            field={field}
+            rows={Array.isArray(value) ? (value as FieldValues[]) : []}
+            onChange={onChange}
+            responses={responses}
+            errors={errors}
+            errorKey={errorKey}
+            onUpload={onUpload}
+          />
+          <FieldError message={error} />
+        </div>
+      );
+
+    case 'checkbox':
+      return (
+        <div>
+          <ChoiceInput type="checkbox" checked={value === true} label={field.label} onChange={() => onChange(value !== true)} />
+          {field.help && <p className="text-xs opacity-40 mt-1.5 ml-6 leading-relaxed">{field.help}</p>}
+          <FieldError message={error} />
+        </div>
+      );
+
+    case 'yes_no':
+      return (
+        <Shell field={field} error={error}>
+          <div className="flex flex-wrap gap-4">
+            <ChoiceInput type="radio" name={errorKey} checked={value === true} label="Yes" onChange={() => onChange(true)} />
+            <ChoiceInput type="radio" name={errorKey} checked={value === false} label="No" onChange={() => onChange(false)} />
+          </div>
+        </Shell>
+      );
+
+    case 'radio':
+      return (
+        <Shell field={field} error={error}>
+          <div className="flex flex-col gap-2">
+            {(field.options || []).map(opt => (
+              <ChoiceInput key={opt.value} type="radio" name={errorKey} checked={value === opt.value} label={opt.label} onChange={() => onChange(opt.value)} />
+            ))}
+          </div>
+        </Shell>
+      );
+
+    case 'checkboxes': {
+      const selected = Array.isArray(value) ? (value as string[]) : [];
+      const toggle = (v: string) => onChange(selected.includes(v) ? selected.filter(s => s !== v) : [...selected, v]);
+      return (
+        <Shell field={field} error={error}>
+          <div className="flex flex-col gap-2">
+            {(field.options || []).map(opt => (
+              <ChoiceInput key={opt.value} type="checkbox" checked={selected.includes(opt.value)} label={opt.label} onChange={() => toggle(opt.value)} />
+            ))}
+          </div>
+        </Shell>
+      );
+    }
+
+    case 'select':
+      return (
+        <Shell field={field} error={error}>
+          <select
+            value={text}
+            onChange={e => onChange(e.target.value)}
+            className={inputCls}
+            style={{ ...inputStyle(!!error), backgroundImage: 'none' }}
+          >
+            <option value="">Select</option>
+            {(field.options || []).map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+        </Shell>
+      );
+
+    case 'textarea':
+      return (
+        <Shell field={field} error={error}>
+          <textarea value={text} onChange={e => onChange(e.target.value)} rows={3} className={inputCls} style={inputStyle(!!error)} />
+        </Shell>
+      );
+
+    case 'attachment':
+      return (
+        <Shell field={field} error={error}>
+          <AttachmentInput
+            field={field}
+            value={value && typeof value === 'object' && !Array.isArray(value) ? (value as AttachmentValue) : null}
+            onChange={onChange}
+            onUpload={onUpload}
+          />
+        </Shell>
+      );
+
+    default:
+      return (
+        <Shell field={field} error={error}>
+          <input
+            type={INPUT_TYPES[field.type] || 'text'}
+            inputMode={field.type === 'number' || field.type === 'currency' ? 'decimal' : undefined}
+            value={text}
+            onChange={e => onChange(e.target.value)}
+            className={inputCls}
+            style={inputStyle(!!error)}
+          />
+        </Shell>
+      );
+  }
+}
+
+/** Lays fields out on a six-column grid according to their width. */
+export function FieldGrid({
+  fields, values, onChange, responses, errors, errorPrefix = '', onUpload,
+}: {
+  fields: ApplicationField[];
+  values: FieldValues;
+  onChange: (fieldId: string, v: FieldValue) => void;
+  responses: ApplicationResponses;
+  errors: ValidationErrors;
+  errorPrefix?: string;
+  onUpload: UploadHandler;
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-6 gap-4">
+      {fields.map(field => (
+        <div
+          key={field.id}
+          className={field.type === 'group' || field.type === 'note' ? 'sm:col-span-6' : WIDTH_CLS[field.width || 'full']}
+        >
+          <SchemaField
+            field={field}
+            value={values[field.id]}
+            onChange={v => onChange(field.id, v)}
+            responses={responses}
+            errors={errors}
+            errorKey={`${errorPrefix}${field.id}`}
+            onUpload={onUpload}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ─── Signature pad ──────────────────────────────────────────────────────────────
+/** Dark ink on a light pad, so the captured PNG reads on the printed form. */
+function SignaturePad({ onChange }: { onChange: (data: string) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  function point(e: React.MouseEvent | React.TouchEvent) {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
+    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
+    return {
+      x: (clientX - rect.left) * (canvas.width / rect.width),
+      y: (clientY - rect.top) * (canvas.height / rect.height),
+    };
+  }
+  function startDraw(e: React.MouseEvent | React.TouchEvent) {
+    const ctx = canvasRef.current?.getContext('2d'); if (!ctx) return;
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.beginPath(); ctx.moveTo(x, y);
+  }
+  function draw(e: React.MouseEvent | React.TouchEvent) {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current?.getContext('2d'); if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y); ctx.strokeStyle = INK; ctx.lineWidth = 2; ctx.lineCap = 'round'; ctx.stroke();
+  }
+  function endDraw() {
+    if (!drawing.current) return;
+    drawing.current = false;
+    const canvas = canvasRef.current; if (!canvas) return;
+    onChange(canvas.toDataURL('image/png'));
+  }
+  function clearCanvas() {
+    const canvas = canvasRef.current; if (!canvas) return;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange('');
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-sm overflow-hidden relative" style={{ border: `1px solid ${GOLD}66`, backgroundColor: '#FBFAF7' }}>
+        <canvas
+          ref={canvasRef}
+          width={500} height={130}
+          className="w-full touch-none cursor-crosshair"
+          onMouseDown={startDraw} onMouseMove={draw} onMouseUp={endDraw} onMouseLeave={endDraw}
+          onTouchStart={startDraw} onTouchMove={draw} onTouchEnd={endDraw}
+        />
+        <p className="absolute bottom-2 right-3 text-xs" style={{ color: INK, opacity: 0.25, pointerEvents: 'none' }}>
+          Sign here
+        </p>
+      </div>
+      <button type="button" onClick={clearCanvas} className="text-xs transition-opacity hover:opacity-80" style={{ color: GOLD }}>
+        Clear signature
+      </button>
+    </div>
+  );
+}
+
+// ─── Signature block ────────────────────────────────────────────────────────────
+export function SignatureBlockInput({
+  block, entries, onChange, errors,
+}: {
+  block: SignatureBlock;
+  entries: SignatureEntry[];
+  onChange: (entries: SignatureEntry[]) => void;
+  errors: ValidationErrors;
+}) {
+  const update = (index: number, patch: Partial<SignatureEntry>) => {
+    const next = [...entries];
+    next[index] = { ...next[index], ...patch };
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-xl font-semibold" style={{ fontFamily: SERIF, color: CREAM }}>{block.label}</h3>
+        {block.description && <p className="text-sm opacity-60 leading-relaxed mt-1">{block.description}</p>}
+        <FieldError message={errors[`signatures.${block.id}`]} />
+      </div>
+
+      {entries.map((entry, i) => {
+        const key = `signatures.${block.id}.${i}`;
+        return (
+          <div key={i} className="rounded-sm border p-5 space-y-5" style={{ borderColor: `${GOLD}33` }}>
+            <div className="flex items-center justify-between">
+              <p className="text-base font-semibold" style={{ fontFamily: SERIF, color: GOLD }}>Signatory {i + 1}</p>
+              {entries.length > block.min_signers && (
+                <button
+                  type="button"
+                  onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                  className="text-xs opacity-40 hover:opacity-70 flex items-center gap-1"
+                >
+                  <Trash2 size={12} /> Remove
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className={labelCls} style={labelStyle}>Full Name <span style={{ color: GOLD }}>*</span></label>
+                <input value={entry.name} onChange={e => update(i, { name: e.target.value })} className={inputCls} style={inputStyle(!!errors[`${key}.name`])} />
+                <FieldError message={errors[`${key}.name`]} />
+              </div>
+              <div>
+                <label className={labelCls} style={labelStyle}>Date <span style={{ color: GOLD }}>*</span></label>
+                <input type="date" value={entry.date} onChange={e => update(i, { date: e.target.value })} className={inputCls} style={inputStyle(!!errors[`${key}.date`])} />
+                <FieldError message={errors[`${key}.date`]} />
+              </div>
+            </div>
+
+            {!!block.capacities?.length && (
+              <div>
+                <label className={labelCls} style={labelStyle}>Capacity <span style={{ color: GOLD }}>*</span></label>
+                <select
+                  value={entry.capacity}
+                  onChange={e => update(i, { capacity: e.target.value })}
+                  className={inputCls}
+                  style={{ ...inputStyle(!!errors[`${key}.capacity`]), backgroundImage: 'none' }}
+                >
+                  <option value="">Select capacity</option>
+                  {block.capacities.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <FieldError message={errors[`${key}.capacity`]} />
+              </div>
+            )}
+
+            <div>
+              <p className={labelCls} style={labelStyle}>Signature Method</p>
+              <div className="flex gap-3 mb-4">
+                {([['draw', <PenLine size={14} />, 'Draw Signature'], ['type', <Type size={14} />, 'Type Signature']] as [SignatureEntry['method'], React.ReactNode, string][]).map(([val, icon, lbl]) => (
+                  <button
+                    key={val}
+                    type="button"
+                    onClick={() => update(i, { method: val, data: '' })}
+                    className="flex items-center gap-2 px-4 py-2 rounded-sm text-xs font-semibold transition-all"
+                    style={{
+                      backgroundColor: entry.method === val ? GOLD : 'rgba(255,255,255,0.07)',
+                      color: entry.method === val ? GREEN : CREAM,
+                      border: `1px solid ${entry.method === val ? GOLD : 'rgba(255,255,255,0.14)'}`,
+                    }}
+                  >
+                    {icon} {lbl}
+                  </button>
+                ))}
+              </div>
+
+              {entry.method === 'draw' ? (
+                <SignaturePad onChange={data => update(i, { data })} />
+              ) : (
+                <div>
+                  <label className={labelCls} style={labelStyle}>Type your full name to create your signature</label>
+                  <input value={entry.data} onChange={e => update(i, { data: e.target.value })} placeholder="Your full legal name" className={inputCls} style={inputStyle(!!errors[`${key}.data`])} />
+                  {entry.data && (
+                    <div
+                      className="mt-3 px-4 py-6 rounded-sm flex items-center justify-center"
+                      style={{ borderBottom: `2px solid ${GOLD}99`, backgroundColor: 'rgba(255,255,255,0.03)' }}
+                    >
+                      <span style={{ fontFamily: 'Georgia, serif', fontSize: 28, fontStyle: 'italic', color: CREAM, letterSpacing: 2 }}>
+                        {entry.data}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+              <FieldError message={errors[`${key}.data`]} />
+            </div>
+
+            {block.witness && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t" style={{ borderColor: 'rgba(255,255,255,0.08)' }}>
+                <div>
+                  <label className={labelCls} style={labelStyle}>Witness Full Name <span style={{ color: GOLD }}>*</span></label>
+                  <input value={entry.witness_name} onChange={e => update(i, { witness_name: e.target.value })} className={inputCls} style={inputStyle(!!errors[`${key}.witness_name`])} />
+                  <FieldError message={errors[`${key}.witness_name`]} />
+                </div>
+                <div>
+                  <label className={labelCls} style={labelStyle}>Witness Date</label>
+                  <input type="date" value={entry.witness_date} onChange={e => update(i, { witness_date: e.target.value })} className={inputCls} style={inputStyle()} />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {entries.length < block.max_signers && (
+        <button
+          type="button"
+          onClick={() => onChange([...entries, { ...BLANK_SIGNATURE }])}
+          className="flex items-center gap-2 text-sm py-2.5 px-4 rounded-sm"
+          style={{ backgroundColor: 'rgba(184,147,74,0.1)', color: GOLD, border: `1px solid ${GOLD}33` }}
+        >
+          <Plus size={14} /> Add Signatory
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Download, Loader2, X } from 'lucide-react';
+import { fetchVaultDocument, recordVaultViewTime, type VaultRoomDocument } from '../../lib/dataRoom';
+
+interface VaultDocumentViewerProps {
+  sessionToken: string;
+  document: VaultRoomDocument;
+  onClose: () => void;
+  onDownload: (doc: VaultRoomDocument) => void;
+}
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Full-screen viewer for a watermarked vault document. Time on document is
+ * reported in heartbeats while the tab is visible, plus whatever remains
+ * when the viewer closes.
+ */
+export default function VaultDocumentViewer({ sessionToken, document: doc, onClose, onDownload }: VaultDocumentViewerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const eventId = useRef<string | null>(null);
+  const lastBeat = useRef(Date.now());
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    fetchVaultDocument(sessionToken, doc.id, 'view')
+      .then(({ blob, eventId: id }) => {
+        if (cancelled) return;
+        eventId.current = id;
+        lastBeat.current = Date.now();
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((err) => { if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load document'); });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [sessionToken, doc.id]);
+
+  useEffect(() => {
+    const beat = (force = false) => {
+      if (!eventId.current) return;
+      const elapsed = Math.round((Date.now() - lastBeat.current) / 1000);
+      lastBeat.current = Date.now();
+      if (elapsed <= 0 || (!force && document.visibilityState !== 'visible')) return;
+      recordVaultViewTime(sessionToken, eventId.current, elapsed).catch(() => {});
+    };
+
+    const interval = setInterval(() => beat(), HEARTBEAT_MS);
+    // Time spent in another tab is not time on document
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') lastBeat.current = Date.now();
+      else beat(true);
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibility);
+      if (document.visibilityState === 'visible') beat(true);
+    };
+  }, [sessionToken]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col" style={{ backgroundColor: 'rgba(8,20,15,0.96)' }}>
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+        <h2
+          className="text-lg font-semibold truncate"
+          style={{ fontFamily: '"Cormorant Garamond", Georgia, serif', color: '#F5F2EE' }}
+        >
+          {doc.document_name}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onDownload(doc)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-sm text-xs font-semibold"
+            style={{ backgroundColor: 'rgba(184,147,74,0.12)', color: '#B8934A', border: '1px solid rgba(184,147,74,0.25)' }}
+          >
+            <Download size={13} />
+            Download
+          </button>
+          <button onClick={onClose} className="p-2 opacity-60 hover:opacity-100" style={{ color: '#F5F2EE' }}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center">
+        {error ? (
+          <div className="text-center text-sm" style={{ color: '#F5F2EE' }}>
+            <AlertCircle size={32} className="mx-auto mb-3 opacity-40" />
+            <p className="opacity-60">{error}</p>
+          </div>
+        ) : url ? (
+          <iframe src={url} title={doc.document_name} className="w-full h-full border-0 bg-white" />
+        ) : (
+          <Loader2 size={28} className="animate-spin opacity-50" style={{ color: '#B8934A' }} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// ─── Vault brand tokens ────────────────────────────────────────────────────────
+export const GREEN  = '#0E2219';
+export const GOLD   = '#B8934A';
+export const CREAM  = '#F5F2EE';
+export const SERIF  = '"Cormorant Garamond", Georgia, serif';
+export const SANS   = '"Nunito Sans", system-ui, sans-serif';
+/** Signature ink; drawn signatures are embedded on the white PDF page. */
+export const INK    = '#1A1A2E';
+
+// ─── Shared field styles ───────────────────────────────────────────────────────
+export const inputCls = 'w-full px-3 py-2.5 rounded-sm text-sm focus:outline-none transition-all';
+export const inputStyle = (invalid?: boolean) => ({
+  backgroundColor: 'rgba(255,255,255,0.07)',
+  border: `1px solid ${invalid ? 'rgba(239,68,68,0.6)' : 'rgba(255,255,255,0.14)'}`,
+  color: CREAM,
+});
+export const labelCls = 'block text-xs font-semibold uppercase tracking-widest mb-1.5';
+export const labelStyle = { color: 'rgba(245,242,238,0.55)' };
@@ -0,0 +1,366 @@
+import { PDFDocument, PDFFont, PDFForm, PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+import {
+  ApplicationField,
+  ApplicationResponses,
+  ApplicationSchema,
+  FieldValues,
+  SignatureBlock,
+  SignatureEntry,
+  formatFieldValue,
+  investorTypeLabel,
+  visibleFields,
+  visibleSections,
+  visibleSignatureBlocks,
+} from './applicationSchema';
+import { DocumentBranding, hexToRgb, safe } from './pdfDocument';
+
+/**
+ * Subscription application PDF built from a tenant's schema, laid out like
+ * scripts/generate-application-pdf.ts: section bars, labelled AcroForm fields
+ * and signature boxes. Without responses it is a blank fillable form covering
+ * every section; with responses only the sections the applicant completed are
+ * included, fields are filled in and the form is flattened.
+ */
+
+// A4 layout, matching scripts/generate-application-pdf.ts
+const PW = 595.28;
+const PH = 841.89;
+const ML = 50;
+const MB = 55;
+const CW = PW - ML - 50;
+
+const TEXT = rgb(0x1A / 255, 0x1A / 255, 0x1A / 255);
+const SUBTLE = rgb(0x4A / 255, 0x4A / 255, 0x4A / 255);
+const BORDER = rgb(0.78, 0.78, 0.78);
+const WHITE = rgb(1, 1, 1);
+const TINT = rgb(0.96, 0.96, 0.96);
+
+const FIELD_H = 14;
+const ROW_H = FIELD_H + 11 + 5;
+const WIDTHS = { full: 1, half: 0.5, third: 1 / 3 };
+
+interface Fonts { r: PDFFont; b: PDFFont; i: PDFFont; }
+
+interface St {
+  doc: PDFDocument;
+  form: PDFForm;
+  f: Fonts;
+  brand: RGB;
+  header: string;
+  page: PDFPage;
+  y: number;
+  n: number;
+  filled: boolean;
+}
+
+// ─── Page management ─────────────────────────────────────────────────────────
+
+function newPage(st: St): void {
+  st.page = st.doc.addPage([PW, PH]);
+  st.n += 1;
+  st.page.drawRectangle({ x: 0, y: PH - 24, width: PW, height: 24, color: st.brand });
+  st.page.drawText(st.header, { x: ML, y: PH - 16, size: 7.5, font: st.f.r, color: WHITE });
+  st.page.drawText(`Page ${st.n}`, { x: PW - 90, y: PH - 16, size: 7, font: st.f.r, color: WHITE });
+  st.y = PH - 40;
+}
+
+function ensure(st: St, h: number): void {
+  if (st.y - h < MB) newPage(st);
+}
+
+function wrap(text: string, maxW: number, font: PDFFont, size: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of safe(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const test = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(test, size) > maxW && line) { lines.push(line); line = word; }
+      else line = test;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function body(st: St, text: string, size = 8.5, color: RGB = TEXT, indent = 0): void {
+  for (const line of wrap(text, CW - indent - 4, st.f.r, size)) {
+    ensure(st, 13);
+    st.page.drawText(line, { x: ML + indent, y: st.y - 9, size, font: st.f.r, color });
+    st.y -= 12;
+  }
+}
+
+// ─── Section bars ────────────────────────────────────────────────────────────
+
+function secBar(st: St, num: number, title: string): void {
+  ensure(st, 60);
+  st.y -= 6;
+  st.page.drawRectangle({ x: ML, y: st.y - 18, width: CW, height: 18, color: st.brand });
+  st.page.drawText(safe(`${num}   ${title.toUpperCase()}`), { x: ML + 8, y: st.y - 13, size: 8.5, font: st.f.b, color: WHITE });
+  st.y -= 22;
+}
+
+function subBar(st: St, title: string): void {
+  ensure(st, 40);
+  st.y -= 4;
+  st.page.drawRectangle({ x: ML, y: st.y - 15, width: CW, height: 15, color: TINT });
+  st.page.drawLine({ start: { x: ML, y: st.y - 15 }, end: { x: ML + CW, y: st.y - 15 }, thickness: 0.5, color: st.brand });
+  st.page.drawText(safe(title), { x: ML + 6, y: st.y - 11, size: 8, font: st.f.b, color: st.brand });
+  st.y -= 19;
+}
+
+// ─── Field primitives ────────────────────────────────────────────────────────
+
+function textField(st: St, name: string, label: string, x: number, w: number, value: string, multi = false): number {
+  const fh = multi ? FIELD_H * 3 : FIELD_H;
+  const labelText = wrap(label, w, st.f.r, 7)[0] ?? '';
+  st.page.drawText(labelText, { x, y: st.y - 8, size: 7, font: st.f.r, color: SUBTLE });
+  const fy = st.y - 11 - fh;
+  st.page.drawLine({ start: { x, y: fy + 2 }, end: { x: x + w, y: fy + 2 }, thickness: 0.5, color: st.brand });
+  const field = st.form.createTextField(name);
+  if (multi) field.enableMultiline();
+  if (value) field.setText(safe(value));
+  field.addToPage(st.page, { x, y: fy, width: w, height: fh, borderWidth: 0, backgroundColor: WHITE, font: st.f.r });
+  field.setFontSize(multi ? 8 : 9);
+  return fh + 16;
+}
+
+function checkBox(st: St, name: string, label: string, checked: boolean, indent = 0): void {
+  ensure(st, 16);
+  const bx = ML + indent;
+  const by = st.y - 13;
+  st.page.drawRectangle({ x: bx, y: by, width: 11, height: 11, borderColor: st.brand, borderWidth: 0.75, color: WHITE });
+  const cb = st.form.createCheckBox(name);
+  cb.addToPage(st.page, { x: bx, y: by, width: 11, height: 11, borderWidth: 0.5, borderColor: st.brand, backgroundColor: WHITE });
+  if (checked) cb.check();
+  const lines = wrap(label, CW - indent - 18, st.f.r, 8.5);
+  st.page.drawText(lines[0] ?? '', { x: bx + 15, y: by + 2, size: 8.5, font: st.f.r, color: TEXT });
+  st.y -= 16;
+  for (const line of lines.slice(1)) {
+    ensure(st, 12);
+    st.page.drawText(line, { x: bx + 15, y: st.y - 8, size: 8.5, font: st.f.r, color: TEXT });
+    st.y -= 12;
+  }
+}
+
+/** Choice questions: filled forms state the answer, blank forms list every option with a tick box. */
+function choiceField(st: St, name: string, field: ApplicationField, value: unknown): void {
+  const options = field.type === 'yes_no' ? [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }] : field.options || [];
+  body(st, field.label, 8.5, TEXT);
+  for (const option of options) {
+    const checked =
+      field.type === 'yes_no'
+        ? value === (option.value === 'yes')
+        : Array.isArray(value) ? value.includes(option.value) : value === option.value;
+    if (st.filled && !checked) continue;
+    checkBox(st, `${name}-${option.value}`, option.label, checked, 8);
+  }
+  st.y -= 2;
+}
+
+function isInline(field: ApplicationField): boolean {
+  return !['select', 'radio', 'checkboxes', 'yes_no', 'checkbox', 'note', 'group', 'textarea'].includes(field.type);
+}
+
+// ─── Fields ──────────────────────────────────────────────────────────────────
+
+function renderFields(
+  st: St,
+  fields: ApplicationField[],
+  values: FieldValues,
+  responses: ApplicationResponses | null,
+  prefix = ''
+): void {
+  let row: ApplicationField[] = [];
+
+  const flushRow = () => {
+    if (row.length === 0) return;
+    ensure(st, ROW_H);
+    let x = ML;
+    let height = 0;
+    for (const field of row) {
+      const w = Math.floor(CW * WIDTHS[field.width || 'full']) - (row.length > 1 ? 6 : 0);
+      height = Math.max(height, textField(st, `${prefix}${field.id}`, field.label, x, w, formatFieldValue(field, values[field.id])));
+      x += w + 8;
+    }
+    st.y -= height;
+    row = [];
+  };
+
+  for (const field of fields) {
+    if (isInline(field)) {
+      const used = row.reduce((sum, f) => sum + WIDTHS[f.width || 'full'], 0);
+      if (used + WIDTHS[field.width || 'full'] > 1.01) flushRow();
+      row.push(field);
+      continue;
+    }
+
+    flushRow();
+    const name = `${prefix}${field.id}`;
+    const value = values[field.id];
+
+    switch (field.type) {
+      case 'textarea':
+        ensure(st, FIELD_H * 3 + 20);
+        st.y -= textField(st, name, field.label, ML, CW, formatFieldValue(field, value), true);
+        break;
+      case 'checkbox':
+        checkBox(st, name, field.label, value === true);
+        break;
+      case 'note':
+        subBar(st, field.label);
+        if (field.help) body(st, field.help, 8, SUBTLE);
+        st.y -= 4;
+        break;
+      case 'group': {
+        subBar(st, field.label);
+        const rows = st.filled && Array.isArray(value) ? (value as FieldValues[]) : [{}, {}];
+        rows.forEach((item, index) => {
+          body(st, `${field.item_label ? field.item_label.charAt(0).toUpperCase() + field.item_label.slice(1) : 'Entry'} ${index + 1}`, 7.5, SUBTLE);
+          const subFields = responses ? visibleFields(field.fields || [], responses, item) : field.fields || [];
+          renderFields(st, subFields, item, responses, `${name}-${index}-`);
+        });
+        break;
+      }
+      default:
+        choiceField(st, name, field, value);
+    }
+  }
+  flushRow();
+}
+
+// ─── Signatures ──────────────────────────────────────────────────────────────
+
+async function signatureBox(st: St, x: number, w: number, entry: SignatureEntry | null): Promise<void> {
+  st.page.drawRectangle({ x, y: st.y - 52, width: w, height: 44, borderColor: st.brand, borderWidth: 0.75, color: WHITE });
+
+  if (!entry?.data) {
+    st.page.drawText('Sign here', { x: x + 6, y: st.y - 32, size: 7, font: st.f.r, color: BORDER });
+    return;
+  }
+
+  if (entry.method === 'draw' && entry.data.startsWith('data:image/png')) {
+    const image = await st.doc.embedPng(entry.data);
+    const scale = Math.min((w - 8) / image.width, 40 / image.height);
+    st.page.drawImage(image, { x: x + 4, y: st.y - 50, width: image.width * scale, height: image.height * scale });
+  } else {
+    st.page.drawText(safe(entry.data), { x: x + 8, y: st.y - 34, size: 16, font: st.f.i, color: TEXT });
+  }
+}
+
+async function renderSignatureBlock(st: St, block: SignatureBlock, entries: SignatureEntry[]): Promise<void> {
+  subBar(st, block.label);
+  if (block.description) body(st, block.description, 8, SUBTLE);
+
+  const slots: (SignatureEntry | null)[] = st.filled ? entries : Array.from({ length: Math.min(block.max_signers, 2) }, () => null);
+
+  for (let index = 0; index < slots.length; index++) {
+    const entry = slots[index];
+    const name = `${block.id}-${index}`;
+    ensure(st, ROW_H * 2 + 60);
+    body(st, `Signatory ${index + 1}`, 7.5, SUBTLE);
+
+    const half = Math.floor(CW / 2) - 4;
+    let height = textField(st, `${name}-name`, 'Full name', ML, half, entry?.name || '');
+    textField(st, `${name}-capacity`, 'Capacity', ML + half + 8, half, entry?.capacity || '');
+    st.y -= height;
+    height = textField(st, `${name}-date`, 'Date', ML, half, entry?.date || '');
+    st.y -= height;
+
+    st.page.drawText('Signature:', { x: ML, y: st.y - 6, size: 7.5, font: st.f.r, color: SUBTLE });
+    await signatureBox(st, ML, CW * 0.52, entry);
+    if (block.witness) {
+      const wx = ML + CW * 0.56;
+      st.page.drawText('Witness:', { x: wx, y: st.y - 6, size: 7.5, font: st.f.r, color: SUBTLE });
+      st.page.drawRectangle({ x: wx, y: st.y - 52, width: CW * 0.44, height: 44, borderColor: st.brand, borderWidth: 0.75, color: WHITE });
+    }
+    st.y -= 58;
+
+    if (block.witness) {
+      height = textField(st, `${name}-witness-name`, 'Witness full name', ML, half, entry?.witness_name || '');
+      textField(st, `${name}-witness-date`, 'Witness date', ML + half + 8, half, entry?.witness_date || '');
+      st.y -= height;
+    }
+    st.y -= 6;
+  }
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+export async function renderApplicationPdf(
+  schema: ApplicationSchema,
+  branding: DocumentBranding,
+  responses: ApplicationResponses | null = null
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(safe(`${branding.tenantName} - ${schema.title}`));
+  doc.setAuthor(safe(branding.tenantName));
+  doc.setSubject(safe(schema.subtitle || schema.title));
+
+  const f: Fonts = {
+    r: await doc.embedFont(StandardFonts.Helvetica),
+    b: await doc.embedFont(StandardFonts.HelveticaBold),
+    i: await doc.embedFont(StandardFonts.HelveticaOblique),
+  };
+  const brand = hexToRgb(branding.primaryColor);
+  const firstPage = doc.addPage([PW, PH]);
+
+  firstPage.drawRectangle({ x: 0, y: PH - 72, width: PW, height: 72, color: brand });
+  firstPage.drawText(safe(branding.tenantName.toUpperCase()), { x: ML, y: PH - 30, size: 13, font: f.b, color: WHITE });
+  firstPage.drawText(safe([schema.title, schema.subtitle].filter(Boolean).join('  |  ')), { x: ML, y: PH - 47, size: 8, font: f.r, color: WHITE });
+
+  const st: St = {
+    doc,
+    form: doc.getForm(),
+    f,
+    brand,
+    header: safe(`${branding.tenantName.toUpperCase()}  -  ${schema.title}`),
+    page: firstPage,
+    y: PH - 84,
+    n: 1,
+    filled: responses !== null,
+  };
+
+  let num = 1;
+
+  secBar(st, num++, 'Investor Type');
+  if (responses) {
+    st.y -= textField(st, 'investor_type', 'Applying as', ML, CW, investorTypeLabel(schema, responses.investor_type));
+  } else {
+    body(st, 'Tick one. Sections marked with an investor type apply only to those investors.', 8, SUBTLE);
+    for (const option of schema.investor_types) checkBox(st, `investor_type-${option.value}`, option.label, false);
+  }
+
+  const sections = responses ? visibleSections(schema, responses) : schema.sections;
+  for (const section of sections) {
+    secBar(st, num++, section.title);
+    if (!responses && section.investor_types?.length) {
+      body(st, `Complete if applying as: ${section.investor_types.map((t) => investorTypeLabel(schema, t)).join(', ')}`, 7.5, SUBTLE);
+    }
+    if (section.description) body(st, section.description, 8, SUBTLE);
+    st.y -= 2;
+    const fields = responses ? visibleFields(section.fields, responses) : section.fields;
+    renderFields(st, fields, responses?.values ?? {}, responses);
+  }
+
+  if (schema.declaration) {
+    secBar(st, num++, schema.declaration.title);
+    body(st, schema.declaration.text);
+    st.y -= 4;
+    checkBox(st, 'declaration_agreed', schema.declaration.agree_label, responses?.declaration_agreed ?? false);
+  }
+
+  secBar(st, num++, 'Execution');
+  const blocks = responses ? visibleSignatureBlocks(schema, responses) : schema.signatures;
+  for (const block of blocks) {
+    await renderSignatureBlock(st, block, responses?.signatures[block.id] || []);
+  }
+
+  if (schema.contact_email) {
+    st.y -= 8;
+    body(st, `Return completed applications to ${schema.contact_email}`, 8, SUBTLE);
+  }
+
+  if (responses) st.form.flatten();
+  return doc.save();
+}
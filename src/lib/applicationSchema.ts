@@ -0,0 +1,617 @@
+import { supabase } from './supabase';
+
+/**
+ * Tenant-defined subscription application forms. A schema lists the investor
+ * types a tenant accepts, the sections and fields to collect (each optionally
+ * limited to some investor types or to earlier answers), required attachments
+ * and signature blocks. The same schema drives the web form, validation, the
+ * `investor_applications` row and the filled PDF.
+ */
+
+export type ApplicationFieldType =
+  | 'text'
+  | 'email'
+  | 'phone'
+  | 'date'
+  | 'number'
+  | 'currency'
+  | 'textarea'
+  | 'select'
+  | 'radio'
+  | 'checkboxes'
+  | 'yes_no'
+  | 'checkbox'
+  | 'attachment'
+  | 'group'
+  | 'note';
+
+/** Applicant fields copied onto `investor_applications` columns for listing and notifications. */
+export const PROMOTED_COLUMNS = [
+  'contact_title',
+  'contact_given_names',
+  'contact_surname',
+  'contact_email',
+  'contact_phone',
+  'postal_address',
+  'postal_suburb',
+  'postal_state',
+  'postal_postcode',
+  'postal_country',
+] as const;
+
+export type PromotedColumn = (typeof PROMOTED_COLUMNS)[number];
+
+export interface ApplicationOption {
+  value: string;
+  label: string;
+}
+
+/** Shown only when the referenced answer matches; `investor_type` refers to the selected investor type. */
+export interface FieldCondition {
+  field: string;
+  equals?: string | boolean;
+  in?: string[];
+}
+
+export interface ApplicationField {
+  id: string;
+  type: ApplicationFieldType;
+  label: string;
+  help?: string;
+  required?: boolean;
+  options?: ApplicationOption[];
+  investor_types?: string[];
+  visible_when?: FieldCondition[];
+  pattern?: string;
+  pattern_message?: string;
+  width?: 'full' | 'half' | 'third';
+  column?: PromotedColumn;
+  /** Counted towards total_committed_capital. */
+  commitment?: boolean;
+  /** Left out of notification emails, e.g. tax file and bank account numbers. */
+  sensitive?: boolean;
+  /** Repeating rows for `group` fields. */
+  fields?: ApplicationField[];
+  min_items?: number;
+  max_items?: number;
+  item_label?: string;
+  /** File types for `attachment` fields, as for an input's accept attribute. */
+  accept?: string;
+}
+
+export interface ApplicationSection {
+  id: string;
+  title: string;
+  description?: string;
+  investor_types?: string[];
+  visible_when?: FieldCondition[];
+  fields: ApplicationField[];
+}
+
+export interface SignatureBlock {
+  id: string;
+  label: string;
+  description?: string;
+  investor_types?: string[];
+  min_signers: number;
+  max_signers: number;
+  capacities?: string[];
+  witness?: boolean;
+}
+
+export interface ApplicationDeclaration {
+  title: string;
+  text: string;
+  agree_label: string;
+}
+
+export interface ApplicationSchema {
+  title: string;
+  subtitle?: string;
+  contact_email?: string;
+  notification_emails?: string[];
+  investor_types: ApplicationOption[];
+  sections: ApplicationSection[];
+  declaration?: ApplicationDeclaration;
+  signatures: SignatureBlock[];
+  submitted_message?: string;
+}
+
+export type ApplicationSchemaStatus = 'draft' | 'published' | 'archived';
+
+export interface ApplicationSchemaRecord {
+  id: string;
+  tenant_id: string;
+  version: number;
+  name: string;
+  schema: ApplicationSchema;
+  status: ApplicationSchemaStatus;
+  published_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AttachmentValue {
+  name: string;
+  path: string;
+  size: number;
+}
+
+export type FieldValue = string | boolean | null | string[] | AttachmentValue | FieldValues[];
+
+export interface FieldValues {
+  [fieldId: string]: FieldValue;
+}
+
+export interface SignatureEntry {
+  name: string;
+  capacity: string;
+  date: string;
+  method: 'draw' | 'type';
+  data: string;
+  witness_name: string;
+  witness_date: string;
+}
+
+export interface ApplicationResponses {
+  investor_type: string;
+  values: FieldValues;
+  signatures: Record<string, SignatureEntry[]>;
+  declaration_agreed: boolean;
+}
+
+export type ValidationErrors = Record<string, string>;
+
+export const FIELD_TYPE_LABELS: Record<ApplicationFieldType, string> = {
+  text: 'Short text',
+  email: 'Email',
+  phone: 'Phone',
+  date: 'Date',
+  number: 'Number',
+  currency: 'Amount',
+  textarea: 'Long text',
+  select: 'Dropdown',
+  radio: 'Single choice',
+  checkboxes: 'Multiple choice',
+  yes_no: 'Yes / No',
+  checkbox: 'Tick box',
+  attachment: 'File upload',
+  group: 'Repeating group',
+  note: 'Information text',
+};
+
+export const OPTION_FIELD_TYPES: ApplicationFieldType[] = ['select', 'radio', 'checkboxes'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const BLANK_SIGNATURE: SignatureEntry = {
+  name: '',
+  capacity: '',
+  date: '',
+  method: 'type',
+  data: '',
+  witness_name: '',
+  witness_date: '',
+};
+
+// ─── Visibility ──────────────────────────────────────────────────────────────
+
+function conditionMet(condition: FieldCondition, investorType: string, values: FieldValues): boolean {
+  const actual = condition.field === 'investor_type' ? investorType : values[condition.field];
+
+  if (condition.in) {
+    if (Array.isArray(actual)) return actual.some((v) => typeof v === 'string' && condition.in!.includes(v));
+    return typeof actual === 'string' && condition.in.includes(actual);
+  }
+  if (condition.equals !== undefined) {
+    if (Array.isArray(actual)) return actual.some((v) => v === condition.equals);
+    return actual === condition.equals;
+  }
+  return actual !== null && actual !== undefined && actual !== '' && actual !== false;
+}
+
+function isShown(
+  item: { investor_types?: string[]; visible_when?: FieldCondition[] },
+  investorType: string,
+  values: FieldValues
+): boolean {
+  if (item.investor_types?.length && !item.investor_types.includes(investorType)) return false;
+  return (item.visible_when || []).every((condition) => conditionMet(condition, investorType, values));
+}
+
+export function visibleSections(schema: ApplicationSchema, responses: ApplicationResponses): ApplicationSection[] {
+  return schema.sections.filter((section) => isShown(section, responses.investor_type, responses.values));
+}
+
+/** Fields shown in a section; rows of a group see their own answers ahead of the form's. */
+export function visibleFields(
+  fields: ApplicationField[],
+  responses: ApplicationResponses,
+  row?: FieldValues
+): ApplicationField[] {
+  const values = row ? { ...responses.values, ...row } : responses.values;
+  return fields.filter((field) => isShown(field, responses.investor_type, values));
+}
+
+export function visibleSignatureBlocks(schema: ApplicationSchema, responses: ApplicationResponses): SignatureBlock[] {
+  return schema.signatures.filter((block) => isShown(block, responses.investor_type, responses.values));
+}
+
+// ─── Values ──────────────────────────────────────────────────────────────────
+
+export function emptyFieldValue(field: ApplicationField): FieldValue {
+  switch (field.type) {
+    case 'checkboxes':
+      return [];
+    case 'checkbox':
+      return false;
+    case 'yes_no':
+    case 'attachment':
+      return null;
+    case 'group':
+      return Array.from({ length: field.min_items ?? 1 }, () => emptyGroupRow(field));
+    default:
+      return '';
+  }
+}
+
+export function emptyGroupRow(field: ApplicationField): FieldValues {
+  const row: FieldValues = {};
+  for (const sub of field.fields || []) row[sub.id] = emptyFieldValue(sub);
+  return row;
+}
+
+export function initialResponses(schema: ApplicationSchema): ApplicationResponses {
+  const values: FieldValues = {};
+  for (const section of schema.sections) {
+    for (const field of section.fields) {
+      if (field.type !== 'note') values[field.id] = emptyFieldValue(field);
+    }
+  }
+
+  const signatures: Record<string, SignatureEntry[]> = {};
+  for (const block of schema.signatures) {
+    signatures[block.id] = Array.from({ length: Math.max(block.min_signers, 1) }, () => ({ ...BLANK_SIGNATURE }));
+  }
+
+  return {
+    investor_type: schema.investor_types.length === 1 ? schema.investor_types[0].value : '',
+    values,
+    signatures,
+    declaration_agreed: false,
+  };
+}
+
+function isEmpty(value: FieldValue | undefined): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+export function parseAmount(value: FieldValue | undefined): number {
+  if (typeof value !== 'string') return 0;
+  const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+export function validateField(field: ApplicationField, value: FieldValue | undefined): string | null {
+  if (field.type === 'note' || field.type === 'group') return null;
+
+  if (isEmpty(value) || (field.type === 'checkbox' && value !== true)) {
+    return field.required ? (field.type === 'attachment' ? 'Please attach this document' : 'Required') : null;
+  }
+
+  if (typeof value === 'string') {
+    if (field.type === 'email' && !EMAIL_PATTERN.test(value.trim())) return 'Enter a valid email address';
+    if ((field.type === 'number' || field.type === 'currency') && Number.isNaN(Number(value.replace(/[, ]/g, '')))) {
+      return 'Enter a number';
+    }
+    if (field.pattern) {
+      try {
+        if (!new RegExp(`^(?:${field.pattern})$`).test(value.trim())) return field.pattern_message || 'Invalid format';
+      } catch {
+        // An invalid pattern is reported to staff by checkSchema; don't block applicants on it
+      }
+    }
+  }
+
+  return null;
+}
+
+function validateFields(
+  fields: ApplicationField[],
+  responses: ApplicationResponses,
+  errors: ValidationErrors,
+  row?: FieldValues,
+  prefix = ''
+) {
+  const source = row ?? responses.values;
+  for (const field of visibleFields(fields, responses, row)) {
+    const key = `${prefix}${field.id}`;
+    const value = source[field.id];
+
+    if (field.type === 'group') {
+      const rows = Array.isArray(value) ? (value as FieldValues[]) : [];
+      if (field.required && rows.length === 0) errors[key] = `Add at least one ${field.item_label || 'entry'}`;
+      if (field.min_items && rows.length < field.min_items) {
+        errors[key] = `At least ${field.min_items} ${field.item_label || 'entries'} required`;
+      }
+      rows.forEach((item, index) => validateFields(field.fields || [], responses, errors, item, `${key}.${index}.`));
+      continue;
+    }
+
+    const message = validateField(field, value);
+    if (message) errors[key] = message;
+  }
+}
+
+export function validateSection(section: ApplicationSection, responses: ApplicationResponses): ValidationErrors {
+  const errors: ValidationErrors = {};
+  validateFields(section.fields, responses, errors);
+  return errors;
+}
+
+export function validateSignatures(schema: ApplicationSchema, responses: ApplicationResponses): ValidationErrors {
+  const errors: ValidationErrors = {};
+
+  if (schema.declaration && !responses.declaration_agreed) {
+    errors.declaration = 'You must accept the declaration';
+  }
+
+  for (const block of visibleSignatureBlocks(schema, responses)) {
+    const entries = responses.signatures[block.id] || [];
+    if (entries.length < block.min_signers) {
+      errors[`signatures.${block.id}`] = `At least ${block.min_signers} signator${block.min_signers === 1 ? 'y' : 'ies'} required`;
+    }
+    entries.forEach((entry, index) => {
+      const key = `signatures.${block.id}.${index}`;
+      if (!entry.name.trim()) errors[`${key}.name`] = 'Required';
+      if (!entry.date) errors[`${key}.date`] = 'Required';
+      if (!entry.data) errors[`${key}.data`] = 'Please sign';
+      if (block.capacities?.length && !entry.capacity) errors[`${key}.capacity`] = 'Required';
+      if (block.witness && !entry.witness_name.trim()) errors[`${key}.witness_name`] = 'Required';
+    });
+  }
+
+  return errors;
+}
+
+export function validateApplication(schema: ApplicationSchema, responses: ApplicationResponses): ValidationErrors {
+  const errors: ValidationErrors = {};
+  if (!responses.investor_type) errors.investor_type = 'Select an investor type';
+
+  for (const section of visibleSections(schema, responses)) {
+    Object.assign(errors, validateSection(section, responses));
+  }
+  return { ...errors, ...validateSignatures(schema, responses) };
+}
+
+/** Problems staff must fix before a schema can be published. */
+export function checkSchema(schema: ApplicationSchema): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>(['investor_type']);
+  const known = new Set<string>(ids);
+  const typeValues = new Set(schema.investor_types.map((t) => t.value));
+
+  if (!schema.title.trim()) problems.push('The form needs a title');
+  if (schema.investor_types.length === 0) problems.push('Add at least one investor type');
+  if (typeValues.size !== schema.investor_types.length) problems.push('Investor type values must be unique');
+  if (schema.sections.length === 0) problems.push('Add at least one section');
+  if (schema.signatures.length === 0) problems.push('Add at least one signature block');
+
+  const checkTypes = (where: string, types?: string[]) => {
+    for (const type of types || []) {
+      if (!typeValues.has(type)) problems.push(`${where} refers to unknown investor type "${type}"`);
+    }
+  };
+
+  const checkFields = (fields: ApplicationField[], where: string, scope: Set<string>) => {
+    for (const field of fields) {
+      const label = `${where} › ${field.label || field.id || 'Untitled field'}`;
+      if (!/^[a-z][a-z0-9_]*$/.test(field.id)) problems.push(`${label}: id must be lower case letters, digits and underscores`);
+      else if (scope.has(field.id)) problems.push(`${label}: id "${field.id}" is used more than once`);
+      scope.add(field.id);
+      known.add(field.id);
+
+      if (!field.label.trim()) problems.push(`${label}: label is required`);
+      if (OPTION_FIELD_TYPES.includes(field.type) && !field.options?.length) problems.push(`${label}: add at least one option`);
+      if (field.type === 'group' && !field.fields?.length) problems.push(`${label}: add fields to the group`);
+      if (field.min_items && field.max_items && field.max_items < field.min_items) {
+        problems.push(`${label}: maximum entries is below the minimum`);
+      }
+      if (field.pattern) {
+        try {
+          new RegExp(field.pattern);
+        } catch {
+          problems.push(`${label}: format pattern is not a valid regular expression`);
+        }
+      }
+      checkTypes(label, field.investor_types);
+      if (field.type === 'group') checkFields(field.fields || [], label, new Set(scope));
+    }
+  };
+
+  const sectionIds = new Set<string>();
+  for (const section of schema.sections) {
+    const where = section.title || 'Untitled section';
+    if (sectionIds.has(section.id)) problems.push(`${where}: section id "${section.id}" is used more than once`);
+    sectionIds.add(section.id);
+    checkTypes(where, section.investor_types);
+    checkFields(section.fields, where, ids);
+  }
+
+  const columns = new Set<string>();
+  const forEachField = (fields: ApplicationField[], fn: (field: ApplicationField) => void) =>
+    fields.forEach((field) => { fn(field); forEachField(field.fields || [], fn); });
+
+  for (const section of schema.sections) {
+    forEachField(section.fields, (field) => {
+      for (const condition of field.visible_when || []) {
+        if (!known.has(condition.field)) problems.push(`${field.label}: condition refers to unknown field "${condition.field}"`);
+      }
+      if (field.column) {
+        if (columns.has(field.column)) problems.push(`${field.label}: ${field.column} is already mapped by another field`);
+        columns.add(field.column);
+      }
+    });
+    for (const condition of section.visible_when || []) {
+      if (!known.has(condition.field)) problems.push(`${section.title}: condition refers to unknown field "${condition.field}"`);
+    }
+  }
+
+  for (const block of schema.signatures) {
+    if (block.min_signers < 1 || block.max_signers < block.min_signers) {
+      problems.push(`${block.label}: signer limits are inconsistent`);
+    }
+    checkTypes(block.label, block.investor_types);
+  }
+
+  return problems;
+}
+
+// ─── Display ─────────────────────────────────────────────────────────────────
+
+export function optionLabel(options: ApplicationOption[] | undefined, value: string): string {
+  return options?.find((o) => o.value === value)?.label ?? value;
+}
+
+export function formatFieldValue(field: ApplicationField, value: FieldValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  switch (field.type) {
+    case 'yes_no':
+      return value === true ? 'Yes' : value === false ? 'No' : '';
+    case 'checkbox':
+      return value === true ? 'Yes' : '';
+    case 'checkboxes':
+      return Array.isArray(value) ? (value as string[]).map((v) => optionLabel(field.options, v)).join(', ') : '';
+    case 'select':
+    case 'radio':
+      return typeof value === 'string' ? optionLabel(field.options, value) : '';
+    case 'attachment':
+      return typeof value === 'object' && !Array.isArray(value) ? (value as AttachmentValue).name : '';
+    case 'group':
+      return Array.isArray(value) ? `${value.length} ${field.item_label || 'entries'}` : '';
+    default:
+      return typeof value === 'string' ? value : '';
+  }
+}
+
+export function investorTypeLabel(schema: ApplicationSchema, value: string): string {
+  return optionLabel(schema.investor_types, value);
+}
+
+// ─── Persistence ─────────────────────────────────────────────────────────────
+
+/** Row written to `investor_applications`: promoted columns plus the full responses. */
+export function buildApplicationRow(
+  record: Pick<ApplicationSchemaRecord, 'id' | 'tenant_id' | 'schema'>,
+  responses: ApplicationResponses,
+  status: 'draft' | 'submitted'
+) {
+  const promoted: Partial<Record<PromotedColumn, string | null>> = {};
+  let committed = 0;
+
+  for (const section of visibleSections(record.schema, responses)) {
+    for (const field of visibleFields(section.fields, responses)) {
+      const value = responses.values[field.id];
+      if (field.column) promoted[field.column] = typeof value === 'string' && value.trim() ? value.trim() : null;
+      if (field.commitment) committed += parseAmount(value);
+    }
+  }
+
+  const now = new Date().toISOString();
+  return {
+    tenant_id: record.tenant_id,
+    schema_id: record.id,
+    status,
+    submitted_at: status === 'submitted' ? now : null,
+    investor_type: responses.investor_type || null,
+    total_committed_capital: committed || null,
+    declaration_agreed: responses.declaration_agreed,
+    declaration_agreed_at: responses.declaration_agreed ? now : null,
+    responses,
+    ...promoted,
+  };
+}
+
+export async function fetchPublishedApplicationSchema(tenantId: string): Promise<ApplicationSchemaRecord | null> {
+  const { data, error } = await supabase
+    .from('application_form_schemas')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('status', 'published')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchApplicationSchemaVersions(tenantId: string): Promise<ApplicationSchemaRecord[]> {
+  const { data, error } = await supabase
+    .from('application_form_schemas')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Updates the open draft, or starts a new version when the latest one is already published. */
+export async function saveApplicationSchemaDraft(
+  tenantId: string,
+  name: string,
+  schema: ApplicationSchema,
+  userId: string | undefined
+): Promise<ApplicationSchemaRecord> {
+  const [latest] = await fetchApplicationSchemaVersions(tenantId);
+
+  if (latest?.status === 'draft') {
+    const { data, error } = await supabase
+      .from('application_form_schemas')
+      .update({ name, schema, updated_at: new Date().toISOString() })
+      .eq('id', latest.id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  const { data, error } = await supabase
+    .from('application_form_schemas')
+    .insert({ tenant_id: tenantId, version: (latest?.version ?? 0) + 1, name, schema, created_by: userId ?? null })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function discardApplicationSchemaDraft(id: string): Promise<void> {
+  const { error } = await supabase.from('application_form_schemas').delete().eq('id', id).eq('status', 'draft');
+  if (error) throw error;
+}
+
+export async function publishApplicationSchema(id: string): Promise<void> {
+  const { error } = await supabase.rpc('publish_application_schema', { p_schema_id: id });
+  if (error) throw error;
+}
+
+/**
+ * Stores an applicant's supporting document. Applicants may not be signed in,
+ * so uploads are keyed by a per-session id under the tenant's folder.
+ */
+export async function uploadApplicationAttachment(
+  tenantId: string,
+  uploadKey: string,
+  fieldId: string,
+  file: File
+): Promise<AttachmentValue> {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const path = `${tenantId}/${uploadKey}/${fieldId}-${Date.now()}-${safeName}`;
+  const { error } = await supabase.storage.from('application-attachments').upload(path, file);
+  if (error) throw error;
+  return { name: file.name, path, size: file.size };
+}
@@ -0,0 +1,497 @@
+import type { ApplicationField, ApplicationOption, ApplicationSchema } from './applicationSchema';
+
+/**
+ * Starting points for the subscription form builder. Tenants load one and
+ * adapt the wording, classes and payment details to their own offer.
+ */
+
+export interface ApplicationTemplate {
+  id: string;
+  name: string;
+  description: string;
+  schema: ApplicationSchema;
+}
+
+const TITLES: ApplicationOption[] = ['Mr', 'Mrs', 'Ms', 'Miss', 'Dr', 'Prof', 'Other'].map((t) => ({ value: t, label: t }));
+
+const WEALTH_SOURCES: ApplicationOption[] = [
+  { value: 'gainful_employment', label: 'Gainful employment' },
+  { value: 'business_activity', label: 'Business activity' },
+  { value: 'inheritance_gift', label: 'Inheritance / gift' },
+  { value: 'superannuation', label: 'Superannuation savings' },
+  { value: 'financial_investments', label: 'Financial investments' },
+  { value: 'other', label: 'Other' },
+];
+
+const NO_TIN_REASONS: ApplicationOption[] = [
+  { value: 'not_issued', label: 'The country does not issue TINs' },
+  { value: 'no_tin', label: 'I have not been issued with a TIN' },
+  { value: 'not_required', label: 'The country does not require the TIN to be disclosed' },
+];
+
+const AU_TYPES = {
+  individual: ['individual', 'joint', 'regulated_trust_individual_trustee', 'unregulated_trust_individual_trustee'],
+  company: ['aus_proprietary_company', 'aus_public_company', 'regulated_trust_corporate_trustee', 'unregulated_trust_corporate_trustee'],
+  trust: [
+    'regulated_trust_individual_trustee',
+    'regulated_trust_corporate_trustee',
+    'unregulated_trust_individual_trustee',
+    'unregulated_trust_corporate_trustee',
+  ],
+};
+
+function address(prefix: string, label: string): ApplicationField[] {
+  return [
+    { id: `${prefix}_address`, type: 'text', label, required: true },
+    { id: `${prefix}_suburb`, type: 'text', label: 'Suburb / City', required: true, width: 'half' },
+    { id: `${prefix}_state`, type: 'text', label: 'State', width: 'half' },
+    { id: `${prefix}_postcode`, type: 'text', label: 'Postcode', required: true, width: 'half' },
+    { id: `${prefix}_country`, type: 'text', label: 'Country', required: true, width: 'half' },
+  ];
+}
+
+function taxResidency(prefix: string, question: string): ApplicationField[] {
+  return [
+    { id: `${prefix}_aus_tax_resident`, type: 'yes_no', label: question, required: true },
+    {
+      id: `${prefix}_tfn`,
+      type: 'text',
+      label: 'Tax File Number (TFN) or exemption code',
+      sensitive: true,
+      pattern: '[0-9 ]{8,11}|[0-9]{6}',
+      pattern_message: 'Enter a 9 digit TFN or a 6 digit exemption code',
+      visible_when: [{ field: `${prefix}_aus_tax_resident`, equals: true }],
+    },
+    {
+      id: `${prefix}_has_tin`,
+      type: 'yes_no',
+      label: 'Do you have a Tax Identification Number (TIN) for another country?',
+      required: true,
+      visible_when: [{ field: `${prefix}_aus_tax_resident`, equals: false }],
+    },
+    {
+      id: `${prefix}_tins`,
+      type: 'group',
+      label: 'Foreign tax residencies',
+      item_label: 'country',
+      min_items: 1,
+      max_items: 3,
+      sensitive: true,
+      visible_when: [{ field: `${prefix}_has_tin`, equals: true }],
+      fields: [
+        { id: 'country', type: 'text', label: 'Country', required: true, width: 'half' },
+        { id: 'tin', type: 'text', label: 'TIN', required: true, width: 'half' },
+      ],
+    },
+    {
+      id: `${prefix}_no_tin_reason`,
+      type: 'radio',
+      label: 'Reason no TIN is available',
+      required: true,
+      options: NO_TIN_REASONS,
+      visible_when: [{ field: `${prefix}_has_tin`, equals: false }],
+    },
+  ];
+}
+
+function wealth(prefix: string): ApplicationField[] {
+  return [
+    { id: `${prefix}_wealth_sources`, type: 'checkboxes', label: 'Source of funds used for this investment', required: true, options: WEALTH_SOURCES },
+    {
+      id: `${prefix}_wealth_other`,
+      type: 'text',
+      label: 'Other source of funds',
+      required: true,
+      visible_when: [{ field: `${prefix}_wealth_sources`, equals: 'other' }],
+    },
+  ];
+}
+
+function person(prefix: string): ApplicationField[] {
+  return [
+    { id: `${prefix}_title`, type: 'select', label: 'Title', options: TITLES, width: 'third' },
+    { id: `${prefix}_given_names`, type: 'text', label: 'Given name(s)', required: true, width: 'third' },
+    { id: `${prefix}_surname`, type: 'text', label: 'Surname', required: true, width: 'third' },
+    { id: `${prefix}_dob`, type: 'date', label: 'Date of birth', required: true, width: 'half' },
+    { id: `${prefix}_email`, type: 'email', label: 'Email address', width: 'half' },
+  ];
+}
+
+const EXECUTION_BLOCKS = [
+  {
+    id: 'individuals',
+    label: 'Individual signatories',
+    description: 'Each individual investor or individual trustee signs.',
+    investor_types: AU_TYPES.individual,
+    min_signers: 1,
+    max_signers: 4,
+    capacities: ['Individual', 'Trustee', 'Attorney'],
+  },
+  {
+    id: 'company',
+    label: 'Company execution',
+    description: 'Sign in accordance with section 127 of the Corporations Act 2001 (Cth): two directors, a director and secretary, or a sole director and secretary.',
+    investor_types: AU_TYPES.company,
+    min_signers: 1,
+    max_signers: 2,
+    capacities: ['Director', 'Sole Director / Secretary', 'Director / Secretary', 'Attorney'],
+  },
+];
+
+const WHOLESALE_UNIT_TRUST: ApplicationSchema = {
+  title: 'Investor Application Form',
+  subtitle: 'Wholesale investors only',
+  investor_types: [
+    { value: 'individual', label: 'Individual' },
+    { value: 'joint', label: 'Joint holding' },
+    { value: 'aus_proprietary_company', label: 'Australian proprietary company' },
+    { value: 'aus_public_company', label: 'Australian public company' },
+    { value: 'regulated_trust_individual_trustee', label: 'Regulated trust — individual trustee' },
+    { value: 'regulated_trust_corporate_trustee', label: 'Regulated trust — corporate trustee' },
+    { value: 'unregulated_trust_individual_trustee', label: 'Unregulated trust — individual trustee' },
+    { value: 'unregulated_trust_corporate_trustee', label: 'Unregulated trust — corporate trustee' },
+  ],
+  sections: [
+    {
+      id: 'contact',
+      title: 'Contact Details',
+      description: 'The person we should contact about this application.',
+      fields: [
+        { id: 'contact_title', type: 'select', label: 'Title', options: TITLES, width: 'third', column: 'contact_title' },
+        { id: 'contact_given_names', type: 'text', label: 'Given name(s)', required: true, width: 'third', column: 'contact_given_names' },
+        { id: 'contact_surname', type: 'text', label: 'Surname', required: true, width: 'third', column: 'contact_surname' },
+        { id: 'contact_phone', type: 'phone', label: 'Phone', required: true, width: 'half', column: 'contact_phone' },
+        { id: 'contact_email', type: 'email', label: 'Email address', required: true, width: 'half', column: 'contact_email' },
+        { id: 'postal_address', type: 'text', label: 'Postal address', required: true, column: 'postal_address' },
+        { id: 'postal_suburb', type: 'text', label: 'Suburb / City', required: true, width: 'half', column: 'postal_suburb' },
+        { id: 'postal_state', type: 'text', label: 'State', width: 'half', column: 'postal_state' },
+        { id: 'postal_postcode', type: 'text', label: 'Postcode', required: true, width: 'half', column: 'postal_postcode' },
+        { id: 'postal_country', type: 'text', label: 'Country', required: true, width: 'half', column: 'postal_country' },
+      ],
+    },
+    {
+      id: 'investment',
+      title: 'Investment',
+      description: 'Select the classes of units you are applying for and the capital you commit to each.',
+      fields: [
+        {
+          id: 'unit_classes',
+          type: 'checkboxes',
+          label: 'Unit classes',
+          required: true,
+          options: [
+            { value: 'class_a', label: 'Class A' },
+            { value: 'class_b', label: 'Class B' },
+          ],
+        },
+        {
+          id: 'amount_class_a',
+          type: 'currency',
+          label: 'Committed capital — Class A',
+          required: true,
+          commitment: true,
+          width: 'half',
+          visible_when: [{ field: 'unit_classes', equals: 'class_a' }],
+        },
+        {
+          id: 'amount_class_b',
+          type: 'currency',
+          label: 'Committed capital — Class B',
+          required: true,
+          commitment: true,
+          width: 'half',
+          visible_when: [{ field: 'unit_classes', equals: 'class_b' }],
+        },
+        {
+          id: 'investment_note',
+          type: 'note',
+          label: 'Capital calls',
+          help: 'Committed capital is called by the Trustee in whole or in part on at least three Business Days notice.',
+        },
+      ],
+    },
+    {
+      id: 'individual',
+      title: 'Individual Investor / Individual Trustee',
+      investor_types: AU_TYPES.individual,
+      fields: [
+        ...person('a'),
+        ...address('a_residential', 'Residential address (not a PO Box)'),
+        ...taxResidency('a', 'Are you an Australian resident for tax purposes?'),
+        { id: 'a_pep', type: 'yes_no', label: 'Are you a Politically Exposed Person (PEP)?', required: true },
+        { id: 'a_sole_trader', type: 'yes_no', label: 'Are you applying as a sole trader?', required: true },
+        {
+          id: 'a_business_name',
+          type: 'text',
+          label: 'Business name',
+          required: true,
+          width: 'half',
+          visible_when: [{ field: 'a_sole_trader', equals: true }],
+        },
+        { id: 'a_abn', type: 'text', label: 'ABN', width: 'half', visible_when: [{ field: 'a_sole_trader', equals: true }] },
+        ...wealth('a'),
+        { id: 'a_identification', type: 'attachment', label: 'Certified copy of photo identification', required: true, accept: '.pdf,image/*' },
+      ],
+    },
+    {
+      id: 'joint',
+      title: 'Joint Investor',
+      investor_types: ['joint'],
+      fields: [
+        ...person('b'),
+        { id: 'b_same_address', type: 'checkbox', label: 'Same residential address as the first investor' },
+        ...address('b_residential', 'Residential address (not a PO Box)').map((field) => ({
+          ...field,
+          visible_when: [{ field: 'b_same_address', equals: false }],
+        })),
+        ...taxResidency('b', 'Is the joint investor an Australian resident for tax purposes?'),
+        { id: 'b_pep', type: 'yes_no', label: 'Is the joint investor a Politically Exposed Person (PEP)?', required: true },
+        ...wealth('b'),
+        { id: 'b_identification', type: 'attachment', label: 'Certified copy of photo identification', required: true, accept: '.pdf,image/*' },
+      ],
+    },
+    {
+      id: 'company',
+      title: 'Company Details',
+      description: 'For company investors and corporate trustees.',
+      investor_types: AU_TYPES.company,
+      fields: [
+        { id: 'c_company_name', type: 'text', label: 'Full company name', required: true },
+        { id: 'c_acn', type: 'text', label: 'ACN', required: true, width: 'half' },
+        { id: 'c_abn_tfn', type: 'text', label: 'ABN / TFN / exemption', width: 'half', sensitive: true },
+        ...address('c_registered', 'Registered office address'),
+        ...taxResidency('c', 'Is the company an Australian resident for tax purposes?'),
+        {
+          id: 'c_directors',
+          type: 'group',
+          label: 'Directors',
+          item_label: 'director',
+          required: true,
+          min_items: 1,
+          max_items: 6,
+          fields: [
+            { id: 'given_names', type: 'text', label: 'Given name(s)', required: true, width: 'half' },
+            { id: 'surname', type: 'text', label: 'Surname', required: true, width: 'half' },
+            { id: 'dob', type: 'date', label: 'Date of birth', width: 'half' },
+            { id: 'pep', type: 'yes_no', label: 'Politically Exposed Person?', required: true, width: 'half' },
+          ],
+        },
+        ...wealth('c'),
+        { id: 'c_extract', type: 'attachment', label: 'Current ASIC company extract', required: true, accept: '.pdf' },
+      ],
+    },
+    {
+      id: 'trust',
+      title: 'Trust Details',
+      investor_types: AU_TYPES.trust,
+      fields: [
+        { id: 'd_trust_name', type: 'text', label: 'Trust name', required: true },
+        { id: 'd_business_name', type: 'text', label: 'Business name of trust', width: 'half' },
+        { id: 'd_abn_tfn', type: 'text', label: 'ABN / TFN / exemption', width: 'half', sensitive: true },
+        { id: 'd_trust_type', type: 'text', label: 'Type of trust (e.g. family trust, SMSF)', required: true, width: 'half' },
+        { id: 'd_country_established', type: 'text', label: 'Country where the trust was established', required: true, width: 'half' },
+        { id: 'd_settlor', type: 'text', label: 'Settlor of the trust', required: true },
+        {
+          id: 'd_trustees',
+          type: 'group',
+          label: 'Trustees',
+          item_label: 'trustee',
+          required: true,
+          min_items: 1,
+          max_items: 4,
+          fields: [
+            { id: 'name', type: 'text', label: 'Full name of trustee', required: true },
+            { id: 'address', type: 'text', label: 'Address', required: true },
+          ],
+        },
+        {
+          id: 'd_beneficiary_by_class',
+          type: 'yes_no',
+          label: 'Do the terms of the trust identify beneficiaries by reference to membership of a class?',
+          required: true,
+        },
+        {
+          id: 'd_beneficiary_class_terms',
+          type: 'textarea',
+          label: 'What are the terms?',
+          required: true,
+          visible_when: [{ field: 'd_beneficiary_by_class', equals: true }],
+        },
+        {
+          id: 'd_beneficiaries',
+          type: 'group',
+          label: 'Beneficiaries',
+          item_label: 'beneficiary',
+          min_items: 1,
+          max_items: 10,
+          visible_when: [{ field: 'd_beneficiary_by_class', equals: false }],
+          fields: [{ id: 'name', type: 'text', label: 'Full name', required: true }],
+        },
+        ...taxResidency('d', 'Is the trust an Australian resident for tax purposes?'),
+        ...wealth('d'),
+        { id: 'd_trust_deed', type: 'attachment', label: 'Certified extract of the trust deed', required: true, accept: '.pdf' },
+      ],
+    },
+    {
+      id: 'beneficial_ownership',
+      title: 'Beneficial Ownership',
+      description: 'Every individual who owns or controls 25% or more of the investor, directly or indirectly.',
+      investor_types: [...new Set([...AU_TYPES.company, ...AU_TYPES.trust])].filter((t) => t !== 'aus_public_company'),
+      fields: [
+        {
+          id: 'e_beneficial_owners',
+          type: 'group',
+          label: 'Beneficial owners',
+          item_label: 'owner',
+          required: true,
+          min_items: 1,
+          max_items: 6,
+          fields: [
+            { id: 'name', type: 'text', label: 'Full name', required: true, width: 'half' },
+            { id: 'dob', type: 'date', label: 'Date of birth', width: 'half' },
+            { id: 'address', type: 'text', label: 'Residential address', required: true },
+            { id: 'pep', type: 'yes_no', label: 'Politically Exposed Person?', required: true, width: 'half' },
+            { id: 'aus_tax_resident', type: 'yes_no', label: 'Australian tax resident?', required: true, width: 'half' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'bank',
+      title: 'Bank Details',
+      description: 'All payments are calculated and paid in Australian dollars.',
+      fields: [
+        { id: 'bank_reinvest', type: 'yes_no', label: 'Do you wish to reinvest distributions back into the fund?', required: true },
+        { id: 'bank_institution_name', type: 'text', label: 'Financial institution', required: true },
+        { id: 'bank_account_name', type: 'text', label: 'Account name', required: true },
+        { id: 'bank_bsb', type: 'text', label: 'BSB', required: true, width: 'third', sensitive: true, pattern: '[0-9]{3}-?[0-9]{3}', pattern_message: 'Enter a 6 digit BSB' },
+        { id: 'bank_account_number', type: 'text', label: 'Account number', required: true, width: 'third', sensitive: true },
+        { id: 'bank_swift', type: 'text', label: 'SWIFT code (international only)', width: 'third' },
+      ],
+    },
+    {
+      id: 'fatca_crs',
+      title: 'FATCA & CRS',
+      fields: [
+        {
+          id: 'fatca_note',
+          type: 'note',
+          label: 'Foreign Account Tax Compliance Act (FATCA) & Common Reporting Standard (CRS)',
+          help: 'The Trustee must identify the tax residency of all investors and their controlling persons and report foreign tax residents to the Australian Taxation Office, which may share this information with other participating countries.',
+        },
+        {
+          id: 'fatca_entity_type',
+          type: 'radio',
+          label: 'Entity tax status',
+          required: true,
+          investor_types: [...AU_TYPES.company, ...AU_TYPES.trust],
+          options: [
+            { value: 'financial_institution', label: 'Financial institution' },
+            { value: 'aus_listed', label: 'Australian listed company, majority owned subsidiary or registered charity' },
+            { value: 'active_nfe', label: 'Active non-financial entity (NFE)' },
+            { value: 'other', label: 'Other' },
+          ],
+        },
+        {
+          id: 'fatca_giin',
+          type: 'text',
+          label: 'Global Intermediary Identification Number (GIIN)',
+          visible_when: [{ field: 'fatca_entity_type', equals: 'financial_institution' }],
+        },
+        { id: 'crs_foreign_tax_resident', type: 'yes_no', label: 'Are you a tax resident of any country other than Australia?', required: true },
+        {
+          id: 'crs_countries',
+          type: 'group',
+          label: 'Foreign tax residencies',
+          item_label: 'country',
+          min_items: 1,
+          max_items: 4,
+          sensitive: true,
+          visible_when: [{ field: 'crs_foreign_tax_resident', equals: true }],
+          fields: [
+            { id: 'country', type: 'text', label: 'Country', required: true, width: 'half' },
+            { id: 'tin', type: 'text', label: 'TIN', width: 'half' },
+          ],
+        },
+      ],
+    },
+  ],
+  declaration: {
+    title: 'Declaration',
+    agree_label: 'I/we have read and agree to the declarations above',
+    text: [
+      'I/we have received and read the Information Memorandum for units in the Fund.',
+      'My/our application is true and correct.',
+      'I/we am/are a Wholesale Client as defined by the Corporations Act 2001 (Cth).',
+      'I/we agree to be bound by the provisions of the Trust Deed as amended from time to time and this Application Form.',
+      'I/we have legal power to invest and have all regulatory approvals required to hold Units.',
+      'I/we acknowledge that by executing this Application Form, I/we make a legally binding commitment to invest the committed capital on the terms set out in the Information Memorandum and the Trust Deed.',
+      'I/we acknowledge that investments in the Fund are subject to risks, including the possible loss of income or capital invested.',
+      'I/we agree and consent to the electronic delivery of investor communications.',
+    ].map((point, i) => `${i + 1}. ${point}`).join('\n'),
+  },
+  signatures: EXECUTION_BLOCKS,
+  submitted_message: 'Thank you for your application. Our team will review it and contact you at the email address you provided.',
+};
+
+const SIMPLE_SUBSCRIPTION: ApplicationSchema = {
+  title: 'Subscription Agreement',
+  investor_types: [
+    { value: 'individual', label: 'Individual' },
+    { value: 'entity', label: 'Entity' },
+  ],
+  sections: [
+    {
+      id: 'investor',
+      title: 'Investor',
+      fields: [
+        { id: 'contact_given_names', type: 'text', label: 'First name', required: true, width: 'half', column: 'contact_given_names', investor_types: ['individual'] },
+        { id: 'contact_surname', type: 'text', label: 'Last name', required: true, width: 'half', column: 'contact_surname', investor_types: ['individual'] },
+        { id: 'entity_name', type: 'text', label: 'Legal entity name', required: true, investor_types: ['entity'] },
+        { id: 'entity_jurisdiction', type: 'text', label: 'Jurisdiction of formation', required: true, width: 'half', investor_types: ['entity'] },
+        { id: 'entity_tax_id', type: 'text', label: 'Tax ID', required: true, width: 'half', sensitive: true, investor_types: ['entity'] },
+        { id: 'contact_email', type: 'email', label: 'Email address', required: true, width: 'half', column: 'contact_email' },
+        { id: 'contact_phone', type: 'phone', label: 'Phone', width: 'half', column: 'contact_phone' },
+        { id: 'postal_address', type: 'textarea', label: 'Address', required: true, column: 'postal_address' },
+      ],
+    },
+    {
+      id: 'subscription',
+      title: 'Subscription',
+      fields: [
+        { id: 'commitment', type: 'currency', label: 'Capital commitment', required: true, commitment: true },
+        { id: 'accredited', type: 'checkbox', label: 'I confirm I am an accredited / wholesale investor', required: true },
+        { id: 'identification', type: 'attachment', label: 'Identification document', required: true, accept: '.pdf,image/*' },
+      ],
+    },
+  ],
+  declaration: {
+    title: 'Declaration',
+    agree_label: 'I agree to the terms of the offering documents',
+    text: 'I have read the offering documents and confirm the information in this application is true and correct.',
+  },
+  signatures: [
+    { id: 'investor', label: 'Investor signature', min_signers: 1, max_signers: 2, capacities: ['Investor', 'Authorised signatory'] },
+  ],
+};
+
+export const APPLICATION_TEMPLATES: ApplicationTemplate[] = [
+  {
+    id: 'wholesale_unit_trust',
+    name: 'Australian wholesale unit trust',
+    description: 'Individuals, joint holders, companies and trusts, with TFN, beneficial ownership and FATCA/CRS sections.',
+    schema: WHOLESALE_UNIT_TRUST,
+  },
+  {
+    id: 'simple_subscription',
+    name: 'Simple subscription',
+    description: 'Individual or entity investors with a single commitment amount.',
+    schema: SIMPLE_SUBSCRIPTION,
+  },
+];
+
+/** Deep copy so edits in the builder never touch the template. */
+export function cloneTemplateSchema(templateId: string): ApplicationSchema | null {
+  const template = APPLICATION_TEMPLATES.find((t) => t.id === templateId);
+  return template ? JSON.parse(JSON.stringify(template.schema)) : null;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { computeAuctionClearing } from './auctionClearing';
+
+describe('computeAuctionClearing', () => {
+  it('clears at the price that executes the most volume', () => {
+    const clearing = computeAuctionClearing(
+      [{ price: 10.5, quantity: 100 }, { price: 10, quantity: 50 }],
+      [{ price: 9.5, quantity: 60 }, { price: 10, quantity: 80 }],
+      null
+    );
+
+    expect(clearing).toEqual({ price: 10, volume: 140, demand: 150, supply: 140 });
+  });
+
+  it('prefers the smaller imbalance over the reference NAV when volume ties', () => {
+    const clearing = computeAuctionClearing(
+      [{ price: 11, quantity: 100 }, { price: 9, quantity: 30 }],
+      [{ price: 9, quantity: 100 }],
+      9
+    );
+
+    expect(clearing).toEqual({ price: 11, volume: 100, demand: 100, supply: 100 });
+  });
+
+  it('breaks a remaining tie on the price nearest the reference NAV', () => {
+    const bids = [{ price: 11, quantity: 100 }];
+    const asks = [{ price: 9, quantity: 100 }];
+
+    expect(computeAuctionClearing(bids, asks, 10.8)?.price).toBe(11);
+    expect(computeAuctionClearing(bids, asks, 9.1)?.price).toBe(9);
+    expect(computeAuctionClearing(bids, asks, null)?.price).toBe(9);
+  });
+
+  it('returns null when no bid crosses an ask', () => {
+    expect(computeAuctionClearing([{ price: 9, quantity: 100 }], [{ price: 10, quantity: 100 }], 9.5)).toBeNull();
+    expect(computeAuctionClearing([], [{ price: 10, quantity: 100 }], null)).toBeNull();
+  });
+});
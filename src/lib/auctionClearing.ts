@@ -0,0 +1,53 @@
+/**
+ * Call auction clearing. Shared by the exchange order book and the
+ * exchange-auction-worker Edge Function, so it has no imports.
+ */
+
+export interface AuctionClearing {
+  price: number;
+  volume: number;
+  demand: number;
+  supply: number;
+}
+
+/**
+ * Uniform clearing price for a call auction: the limit price that executes
+ * the most volume, then leaves the smallest imbalance, then sits nearest the
+ * reference NAV. Null when no bid crosses an ask.
+ */
+export function computeAuctionClearing(
+  bids: { price: number; quantity: number }[],
+  asks: { price: number; quantity: number }[],
+  referencePrice: number | null
+): AuctionClearing | null {
+  const candidates = Array.from(new Set([...bids, ...asks].map(o => o.price))).sort((a, b) => a - b);
+  let best: AuctionClearing | null = null;
+
+  for (const price of candidates) {
+    const demand = bids.filter(b => b.price >= price).reduce((sum, b) => sum + b.quantity, 0);
+    const supply = asks.filter(a => a.price <= price).reduce((sum, a) => sum + a.quantity, 0);
+    const volume = Math.min(demand, supply);
+    if (volume <= 0) continue;
+
+    const candidate = { price, volume, demand, supply };
+    if (!best) {
+      best = candidate;
+      continue;
+    }
+
+    const imbalance = Math.abs(demand - supply);
+    const bestImbalance = Math.abs(best.demand - best.supply);
+    const distance = referencePrice != null ? Math.abs(price - referencePrice) : 0;
+    const bestDistance = referencePrice != null ? Math.abs(best.price - referencePrice) : 0;
+
+    if (
+      volume > best.volume ||
+      (volume === best.volume && imbalance < bestImbalance) ||
+      (volume === best.volume && imbalance === bestImbalance && distance < bestDistance)
+    ) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,193 @@
+import { supabase } from './supabase';
+
+export interface AuditLogEntry {
+  id: string;
+  sequence_number: number | null;
+  event_type: string;
+  severity: 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL';
+  timestamp: string;
+  user_id: string | null;
+  tenant_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  resource: string | null;
+  resource_id: string | null;
+  action: string | null;
+  changes: { before: Record<string, unknown> | null; after: Record<string, unknown> | null } | null;
+  reason: string | null;
+  additional_data: { actor_email?: string; [key: string]: unknown } | null;
+  previous_hash: string | null;
+  current_hash: string;
+}
+
+export interface AuditLogFilters {
+  resource?: string;
+  action?: string;
+  eventType?: string;
+  resourceId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  head_hash?: string | null;
+  broken_at?: number;
+  entry_id?: string;
+  problem?: string;
+}
+
+/** Tables whose row changes are captured by the audit triggers. */
+export const AUDITED_RESOURCES = [
+  { value: 'funds', label: 'Funds' },
+  { value: 'share_classes', label: 'Share Classes' },
+  { value: 'capital_accounts', label: 'Capital Accounts' },
+  { value: 'capital_transactions', label: 'Capital Transactions' },
+  { value: 'transactions', label: 'Transactions' },
+  { value: 'nav_calculations', label: 'NAV Calculations' },
+  { value: 'fee_structures', label: 'Fee Structures' },
+  { value: 'kyc_aml_records', label: 'KYC / AML' },
+  { value: 'invoice_payments', label: 'Invoice Payments' },
+];
+
+export const AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Tags a write with the reason it was made. The audit trigger reads the
+ * header from the request, so it lands on every entry the write produces.
+ */
+export function withAuditReason<T extends { setHeader(name: string, value: string): T }>(builder: T, reason: string | null | undefined): T {
+  if (!reason) return builder;
+  const bytes = new TextEncoder().encode(reason);
+  return builder.setHeader('x-audit-reason', btoa(String.fromCharCode(...bytes)));
+}
+
+export async function getAuditTrailTenants() {
+  const { data, error } = await supabase.rpc('get_audit_trail_tenants');
+
+  if (error) throw error;
+  return (data || []) as { id: string; name: string }[];
+}
+
+/** The filter methods of a Supabase query builder that `applyFilters` chains. */
+interface FilterableQuery<T> {
+  eq(column: string, value: string): T;
+  gte(column: string, value: string): T;
+  lte(column: string, value: string): T;
+  or(filters: string): T;
+}
+
+function applyFilters<T extends FilterableQuery<T>>(query: T, filters: AuditLogFilters): T {
+  let q = query;
+  if (filters.resource) q = q.eq('resource', filters.resource);
+  if (filters.action) q = q.eq('action', filters.action);
+  if (filters.eventType) q = q.eq('event_type', filters.eventType);
+  if (filters.resourceId) q = q.eq('resource_id', filters.resourceId);
+  if (filters.actor) q = q.eq('additional_data->>actor_email', filters.actor);
+  if (filters.from) q = q.gte('timestamp', new Date(filters.from).toISOString());
+  if (filters.to) q = q.lte('timestamp', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.search) {
+    const term = filters.search.replace(/[,()]/g, ' ').trim();
+    if (term) q = q.or(`reason.ilike.%${term}%,resource_id.ilike.%${term}%,event_type.ilike.%${term}%`);
+  }
+  return q;
+}
+
+export async function searchAuditLogs(tenantId: string, filters: AuditLogFilters, page = 0) {
+  const query = supabase
+    .from('audit_logs')
+    .select('*', { count: 'exact' })
+    .eq('tenant_id', tenantId);
+
+  const { data, error, count } = await applyFilters(query, filters)
+    .order('timestamp', { ascending: false })
+    .order('sequence_number', { ascending: false })
+    .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { entries: (data || []) as AuditLogEntry[], total: count || 0 };
+}
+
+/**
+ * Checks the tenant's hash chain. Staff and tenant admins also record the
+ * check in the trail; auditors, who cannot write to it, pass
+ * `recordEvent = false`.
+ */
+export async function verifyAuditChain(tenantId: string, recordEvent = true) {
+  const { data, error } = await supabase.rpc('verify_audit_chain', { p_tenant_id: tenantId });
+
+  if (error) throw error;
+
+  const result = data as ChainVerification;
+  if (recordEvent) await logAuditEvent(tenantId, 'audit_chain_verified', {
+    valid: result.valid,
+    checked: result.checked,
+    head_hash: result.head_hash || null,
+    broken_at: result.broken_at || null,
+  });
+  return result;
+}
+
+export async function logAuditEvent(tenantId: string, eventType: string, data: Record<string, unknown>, reason?: string) {
+  const { error } = await supabase.rpc('log_audit_event', {
+    p_tenant_id: tenantId,
+    p_event_type: eventType,
+    p_resource: 'audit_logs',
+    p_resource_id: null,
+    p_reason: reason || null,
+    p_data: data,
+  });
+
+  if (error) throw error;
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Exports every entry matching the filters, oldest first, including the
+ * hashes so the chain can be re-verified outside the platform. Unless
+ * `recordEvent` is false the export itself is recorded in the trail.
+ */
+export async function exportAuditLogsCsv(tenantId: string, filters: AuditLogFilters, recordEvent = true) {
+  const rows: AuditLogEntry[] = [];
+  const batch = 1000;
+
+  for (let offset = 0; ; offset += batch) {
+    const query = supabase
+      .from('audit_logs')
+      .select('*')
+      .eq('tenant_id', tenantId);
+
+    const { data, error } = await applyFilters(query, filters)
+      .order('timestamp', { ascending: true })
+      .order('sequence_number', { ascending: true })
+      .range(offset, offset + batch - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as AuditLogEntry[]));
+    if (!data || data.length < batch) break;
+  }
+
+  const header = [
+    'sequence', 'timestamp', 'event_type', 'severity', 'actor', 'actor_id', 'ip_address', 'user_agent',
+    'resource', 'resource_id', 'action', 'reason', 'before', 'after', 'previous_hash', 'current_hash',
+  ];
+  const csv = [
+    header.join(','),
+    ...rows.map(r => [
+      r.sequence_number, r.timestamp, r.event_type, r.severity, r.additional_data?.actor_email, r.user_id,
+      r.ip_address, r.user_agent, r.resource, r.resource_id, r.action, r.reason,
+      r.changes?.before, r.changes?.after, r.previous_hash, r.current_hash,
+    ].map(csvCell).join(',')),
+  ].join('\n');
+
+  if (recordEvent) await logAuditEvent(tenantId, 'audit_trail_exported', { rows: rows.length, filters });
+  return { csv, rows: rows.length };
+}
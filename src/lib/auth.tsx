@@ -6,6 +6,17 @@ import { dbg } from './debug';
 
 type UserRole = 'general_manager' | 'compliance_manager' | 'accountant' | 'cfo' | 'legal_counsel' | 'admin' | 'client' | 'platform_admin' | 'auditor';
 type RoleCategory = 'superadmin' | 'tenant_admin' | 'client' | 'staff_user' | 'auditor';
+type StaffPermission =
+  | 'can_manage_funds'
+  | 'can_manage_nav'
+  | 'can_process_redemptions'
+  | 'can_manage_exchange'
+  | 'can_manage_clients'
+  | 'can_view_reports'
+  | 'can_send_communications'
+  | 'can_manage_newsletters'
+  | 'can_view_compliance'
+  | 'can_access_analytics';
 type Tenant = Database['public']['Tables']['platform_tenants']['Row'];
 type PlatformAdminUser = Database['public']['Tables']['platform_admin_users']['Row'];
 type TenantUser = Database['public']['Tables']['tenant_users']['Row'];
@@ -17,7 +28,7 @@ interface StaffAccount {
   full_name: string;
   role: UserRole;
   status: string;
-  permissions: any;
+  permissions: Partial<Record<StaffPermission, boolean>> | null;
   tenant_id?: string;
 }
 
@@ -57,6 +68,12 @@ interface AuthContextType {
   tenantId: string | null;
   tenantUser: TenantUser | null;
   userRoleRecord: UserRoleRecord | null;
+  /**
+   * Platform and tenant admins, and staff with the admin role, hold every
+   * permission; other staff only the flags set on their staff account.
+   * Clients and auditors hold none.
+   */
+  hasPermission: (permission: StaffPermission) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   refetch: () => Promise<void>;
@@ -257,6 +274,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const isAuditor = roleCategory === 'auditor';
   const isPlatformAdmin = roleCategory === 'superadmin';
 
+  const hasPermission = (permission: StaffPermission) => {
+    if (isPlatformAdmin || isTenantAdmin) return true;
+    if (!isStaff || !staffAccount) return false;
+    if (staffAccount.role === 'admin') return true;
+    return staffAccount.permissions?.[permission] === true;
+  };
+
   return (
     <AuthContext.Provider value={{
       user,
@@ -277,6 +301,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       tenantId: currentTenant?.id || null,
       tenantUser,
       userRoleRecord,
+      hasPermission,
       signIn,
       signOut,
       refetch
@@ -294,4 +319,4 @@ export function useAuth() {
   return context;
 }
 
-export type { UserRole, RoleCategory, AuditorProfile };
+export type { UserRole, RoleCategory, StaffPermission, AuditorProfile };
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { calculateDefaultInterest, computeCallAllocations, type CallableAccount } from './capitalCalls';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const accounts: CallableAccount[] = [
+  { id: 'a', commitment_amount: 1000, capital_called: 0 },
+  { id: 'b', commitment_amount: 1000, capital_called: 500 },
+  { id: 'c', commitment_amount: 1000, capital_called: 1000 },
+];
+
+const byAmount = (totalAmount: number, overrides: Partial<Parameters<typeof computeCallAllocations>[0]> = {}) =>
+  computeCallAllocations({ accounts, basis: 'amount', totalAmount, excludedAccountIds: [], excusedAccountIds: [], ...overrides });
+
+describe('computeCallAllocations', () => {
+  it('splits an amount pro-rata to unfunded commitment and skips fully called investors', () => {
+    expect(byAmount(300)).toEqual([
+      { capitalAccountId: 'a', unfunded: 1000, callAmount: 200, percentageOfCommitment: 20 },
+      { capitalAccountId: 'b', unfunded: 500, callAmount: 100, percentageOfCommitment: 10 },
+    ]);
+  });
+
+  it('puts the share of excluded and excused investors on the others', () => {
+    expect(byAmount(300, { excludedAccountIds: ['b'] }).map(a => [a.capitalAccountId, a.callAmount])).toEqual([['a', 300]]);
+    expect(byAmount(300, { excusedAccountIds: ['a'] }).map(a => [a.capitalAccountId, a.callAmount])).toEqual([['b', 300]]);
+  });
+
+  it('calls everyone up to their unfunded commitment when the call uses all of it', () => {
+    expect(byAmount(1500).map(a => a.callAmount)).toEqual([1000, 500]);
+  });
+
+  it('refuses a call beyond the participants\' unfunded commitment', () => {
+    expect(() => byAmount(1501)).toThrow(/unfunded commitment of 1500.00/);
+    expect(() => byAmount(600, { excludedAccountIds: ['a'] })).toThrow(/unfunded commitment of 500.00/);
+  });
+
+  it('rounds to cents and gives the difference to the largest allocation', () => {
+    const equal = ['x', 'y', 'z'].map(id => ({ id, commitment_amount: 1000, capital_called: 0 }));
+    const allocations = computeCallAllocations({ accounts: equal, basis: 'amount', totalAmount: 100, excludedAccountIds: [], excusedAccountIds: [] });
+
+    expect(allocations.map(a => a.callAmount)).toEqual([33.34, 33.33, 33.33]);
+  });
+
+  it('calls a percentage of commitment, capped at what is unfunded', () => {
+    const allocations = computeCallAllocations({
+      accounts: [
+        { id: 'a', commitment_amount: 1000, capital_called: 0 },
+        { id: 'b', commitment_amount: 1000, capital_called: 980 },
+      ],
+      basis: 'percent_of_commitment',
+      percentageOfCommitment: 10,
+      excludedAccountIds: [],
+      excusedAccountIds: [],
+    });
+
+    expect(allocations.map(a => [a.capitalAccountId, a.callAmount])).toEqual([['a', 100], ['b', 20]]);
+  });
+
+  it('returns no allocations for a zero call', () => {
+    expect(byAmount(0)).toEqual([]);
+  });
+});
+
+describe('calculateDefaultInterest', () => {
+  const due = new Date('2026-01-31T00:00:00Z');
+
+  it('charges simple actual/365 interest for each day late', () => {
+    expect(calculateDefaultInterest(10000, 10, due, new Date('2026-04-14T00:00:00Z'))).toBe(200);
+  });
+
+  it('charges nothing on or before the due date, or with nothing outstanding', () => {
+    expect(calculateDefaultInterest(10000, 10, due, due)).toBe(0);
+    expect(calculateDefaultInterest(0, 10, due, new Date('2026-04-14T00:00:00Z'))).toBe(0);
+    expect(calculateDefaultInterest(-50, 10, due, new Date('2026-04-14T00:00:00Z'))).toBe(0);
+  });
+});
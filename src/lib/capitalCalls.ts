@@ -0,0 +1,358 @@
+import { supabase } from './supabase';
+import { sendEmail } from './email';
+import { createBrandedDocument, DocumentBranding, pdfToBase64 } from './pdfDocument';
+import { formatCurrency, formatDate } from './format';
+
+export type DefaultStatus = 'none' | 'notice_sent' | 'cured' | 'suspended' | 'forfeited' | 'forced_sale';
+
+export interface CallableAccount {
+  id: string;
+  commitment_amount: number;
+  capital_called: number;
+}
+
+export interface ExcusedAccount {
+  capital_account_id: string;
+  reason: string;
+}
+
+export interface CallAllocation {
+  capitalAccountId: string;
+  unfunded: number;
+  callAmount: number;
+  percentageOfCommitment: number;
+}
+
+export interface CallBatchInput {
+  tenantId: string;
+  fundId: string;
+  callDate: string;
+  dueDate: string;
+  callBasis: 'amount' | 'percent_of_commitment';
+  totalAmount: number;
+  percentageOfCommitment: number | null;
+  currency: string;
+  excludedAccountIds: string[];
+  excusedAccounts: ExcusedAccount[];
+  defaultInterestRatePct: number;
+  purpose: string;
+  paymentInstructions: string;
+  notes: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function unfundedOf(account: CallableAccount) {
+  return Math.max(0, (account.commitment_amount || 0) - (account.capital_called || 0));
+}
+
+/**
+ * Splits a fund-wide call across investors pro-rata to unfunded commitment.
+ * Excluded and excused accounts take no part; their share falls on the
+ * remaining investors. Nobody is called beyond their unfunded commitment, so
+ * any excess is re-spread until the call is covered.
+ */
+export function computeCallAllocations(params: {
+  accounts: CallableAccount[];
+  basis: 'amount' | 'percent_of_commitment';
+  totalAmount?: number;
+  percentageOfCommitment?: number;
+  excludedAccountIds: string[];
+  excusedAccountIds: string[];
+}): CallAllocation[] {
+  const skipped = new Set([...params.excludedAccountIds, ...params.excusedAccountIds]);
+  const participants = params.accounts.filter(a => !skipped.has(a.id) && unfundedOf(a) > 0);
+
+  const amounts = new Map<string, number>();
+
+  if (params.basis === 'percent_of_commitment') {
+    const pct = (params.percentageOfCommitment || 0) / 100;
+    participants.forEach(a => amounts.set(a.id, round2(Math.min(unfundedOf(a), a.commitment_amount * pct))));
+  } else {
+    const target = params.totalAmount || 0;
+    const capacity = participants.reduce((sum, a) => sum + unfundedOf(a), 0);
+    if (target > capacity + 0.005) {
+      throw new Error(`Call exceeds the participating investors' unfunded commitment of ${capacity.toFixed(2)}`);
+    }
+
+    let open = participants;
+    let remaining = target;
+    while (remaining > 0.005 && open.length > 0) {
+      const weight = open.reduce((sum, a) => sum + unfundedOf(a) - (amounts.get(a.id) || 0), 0);
+      const capped: CallableAccount[] = [];
+      let allocated = 0;
+
+      for (const account of open) {
+        const headroom = unfundedOf(account) - (amounts.get(account.id) || 0);
+        const share = Math.min(headroom, remaining * (headroom / weight));
+        amounts.set(account.id, (amounts.get(account.id) || 0) + share);
+        allocated += share;
+        if (share >= headroom - 0.005) capped.push(account);
+      }
+
+      remaining -= allocated;
+      open = open.filter(a => !capped.includes(a));
+    }
+
+    // Round to cents; the largest allocation absorbs the rounding difference
+    participants.forEach(a => amounts.set(a.id, round2(amounts.get(a.id) || 0)));
+    const diff = round2(target - Array.from(amounts.values()).reduce((sum, v) => sum + v, 0));
+    if (diff !== 0 && participants.length > 0) {
+      const largest = participants.reduce((best, a) => ((amounts.get(a.id) || 0) > (amounts.get(best.id) || 0) ? a : best));
+      amounts.set(largest.id, round2((amounts.get(largest.id) || 0) + diff));
+    }
+  }
+
+  return participants
+    .map(account => {
+      const callAmount = amounts.get(account.id) || 0;
+      return {
+        capitalAccountId: account.id,
+        unfunded: unfundedOf(account),
+        callAmount,
+        percentageOfCommitment: account.commitment_amount > 0
+          ? round2((callAmount / account.commitment_amount) * 100)
+          : 0,
+      };
+    })
+    .filter(a => a.callAmount > 0);
+}
+
+export async function issueCapitalCallBatch(input: CallBatchInput, allocations: CallAllocation[]) {
+  const { data, error } = await supabase.rpc('issue_capital_call', {
+    p_tenant_id: input.tenantId,
+    p_fund_id: input.fundId,
+    p_batch: {
+      call_date: input.callDate,
+      due_date: input.dueDate,
+      call_basis: input.callBasis,
+      total_amount: round2(allocations.reduce((sum, a) => sum + a.callAmount, 0)),
+      percentage_of_commitment: input.percentageOfCommitment,
+      currency: input.currency,
+      excluded_account_ids: input.excludedAccountIds,
+      excused_accounts: input.excusedAccounts,
+      default_interest_rate_pct: input.defaultInterestRatePct,
+      purpose: input.purpose,
+      payment_instructions: input.paymentInstructions,
+      notes: input.notes,
+    },
+    p_allocations: allocations.map(a => ({
+      capital_account_id: a.capitalAccountId,
+      call_amount: a.callAmount,
+      percentage_of_commitment: a.percentageOfCommitment,
+    })),
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+/** Simple actual/365 interest on the unpaid balance from the day after the due date. */
+export function calculateDefaultInterest(outstanding: number, ratePct: number, dueDate: Date, asOf: Date) {
+  const daysLate = Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS);
+  if (daysLate <= 0 || outstanding <= 0 || ratePct <= 0) return 0;
+  return round2(outstanding * (ratePct / 100) * (daysLate / 365));
+}
+
+interface CapitalCallNotice {
+  call_number: string;
+  call_date: string;
+  due_date: string;
+  call_amount: number;
+  percentage_of_commitment: number;
+  currency: string;
+  purpose: string | null;
+  payment_instructions: string | null;
+  fund_name: string;
+  investor_name: string;
+  account_number: string;
+  commitment_amount: number;
+  capital_called: number;
+}
+
+/** A `capital_calls` row with the fund and investor it is addressed to. */
+interface CapitalCallNoticeRow extends Omit<CapitalCallNotice, 'fund_name' | 'investor_name' | 'account_number' | 'commitment_amount' | 'capital_called'> {
+  id: string;
+  fund: { fund_name: string } | null;
+  capital_account: {
+    account_number: string;
+    commitment_amount: number;
+    capital_called: number;
+    investor: { full_name: string; email: string | null } | null;
+  };
+}
+
+/**
+ * Marks unpaid calls past their due date as overdue and brings their default
+ * interest up to today.
+ */
+export async function refreshOverdueCalls(fundId: string) {
+  const today = new Date();
+  const todayStr = today.toISOString().split('T')[0];
+
+  const { data: calls, error } = await supabase
+    .from('capital_calls')
+    .select('id, status, due_date, amount_outstanding, default_interest_rate_pct')
+    .eq('fund_id', fundId)
+    .in('status', ['issued', 'partial', 'overdue'])
+    .lt('due_date', todayStr);
+
+  if (error) throw error;
+
+  for (const call of calls || []) {
+    const interest = calculateDefaultInterest(
+      call.amount_outstanding || 0,
+      call.default_interest_rate_pct || 0,
+      new Date(call.due_date),
+      today
+    );
+
+    const { error: updateError } = await supabase
+      .from('capital_calls')
+      .update({
+        status: call.status === 'issued' ? 'overdue' : call.status,
+        default_interest_accrued: interest,
+        default_interest_as_of: todayStr,
+      })
+      .eq('id', call.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return (calls || []).length;
+}
+
+export async function setDefaultStatus(callId: string, status: DefaultStatus, notes?: string) {
+  const updates: Record<string, unknown> = { default_status: status };
+  if (status === 'notice_sent') updates.default_notice_sent_at = new Date().toISOString();
+  if (notes !== undefined) updates.remedy_notes = notes;
+
+  const { data, error } = await supabase
+    .from('capital_calls')
+    .update(updates)
+    .eq('id', callId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function buildCapitalCallNotice(branding: DocumentBranding, call: CapitalCallNotice) {
+  const pdf = await createBrandedDocument(branding, 'Capital Call Notice', call.fund_name);
+  const money = (value: number) => formatCurrency(value, call.currency);
+
+  pdf.heading(`Capital Call ${call.call_number}`);
+  pdf.paragraph(`Dear ${call.investor_name},`);
+  pdf.paragraph(
+    `In accordance with the terms of the ${call.fund_name} limited partnership agreement, the General Partner ` +
+    `hereby calls capital from you as set out below. Please remit the amount due by ${formatDate(call.due_date, 'long')}.`
+  );
+
+  pdf.keyValues([
+    ['Investor', call.investor_name],
+    ['Capital account', call.account_number],
+    ['Notice date', formatDate(call.call_date, 'long')],
+    ['Due date', formatDate(call.due_date, 'long')],
+    ['Amount due', money(call.call_amount)],
+    ['Percentage of commitment', `${call.percentage_of_commitment.toFixed(2)}%`],
+  ]);
+
+  if (call.purpose) {
+    pdf.heading('Purpose');
+    pdf.paragraph(call.purpose);
+  }
+
+  pdf.heading('Commitment Summary');
+  pdf.table(
+    ['', 'Amount'],
+    [
+      ['Total commitment', money(call.commitment_amount)],
+      ['Called to date (including this notice)', money(call.capital_called)],
+      ['Remaining unfunded commitment', money(Math.max(0, call.commitment_amount - call.capital_called))],
+    ],
+    { widths: [345, 150] }
+  );
+
+  if (call.payment_instructions) {
+    pdf.heading('Payment Instructions');
+    pdf.paragraph(call.payment_instructions);
+  }
+
+  pdf.paragraph(
+    'Amounts not received by the due date may accrue default interest and are subject to the default remedies ' +
+    'in the partnership agreement.',
+    { size: 8 }
+  );
+
+  return pdf.save();
+}
+
+/**
+ * Emails every investor in a batch their own notice PDF. Returns the number
+ * sent; investors without an email address are skipped.
+ */
+export async function sendCapitalCallNotices(batchId: string, branding: DocumentBranding, accountId: string) {
+  const { data: calls, error } = await supabase
+    .from('capital_calls')
+    .select(`
+      *,
+      fund:funds!fund_id(fund_name),
+      capital_account:capital_accounts!capital_account_id(
+        account_number,
+        commitment_amount,
+        capital_called,
+        investor:client_profiles!investor_id(full_name, email)
+      )
+    `)
+    .eq('batch_id', batchId);
+
+  if (error) throw error;
+
+  let sent = 0;
+  for (const call of (calls as CapitalCallNoticeRow[] | null) || []) {
+    const investor = call.capital_account?.investor;
+    if (!investor?.email) continue;
+
+    const pdf = await buildCapitalCallNotice(branding, {
+      ...call,
+      fund_name: call.fund?.fund_name || '',
+      investor_name: investor.full_name,
+      account_number: call.capital_account.account_number,
+      commitment_amount: call.capital_account.commitment_amount,
+      capital_called: call.capital_account.capital_called,
+    });
+
+    await sendEmail({
+      accountId,
+      to: [investor.email],
+      subject: `Capital Call Notice ${call.call_number} – ${call.fund?.fund_name || ''}`,
+      bodyHtml: `<p>Dear ${investor.full_name},</p>` +
+        `<p>Please find attached capital call notice ${call.call_number} for ${formatCurrency(call.call_amount, call.currency)}, ` +
+        `due ${formatDate(call.due_date, 'long')}.</p><p>Kind regards,<br>${branding.tenantName}</p>`,
+      attachments: [{
+        filename: `${call.call_number}.pdf`,
+        content: pdfToBase64(pdf),
+        content_type: 'application/pdf',
+      }],
+    });
+
+    await supabase
+      .from('capital_calls')
+      .update({ notice_sent_at: new Date().toISOString() })
+      .eq('id', call.id);
+
+    sent += 1;
+  }
+
+  await supabase
+    .from('capital_call_batches')
+    .update({ notices_sent_at: new Date().toISOString() })
+    .eq('id', batchId);
+
+  return sent;
+}
@@ -0,0 +1,307 @@
+import { supabase } from './supabase';
+import {
+  ComplianceStatus,
+  IssuerMapping,
+  IssuerType,
+  LiquidityBucket,
+  PortfolioHolding,
+  PortfolioSnapshot,
+  RegulatoryRule,
+  RuleHeadroom,
+  evaluateComplianceRules,
+  loadIssuerMappings,
+  loadPortfolioSnapshot,
+  resolveHolding,
+  ruleHeadroom,
+} from './regulatoryCompliance';
+
+/**
+ * A hypothetical change to test before it happens. Amounts are in the fund's
+ * base currency.
+ *  - trade: buy (positive amount) or sell (negative) a security, paid from
+ *    cash or with new borrowing; derivatives can carry a notional
+ *  - borrowing: draw (positive) or repay (negative) a facility
+ *  - redemption / subscription: investor cash out of or into the fund
+ */
+export type HypotheticalChange =
+  | {
+      type: 'trade';
+      identifier: string;
+      amount: number;
+      issuer?: string;
+      issuerType?: IssuerType;
+      category?: string;
+      liquidityBucket?: LiquidityBucket;
+      notional?: number;
+      fundedBy?: 'cash' | 'borrowing';
+    }
+  | { type: 'borrowing'; amount: number }
+  | { type: 'redemption'; amount: number; investorId?: string }
+  | { type: 'subscription'; amount: number; investorId?: string };
+
+export interface SimulatedRule {
+  ruleCode: string;
+  ruleName: string;
+  ruleCategory: string;
+  severity: string;
+  before: ComplianceStatus;
+  after: ComplianceStatus;
+  deteriorated: boolean;
+  message: string;
+  headroomBefore: RuleHeadroom[];
+  headroomAfter: RuleHeadroom[];
+}
+
+export interface FrameworkSimulation {
+  frameworkId: string;
+  before: ComplianceStatus;
+  after: ComplianceStatus;
+  rules: SimulatedRule[];
+}
+
+export interface ComplianceSimulation {
+  before: PortfolioSnapshot;
+  after: PortfolioSnapshot;
+  frameworks: FrameworkSimulation[];
+  // True when any rule would move to a worse status
+  blocked: boolean;
+}
+
+const STATUS_RANK: Record<ComplianceStatus, number> = { compliant: 0, warning: 1, breach: 2 };
+
+const SIMULATED_CASH = 'Cash (simulated)';
+
+function cloneSnapshot(snapshot: PortfolioSnapshot): PortfolioSnapshot {
+  return {
+    ...snapshot,
+    holdings: snapshot.holdings.map(h => ({ ...h })),
+    investors: snapshot.investors.map(i => ({ ...i })),
+  };
+}
+
+function cashHoldings(snapshot: PortfolioSnapshot) {
+  return snapshot.holdings.filter(h => h.issuerType === 'cash' && h.value > 0);
+}
+
+function addCash(snapshot: PortfolioSnapshot, amount: number) {
+  const cash = cashHoldings(snapshot)[0];
+  if (cash) {
+    cash.value += amount;
+    cash.exposure = Math.abs(cash.value);
+  } else {
+    snapshot.holdings.push({
+      identifier: SIMULATED_CASH,
+      description: SIMULATED_CASH,
+      category: 'Cash & Cash Equivalents',
+      value: amount,
+      exposure: amount,
+      issuer: SIMULATED_CASH,
+      issuerType: 'cash',
+      liquidityBucket: '1d',
+    });
+  }
+  snapshot.totalAssets += amount;
+}
+
+/**
+ * Takes `amount` out of cash first and, for anything cash cannot cover, sells
+ * a pro-rata slice of the remaining holdings.
+ */
+function raiseCash(snapshot: PortfolioSnapshot, amount: number) {
+  let remaining = amount;
+
+  for (const cash of cashHoldings(snapshot)) {
+    const used = Math.min(cash.value, remaining);
+    cash.value -= used;
+    cash.exposure = cash.value;
+    remaining -= used;
+  }
+
+  if (remaining > 0.005) {
+    const others = snapshot.holdings.filter(h => h.issuerType !== 'cash' && h.value > 0);
+    const total = others.reduce((sum, h) => sum + h.value, 0);
+    const fraction = total > 0 ? Math.min(1, remaining / total) : 0;
+    others.forEach(h => {
+      h.value -= h.value * fraction;
+      h.exposure -= h.exposure * fraction;
+    });
+  }
+
+  snapshot.totalAssets -= amount;
+}
+
+function adjustInvestors(snapshot: PortfolioSnapshot, amount: number, investorId?: string) {
+  if (investorId) {
+    const investor = snapshot.investors.find(i => i.investorId === investorId);
+    if (investor) {
+      investor.value = Math.max(0, investor.value + amount);
+    } else if (amount > 0) {
+      snapshot.investors.push({ investorId, value: amount });
+    }
+    return;
+  }
+
+  const total = snapshot.investors.reduce((sum, i) => sum + i.value, 0);
+  if (total <= 0) return;
+  snapshot.investors.forEach(i => {
+    i.value = Math.max(0, i.value + amount * (i.value / total));
+  });
+}
+
+/** Returns a copy of the snapshot with the hypothetical changes applied in order. */
+export function applyHypotheticalChanges(
+  snapshot: PortfolioSnapshot,
+  changes: HypotheticalChange[],
+  mappings: Map<string, IssuerMapping> = new Map()
+): PortfolioSnapshot {
+  const next = cloneSnapshot(snapshot);
+
+  for (const change of changes) {
+    switch (change.type) {
+      case 'trade': {
+        const key = change.identifier.toLowerCase();
+        const existing = next.holdings.find(h => h.identifier.toLowerCase() === key);
+
+        if (change.amount >= 0) {
+          if (change.fundedBy === 'borrowing') {
+            next.totalLiabilities += change.amount;
+            next.totalBorrowing += change.amount;
+            next.totalAssets += change.amount;
+          } else {
+            raiseCash(next, change.amount);
+            next.totalAssets += change.amount;
+          }
+
+          const exposure = Math.abs(change.notional ?? change.amount);
+          if (existing) {
+            existing.value += change.amount;
+            existing.exposure += exposure;
+          } else {
+            const meta = {
+              issuer: change.issuer,
+              issuer_type: change.issuerType,
+              liquidity_bucket: change.liquidityBucket,
+            };
+            const holding: PortfolioHolding = resolveHolding({
+              identifier: change.identifier,
+              description: change.identifier,
+              category: change.category || 'Securities - Equities',
+              value: change.amount,
+              exposure,
+            }, meta, mappings);
+            next.holdings.push(holding);
+          }
+        } else {
+          const proceeds = Math.min(-change.amount, existing?.value || 0);
+          if (existing && existing.value > 0) {
+            existing.exposure -= existing.exposure * (proceeds / existing.value);
+            existing.value -= proceeds;
+          }
+          next.totalAssets -= proceeds;
+          addCash(next, proceeds);
+        }
+        break;
+      }
+
+      case 'borrowing': {
+        if (change.amount >= 0) {
+          addCash(next, change.amount);
+        } else {
+          raiseCash(next, -change.amount);
+        }
+        next.totalLiabilities = Math.max(0, next.totalLiabilities + change.amount);
+        next.totalBorrowing = Math.max(0, next.totalBorrowing + change.amount);
+        break;
+      }
+
+      case 'redemption': {
+        raiseCash(next, change.amount);
+        adjustInvestors(next, -change.amount, change.investorId);
+        break;
+      }
+
+      case 'subscription': {
+        addCash(next, change.amount);
+        adjustInvestors(next, change.amount, change.investorId);
+        break;
+      }
+    }
+  }
+
+  next.holdings = next.holdings.filter(h => h.value > 0.005);
+  next.netAssetValue = next.totalAssets - next.totalLiabilities;
+  return next;
+}
+
+/**
+ * Pre-trade check: runs the fund's rules against its current portfolio and
+ * against the portfolio after the hypothetical changes, reporting which rules
+ * would deteriorate and the headroom left on every limit. Defaults to every
+ * framework the fund is mapped to. Nothing is recorded.
+ */
+export async function simulateCompliance(
+  fundId: string,
+  tenantId: string,
+  changes: HypotheticalChange[],
+  frameworkIds?: string[]
+): Promise<ComplianceSimulation> {
+  let ids = frameworkIds;
+  if (!ids) {
+    const { data: mappings, error } = await supabase
+      .from('regulatory_framework_fund_mappings')
+      .select('framework_id')
+      .eq('fund_id', fundId);
+
+    if (error) throw error;
+    ids = (mappings || []).map(m => m.framework_id);
+  }
+
+  const [before, mappings, rulesResult] = await Promise.all([
+    loadPortfolioSnapshot(fundId, tenantId),
+    loadIssuerMappings(tenantId),
+    supabase
+      .from('regulatory_rules_library')
+      .select('*')
+      .in('framework_id', ids)
+      .eq('is_active', true),
+  ]);
+
+  if (rulesResult.error) throw rulesResult.error;
+
+  const after = applyHypotheticalChanges(before, changes, mappings);
+  const rules = (rulesResult.data || []) as RegulatoryRule[];
+
+  const frameworks = ids.map(frameworkId => {
+    const frameworkRules = rules.filter(r => r.framework_id === frameworkId);
+    const current = evaluateComplianceRules(frameworkRules, before);
+    const simulated = evaluateComplianceRules(frameworkRules, after);
+
+    return {
+      frameworkId,
+      before: current.status,
+      after: simulated.status,
+      rules: simulated.ruleResults.map(result => {
+        const baseline = current.ruleResults.find(r => r.ruleCode === result.ruleCode)!;
+        return {
+          ruleCode: result.ruleCode,
+          ruleName: result.ruleName,
+          ruleCategory: result.ruleCategory,
+          severity: result.severity,
+          before: baseline.status,
+          after: result.status,
+          deteriorated: STATUS_RANK[result.status] > STATUS_RANK[baseline.status],
+          message: result.message,
+          headroomBefore: ruleHeadroom(baseline),
+          headroomAfter: ruleHeadroom(result),
+        };
+      }),
+    };
+  });
+
+  return {
+    before,
+    after,
+    frameworks,
+    blocked: frameworks.some(f => f.rules.some(r => r.deteriorated)),
+  };
+}
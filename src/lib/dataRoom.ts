@@ -0,0 +1,312 @@
+import { supabase } from './supabase';
+
+/**
+ * Investor Vault data room. Staff manage folders, per-prospect access
+ * grants and notification settings directly; prospects only ever talk to
+ * the get-vault-documents and vault-document Edge Functions, which open a
+ * two-hour session, serve watermarked files and log every view.
+ */
+
+export type VaultStage = 'prospect' | 'qualified' | 'due_diligence' | 'committed';
+
+export const VAULT_STAGES: { value: VaultStage; label: string }[] = [
+  { value: 'prospect',      label: 'Prospect' },
+  { value: 'qualified',     label: 'Qualified' },
+  { value: 'due_diligence', label: 'Due Diligence' },
+  { value: 'committed',     label: 'Committed' },
+];
+
+export function stageLabel(stage: string): string {
+  return VAULT_STAGES.find((s) => s.value === stage)?.label ?? stage;
+}
+
+export interface VaultFolder {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string;
+  min_stage: VaultStage;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface VaultAccessGrant {
+  id: string;
+  tenant_id: string;
+  prospect_name: string;
+  prospect_email: string;
+  stage: VaultStage;
+  access_token: string;
+  note: string;
+  expires_at: string;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+  invited_by: string | null;
+  created_at: string;
+}
+
+export interface VaultDocumentEvent {
+  id: string;
+  session_id: string;
+  grant_id: string | null;
+  document_id: string;
+  viewer_name: string;
+  viewer_email: string;
+  action: 'view' | 'download';
+  seconds_viewed: number;
+  started_at: string;
+  last_seen_at: string;
+  notified_at: string | null;
+}
+
+export interface VaultSettings {
+  tenant_id: string;
+  passphrase_stage: VaultStage;
+  notify_emails: string[];
+  alerts_seen_at: string;
+}
+
+export interface DocumentAnalytics {
+  views: number;
+  downloads: number;
+  uniqueViewers: number;
+  totalSeconds: number;
+  lastOpenedAt: string | null;
+}
+
+export type GrantStatus = 'active' | 'expired' | 'revoked';
+
+export function grantStatus(grant: VaultAccessGrant): GrantStatus {
+  if (grant.revoked_at) return 'revoked';
+  return new Date(grant.expires_at).getTime() <= Date.now() ? 'expired' : 'active';
+}
+
+export function inviteLink(grant: VaultAccessGrant): string {
+  return `${window.location.origin}/vault?access=${grant.access_token}`;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// ---------------------------------------------------------------------------
+// Staff
+// ---------------------------------------------------------------------------
+
+export async function fetchVaultFolders(tenantId: string): Promise<VaultFolder[]> {
+  const { data, error } = await supabase
+    .from('vault_folders')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveVaultFolder(
+  tenantId: string,
+  folder: Pick<VaultFolder, 'name' | 'description' | 'min_stage'> & { id?: string; sort_order?: number },
+): Promise<void> {
+  const row = {
+    name: folder.name.trim(),
+    description: folder.description.trim(),
+    min_stage: folder.min_stage,
+  };
+
+  const { error } = folder.id
+    ? await supabase.from('vault_folders').update(row).eq('id', folder.id)
+    : await supabase.from('vault_folders').insert({ ...row, tenant_id: tenantId, sort_order: folder.sort_order ?? 0 });
+
+  if (error) throw error;
+}
+
+export async function deleteVaultFolder(folderId: string): Promise<void> {
+  const { error } = await supabase.from('vault_folders').delete().eq('id', folderId);
+  if (error) throw error;
+}
+
+export async function fetchAccessGrants(tenantId: string): Promise<VaultAccessGrant[]> {
+  const { data, error } = await supabase
+    .from('vault_access_grants')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createAccessGrant(
+  tenantId: string,
+  grant: { prospect_name: string; prospect_email: string; stage: VaultStage; expires_at: string; note?: string },
+): Promise<VaultAccessGrant> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('vault_access_grants')
+    .insert({
+      tenant_id: tenantId,
+      prospect_name: grant.prospect_name.trim(),
+      prospect_email: grant.prospect_email.trim().toLowerCase(),
+      stage: grant.stage,
+      expires_at: grant.expires_at,
+      note: grant.note?.trim() ?? '',
+      invited_by: user?.id ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateAccessGrant(
+  grantId: string,
+  changes: Partial<Pick<VaultAccessGrant, 'stage' | 'expires_at' | 'revoked_at'>>,
+): Promise<void> {
+  const { error } = await supabase.from('vault_access_grants').update(changes).eq('id', grantId);
+  if (error) throw error;
+}
+
+export async function fetchDocumentEvents(tenantId: string, since: string): Promise<VaultDocumentEvent[]> {
+  const { data, error } = await supabase
+    .from('vault_document_events')
+    .select('id, session_id, grant_id, document_id, viewer_name, viewer_email, action, seconds_viewed, started_at, last_seen_at, notified_at')
+    .eq('tenant_id', tenantId)
+    .gte('started_at', since)
+    .order('started_at', { ascending: false })
+    .limit(1000);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchVaultSettings(tenantId: string): Promise<VaultSettings> {
+  const { data, error } = await supabase
+    .from('vault_settings')
+    .select('tenant_id, passphrase_stage, notify_emails, alerts_seen_at')
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ?? {
+    tenant_id: tenantId,
+    passphrase_stage: 'prospect',
+    notify_emails: [],
+    alerts_seen_at: new Date(0).toISOString(),
+  };
+}
+
+export async function saveVaultSettings(
+  tenantId: string,
+  changes: Partial<Pick<VaultSettings, 'passphrase_stage' | 'notify_emails' | 'alerts_seen_at'>>,
+): Promise<void> {
+  const { error } = await supabase
+    .from('vault_settings')
+    .upsert({ tenant_id: tenantId, ...changes, updated_at: new Date().toISOString() }, { onConflict: 'tenant_id' });
+
+  if (error) throw error;
+}
+
+export function summarizeDocumentEvents(events: VaultDocumentEvent[]): Map<string, DocumentAnalytics> {
+  const summary = new Map<string, DocumentAnalytics & { viewers: Set<string> }>();
+
+  for (const event of events) {
+    const entry = summary.get(event.document_id) ?? {
+      views: 0, downloads: 0, uniqueViewers: 0, totalSeconds: 0, lastOpenedAt: null, viewers: new Set<string>(),
+    };
+    if (event.action === 'download') entry.downloads++;
+    else entry.views++;
+    entry.totalSeconds += event.seconds_viewed;
+    entry.viewers.add(event.viewer_email.toLowerCase());
+    if (!entry.lastOpenedAt || event.started_at > entry.lastOpenedAt) entry.lastOpenedAt = event.started_at;
+    summary.set(event.document_id, entry);
+  }
+
+  return new Map(
+    [...summary].map(([id, { viewers, ...rest }]) => [id, { ...rest, uniqueViewers: viewers.size }]),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Prospect (public Edge Functions)
+// ---------------------------------------------------------------------------
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+export interface VaultSessionInfo {
+  token: string;
+  expires_at: string;
+  viewer_name: string;
+  viewer_email: string;
+  stage: VaultStage;
+}
+
+export interface VaultRoomDocument {
+  id: string;
+  document_name: string;
+  document_type: string;
+  description: string;
+  sort_order: number;
+  folder_id: string | null;
+  is_key_document: boolean;
+  internal_path: string | null;
+  file_type: string | null;
+}
+
+export interface VaultRoom {
+  session: VaultSessionInfo;
+  tenant: { id: string; slug: string; name: string } | null;
+  folders: Pick<VaultFolder, 'id' | 'name' | 'description' | 'min_stage' | 'sort_order'>[];
+  documents: VaultRoomDocument[];
+}
+
+async function vaultFetch(fn: string, body: Record<string, unknown>): Promise<Response> {
+  const res = await fetch(`${FUNCTIONS_URL}/${fn}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    // 401 messages are written for the prospect ("This access link has expired")
+    const data = await res.json().catch(() => ({}));
+    throw new Error(res.status === 401 && data.error ? data.error : 'Unable to connect. Please try again shortly.');
+  }
+  return res;
+}
+
+export type VaultCredentials =
+  | { access_token: string }
+  | { session_token: string }
+  | { tenant_slug: string; passphrase: string; viewer_name: string; viewer_email: string };
+
+export async function openVaultRoom(credentials: VaultCredentials): Promise<VaultRoom> {
+  const res = await vaultFetch('get-vault-documents', credentials);
+  return res.json();
+}
+
+/** Fetches a (watermarked) document and the id of the view event it logged. */
+export async function fetchVaultDocument(
+  sessionToken: string,
+  documentId: string,
+  action: 'view' | 'download',
+): Promise<{ blob: Blob; eventId: string | null }> {
+  const res = await vaultFetch('vault-document', { session_token: sessionToken, document_id: documentId, action });
+  return { blob: await res.blob(), eventId: res.headers.get('X-Vault-Event-Id') };
+}
+
+/** Logs an open of an internal (in-app) document, which has no file to serve. */
+export async function trackVaultDocumentOpen(sessionToken: string, documentId: string): Promise<string | null> {
+  const res = await vaultFetch('vault-document', { session_token: sessionToken, document_id: documentId, action: 'view' });
+  const data = await res.json();
+  return data.event_id ?? null;
+}
+
+export async function recordVaultViewTime(sessionToken: string, eventId: string, seconds: number): Promise<void> {
+  await vaultFetch('vault-document', { session_token: sessionToken, event_id: eventId, action: 'heartbeat', seconds });
+}
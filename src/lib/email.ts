@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+  content_type: string;
+}
+
+export interface OutgoingEmail {
+  accountId: string;
+  to: string[];
+  subject: string;
+  bodyHtml: string;
+  bodyText?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Mailbox the current user may send from, preferring shared and department
+ * accounts over personal ones for investor-facing notices.
+ */
+export async function getSendingAccountId(userId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_user_email_accounts', { p_user_id: userId });
+  if (error) throw error;
+
+  const sendable = ((data || []) as { id: string; account_type: string; access_level: string }[])
+    .filter(a => a.access_level === 'full' || a.access_level === 'send_only');
+  const shared = sendable.find(a => a.account_type !== 'personal');
+  return (shared || sendable[0])?.id || null;
+}
+
+export async function sendEmail(email: OutgoingEmail) {
+  const { data: { session } } = await supabase.auth.getSession();
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session?.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      account_id: email.accountId,
+      to: email.to,
+      subject: email.subject,
+      body_html: email.bodyHtml,
+      body_text: email.bodyText,
+      reply_to: email.replyTo,
+      attachments: email.attachments,
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to send');
+  return result;
+}
@@ -0,0 +1,132 @@
+import { supabase } from './supabase';
+import { getLatestNAV } from './navCalculation';
+import { computeAuctionClearing } from './auctionClearing';
+
+export { computeAuctionClearing, type AuctionClearing } from './auctionClearing';
+
+export type BookMode = 'continuous' | 'auction';
+export type OrderSide = 'bid' | 'ask';
+
+export interface ExchangeBook {
+  id: string;
+  tenant_id: string;
+  fund_id: string;
+  share_class_id: string | null;
+  name: string;
+  mode: BookMode;
+  auction_frequency: 'monthly' | 'quarterly';
+  next_auction_date: string | null;
+  price_band_pct: number | null;
+  requires_accreditation: boolean;
+  last_price: number | null;
+  last_auction_at: string | null;
+  last_auction_price: number | null;
+  is_active: boolean;
+}
+
+export interface BookOrder {
+  id: string;
+  book_id: string;
+  client_id: string;
+  side: OrderSide;
+  limit_price: number;
+  quantity: number;
+  quantity_filled: number;
+  status: 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface DepthLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface BookDepth {
+  reference_nav: number | null;
+  reference_nav_date: string | null;
+  last_price: number | null;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+export async function getBookDepth(bookId: string) {
+  const { data, error } = await supabase.rpc('get_exchange_book_depth', { p_book_id: bookId });
+
+  if (error) throw error;
+  return data as BookDepth;
+}
+
+export async function placeBookOrder(params: {
+  bookId: string;
+  side: OrderSide;
+  quantity: number;
+  limitPrice: number;
+  expiresAt: Date | null;
+}) {
+  const { data, error } = await supabase.rpc('place_exchange_book_order', {
+    p_book_id: params.bookId,
+    p_side: params.side,
+    p_quantity: params.quantity,
+    p_limit_price: params.limitPrice,
+    p_expires_at: params.expiresAt ? params.expiresAt.toISOString() : null,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export async function cancelBookOrder(orderId: string) {
+  const { error } = await supabase.rpc('cancel_exchange_book_order', { p_order_id: orderId });
+
+  if (error) throw error;
+}
+
+/** Open orders in a book that have not expired, oldest first. */
+export async function getOpenBookOrders(bookId: string) {
+  const { data, error } = await supabase
+    .from('exchange_book_orders')
+    .select('*')
+    .eq('book_id', bookId)
+    .in('status', ['open', 'partially_filled'])
+    .order('created_at');
+
+  if (error) throw error;
+
+  const now = Date.now();
+  return ((data || []) as BookOrder[]).filter(o => !o.expires_at || new Date(o.expires_at).getTime() > now);
+}
+
+/**
+ * Works out where an auction book would clear right now against the latest
+ * approved NAV for its fund and class, without executing anything.
+ */
+export async function previewAuction(book: ExchangeBook) {
+  const [orders, nav] = await Promise.all([
+    getOpenBookOrders(book.id),
+    getLatestNAV(book.fund_id, book.share_class_id || undefined),
+  ]);
+
+  const remaining = (side: OrderSide) => orders
+    .filter((o: BookOrder) => o.side === side)
+    .map((o: BookOrder) => ({ price: Number(o.limit_price), quantity: Number(o.quantity) - Number(o.quantity_filled) }));
+
+  const referencePrice = nav ? Number(nav.nav_per_share) : null;
+  return {
+    clearing: computeAuctionClearing(remaining('bid'), remaining('ask'), referencePrice),
+    referencePrice,
+    referenceDate: (nav?.nav_date as string | undefined) || null,
+  };
+}
+
+/** Crosses an auction book at the given price; returns the number of fills. */
+export async function runAuction(bookId: string, price: number) {
+  const { data, error } = await supabase.rpc('run_exchange_auction', {
+    p_book_id: bookId,
+    p_price: price,
+  });
+
+  if (error) throw error;
+  return (data as number) || 0;
+}
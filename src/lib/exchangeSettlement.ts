@@ -0,0 +1,342 @@
+import { supabase } from './supabase';
+import { sendEmail } from './email';
+import { isKycApproved } from './kycStatus';
+import { createBrandedDocument, DocumentBranding, pdfToBase64 } from './pdfDocument';
+import { formatCurrency, formatDate, formatNumber } from './format';
+
+export interface EligibilityCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface OrderReview {
+  eligible: boolean;
+  checks: EligibilityCheck[];
+  rofrDays: number;
+  requiresConsent: boolean;
+}
+
+export interface TransferConfirmation {
+  id: string;
+  exchange_transaction_id: string;
+  party: 'buyer' | 'seller';
+  client_id: string;
+  confirmation_number: string;
+  asset_name: string;
+  quantity: number;
+  price_per_unit: number;
+  gross_amount: number;
+  fee_amount: number;
+  net_amount: number;
+  cost_basis: number | null;
+  realized_gain_loss: number | null;
+  trade_date: string;
+  issued_at: string;
+  client?: { full_name: string; email: string } | null;
+  capital_account?: { account_number: string } | null;
+}
+
+/** The `marketplace_listings` columns an order review checks. */
+interface ListingTerms {
+  status: string;
+  expires_at: string | null;
+  price_per_unit: number;
+  pricing_type: string;
+  quantity_available: number;
+  min_purchase_quantity: number | null;
+  asset_type: string;
+  asset_id: string | null;
+  requires_accreditation: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+async function loadBuyerStatus(buyerId: string) {
+  const [kyc, contact] = await Promise.all([
+    supabase
+      .from('kyc_aml_records')
+      .select('didit_session_status, created_at')
+      .eq('client_user_id', buyerId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('crm_contacts')
+      .select('id, accreditation_status')
+      .eq('converted_to_client_id', buyerId)
+      .maybeSingle(),
+  ]);
+
+  let accredited = contact.data?.accreditation_status === 'verified_accredited';
+  if (!accredited && contact.data) {
+    const today = new Date().toISOString().split('T')[0];
+    const { data: verifications } = await supabase
+      .from('accreditation_verification')
+      .select('verified_accredited, expiration_date')
+      .eq('contact_id', contact.data.id)
+      .eq('verified_accredited', true);
+
+    accredited = (verifications || []).some(v => !v.expiration_date || v.expiration_date >= today);
+  }
+
+  return {
+    kycStatus: kyc.data?.didit_session_status || null,
+    accredited,
+  };
+}
+
+/**
+ * Everything that has to hold before an order can be matched: the order
+ * fits the listing on price and size, the listing is live, the seller holds
+ * the units and the buyer has cleared KYC (and accreditation when the
+ * listing requires it).
+ */
+export async function reviewExchangeOrder(orderId: string): Promise<OrderReview> {
+  const { data: order, error } = await supabase
+    .from('exchange_orders')
+    .select('*, listing:marketplace_listings!listing_id(*)')
+    .eq('id', orderId)
+    .single();
+
+  if (error) throw error;
+
+  const listing = (order as { listing: ListingTerms }).listing;
+  const checks: EligibilityCheck[] = [];
+  const add = (id: string, label: string, passed: boolean, detail: string) =>
+    checks.push({ id, label, passed, detail });
+
+  const quantity = Number(order.quantity);
+  const price = Number(order.price_per_unit);
+  const askPrice = Number(listing.price_per_unit);
+  const available = Number(listing.quantity_available);
+
+  add('listing_active', 'Listing is active',
+    listing.status === 'active' && (!listing.expires_at || new Date(listing.expires_at) > new Date()),
+    listing.status !== 'active' ? `Listing is ${listing.status}` : listing.expires_at ? `Expires ${formatDate(listing.expires_at, 'short')}` : 'No expiry');
+
+  add('quantity', 'Quantity available',
+    quantity > 0 && quantity <= available && (!listing.min_purchase_quantity || quantity >= Number(listing.min_purchase_quantity)),
+    `${formatNumber(quantity)} ordered of ${formatNumber(available)} available` +
+      (listing.min_purchase_quantity ? `, minimum ${formatNumber(Number(listing.min_purchase_quantity))}` : ''));
+
+  const priceMatches = listing.pricing_type === 'negotiable'
+    ? price > 0
+    : Math.abs(price - askPrice) < 0.000001;
+  add('price', 'Price matches listing', priceMatches,
+    `Bid ${formatCurrency(price)} vs ask ${formatCurrency(askPrice)}${listing.pricing_type === 'negotiable' ? ' (negotiable)' : ''}`);
+
+  add('counterparties', 'Distinct buyer and seller', order.buyer_id !== order.seller_id,
+    order.buyer_id === order.seller_id ? 'Buyer and seller are the same client' : 'OK');
+
+  let rofrDays = 0;
+  let requiresConsent = false;
+  if (listing.asset_type === 'fund_share' && listing.asset_id) {
+    const [{ data: fund }, { data: accounts }] = await Promise.all([
+      supabase
+        .from('funds')
+        .select('fund_name, transfer_rofr_days, transfer_requires_consent')
+        .eq('id', listing.asset_id)
+        .single(),
+      supabase
+        .from('capital_accounts')
+        .select('shares_owned')
+        .eq('fund_id', listing.asset_id)
+        .eq('investor_id', order.seller_id)
+        .eq('status', 'active'),
+    ]);
+
+    rofrDays = fund?.transfer_rofr_days || 0;
+    requiresConsent = !!fund?.transfer_requires_consent;
+    const held = Math.max(0, ...(accounts || []).map(a => Number(a.shares_owned) || 0));
+    add('seller_holding', 'Seller holds the units', held >= quantity,
+      `${formatNumber(held)} units held in ${fund?.fund_name || 'fund'}`);
+  } else {
+    add('seller_holding', 'Seller holds the units', false, 'Only fund share listings can settle through capital accounts');
+  }
+
+  const buyer = await loadBuyerStatus(order.buyer_id);
+  add('buyer_kyc', 'Buyer KYC/AML approved', isKycApproved(buyer.kycStatus),
+    buyer.kycStatus ? `Verification status: ${buyer.kycStatus}` : 'No KYC verification on file');
+
+  if (listing.requires_accreditation) {
+    add('buyer_accreditation', 'Buyer is accredited', buyer.accredited,
+      buyer.accredited ? 'Verified accredited investor' : 'No current accreditation verification');
+  }
+
+  return {
+    eligible: checks.every(c => c.passed),
+    checks,
+    rofrDays,
+    requiresConsent,
+  };
+}
+
+/**
+ * Matches an order once every eligibility check passes and opens the GP's
+ * right-of-first-refusal window when the fund has one. The buyer's KYC and
+ * accreditation are checked again by `settle_exchange_order`.
+ */
+export async function matchExchangeOrder(orderId: string, userId: string) {
+  const review = await reviewExchangeOrder(orderId);
+  if (!review.eligible) {
+    const failed = review.checks.filter(c => !c.passed).map(c => c.label);
+    throw new Error(`Order is not eligible: ${failed.join(', ')}`);
+  }
+
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('exchange_orders')
+    .update({
+      status: 'matched',
+      matched_at: now.toISOString(),
+      matched_by: userId,
+      eligibility_checks: review.checks,
+      rofr_status: review.rofrDays > 0 ? 'open' : 'not_applicable',
+      rofr_deadline: review.rofrDays > 0 ? new Date(now.getTime() + review.rofrDays * DAY_MS).toISOString() : null,
+    })
+    .eq('id', orderId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) throw new Error('Order is no longer pending');
+  return review;
+}
+
+/**
+ * Records the GP's decision on a matched order. Waiving also gives consent
+ * to the transfer; exercising the right of first refusal cancels the order
+ * through `exercise_exchange_rofr`, which hands order book quantity back to
+ * the bid and ask.
+ */
+export async function recordGPDecision(orderId: string, userId: string, decision: 'waive' | 'exercise') {
+  if (decision === 'exercise') {
+    const { error } = await supabase.rpc('exercise_exchange_rofr', { p_order_id: orderId });
+    if (error) throw error;
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from('exchange_orders')
+    .update({ rofr_status: 'waived', gp_consent_by: userId, gp_consent_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('status', 'matched')
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) throw new Error('Order is no longer matched');
+}
+
+/**
+ * Settles a matched order: the `settle_exchange_order` RPC re-checks the
+ * buyer, applies the tenant's marketplace fees and moves units and cost
+ * basis between the capital accounts in a single database transaction.
+ * A failure is recorded on the order and rethrown.
+ */
+export async function settleExchangeOrder(orderId: string) {
+  const { data, error } = await supabase.rpc('settle_exchange_order', {
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    await supabase
+      .from('exchange_orders')
+      .update({ settlement_error: error.message })
+      .eq('id', orderId);
+    throw error;
+  }
+
+  return data as string;
+}
+
+export async function getTransferConfirmations(exchangeTransactionId: string) {
+  const { data, error } = await supabase
+    .from('exchange_transfer_confirmations')
+    .select(`
+      *,
+      client:client_profiles!client_id(full_name, email),
+      capital_account:capital_accounts!capital_account_id(account_number)
+    `)
+    .eq('exchange_transaction_id', exchangeTransactionId)
+    .order('party');
+
+  if (error) throw error;
+  return (data || []) as TransferConfirmation[];
+}
+
+export async function buildTransferConfirmationPdf(branding: DocumentBranding, confirmation: TransferConfirmation) {
+  const money = (value: number | null | undefined) => formatCurrency(Number(value) || 0);
+  const isBuyer = confirmation.party === 'buyer';
+  const pdf = await createBrandedDocument(
+    branding,
+    'Transfer Confirmation',
+    `${isBuyer ? 'Purchase' : 'Sale'} of ${confirmation.asset_name}`
+  );
+
+  pdf.keyValues([
+    ['Confirmation number', confirmation.confirmation_number],
+    ['Trade date', formatDate(confirmation.trade_date, 'long')],
+    [isBuyer ? 'Buyer' : 'Seller', confirmation.client?.full_name || ''],
+    ['Capital account', confirmation.capital_account?.account_number || ''],
+  ]);
+
+  pdf.heading('Trade Details');
+  pdf.table(
+    ['', 'Amount'],
+    [
+      ['Units', formatNumber(Number(confirmation.quantity), 6)],
+      ['Price per unit', formatCurrency(Number(confirmation.price_per_unit), 'USD', 4)],
+      ['Gross amount', money(confirmation.gross_amount)],
+      ['Platform fees', money(confirmation.fee_amount)],
+      [isBuyer ? 'Total paid' : 'Net proceeds', money(confirmation.net_amount)],
+    ],
+    { widths: [295, 200], align: ['left', 'right'] }
+  );
+
+  pdf.heading('Cost Basis');
+  pdf.keyValues(isBuyer
+    ? [['Cost basis acquired', money(confirmation.cost_basis)]]
+    : [
+        ['Cost basis transferred', money(confirmation.cost_basis)],
+        ['Realized gain (loss)', money(confirmation.realized_gain_loss)],
+      ]);
+
+  pdf.paragraph(
+    'This confirms the transfer recorded on the fund register. Please review it and contact us within ten ' +
+    'business days if any detail is incorrect.',
+    { size: 8 }
+  );
+
+  return pdf.save();
+}
+
+/** Emails each party their transfer confirmation as a PDF. */
+export async function sendTransferConfirmations(exchangeTransactionId: string, branding: DocumentBranding, accountId: string) {
+  const confirmations = await getTransferConfirmations(exchangeTransactionId);
+  let sent = 0;
+
+  for (const confirmation of confirmations) {
+    if (!confirmation.client?.email) continue;
+
+    const pdf = await buildTransferConfirmationPdf(branding, confirmation);
+    await sendEmail({
+      accountId,
+      to: [confirmation.client.email],
+      subject: `Transfer confirmation ${confirmation.confirmation_number} – ${confirmation.asset_name}`,
+      bodyHtml: `<p>Dear ${confirmation.client.full_name},</p>` +
+        `<p>Your ${confirmation.party === 'buyer' ? 'purchase' : 'sale'} of ${formatNumber(Number(confirmation.quantity))} units of ` +
+        `${confirmation.asset_name} has settled. Your confirmation is attached.</p>` +
+        `<p>Kind regards,<br>${branding.tenantName}</p>`,
+      attachments: [{
+        filename: `${confirmation.confirmation_number}.pdf`,
+        content: pdfToBase64(pdf),
+        content_type: 'application/pdf',
+      }],
+    });
+    sent++;
+  }
+
+  return sent;
+}
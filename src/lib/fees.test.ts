@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  allocateFeeToAccounts,
+  buildAccrualSchedule,
+  getNextCrystallisationDate,
+  highWaterMarkResets,
+  isCrystallisationDate,
+} from './fees';
+import type { PerformanceFeeBreakdown } from './navCalculation';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('buildAccrualSchedule', () => {
+  it('accrues one twelfth of the annual fee for each full month', () => {
+    const rows = buildAccrualSchedule(2, 1_000_000, utc('2026-01-01'), utc('2026-03-31'), 'monthly');
+
+    expect(rows.map(r => r.periodEnd)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+    expect(rows.map(r => r.accrual)).toEqual([1666.67, 1666.67, 1666.67]);
+    expect(rows[rows.length - 1].cumulative).toBe(5000);
+  });
+
+  it('pro-rates a partial month by days', () => {
+    const [row] = buildAccrualSchedule(2, 1_000_000, utc('2026-01-16'), utc('2026-01-31'), 'monthly');
+
+    expect(row.days).toBe(16);
+    expect(row.accrual).toBe(860.22);
+  });
+
+  it('accrues daily on an actual/365 basis', () => {
+    const rows = buildAccrualSchedule(2, 1_000_000, utc('2026-01-01'), utc('2026-12-31'), 'daily');
+
+    expect(rows).toHaveLength(365);
+    expect(rows[0].accrual).toBe(54.79);
+    expect(rows[rows.length - 1].cumulative).toBe(20000);
+  });
+
+  it('accrues nothing on a zero NAV or rate', () => {
+    const rows = [
+      ...buildAccrualSchedule(2, 0, utc('2026-01-01'), utc('2026-01-31'), 'daily'),
+      ...buildAccrualSchedule(0, 1_000_000, utc('2026-01-01'), utc('2026-03-31'), 'monthly'),
+    ];
+
+    expect(rows.every(r => r.accrual === 0 && r.cumulative === 0)).toBe(true);
+  });
+
+  it('returns no rows when the period ends before it starts', () => {
+    expect(buildAccrualSchedule(2, 1_000_000, utc('2026-02-01'), utc('2026-01-31'), 'daily')).toEqual([]);
+  });
+});
+
+describe('crystallisation dates', () => {
+  const quarterly = { crystallisation_frequency: 'quarterly' as const, crystallisation_month: 12 };
+  const annualJune = { crystallisation_frequency: 'annual' as const, crystallisation_month: 6 };
+
+  it('only falls on the month end of a period that closes the fee year', () => {
+    expect(isCrystallisationDate(quarterly, utc('2026-03-31'))).toBe(true);
+    expect(isCrystallisationDate(quarterly, utc('2026-09-30'))).toBe(true);
+    expect(isCrystallisationDate(quarterly, utc('2026-03-30'))).toBe(false);
+    expect(isCrystallisationDate(quarterly, utc('2026-05-31'))).toBe(false);
+    expect(isCrystallisationDate(annualJune, utc('2026-06-30'))).toBe(true);
+    expect(isCrystallisationDate(annualJune, utc('2026-12-31'))).toBe(false);
+  });
+
+  it('finds the next crystallisation date on or after the month of `from`', () => {
+    expect(getNextCrystallisationDate(quarterly, utc('2026-04-15')).toISOString().slice(0, 10)).toBe('2026-06-30');
+    expect(getNextCrystallisationDate(annualJune, utc('2026-07-01')).toISOString().slice(0, 10)).toBe('2027-06-30');
+  });
+});
+
+describe('allocateFeeToAccounts', () => {
+  it('splits by shares and lets the last holder absorb rounding', () => {
+    const allocations = allocateFeeToAccounts(100, [
+      { id: 'a', shares_owned: 1 },
+      { id: 'b', shares_owned: 1 },
+      { id: 'c', shares_owned: 1 },
+    ]);
+
+    expect(allocations.map(a => a.amount)).toEqual([33.33, 33.33, 33.34]);
+    expect(allocations.reduce((sum, a) => sum + a.amount, 0)).toBeCloseTo(100, 10);
+  });
+
+  it('skips accounts without shares', () => {
+    const allocations = allocateFeeToAccounts(90, [
+      { id: 'a', shares_owned: 0 },
+      { id: 'b', shares_owned: 2 },
+      { id: 'c', shares_owned: 1 },
+    ]);
+
+    expect(allocations).toEqual([
+      { capitalAccountId: 'b', shares: 2, amount: 60 },
+      { capitalAccountId: 'c', shares: 1, amount: 30 },
+    ]);
+  });
+
+  it('allocates nothing when no account holds shares', () => {
+    expect(allocateFeeToAccounts(100, [{ id: 'a', shares_owned: 0 }])).toEqual([]);
+    expect(allocateFeeToAccounts(100, [])).toEqual([]);
+  });
+});
+
+describe('highWaterMarkResets', () => {
+  const structure = { id: 'fee-1', fund_id: 'fund-1', share_class_id: 'class-a' };
+  const breakdown: PerformanceFeeBreakdown = {
+    feeStructureId: 'fee-1',
+    ratePct: 20,
+    hurdleRatePct: 8,
+    catchUpPct: 100,
+    navPerShare: 120,
+    basis: 'investor',
+    totalFee: 40,
+    investors: [
+      {
+        capitalAccountId: 'paid',
+        shares: 10,
+        hurdleStartDate: '2025-12-31',
+        highWaterMark: 100,
+        hurdleNavPerShare: 108,
+        gainAboveHwm: 200,
+        hurdleAmount: 80,
+        lossCarryforward: 0,
+        fee: 40,
+      },
+      {
+        capitalAccountId: 'unpaid',
+        shares: 5,
+        hurdleStartDate: '2024-12-31',
+        highWaterMark: 130,
+        hurdleNavPerShare: 151.63,
+        gainAboveHwm: 0,
+        hurdleAmount: 108.16,
+        lossCarryforward: 158.16,
+        fee: 0,
+      },
+    ],
+  };
+
+  it('resets a paying investor to the post-fee NAV per share and restarts the hurdle', () => {
+    const [paid] = highWaterMarkResets(structure, breakdown, '2026-12-31', 'nav-1');
+
+    expect(paid).toMatchObject({
+      capital_account_id: 'paid',
+      fee_structure_id: 'fee-1',
+      high_water_mark: 116,
+      hurdle_start_date: '2026-12-31',
+      loss_carryforward: 0,
+      last_crystallised_at: '2026-12-31',
+      last_nav_calculation_id: 'nav-1',
+    });
+  });
+
+  it('keeps the HWM and hurdle start of an investor who paid nothing and carries the shortfall', () => {
+    const [, unpaid] = highWaterMarkResets(structure, breakdown, '2026-12-31', 'nav-1');
+
+    expect(unpaid).toMatchObject({
+      capital_account_id: 'unpaid',
+      high_water_mark: 130,
+      hurdle_start_date: '2024-12-31',
+      loss_carryforward: 158.16,
+      last_crystallised_at: '2026-12-31',
+    });
+  });
+});
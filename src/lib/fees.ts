@@ -0,0 +1,361 @@
+import { supabase } from './supabase';
+import { getNAVHistory, PerformanceFeeBreakdown } from './navCalculation';
+
+export type FeeType = 'management' | 'performance' | 'admin' | 'other';
+export type CrystallisationFrequency = 'quarterly' | 'semi_annual' | 'annual';
+
+export interface FeeStructure {
+  id: string;
+  fund_id: string;
+  share_class_id: string | null;
+  fee_type: FeeType;
+  description: string | null;
+  calculation_method: string;
+  rate_pct: number;
+  frequency: string;
+  payment_schedule: string;
+  hurdle_rate_pct: number;
+  catch_up_pct: number;
+  crystallisation_frequency: CrystallisationFrequency;
+  crystallisation_month: number;
+  effective_from: string;
+  effective_to: string | null;
+  status: string;
+}
+
+export interface AccrualRow {
+  periodStart: string;
+  periodEnd: string;
+  days: number;
+  accrual: number;
+  cumulative: number;
+}
+
+export interface FeeAllocation {
+  capitalAccountId: string;
+  shares: number;
+  amount: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const CRYSTALLISATION_MONTHS: Record<CrystallisationFrequency, number> = {
+  quarterly: 3,
+  semi_annual: 6,
+  annual: 12,
+};
+
+function toDateString(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(start: Date, end: Date) {
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * Accrual schedule for an asset-based fee (management/admin) over [from, to].
+ * Daily rows accrue on an actual/365 basis; monthly rows accrue one twelfth of
+ * the annual fee for each full calendar month, pro-rated for partial months.
+ */
+export function buildAccrualSchedule(
+  ratePct: number,
+  nav: number,
+  from: Date,
+  to: Date,
+  granularity: 'daily' | 'monthly'
+): AccrualRow[] {
+  const rows: AccrualRow[] = [];
+  const annualFee = nav * (ratePct / 100);
+  let cumulative = 0;
+  let cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  while (cursor <= to) {
+    let periodEnd: Date;
+    let accrual: number;
+
+    if (granularity === 'daily') {
+      periodEnd = cursor;
+      accrual = annualFee / 365;
+    } else {
+      const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0));
+      periodEnd = monthEnd < to ? monthEnd : to;
+      accrual = (annualFee / 12) * (daysBetween(cursor, periodEnd) / monthEnd.getUTCDate());
+    }
+
+    cumulative += accrual;
+    rows.push({
+      periodStart: toDateString(cursor),
+      periodEnd: toDateString(periodEnd),
+      days: daysBetween(cursor, periodEnd),
+      accrual: round2(accrual),
+      cumulative: round2(cumulative),
+    });
+
+    cursor = new Date(periodEnd.getTime() + DAY_MS);
+  }
+
+  return rows;
+}
+
+export function isCrystallisationDate(structure: Pick<FeeStructure, 'crystallisation_frequency' | 'crystallisation_month'>, date: Date): boolean {
+  const monthEnd = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  if (date.getUTCDate() !== monthEnd.getUTCDate()) return false;
+
+  const step = CRYSTALLISATION_MONTHS[structure.crystallisation_frequency || 'annual'];
+  const offset = (date.getUTCMonth() + 1 - (structure.crystallisation_month || 12) + 12) % 12;
+  return offset % step === 0;
+}
+
+export function getNextCrystallisationDate(structure: Pick<FeeStructure, 'crystallisation_frequency' | 'crystallisation_month'>, from: Date): Date {
+  let candidate = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 0));
+  while (!isCrystallisationDate(structure, candidate)) {
+    candidate = new Date(Date.UTC(candidate.getUTCFullYear(), candidate.getUTCMonth() + 2, 0));
+  }
+  return candidate;
+}
+
+/**
+ * Splits a class-level fee across capital accounts by shares held. The last
+ * account absorbs rounding so postings always sum to the fee.
+ */
+export function allocateFeeToAccounts(totalFee: number, accounts: { id: string; shares_owned: number }[]): FeeAllocation[] {
+  const holders = accounts.filter(a => (a.shares_owned || 0) > 0);
+  const totalShares = holders.reduce((sum, a) => sum + a.shares_owned, 0);
+  if (totalShares === 0) return [];
+
+  let allocated = 0;
+  return holders.map((account, index) => {
+    const amount = index === holders.length - 1
+      ? round2(totalFee - allocated)
+      : round2(totalFee * (account.shares_owned / totalShares));
+    allocated += amount;
+    return { capitalAccountId: account.id, shares: account.shares_owned, amount };
+  });
+}
+
+async function loadClassAccounts(fundId: string, shareClassId: string | null) {
+  let query = supabase
+    .from('capital_accounts')
+    .select('id, shares_owned')
+    .eq('fund_id', fundId)
+    .eq('status', 'active');
+
+  query = shareClassId ? query.eq('share_class_id', shareClassId) : query;
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+async function insertPostings(rows: Record<string, unknown>[]) {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('fee_postings')
+    .insert(rows)
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Posts a management (or other asset-based) fee for a period against the last
+ * approved NAV on or before the period end, one posting per capital account.
+ */
+export async function postManagementFees(params: {
+  tenantId: string;
+  structure: FeeStructure;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  postedBy: string;
+}) {
+  const { structure } = params;
+  const periodStartStr = toDateString(params.periodStart);
+  const periodEndStr = toDateString(params.periodEnd);
+
+  const history = await getNAVHistory(structure.fund_id, structure.share_class_id || undefined, undefined, params.periodEnd);
+  const nav = history[history.length - 1];
+  if (!nav) throw new Error(`No approved NAV on or before ${periodEndStr}`);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('fee_postings')
+    .select('period_start, period_end')
+    .eq('fee_structure_id', structure.id)
+    .lte('period_start', periodEndStr)
+    .gte('period_end', periodStartStr)
+    .neq('status', 'reversed')
+    .limit(1);
+
+  if (existingError) throw existingError;
+  if (existing && existing.length > 0) {
+    throw new Error(`Fees already posted for ${existing[0].period_start} to ${existing[0].period_end}; reverse them before reposting`);
+  }
+
+  const schedule = buildAccrualSchedule(structure.rate_pct, nav.net_asset_value, params.periodStart, params.periodEnd, 'daily');
+  const totalFee = schedule.length > 0 ? schedule[schedule.length - 1].cumulative : 0;
+  const accounts = await loadClassAccounts(structure.fund_id, structure.share_class_id);
+
+  return insertPostings(allocateFeeToAccounts(totalFee, accounts).map(allocation => ({
+    tenant_id: params.tenantId,
+    fund_id: structure.fund_id,
+    share_class_id: structure.share_class_id,
+    fee_structure_id: structure.id,
+    capital_account_id: allocation.capitalAccountId,
+    fee_type: structure.fee_type,
+    period_start: periodStartStr,
+    period_end: periodEndStr,
+    posting_date: periodEndStr,
+    basis_amount: nav.net_asset_value,
+    amount: allocation.amount,
+    currency: params.currency,
+    nav_calculation_id: nav.id,
+    created_by: params.postedBy,
+  })));
+}
+
+/**
+ * Crystallises the performance fee accrued in the approved NAV struck on the
+ * crystallisation date and books it as fee expense per capital account.
+ */
+export async function crystallisePerformanceFee(params: {
+  tenantId: string;
+  structure: FeeStructure;
+  crystallisationDate: Date;
+  currency: string;
+  postedBy: string;
+}) {
+  const { structure, crystallisationDate } = params;
+  const dateStr = toDateString(crystallisationDate);
+
+  if (!isCrystallisationDate(structure, crystallisationDate)) {
+    throw new Error(`${dateStr} is not a configured crystallisation date for this fee`);
+  }
+
+  const history = await getNAVHistory(structure.fund_id, structure.share_class_id || undefined, crystallisationDate, crystallisationDate);
+  const nav = history[history.length - 1];
+  if (!nav) throw new Error(`No approved NAV for ${dateStr}`);
+
+  const { data: existing } = await supabase
+    .from('fee_postings')
+    .select('id')
+    .eq('fee_structure_id', structure.id)
+    .eq('period_end', dateStr)
+    .neq('status', 'reversed')
+    .limit(1);
+
+  if (existing && existing.length > 0) {
+    throw new Error(`Performance fee already crystallised for ${dateStr}`);
+  }
+
+  const step = CRYSTALLISATION_MONTHS[structure.crystallisation_frequency || 'annual'];
+  const periodStart = new Date(Date.UTC(crystallisationDate.getUTCFullYear(), crystallisationDate.getUTCMonth() - step + 1, 1));
+
+  // Investor-level accruals from the NAV strike; NAVs struck before HWM
+  // tracking only carry a class total, which is split by shares instead
+  const breakdown = ((nav.calculation_data?.fees?.performance || []) as PerformanceFeeBreakdown[])
+    .find(p => p.feeStructureId === structure.id);
+  const investorRows = breakdown?.basis === 'investor' ? breakdown.investors : [];
+
+  const allocations = investorRows.length > 0
+    ? investorRows
+        .filter(row => row.fee > 0)
+        .map(row => ({ capitalAccountId: row.capitalAccountId!, shares: row.shares, amount: row.fee }))
+    : allocateFeeToAccounts(nav.performance_fees_accrued || 0, await loadClassAccounts(structure.fund_id, structure.share_class_id));
+
+  const postings = await insertPostings(allocations.map(allocation => ({
+    tenant_id: params.tenantId,
+    fund_id: structure.fund_id,
+    share_class_id: structure.share_class_id,
+    fee_structure_id: structure.id,
+    capital_account_id: allocation.capitalAccountId,
+    fee_type: 'performance',
+    period_start: toDateString(periodStart),
+    period_end: dateStr,
+    posting_date: dateStr,
+    basis_amount: nav.net_asset_value,
+    amount: allocation.amount,
+    currency: params.currency,
+    nav_calculation_id: nav.id,
+    created_by: params.postedBy,
+  })));
+
+  if (investorRows.length > 0) {
+    await resetHighWaterMarks(structure, breakdown!, dateStr, nav.id);
+  }
+
+  return postings;
+}
+
+/**
+ * Each investor's HWM after crystallisation. Investors who paid a fee reset
+ * to their post-fee NAV per share and restart the hurdle; the rest keep their
+ * HWM and hurdle start and carry the shortfall forward.
+ */
+export function highWaterMarkResets(structure: Pick<FeeStructure, 'id' | 'fund_id' | 'share_class_id'>, breakdown: PerformanceFeeBreakdown, dateStr: string, navId: string) {
+  return breakdown.investors.map(row => {
+    const paid = row.fee > 0;
+    return {
+      fund_id: structure.fund_id,
+      share_class_id: structure.share_class_id,
+      capital_account_id: row.capitalAccountId,
+      fee_structure_id: structure.id,
+      high_water_mark: paid ? breakdown.navPerShare - row.fee / row.shares : row.highWaterMark,
+      hurdle_start_date: paid ? dateStr : row.hurdleStartDate,
+      loss_carryforward: paid ? 0 : row.lossCarryforward,
+      last_crystallised_at: dateStr,
+      last_nav_calculation_id: navId,
+    };
+  });
+}
+
+async function resetHighWaterMarks(structure: FeeStructure, breakdown: PerformanceFeeBreakdown, dateStr: string, navId: string) {
+  const updatedAt = new Date().toISOString();
+  const rows = highWaterMarkResets(structure, breakdown, dateStr, navId).map(row => ({ ...row, updated_at: updatedAt }));
+
+  const { error } = await supabase
+    .from('investor_high_water_marks')
+    .upsert(rows, { onConflict: 'capital_account_id,fee_structure_id' });
+
+  if (error) throw error;
+}
+
+/**
+ * Bills un-invoiced postings for a fund to the fund itself as a draft invoice
+ * in the tenant's invoicing module, one line per fee type and share class.
+ * The `generate_fee_invoice` RPC creates the invoice and its lines and marks
+ * the postings invoiced in one transaction.
+ */
+export async function generateFeeInvoice(params: {
+  tenantId: string;
+  fundId: string;
+  postingIds: string[];
+}) {
+  const { data, error } = await supabase.rpc('generate_fee_invoice', {
+    p_tenant_id: params.tenantId,
+    p_fund_id: params.fundId,
+    p_posting_ids: params.postingIds,
+  });
+
+  if (error) throw error;
+  return data as { id: string; invoice_number: string; total: number };
+}
+
+export async function reverseFeePosting(postingId: string) {
+  const { data, error } = await supabase
+    .from('fee_postings')
+    .update({ status: 'reversed' })
+    .eq('id', postingId)
+    .eq('status', 'posted')
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
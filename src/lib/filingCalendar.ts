@@ -0,0 +1,276 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Regulatory filing calendar. Shared by the Compliance Center and the
+ * regulatory-calendar-worker Edge Function, so it only has a type import.
+ * Each framework a fund is mapped to implies a set of periodic filings; the
+ * calendar holds one `regulatory_reporting_calendar` row per filing period.
+ * All dates are UTC; periods end on the last day of a month.
+ */
+
+export type FilingFrequency = 'monthly' | 'quarterly' | 'semi_annual' | 'annual';
+
+export type FilingTemplate = 'form_pf' | 'annex_iv' | 'generic';
+
+export type FilingStatus = 'pending' | 'in_progress' | 'submitted' | 'accepted' | 'rejected' | 'amended';
+
+export const FILING_STATUSES: { value: FilingStatus; label: string }[] = [
+  { value: 'pending',     label: 'Pending' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'submitted',   label: 'Submitted' },
+  { value: 'accepted',    label: 'Accepted' },
+  { value: 'rejected',    label: 'Rejected' },
+  { value: 'amended',     label: 'Amended' },
+];
+
+export const OPEN_FILING_STATUSES: FilingStatus[] = ['pending', 'in_progress'];
+
+interface FilingSchedule {
+  frequency: FilingFrequency;
+  /** Calendar days after the period end. */
+  dueDays: number;
+  /** Annual periods end on the fund's fiscal year end rather than 31 December. */
+  fiscalYear: boolean;
+}
+
+/** Filing options kept on `regulatory_framework_fund_mappings.metadata`. */
+export interface FilingMappingMetadata {
+  form_pf_filer?: string;
+  annex_iv_frequency?: FilingFrequency;
+  fund_of_funds?: boolean;
+  [key: string]: unknown;
+}
+
+export interface FilingDefinition {
+  reportType: string;
+  reportName: string;
+  frameworks: string[];
+  template: FilingTemplate;
+  priority: 'normal' | 'high';
+  /** Filing cadence for a mapping, read from `regulatory_framework_fund_mappings.metadata`. */
+  schedule(metadata: FilingMappingMetadata): FilingSchedule;
+}
+
+const ANNEX_IV_FREQUENCIES: FilingFrequency[] = ['quarterly', 'semi_annual', 'annual'];
+
+export const FILING_DEFINITIONS: FilingDefinition[] = [
+  {
+    // Large hedge fund advisers file quarterly within 60 days; everyone else annually within 120
+    reportType: 'form_pf',
+    reportName: 'Form PF',
+    frameworks: ['SEC_3C1', 'SEC_3C7'],
+    template: 'form_pf',
+    priority: 'high',
+    schedule: (metadata) => metadata.form_pf_filer === 'large_hedge_fund'
+      ? { frequency: 'quarterly', dueDays: 60, fiscalYear: false }
+      : { frequency: 'annual', dueDays: 120, fiscalYear: true },
+  },
+  {
+    // Cadence follows the AIFM's AuM band; funds of funds get 15 extra days
+    reportType: 'aifmd_annex_iv',
+    reportName: 'AIFMD Annex IV',
+    frameworks: ['AIFMD_AIF', 'FCA_UKAIF', 'FCA_QIAIF'],
+    template: 'annex_iv',
+    priority: 'high',
+    schedule: (metadata) => ({
+      frequency: metadata.annex_iv_frequency && ANNEX_IV_FREQUENCIES.includes(metadata.annex_iv_frequency) ? metadata.annex_iv_frequency : 'annual',
+      dueDays: metadata.fund_of_funds ? 45 : 30,
+      fiscalYear: false,
+    }),
+  },
+  {
+    reportType: 'form_n_port',
+    reportName: 'Form N-PORT',
+    frameworks: ['SEC_40ACT'],
+    template: 'generic',
+    priority: 'normal',
+    schedule: () => ({ frequency: 'monthly', dueDays: 30, fiscalYear: false }),
+  },
+  {
+    reportType: 'form_n_cen',
+    reportName: 'Form N-CEN',
+    frameworks: ['SEC_40ACT'],
+    template: 'generic',
+    priority: 'normal',
+    schedule: () => ({ frequency: 'annual', dueDays: 75, fiscalYear: true }),
+  },
+];
+
+export function filingDefinition(reportType: string): FilingDefinition | undefined {
+  return FILING_DEFINITIONS.find((d) => d.reportType === reportType);
+}
+
+/** Mappings in these states owe filings; planning, suspended and withdrawn ones do not. */
+export const FILING_REGISTRATION_STATUSES = ['registered', 'exempt', 'in_progress'];
+
+/** Days before the due date a reminder goes out; 0 is the single overdue reminder. */
+export const REMINDER_DAYS = [30, 14, 7, 1];
+
+/** How far ahead the calendar is generated. */
+const HORIZON_DAYS = 365;
+
+const PERIOD_MONTHS: Record<FilingFrequency, number> = { monthly: 1, quarterly: 3, semi_annual: 6, annual: 12 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function daysUntil(dueDate: string, today: Date = new Date()): number {
+  return Math.round((Date.parse(`${dueDate}T00:00:00Z`) - utcDay(today)) / DAY_MS);
+}
+
+/** Month (0-11) of a `funds.fiscal_year_end` value such as "06-30"; December when unset. */
+function fiscalEndMonth(fiscalYearEnd: string | null | undefined): number {
+  const month = Number((fiscalYearEnd || '').split('-')[0]);
+  return month >= 1 && month <= 12 ? month - 1 : 11;
+}
+
+export interface FilingPeriod {
+  start: string;
+  end: string;
+  due: string;
+}
+
+/**
+ * Periods of a filing whose due date falls between `from` and `to`
+ * inclusive. Period ends land on month ends counted back from the anchor
+ * month in steps of the filing frequency.
+ */
+export function filingPeriods(schedule: FilingSchedule, fiscalYearEnd: string | null | undefined, from: Date, to: Date): FilingPeriod[] {
+  const step = PERIOD_MONTHS[schedule.frequency];
+  const anchor = schedule.fiscalYear ? fiscalEndMonth(fiscalYearEnd) : 11;
+  const periods: FilingPeriod[] = [];
+
+  // Start far enough back that a period ending before `from` but due after it is included
+  const first = new Date(utcDay(from) - (schedule.dueDays + 31) * DAY_MS);
+  let year = first.getUTCFullYear();
+  let month = first.getUTCMonth();
+
+  for (;;) {
+    const end = new Date(Date.UTC(year, month + 1, 0));
+    const due = new Date(end.getTime() + schedule.dueDays * DAY_MS);
+    if (due.getTime() > utcDay(to)) break;
+
+    if ((((month - anchor) % step) + step) % step === 0 && due.getTime() >= utcDay(from)) {
+      periods.push({
+        start: isoDate(new Date(Date.UTC(year, month - step + 1, 1))),
+        end: isoDate(end),
+        due: isoDate(due),
+      });
+    }
+
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * The reminder threshold due for a filing today, or null when there is none
+ * or it has already gone out. Only the tightest threshold applies, so a
+ * filing first generated 10 days out gets the 14-day reminder, not the 30.
+ */
+export function reminderDue(dueDate: string, sent: number[], today: Date = new Date()): number | null {
+  const days = daysUntil(dueDate, today);
+  if (days < 0) return sent.includes(0) ? null : 0;
+  const threshold = [...REMINDER_DAYS].sort((a, b) => a - b).find((t) => days <= t);
+  return threshold !== undefined && !sent.includes(threshold) ? threshold : null;
+}
+
+export function frequencyLabel(frequency: string): string {
+  return frequency === 'semi_annual' ? 'Semi-annual' : frequency.charAt(0).toUpperCase() + frequency.slice(1);
+}
+
+interface FilingMappingRow {
+  id: string;
+  fund_id: string;
+  framework_id: string;
+  compliance_start_date: string | null;
+  metadata: FilingMappingMetadata | null;
+  regulatory_frameworks: { framework_code: string } | null;
+  funds: { fiscal_year_end: string | null; status: string | null } | null;
+}
+
+/**
+ * Generates the coming year's filings for every active framework mapping in
+ * the tenant. Existing rows are left untouched, so statuses, drafts and
+ * submission references survive regeneration. Pending filings without a
+ * draft whose mapping no longer owes filings are removed. Returns the number
+ * of filings added.
+ */
+export async function syncFilingCalendar(client: SupabaseClient, tenantId: string, today: Date = new Date()): Promise<number> {
+  const { data: mappings, error } = await client
+    .from('regulatory_framework_fund_mappings')
+    .select('id, fund_id, framework_id, registration_status, compliance_start_date, metadata, regulatory_frameworks(framework_code), funds(fiscal_year_end, status)')
+    .eq('tenant_id', tenantId)
+    .in('registration_status', FILING_REGISTRATION_STATUSES);
+  if (error) throw error;
+
+  const horizon = new Date(utcDay(today) + HORIZON_DAYS * DAY_MS);
+  const rows: Record<string, unknown>[] = [];
+  const activeMappingIds: string[] = [];
+
+  for (const mapping of (mappings || []) as unknown as FilingMappingRow[]) {
+    if (mapping.funds?.status && mapping.funds.status !== 'active') continue;
+    activeMappingIds.push(mapping.id);
+
+    const code = mapping.regulatory_frameworks?.framework_code || '';
+    for (const definition of FILING_DEFINITIONS.filter((d) => d.frameworks.includes(code))) {
+      const schedule = definition.schedule(mapping.metadata || {});
+      for (const period of filingPeriods(schedule, mapping.funds?.fiscal_year_end, today, horizon)) {
+        if (mapping.compliance_start_date && period.end < mapping.compliance_start_date) continue;
+        rows.push({
+          tenant_id: tenantId,
+          fund_id: mapping.fund_id,
+          framework_id: mapping.framework_id,
+          mapping_id: mapping.id,
+          report_type: definition.reportType,
+          report_name: definition.reportName,
+          reporting_frequency: schedule.frequency,
+          due_date: period.due,
+          report_period_start: period.start,
+          report_period_end: period.end,
+          priority: definition.priority,
+          automated: true,
+          template_used: definition.template,
+        });
+      }
+    }
+  }
+
+  let added = 0;
+  if (rows.length > 0) {
+    const { data: inserted, error: insertError } = await client
+      .from('regulatory_reporting_calendar')
+      .upsert(rows, { onConflict: 'fund_id,framework_id,report_type,report_period_end', ignoreDuplicates: true })
+      .select('id');
+    if (insertError) throw insertError;
+    added = inserted?.length || 0;
+  }
+
+  let stale = client
+    .from('regulatory_reporting_calendar')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('filing_status', 'pending')
+    .is('draft_data', null)
+    .gte('due_date', isoDate(today))
+    .not('mapping_id', 'is', null);
+  if (activeMappingIds.length > 0) {
+    stale = stale.not('mapping_id', 'in', `(${activeMappingIds.join(',')})`);
+  }
+  const { error: deleteError } = await stale;
+  if (deleteError) throw deleteError;
+
+  return added;
+}
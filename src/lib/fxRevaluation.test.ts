@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { allocateShareClassNAV, attributePnL, type RevaluationLine, type ShareClassAllocationInput } from './fxRevaluation';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const current = (line: Partial<RevaluationLine> & Pick<RevaluationLine, 'description' | 'amount'>): RevaluationLine => ({
+  lineType: 'asset',
+  category: 'investments',
+  currency: 'USD',
+  fxRate: 1,
+  ...line,
+});
+
+type PriorLine = Parameters<typeof attributePnL>[1][number];
+
+const prior = (line: Partial<PriorLine> & Pick<PriorLine, 'description' | 'amount'>): PriorLine => ({
+  line_type: 'asset',
+  category: 'investments',
+  currency: 'USD',
+  fx_rate: 1,
+  ...line,
+});
+
+describe('attributePnL', () => {
+  it('splits a foreign line into the local move at the old rate and the rate move', () => {
+    const result = attributePnL(
+      [current({ description: 'Euro equities', amount: 1100, currency: 'EUR', fxRate: 1.2 })],
+      [prior({ description: 'Euro equities', amount: 1000, currency: 'EUR', fx_rate: 1.1 })],
+      'nav-prior'
+    );
+
+    expect(result.priorNavCalculationId).toBe('nav-prior');
+    expect(result.priceEffect).toBeCloseTo(110, 6);
+    expect(result.fxEffect).toBeCloseTo(110, 6);
+    expect(result.total).toBeCloseTo(220, 6);
+  });
+
+  it('counts a growing liability as a loss', () => {
+    const result = attributePnL(
+      [current({ lineType: 'liability', category: 'payables', description: 'Accrued expenses', amount: 600 })],
+      [prior({ line_type: 'liability', category: 'payables', description: 'Accrued expenses', amount: 500 })]
+    );
+
+    expect(result.priceEffect).toBe(-100);
+    expect(result.fxEffect).toBe(0);
+  });
+
+  it('matches positions by symbol, keeps closed ones, drops unchanged ones and sorts by size', () => {
+    const result = attributePnL(
+      [
+        current({ description: 'Apple Inc', amount: 200, metadata: { symbol: 'AAPL' } }),
+        current({ category: 'cash', description: 'Cash', amount: 100 }),
+      ],
+      [
+        prior({ description: 'APPLE', amount: 150, metadata: { symbol: 'aapl' } }),
+        prior({ category: 'cash', description: 'Cash', amount: 100 }),
+        prior({ description: 'Treasury bond', amount: 300 }),
+      ]
+    );
+
+    expect(result.lines.map(l => [l.key, l.total])).toEqual([
+      ['asset|investments|treasury bond', -300],
+      ['symbol:aapl', 50],
+    ]);
+    expect(result.total).toBe(-250);
+  });
+});
+
+describe('allocateShareClassNAV', () => {
+  const classes: ShareClassAllocationInput[] = [
+    { shareClassId: 'class-a', classCode: 'A', currency: 'USD', isHedged: false, shares: 5940, weight: 600 },
+    { shareClassId: 'class-b', classCode: 'B', currency: 'EUR', isHedged: true, shares: 3248, weight: 400 },
+  ];
+
+  it('shares the unhedged NAV by weight and gives each hedged class its own overlay', () => {
+    const [a, b] = allocateShareClassNAV({
+      netAssetValue: 1_000_000,
+      hedgeOverlay: new Map([['class-b', 10_000]]),
+      classes,
+      classRates: new Map([['EUR', 1.25]]),
+    });
+
+    expect(a.weightPct).toBe(60);
+    expect(a.hedgePnl).toBe(0);
+    expect(a.navBase).toBeCloseTo(594_000, 6);
+    expect(a.navPerShare).toBeCloseTo(100, 6);
+
+    expect(b.hedgePnl).toBe(10_000);
+    expect(b.navBase).toBeCloseTo(406_000, 6);
+    expect(b.fxRate).toBe(1.25);
+    expect(b.navLocal).toBeCloseTo(324_800, 6);
+    expect(b.navPerShare).toBeCloseTo(100, 6);
+  });
+
+  it('splits evenly without weights and prices classes with no shares at zero', () => {
+    const result = allocateShareClassNAV({
+      netAssetValue: 1000,
+      hedgeOverlay: new Map(),
+      classes: classes.map(c => ({ ...c, weight: 0, shares: 0 })),
+      classRates: new Map(),
+    });
+
+    expect(result.map(c => [c.weightPct, c.navBase, c.navPerShare])).toEqual([[50, 500, 0], [50, 500, 0]]);
+  });
+});
@@ -0,0 +1,407 @@
+import { supabase } from './supabase';
+
+export interface ExchangeRateRow {
+  from_currency: string;
+  to_currency: string;
+  rate_date: string;
+  rate: number;
+  source?: string;
+}
+
+export interface RevaluationLine {
+  lineType: 'asset' | 'liability' | 'adjustment' | 'fee';
+  category: string;
+  description: string;
+  amount: number; // local currency
+  currency: string;
+  fxRate?: number; // local -> base
+  metadata?: Record<string, unknown>;
+  hedgeShareClassId?: string;
+}
+
+export interface LinePnL {
+  key: string;
+  description: string;
+  currency: string;
+  priceEffect: number;
+  fxEffect: number;
+  total: number;
+}
+
+export interface PnLAttribution {
+  priorNavCalculationId: string | null;
+  priceEffect: number;
+  fxEffect: number;
+  total: number;
+  lines: LinePnL[];
+}
+
+export interface ShareClassAllocationInput {
+  shareClassId: string;
+  classCode: string;
+  currency: string;
+  isHedged: boolean;
+  shares: number;
+  weight: number; // class NAV in base at the prior strike, or capital if none
+}
+
+export interface ShareClassNAV {
+  shareClassId: string;
+  classCode: string;
+  currency: string;
+  isHedged: boolean;
+  weightPct: number;
+  hedgePnl: number;
+  navBase: number;
+  fxRate: number; // class currency -> base
+  navLocal: number;
+  shares: number;
+  navPerShare: number;
+}
+
+/**
+ * Rate effective on `date` (latest on or before it), trying the quoted pair
+ * and then its inverse. Null when neither is on file.
+ */
+export async function findExchangeRate(
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date
+): Promise<{ rate: number; rateDate: string } | null> {
+  if (fromCurrency === toCurrency) return { rate: 1.0, rateDate: date.toISOString().split('T')[0] };
+
+  const lookup = async (from: string, to: string) => {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('rate, rate_date')
+      .eq('from_currency', from)
+      .eq('to_currency', to)
+      .lte('rate_date', date.toISOString().split('T')[0])
+      .order('rate_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const direct = await lookup(fromCurrency, toCurrency);
+  if (direct && Number(direct.rate) > 0) return { rate: Number(direct.rate), rateDate: direct.rate_date };
+
+  const inverse = await lookup(toCurrency, fromCurrency);
+  if (inverse && Number(inverse.rate) > 0) return { rate: 1 / Number(inverse.rate), rateDate: inverse.rate_date };
+
+  return null;
+}
+
+/**
+ * Rates into `baseCurrency` for every currency used by the lines, as of the
+ * NAV date. Currencies without a rate on file are returned in `missing`.
+ */
+export async function resolveNAVRates(currencies: string[], baseCurrency: string, navDate: Date) {
+  const rates = new Map<string, { rate: number; rateDate: string }>();
+  const missing: string[] = [];
+
+  for (const currency of Array.from(new Set(currencies))) {
+    const found = await findExchangeRate(currency, baseCurrency, navDate);
+    if (found) rates.set(currency, found);
+    else missing.push(currency);
+  }
+
+  return { rates, missing };
+}
+
+function lineKey(line: { lineType?: string; line_type?: string; category: string; description: string; metadata?: Record<string, unknown> }) {
+  const symbol = line.metadata?.symbol;
+  if (typeof symbol === 'string' && symbol) return `symbol:${symbol.toLowerCase()}`;
+  return `${line.lineType || line.line_type}|${line.category}|${(line.description || '').trim().toLowerCase()}`;
+}
+
+/**
+ * Splits the change in each line's base-currency value since the prior
+ * strike into a price effect (local move at the old rate) and an FX effect
+ * (current local value times the rate move). Liabilities count negatively.
+ */
+export function attributePnL(
+  current: RevaluationLine[],
+  prior: {
+    line_type: string;
+    category: string;
+    description: string;
+    amount: number;
+    currency: string;
+    fx_rate: number | null;
+    metadata?: Record<string, unknown> | null;
+  }[],
+  priorNavCalculationId: string | null = null
+): PnLAttribution {
+  const sign = (lineType: string) => (lineType === 'liability' ? -1 : 1);
+  const priorByKey = new Map<string, { local: number; rate: number; currency: string; description: string; lineType: string }>();
+
+  for (const line of prior) {
+    const key = lineKey({ ...line, metadata: line.metadata || undefined });
+    const existing = priorByKey.get(key);
+    const rate = Number(line.fx_rate) || 1;
+    if (existing) {
+      existing.local += Number(line.amount) || 0;
+    } else {
+      priorByKey.set(key, {
+        local: Number(line.amount) || 0,
+        rate,
+        currency: line.currency,
+        description: line.description,
+        lineType: line.line_type,
+      });
+    }
+  }
+
+  const currentByKey = new Map<string, { local: number; rate: number; currency: string; description: string; lineType: string }>();
+  for (const line of current) {
+    const key = lineKey(line);
+    const existing = currentByKey.get(key);
+    if (existing) {
+      existing.local += line.amount;
+    } else {
+      currentByKey.set(key, {
+        local: line.amount,
+        rate: line.fxRate || 1,
+        currency: line.currency,
+        description: line.description || line.category,
+        lineType: line.lineType,
+      });
+    }
+  }
+
+  const lines: LinePnL[] = [];
+  new Set([...priorByKey.keys(), ...currentByKey.keys()]).forEach(key => {
+    const now = currentByKey.get(key);
+    const before = priorByKey.get(key);
+    const rateNow = now?.rate ?? before!.rate;
+    const rateBefore = before?.rate ?? rateNow;
+    const localNow = now?.local || 0;
+    const localBefore = before?.local || 0;
+    const s = sign((now || before)!.lineType);
+
+    const priceEffect = s * (localNow - localBefore) * rateBefore;
+    const fxEffect = s * localNow * (rateNow - rateBefore);
+    if (Math.abs(priceEffect) < 0.005 && Math.abs(fxEffect) < 0.005) return;
+
+    lines.push({
+      key,
+      description: (now || before)!.description,
+      currency: (now || before)!.currency,
+      priceEffect,
+      fxEffect,
+      total: priceEffect + fxEffect,
+    });
+  });
+
+  lines.sort((a, b) => Math.abs(b.total) - Math.abs(a.total));
+  const priceEffect = lines.reduce((sum, l) => sum + l.priceEffect, 0);
+  const fxEffect = lines.reduce((sum, l) => sum + l.fxEffect, 0);
+
+  return { priorNavCalculationId, priceEffect, fxEffect, total: priceEffect + fxEffect, lines };
+}
+
+/**
+ * Splits a fund-level NAV across share classes. The unhedged portfolio is
+ * shared by each class's weight; each hedged class then takes the whole of
+ * its own hedge overlay, so hedge gains and losses never leak into other
+ * classes. Class NAVs are converted into the class currency.
+ */
+export function allocateShareClassNAV(params: {
+  netAssetValue: number;
+  hedgeOverlay: Map<string, number>;
+  classes: ShareClassAllocationInput[];
+  classRates: Map<string, number>;
+}): ShareClassNAV[] {
+  const totalHedge = Array.from(params.hedgeOverlay.values()).reduce((sum, v) => sum + v, 0);
+  const unhedged = params.netAssetValue - totalHedge;
+  const totalWeight = params.classes.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+
+  return params.classes.map(shareClass => {
+    const weightPct = totalWeight > 0
+      ? (Math.max(0, shareClass.weight) / totalWeight) * 100
+      : 100 / params.classes.length;
+    const hedgePnl = params.hedgeOverlay.get(shareClass.shareClassId) || 0;
+    const navBase = unhedged * (weightPct / 100) + hedgePnl;
+    const fxRate = params.classRates.get(shareClass.currency) || 1;
+    const navLocal = navBase / fxRate;
+
+    return {
+      shareClassId: shareClass.shareClassId,
+      classCode: shareClass.classCode,
+      currency: shareClass.currency,
+      isHedged: shareClass.isHedged,
+      weightPct,
+      hedgePnl,
+      navBase,
+      fxRate,
+      navLocal,
+      shares: shareClass.shares,
+      navPerShare: shareClass.shares > 0 ? navLocal / shareClass.shares : 0,
+    };
+  });
+}
+
+/**
+ * Price-vs-FX attribution against the fund's previous approved strike, and
+ * the class breakdown for fund-level strikes of multi-class funds. Stored in
+ * the calculation's `calculation_data`.
+ */
+export async function buildFXAnalysis(params: {
+  fundId: string;
+  shareClassId?: string;
+  navDate: Date;
+  netAssetValue: number;
+  baseCurrency: string;
+  lines: RevaluationLine[];
+}) {
+  const navDate = params.navDate.toISOString().split('T')[0];
+
+  let priorQuery = supabase
+    .from('nav_calculations')
+    .select('id, calculation_data')
+    .eq('fund_id', params.fundId)
+    .eq('status', 'approved')
+    .lt('nav_date', navDate)
+    .order('nav_date', { ascending: false })
+    .order('version', { ascending: false })
+    .limit(1);
+
+  priorQuery = params.shareClassId
+    ? priorQuery.eq('share_class_id', params.shareClassId)
+    : priorQuery.is('share_class_id', null);
+
+  const { data: prior, error: priorError } = await priorQuery.maybeSingle();
+  if (priorError) throw priorError;
+
+  let priorDetails: Parameters<typeof attributePnL>[1] = [];
+  if (prior) {
+    const { data, error } = await supabase
+      .from('nav_calculation_details')
+      .select('line_type, category, description, amount, currency, fx_rate, metadata')
+      .eq('nav_calculation_id', prior.id);
+
+    if (error) throw error;
+    priorDetails = data || [];
+  }
+
+  const attribution = attributePnL(params.lines, priorDetails, prior?.id || null);
+
+  if (params.shareClassId) {
+    return { attribution, shareClasses: [] as ShareClassNAV[] };
+  }
+
+  const [classesResult, accountsResult] = await Promise.all([
+    supabase
+      .from('share_classes')
+      .select('id, class_code, currency, is_hedged')
+      .eq('fund_id', params.fundId)
+      .eq('status', 'active'),
+    supabase
+      .from('capital_accounts')
+      .select('share_class_id, shares_owned, capital_contributed, capital_returned')
+      .eq('fund_id', params.fundId)
+      .eq('status', 'active'),
+  ]);
+
+  if (classesResult.error) throw classesResult.error;
+  if (accountsResult.error) throw accountsResult.error;
+
+  const classes = classesResult.data || [];
+  if (classes.length === 0) {
+    return { attribution, shareClasses: [] as ShareClassNAV[] };
+  }
+
+  // Weights roll forward from the prior strike's class NAVs; before the first
+  // multi-class strike, net contributed capital stands in
+  const priorClasses = new Map<string, number>(
+    ((prior?.calculation_data as { share_classes?: ShareClassNAV[] } | null)?.share_classes || []).map(c => [c.shareClassId, c.navBase])
+  );
+
+  const { rates } = await resolveNAVRates(classes.map(c => c.currency || params.baseCurrency), params.baseCurrency, params.navDate);
+  const hedgeOverlay = new Map<string, number>();
+  for (const line of params.lines) {
+    if (!line.hedgeShareClassId) continue;
+    const value = line.amount * (line.fxRate || 1) * (line.lineType === 'liability' ? -1 : 1);
+    hedgeOverlay.set(line.hedgeShareClassId, (hedgeOverlay.get(line.hedgeShareClassId) || 0) + value);
+  }
+
+  const shareClasses = allocateShareClassNAV({
+    netAssetValue: params.netAssetValue,
+    hedgeOverlay,
+    classRates: new Map(Array.from(rates.entries()).map(([currency, r]) => [currency, r.rate])),
+    classes: classes.map(c => {
+      const accounts = (accountsResult.data || []).filter(a => a.share_class_id === c.id);
+      const capital = accounts.reduce((sum, a) => sum + (a.capital_contributed || 0) - (a.capital_returned || 0), 0);
+      return {
+        shareClassId: c.id,
+        classCode: c.class_code,
+        currency: c.currency || params.baseCurrency,
+        isHedged: !!c.is_hedged,
+        shares: accounts.reduce((sum, a) => sum + (a.shares_owned || 0), 0),
+        weight: priorClasses.get(c.id) ?? capital,
+      };
+    }),
+  });
+
+  return { attribution, shareClasses };
+}
+
+/**
+ * Parses `from,to,date,rate[,source]` CSV text. A header row is recognised
+ * by name, so columns may come in any order; rows that fail validation are
+ * reported with their line number rather than dropped silently.
+ */
+export function parseExchangeRateCsv(text: string) {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const rows: ExchangeRateRow[] = [];
+  const errors: string[] = [];
+  if (lines.length === 0) return { rows, errors };
+
+  const header = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
+  const hasHeader = header.some(h => ['from', 'from_currency', 'rate', 'date', 'rate_date'].includes(h));
+  const column = (names: string[], fallback: number) => {
+    const idx = header.findIndex(h => names.includes(h));
+    return hasHeader && idx >= 0 ? idx : fallback;
+  };
+  const fromIdx = column(['from', 'from_currency', 'base'], 0);
+  const toIdx = column(['to', 'to_currency', 'quote'], 1);
+  const dateIdx = column(['date', 'rate_date'], 2);
+  const rateIdx = column(['rate', 'fx_rate'], 3);
+  const sourceIdx = column(['source'], 4);
+
+  lines.slice(hasHeader ? 1 : 0).forEach((line, i) => {
+    const lineNumber = i + (hasHeader ? 2 : 1);
+    const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
+    const from = (values[fromIdx] || '').toUpperCase();
+    const to = (values[toIdx] || '').toUpperCase();
+    const date = values[dateIdx] || '';
+    const rate = parseFloat(values[rateIdx]);
+
+    if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to)) {
+      errors.push(`Line ${lineNumber}: currencies must be 3-letter codes`);
+    } else if (from === to) {
+      errors.push(`Line ${lineNumber}: from and to currency are the same`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      errors.push(`Line ${lineNumber}: date must be YYYY-MM-DD`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${lineNumber}: rate must be a positive number`);
+    } else {
+      rows.push({ from_currency: from, to_currency: to, rate_date: date, rate, source: values[sourceIdx] || 'csv_import' });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/** Upserts rates, replacing any existing rate for the same pair and date. */
+export async function saveExchangeRates(rows: ExchangeRateRow[]) {
+  const { error } = await supabase
+    .from('exchange_rates')
+    .upsert(rows, { onConflict: 'from_currency,to_currency,rate_date' });
+
+  if (error) throw error;
+  return rows.length;
+}
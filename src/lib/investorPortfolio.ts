@@ -0,0 +1,321 @@
+import { supabase } from './supabase';
+import { getLatestNAV } from './navCalculation';
+
+/**
+ * The signed-in investor's holdings across every fund and share class,
+ * pooled trusts included. RLS limits each query to the investor's own
+ * capital accounts and the funds they hold. Accounts are valued at the
+ * latest approved NAV of their share class, or of the fund when the class
+ * has none; an account with no approved NAV yet is carried at cost.
+ */
+
+export interface InvestorAccount {
+  id: string;
+  accountNumber: string;
+  status: string;
+  inceptionDate: string | null;
+  fund: { id: string; code: string; name: string; type: string; currency: string; trustAccountId: string | null };
+  shareClass: { id: string; name: string } | null;
+  commitment: number;
+  called: number;
+  contributed: number;
+  returned: number;
+  unfunded: number;
+  sharesOwned: number;
+  costBasis: number;
+  navPerShare: number | null;
+  navDate: string | null;
+  /** Units outstanding in the class (or fund) at the NAV date. */
+  totalShares: number | null;
+  currentValue: number;
+  valuedAtCost: boolean;
+  distributionsPaid: number;
+  /** Value plus everything returned, less everything contributed. */
+  gainLoss: number;
+}
+
+export interface InvestorTransaction {
+  id: string;
+  accountId: string;
+  fundName: string;
+  type: string;
+  date: string;
+  amount: number;
+  shares: number | null;
+  pricePerShare: number | null;
+  currency: string;
+  status: string;
+  reference: string | null;
+  description: string | null;
+}
+
+export interface InvestorDistribution {
+  id: string;
+  accountId: string;
+  fundName: string;
+  type: string;
+  paymentDate: string;
+  amountPerShare: number;
+  sharesHeld: number;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+export interface PortfolioTotals {
+  currency: string;
+  currentValue: number;
+  commitment: number;
+  called: number;
+  unfunded: number;
+  contributed: number;
+  returned: number;
+  distributionsPaid: number;
+  gainLoss: number;
+}
+
+export interface InvestorPortfolio {
+  accounts: InvestorAccount[];
+  transactions: InvestorTransaction[];
+  distributions: InvestorDistribution[];
+  /** One entry per fund currency; amounts are never converted. */
+  totals: PortfolioTotals[];
+}
+
+export interface TrustHolding {
+  id: string;
+  symbol: string;
+  assetClass: string;
+  quantity: number;
+  price: number;
+  averageCost: number;
+  marketValue: number;
+  /** The investor's proportional share of the position. */
+  shareQuantity: number;
+  shareValue: number;
+}
+
+export const POOLED_TRUST_FUND_TYPE = 'pooled_trust';
+
+interface AccountRow {
+  id: string;
+  fund_id: string;
+  share_class_id: string | null;
+  account_number: string;
+  status: string;
+  inception_date: string | null;
+  commitment_amount: number | null;
+  capital_called: number | null;
+  capital_contributed: number | null;
+  capital_returned: number | null;
+  shares_owned: number | null;
+  cost_basis: number | null;
+  fund: {
+    fund_code: string;
+    fund_name: string;
+    fund_type: string | null;
+    base_currency: string | null;
+    trust_account_id: string | null;
+  } | null;
+  share_class: { id: string; class_name: string } | null;
+}
+
+interface TransactionRow {
+  id: string;
+  capital_account_id: string;
+  transaction_type: string;
+  transaction_date: string;
+  amount: number;
+  shares: number | null;
+  price_per_share: number | null;
+  currency: string | null;
+  status: string;
+  reference_number: string | null;
+  description: string | null;
+}
+
+interface AllocationRow {
+  id: string;
+  capital_account_id: string;
+  shares_held: number | null;
+  allocation_amount: number | null;
+  status: string;
+  distribution: {
+    distribution_type: string | null;
+    payment_date: string;
+    amount_per_share: number | null;
+    currency: string | null;
+  } | null;
+}
+
+interface TrustPositionRow {
+  id: string;
+  symbol: string;
+  asset_class: string;
+  quantity: number;
+  average_cost: number | null;
+  current_price: number | null;
+  market_value: number | null;
+}
+
+const num = (value: unknown) => Number(value) || 0;
+
+export async function loadInvestorPortfolio(investorId: string): Promise<InvestorPortfolio> {
+  const { data: rows, error } = await supabase
+    .from('capital_accounts')
+    .select('*, fund:funds!fund_id(id, fund_code, fund_name, fund_type, base_currency, trust_account_id), share_class:share_classes!share_class_id(id, class_name)')
+    .eq('investor_id', investorId)
+    .neq('status', 'closed')
+    .order('inception_date', { ascending: true });
+  if (error) throw error;
+
+  const accountRows = (rows || []) as AccountRow[];
+  const accountIds = accountRows.map((a) => a.id);
+  if (accountIds.length === 0) return { accounts: [], transactions: [], distributions: [], totals: [] };
+
+  const [navs, txnRes, allocRes] = await Promise.all([
+    Promise.all(accountRows.map(async (a) =>
+      (a.share_class_id && await getLatestNAV(a.fund_id, a.share_class_id)) || await getLatestNAV(a.fund_id)
+    )),
+    supabase
+      .from('capital_transactions')
+      .select('id, capital_account_id, transaction_type, transaction_date, amount, shares, price_per_share, currency, status, reference_number, description')
+      .in('capital_account_id', accountIds)
+      .not('status', 'in', '(cancelled,failed)')
+      .order('transaction_date', { ascending: false }),
+    supabase
+      .from('distribution_allocations')
+      .select('id, capital_account_id, shares_held, allocation_amount, status, distribution:distributions!distribution_id(distribution_type, payment_date, amount_per_share, currency)')
+      .in('capital_account_id', accountIds)
+      .neq('status', 'cancelled'),
+  ]);
+  if (txnRes.error) throw txnRes.error;
+  if (allocRes.error) throw allocRes.error;
+
+  const fundNames = new Map<string, string>(accountRows.map((a) => [a.id, a.fund?.fund_name || 'Fund']));
+
+  const distributions: InvestorDistribution[] = ((allocRes.data || []) as AllocationRow[])
+    .map((d) => ({
+      id: d.id,
+      accountId: d.capital_account_id,
+      fundName: fundNames.get(d.capital_account_id) || 'Fund',
+      type: d.distribution?.distribution_type || 'other',
+      paymentDate: d.distribution?.payment_date || '',
+      amountPerShare: num(d.distribution?.amount_per_share),
+      sharesHeld: num(d.shares_held),
+      amount: num(d.allocation_amount),
+      currency: d.distribution?.currency || 'USD',
+      status: d.status,
+    }))
+    .sort((a, b) => (b.paymentDate || '').localeCompare(a.paymentDate || ''));
+
+  const accounts: InvestorAccount[] = accountRows.map((a, i) => {
+    const nav = navs[i];
+    const sharesOwned = num(a.shares_owned);
+    const contributed = num(a.capital_contributed);
+    const returned = num(a.capital_returned);
+    const commitment = num(a.commitment_amount);
+    const called = num(a.capital_called);
+    const navPerShare = nav ? num(nav.nav_per_share) : null;
+    const currentValue = navPerShare !== null ? sharesOwned * navPerShare : Math.max(contributed - returned, 0);
+
+    return {
+      id: a.id,
+      accountNumber: a.account_number,
+      status: a.status,
+      inceptionDate: a.inception_date,
+      fund: {
+        id: a.fund_id,
+        code: a.fund?.fund_code || '',
+        name: a.fund?.fund_name || 'Fund',
+        type: a.fund?.fund_type || 'other',
+        currency: a.fund?.base_currency || 'USD',
+        trustAccountId: a.fund?.trust_account_id || null,
+      },
+      shareClass: a.share_class ? { id: a.share_class.id, name: a.share_class.class_name } : null,
+      commitment,
+      called,
+      contributed,
+      returned,
+      unfunded: Math.max(commitment - called, 0),
+      sharesOwned,
+      costBasis: num(a.cost_basis),
+      navPerShare,
+      navDate: nav?.nav_date || null,
+      totalShares: nav ? num(nav.total_shares) : null,
+      currentValue,
+      valuedAtCost: navPerShare === null,
+      distributionsPaid: distributions
+        .filter((d) => d.accountId === a.id && d.status === 'paid')
+        .reduce((sum, d) => sum + d.amount, 0),
+      gainLoss: currentValue + returned - contributed,
+    };
+  });
+
+  const transactions: InvestorTransaction[] = ((txnRes.data || []) as TransactionRow[]).map((t) => ({
+    id: t.id,
+    accountId: t.capital_account_id,
+    fundName: fundNames.get(t.capital_account_id) || 'Fund',
+    type: t.transaction_type,
+    date: t.transaction_date,
+    amount: num(t.amount),
+    shares: t.shares !== null ? num(t.shares) : null,
+    pricePerShare: t.price_per_share !== null ? num(t.price_per_share) : null,
+    currency: t.currency || 'USD',
+    status: t.status,
+    reference: t.reference_number,
+    description: t.description,
+  }));
+
+  return { accounts, transactions, distributions, totals: portfolioTotals(accounts) };
+}
+
+export function portfolioTotals(accounts: InvestorAccount[]): PortfolioTotals[] {
+  const byCurrency = new Map<string, PortfolioTotals>();
+  for (const account of accounts) {
+    const currency = account.fund.currency;
+    const totals = byCurrency.get(currency) || {
+      currency, currentValue: 0, commitment: 0, called: 0, unfunded: 0,
+      contributed: 0, returned: 0, distributionsPaid: 0, gainLoss: 0,
+    };
+    totals.currentValue += account.currentValue;
+    totals.commitment += account.commitment;
+    totals.called += account.called;
+    totals.unfunded += account.unfunded;
+    totals.contributed += account.contributed;
+    totals.returned += account.returned;
+    totals.distributionsPaid += account.distributionsPaid;
+    totals.gainLoss += account.gainLoss;
+    byCurrency.set(currency, totals);
+  }
+  return Array.from(byCurrency.values()).sort((a, b) => b.currentValue - a.currentValue);
+}
+
+/**
+ * A pooled-trust account's look-through holdings: the trust's brokerage
+ * positions scaled by the account's share of units outstanding at the
+ * latest NAV.
+ */
+export async function loadTrustHoldings(account: InvestorAccount): Promise<TrustHolding[]> {
+  if (!account.fund.trustAccountId || !account.totalShares) return [];
+  const ownership = account.sharesOwned / account.totalShares;
+
+  const { data, error } = await supabase
+    .from('trust_positions')
+    .select('id, symbol, asset_class, quantity, average_cost, current_price, market_value')
+    .eq('trust_account_id', account.fund.trustAccountId)
+    .order('market_value', { ascending: false });
+  if (error) throw error;
+
+  return ((data || []) as TrustPositionRow[]).map((p) => ({
+    id: p.id,
+    symbol: p.symbol,
+    assetClass: p.asset_class,
+    quantity: num(p.quantity),
+    price: num(p.current_price),
+    averageCost: num(p.average_cost),
+    marketValue: num(p.market_value),
+    shareQuantity: num(p.quantity) * ownership,
+    shareValue: num(p.market_value) * ownership,
+  }));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { calculateInvestorPerformanceFee } from './navCalculation';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const base = {
+  shares: 10,
+  highWaterMark: 100,
+  hurdleStartDate: utc('2025-01-01'),
+  navDate: utc('2026-01-01'),
+  ratePct: 20,
+  hurdleRatePct: 0,
+  catchUpPct: 0,
+};
+
+describe('calculateInvestorPerformanceFee', () => {
+  it('charges the rate on the gain above the investor HWM', () => {
+    const result = calculateInvestorPerformanceFee({ ...base, navPerShare: 120 });
+
+    expect(result.gainAboveHwm).toBe(200);
+    expect(result.fee).toBe(40);
+    expect(result.lossCarryforward).toBe(0);
+  });
+
+  it('charges nothing below the HWM and carries the shortfall forward', () => {
+    const result = calculateInvestorPerformanceFee({ ...base, navPerShare: 90 });
+
+    expect(result.gainAboveHwm).toBe(0);
+    expect(result.fee).toBe(0);
+    expect(result.lossCarryforward).toBe(100);
+  });
+
+  it('compounds the hurdle from the hurdle start and charges only the excess without a catch-up', () => {
+    const result = calculateInvestorPerformanceFee({ ...base, navPerShare: 120, hurdleRatePct: 8 });
+
+    expect(result.hurdleNavPerShare).toBeCloseTo(108, 10);
+    expect(result.hurdleAmount).toBeCloseTo(80, 10);
+    expect(result.fee).toBe(24);
+  });
+
+  it('lets a catch-up recover the full rate on the gain above the HWM, capped by the excess', () => {
+    const full = calculateInvestorPerformanceFee({ ...base, navPerShare: 120, hurdleRatePct: 8, catchUpPct: 100 });
+    const partial = calculateInvestorPerformanceFee({ ...base, navPerShare: 110, hurdleRatePct: 8, catchUpPct: 50 });
+
+    expect(full.fee).toBe(40);
+    expect(partial.fee).toBe(10);
+  });
+
+  it('charges nothing while the NAV is above the HWM but inside the hurdle', () => {
+    const result = calculateInvestorPerformanceFee({ ...base, navPerShare: 105, hurdleRatePct: 8, catchUpPct: 100 });
+
+    expect(result.gainAboveHwm).toBe(50);
+    expect(result.fee).toBe(0);
+    expect(result.lossCarryforward).toBeCloseTo(30, 10);
+  });
+});
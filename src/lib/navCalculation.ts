@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { buildFXAnalysis, findExchangeRate, resolveNAVRates } from './fxRevaluation';
+import { withAuditReason } from './auditTrail';
 
 export interface NAVCalculationInput {
   fundId: string;
@@ -10,6 +12,11 @@ export interface NAVCalculationInput {
   calculatedBy: string;
   notes?: string;
   details: NAVLineItem[];
+  // Set when this calculation restates an approved NAV in a locked period
+  restatement?: {
+    reason: string;
+    supersedesId: string;
+  };
 }
 
 export interface NAVLineItem {
@@ -22,6 +29,9 @@ export interface NAVLineItem {
   currency: string;
   fxRate?: number;
   source?: string;
+  metadata?: Record<string, unknown>;
+  // Currency hedge overlay belonging to a hedged share class
+  hedgeShareClassId?: string;
 }
 
 export interface FeeCalculationParams {
@@ -33,16 +43,116 @@ export interface FeeCalculationParams {
   totalShares: number;
 }
 
+export interface InvestorPerformanceFeeInput {
+  shares: number;
+  navPerShare: number;
+  highWaterMark: number;
+  hurdleStartDate: Date;
+  navDate: Date;
+  ratePct: number;
+  hurdleRatePct: number;
+  catchUpPct: number;
+}
+
+export interface InvestorPerformanceFee {
+  highWaterMark: number;
+  hurdleNavPerShare: number;
+  gainAboveHwm: number;
+  hurdleAmount: number;
+  lossCarryforward: number;
+  fee: number;
+}
+
+export interface InvestorFeeBreakdown extends InvestorPerformanceFee {
+  capitalAccountId: string | null;
+  shares: number;
+  hurdleStartDate: string;
+}
+
+/** Performance fee columns of a `fee_structures` row. */
+interface PerformanceFeeTerms {
+  id: string;
+  rate_pct: number;
+  hurdle_rate_pct: number | null;
+  catch_up_pct: number | null;
+}
+
+interface HighWaterMarkHolding {
+  id: string;
+  high_water_mark: number;
+  capital_account: { shares_owned: number | null } | null;
+}
+
+export interface PerformanceFeeBreakdown {
+  feeStructureId: string;
+  ratePct: number;
+  hurdleRatePct: number;
+  catchUpPct: number;
+  navPerShare: number;
+  basis: 'investor' | 'fund';
+  totalFee: number;
+  investors: InvestorFeeBreakdown[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
 export async function calculateNAV(input: NAVCalculationInput) {
+  const navDate = input.navDate.toISOString().split('T')[0];
+
+  if (!input.restatement) {
+    await assertPeriodOpen(input.fundId, navDate, 'NAV');
+  }
+
+  const version = (await getLatestVersion(input.fundId, navDate, input.shareClassId)) + 1;
   const netAssetValue = input.totalAssets - input.totalLiabilities;
   const navPerShare = input.totalShares > 0 ? netAssetValue / input.totalShares : 0;
 
+  const { data: fund, error: fundError } = await supabase
+    .from('funds')
+    .select('base_currency')
+    .eq('id', input.fundId)
+    .single();
+
+  if (fundError) throw fundError;
+  const baseCurrency = fund.base_currency || 'USD';
+
+  // Every non-base line is revalued at the rate effective on the NAV date
+  const { rates, missing } = await resolveNAVRates(
+    input.details.filter(d => !d.fxRate && d.currency !== baseCurrency).map(d => d.currency),
+    baseCurrency,
+    input.navDate
+  );
+  if (missing.length > 0) {
+    throw new Error(`No exchange rate into ${baseCurrency} on or before ${navDate} for ${missing.join(', ')}`);
+  }
+  const details = input.details.map(detail => ({
+    ...detail,
+    fxRate: detail.fxRate || (detail.currency === baseCurrency ? 1.0 : rates.get(detail.currency)!.rate),
+  }));
+
+  const fx = await buildFXAnalysis({
+    fundId: input.fundId,
+    shareClassId: input.shareClassId,
+    navDate: input.navDate,
+    netAssetValue,
+    baseCurrency,
+    lines: details,
+  });
+
+  const priorHistory = await getNAVHistory(
+    input.fundId,
+    input.shareClassId,
+    undefined,
+    new Date(input.navDate.getTime() - DAY_MS)
+  );
+  const previousNAV = priorHistory[priorHistory.length - 1]?.net_asset_value || 0;
+
   const fees = await calculateFees({
     fundId: input.fundId,
     shareClassId: input.shareClassId || '',
     navDate: input.navDate,
     currentNAV: netAssetValue,
-    previousNAV: 0,
+    previousNAV,
     totalShares: input.totalShares,
   });
 
@@ -51,8 +161,8 @@ export async function calculateNAV(input: NAVCalculationInput) {
     .insert({
       fund_id: input.fundId,
       share_class_id: input.shareClassId || null,
-      nav_date: input.navDate.toISOString().split('T')[0],
-      version: 1,
+      nav_date: navDate,
+      version,
       status: 'draft',
       total_assets: input.totalAssets,
       total_liabilities: input.totalLiabilities,
@@ -64,8 +174,19 @@ export async function calculateNAV(input: NAVCalculationInput) {
       total_fees: fees.totalFees,
       calculated_by: input.calculatedBy,
       notes: input.notes,
+      restatement_reason: input.restatement?.reason || null,
+      supersedes_id: input.restatement?.supersedesId || null,
       calculation_data: {
         fees,
+        base_currency: baseCurrency,
+        fx_rates: Object.fromEntries(
+          Array.from(new Set(details.map(d => d.currency))).map(currency => [
+            currency,
+            details.find(d => d.currency === currency)!.fxRate,
+          ])
+        ),
+        pnl_attribution: fx.attribution,
+        share_classes: fx.shareClasses,
         timestamp: new Date().toISOString(),
       },
     })
@@ -74,7 +195,7 @@ export async function calculateNAV(input: NAVCalculationInput) {
 
   if (navError) throw navError;
 
-  const detailsToInsert = input.details.map((detail, index) => ({
+  const detailsToInsert = details.map((detail, index) => ({
     nav_calculation_id: navCalc.id,
     line_type: detail.lineType,
     category: detail.category,
@@ -83,10 +204,12 @@ export async function calculateNAV(input: NAVCalculationInput) {
     unit_price: detail.unitPrice,
     amount: detail.amount,
     currency: detail.currency,
-    fx_rate: detail.fxRate || 1.0,
-    base_currency_amount: detail.amount * (detail.fxRate || 1.0),
+    fx_rate: detail.fxRate,
+    base_currency_amount: detail.amount * detail.fxRate,
     source: detail.source || 'manual',
     sort_order: index,
+    metadata: detail.metadata || {},
+    hedge_share_class_id: detail.hedgeShareClassId || null,
   }));
 
   const { error: detailsError } = await supabase
@@ -99,30 +222,37 @@ export async function calculateNAV(input: NAVCalculationInput) {
 }
 
 export async function calculateFees(params: FeeCalculationParams) {
-  const { data: feeStructures } = await supabase
+  const navDateStr = params.navDate.toISOString().split('T')[0];
+  let query = supabase
     .from('fee_structures')
     .select('*')
     .eq('fund_id', params.fundId)
-    .eq('share_class_id', params.shareClassId)
     .eq('status', 'active')
-    .lte('effective_from', params.navDate.toISOString().split('T')[0])
-    .or(`effective_to.is.null,effective_to.gte.${params.navDate.toISOString().split('T')[0]}`);
+    .lte('effective_from', navDateStr)
+    .or(`effective_to.is.null,effective_to.gte.${navDateStr}`);
+
+  query = params.shareClassId
+    ? query.eq('share_class_id', params.shareClassId)
+    : query.is('share_class_id', null);
+
+  const { data: feeStructures } = await query;
 
   let managementFee = 0;
   let performanceFee = 0;
+  const performance: PerformanceFeeBreakdown[] = [];
 
   if (feeStructures) {
-    for (const fee of feeStructures) {
-      if (fee.fee_type === 'management') {
-        managementFee += calculateManagementFee(params.currentNAV, fee.rate_pct, fee.frequency);
-      } else if (fee.fee_type === 'performance') {
-        const gain = params.currentNAV - params.previousNAV;
-        if (gain > 0) {
-          const hurdle = params.previousNAV * (fee.hurdle_rate_pct / 100);
-          const excessReturn = Math.max(0, gain - hurdle);
-          performanceFee += excessReturn * (fee.rate_pct / 100);
-        }
-      }
+    for (const fee of feeStructures.filter(f => f.fee_type === 'management')) {
+      managementFee += calculateManagementFee(params.currentNAV, fee.rate_pct, fee.frequency);
+    }
+
+    // Performance fees are measured on NAV net of management fees
+    const navPerShare = params.totalShares > 0 ? (params.currentNAV - managementFee) / params.totalShares : 0;
+
+    for (const fee of feeStructures.filter(f => f.fee_type === 'performance')) {
+      const breakdown = await calculatePerformanceFee(params, fee, navPerShare);
+      performanceFee += breakdown.totalFee;
+      performance.push(breakdown);
     }
   }
 
@@ -130,7 +260,133 @@ export async function calculateFees(params: FeeCalculationParams) {
     managementFee,
     performanceFee,
     totalFees: managementFee + performanceFee,
+    previousNAV: params.previousNAV,
+    performance,
+  };
+}
+
+/**
+ * Performance fee for one investor against their own high-water mark. The
+ * hurdle compounds annually from hurdleStartDate; with a catch-up the manager
+ * takes catchUpPct of gains above the hurdle until it has rate_pct of the whole
+ * gain above the HWM, otherwise only gains above the hurdle are charged.
+ */
+export function calculateInvestorPerformanceFee(input: InvestorPerformanceFeeInput): InvestorPerformanceFee {
+  const years = Math.max(0, (input.navDate.getTime() - input.hurdleStartDate.getTime()) / (DAY_MS * 365));
+  const hurdleNavPerShare = input.highWaterMark * Math.pow(1 + input.hurdleRatePct / 100, years);
+
+  const gainAboveHwm = Math.max(0, (input.navPerShare - input.highWaterMark) * input.shares);
+  const hurdleAmount = (hurdleNavPerShare - input.highWaterMark) * input.shares;
+  const excess = (input.navPerShare - hurdleNavPerShare) * input.shares;
+  const rate = input.ratePct / 100;
+
+  let fee = 0;
+  if (excess > 0) {
+    fee = input.catchUpPct > 0
+      ? Math.min(gainAboveHwm * rate, excess * (input.catchUpPct / 100))
+      : excess * rate;
+  }
+
+  return {
+    highWaterMark: input.highWaterMark,
+    hurdleNavPerShare,
+    gainAboveHwm,
+    hurdleAmount,
+    lossCarryforward: Math.max(0, -excess),
+    fee: Math.round(fee * 100) / 100,
+  };
+}
+
+async function calculatePerformanceFee(
+  params: FeeCalculationParams,
+  fee: PerformanceFeeTerms,
+  navPerShare: number
+): Promise<PerformanceFeeBreakdown> {
+  const breakdown: PerformanceFeeBreakdown = {
+    feeStructureId: fee.id,
+    ratePct: fee.rate_pct,
+    hurdleRatePct: fee.hurdle_rate_pct || 0,
+    catchUpPct: fee.catch_up_pct || 0,
+    navPerShare,
+    basis: 'investor',
+    totalFee: 0,
+    investors: [],
+  };
+
+  let accountsQuery = supabase
+    .from('capital_accounts')
+    .select('id, shares_owned, capital_contributed, cost_basis, inception_date')
+    .eq('fund_id', params.fundId)
+    .eq('status', 'active')
+    .gt('shares_owned', 0);
+
+  if (params.shareClassId) {
+    accountsQuery = accountsQuery.eq('share_class_id', params.shareClassId);
+  }
+
+  const { data: accounts, error: accountsError } = await accountsQuery;
+  if (accountsError) throw accountsError;
+
+  const { data: marks, error: marksError } = await supabase
+    .from('investor_high_water_marks')
+    .select('*')
+    .eq('fee_structure_id', fee.id);
+
+  if (marksError) throw marksError;
+  const markByAccount = new Map((marks || []).map(m => [m.capital_account_id, m]));
+
+  const terms = {
+    navDate: params.navDate,
+    navPerShare,
+    ratePct: fee.rate_pct,
+    hurdleRatePct: breakdown.hurdleRatePct,
+    catchUpPct: breakdown.catchUpPct,
   };
+
+  if (accounts && accounts.length > 0) {
+    for (const account of accounts) {
+      const mark = markByAccount.get(account.id);
+      // Before the first crystallisation the investor's HWM is their average entry price
+      const highWaterMark = mark
+        ? mark.high_water_mark
+        : (account.cost_basis || account.capital_contributed || 0) / account.shares_owned;
+      const hurdleStartDate = mark?.hurdle_start_date || account.inception_date || params.navDate.toISOString().split('T')[0];
+
+      const result = calculateInvestorPerformanceFee({
+        ...terms,
+        shares: account.shares_owned,
+        highWaterMark: highWaterMark || navPerShare,
+        hurdleStartDate: new Date(hurdleStartDate),
+      });
+
+      breakdown.investors.push({ ...result, capitalAccountId: account.id, shares: account.shares_owned, hurdleStartDate });
+      breakdown.totalFee += result.fee;
+    }
+    return breakdown;
+  }
+
+  // No investor accounts on the register: fall back to a fund-level HWM taken
+  // from the highest prior approved NAV per share
+  const history = await getNAVHistory(
+    params.fundId,
+    params.shareClassId || undefined,
+    undefined,
+    new Date(params.navDate.getTime() - DAY_MS)
+  );
+  if (history.length === 0 || params.totalShares <= 0) return breakdown;
+
+  const peak = history.reduce((best, nav) => (nav.nav_per_share > best.nav_per_share ? nav : best), history[0]);
+  const result = calculateInvestorPerformanceFee({
+    ...terms,
+    shares: params.totalShares,
+    highWaterMark: peak.nav_per_share,
+    hurdleStartDate: new Date(history[0].nav_date),
+  });
+
+  breakdown.basis = 'fund';
+  breakdown.investors.push({ ...result, capitalAccountId: null, shares: params.totalShares, hurdleStartDate: history[0].nav_date });
+  breakdown.totalFee = result.fee;
+  return breakdown;
 }
 
 function calculateManagementFee(nav: number, ratePct: number, frequency: string): number {
@@ -151,28 +407,139 @@ function calculateManagementFee(nav: number, ratePct: number, frequency: string)
 export async function approveNAV(navCalculationId: string, approvedBy: string) {
   const { data: existingCalc } = await supabase
     .from('nav_calculations')
-    .select('fund_id, share_class_id, nav_date')
+    .select('fund_id, share_class_id, nav_date, restatement_reason')
     .eq('id', navCalculationId)
     .single();
 
   if (!existingCalc) throw new Error('NAV calculation not found');
 
-  await supabase
+  // A locked period's published NAV only changes through a restatement
+  if (!existingCalc.restatement_reason) {
+    await assertPeriodOpen(existingCalc.fund_id, existingCalc.nav_date, 'NAV');
+  }
+
+  let supersede = supabase
     .from('nav_calculations')
     .update({ status: 'superseded' })
     .eq('fund_id', existingCalc.fund_id)
     .eq('nav_date', existingCalc.nav_date)
-    .eq('status', 'approved')
-    .match({ share_class_id: existingCalc.share_class_id });
+    .eq('status', 'approved');
+
+  supersede = existingCalc.share_class_id
+    ? supersede.eq('share_class_id', existingCalc.share_class_id)
+    : supersede.is('share_class_id', null);
+
+  const { error: supersedeError } = await supersede;
+  if (supersedeError) throw supersedeError;
+
+  const { data, error } = await withAuditReason(
+    supabase
+      .from('nav_calculations')
+      .update({
+        status: 'approved',
+        approved_by: approvedBy,
+        approved_at: new Date().toISOString(),
+      })
+      .eq('id', navCalculationId)
+      .select(),
+    existingCalc.restatement_reason ? `Restatement: ${existingCalc.restatement_reason}` : null
+  ).single();
 
+  if (error) throw error;
+
+  if (existingCalc.restatement_reason) {
+    const { error: restatementError } = await supabase
+      .from('nav_restatements')
+      .update({ status: 'approved', approved_at: new Date().toISOString() })
+      .eq('restated_nav_calculation_id', navCalculationId);
+
+    if (restatementError) throw restatementError;
+  }
+
+  return data;
+}
+
+async function getLatestVersion(fundId: string, navDate: string, shareClassId?: string) {
+  let query = supabase
+    .from('nav_calculations')
+    .select('version')
+    .eq('fund_id', fundId)
+    .eq('nav_date', navDate)
+    .order('version', { ascending: false })
+    .limit(1);
+
+  if (shareClassId) {
+    query = query.eq('share_class_id', shareClassId);
+  } else {
+    query = query.is('share_class_id', null);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  return data?.version || 0;
+}
+
+/** Date the fund's books are closed through, or null when no lock is active. */
+export async function getNAVLockedThrough(fundId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('nav_locked_through', { p_fund_id: fundId });
+
+  if (error) throw error;
+  return data || null;
+}
+
+async function assertPeriodOpen(fundId: string, date: string, activity: string) {
+  const lockedThrough = await getNAVLockedThrough(fundId);
+  if (lockedThrough && date <= lockedThrough) {
+    throw new Error(`NAV period is locked through ${lockedThrough}; ${activity} dated ${date} cannot be recorded`);
+  }
+}
+
+export async function getNAVPeriodLocks(fundId: string) {
   const { data, error } = await supabase
+    .from('nav_period_locks')
+    .select('*')
+    .eq('fund_id', fundId)
+    .order('locked_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Closes the books through `lockedThrough`. Refused while unapproved NAVs
+ * remain in the period, since they could no longer be approved.
+ */
+export async function lockNAVPeriod(params: {
+  tenantId: string;
+  fundId: string;
+  lockedThrough: string;
+  lockedBy: string;
+  reason?: string;
+}) {
+  const { data: open, error: openError } = await supabase
     .from('nav_calculations')
-    .update({
-      status: 'approved',
-      approved_by: approvedBy,
-      approved_at: new Date().toISOString(),
+    .select('nav_date')
+    .eq('fund_id', params.fundId)
+    .in('status', ['draft', 'pending_approval'])
+    .is('restatement_reason', null)
+    .lte('nav_date', params.lockedThrough)
+    .limit(1);
+
+  if (openError) throw openError;
+  if (open && open.length > 0) {
+    throw new Error(`Approve or reject the NAV for ${open[0].nav_date} before locking the period`);
+  }
+
+  const { data, error } = await supabase
+    .from('nav_period_locks')
+    .insert({
+      tenant_id: params.tenantId,
+      fund_id: params.fundId,
+      locked_through: params.lockedThrough,
+      reason: params.reason || null,
+      locked_by: params.lockedBy,
     })
-    .eq('id', navCalculationId)
     .select()
     .single();
 
@@ -180,6 +547,15 @@ export async function approveNAV(navCalculationId: string, approvedBy: string) {
   return data;
 }
 
+export async function unlockNAVPeriod(lockId: string, unlockedBy: string) {
+  const { error } = await supabase
+    .from('nav_period_locks')
+    .update({ unlocked_by: unlockedBy, unlocked_at: new Date().toISOString() })
+    .eq('id', lockId);
+
+  if (error) throw error;
+}
+
 export async function getLatestNAV(fundId: string, shareClassId?: string) {
   let query = supabase
     .from('nav_calculations')
@@ -242,6 +618,12 @@ export async function createTransaction(transaction: {
   description?: string;
   createdBy: string;
 }) {
+  await assertPeriodOpen(
+    transaction.fundId,
+    transaction.transactionDate.toISOString().split('T')[0],
+    'transactions'
+  );
+
   const { data, error } = await supabase
     .from('transactions')
     .insert({
@@ -264,6 +646,7 @@ export async function createTransaction(transaction: {
   if (error) throw error;
 
   if (transaction.transactionType === 'subscription' && transaction.shares) {
+    await blendHighWaterMarks(transaction.capitalAccountId, transaction.shares, transaction.pricePerShare || 0);
     await updateCapitalAccount(transaction.capitalAccountId, {
       sharesOwned: transaction.shares,
       capitalContributed: transaction.amount,
@@ -310,19 +693,32 @@ async function updateCapitalAccount(accountId: string, updates: {
     .eq('id', accountId);
 }
 
-export async function getExchangeRate(fromCurrency: string, toCurrency: string, date: Date) {
-  if (fromCurrency === toCurrency) return 1.0;
+/**
+ * Equalisation for top-ups: new shares enter at their subscription price, so
+ * an existing investor HWM becomes the share-weighted blend of old and new.
+ */
+async function blendHighWaterMarks(accountId: string, newShares: number, pricePerShare: number) {
+  if (pricePerShare <= 0) return;
 
-  const { data, error } = await supabase
-    .from('exchange_rates')
-    .select('rate')
-    .eq('from_currency', fromCurrency)
-    .eq('to_currency', toCurrency)
-    .lte('rate_date', date.toISOString().split('T')[0])
-    .order('rate_date', { ascending: false })
-    .limit(1)
-    .maybeSingle();
+  const { data: marks } = await supabase
+    .from('investor_high_water_marks')
+    .select('id, high_water_mark, capital_account:capital_accounts!capital_account_id(shares_owned)')
+    .eq('capital_account_id', accountId);
 
-  if (error) throw error;
-  return data?.rate || 1.0;
+  for (const mark of (marks as HighWaterMarkHolding[] | null) || []) {
+    const existingShares = mark.capital_account?.shares_owned || 0;
+    const blended = (existingShares * mark.high_water_mark + newShares * pricePerShare) / (existingShares + newShares);
+
+    const { error } = await supabase
+      .from('investor_high_water_marks')
+      .update({ high_water_mark: blended, updated_at: new Date().toISOString() })
+      .eq('id', mark.id);
+
+    if (error) throw error;
+  }
+}
+
+export async function getExchangeRate(fromCurrency: string, toCurrency: string, date: Date) {
+  const found = await findExchangeRate(fromCurrency, toCurrency, date);
+  return found?.rate || 1.0;
 }
@@ -0,0 +1,333 @@
+import { supabase } from './supabase';
+import { calculateNAV, NAVCalculationInput } from './navCalculation';
+
+export interface NAVFieldChange {
+  field: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface NAVLineChange {
+  lineType: string;
+  category: string;
+  description: string;
+  before: number;
+  after: number;
+  change: number;
+  status: 'added' | 'removed' | 'changed';
+}
+
+export interface NAVDiff {
+  fields: NAVFieldChange[];
+  lines: NAVLineChange[];
+  navPerShareChangePct: number;
+}
+
+export type DownstreamArtifactType = 'statement' | 'fee_posting' | 'waterfall_run' | 'redemption';
+
+export interface DownstreamArtifact {
+  type: DownstreamArtifactType;
+  id: string;
+  date: string;
+  description: string;
+  amount: number | null;
+  status: string | null;
+}
+
+export interface NAVRestatement {
+  id: string;
+  fund_id: string;
+  share_class_id: string | null;
+  nav_date: string;
+  original_nav_calculation_id: string | null;
+  restated_nav_calculation_id: string;
+  from_version: number;
+  to_version: number;
+  reason: string;
+  diff: NAVDiff;
+  affected_artifacts: DownstreamArtifact[];
+  status: 'draft' | 'approved' | 'reissued';
+  created_at: string;
+  approved_at: string | null;
+  reissued_at: string | null;
+}
+
+const DIFF_FIELDS = [
+  'total_assets',
+  'total_liabilities',
+  'net_asset_value',
+  'total_shares',
+  'nav_per_share',
+  'management_fees_accrued',
+  'performance_fees_accrued',
+];
+
+interface DetailRow {
+  line_type: string;
+  category: string;
+  description: string;
+  base_currency_amount: number | null;
+  amount: number;
+}
+
+interface StatementArtifactRow {
+  id: string;
+  period_start: string;
+  period_end: string;
+  statement_type: string;
+  ending_balance: number | null;
+  status: string;
+  capital_account: { account_number: string } | null;
+}
+
+interface PostingArtifactRow {
+  id: string;
+  fee_type: string;
+  period_end: string;
+  amount: number;
+  status: string;
+  capital_account: { account_number: string } | null;
+}
+
+interface RedemptionArtifactRow {
+  id: string;
+  dealing_date: string;
+  amount_approved: number | null;
+  status: string;
+  capital_account: { account_number: string } | null;
+}
+
+function lineKey(line: DetailRow) {
+  return `${line.line_type}|${line.category}|${(line.description || '').trim().toLowerCase()}`;
+}
+
+/**
+ * Field-by-field and line-by-line differences between two NAV versions.
+ * Lines are matched on type, category and description; amounts are compared
+ * in base currency.
+ */
+export function diffNAVCalculations(
+  original: Record<string, unknown>,
+  originalDetails: DetailRow[],
+  restated: Record<string, unknown>,
+  restatedDetails: DetailRow[]
+): NAVDiff {
+  const fields = DIFF_FIELDS
+    .map(field => {
+      const before = Number(original[field]) || 0;
+      const after = Number(restated[field]) || 0;
+      return { field, before, after, change: after - before };
+    })
+    .filter(f => Math.abs(f.change) > 1e-9);
+
+  const sumByKey = (details: DetailRow[]) => {
+    const map = new Map<string, { line: DetailRow; amount: number }>();
+    for (const line of details) {
+      const key = lineKey(line);
+      const amount = Number(line.base_currency_amount ?? line.amount) || 0;
+      const existing = map.get(key);
+      if (existing) existing.amount += amount;
+      else map.set(key, { line, amount });
+    }
+    return map;
+  };
+
+  const before = sumByKey(originalDetails);
+  const after = sumByKey(restatedDetails);
+  const lines: NAVLineChange[] = [];
+
+  new Set([...before.keys(), ...after.keys()]).forEach(key => {
+    const b = before.get(key);
+    const a = after.get(key);
+    const line = (a || b)!.line;
+    const beforeAmount = b?.amount || 0;
+    const afterAmount = a?.amount || 0;
+    if (b && a && Math.abs(afterAmount - beforeAmount) < 0.005) return;
+
+    lines.push({
+      lineType: line.line_type,
+      category: line.category,
+      description: line.description,
+      before: beforeAmount,
+      after: afterAmount,
+      change: afterAmount - beforeAmount,
+      status: !b ? 'added' : !a ? 'removed' : 'changed',
+    });
+  });
+
+  lines.sort((x, y) => Math.abs(y.change) - Math.abs(x.change));
+
+  const previousNavPerShare = Number(original.nav_per_share) || 0;
+  const navPerShareChangePct = previousNavPerShare > 0
+    ? ((Number(restated.nav_per_share) - previousNavPerShare) / previousNavPerShare) * 100
+    : 0;
+
+  return { fields, lines, navPerShareChangePct };
+}
+
+/**
+ * Everything that priced off an approved NAV: fee postings and redemptions
+ * struck on it, and investor statements and waterfall runs for the fund dated
+ * on or after it (later figures roll forward from the restated value).
+ */
+export async function findNAVDependents(nav: { id: string; fund_id: string; nav_date: string }): Promise<DownstreamArtifact[]> {
+  const [statements, postings, waterfalls, redemptions] = await Promise.all([
+    supabase
+      .from('investor_statements')
+      .select('id, period_start, period_end, statement_type, ending_balance, status, capital_account:capital_accounts!capital_account_id(account_number)')
+      .eq('fund_id', nav.fund_id)
+      .gte('period_end', nav.nav_date),
+    supabase
+      .from('fee_postings')
+      .select('id, fee_type, period_end, amount, status, capital_account:capital_accounts!capital_account_id(account_number)')
+      .eq('nav_calculation_id', nav.id),
+    supabase
+      .from('waterfall_calculations')
+      .select('id, calculation_date, current_nav, gp_allocation')
+      .eq('fund_id', nav.fund_id)
+      .gte('calculation_date', nav.nav_date),
+    supabase
+      .from('redemption_requests')
+      .select('id, dealing_date, amount_approved, status, capital_account:capital_accounts!capital_account_id(account_number)')
+      .eq('nav_calculation_id', nav.id),
+  ]);
+
+  if (statements.error) throw statements.error;
+  if (postings.error) throw postings.error;
+  if (waterfalls.error) throw waterfalls.error;
+  if (redemptions.error) throw redemptions.error;
+
+  return [
+    ...((statements.data as StatementArtifactRow[] | null) || []).map(s => ({
+      type: 'statement' as const,
+      id: s.id,
+      date: s.period_end,
+      description: `${s.statement_type} statement ${s.period_start} – ${s.period_end}${s.capital_account ? ` (${s.capital_account.account_number})` : ''}`,
+      amount: s.ending_balance,
+      status: s.status,
+    })),
+    ...((postings.data as PostingArtifactRow[] | null) || []).map(p => ({
+      type: 'fee_posting' as const,
+      id: p.id,
+      date: p.period_end,
+      description: `${p.fee_type} fee${p.capital_account ? ` (${p.capital_account.account_number})` : ''}`,
+      amount: p.amount,
+      status: p.status,
+    })),
+    ...(waterfalls.data || []).map(w => ({
+      type: 'waterfall_run' as const,
+      id: w.id,
+      date: w.calculation_date,
+      description: `Waterfall run on NAV ${Number(w.current_nav).toLocaleString()}`,
+      amount: w.gp_allocation,
+      status: null,
+    })),
+    ...((redemptions.data as RedemptionArtifactRow[] | null) || []).map(r => ({
+      type: 'redemption' as const,
+      id: r.id,
+      date: r.dealing_date,
+      description: `Redemption${r.capital_account ? ` (${r.capital_account.account_number})` : ''}`,
+      amount: r.amount_approved,
+      status: r.status,
+    })),
+  ];
+}
+
+async function loadDetails(navCalculationId: string): Promise<DetailRow[]> {
+  const { data, error } = await supabase
+    .from('nav_calculation_details')
+    .select('line_type, category, description, amount, base_currency_amount')
+    .eq('nav_calculation_id', navCalculationId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Restates an approved NAV: creates the next version for the same date with
+ * the corrected figures and a reason, records the diff against the approved
+ * version and lists the downstream artifacts to reissue. The new version goes
+ * through the normal approval, which supersedes the original.
+ */
+export async function restateNAV(params: {
+  tenantId: string;
+  navCalculationId: string;
+  reason: string;
+  input: Omit<NAVCalculationInput, 'fundId' | 'shareClassId' | 'navDate' | 'restatement'>;
+}) {
+  if (!params.reason.trim()) {
+    throw new Error('A restatement needs a reason');
+  }
+
+  const { data: original, error } = await supabase
+    .from('nav_calculations')
+    .select('*')
+    .eq('id', params.navCalculationId)
+    .single();
+
+  if (error) throw error;
+  if (original.status !== 'approved') {
+    throw new Error('Only an approved NAV can be restated');
+  }
+
+  const { navCalculation: restated } = await calculateNAV({
+    ...params.input,
+    fundId: original.fund_id,
+    shareClassId: original.share_class_id || undefined,
+    navDate: new Date(`${original.nav_date}T00:00:00Z`),
+    restatement: {
+      reason: params.reason.trim(),
+      supersedesId: original.id,
+    },
+  });
+
+  const [originalDetails, restatedDetails, affected] = await Promise.all([
+    loadDetails(original.id),
+    loadDetails(restated.id),
+    findNAVDependents(original),
+  ]);
+
+  const { data, error: insertError } = await supabase
+    .from('nav_restatements')
+    .insert({
+      tenant_id: params.tenantId,
+      fund_id: original.fund_id,
+      share_class_id: original.share_class_id,
+      nav_date: original.nav_date,
+      original_nav_calculation_id: original.id,
+      restated_nav_calculation_id: restated.id,
+      from_version: original.version,
+      to_version: restated.version,
+      reason: params.reason.trim(),
+      diff: diffNAVCalculations(original, originalDetails, restated, restatedDetails),
+      affected_artifacts: affected,
+      created_by: params.input.calculatedBy,
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+  return data as NAVRestatement;
+}
+
+export async function getNAVRestatements(fundId: string) {
+  const { data, error } = await supabase
+    .from('nav_restatements')
+    .select('*')
+    .eq('fund_id', fundId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as NAVRestatement[];
+}
+
+export async function markRestatementReissued(restatementId: string) {
+  const { error } = await supabase
+    .from('nav_restatements')
+    .update({ status: 'reissued', reissued_at: new Date().toISOString() })
+    .eq('id', restatementId)
+    .eq('status', 'approved');
+
+  if (error) throw error;
+}
@@ -0,0 +1,235 @@
+import { supabase } from './supabase';
+
+/**
+ * Draft, publish and version history for tenant website pages. The page
+ * builders edit a `page_drafts` row; `publish_page_draft` copies it into
+ * `website_content` atomically and appends a `page_versions` snapshot.
+ */
+
+export interface PageSection {
+  section_type: string;
+  section_order: number;
+  content: Record<string, unknown>;
+  is_published: boolean;
+}
+
+export interface PageDraft {
+  id: string;
+  tenant_id: string;
+  page_slug: string;
+  sections: PageSection[];
+  base_version_id: string | null;
+  preview_token: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface PageVersion {
+  id: string;
+  page_slug: string;
+  version_number: number;
+  sections: PageSection[];
+  note: string | null;
+  restored_from_version_id: string | null;
+  published_by: string | null;
+  published_at: string;
+}
+
+export type SectionChange =
+  | { kind: 'added'; index: number; after: PageSection }
+  | { kind: 'removed'; index: number; before: PageSection }
+  | { kind: 'changed'; index: number; before: PageSection; after: PageSection; fields: string[] };
+
+interface SectionRow {
+  section_type: string;
+  section_order?: number | null;
+  content?: Record<string, unknown> | null;
+  is_published?: boolean | null;
+}
+
+function toPageSection(row: SectionRow, index: number): PageSection {
+  return {
+    section_type: row.section_type,
+    section_order: row.section_order ?? index,
+    content: row.content ?? {},
+    is_published: !!row.is_published,
+  };
+}
+
+export async function fetchPageDraft(tenantId: string, pageSlug: string): Promise<PageDraft | null> {
+  const { data, error } = await supabase
+    .from('page_drafts')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('page_slug', pageSlug)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchLiveSections(tenantId: string, pageSlug: string): Promise<PageSection[]> {
+  const { data, error } = await supabase
+    .from('website_content')
+    .select('section_type, section_order, content, is_published')
+    .eq('tenant_id', tenantId)
+    .eq('page_slug', pageSlug)
+    .order('section_order');
+
+  if (error) throw error;
+  return (data || []).map(toPageSection);
+}
+
+export async function fetchPageVersions(tenantId: string, pageSlug: string): Promise<PageVersion[]> {
+  const { data, error } = await supabase
+    .from('page_versions')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('page_slug', pageSlug)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Creates the page's draft or replaces its sections. A new draft records the live version it started from. */
+export async function savePageDraft(
+  tenantId: string,
+  pageSlug: string,
+  sections: PageSection[],
+  userId: string | undefined
+): Promise<PageDraft> {
+  const existing = await fetchPageDraft(tenantId, pageSlug);
+  const payload = {
+    sections: sections.map((section, index) => ({ ...toPageSection(section, index), section_order: index })),
+    updated_by: userId ?? null,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from('page_drafts')
+      .update(payload)
+      .eq('id', existing.id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  const [latest] = await fetchPageVersions(tenantId, pageSlug);
+  const { data, error } = await supabase
+    .from('page_drafts')
+    .insert({ tenant_id: tenantId, page_slug: pageSlug, base_version_id: latest?.id ?? null, ...payload })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function discardPageDraft(draftId: string): Promise<void> {
+  const { error } = await supabase.from('page_drafts').delete().eq('id', draftId);
+  if (error) throw error;
+}
+
+export async function publishPageDraft(draftId: string, note?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('publish_page_draft', {
+    p_draft_id: draftId,
+    p_note: note || null,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function rollbackPageVersion(versionId: string, note?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('rollback_page_version', {
+    p_version_id: versionId,
+    p_note: note || null,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Pending scheduled publish for a draft, if any. */
+export async function fetchScheduledPublish(tenantId: string, draftId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('content_schedule')
+    .select('scheduled_for')
+    .eq('tenant_id', tenantId)
+    .eq('content_type', 'page')
+    .eq('content_id', draftId)
+    .eq('status', 'pending')
+    .order('scheduled_for')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.scheduled_for ?? null;
+}
+
+/** Public page URL carrying the draft's preview token; `siteUrl` may include `?tenant=` for local sites. */
+export function buildPreviewUrl(siteUrl: string, pageSlug: string, previewToken: string): string {
+  const url = new URL(siteUrl);
+  url.pathname = pageSlug === 'home' ? '/' : `/${pageSlug}`;
+  url.searchParams.set('preview', previewToken);
+  return url.toString();
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Section-by-section comparison of two page states. Sections are matched by
+ * position; a different section type at the same position counts as a
+ * removal plus an addition.
+ */
+export function diffPageSections(before: PageSection[], after: PageSection[]): SectionChange[] {
+  const changes: SectionChange[] = [];
+  const length = Math.max(before.length, after.length);
+
+  for (let index = 0; index < length; index++) {
+    const a = before[index];
+    const b = after[index];
+
+    if (a && !b) {
+      changes.push({ kind: 'removed', index, before: a });
+    } else if (!a && b) {
+      changes.push({ kind: 'added', index, after: b });
+    } else if (a && b && a.section_type !== b.section_type) {
+      changes.push({ kind: 'removed', index, before: a });
+      changes.push({ kind: 'added', index, after: b });
+    } else if (a && b) {
+      const keys = new Set([...Object.keys(a.content || {}), ...Object.keys(b.content || {})]);
+      const fields = [...keys]
+        .filter((key) => stableStringify(a.content?.[key]) !== stableStringify(b.content?.[key]))
+        .sort();
+      if (a.is_published !== b.is_published) fields.unshift('visibility');
+      if (fields.length > 0) changes.push({ kind: 'changed', index, before: a, after: b, fields });
+    }
+  }
+
+  return changes;
+}
+
+export interface DraftPreview {
+  tenant_id: string;
+  page_slug: string;
+  title: string | null;
+  sections: PageSection[];
+  updated_at: string;
+}
+
+/** Draft behind a preview link; readable without signing in because the token is the credential. */
+export async function fetchDraftPreview(token: string): Promise<DraftPreview | null> {
+  const { data, error } = await supabase.rpc('get_page_draft_preview', { p_token: token });
+  if (error) throw error;
+  return (data as DraftPreview[] | null)?.[0] ?? null;
+}
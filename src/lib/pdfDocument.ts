@@ -0,0 +1,214 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+
+export interface DocumentBranding {
+  tenantName: string;
+  primaryColor?: string | null;
+  /** PNG or JPEG bytes drawn at the right of the header band. */
+  logo?: Uint8Array | null;
+  /** Short notice repeated at the foot of every page. */
+  footer?: string | null;
+}
+
+export interface BrandedDocument {
+  doc: PDFDocument;
+  heading(text: string): void;
+  paragraph(text: string, options?: { size?: number; color?: RGB }): void;
+  keyValues(rows: [string, string][]): void;
+  table(headers: string[], rows: string[][], options?: { align?: ('left' | 'right')[]; widths?: number[] }): void;
+  spacer(height?: number): void;
+  save(): Promise<Uint8Array>;
+}
+
+// A4 layout, matching scripts/generate-application-pdf.ts
+const PW = 595.28;
+const PH = 841.89;
+const ML = 50;
+const MB = 55;
+const CW = PW - ML - 50;
+
+const TEXT = rgb(0x1A / 255, 0x1A / 255, 0x1A / 255);
+const SUBTLE = rgb(0x4A / 255, 0x4A / 255, 0x4A / 255);
+const BORDER = rgb(0.78, 0.78, 0.78);
+const WHITE = rgb(1, 1, 1);
+
+export function hexToRgb(hex: string | null | undefined, fallback = '#06b6d4'): RGB {
+  const clean = (hex && /^#?[0-9a-f]{6}$/i.test(hex) ? hex : fallback).replace('#', '');
+  return rgb(
+    parseInt(clean.slice(0, 2), 16) / 255,
+    parseInt(clean.slice(2, 4), 16) / 255,
+    parseInt(clean.slice(4, 6), 16) / 255
+  );
+}
+
+// Standard fonts are WinAnsi only; replace anything they cannot encode
+export function safe(text: string) {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of safe(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) > width && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Minimal flowing-layout PDF writer with a tenant-branded header band on every
+ * page. Used for investor notices, statements and tax documents.
+ */
+export async function createBrandedDocument(branding: DocumentBranding, title: string, subtitle?: string): Promise<BrandedDocument> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const brand = hexToRgb(branding.primaryColor);
+
+  doc.setTitle(safe(title));
+  doc.setAuthor(safe(branding.tenantName));
+
+  // An unreadable logo should not stop the document from rendering
+  let logo: PDFImage | null = null;
+  if (branding.logo) {
+    try {
+      logo = await doc.embedPng(branding.logo);
+    } catch {
+      logo = await doc.embedJpg(branding.logo).catch(() => null);
+    }
+  }
+  const logoSize = logo ? logo.scaleToFit(140, 36) : null;
+  const footerLines = branding.footer ? wrap(branding.footer, regular, 6.5, CW - 70).slice(0, 2) : [];
+
+  let page: PDFPage;
+  let y = 0;
+
+  const newPage = () => {
+    page = doc.addPage([PW, PH]);
+    page.drawRectangle({ x: 0, y: PH - 64, width: PW, height: 64, color: brand });
+    page.drawText(safe(branding.tenantName.toUpperCase()), { x: ML, y: PH - 30, size: 13, font: bold, color: WHITE });
+    page.drawText(safe(subtitle ? `${title}  |  ${subtitle}` : title), { x: ML, y: PH - 47, size: 8, font: regular, color: WHITE });
+    if (logo && logoSize) {
+      page.drawImage(logo, { x: PW - 50 - logoSize.width, y: PH - 32 - logoSize.height / 2, width: logoSize.width, height: logoSize.height });
+    }
+    footerLines.forEach((line, i) => {
+      page.drawText(line, { x: ML, y: 30 - i * 8, size: 6.5, font: regular, color: SUBTLE });
+    });
+    y = PH - 92;
+  };
+
+  const ensure = (height: number) => {
+    if (y - height < MB) newPage();
+  };
+
+  newPage();
+
+  return {
+    doc,
+    heading(text) {
+      ensure(30);
+      y -= 8;
+      page.drawText(safe(text), { x: ML, y, size: 12, font: bold, color: brand });
+      y -= 6;
+      page.drawLine({ start: { x: ML, y }, end: { x: ML + CW, y }, thickness: 0.5, color: BORDER });
+      y -= 16;
+    },
+    paragraph(text, options = {}) {
+      const size = options.size || 9.5;
+      for (const line of wrap(text, regular, size, CW)) {
+        ensure(size + 4);
+        page.drawText(line, { x: ML, y, size, font: regular, color: options.color || TEXT });
+        y -= size + 4;
+      }
+      y -= 4;
+    },
+    keyValues(rows) {
+      for (const [label, value] of rows) {
+        const valueLines = wrap(value, regular, 9.5, CW - 180);
+        ensure(valueLines.length * 13 + 2);
+        page.drawText(safe(label), { x: ML, y, size: 9, font: bold, color: SUBTLE });
+        valueLines.forEach((line, i) => {
+          page.drawText(line, { x: ML + 180, y: y - i * 13, size: 9.5, font: regular, color: TEXT });
+        });
+        y -= valueLines.length * 13 + 2;
+      }
+      y -= 6;
+    },
+    table(headers, rows, options = {}) {
+      const widths = options.widths || headers.map(() => CW / headers.length);
+      const align = options.align || headers.map((_, i) => (i === 0 ? 'left' : 'right'));
+
+      const drawRow = (cells: string[], font: PDFFont, color: RGB) => {
+        let x = ML;
+        cells.forEach((cell, i) => {
+          const text = safe(cell);
+          const textWidth = font.widthOfTextAtSize(text, 8.5);
+          const tx = align[i] === 'right' ? x + widths[i] - textWidth - 4 : x + 4;
+          page.drawText(text, { x: tx, y, size: 8.5, font, color });
+          x += widths[i];
+        });
+      };
+
+      const drawHeader = () => {
+        page.drawRectangle({ x: ML, y: y - 4, width: CW, height: 16, color: brand, opacity: 0.12 });
+        drawRow(headers, bold, TEXT);
+        y -= 18;
+      };
+
+      ensure(40);
+      drawHeader();
+      for (const row of rows) {
+        if (y - 14 < MB) {
+          newPage();
+          drawHeader();
+        }
+        drawRow(row, regular, TEXT);
+        y -= 5;
+        page.drawLine({ start: { x: ML, y }, end: { x: ML + CW, y }, thickness: 0.3, color: BORDER });
+        y -= 10;
+      }
+      y -= 8;
+    },
+    spacer(height = 12) {
+      y -= height;
+    },
+    save() {
+      // Numbered last so every page knows the total
+      const pages = doc.getPages();
+      pages.forEach((p, i) => {
+        const label = `Page ${i + 1} of ${pages.length}`;
+        p.drawText(label, { x: PW - 50 - regular.widthOfTextAtSize(label, 7), y: 30, size: 7, font: regular, color: SUBTLE });
+      });
+      return doc.save();
+    },
+  };
+}
+
+export function pdfToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function downloadPdf(bytes: Uint8Array, filename: string) {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { annualise, computePerformance, monthlyReturns, xirr, type CashFlow, type Valuation } from './performanceAnalytics';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const valuations: Valuation[] = [
+  { date: '2025-01-31', value: 100 },
+  { date: '2025-02-28', value: 110 },
+  { date: '2025-03-31', value: 121 },
+];
+const seed: CashFlow[] = [{ date: '2025-01-31', amount: 100 }];
+
+describe('xirr', () => {
+  it('finds the annual rate that zeroes the flows', () => {
+    expect(xirr([{ date: '2025-01-01', amount: -100 }, { date: '2026-01-01', amount: 110 }])).toBeCloseTo(0.1, 8);
+    expect(xirr([{ date: '2025-01-01', amount: -100 }, { date: '2026-01-01', amount: 50 }])).toBeCloseTo(-0.5, 8);
+  });
+
+  it('is undefined when the flows never change sign', () => {
+    expect(xirr([{ date: '2025-01-01', amount: -100 }, { date: '2026-01-01', amount: -10 }])).toBeNull();
+    expect(xirr([{ date: '2025-01-01', amount: 100 }, { date: '2026-01-01', amount: 10 }])).toBeNull();
+    expect(xirr([{ date: '2025-01-01', amount: -100 }, { date: '2026-01-01', amount: 0 }])).toBeNull();
+    expect(xirr([])).toBeNull();
+  });
+});
+
+describe('annualise', () => {
+  it('compounds returns over a year or more and leaves shorter periods alone', () => {
+    expect(annualise(21, 730)).toBeCloseTo(10, 8);
+    expect(annualise(5, 200)).toBeNull();
+    expect(annualise(null, 730)).toBeNull();
+  });
+});
+
+describe('computePerformance', () => {
+  it('chain-links sub-period returns since inception', () => {
+    const result = computePerformance(valuations, seed);
+
+    expect(result.startDate).toBe('2025-01-31');
+    expect(result.subPeriods.map(p => p.return)).toEqual([10, 10]);
+    expect(result.twr).toBe(21);
+    expect(result.twrAnnualised).toBeNull();
+    expect(result.contributed).toBe(100);
+    expect(result.tvpi).toBe(1.21);
+    expect(result.irr).toBeGreaterThan(0);
+  });
+
+  it('strips contributions and distributions out of the period they land in', () => {
+    const withFlows = computePerformance(
+      [...valuations.slice(0, 2), { date: '2025-03-31', value: 100 }],
+      [...seed, { date: '2025-03-15', amount: 50 }, { date: '2025-03-20', amount: -71 }],
+    );
+
+    expect(withFlows.subPeriods[1].return).toBe(10);
+    expect(withFlows.contributed).toBe(150);
+    expect(withFlows.distributed).toBe(71);
+    expect(withFlows.dpi).toBe(0.4733);
+  });
+
+  it('ignores zero flows', () => {
+    const result = computePerformance(valuations, [...seed, { date: '2025-02-15', amount: 0 }]);
+
+    expect(result.twr).toBe(21);
+    expect(result.irr).toBe(computePerformance(valuations, seed).irr);
+  });
+
+  it('has no IRR for a total loss, where the investor never gets money back', () => {
+    const result = computePerformance([{ date: '2025-01-31', value: 100 }, { date: '2025-02-28', value: 0 }], seed);
+
+    expect(result.twr).toBe(-100);
+    expect(result.irr).toBeNull();
+  });
+
+  it('opens a window at the valuation on or before `from` as the opening flow', () => {
+    const result = computePerformance(valuations, seed, { from: '2025-03-15' });
+
+    expect(result.startDate).toBe('2025-02-28');
+    expect(result.beginningValue).toBe(110);
+    expect(result.contributed).toBe(110);
+    expect(result.twr).toBe(10);
+  });
+
+  it('stops a window at the last valuation on or before `to`', () => {
+    const result = computePerformance(valuations, seed, { to: '2025-03-01' });
+
+    expect(result.endDate).toBe('2025-02-28');
+    expect(result.twr).toBe(10);
+  });
+
+  it('treats a window starting before inception as since inception', () => {
+    expect(computePerformance(valuations, seed, { from: '2024-12-31' })).toEqual(computePerformance(valuations, seed));
+  });
+
+  it('returns no data when capital was invested before `from` but nothing values it there', () => {
+    const result = computePerformance(valuations, [{ date: '2025-01-15', amount: 100 }], { from: '2025-01-20' });
+
+    expect(result.startDate).toBeNull();
+    expect(result.endDate).toBeNull();
+    expect(result.twr).toBeNull();
+    expect(result.series).toEqual([]);
+  });
+
+  it('returns no data without valuations', () => {
+    const result = computePerformance([], seed);
+
+    expect(result.endDate).toBeNull();
+    expect(result.irr).toBeNull();
+  });
+});
+
+describe('monthlyReturns', () => {
+  it('compounds sub-periods into the month they end in', () => {
+    expect(monthlyReturns([
+      { start: '2025-01-31', end: '2025-02-14', return: 10 },
+      { start: '2025-02-14', end: '2025-02-28', return: 10 },
+      { start: '2025-02-28', end: '2025-03-31', return: -5 },
+    ])).toEqual([{ month: '2025-02', return: 21 }, { month: '2025-03', return: -5 }]);
+  });
+});
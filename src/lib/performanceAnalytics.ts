@@ -0,0 +1,443 @@
+import { supabase } from './supabase';
+
+/**
+ * Money- and time-weighted performance for funds, share classes and
+ * individual capital accounts, from approved NAVs and settled
+ * `capital_transactions`.
+ *
+ * Cash flows are external flows into the fund: contributions and transfers
+ * in are positive; redemptions, distributions and transfers out negative.
+ * Fees are not external flows, so every figure is net of fees.
+ *
+ * The time-weighted return chain-links one sub-period per NAV date. Flows
+ * dated inside a sub-period are treated as arriving at its closing NAV, the
+ * price they deal at: r = (V_end - flows) / V_start - 1. Returns are in
+ * percent, matching `performance_metrics`; multiples are ratios.
+ */
+
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface Valuation {
+  date: string;
+  value: number;
+}
+
+export interface PerformancePoint {
+  date: string;
+  value: number;
+  /** Contributions less amounts returned, cumulative to this date. */
+  netContributions: number;
+  /** Chain-linked time-weighted return since the start of the window. */
+  cumulativeReturn: number;
+}
+
+export interface SubPeriodReturn {
+  start: string;
+  end: string;
+  return: number;
+}
+
+export interface PerformanceResult {
+  startDate: string | null;
+  endDate: string | null;
+  days: number;
+  beginningValue: number;
+  endingValue: number;
+  contributed: number;
+  distributed: number;
+  /** Annualised XIRR of the flows and ending value. */
+  irr: number | null;
+  twr: number | null;
+  /** Only for windows of a year or more; shorter periods are not annualised. */
+  twrAnnualised: number | null;
+  dpi: number | null;
+  rvpi: number | null;
+  tvpi: number | null;
+  series: PerformancePoint[];
+  subPeriods: SubPeriodReturn[];
+}
+
+export interface PerformanceWindow {
+  /** Start the window at the valuation on or before this date, carried in as the opening flow. */
+  from?: string;
+  to?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FLOW_SIGN: Record<string, number> = {
+  contribution: 1,
+  transfer_in: 1,
+  redemption: -1,
+  distribution: -1,
+  transfer_out: -1,
+};
+
+/** Units added (+) or removed (-) by a transaction type. */
+const UNIT_SIGN: Record<string, number> = {
+  contribution: 1,
+  transfer_in: 1,
+  redemption: -1,
+  transfer_out: -1,
+  fee: -1,
+};
+
+function dayCount(from: string, to: string) {
+  return (Date.parse(to) - Date.parse(from)) / DAY_MS;
+}
+
+function round(value: number, decimals = 4) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Annualised internal rate of return of dated cash flows, from the
+ * investor's side (money paid in negative, money received positive).
+ * Newton-Raphson from a 10% guess, falling back to bisection. Returns
+ * a decimal rate, or null when the flows do not change sign.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  const dated = flows.filter((f) => f.amount !== 0).sort((a, b) => a.date.localeCompare(b.date));
+  if (!dated.some((f) => f.amount < 0) || !dated.some((f) => f.amount > 0)) return null;
+
+  const t0 = dated[0].date;
+  const years = dated.map((f) => dayCount(t0, f.date) / 365);
+  const npv = (rate: number) => dated.reduce((sum, f, i) => sum + f.amount / (1 + rate) ** years[i], 0);
+  const slope = (rate: number) => dated.reduce((sum, f, i) => sum - (years[i] * f.amount) / (1 + rate) ** (years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const derivative = slope(rate);
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break;
+    const next = rate - value / derivative;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid;
+    if (npv(low) * value < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+/** Compounds a cumulative return (percent) over `days` to an annual rate; null under a year. */
+export function annualise(cumulativeReturn: number | null, days: number): number | null {
+  if (cumulativeReturn === null || days < 365) return null;
+  return ((1 + cumulativeReturn / 100) ** (365 / days) - 1) * 100;
+}
+
+export function computePerformance(valuations: Valuation[], flows: CashFlow[], window: PerformanceWindow = {}): PerformanceResult {
+  const points = [...valuations].sort((a, b) => a.date.localeCompare(b.date)).filter((v) => !window.to || v.date <= window.to);
+  const opening = window.from ? [...points].reverse().find((v) => v.date <= window.from!) : undefined;
+  // Since inception, the window opens at the first flow or the first non-zero valuation.
+  const startDate = opening?.date
+    ?? [points.find((v) => v.value > 0)?.date, flows.map((f) => f.date).sort()[0]].filter(Boolean).sort()[0]
+    ?? null;
+  const closing = points[points.length - 1];
+
+  const empty: PerformanceResult = {
+    startDate, endDate: closing?.date ?? null, days: 0, beginningValue: opening?.value ?? 0, endingValue: closing?.value ?? 0,
+    contributed: 0, distributed: 0, irr: null, twr: null, twrAnnualised: null, dpi: null, rvpi: null, tvpi: null,
+    series: [], subPeriods: [],
+  };
+  if (!startDate || !closing || closing.date < startDate) return empty;
+  // Capital already invested at `from` with no valuation to carry it in
+  // cannot be priced into the window, so it is never widened to inception.
+  if (window.from && !opening && startDate < window.from) return { ...empty, startDate: null, endDate: null };
+
+  const windowFlows = flows
+    .filter((f) => (opening ? f.date > opening.date : f.date >= startDate) && f.date <= closing.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const subPeriods: SubPeriodReturn[] = [];
+  const series: PerformancePoint[] = [];
+  let prevDate = opening?.date ?? startDate;
+  let prevValue = opening?.value ?? 0;
+  let net = prevValue;
+  let growth = 1;
+  let flowIndex = 0;
+
+  if (opening) series.push({ date: opening.date, value: opening.value, netContributions: net, cumulativeReturn: 0 });
+
+  for (const point of points) {
+    if (point.date <= prevDate && (opening || point.date < startDate)) continue;
+
+    let periodFlow = 0;
+    while (flowIndex < windowFlows.length && windowFlows[flowIndex].date <= point.date) {
+      periodFlow += windowFlows[flowIndex].amount;
+      flowIndex++;
+    }
+    net += periodFlow;
+
+    if (prevValue > 0) {
+      const r = (point.value - periodFlow) / prevValue - 1;
+      growth *= 1 + r;
+      subPeriods.push({ start: prevDate, end: point.date, return: round(r * 100) });
+    }
+
+    series.push({ date: point.date, value: point.value, netContributions: net, cumulativeReturn: round((growth - 1) * 100) });
+    prevDate = point.date;
+    prevValue = point.value;
+  }
+
+  const beginningValue = opening?.value ?? 0;
+  const contributed = beginningValue + windowFlows.filter((f) => f.amount > 0).reduce((s, f) => s + f.amount, 0);
+  const distributed = windowFlows.filter((f) => f.amount < 0).reduce((s, f) => s - f.amount, 0);
+  const days = dayCount(startDate, closing.date);
+
+  const investorFlows: CashFlow[] = [
+    ...(beginningValue > 0 ? [{ date: startDate, amount: -beginningValue }] : []),
+    ...windowFlows.map((f) => ({ date: f.date, amount: -f.amount })),
+    { date: closing.date, amount: closing.value },
+  ];
+  const irr = xirr(investorFlows);
+  const twr = subPeriods.length > 0 ? round((growth - 1) * 100) : null;
+
+  return {
+    startDate,
+    endDate: closing.date,
+    days,
+    beginningValue,
+    endingValue: closing.value,
+    contributed,
+    distributed,
+    irr: irr !== null ? round(irr * 100) : null,
+    twr,
+    twrAnnualised: twr !== null ? annualise(twr, days) : null,
+    dpi: contributed > 0 ? round(distributed / contributed) : null,
+    rvpi: contributed > 0 ? round(closing.value / contributed) : null,
+    tvpi: contributed > 0 ? round((distributed + closing.value) / contributed) : null,
+    series,
+    subPeriods,
+  };
+}
+
+/** Sub-period returns compounded into calendar months (YYYY-MM of the period end). */
+export function monthlyReturns(subPeriods: SubPeriodReturn[]): { month: string; return: number }[] {
+  const months = new Map<string, number>();
+  for (const period of subPeriods) {
+    const key = period.end.slice(0, 7);
+    months.set(key, (months.get(key) ?? 1) * (1 + period.return / 100));
+  }
+  return Array.from(months, ([month, growth]) => ({ month, return: round((growth - 1) * 100) }));
+}
+
+// ── Loaders ──────────────────────────────────────────────────────────────
+
+interface NavPoint {
+  date: string;
+  netAssetValue: number;
+  navPerShare: number;
+}
+
+interface NavRow {
+  share_class_id: string | null;
+  nav_date: string;
+  version: number;
+  net_asset_value: number;
+  nav_per_share: number;
+}
+
+interface AccountRow {
+  id: string;
+  account_number: string;
+  fund_id: string;
+  share_class_id: string | null;
+  shares_owned: number;
+  capital_contributed: number;
+  inception_date: string | null;
+  fund: { fund_name: string; base_currency: string } | null;
+  investor: { full_name: string } | null;
+}
+
+interface TransactionRow {
+  capital_account_id: string;
+  transaction_type: string;
+  transaction_date: string;
+  amount: number;
+  shares: number | null;
+  price_per_share: number | null;
+}
+
+/**
+ * Approved NAVs of a share class, or of the fund when `shareClassId` is
+ * null. A fund without fund-level NAVs sums its classes by date. Restated
+ * dates keep their highest version.
+ */
+async function loadNavPoints(fundId: string, shareClassId: string | null): Promise<NavPoint[]> {
+  const { data, error } = await supabase
+    .from('nav_calculations')
+    .select('share_class_id, nav_date, version, net_asset_value, nav_per_share')
+    .eq('fund_id', fundId)
+    .eq('status', 'approved')
+    .order('nav_date', { ascending: true });
+  if (error) throw error;
+
+  const latest = new Map<string, NavRow>();
+  for (const row of (data || []) as NavRow[]) {
+    const key = `${row.share_class_id ?? ''}|${row.nav_date}`;
+    const seen = latest.get(key);
+    if (!seen || seen.version < row.version) latest.set(key, row);
+  }
+  const rows = Array.from(latest.values());
+
+  const own = rows.filter((r) => (r.share_class_id ?? null) === shareClassId);
+  if (own.length > 0 || shareClassId !== null) {
+    return own.map((r) => ({ date: r.nav_date, netAssetValue: Number(r.net_asset_value) || 0, navPerShare: Number(r.nav_per_share) || 0 }));
+  }
+
+  const byDate = new Map<string, number>();
+  for (const r of rows) byDate.set(r.nav_date, (byDate.get(r.nav_date) ?? 0) + (Number(r.net_asset_value) || 0));
+  return Array.from(byDate, ([date, netAssetValue]) => ({ date, netAssetValue, navPerShare: 0 }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+async function loadTransactions(filter: { fundId?: string; accountIds?: string[] }): Promise<TransactionRow[]> {
+  let query = supabase
+    .from('capital_transactions')
+    .select('capital_account_id, transaction_type, transaction_date, amount, shares, price_per_share')
+    .eq('status', 'settled')
+    .order('transaction_date', { ascending: true });
+  if (filter.fundId) query = query.eq('fund_id', filter.fundId);
+  if (filter.accountIds) query = query.in('capital_account_id', filter.accountIds);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as TransactionRow[];
+}
+
+function toFlows(transactions: TransactionRow[]): CashFlow[] {
+  return transactions
+    .filter((t) => FLOW_SIGN[t.transaction_type])
+    .map((t) => ({ date: t.transaction_date, amount: Math.abs(Number(t.amount) || 0) * FLOW_SIGN[t.transaction_type] }));
+}
+
+/**
+ * Values an account at each NAV date from the units its transactions add
+ * and remove. Transactions without a unit count are converted at their
+ * price, or at the NAV they dealt at. An account with no unit history
+ * (opened before transactions were recorded) holds its current units from
+ * inception, funded by one contribution of its contributed capital.
+ */
+function accountSeries(
+  account: { shares_owned: number; capital_contributed: number; inception_date: string | null },
+  transactions: TransactionRow[],
+  navs: NavPoint[],
+): { valuations: Valuation[]; flows: CashFlow[] } {
+  const navAt = (date: string) => navs.find((n) => n.date >= date)?.navPerShare || navs[navs.length - 1]?.navPerShare || 0;
+  const unitMoves = transactions
+    .filter((t) => UNIT_SIGN[t.transaction_type])
+    .map((t) => {
+      const price = Number(t.price_per_share) || navAt(t.transaction_date);
+      const units = t.shares != null ? Math.abs(Number(t.shares)) : price > 0 ? Math.abs(Number(t.amount)) / price : 0;
+      return { date: t.transaction_date, units: units * UNIT_SIGN[t.transaction_type] };
+    });
+
+  let flows = toFlows(transactions);
+  if (unitMoves.length === 0 && Number(account.shares_owned) > 0) {
+    const start = account.inception_date || navs[0]?.date;
+    if (start) {
+      unitMoves.push({ date: start, units: Number(account.shares_owned) });
+      flows = [{ date: start, amount: Number(account.capital_contributed) || 0 }, ...flows];
+    }
+  }
+
+  const valuations = navs.map((nav) => ({
+    date: nav.date,
+    value: Math.max(unitMoves.filter((m) => m.date <= nav.date).reduce((s, m) => s + m.units, 0), 0) * nav.navPerShare,
+  }));
+  return { valuations, flows };
+}
+
+export async function fundPerformance(fundId: string, window: PerformanceWindow = {}): Promise<PerformanceResult> {
+  const [navs, transactions] = await Promise.all([loadNavPoints(fundId, null), loadTransactions({ fundId })]);
+  return computePerformance(navs.map((n) => ({ date: n.date, value: n.netAssetValue })), toFlows(transactions), window);
+}
+
+export async function shareClassPerformance(fundId: string, shareClassId: string, window: PerformanceWindow = {}): Promise<PerformanceResult> {
+  const { data: accounts, error } = await supabase
+    .from('capital_accounts')
+    .select('id')
+    .eq('fund_id', fundId)
+    .eq('share_class_id', shareClassId);
+  if (error) throw error;
+
+  const accountIds = (accounts || []).map((a) => a.id);
+  const [navs, transactions] = await Promise.all([
+    loadNavPoints(fundId, shareClassId),
+    accountIds.length > 0 ? loadTransactions({ accountIds }) : Promise.resolve([]),
+  ]);
+  return computePerformance(navs.map((n) => ({ date: n.date, value: n.netAssetValue })), toFlows(transactions), window);
+}
+
+export interface AccountPerformance extends PerformanceResult {
+  accountId: string;
+  accountNumber: string;
+  investorName: string | null;
+  fundName: string;
+  currency: string;
+  shareClassId: string | null;
+}
+
+/**
+ * Performance of capital accounts, each valued at its share class NAV (the
+ * fund NAV when the class has none). Filter by fund for the manager's view
+ * or by investor for the portal.
+ */
+export async function accountsPerformance(
+  filter: { fundId?: string; investorId?: string },
+  window: PerformanceWindow = {},
+): Promise<AccountPerformance[]> {
+  let query = supabase
+    .from('capital_accounts')
+    .select('id, account_number, fund_id, share_class_id, shares_owned, capital_contributed, inception_date, fund:funds!fund_id(fund_name, base_currency), investor:client_profiles!investor_id(full_name)')
+    .neq('status', 'closed')
+    .order('account_number');
+  if (filter.fundId) query = query.eq('fund_id', filter.fundId);
+  if (filter.investorId) query = query.eq('investor_id', filter.investorId);
+
+  const { data: accounts, error } = await query;
+  if (error) throw error;
+  const rows = (accounts || []) as AccountRow[];
+  if (rows.length === 0) return [];
+
+  const transactions = await loadTransactions({ accountIds: rows.map((a) => a.id) });
+
+  const navCache = new Map<string, Promise<NavPoint[]>>();
+  const navsFor = (fundId: string, shareClassId: string | null) => {
+    const key = `${fundId}|${shareClassId ?? ''}`;
+    if (!navCache.has(key)) {
+      navCache.set(key, loadNavPoints(fundId, shareClassId).then(async (navs) =>
+        navs.length > 0 || !shareClassId ? navs : loadNavPoints(fundId, null)
+      ));
+    }
+    return navCache.get(key)!;
+  };
+
+  return Promise.all(rows.map(async (account) => {
+    const navs = await navsFor(account.fund_id, account.share_class_id);
+    const { valuations, flows } = accountSeries(account, transactions.filter((t) => t.capital_account_id === account.id), navs);
+    return {
+      ...computePerformance(valuations, flows, window),
+      accountId: account.id,
+      accountNumber: account.account_number,
+      investorName: account.investor?.full_name ?? null,
+      fundName: account.fund?.fund_name || 'Fund',
+      currency: account.fund?.base_currency || 'USD',
+      shareClassId: account.share_class_id,
+    };
+  }));
+}
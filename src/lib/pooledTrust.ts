@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { getLatestNAV } from './navCalculation';
+import { POOLED_TRUST_FUND_TYPE } from './investorPortfolio';
+
+/**
+ * Unit issuance for pooled trusts. A pooled trust is a fund of type
+ * `pooled_trust` linked to its brokerage account through
+ * `funds.trust_account_id`; investors hold its units in ordinary capital
+ * accounts, priced at the latest approved NAV the IBKR sync writes.
+ */
+
+export interface PooledTrustFund {
+  id: string;
+  fund_code: string;
+  fund_name: string;
+  base_currency: string;
+  trust_account_id: string | null;
+  share_class_id: string | null;
+}
+
+interface PooledTrustFundRow extends Omit<PooledTrustFund, 'share_class_id'> {
+  share_classes: { id: string; created_at: string }[] | null;
+}
+
+export async function loadPooledTrustFunds(tenantId: string): Promise<PooledTrustFund[]> {
+  const { data, error } = await supabase
+    .from('funds')
+    .select('id, fund_code, fund_name, base_currency, trust_account_id, share_classes(id, created_at)')
+    .eq('tenant_id', tenantId)
+    .eq('fund_type', POOLED_TRUST_FUND_TYPE)
+    .order('fund_name');
+  if (error) throw error;
+
+  return ((data || []) as PooledTrustFundRow[]).map(({ share_classes, ...fund }) => ({
+    ...fund,
+    share_class_id: [...(share_classes || [])].sort((a, b) => a.created_at.localeCompare(b.created_at))[0]?.id || null,
+  }));
+}
+
+export async function trustUnitPrice(fund: PooledTrustFund): Promise<number> {
+  const nav = (fund.share_class_id && await getLatestNAV(fund.id, fund.share_class_id)) || await getLatestNAV(fund.id);
+  return Number(nav?.nav_per_share) || 1;
+}
+
+/**
+ * Issues units to an investor at the current unit price, opening their
+ * capital account in the trust on first subscription. Returns the units
+ * issued.
+ */
+export async function issueTrustUnits(params: {
+  tenantId: string;
+  fund: PooledTrustFund;
+  investorId: string;
+  amount: number;
+  createdBy: string | undefined;
+}): Promise<number> {
+  const { tenantId, fund, investorId, amount } = params;
+  const price = await trustUnitPrice(fund);
+  const units = amount / price;
+  const today = new Date().toISOString().split('T')[0];
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('capital_accounts')
+    .select('id, shares_owned, capital_contributed, cost_basis')
+    .eq('fund_id', fund.id)
+    .eq('investor_id', investorId)
+    .maybeSingle();
+  if (lookupError) throw lookupError;
+
+  let accountId = existing?.id;
+  if (!accountId) {
+    const { count } = await supabase
+      .from('capital_accounts')
+      .select('id', { count: 'exact', head: true })
+      .eq('fund_id', fund.id);
+
+    const { data: created, error: createError } = await supabase
+      .from('capital_accounts')
+      .insert({
+        tenant_id: tenantId,
+        fund_id: fund.id,
+        share_class_id: fund.share_class_id,
+        investor_id: investorId,
+        account_number: `${fund.fund_code}-${String((count || 0) + 1).padStart(4, '0')}`,
+        inception_date: today,
+        status: 'active',
+      })
+      .select('id')
+      .single();
+    if (createError) throw createError;
+    accountId = created.id;
+  }
+
+  const { error: txnError } = await supabase
+    .from('capital_transactions')
+    .insert({
+      tenant_id: tenantId,
+      fund_id: fund.id,
+      capital_account_id: accountId,
+      transaction_type: 'contribution',
+      transaction_date: today,
+      settlement_date: today,
+      amount,
+      shares: units,
+      price_per_share: price,
+      currency: fund.base_currency,
+      status: 'settled',
+      reference_number: `TXN-${Date.now().toString().slice(-8)}`,
+      description: 'Trust unit subscription',
+      created_by: params.createdBy || null,
+    });
+  if (txnError) throw txnError;
+
+  const { error: updateError } = await supabase
+    .from('capital_accounts')
+    .update({
+      shares_owned: Number(existing?.shares_owned || 0) + units,
+      capital_contributed: Number(existing?.capital_contributed || 0) + amount,
+      cost_basis: Number(existing?.cost_basis || 0) + amount,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', accountId);
+  if (updateError) throw updateError;
+
+  return units;
+}
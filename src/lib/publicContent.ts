@@ -0,0 +1,267 @@
+import DOMPurify from 'dompurify';
+import { generateHTML, type JSONContent } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import Image from '@tiptap/extension-image';
+import { supabase } from './supabase';
+
+/**
+ * Read helpers for the blog, FAQ, testimonial and form content shown on
+ * tenant public websites. All reads go through the anon policies, which only
+ * expose active or published rows.
+ */
+
+export interface PublicPostSummary {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  featured_image_url: string | null;
+  author_name: string | null;
+  published_at: string;
+  read_time_minutes: number | null;
+  category: { name: string; slug: string; color: string | null } | null;
+}
+
+export interface PublicPost extends PublicPostSummary {
+  content: JSONContent | string | null;
+  meta_title: string | null;
+  meta_description: string | null;
+}
+
+export interface PublicBlogCategory {
+  id: string;
+  name: string;
+  slug: string;
+  color: string | null;
+}
+
+export interface PublicFaqItem {
+  id: string;
+  question: string;
+  answer: string;
+  category: string | null;
+}
+
+export interface PublicTestimonial {
+  id: string;
+  client_name: string;
+  client_position: string | null;
+  client_company: string | null;
+  client_photo_url: string | null;
+  testimonial_text: string;
+  rating: number | null;
+}
+
+/** A choice on a select, radio or checkbox field, stored as a string or a value/label pair. */
+export type PublicFormFieldOption = string | { value?: string; label?: string };
+
+/** What an input holds: text, a single checkbox, or the ticked choices of a checkbox group. */
+export type PublicFormValue = string | boolean | string[];
+
+export interface PublicFormField {
+  id: string;
+  field_name: string;
+  field_label: string;
+  field_type: string;
+  placeholder: string | null;
+  help_text: string | null;
+  default_value: string | null;
+  options: PublicFormFieldOption[] | { choices?: PublicFormFieldOption[] } | null;
+  is_required: boolean;
+  min_length: number | null;
+  max_length: number | null;
+  pattern: string | null;
+  validation_message: string | null;
+}
+
+export interface PublicForm {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  submit_button_text: string | null;
+  success_message: string | null;
+  redirect_url: string | null;
+  fields: PublicFormField[];
+}
+
+const POST_SUMMARY_COLUMNS =
+  'id, title, slug, excerpt, featured_image_url, author_name, published_at, read_time_minutes, category:blog_categories(name, slug, color)';
+
+export async function fetchPublishedPosts(
+  tenantId: string,
+  options: { limit?: number; categorySlug?: string } = {}
+): Promise<PublicPostSummary[]> {
+  let categoryId: string | null = null;
+  if (options.categorySlug) {
+    const { data: category } = await supabase
+      .from('blog_categories')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('slug', options.categorySlug)
+      .maybeSingle();
+    if (!category) return [];
+    categoryId = category.id;
+  }
+
+  let query = supabase
+    .from('blog_posts')
+    .select(POST_SUMMARY_COLUMNS)
+    .eq('tenant_id', tenantId)
+    .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
+    .order('published_at', { ascending: false });
+
+  if (categoryId) query = query.eq('category_id', categoryId);
+  if (options.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as PublicPostSummary[];
+}
+
+export async function fetchBlogCategories(tenantId: string): Promise<PublicBlogCategory[]> {
+  const { data, error } = await supabase
+    .from('blog_categories')
+    .select('id, name, slug, color')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true)
+    .order('display_order');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchPostBySlug(tenantId: string, slug: string): Promise<PublicPost | null> {
+  const { data, error } = await supabase
+    .from('blog_posts')
+    .select(`${POST_SUMMARY_COLUMNS}, content, meta_title, meta_description`)
+    .eq('tenant_id', tenantId)
+    .eq('slug', slug)
+    .eq('status', 'published')
+    .lte('published_at', new Date().toISOString())
+    .maybeSingle();
+  if (error) throw error;
+  if (data) {
+    supabase.rpc('increment_post_views', { p_post_id: data.id }).then(({ error: viewError }) => {
+      if (viewError) console.error('Error recording post view:', viewError);
+    });
+  }
+  return data as unknown as PublicPost | null;
+}
+
+export async function fetchFaqItems(tenantId: string, category?: string): Promise<PublicFaqItem[]> {
+  let query = supabase
+    .from('faq_items')
+    .select('id, question, answer, category')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true)
+    .order('display_order');
+  if (category) query = query.eq('category', category);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchTestimonials(tenantId: string, featuredOnly = false): Promise<PublicTestimonial[]> {
+  let query = supabase
+    .from('testimonials')
+    .select('id, client_name, client_position, client_company, client_photo_url, testimonial_text, rating')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true)
+    .order('display_order');
+  if (featuredOnly) query = query.eq('is_featured', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchPublicForm(tenantId: string, slug: string): Promise<PublicForm | null> {
+  const { data: form, error } = await supabase
+    .from('custom_forms')
+    .select('id, name, slug, description, submit_button_text, success_message, redirect_url')
+    .eq('tenant_id', tenantId)
+    .eq('slug', slug)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error) throw error;
+  if (!form) return null;
+
+  const { data: fields, error: fieldsError } = await supabase
+    .from('form_fields')
+    .select('id, field_name, field_label, field_type, placeholder, help_text, default_value, options, is_required, min_length, max_length, pattern, validation_message')
+    .eq('form_id', form.id)
+    .eq('is_active', true)
+    .order('display_order');
+  if (fieldsError) throw fieldsError;
+
+  return { ...form, fields: fields || [] };
+}
+
+/**
+ * Posts a submission to the submit-form edge function, which validates it
+ * against the form definition, filters spam and sends the notification email.
+ * `startedAt` is when the form was first rendered.
+ */
+export async function submitPublicForm(
+  tenantId: string,
+  formId: string,
+  values: Record<string, PublicFormValue>,
+  extra: { startedAt: number; honeypot: string }
+): Promise<{ success: boolean; message?: string; redirect_url?: string | null }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/submit-form`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+      Apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify({
+      tenant_id: tenantId,
+      form_id: formId,
+      values,
+      started_at: extra.startedAt,
+      website: extra.honeypot,
+      referrer: window.location.href,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || 'Submission failed');
+  return result;
+}
+
+/** Blog content is stored as TipTap JSON; older posts may hold plain HTML. */
+export function renderPostHtml(content: JSONContent | string | null): string {
+  let html = '';
+  if (typeof content === 'string') {
+    html = content;
+  } else if (content?.type === 'doc') {
+    try {
+      html = generateHTML(content, [StarterKit, Image]);
+    } catch (err) {
+      console.error('Error rendering post content:', err);
+    }
+  }
+
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS: ['p', 'br', 'strong', 'em', 'u', 's', 'a', 'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'code', 'pre', 'hr', 'img', 'span'],
+    ALLOWED_ATTR: ['href', 'title', 'target', 'rel', 'src', 'alt'],
+    ALLOW_DATA_ATTR: false,
+  });
+}
+
+/** Client-side navigation within the public site; PublicWebsite listens for popstate. */
+export function navigatePublic(href: string) {
+  window.history.pushState({}, '', href);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  window.scrollTo(0, 0);
+}
+
+export function formatPublicDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
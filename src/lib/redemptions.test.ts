@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyRedemptionGate, getNextDealingDate, isDealingDate, reviewRedemptionRequest, termsFromShareClass } from './redemptions';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('applyRedemptionGate', () => {
+  const requests = [{ id: 'a', amount: 600 }, { id: 'b', amount: 400 }];
+
+  it('scales every request by the same factor and leaves the remainder gated', () => {
+    const gate = applyRedemptionGate(requests, 5000, 10);
+
+    expect(gate.capacity).toBe(500);
+    expect(gate.scaleFactor).toBe(0.5);
+    expect(gate.allocations).toEqual([
+      { id: 'a', requested: 600, approved: 300, gated: 300 },
+      { id: 'b', requested: 400, approved: 200, gated: 200 },
+    ]);
+  });
+
+  it('lets everything through under the gate or without one', () => {
+    for (const gatePct of [25, null, 0]) {
+      const gate = applyRedemptionGate(requests, 5000, gatePct);
+      expect(gate.scaleFactor).toBe(1);
+      expect(gate.allocations.every(a => a.gated === 0 && a.approved === a.requested)).toBe(true);
+    }
+  });
+
+  it('handles a dealing date with nothing requested', () => {
+    expect(applyRedemptionGate([], 5000, 10)).toEqual({ capacity: 500, totalRequested: 0, scaleFactor: 1, allocations: [] });
+  });
+});
+
+describe('dealing dates', () => {
+  it('only deals on the month end that closes each period', () => {
+    expect(isDealingDate(utc('2026-03-31'), 'quarterly')).toBe(true);
+    expect(isDealingDate(utc('2026-04-30'), 'quarterly')).toBe(false);
+    expect(isDealingDate(utc('2026-04-29'), 'monthly')).toBe(false);
+  });
+
+  it('moves to a later dealing date when the notice period would be missed', () => {
+    expect(getNextDealingDate('quarterly', utc('2026-02-10'), 30).toISOString().slice(0, 10)).toBe('2026-03-31');
+    expect(getNextDealingDate('quarterly', utc('2026-03-15'), 30).toISOString().slice(0, 10)).toBe('2026-06-30');
+  });
+});
+
+describe('reviewRedemptionRequest', () => {
+  it('flags short notice, lock-up and requests above the account value', () => {
+    const review = reviewRedemptionRequest({
+      requestDate: utc('2026-03-20'),
+      dealingDate: utc('2026-03-31'),
+      inceptionDate: utc('2025-06-01'),
+      requestedAmount: 1200,
+      accountValue: 1000,
+      terms: termsFromShareClass({ redemption_frequency: 'quarterly', redemption_notice_days: 30, lock_up_months: 12 }),
+    });
+
+    expect(review.eligible).toBe(false);
+    expect(review.issues).toEqual([
+      'Notice period not met: 11 of 30 days given',
+      'Account is in lock-up until 2026-06-01',
+      'Requested amount exceeds current account value',
+    ]);
+  });
+});
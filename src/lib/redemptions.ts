@@ -0,0 +1,325 @@
+import { supabase } from './supabase';
+import { getLatestNAV } from './navCalculation';
+
+export type RedemptionFrequency = 'monthly' | 'quarterly' | 'semi_annual' | 'annual';
+
+export interface RedemptionTerms {
+  frequency: RedemptionFrequency;
+  noticeDays: number;
+  lockUpMonths: number;
+  holdbackPct: number;
+}
+
+export interface RedemptionReviewInput {
+  requestDate: Date;
+  dealingDate: Date;
+  inceptionDate: Date | null;
+  requestedAmount: number;
+  accountValue: number;
+  terms: RedemptionTerms;
+}
+
+export interface RedemptionReview {
+  eligible: boolean;
+  issues: string[];
+}
+
+export interface GateAllocation {
+  id: string;
+  requested: number;
+  approved: number;
+  gated: number;
+}
+
+export interface GateResult {
+  capacity: number | null;
+  totalRequested: number;
+  scaleFactor: number;
+  allocations: GateAllocation[];
+}
+
+export interface SettlementRequest {
+  id: string;
+  capitalAccountId: string;
+  shareClassId: string | null;
+  redemptionType: string;
+  requestedAmount: number;
+  holdbackPct: number;
+  /** The request's own share class dealing frequency, used to date any carried-forward residual. */
+  frequency: RedemptionFrequency;
+}
+
+/** Liquidity columns of a `share_classes` row. */
+export interface ShareClassLiquidity {
+  redemption_frequency?: string | null;
+  redemption_notice_days?: number | null;
+  lock_up_months?: number | null;
+  redemption_holdback_pct?: number | null;
+}
+
+interface ApprovedNAV {
+  id: string;
+  nav_date: string;
+  nav_per_share: number;
+  net_asset_value: number;
+}
+
+const MONTHS_PER_PERIOD: Record<RedemptionFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semi_annual: 6,
+  annual: 12,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function toDateString(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+function monthEnd(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0));
+}
+
+export function termsFromShareClass(shareClass: ShareClassLiquidity | null | undefined): RedemptionTerms {
+  return {
+    frequency: (shareClass?.redemption_frequency as RedemptionFrequency) || 'monthly',
+    noticeDays: shareClass?.redemption_notice_days ?? 30,
+    lockUpMonths: shareClass?.lock_up_months ?? 0,
+    holdbackPct: shareClass?.redemption_holdback_pct ?? 0,
+  };
+}
+
+export function isDealingDate(date: Date, frequency: RedemptionFrequency): boolean {
+  const end = monthEnd(date.getUTCFullYear(), date.getUTCMonth());
+  if (date.getUTCDate() !== end.getUTCDate()) return false;
+  return (date.getUTCMonth() + 1) % MONTHS_PER_PERIOD[frequency] === 0;
+}
+
+/**
+ * First dealing date (a period month-end) that still honours the notice period
+ * when a request is lodged on `from`.
+ */
+export function getNextDealingDate(frequency: RedemptionFrequency, from: Date, noticeDays = 0): Date {
+  const earliest = new Date(from.getTime() + noticeDays * DAY_MS);
+  let candidate = monthEnd(earliest.getUTCFullYear(), earliest.getUTCMonth());
+
+  while (!isDealingDate(candidate, frequency) || candidate < earliest) {
+    candidate = monthEnd(candidate.getUTCFullYear(), candidate.getUTCMonth() + 1);
+  }
+
+  return candidate;
+}
+
+export function reviewRedemptionRequest(input: RedemptionReviewInput): RedemptionReview {
+  const issues: string[] = [];
+  const { terms, dealingDate } = input;
+
+  if (!isDealingDate(dealingDate, terms.frequency)) {
+    issues.push(`${toDateString(dealingDate)} is not a ${terms.frequency.replace('_', '-')} dealing date`);
+  }
+
+  const noticeGiven = Math.floor((dealingDate.getTime() - input.requestDate.getTime()) / DAY_MS);
+  if (noticeGiven < terms.noticeDays) {
+    issues.push(`Notice period not met: ${noticeGiven} of ${terms.noticeDays} days given`);
+  }
+
+  if (input.inceptionDate && terms.lockUpMonths > 0) {
+    const lockUpEnd = new Date(Date.UTC(
+      input.inceptionDate.getUTCFullYear(),
+      input.inceptionDate.getUTCMonth() + terms.lockUpMonths,
+      input.inceptionDate.getUTCDate()
+    ));
+    if (lockUpEnd > dealingDate) {
+      issues.push(`Account is in lock-up until ${toDateString(lockUpEnd)}`);
+    }
+  }
+
+  if (input.requestedAmount > input.accountValue) {
+    issues.push('Requested amount exceeds current account value');
+  }
+
+  return { eligible: issues.length === 0, issues };
+}
+
+/**
+ * Scales every request by the same factor when the dealing date total exceeds
+ * the fund gate (gatePct of fund NAV). A null gate lets everything through.
+ */
+export function applyRedemptionGate(
+  requests: { id: string; amount: number }[],
+  fundNAV: number,
+  gatePct: number | null
+): GateResult {
+  const totalRequested = requests.reduce((sum, r) => sum + r.amount, 0);
+  const capacity = gatePct != null && gatePct > 0 ? fundNAV * (gatePct / 100) : null;
+  const scaleFactor = capacity != null && totalRequested > capacity ? capacity / totalRequested : 1;
+
+  const allocations = requests.map(r => {
+    const approved = Math.round(r.amount * scaleFactor * 100) / 100;
+    return { id: r.id, requested: r.amount, approved, gated: Math.max(0, r.amount - approved) };
+  });
+
+  return { capacity, totalRequested, scaleFactor, allocations };
+}
+
+export async function approveRedemptionRequest(requestId: string, approval: {
+  fundId: string;
+  capitalAccountId: string;
+  dealingDate: Date;
+  reviewedBy: string;
+  overriddenIssues?: string[];
+}) {
+  const { data, error } = await supabase
+    .from('redemption_requests')
+    .update({
+      status: 'approved',
+      fund_id: approval.fundId,
+      capital_account_id: approval.capitalAccountId,
+      dealing_date: toDateString(approval.dealingDate),
+      review_issues: approval.overriddenIssues || [],
+      reviewed_by: approval.reviewedBy,
+    })
+    .eq('id', requestId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function rejectRedemptionRequest(requestId: string, reason: string, reviewedBy: string) {
+  const { data, error } = await supabase
+    .from('redemption_requests')
+    .update({
+      status: 'rejected',
+      rejection_reason: reason,
+      reviewed_by: reviewedBy,
+      processed_date: new Date().toISOString(),
+    })
+    .eq('id', requestId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Prices all approved requests for a dealing date at the approved NAV and
+ * applies the fund gate pro-rata, then posts the whole dealing date through
+ * the `settle_redemptions` RPC: every redemption, account update and gated
+ * carry-forward lands in one transaction, and requests already settled are
+ * refused rather than posted twice. The RPC re-prices each request's shares
+ * at the approved NAV itself, so the amounts here are only the gate inputs.
+ */
+export async function settleRedemptions(params: {
+  fundId: string;
+  dealingDate: Date;
+  gatePct: number | null;
+  currency: string;
+  requests: SettlementRequest[];
+}) {
+  const dealingDateStr = toDateString(params.dealingDate);
+
+  const fundNAV: ApprovedNAV | null = await getLatestNAV(params.fundId);
+  if (params.gatePct && (!fundNAV || fundNAV.nav_date !== dealingDateStr)) {
+    throw new Error(`No approved fund-level NAV for ${dealingDateStr}; the gate cannot be applied`);
+  }
+
+  const classNAVs = new Map<string, ApprovedNAV>();
+  for (const request of params.requests) {
+    const key = request.shareClassId || '';
+    if (classNAVs.has(key)) continue;
+    const nav = (request.shareClassId && await getLatestNAV(params.fundId, request.shareClassId)) || fundNAV;
+    if (!nav || nav.nav_date !== dealingDateStr) {
+      throw new Error(`No approved NAV for ${dealingDateStr}; approve the dealing date NAV before settling`);
+    }
+    classNAVs.set(key, nav);
+  }
+
+  const { data: accounts, error: accountsError } = await supabase
+    .from('capital_accounts')
+    .select('id, shares_owned')
+    .in('id', params.requests.map(r => r.capitalAccountId));
+
+  if (accountsError) throw accountsError;
+  const sharesByAccount = new Map<string, number>((accounts || []).map((a: { id: string; shares_owned: number | null }) => [a.id, a.shares_owned || 0]));
+
+  const priced = params.requests.map(request => {
+    const nav = classNAVs.get(request.shareClassId || '')!;
+    const accountValue = (sharesByAccount.get(request.capitalAccountId) || 0) * nav.nav_per_share;
+    const amount = request.redemptionType === 'full' ? accountValue : Math.min(request.requestedAmount, accountValue);
+    return { request, nav, amount };
+  });
+
+  const gate = applyRedemptionGate(
+    priced.map(p => ({ id: p.request.id, amount: p.amount })),
+    fundNAV?.net_asset_value || 0,
+    params.gatePct
+  );
+
+  const dayAfter = new Date(params.dealingDate.getTime() + DAY_MS);
+  const results = priced.map(({ request, nav }) => {
+    const allocation = gate.allocations.find(a => a.id === request.id)!;
+    const shares = Math.min(
+      allocation.approved / nav.nav_per_share,
+      sharesByAccount.get(request.capitalAccountId) || 0
+    );
+    const holdbackAmount = Math.round(allocation.approved * (request.holdbackPct / 100) * 100) / 100;
+    return {
+      requestId: request.id,
+      ...allocation,
+      shares,
+      pricePerShare: nav.nav_per_share,
+      navCalculationId: nav.id,
+      holdbackAmount,
+      nextDealingDate: allocation.gated > 0 ? getNextDealingDate(request.frequency, dayAfter) : null,
+    };
+  });
+
+  const { error } = await supabase.rpc('settle_redemptions', {
+    p_fund_id: params.fundId,
+    p_dealing_date: dealingDateStr,
+    p_gate_scale_factor: gate.scaleFactor,
+    p_currency: params.currency,
+    p_allocations: results.map((r, i) => ({
+      request_id: r.requestId,
+      shares: r.shares,
+      gated_amount: r.gated,
+      holdback_pct: priced[i].request.holdbackPct,
+      next_dealing_date: r.nextDealingDate ? toDateString(r.nextDealingDate) : null,
+    })),
+  });
+
+  if (error) throw error;
+  return { gate, results };
+}
+
+export async function releaseHoldback(requestId: string, releasedBy: string) {
+  const { data: request, error: fetchError } = await supabase
+    .from('redemption_requests')
+    .select('holdback_amount, holdback_released_amount, settlement_amount')
+    .eq('id', requestId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const outstanding = (request.holdback_amount || 0) - (request.holdback_released_amount || 0);
+  if (outstanding <= 0) throw new Error('No holdback outstanding for this redemption');
+
+  const { data, error } = await supabase
+    .from('redemption_requests')
+    .update({
+      holdback_released_amount: request.holdback_amount,
+      holdback_released_at: new Date().toISOString(),
+      holdback_released_by: releasedBy,
+      settlement_amount: (request.settlement_amount || 0) + outstanding,
+    })
+    .eq('id', requestId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
@@ -1,11 +1,91 @@
 import { supabase } from './supabase';
 
+export type ComplianceStatus = 'compliant' | 'warning' | 'breach';
+
+export type IssuerType = 'corporate' | 'government' | 'fund' | 'cash';
+
+export type LiquidityBucket = '1d' | '2_7d' | '8_30d' | '31_90d' | '91_180d' | '181_365d' | 'over_365d';
+
+// AIFMD Annex IV portfolio liquidity buckets
+export const LIQUIDITY_BUCKETS: { id: LiquidityBucket; label: string; maxDays: number }[] = [
+  { id: '1d', label: '1 day or less', maxDays: 1 },
+  { id: '2_7d', label: '2-7 days', maxDays: 7 },
+  { id: '8_30d', label: '8-30 days', maxDays: 30 },
+  { id: '31_90d', label: '31-90 days', maxDays: 90 },
+  { id: '91_180d', label: '91-180 days', maxDays: 180 },
+  { id: '181_365d', label: '181-365 days', maxDays: 365 },
+  { id: 'over_365d', label: 'More than 365 days', maxDays: Infinity },
+];
+
+export interface PortfolioHolding {
+  identifier: string;
+  description: string;
+  category: string;
+  value: number;
+  exposure: number;
+  issuer: string;
+  issuerType: IssuerType;
+  liquidityBucket: LiquidityBucket;
+}
+
+export interface InvestorHolding {
+  investorId: string;
+  value: number;
+}
+
+export interface PortfolioSnapshot {
+  source: 'nav_calculation' | 'trust_positions' | 'none';
+  navCalculationId: string | null;
+  asOfDate: string | null;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalBorrowing: number;
+  shortExposure: number;
+  netAssetValue: number;
+  holdings: PortfolioHolding[];
+  investors: InvestorHolding[];
+}
+
+export interface IssuerExposure {
+  issuer: string;
+  issuerType: IssuerType;
+  value: number;
+  percentage: number;
+}
+
+export interface RuleLimit {
+  metric: string;
+  limit: number;
+  type: 'max' | 'min';
+}
+
+export interface RuleHeadroom extends RuleLimit {
+  value: number;
+  headroom: number;
+}
+
+export interface RuleCheckResult {
+  ruleId: string;
+  ruleCode: string;
+  ruleName: string;
+  ruleCategory: string;
+  severity: string;
+  status: ComplianceStatus;
+  passed: boolean;
+  message: string;
+  metrics: Record<string, unknown>;
+  limits: RuleLimit[];
+}
+
 export interface ComplianceCheckResult {
   passed: boolean;
-  status: 'compliant' | 'warning' | 'breach';
+  status: ComplianceStatus;
   metrics: Record<string, any>;
   violations: string[];
   warnings: string[];
+  ruleResults: RuleCheckResult[];
+  categoryStatus: Record<string, ComplianceStatus>;
+  snapshot: PortfolioSnapshot;
 }
 
 export interface RegulatoryRule {
@@ -19,10 +99,277 @@ export interface RegulatoryRule {
   breach_severity: string;
 }
 
+export interface IssuerMapping {
+  security_identifier: string;
+  issuer_name: string;
+  ultimate_issuer: string | null;
+  issuer_type: IssuerType;
+  liquidity_bucket: LiquidityBucket | null;
+}
+
+/** Issuer and liquidity hints a NAV line or simulated trade carries in its `metadata`. */
+interface HoldingMetadata {
+  symbol?: string;
+  notional?: number;
+  borrowing?: boolean;
+  issuer?: string;
+  ultimate_issuer?: string;
+  issuer_type?: IssuerType;
+  liquidity_bucket?: LiquidityBucket;
+}
+
+type RuleOutcome = { passed: boolean; message: string; metrics: Record<string, unknown>; limits?: RuleLimit[] };
+
+const BORROWING_CATEGORIES = ['Prime Broker Payable', 'Short Positions'];
+
+const STATUS_RANK: Record<ComplianceStatus, number> = { compliant: 0, warning: 1, breach: 2 };
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function pct(part: number, whole: number) {
+  return whole > 0 ? round2((part / whole) * 100) : 0;
+}
+
+function defaultIssuerType(category: string): IssuerType {
+  const c = category.toLowerCase();
+  if (c.includes('cash')) return 'cash';
+  if (c.includes('government') || c.includes('treasur')) return 'government';
+  if (c === 'fund') return 'fund';
+  return 'corporate';
+}
+
+/** Liquidity assumed for an asset class when neither the line nor a mapping says otherwise. */
+function defaultLiquidityBucket(category: string): LiquidityBucket {
+  const c = category.toLowerCase();
+  if (c.includes('cash')) return '1d';
+  if (c.includes('equit') || c.includes('derivative') || ['stk', 'opt', 'fut', 'fop', 'war', 'cfd'].includes(c)) return '2_7d';
+  if (c.includes('fixed income') || c === 'bond' || c.includes('government')) return '8_30d';
+  if (c.includes('receivable') || c === 'fund') return '31_90d';
+  return 'over_365d';
+}
+
+export function resolveHolding(
+  base: { identifier: string; description: string; category: string; value: number; exposure: number },
+  meta: HoldingMetadata,
+  mappings: Map<string, IssuerMapping>
+): PortfolioHolding {
+  const mapping = mappings.get(base.identifier.toLowerCase()) || mappings.get(base.description.toLowerCase());
+
+  return {
+    ...base,
+    issuer: meta.ultimate_issuer || meta.issuer || mapping?.ultimate_issuer || mapping?.issuer_name || base.identifier,
+    issuerType: meta.issuer_type || mapping?.issuer_type || defaultIssuerType(base.category),
+    liquidityBucket: meta.liquidity_bucket || mapping?.liquidity_bucket || defaultLiquidityBucket(base.category),
+  };
+}
+
+export async function loadIssuerMappings(tenantId: string): Promise<Map<string, IssuerMapping>> {
+  const { data, error } = await supabase
+    .from('security_issuer_mappings')
+    .select('security_identifier, issuer_name, ultimate_issuer, issuer_type, liquidity_bucket')
+    .eq('tenant_id', tenantId);
+
+  if (error) throw error;
+  return new Map(((data || []) as IssuerMapping[]).map(m => [m.security_identifier.toLowerCase(), m]));
+}
+
+/** Distance of each limited metric from its limit; negative when the limit is breached. */
+export function ruleHeadroom(result: Pick<RuleCheckResult, 'metrics' | 'limits'>): RuleHeadroom[] {
+  return result.limits.map(limit => {
+    const value = Number(result.metrics[limit.metric]) || 0;
+    const headroom = limit.type === 'max' ? limit.limit - value : value - limit.limit;
+    return { ...limit, value, headroom: Math.round(headroom * 10000) / 10000 };
+  });
+}
+
+/**
+ * Current portfolio of a fund for compliance testing. Holdings come from the
+ * line items of the latest approved NAV (every share class struck on that
+ * date); funds without one fall back to their linked trust account positions.
+ * Investor exposure is taken from active capital accounts at the latest NAV
+ * per share, or net contributed capital where no NAV exists. With `asOf`
+ * the latest NAV on or before that date is used instead; trust positions
+ * are always current.
+ */
+export async function loadPortfolioSnapshot(fundId: string, tenantId: string, asOf?: string): Promise<PortfolioSnapshot> {
+  let navQuery = supabase
+    .from('nav_calculations')
+    .select('id, share_class_id, nav_date, version, nav_per_share')
+    .eq('fund_id', fundId)
+    .eq('status', 'approved');
+  if (asOf) navQuery = navQuery.lte('nav_date', asOf);
+
+  const [fundResult, navResult, mappings, accountResult] = await Promise.all([
+    supabase.from('funds').select('id, trust_account_id').eq('id', fundId).single(),
+    navQuery
+      .order('nav_date', { ascending: false })
+      .order('version', { ascending: false })
+      .limit(50),
+    loadIssuerMappings(tenantId),
+    supabase
+      .from('capital_accounts')
+      .select('id, investor_id, share_class_id, shares_owned, capital_contributed, capital_returned')
+      .eq('fund_id', fundId)
+      .eq('status', 'active'),
+  ]);
+
+  if (fundResult.error) throw fundResult.error;
+  if (navResult.error) throw navResult.error;
+  if (accountResult.error) throw accountResult.error;
+
+  // Latest version per share class on the most recent approved NAV date
+  const navs = navResult.data || [];
+  const latestDate = navs[0]?.nav_date || null;
+  const latestNavs = new Map<string, { id: string; nav_per_share: number }>();
+  navs
+    .filter(n => n.nav_date === latestDate)
+    .forEach(n => {
+      const key = n.share_class_id || 'fund';
+      if (!latestNavs.has(key)) latestNavs.set(key, n);
+    });
+
+  const snapshot: PortfolioSnapshot = {
+    source: 'none',
+    navCalculationId: null,
+    asOfDate: latestDate,
+    totalAssets: 0,
+    totalLiabilities: 0,
+    totalBorrowing: 0,
+    shortExposure: 0,
+    netAssetValue: 0,
+    holdings: [],
+    investors: [],
+  };
+
+  if (latestNavs.size > 0) {
+    const navIds = Array.from(latestNavs.values()).map(n => n.id);
+    const { data: details, error } = await supabase
+      .from('nav_calculation_details')
+      .select('line_type, category, description, amount, base_currency_amount, metadata')
+      .in('nav_calculation_id', navIds);
+
+    if (error) throw error;
+
+    for (const line of details || []) {
+      const value = Number(line.base_currency_amount ?? line.amount) || 0;
+      const meta = (line.metadata || {}) as HoldingMetadata;
+
+      if (line.line_type === 'asset') {
+        snapshot.totalAssets += value;
+        snapshot.holdings.push(resolveHolding({
+          identifier: meta.symbol || line.description,
+          description: line.description,
+          category: line.category,
+          value,
+          exposure: Math.abs(Number(meta.notional) || value),
+        }, meta, mappings));
+      } else if (line.line_type === 'liability') {
+        snapshot.totalLiabilities += value;
+        if (BORROWING_CATEGORIES.includes(line.category) || meta.borrowing) snapshot.totalBorrowing += value;
+        if (line.category === 'Short Positions') snapshot.shortExposure += Math.abs(value);
+      }
+    }
+
+    snapshot.source = 'nav_calculation';
+    snapshot.navCalculationId = latestNavs.get('fund')?.id || navIds[0];
+  }
+
+  if (snapshot.holdings.length === 0 && fundResult.data?.trust_account_id) {
+    const { data: positions, error } = await supabase
+      .from('trust_positions')
+      .select('symbol, asset_class, quantity, market_value, last_updated')
+      .eq('trust_account_id', fundResult.data.trust_account_id);
+
+    if (error) throw error;
+
+    snapshot.totalAssets = 0;
+    snapshot.totalLiabilities = 0;
+    snapshot.totalBorrowing = 0;
+    snapshot.shortExposure = 0;
+
+    for (const position of positions || []) {
+      const value = Number(position.market_value) || 0;
+      if (value < 0) {
+        snapshot.totalLiabilities += -value;
+        snapshot.totalBorrowing += -value;
+        snapshot.shortExposure += -value;
+        continue;
+      }
+
+      snapshot.totalAssets += value;
+      snapshot.holdings.push(resolveHolding({
+        identifier: position.symbol,
+        description: position.symbol,
+        category: position.asset_class,
+        value,
+        exposure: value,
+      }, {}, mappings));
+    }
+
+    snapshot.source = snapshot.holdings.length > 0 ? 'trust_positions' : 'none';
+    snapshot.navCalculationId = null;
+    snapshot.asOfDate = (positions || []).reduce<string | null>(
+      (latest, p) => (!latest || p.last_updated > latest ? p.last_updated : latest),
+      null
+    )?.split('T')[0] || null;
+  }
+
+  snapshot.netAssetValue = snapshot.totalAssets - snapshot.totalLiabilities;
+
+  const byInvestor = new Map<string, number>();
+  for (const account of accountResult.data || []) {
+    const nav = latestNavs.get(account.share_class_id || 'fund') || latestNavs.get('fund');
+    const value = nav && account.shares_owned > 0
+      ? account.shares_owned * nav.nav_per_share
+      : (account.capital_contributed || 0) - (account.capital_returned || 0);
+    byInvestor.set(account.investor_id, (byInvestor.get(account.investor_id) || 0) + Math.max(0, value));
+  }
+  snapshot.investors = Array.from(byInvestor, ([investorId, value]) => ({ investorId, value }));
+
+  return snapshot;
+}
+
+/**
+ * Aggregates holdings by ultimate issuer, so positions in a parent and its
+ * subsidiaries (or several lines of the same security) count as one exposure.
+ * Percentages are of total assets.
+ */
+export function summariseIssuerExposure(snapshot: PortfolioSnapshot): IssuerExposure[] {
+  const byIssuer = new Map<string, IssuerExposure>();
+
+  for (const holding of snapshot.holdings) {
+    const key = holding.issuer.toLowerCase();
+    const existing = byIssuer.get(key);
+    if (existing) {
+      existing.value += holding.value;
+    } else {
+      byIssuer.set(key, { issuer: holding.issuer, issuerType: holding.issuerType, value: holding.value, percentage: 0 });
+    }
+  }
+
+  return Array.from(byIssuer.values())
+    .map(e => ({ ...e, value: round2(e.value), percentage: pct(e.value, snapshot.totalAssets) }))
+    .sort((a, b) => b.value - a.value);
+}
+
+export function summariseLiquidity(snapshot: PortfolioSnapshot): Record<LiquidityBucket, number> {
+  const buckets = Object.fromEntries(LIQUIDITY_BUCKETS.map(b => [b.id, 0])) as Record<LiquidityBucket, number>;
+  snapshot.holdings.forEach(h => {
+    buckets[h.liquidityBucket] += h.value;
+  });
+  LIQUIDITY_BUCKETS.forEach(b => {
+    buckets[b.id] = pct(buckets[b.id], snapshot.totalAssets);
+  });
+  return buckets;
+}
+
 export async function runComplianceCheck(
   fundId: string,
   frameworkId: string,
-  tenantId: string
+  tenantId: string,
+  snapshot?: PortfolioSnapshot
 ): Promise<ComplianceCheckResult> {
   const rules = await supabase
     .from('regulatory_rules_library')
@@ -34,27 +381,51 @@ export async function runComplianceCheck(
     throw new Error('Failed to load regulatory rules');
   }
 
-  let overallStatus: 'compliant' | 'warning' | 'breach' = 'compliant';
+  return evaluateComplianceRules(rules.data, snapshot || await loadPortfolioSnapshot(fundId, tenantId));
+}
+
+/** Tests a set of rules against a portfolio snapshot. */
+export function evaluateComplianceRules(rules: RegulatoryRule[], snapshot: PortfolioSnapshot): ComplianceCheckResult {
+  let overallStatus: ComplianceStatus = 'compliant';
   const violations: string[] = [];
   const warnings: string[] = [];
   const metrics: Record<string, any> = {};
+  const ruleResults: RuleCheckResult[] = [];
+  const categoryStatus: Record<string, ComplianceStatus> = {};
 
-  for (const rule of rules.data) {
-    const ruleResult = await checkIndividualRule(fundId, rule);
+  for (const rule of rules) {
+    const ruleResult = checkIndividualRule(snapshot, rule);
+    let status: ComplianceStatus = 'compliant';
 
     metrics[rule.rule_code] = ruleResult.metrics;
 
     if (!ruleResult.passed) {
       if (rule.breach_severity === 'critical' || rule.breach_severity === 'high') {
         violations.push(`${rule.rule_name}: ${ruleResult.message}`);
-        overallStatus = 'breach';
+        status = 'breach';
       } else {
         warnings.push(`${rule.rule_name}: ${ruleResult.message}`);
-        if (overallStatus === 'compliant') {
-          overallStatus = 'warning';
-        }
+        status = 'warning';
       }
     }
+
+    if (STATUS_RANK[status] > STATUS_RANK[overallStatus]) overallStatus = status;
+    if (STATUS_RANK[status] >= STATUS_RANK[categoryStatus[rule.rule_category] || 'compliant']) {
+      categoryStatus[rule.rule_category] = status;
+    }
+
+    ruleResults.push({
+      ruleId: rule.id,
+      ruleCode: rule.rule_code,
+      ruleName: rule.rule_name,
+      ruleCategory: rule.rule_category,
+      severity: rule.breach_severity,
+      status,
+      passed: ruleResult.passed,
+      message: ruleResult.message,
+      metrics: ruleResult.metrics,
+      limits: ruleResult.limits || [],
+    });
   }
 
   return {
@@ -62,78 +433,103 @@ export async function runComplianceCheck(
     status: overallStatus,
     metrics,
     violations,
-    warnings
+    warnings,
+    ruleResults,
+    categoryStatus,
+    snapshot,
   };
 }
 
-async function checkIndividualRule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
+const HOLDINGS_CATEGORIES = ['diversification', 'leverage', 'liquidity'];
+
+function checkIndividualRule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
+  if (HOLDINGS_CATEGORIES.includes(rule.rule_category) && snapshot.source === 'none') {
+    return { passed: false, message: 'No approved NAV or trust positions to test against', metrics: {} };
+  }
+
   switch (rule.rule_category) {
     case 'diversification':
-      return checkDiversificationRule(fundId, rule);
+      return checkDiversificationRule(snapshot, rule);
     case 'leverage':
-      return checkLeverageRule(fundId, rule);
+      return checkLeverageRule(snapshot, rule);
     case 'concentration':
-      return checkConcentrationRule(fundId, rule);
+      return checkConcentrationRule(snapshot, rule);
     case 'liquidity':
-      return checkLiquidityRule(fundId, rule);
+      return checkLiquidityRule(snapshot, rule);
     default:
       return { passed: true, message: 'Rule check not implemented', metrics: {} };
   }
 }
 
-async function checkDiversificationRule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
+function checkDiversificationRule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
   if (rule.rule_code === 'RIC_50_25_5') {
-    return checkRIC50_25_5Rule(fundId, rule);
+    return checkRIC50_25_5Rule(snapshot, rule);
   } else if (rule.rule_code === 'UCITS_5_10_40') {
-    return checkUCITS5_10_40Rule(fundId, rule);
+    return checkUCITS5_10_40Rule(snapshot, rule);
   }
 
   return { passed: true, message: 'Diversification rule not implemented', metrics: {} };
 }
 
-async function checkRIC50_25_5Rule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
+/**
+ * Cash and government securities always count towards the diversified half;
+ * other issuers count only while within the single-issuer limit. Issuers over
+ * the limit make up the concentrated basket.
+ */
+function checkRIC50_25_5Rule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
   const { max_single_issuer_pct = 5, max_concentrated_pct = 25, min_diversified_percentage = 50 } = rule.parameters;
 
+  const exposures = summariseIssuerExposure(snapshot);
+  const exempt = exposures.filter(e => e.issuerType === 'cash' || e.issuerType === 'government');
+  const tested = exposures.filter(e => e.issuerType !== 'cash' && e.issuerType !== 'government');
+  const concentrated = tested.filter(e => e.percentage > max_single_issuer_pct);
+
   const metrics = {
-    totalAssets: 1000000,
-    diversifiedPercentage: 60,
-    concentratedPercentage: 20,
-    largestSingleIssuer: 4.5
+    totalAssets: round2(snapshot.totalAssets),
+    diversifiedPercentage: round2(
+      exempt.reduce((sum, e) => sum + e.percentage, 0) +
+      tested.filter(e => e.percentage <= max_single_issuer_pct).reduce((sum, e) => sum + e.percentage, 0)
+    ),
+    concentratedPercentage: round2(concentrated.reduce((sum, e) => sum + e.percentage, 0)),
+    largestSingleIssuer: tested[0]?.percentage || 0,
+    largestIssuerName: tested[0]?.issuer || null,
+    issuerCount: tested.length,
+    concentratedIssuers: concentrated.map(e => ({ issuer: e.issuer, percentage: e.percentage })),
   };
 
   const passed = metrics.diversifiedPercentage >= min_diversified_percentage &&
-                 metrics.concentratedPercentage <= max_concentrated_pct &&
-                 metrics.largestSingleIssuer <= max_single_issuer_pct;
+                 metrics.concentratedPercentage <= max_concentrated_pct;
 
   const message = passed
     ? 'Fund meets RIC 50/25/5 diversification requirements'
     : `RIC diversification breach: ${metrics.diversifiedPercentage}% diversified (min ${min_diversified_percentage}%), ` +
       `${metrics.concentratedPercentage}% concentrated (max ${max_concentrated_pct}%), ` +
-      `${metrics.largestSingleIssuer}% largest position (max ${max_single_issuer_pct}%)`;
+      `${metrics.largestSingleIssuer}% largest position (${metrics.largestIssuerName})`;
 
-  return { passed, message, metrics };
+  return {
+    passed,
+    message,
+    metrics,
+    limits: [
+      { metric: 'diversifiedPercentage', limit: min_diversified_percentage, type: 'min' },
+      { metric: 'concentratedPercentage', limit: max_concentrated_pct, type: 'max' },
+    ],
+  };
 }
 
-async function checkUCITS5_10_40Rule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
+function checkUCITS5_10_40Rule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
   const { max_single_issuer = 10, concentration_threshold = 5, max_concentrated_total = 40 } = rule.parameters;
 
+  const tested = summariseIssuerExposure(snapshot).filter(e => e.issuerType !== 'cash' && e.issuerType !== 'government');
+  const aboveThreshold = tested.filter(e => e.percentage > concentration_threshold);
+
   const metrics = {
-    totalAssets: 1000000,
-    largestSingleIssuer: 9,
-    positionsAboveThreshold: 3,
-    concentratedTotal: 35
+    totalAssets: round2(snapshot.totalAssets),
+    largestSingleIssuer: tested[0]?.percentage || 0,
+    largestIssuerName: tested[0]?.issuer || null,
+    positionsAboveThreshold: aboveThreshold.length,
+    concentratedTotal: round2(aboveThreshold.reduce((sum, e) => sum + e.percentage, 0)),
+    concentratedIssuers: aboveThreshold.map(e => ({ issuer: e.issuer, percentage: e.percentage })),
   };
 
   const passed = metrics.largestSingleIssuer <= max_single_issuer &&
@@ -144,41 +540,54 @@ async function checkUCITS5_10_40Rule(
     : `UCITS diversification breach: Largest position ${metrics.largestSingleIssuer}% (max ${max_single_issuer}%), ` +
       `concentrated total ${metrics.concentratedTotal}% (max ${max_concentrated_total}%)`;
 
-  return { passed, message, metrics };
+  return {
+    passed,
+    message,
+    metrics,
+    limits: [
+      { metric: 'largestSingleIssuer', limit: max_single_issuer, type: 'max' },
+      { metric: 'concentratedTotal', limit: max_concentrated_total, type: 'max' },
+    ],
+  };
 }
 
-async function checkLeverageRule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
+/** Gross method: absolute exposure of every non-cash position, derivatives at notional, over NAV. */
+function checkLeverageRule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
   const { max_leverage_ratio = 2.0 } = rule.parameters;
 
+  const grossExposure = snapshot.holdings
+    .filter(h => h.issuerType !== 'cash')
+    .reduce((sum, h) => sum + h.exposure, 0) + snapshot.shortExposure;
+
   const metrics = {
-    totalAssets: 1000000,
-    totalBorrowing: 500000,
-    leverageRatio: 1.5,
-    netAssetValue: 1000000
+    totalAssets: round2(snapshot.totalAssets),
+    totalBorrowing: round2(snapshot.totalBorrowing),
+    grossExposure: round2(grossExposure),
+    leverageRatio: snapshot.netAssetValue > 0 ? Math.round((grossExposure / snapshot.netAssetValue) * 10000) / 10000 : 0,
+    netAssetValue: round2(snapshot.netAssetValue),
   };
 
-  const passed = metrics.leverageRatio <= max_leverage_ratio;
+  const passed = snapshot.netAssetValue > 0 && metrics.leverageRatio <= max_leverage_ratio;
 
   const message = passed
     ? `Leverage ratio ${metrics.leverageRatio.toFixed(2)}x within limit`
-    : `Leverage breach: ${metrics.leverageRatio.toFixed(2)}x exceeds maximum ${max_leverage_ratio.toFixed(2)}x`;
+    : snapshot.netAssetValue <= 0
+      ? 'Leverage breach: net asset value is not positive'
+      : `Leverage breach: ${metrics.leverageRatio.toFixed(2)}x exceeds maximum ${max_leverage_ratio.toFixed(2)}x`;
 
-  return { passed, message, metrics };
+  return { passed, message, metrics, limits: [{ metric: 'leverageRatio', limit: max_leverage_ratio, type: 'max' }] };
 }
 
-async function checkConcentrationRule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
+function checkConcentrationRule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
   const { max_investor_concentration = 25 } = rule.parameters;
 
+  const total = snapshot.investors.reduce((sum, i) => sum + i.value, 0);
+  const sorted = [...snapshot.investors].sort((a, b) => b.value - a.value);
+
   const metrics = {
-    totalInvestors: 50,
-    largestInvestorPercentage: 20,
-    top5InvestorsPercentage: 65
+    totalInvestors: sorted.length,
+    largestInvestorPercentage: pct(sorted[0]?.value || 0, total),
+    top5InvestorsPercentage: pct(sorted.slice(0, 5).reduce((sum, i) => sum + i.value, 0), total),
   };
 
   const passed = metrics.largestInvestorPercentage <= max_investor_concentration;
@@ -187,19 +596,29 @@ async function checkConcentrationRule(
     ? `Investor concentration ${metrics.largestInvestorPercentage}% within limit`
     : `Investor concentration breach: ${metrics.largestInvestorPercentage}% exceeds maximum ${max_investor_concentration}%`;
 
-  return { passed, message, metrics };
+  return {
+    passed,
+    message,
+    metrics,
+    limits: [{ metric: 'largestInvestorPercentage', limit: max_investor_concentration, type: 'max' }],
+  };
 }
 
-async function checkLiquidityRule(
-  fundId: string,
-  rule: RegulatoryRule
-): Promise<{ passed: boolean; message: string; metrics: any }> {
-  const { min_liquid_assets_pct = 10 } = rule.parameters;
+/** Assets that can be liquidated within `liquid_within_days` (default 7) count as liquid. */
+function checkLiquidityRule(snapshot: PortfolioSnapshot, rule: RegulatoryRule): RuleOutcome {
+  const { min_liquid_assets_pct = 10, liquid_within_days = 7 } = rule.parameters;
+
+  const buckets = summariseLiquidity(snapshot);
+  const liquidBuckets = LIQUIDITY_BUCKETS.filter(b => b.maxDays <= liquid_within_days).map(b => b.id);
+  const liquidAssets = snapshot.holdings
+    .filter(h => liquidBuckets.includes(h.liquidityBucket))
+    .reduce((sum, h) => sum + h.value, 0);
 
   const metrics = {
-    totalAssets: 1000000,
-    liquidAssets: 150000,
-    liquidityPercentage: 15
+    totalAssets: round2(snapshot.totalAssets),
+    liquidAssets: round2(liquidAssets),
+    liquidityPercentage: pct(liquidAssets, snapshot.totalAssets),
+    buckets,
   };
 
   const passed = metrics.liquidityPercentage >= min_liquid_assets_pct;
@@ -208,7 +627,12 @@ async function checkLiquidityRule(
     ? `Liquidity ${metrics.liquidityPercentage}% meets minimum requirement`
     : `Liquidity breach: ${metrics.liquidityPercentage}% below minimum ${min_liquid_assets_pct}%`;
 
-  return { passed, message, metrics };
+  return {
+    passed,
+    message,
+    metrics,
+    limits: [{ metric: 'liquidityPercentage', limit: min_liquid_assets_pct, type: 'min' }],
+  };
 }
 
 export async function aggregateComplianceRequirements(fundId: string): Promise<{
@@ -267,28 +691,121 @@ export async function createComplianceMonitoringRecord(
   frameworkId: string,
   tenantId: string,
   checkResult: ComplianceCheckResult
-): Promise<void> {
-  const breachDetails = checkResult.violations.map(v => ({ description: v, severity: 'high' }));
-  const remediationActions = checkResult.violations.map(v => ({
-    action: `Remediate: ${v}`,
-    priority: 'high',
-    deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+) {
+  const failed = checkResult.ruleResults.filter(r => !r.passed);
+  const breachDetails = failed.map(r => ({
+    rule: r.ruleCode,
+    description: `${r.ruleName}: ${r.message}`,
+    severity: r.severity,
+    status: r.status,
   }));
-
-  await supabase.from('compliance_monitoring').insert({
+  const remediationActions = failed
+    .filter(r => r.status === 'breach')
+    .map(r => ({
+      action: `Remediate: ${r.ruleName}: ${r.message}`,
+      rule: r.ruleCode,
+      priority: r.severity,
+      deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+    }));
+
+  const category = (name: string) => checkResult.categoryStatus[name] || 'compliant';
+  const metricsFor = (name: string) => Object.fromEntries(
+    checkResult.ruleResults.filter(r => r.ruleCategory === name).map(r => [r.ruleCode, r.metrics])
+  );
+
+  const { data: monitoring, error } = await supabase
+    .from('compliance_monitoring')
+    .insert({
+      tenant_id: tenantId,
+      fund_id: fundId,
+      framework_id: frameworkId,
+      monitoring_date: new Date().toISOString().split('T')[0],
+      overall_status: checkResult.status,
+      diversification_status: category('diversification'),
+      diversification_metrics: metricsFor('diversification'),
+      leverage_status: category('leverage'),
+      leverage_metrics: metricsFor('leverage'),
+      concentration_status: category('concentration'),
+      concentration_metrics: metricsFor('concentration'),
+      investor_qualification_status: category('investor_qualification'),
+      restriction_violations: checkResult.violations,
+      breach_details: breachDetails,
+      remediation_actions: remediationActions,
+      last_checked_at: new Date().toISOString(),
+      next_check_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      metadata: {
+        holdings_source: checkResult.snapshot.source,
+        nav_calculation_id: checkResult.snapshot.navCalculationId,
+        as_of_date: checkResult.snapshot.asOfDate,
+        liquidity_status: category('liquidity'),
+        liquidity_metrics: metricsFor('liquidity'),
+      },
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: runError } = await supabase.from('compliance_check_runs').insert({
     tenant_id: tenantId,
     fund_id: fundId,
     framework_id: frameworkId,
-    monitoring_date: new Date().toISOString().split('T')[0],
+    compliance_monitoring_id: monitoring.id,
     overall_status: checkResult.status,
-    diversification_status: checkResult.status,
-    leverage_status: checkResult.status,
-    concentration_status: checkResult.status,
-    investor_qualification_status: 'compliant',
-    restriction_violations: checkResult.violations,
-    breach_details: breachDetails,
-    remediation_actions: remediationActions,
-    last_checked_at: new Date().toISOString(),
-    next_check_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+    holdings_source: checkResult.snapshot.source,
+    nav_calculation_id: checkResult.snapshot.navCalculationId,
+    as_of_date: checkResult.snapshot.asOfDate,
+    total_assets: round2(checkResult.snapshot.totalAssets),
+    net_asset_value: round2(checkResult.snapshot.netAssetValue),
+    rule_results: checkResult.ruleResults.map(r => ({
+      rule_code: r.ruleCode,
+      rule_name: r.ruleName,
+      rule_category: r.ruleCategory,
+      severity: r.severity,
+      status: r.status,
+      message: r.message,
+      metrics: r.metrics,
+    })),
+    violations: checkResult.violations,
+    warnings: checkResult.warnings,
   });
+
+  if (runError) throw runError;
+  return monitoring;
+}
+
+/**
+ * Checks a fund against every framework it is mapped to, recording a
+ * monitoring record and a history row per framework.
+ */
+export async function runFundComplianceChecks(fundId: string, tenantId: string) {
+  const { data: mappings, error } = await supabase
+    .from('regulatory_framework_fund_mappings')
+    .select('framework_id')
+    .eq('fund_id', fundId);
+
+  if (error) throw error;
+
+  const snapshot = await loadPortfolioSnapshot(fundId, tenantId);
+  const results: { frameworkId: string; result: ComplianceCheckResult }[] = [];
+
+  for (const mapping of mappings || []) {
+    const result = await runComplianceCheck(fundId, mapping.framework_id, tenantId, snapshot);
+    await createComplianceMonitoringRecord(fundId, mapping.framework_id, tenantId, result);
+    results.push({ frameworkId: mapping.framework_id, result });
+  }
+
+  return results;
+}
+
+export async function getComplianceRunHistory(fundId: string, limit = 60) {
+  const { data, error } = await supabase
+    .from('compliance_check_runs')
+    .select('*')
+    .eq('fund_id', fundId)
+    .order('run_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
 }
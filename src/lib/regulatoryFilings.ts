@@ -0,0 +1,463 @@
+import { supabase } from './supabase';
+import { findExchangeRate } from './fxRevaluation';
+import { getNAVHistory } from './navCalculation';
+import {
+  LIQUIDITY_BUCKETS,
+  loadPortfolioSnapshot,
+  summariseIssuerExposure,
+  summariseLiquidity,
+  type IssuerExposure,
+  type LiquidityBucket,
+  type PortfolioSnapshot,
+} from './regulatoryCompliance';
+import {
+  filingDefinition,
+  frequencyLabel,
+  syncFilingCalendar,
+  type FilingStatus,
+  type FilingTemplate,
+} from './filingCalendar';
+import { saveReportFile } from './reportLibrary';
+
+/**
+ * Regulatory filing drafts. Each calendar entry can be assembled into a
+ * draft pre-filled from the fund's approved NAV at the period end and its
+ * capital accounts; compliance reviews the draft, exports it as CSV or XML
+ * for the regulator's portal and records the submission reference here.
+ * Figures the platform cannot know are listed in `reviewItems`.
+ */
+
+export interface FilingDraft {
+  reportType: string;
+  reportName: string;
+  template: FilingTemplate;
+  frameworkCode: string;
+  fund: {
+    id: string;
+    name: string;
+    code: string;
+    baseCurrency: string;
+    registrationNumber: string | null;
+    lei: string | null;
+  };
+  period: { start: string; end: string; frequency: string };
+  asOfDate: string | null;
+  holdingsSource: PortfolioSnapshot['source'];
+  assets: {
+    grossAssetValue: number;
+    netAssetValue: number;
+    totalBorrowing: number;
+    shortExposure: number;
+    eurRate: number | null;
+    netAssetValueEur: number | null;
+  };
+  leverage: { grossExposure: number; grossMethodRatio: number; borrowingToNav: number };
+  investors: { count: number; largestPct: number; top5Pct: number };
+  liquidity: Record<LiquidityBucket, number>;
+  topExposures: IssuerExposure[];
+  navHistory: { date: string; netAssetValue: number; navPerShare: number; returnPct: number | null }[];
+  reviewItems: string[];
+  assembledAt: string;
+}
+
+export interface FilingCalendarEntry {
+  id: string;
+  tenant_id: string;
+  fund_id: string;
+  framework_id: string;
+  mapping_id: string | null;
+  report_type: string;
+  report_name: string;
+  reporting_frequency: string;
+  due_date: string;
+  report_period_start: string | null;
+  report_period_end: string | null;
+  filing_status: FilingStatus;
+  submission_date: string | null;
+  submission_reference: string | null;
+  priority: string;
+  template_used: string | null;
+  notes: string | null;
+  draft_data: FilingDraft | null;
+  draft_generated_at: string | null;
+  reminders_sent: number[];
+  funds?: { fund_code: string; fund_name: string } | null;
+  regulatory_frameworks?: { framework_code: string; framework_name: string } | null;
+}
+
+export type FilingExportFormat = 'csv' | 'xml';
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function pct(part: number, whole: number) {
+  return whole > 0 ? round2((part / whole) * 100) : 0;
+}
+
+export async function fetchFilingCalendar(tenantId: string): Promise<FilingCalendarEntry[]> {
+  const { data, error } = await supabase
+    .from('regulatory_reporting_calendar')
+    .select('*, funds(fund_code, fund_name), regulatory_frameworks(framework_code, framework_name)')
+    .eq('tenant_id', tenantId)
+    .order('due_date', { ascending: true });
+  if (error) throw error;
+  return (data || []) as FilingCalendarEntry[];
+}
+
+/** Regenerates the tenant's calendar now rather than waiting for the daily worker run. */
+export async function generateFilingCalendar(tenantId: string): Promise<number> {
+  return syncFilingCalendar(supabase, tenantId);
+}
+
+/** Approved fund-level NAVs in the period, latest version per date, with period-on-period returns. */
+async function loadNavHistory(fundId: string, start: string, end: string) {
+  const navs = await getNAVHistory(fundId, undefined, new Date(`${start}T00:00:00Z`), new Date(`${end}T00:00:00Z`));
+  const byDate = new Map<string, (typeof navs)[number]>();
+  for (const nav of navs) {
+    const existing = byDate.get(nav.nav_date);
+    if (!existing || nav.version > existing.version) byDate.set(nav.nav_date, nav);
+  }
+
+  let previous: number | null = null;
+  return Array.from(byDate.values()).map((nav) => {
+    const navPerShare = Number(nav.nav_per_share) || 0;
+    const returnPct: number | null = previous && navPerShare ? round2(((navPerShare - previous) / previous) * 100) : null;
+    previous = navPerShare || previous;
+    return { date: nav.nav_date as string, netAssetValue: round2(Number(nav.net_asset_value) || 0), navPerShare, returnPct };
+  });
+}
+
+/**
+ * Assembles the draft for a calendar entry from the fund's portfolio as of
+ * the period end and stores it on the entry, moving a pending filing to in
+ * progress. Reassembling replaces the previous draft.
+ */
+export async function assembleFilingDraft(entry: FilingCalendarEntry, userId: string | undefined): Promise<FilingDraft> {
+  const periodEnd = entry.report_period_end || entry.due_date;
+  const periodStart = entry.report_period_start || periodEnd;
+
+  const [fundResult, mappingResult, frameworkResult] = await Promise.all([
+    supabase.from('funds').select('id, fund_code, fund_name, base_currency').eq('id', entry.fund_id).single(),
+    supabase
+      .from('regulatory_framework_fund_mappings')
+      .select('registration_number, metadata')
+      .eq('fund_id', entry.fund_id)
+      .eq('framework_id', entry.framework_id)
+      .maybeSingle(),
+    supabase.from('regulatory_frameworks').select('framework_code').eq('id', entry.framework_id).single(),
+  ]);
+  if (fundResult.error) throw fundResult.error;
+  if (mappingResult.error) throw mappingResult.error;
+  if (frameworkResult.error) throw frameworkResult.error;
+
+  const fund = fundResult.data;
+  const mapping = mappingResult.data;
+  const template = (entry.template_used as FilingTemplate) || filingDefinition(entry.report_type)?.template || 'generic';
+  const baseCurrency = fund.base_currency || 'USD';
+
+  const [snapshot, navHistory] = await Promise.all([
+    loadPortfolioSnapshot(entry.fund_id, entry.tenant_id, periodEnd),
+    loadNavHistory(entry.fund_id, periodStart, periodEnd),
+  ]);
+
+  const reviewItems: string[] = [];
+
+  // Annex IV reports AuM in euro at the period-end reference rate
+  let eurRate: number | null = null;
+  if (template === 'annex_iv') {
+    const rate = await findExchangeRate(baseCurrency, 'EUR', new Date(`${periodEnd}T00:00:00Z`));
+    eurRate = rate?.rate ?? null;
+    if (!rate) reviewItems.push(`No ${baseCurrency}/EUR rate on file for ${periodEnd}; enter the ECB reference rate.`);
+    reviewItems.push('Commitment method leverage is not calculated; enter it from the risk system.');
+  }
+
+  if (snapshot.source === 'none') {
+    reviewItems.push(`No approved NAV on or before ${periodEnd}; asset, leverage and liquidity figures are empty.`);
+  } else if (snapshot.source === 'trust_positions') {
+    reviewItems.push('Holdings come from current trust positions, not an approved NAV at the period end.');
+  } else if (snapshot.asOfDate && snapshot.asOfDate < periodEnd) {
+    reviewItems.push(`Latest approved NAV is dated ${snapshot.asOfDate}, before the period end.`);
+  }
+  if (!mapping?.registration_number) reviewItems.push('Registration number is missing from the framework mapping.');
+  if (!mapping?.metadata?.lei) reviewItems.push('Legal Entity Identifier is missing; add `lei` to the framework mapping.');
+
+  const grossExposure = snapshot.holdings
+    .filter((h) => h.issuerType !== 'cash')
+    .reduce((sum, h) => sum + h.exposure, 0) + snapshot.shortExposure;
+
+  const investorTotal = snapshot.investors.reduce((sum, i) => sum + i.value, 0);
+  const investors = [...snapshot.investors].sort((a, b) => b.value - a.value);
+
+  const draft: FilingDraft = {
+    reportType: entry.report_type,
+    reportName: entry.report_name,
+    template,
+    frameworkCode: frameworkResult.data.framework_code,
+    fund: {
+      id: fund.id,
+      name: fund.fund_name,
+      code: fund.fund_code,
+      baseCurrency,
+      registrationNumber: mapping?.registration_number || null,
+      lei: mapping?.metadata?.lei || null,
+    },
+    period: { start: periodStart, end: periodEnd, frequency: entry.reporting_frequency },
+    asOfDate: snapshot.asOfDate,
+    holdingsSource: snapshot.source,
+    assets: {
+      grossAssetValue: round2(snapshot.totalAssets),
+      netAssetValue: round2(snapshot.netAssetValue),
+      totalBorrowing: round2(snapshot.totalBorrowing),
+      shortExposure: round2(snapshot.shortExposure),
+      eurRate,
+      netAssetValueEur: eurRate !== null ? round2(snapshot.netAssetValue * eurRate) : null,
+    },
+    leverage: {
+      grossExposure: round2(grossExposure),
+      grossMethodRatio: snapshot.netAssetValue > 0 ? Math.round((grossExposure / snapshot.netAssetValue) * 10000) / 10000 : 0,
+      borrowingToNav: pct(snapshot.totalBorrowing, snapshot.netAssetValue),
+    },
+    investors: {
+      count: investors.length,
+      largestPct: pct(investors[0]?.value || 0, investorTotal),
+      top5Pct: pct(investors.slice(0, 5).reduce((sum, i) => sum + i.value, 0), investorTotal),
+    },
+    liquidity: summariseLiquidity(snapshot),
+    topExposures: summariseIssuerExposure(snapshot).slice(0, 10),
+    navHistory,
+    reviewItems,
+    assembledAt: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('regulatory_reporting_calendar')
+    .update({
+      draft_data: draft,
+      draft_generated_at: draft.assembledAt,
+      draft_generated_by: userId || null,
+      filing_status: entry.filing_status === 'pending' ? 'in_progress' : entry.filing_status,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', entry.id);
+  if (error) throw error;
+
+  return draft;
+}
+
+export async function updateFilingStatus(
+  entry: FilingCalendarEntry,
+  update: { status: FilingStatus; reference?: string; notes?: string },
+  userId: string | undefined,
+) {
+  const submitted = update.status === 'submitted' && entry.filing_status !== 'submitted';
+  const { error } = await supabase
+    .from('regulatory_reporting_calendar')
+    .update({
+      filing_status: update.status,
+      submission_reference: update.reference?.trim() || entry.submission_reference,
+      notes: update.notes !== undefined ? update.notes.trim() || null : entry.notes,
+      ...(submitted ? { submission_date: new Date().toISOString(), submitted_by: userId || null } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', entry.id);
+  if (error) throw error;
+}
+
+export interface FilingDraftRow {
+  section: string;
+  field: string;
+  label: string;
+  value: string | number | null;
+}
+
+/** The draft flattened to section/field/value rows; the CSV export and generic XML are built from these. */
+export function filingDraftRows(draft: FilingDraft): FilingDraftRow[] {
+  const rows: FilingDraftRow[] = [
+    { section: 'Filing', field: 'report_type', label: 'Filing', value: draft.reportName },
+    { section: 'Filing', field: 'framework', label: 'Framework', value: draft.frameworkCode },
+    { section: 'Filing', field: 'period_start', label: 'Reporting period start', value: draft.period.start },
+    { section: 'Filing', field: 'period_end', label: 'Reporting period end', value: draft.period.end },
+    { section: 'Filing', field: 'frequency', label: 'Reporting frequency', value: frequencyLabel(draft.period.frequency) },
+    { section: 'Filing', field: 'as_of_date', label: 'Holdings as of', value: draft.asOfDate },
+    { section: 'Filing', field: 'holdings_source', label: 'Holdings source', value: draft.holdingsSource },
+    { section: 'Fund', field: 'fund_name', label: 'Fund name', value: draft.fund.name },
+    { section: 'Fund', field: 'fund_code', label: 'Fund code', value: draft.fund.code },
+    { section: 'Fund', field: 'registration_number', label: 'Registration number', value: draft.fund.registrationNumber },
+    { section: 'Fund', field: 'lei', label: 'LEI', value: draft.fund.lei },
+    { section: 'Fund', field: 'base_currency', label: 'Base currency', value: draft.fund.baseCurrency },
+    { section: 'Assets', field: 'gross_asset_value', label: 'Gross asset value', value: draft.assets.grossAssetValue },
+    { section: 'Assets', field: 'net_asset_value', label: 'Net asset value (AUM)', value: draft.assets.netAssetValue },
+    { section: 'Assets', field: 'total_borrowing', label: 'Borrowings', value: draft.assets.totalBorrowing },
+    { section: 'Assets', field: 'short_exposure', label: 'Short exposure', value: draft.assets.shortExposure },
+  ];
+
+  if (draft.template === 'annex_iv') {
+    rows.push(
+      { section: 'Assets', field: 'eur_rate', label: `${draft.fund.baseCurrency}/EUR rate`, value: draft.assets.eurRate },
+      { section: 'Assets', field: 'net_asset_value_eur', label: 'Net asset value (EUR)', value: draft.assets.netAssetValueEur },
+    );
+  }
+
+  rows.push(
+    { section: 'Leverage', field: 'gross_exposure', label: 'Gross exposure', value: draft.leverage.grossExposure },
+    { section: 'Leverage', field: 'gross_method_ratio', label: 'Gross method leverage (x)', value: draft.leverage.grossMethodRatio },
+    { section: 'Leverage', field: 'borrowing_to_nav_pct', label: 'Borrowings to NAV (%)', value: draft.leverage.borrowingToNav },
+    { section: 'Investors', field: 'investor_count', label: 'Beneficial owners', value: draft.investors.count },
+    { section: 'Investors', field: 'largest_investor_pct', label: 'Largest beneficial owner (%)', value: draft.investors.largestPct },
+    { section: 'Investors', field: 'top5_investors_pct', label: 'Five largest beneficial owners (%)', value: draft.investors.top5Pct },
+    ...LIQUIDITY_BUCKETS.map((bucket) => ({
+      section: 'Portfolio liquidity',
+      field: `liquidity_${bucket.id}`,
+      label: `${bucket.label} (%)`,
+      value: draft.liquidity[bucket.id] ?? 0,
+    })),
+    ...draft.topExposures.map((exposure, i) => ({
+      section: 'Principal exposures',
+      field: `exposure_${i + 1}`,
+      label: `${exposure.issuer} (${exposure.issuerType}) (%)`,
+      value: exposure.percentage,
+    })),
+    ...draft.navHistory.flatMap((nav) => [
+      { section: 'Performance', field: `nav_${nav.date}`, label: `NAV ${nav.date}`, value: nav.netAssetValue },
+      { section: 'Performance', field: `return_${nav.date}`, label: `Return to ${nav.date} (%)`, value: nav.returnPct },
+    ]),
+    ...draft.reviewItems.map((item, i) => ({ section: 'Review', field: `review_${i + 1}`, label: 'To complete', value: item })),
+  );
+
+  return rows;
+}
+
+function csvCell(value: string | number | null) {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function filingDraftCsv(draft: FilingDraft): string {
+  const lines = [['Section', 'Field', 'Label', 'Value'], ...filingDraftRows(draft).map((r) => [r.section, r.field, r.label, r.value])];
+  return lines.map((line) => line.map(csvCell).join(',')).join('\r\n');
+}
+
+function escapeXml(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function element(name: string, value: string | number | null | undefined, indent: string): string {
+  return value === null || value === undefined || value === '' ? '' : `${indent}<${name}>${escapeXml(value)}</${name}>\n`;
+}
+
+/** ESMA reporting period code: Q1-Q4, H1-H2 or Y1. */
+function annexIvPeriodType(draft: FilingDraft): string {
+  const month = Number(draft.period.end.slice(5, 7));
+  if (draft.period.frequency === 'quarterly') return `Q${Math.ceil(month / 3)}`;
+  if (draft.period.frequency === 'semi_annual') return month <= 6 ? 'H1' : 'H2';
+  return 'Y1';
+}
+
+const ANNEX_IV_LIQUIDITY: Record<LiquidityBucket, string> = {
+  '1d': 'PortfolioLiquidityInDays0to1Rate',
+  '2_7d': 'PortfolioLiquidityInDays2to7Rate',
+  '8_30d': 'PortfolioLiquidityInDays8to30Rate',
+  '31_90d': 'PortfolioLiquidityInDays31to90Rate',
+  '91_180d': 'PortfolioLiquidityInDays91to180Rate',
+  '181_365d': 'PortfolioLiquidityInDays181to365Rate',
+  over_365d: 'PortfolioLiquidityInDaysMoreThan365Rate',
+};
+
+/**
+ * Annex IV draft laid out after ESMA's AIF reporting schema, limited to the
+ * fields assembled here. It is a starting point for the regulator's XML,
+ * not a validated submission.
+ */
+function annexIvXml(draft: FilingDraft): string {
+  const i4 = '        ';
+  const i5 = `${i4}  `;
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<AIFReportingInfo CreationDateAndTime="${escapeXml(draft.assembledAt.replace(/\.\d{3}Z$/, ''))}" Version="1.2">\n`
+    + '  <AIFRecordInfo>\n'
+    + '    <FilingType>INIT</FilingType>\n'
+    + element('ReportingPeriodStartDate', draft.period.start, '    ')
+    + element('ReportingPeriodEndDate', draft.period.end, '    ')
+    + element('ReportingPeriodType', annexIvPeriodType(draft), '    ')
+    + element('ReportingPeriodYear', draft.period.end.slice(0, 4), '    ')
+    + element('AIFNationalCode', draft.fund.registrationNumber, '    ')
+    + element('AIFName', draft.fund.name, '    ')
+    + '    <AIFCompleteDescription>\n'
+    + '      <AIFPrincipalInfo>\n'
+    + '        <AIFIdentification>\n'
+    + element('AIFIdentifierLEI', draft.fund.lei, i5)
+    + '        </AIFIdentification>\n'
+    + '        <AIFBaseCurrencyDescription>\n'
+    + element('BaseCurrency', draft.fund.baseCurrency, i5)
+    + element('AUMAmountInBaseCurrency', Math.round(draft.assets.netAssetValue), i5)
+    + element('FXEUROReferenceRateType', draft.assets.eurRate !== null ? 'ECB' : null, i5)
+    + element('FXEURORate', draft.assets.eurRate, i5)
+    + '        </AIFBaseCurrencyDescription>\n'
+    + element('AUMAmountInEuro', draft.assets.netAssetValueEur !== null ? Math.round(draft.assets.netAssetValueEur) : null, i4)
+    + element('AIFNetAssetValue', Math.round(draft.assets.netAssetValue), i4)
+    + '        <MainInstrumentsTraded>\n'
+    + draft.topExposures.slice(0, 5).map((exposure, i) =>
+      `${i5}<MainInstrumentTraded>\n`
+      + element('Ranking', i + 1, `${i5}  `)
+      + element('InstrumentName', exposure.issuer, `${i5}  `)
+      + element('PositionValue', Math.round(exposure.value), `${i5}  `)
+      + `${i5}</MainInstrumentTraded>\n`).join('')
+    + '        </MainInstrumentsTraded>\n'
+    + '        <InvestorConcentration>\n'
+    + element('MainBeneficialOwnersRate', draft.investors.top5Pct, i5)
+    + '        </InvestorConcentration>\n'
+    + '      </AIFPrincipalInfo>\n'
+    + '      <AIFIndividualInfo>\n'
+    + '        <RiskProfile>\n'
+    + '          <LiquidityRiskProfile>\n'
+    + '            <PortfolioLiquidityProfile>\n'
+    + LIQUIDITY_BUCKETS.map((bucket) => element(ANNEX_IV_LIQUIDITY[bucket.id], draft.liquidity[bucket.id] ?? 0, '              ')).join('')
+    + '            </PortfolioLiquidityProfile>\n'
+    + '          </LiquidityRiskProfile>\n'
+    + '        </RiskProfile>\n'
+    + '        <Leverage>\n'
+    + '          <AIFLeverageArticle24-2>\n'
+    + element('GrossMethodRate', round2(draft.leverage.grossMethodRatio * 100), '            ')
+    + '          </AIFLeverageArticle24-2>\n'
+    + '        </Leverage>\n'
+    + '      </AIFIndividualInfo>\n'
+    + '    </AIFCompleteDescription>\n'
+    + '  </AIFRecordInfo>\n'
+    + '</AIFReportingInfo>\n';
+}
+
+/** Form PF and the other filings: the draft rows grouped by section. */
+function genericXml(draft: FilingDraft): string {
+  const sections = new Map<string, FilingDraftRow[]>();
+  for (const row of filingDraftRows(draft)) {
+    sections.set(row.section, [...(sections.get(row.section) || []), row]);
+  }
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<FilingDraft reportType="${escapeXml(draft.reportType)}" framework="${escapeXml(draft.frameworkCode)}" assembledAt="${escapeXml(draft.assembledAt)}">\n`
+    + Array.from(sections, ([section, rows]) =>
+      `  <Section name="${escapeXml(section)}">\n`
+      + rows.map((row) => `    <Field key="${escapeXml(row.field)}" label="${escapeXml(row.label)}">${escapeXml(row.value)}</Field>\n`).join('')
+      + '  </Section>\n').join('')
+    + '</FilingDraft>\n';
+}
+
+export function filingDraftXml(draft: FilingDraft): string {
+  return draft.template === 'annex_iv' ? annexIvXml(draft) : genericXml(draft);
+}
+
+export function exportFilingDraft(entry: FilingCalendarEntry, format: FilingExportFormat) {
+  if (!entry.draft_data) throw new Error('Assemble the draft before exporting it.');
+  const draft = entry.draft_data;
+  const stem = `${draft.reportType}-${draft.fund.code}-${draft.period.end}`.toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+  const text = format === 'xml' ? filingDraftXml(draft) : `\uFEFF${filingDraftCsv(draft)}`;
+  saveReportFile({
+    bytes: new TextEncoder().encode(text),
+    contentType: format === 'xml' ? 'application/xml' : 'text/csv',
+    filename: `${stem}-draft.${format}`,
+  });
+}
@@ -1,4 +1,12 @@
-import { supabase } from './supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Builds structured report content and records it in `reports`. Takes the
+ * Supabase client as a parameter, and imports nothing but types, so the same
+ * code runs in the app and in the report-schedule-worker Edge Function.
+ */
+
+export type ReportClient = SupabaseClient;
 
 export interface ReportParams {
   reportType: string;
@@ -25,12 +33,18 @@ export interface ReportSection {
   data: any;
 }
 
-export async function generateReport(params: ReportParams): Promise<{ reportId: string | null; error: string | null }> {
+export interface GenerateReportResult {
+  reportId: string | null;
+  content: GeneratedReportContent | null;
+  error: string | null;
+}
+
+export async function generateReport(params: ReportParams, client: ReportClient): Promise<GenerateReportResult> {
   try {
-    const content = await buildReportContent(params);
-    if (!content) return { reportId: null, error: 'Failed to generate report data' };
+    const content = await buildReportContent(params, client);
+    if (!content) return { reportId: null, content: null, error: 'Failed to generate report data' };
 
-    const { data, error } = await supabase
+    const { data, error } = await client
       .from('reports')
       .insert({
         tenant_id: params.tenantId,
@@ -51,34 +65,34 @@ export async function generateReport(params: ReportParams): Promise<{ reportId:
       .select('id')
       .maybeSingle();
 
-    if (error) return { reportId: null, error: error.message };
-    return { reportId: data?.id || null, error: null };
+    if (error) return { reportId: null, content, error: error.message };
+    return { reportId: data?.id || null, content, error: null };
   } catch (err: any) {
-    return { reportId: null, error: err.message };
+    return { reportId: null, content: null, error: err.message };
   }
 }
 
-async function buildReportContent(params: ReportParams): Promise<GeneratedReportContent | null> {
+async function buildReportContent(params: ReportParams, client: ReportClient): Promise<GeneratedReportContent | null> {
   const sections: ReportSection[] = [];
   const summary: Record<string, number | string> = {};
 
   switch (params.reportType) {
     case 'investor_statement':
-      return await buildInvestorStatement(params);
+      return await buildInvestorStatement(params, client);
     case 'performance_report':
-      return await buildPerformanceReport(params);
+      return await buildPerformanceReport(params, client);
     case 'fee_report':
-      return await buildFeeReport(params);
+      return await buildFeeReport(params, client);
     case 'transaction_report':
-      return await buildTransactionReport(params);
+      return await buildTransactionReport(params, client);
     case 'capital_account_report':
-      return await buildCapitalAccountReport(params);
+      return await buildCapitalAccountReport(params, client);
     default:
       return await buildCustomReport(params);
   }
 }
 
-async function buildInvestorStatement(params: ReportParams): Promise<GeneratedReportContent> {
+async function buildInvestorStatement(params: ReportParams, client: ReportClient): Promise<GeneratedReportContent> {
   const sections: ReportSection[] = [];
   const summary: Record<string, number | string> = {};
 
@@ -86,7 +100,7 @@ async function buildInvestorStatement(params: ReportParams): Promise<GeneratedRe
     ? params.capitalAccountIds
     : undefined;
 
-  let accountsQuery = supabase
+  let accountsQuery = client
     .from('capital_accounts')
     .select('*, fund:funds(fund_code, fund_name, base_currency), investor:client_profiles!investor_id(full_name, email)')
     .eq('tenant_id', params.tenantId);
@@ -103,7 +117,7 @@ async function buildInvestorStatement(params: ReportParams): Promise<GeneratedRe
   let transactions: any[] = [];
 
   if (accountIds.length > 0) {
-    const { data: txns } = await supabase
+    const { data: txns } = await client
       .from('capital_transactions')
       .select('*')
       .in('capital_account_id', accountIds)
@@ -161,11 +175,11 @@ async function buildInvestorStatement(params: ReportParams): Promise<GeneratedRe
   };
 }
 
-async function buildPerformanceReport(params: ReportParams): Promise<GeneratedReportContent> {
+async function buildPerformanceReport(params: ReportParams, client: ReportClient): Promise<GeneratedReportContent> {
   const sections: ReportSection[] = [];
   const summary: Record<string, number | string> = {};
 
-  let navQuery = supabase
+  let navQuery = client
     .from('nav_records')
     .select('*, fund:funds(fund_code, fund_name)')
     .eq('tenant_id', params.tenantId)
@@ -179,7 +193,7 @@ async function buildPerformanceReport(params: ReportParams): Promise<GeneratedRe
 
   const { data: navRecords } = await navQuery;
 
-  const { data: txns } = await supabase
+  const { data: txns } = await client
     .from('capital_transactions')
     .select('*')
     .eq('tenant_id', params.tenantId)
@@ -228,10 +242,10 @@ async function buildPerformanceReport(params: ReportParams): Promise<GeneratedRe
   };
 }
 
-async function buildFeeReport(params: ReportParams): Promise<GeneratedReportContent> {
+async function buildFeeReport(params: ReportParams, client: ReportClient): Promise<GeneratedReportContent> {
   const sections: ReportSection[] = [];
 
-  let query = supabase
+  let query = client
     .from('fee_calculations')
     .select('*, fund:funds(fund_code, fund_name)')
     .eq('tenant_id', params.tenantId)
@@ -273,10 +287,10 @@ async function buildFeeReport(params: ReportParams): Promise<GeneratedReportCont
   };
 }
 
-async function buildTransactionReport(params: ReportParams): Promise<GeneratedReportContent> {
+async function buildTransactionReport(params: ReportParams, client: ReportClient): Promise<GeneratedReportContent> {
   const sections: ReportSection[] = [];
 
-  let query = supabase
+  let query = client
     .from('capital_transactions')
     .select('*, capital_account:capital_accounts(account_number, investor:client_profiles!investor_id(full_name))')
     .eq('tenant_id', params.tenantId)
@@ -331,10 +345,10 @@ async function buildTransactionReport(params: ReportParams): Promise<GeneratedRe
   };
 }
 
-async function buildCapitalAccountReport(params: ReportParams): Promise<GeneratedReportContent> {
+async function buildCapitalAccountReport(params: ReportParams, client: ReportClient): Promise<GeneratedReportContent> {
   const sections: ReportSection[] = [];
 
-  let query = supabase
+  let query = client
     .from('capital_accounts')
     .select('*, fund:funds(fund_code, fund_name), investor:client_profiles!investor_id(full_name, email)')
     .eq('tenant_id', params.tenantId);
@@ -395,3 +409,106 @@ async function buildCustomReport(params: ReportParams): Promise<GeneratedReportC
     summary: {},
   };
 }
+
+export interface StatementNavs {
+  navPerShare: number;
+  prevNavPerShare: number;
+}
+
+export interface StatementFigures {
+  beginning_balance: number;
+  ending_balance: number;
+  contributions: number;
+  distributions: number;
+  fees: number;
+  return_amount: number;
+  return_percent: number;
+  shares_beginning: number;
+  shares_ending: number;
+  nav_per_share: number;
+}
+
+/** NAV per share at the end of the period and at the end of the one before. */
+export async function fetchStatementNavs(
+  client: ReportClient,
+  fundId: string,
+  periodStart: string,
+  periodEnd: string,
+): Promise<StatementNavs> {
+  const prevPeriodEnd = new Date(`${periodStart}T00:00:00Z`);
+  prevPeriodEnd.setUTCDate(prevPeriodEnd.getUTCDate() - 1);
+
+  const navAsOf = (date: string) => client
+    .from('nav_calculations')
+    .select('nav_per_share')
+    .eq('fund_id', fundId)
+    .lte('calculation_date', date)
+    .order('calculation_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const [{ data: latestNAV }, { data: prevNAV }] = await Promise.all([
+    navAsOf(periodEnd),
+    navAsOf(prevPeriodEnd.toISOString().split('T')[0]),
+  ]);
+
+  return {
+    navPerShare: latestNAV?.nav_per_share || 100,
+    prevNavPerShare: prevNAV?.nav_per_share || 100,
+  };
+}
+
+/**
+ * Balances for one capital account's `investor_statements` row. Beginning
+ * shares are the current holding less the shares issued during the period.
+ */
+export async function calculateStatementFigures(
+  client: ReportClient,
+  account: { id: string; shares_owned: number },
+  navs: StatementNavs,
+  periodStart: string,
+  periodEnd: string,
+): Promise<StatementFigures> {
+  const [{ data: transactions }, { data: fees }] = await Promise.all([
+    client
+      .from('capital_transactions')
+      .select('transaction_type, amount, shares')
+      .eq('capital_account_id', account.id)
+      .gte('transaction_date', periodStart)
+      .lte('transaction_date', periodEnd),
+    client
+      .from('fee_transactions')
+      .select('fee_amount')
+      .eq('capital_account_id', account.id)
+      .gte('period_start', periodStart)
+      .lte('period_end', periodEnd),
+  ]);
+
+  const contributions = (transactions || [])
+    .filter(t => t.transaction_type === 'contribution')
+    .reduce((sum, t) => sum + (t.amount || 0), 0);
+  const distributions = (transactions || [])
+    .filter(t => t.transaction_type === 'distribution')
+    .reduce((sum, t) => sum + (t.amount || 0), 0);
+  const totalFees = (fees || []).reduce((sum, f) => sum + (f.fee_amount || 0), 0);
+
+  const sharesEnding = account.shares_owned || 0;
+  const sharesBeginning = sharesEnding - (transactions || []).reduce((sum, t) => sum + (t.shares || 0), 0);
+
+  const beginningBalance = sharesBeginning * navs.prevNavPerShare;
+  const endingBalance = sharesEnding * navs.navPerShare;
+  const returnAmount = endingBalance - beginningBalance - contributions + distributions + totalFees;
+
+  return {
+    beginning_balance: beginningBalance,
+    ending_balance: endingBalance,
+    contributions,
+    distributions,
+    fees: totalFees,
+    return_amount: returnAmount,
+    return_percent: beginningBalance > 0 ? (returnAmount / beginningBalance) * 100 : 0,
+    shares_beginning: sharesBeginning,
+    shares_ending: sharesEnding,
+    nav_per_share: navs.navPerShare,
+  };
+}
@@ -0,0 +1,196 @@
+import { supabase } from './supabase';
+import { nextRunAt, type ReportFrequency, type ReportRecipient } from './reportSchedule';
+import { loadReportBranding, renderReport, type RenderedReport, type ReportFormat } from './reportRender';
+import type { GeneratedReportContent } from './reportGenerator';
+
+/**
+ * Report Library data access. Staff manage `report_schedules` here; the
+ * report-schedule-worker Edge Function picks up due schedules, records a
+ * `report_schedule_runs` row per period and stores the PDFs in the private
+ * `generated-reports` bucket.
+ */
+
+export const GENERATED_REPORTS_BUCKET = 'generated-reports';
+
+/** Free-form schedule options; the worker reads the attachment formats from here. */
+export interface ReportParameters {
+  formats?: ReportFormat[];
+  [key: string]: unknown;
+}
+
+export interface ReportSchedule {
+  id: string;
+  tenant_id: string;
+  report_type: string;
+  report_name: string;
+  frequency: ReportFrequency;
+  day_of_period: number;
+  auto_send: boolean;
+  fund_id: string | null;
+  recipients: ReportRecipient[];
+  parameters: ReportParameters;
+  is_active: boolean;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface ReportScheduleForm {
+  id?: string;
+  report_type: string;
+  report_name: string;
+  frequency: ReportFrequency;
+  day_of_period: number;
+  auto_send: boolean;
+  fund_id: string;
+  recipients: ReportRecipient[];
+  /** Attachment formats for emailed reports, kept in `parameters.formats`. */
+  formats: ReportFormat[];
+  parameters: ReportParameters;
+}
+
+export interface ReportScheduleRun {
+  id: string;
+  schedule_id: string;
+  period_start: string;
+  period_end: string;
+  status: 'running' | 'completed' | 'failed';
+  report_ids: string[];
+  delivered_count: number;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface GeneratedReport {
+  id: string;
+  report_type: string;
+  report_name: string;
+  period_start: string | null;
+  period_end: string | null;
+  generation_date: string;
+  status: string;
+  file_url: string | null;
+  file_size: number | null;
+  sent_at: string | null;
+}
+
+export async function fetchReportSchedules(tenantId: string): Promise<ReportSchedule[]> {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as ReportSchedule[];
+}
+
+export async function saveReportSchedule(tenantId: string, userId: string | undefined, form: ReportScheduleForm) {
+  const values = {
+    report_type: form.report_type,
+    report_name: form.report_name.trim(),
+    frequency: form.frequency,
+    day_of_period: form.day_of_period,
+    auto_send: form.auto_send,
+    fund_id: form.fund_id || null,
+    recipients: form.recipients,
+    parameters: { ...form.parameters, formats: form.formats.length > 0 ? form.formats : ['pdf'] },
+    next_run_at: nextRunAt(form.frequency, form.day_of_period).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = form.id
+    ? await supabase.from('report_schedules').update(values).eq('id', form.id)
+    : await supabase.from('report_schedules').insert({ ...values, tenant_id: tenantId, created_by: userId ?? null, is_active: true });
+  if (error) throw error;
+}
+
+export async function setReportScheduleActive(schedule: ReportSchedule, isActive: boolean) {
+  const { error } = await supabase
+    .from('report_schedules')
+    .update({
+      is_active: isActive,
+      next_run_at: isActive ? nextRunAt(schedule.frequency, schedule.day_of_period).toISOString() : schedule.next_run_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', schedule.id);
+  if (error) throw error;
+}
+
+/** Makes the schedule due now; the next worker run reports on the last completed period. */
+export async function runReportScheduleNow(scheduleId: string) {
+  const { error } = await supabase
+    .from('report_schedules')
+    .update({ next_run_at: new Date().toISOString(), last_error: null, updated_at: new Date().toISOString() })
+    .eq('id', scheduleId);
+  if (error) throw error;
+}
+
+export async function deleteReportSchedule(scheduleId: string) {
+  const { error } = await supabase.from('report_schedules').delete().eq('id', scheduleId);
+  if (error) throw error;
+}
+
+export async function fetchScheduleRuns(tenantId: string, limit = 50): Promise<ReportScheduleRun[]> {
+  const { data, error } = await supabase
+    .from('report_schedule_runs')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as ReportScheduleRun[];
+}
+
+export async function fetchGeneratedReports(tenantId: string, limit = 100): Promise<GeneratedReport[]> {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('id, report_type, report_name, period_start, period_end, generation_date, status, file_url, file_size, sent_at')
+    .eq('tenant_id', tenantId)
+    .order('generation_date', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as GeneratedReport[];
+}
+
+/** Short-lived link to a stored report or statement PDF. */
+export async function reportFileUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(GENERATED_REPORTS_BUCKET)
+    .createSignedUrl(path, 600);
+  if (error || !data) throw error || new Error('Could not open the report file.');
+  return data.signedUrl;
+}
+
+export function saveReportFile(file: RenderedReport) {
+  const url = URL.createObjectURL(new Blob([file.bytes], { type: file.contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads a generated report in the requested format. A stored PDF is
+ * opened as-is, so the download matches what was delivered; anything else is
+ * rendered from `report_content` with the tenant's current branding.
+ */
+export async function downloadGeneratedReport(tenantId: string, report: GeneratedReport, format: ReportFormat) {
+  if (format === 'pdf' && report.file_url) {
+    window.open(await reportFileUrl(report.file_url), '_blank', 'noopener');
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from('reports')
+    .select('report_content')
+    .eq('id', report.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data?.report_content) throw new Error('This report has no stored content to export.');
+
+  const branding = await loadReportBranding(supabase, tenantId);
+  saveReportFile(await renderReport(data.report_content as GeneratedReportContent, format, branding, report.report_name));
+}
@@ -0,0 +1,232 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createBrandedDocument, type DocumentBranding } from './pdfDocument.ts';
+import { formatDate, formatNumber } from './format.ts';
+import { createWorkbook, type XlsxCell, type XlsxSheet } from './xlsxWriter.ts';
+import type { GeneratedReportContent } from './reportGenerator.ts';
+
+/**
+ * Renders `reports.report_content` to archivable files: a branded PDF, an
+ * Excel workbook with one sheet per table section, or a CSV. Imported with
+ * explicit extensions so report-schedule-worker can load it under Deno.
+ */
+
+export type ReportFormat = 'pdf' | 'xlsx' | 'csv';
+
+export const REPORT_FORMATS: { value: ReportFormat; label: string; contentType: string }[] = [
+  { value: 'pdf',  label: 'PDF',   contentType: 'application/pdf' },
+  { value: 'xlsx', label: 'Excel', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'csv',  label: 'CSV',   contentType: 'text/csv' },
+];
+
+export interface ReportBranding extends DocumentBranding {
+  disclaimer: string;
+}
+
+export interface RenderedReport {
+  bytes: Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+export const DEFAULT_REPORT_DISCLAIMER =
+  'This report is provided for information purposes only to the named recipient and is confidential. ' +
+  'It does not constitute an offer to sell or a solicitation of an offer to buy any security. ' +
+  'Figures are unaudited unless stated otherwise and may be revised. ' +
+  'Past performance is not indicative of future results.';
+
+const ACRONYMS = /\b(Nav|Dpi|Rvpi|Tvpi|Irr)\b/g;
+
+export function metricLabel(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .replace(ACRONYMS, (word) => word.toUpperCase());
+}
+
+export function reportCell(value: unknown): string {
+  if (value == null || value === '') return '-';
+  if (typeof value === 'number') return formatNumber(value, Number.isInteger(value) ? 0 : 2);
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([k, v]) => `${metricLabel(k)}: ${reportCell(v)}`)
+      .join(', ');
+  }
+  return String(value);
+}
+
+/** Metric sections as label/value pairs, with nested groups flattened. */
+function metricRows(data: Record<string, unknown> | null | undefined): [string, XlsxCell][] {
+  return Object.entries(data || {}).flatMap(([key, value]): [string, XlsxCell][] => {
+    if (value && typeof value === 'object') {
+      return Object.entries(value as Record<string, unknown>)
+        .map(([sub, v]) => [`${metricLabel(key)} - ${metricLabel(sub)}`, rawCell(v)]);
+    }
+    return [[metricLabel(key), rawCell(value)]];
+  });
+}
+
+function rawCell(value: unknown): XlsxCell {
+  if (value == null) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function fileStem(title: string, content: GeneratedReportContent) {
+  return `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report'}-${content.period.end}`;
+}
+
+/**
+ * Tenant name, logo and colours from the active `site_themes` row, falling
+ * back to the tenant record, plus the legal disclaimer from tenant settings.
+ * A logo that cannot be fetched is left out rather than failing the render.
+ */
+export async function loadReportBranding(client: SupabaseClient, tenantId: string): Promise<ReportBranding> {
+  const [{ data: tenant }, { data: theme }, { data: settings }] = await Promise.all([
+    client.from('platform_tenants').select('name, company_name, branding').eq('id', tenantId).maybeSingle(),
+    client.from('site_themes').select('colors, logo_url').eq('tenant_id', tenantId).eq('is_active', true).maybeSingle(),
+    client.from('tenant_settings').select('branding').eq('tenant_id', tenantId).maybeSingle(),
+  ]);
+
+  let logo: Uint8Array | null = null;
+  const logoUrl: string | undefined = theme?.logo_url || tenant?.branding?.logo_url;
+  if (logoUrl && /\.(png|jpe?g)(\?|$)/i.test(logoUrl)) {
+    try {
+      const response = await fetch(logoUrl);
+      if (response.ok) logo = new Uint8Array(await response.arrayBuffer());
+    } catch {
+      logo = null;
+    }
+  }
+
+  return {
+    tenantName: tenant?.company_name || tenant?.name || 'ClearNav',
+    primaryColor: theme?.colors?.primary || tenant?.branding?.primary_color || null,
+    logo,
+    disclaimer: settings?.branding?.legal_disclaimer?.trim() || DEFAULT_REPORT_DISCLAIMER,
+  };
+}
+
+export async function renderReportPdf(
+  content: GeneratedReportContent,
+  branding: ReportBranding,
+  title: string,
+  subtitle?: string,
+): Promise<Uint8Array> {
+  const pdf = await createBrandedDocument(
+    { ...branding, footer: `Confidential. Prepared by ${branding.tenantName}. See Important Information at the end of this report.` },
+    title,
+    subtitle,
+  );
+
+  pdf.keyValues([
+    ['Reporting period', `${formatDate(content.period.start, 'long')} - ${formatDate(content.period.end, 'long')}`],
+    ['Generated', formatDate(content.generatedAt, 'long')],
+  ]);
+
+  for (const section of content.sections) {
+    pdf.heading(section.title);
+    if (section.type === 'metrics') {
+      pdf.keyValues(Object.entries(section.data || {}).map(([key, value]) => [metricLabel(key), reportCell(value)]));
+    } else if (section.type === 'table') {
+      const headers: string[] = section.data?.headers || [];
+      const rows: unknown[][] = section.data?.rows || [];
+      if (rows.length === 0) {
+        pdf.paragraph('No activity in this period.', { size: 8.5 });
+      } else {
+        pdf.table(headers, rows.map((row) => row.map(reportCell)));
+      }
+    } else {
+      pdf.paragraph(section.data?.text || '');
+    }
+  }
+
+  pdf.heading('Important Information');
+  pdf.paragraph(branding.disclaimer, { size: 8 });
+
+  return pdf.save();
+}
+
+/** A Summary sheet with the metric and text sections, then one sheet per table section. */
+export function renderReportWorkbook(content: GeneratedReportContent, title: string): Uint8Array {
+  const summary: XlsxCell[][] = [
+    [title],
+    ['Reporting period', content.period.start, content.period.end],
+    ['Generated', content.generatedAt],
+  ];
+  const summaryBold = [0];
+
+  const tableSheets: XlsxSheet[] = [];
+  for (const section of content.sections) {
+    if (section.type === 'table') {
+      const headers: string[] = section.data?.headers || [];
+      const rows: XlsxCell[][] = (section.data?.rows || []).map((row: unknown[]) => row.map(rawCell));
+      const widths = headers.map((h, i) => Math.min(40, Math.max(10, h.length + 2,
+        ...rows.map((row) => String(row[i] ?? '').length + 2))));
+      tableSheets.push({ name: section.title, rows: [headers, ...rows], boldRows: [0], widths });
+      continue;
+    }
+    summary.push([]);
+    summaryBold.push(summary.length);
+    summary.push([section.title]);
+    if (section.type === 'metrics') {
+      summary.push(...metricRows(section.data));
+    } else {
+      summary.push([section.data?.text || '']);
+    }
+  }
+
+  return createWorkbook([
+    { name: 'Summary', rows: summary, boldRows: summaryBold, widths: [32, 18, 18] },
+    ...tableSheets,
+  ], title);
+}
+
+function csvCell(value: XlsxCell) {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Every section in one file, separated by blank lines; numbers stay unformatted. */
+export function renderReportCsv(content: GeneratedReportContent, title: string): string {
+  const lines: XlsxCell[][] = [
+    [title],
+    ['Reporting period', content.period.start, content.period.end],
+    ['Generated', content.generatedAt],
+  ];
+
+  for (const section of content.sections) {
+    lines.push([], [section.title]);
+    if (section.type === 'metrics') {
+      lines.push(...metricRows(section.data));
+    } else if (section.type === 'table') {
+      lines.push(section.data?.headers || []);
+      lines.push(...(section.data?.rows || []).map((row: unknown[]) => row.map(rawCell)));
+    } else {
+      lines.push([section.data?.text || '']);
+    }
+  }
+
+  return lines.map((line) => line.map(csvCell).join(',')).join('\r\n');
+}
+
+export async function renderReport(
+  content: GeneratedReportContent,
+  format: ReportFormat,
+  branding: ReportBranding,
+  title: string,
+  subtitle?: string,
+): Promise<RenderedReport> {
+  const contentType = REPORT_FORMATS.find((f) => f.value === format)!.contentType;
+  const filename = `${fileStem(title, content)}.${format}`;
+
+  if (format === 'xlsx') {
+    return { bytes: renderReportWorkbook(content, title), contentType, filename };
+  }
+  if (format === 'csv') {
+    // BOM so Excel opens the file as UTF-8
+    return { bytes: new TextEncoder().encode(`\uFEFF${renderReportCsv(content, title)}`), contentType, filename };
+  }
+  return { bytes: await renderReportPdf(content, branding, title, subtitle), contentType, filename };
+}
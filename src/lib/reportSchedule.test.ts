@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { nextRunAt, reportingPeriod } from './reportSchedule';
+
+const utc = (dateTime: string) => new Date(`${dateTime}Z`);
+
+describe('nextRunAt', () => {
+  it('runs at 06:00 UTC on the day of the period and strictly after the given time', () => {
+    expect(nextRunAt('monthly', 5, utc('2026-10-19T00:00:00'))).toEqual(utc('2026-11-05T06:00:00'));
+    expect(nextRunAt('monthly', 5, utc('2026-10-05T05:59:00'))).toEqual(utc('2026-10-05T06:00:00'));
+    expect(nextRunAt('monthly', 5, utc('2026-10-05T06:00:00'))).toEqual(utc('2026-11-05T06:00:00'));
+  });
+
+  it('runs in the first month of each quarter or year, rolling into the next year', () => {
+    expect(nextRunAt('quarterly', 10, utc('2026-11-15T00:00:00'))).toEqual(utc('2027-01-10T06:00:00'));
+    expect(nextRunAt('quarterly', 10, utc('2026-02-01T00:00:00'))).toEqual(utc('2026-04-10T06:00:00'));
+    expect(nextRunAt('annually', 1, utc('2026-03-01T00:00:00'))).toEqual(utc('2027-01-01T06:00:00'));
+  });
+
+  it('clamps the day of the period into the month', () => {
+    expect(nextRunAt('monthly', 31, utc('2027-02-01T00:00:00'))).toEqual(utc('2027-02-28T06:00:00'));
+    expect(nextRunAt('monthly', 0, utc('2027-02-15T00:00:00'))).toEqual(utc('2027-03-01T06:00:00'));
+  });
+});
+
+describe('reportingPeriod', () => {
+  it('reports on the period that closed before the run', () => {
+    expect(reportingPeriod('monthly', utc('2026-11-05T06:00:00'))).toEqual({ start: '2026-10-01', end: '2026-10-31' });
+    expect(reportingPeriod('quarterly', utc('2026-05-20T06:00:00'))).toEqual({ start: '2026-01-01', end: '2026-03-31' });
+  });
+
+  it('reaches back into the previous year from a January run', () => {
+    expect(reportingPeriod('monthly', utc('2027-01-05T06:00:00'))).toEqual({ start: '2026-12-01', end: '2026-12-31' });
+    expect(reportingPeriod('quarterly', utc('2027-01-10T06:00:00'))).toEqual({ start: '2026-10-01', end: '2026-12-31' });
+    expect(reportingPeriod('annually', utc('2027-01-01T06:00:00'))).toEqual({ start: '2026-01-01', end: '2026-12-31' });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Report schedule calendar. Shared by the Report Library and the
+ * report-schedule-worker Edge Function, so it has no imports. All dates are
+ * UTC; scheduled runs happen at 06:00 on `day_of_period` of the first month
+ * of each period, and report on the period that has just closed.
+ */
+
+export type ReportFrequency = 'monthly' | 'quarterly' | 'annually';
+
+export const REPORT_FREQUENCIES: { value: ReportFrequency; label: string }[] = [
+  { value: 'monthly',   label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually',  label: 'Annually' },
+];
+
+export const SCHEDULABLE_REPORT_TYPES: { value: string; label: string }[] = [
+  { value: 'investor_statement',     label: 'Investor Statements' },
+  { value: 'performance_report',     label: 'Performance Report' },
+  { value: 'capital_account_report', label: 'Capital Account Report' },
+  { value: 'transaction_report',     label: 'Transaction Report' },
+  { value: 'fee_report',             label: 'Fee Report' },
+];
+
+export function reportTypeLabel(type: string): string {
+  return SCHEDULABLE_REPORT_TYPES.find((t) => t.value === type)?.label
+    ?? type.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * `report_schedules.recipients` entries. `investors` delivers each investor
+ * their own statement and is only meaningful for investor_statement.
+ */
+export type ReportRecipient =
+  | { type: 'email'; email: string }
+  | { type: 'investors' };
+
+const RUN_HOUR_UTC = 6;
+
+const PERIOD_MONTHS: Record<ReportFrequency, number> = { monthly: 1, quarterly: 3, annually: 12 };
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function runDate(year: number, month: number, dayOfPeriod: number): Date {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const day = Math.min(Math.max(dayOfPeriod, 1), daysInMonth);
+  return new Date(Date.UTC(year, month, day, RUN_HOUR_UTC));
+}
+
+/** The first scheduled run strictly after `after`. */
+export function nextRunAt(frequency: ReportFrequency, dayOfPeriod: number, after: Date = new Date()): Date {
+  const step = PERIOD_MONTHS[frequency];
+  let year = after.getUTCFullYear();
+  let month = after.getUTCMonth() - (after.getUTCMonth() % step);
+
+  for (;;) {
+    const candidate = runDate(year, month, dayOfPeriod);
+    if (candidate > after) return candidate;
+    month += step;
+    if (month >= 12) {
+      year += Math.floor(month / 12);
+      month %= 12;
+    }
+  }
+}
+
+/** The completed period a run at `runAt` reports on, as YYYY-MM-DD bounds. */
+export function reportingPeriod(frequency: ReportFrequency, runAt: Date): { start: string; end: string } {
+  const step = PERIOD_MONTHS[frequency];
+  const currentStart = runAt.getUTCMonth() - (runAt.getUTCMonth() % step);
+  const start = new Date(Date.UTC(runAt.getUTCFullYear(), currentStart - step, 1));
+  const end = new Date(Date.UTC(runAt.getUTCFullYear(), currentStart, 0));
+  return { start: isoDate(start), end: isoDate(end) };
+}
+
+export function periodLabel(frequency: ReportFrequency, period: { start: string; end: string }): string {
+  const start = new Date(`${period.start}T00:00:00Z`);
+  const year = start.getUTCFullYear();
+  if (frequency === 'annually') return `${year}`;
+  if (frequency === 'quarterly') return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${year}`;
+  return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
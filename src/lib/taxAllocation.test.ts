@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { allocateTaxItems, k1Boxes, rollForwardTaxBasis, type PartnerAllocation, type PartnerAllocationInput } from './taxAllocation';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const partners: PartnerAllocationInput[] = [
+  { capitalAccountId: 'a', openingCapital: 100, flows: [] },
+  { capitalAccountId: 'b', openingCapital: 0, flows: [{ date: '2026-07-02', amount: 100 }] },
+];
+
+describe('allocateTaxItems', () => {
+  it('shares full-year items by day-weighted average capital', () => {
+    const [a, b] = allocateTaxItems({
+      taxYear: 2026,
+      method: 'full_year',
+      items: [{ category: 'ordinary_business_income', amount: 1000, date: '2026-03-31' }],
+      partners,
+    });
+
+    // A holds 100 for 365 days, B holds 100 for the last 183
+    expect(a.allocations.ordinary_business_income).toBe(666.06);
+    expect(b.allocations.ordinary_business_income).toBe(333.94);
+    expect(a.allocationPct).toBeCloseTo((365 / 548) * 100, 6);
+    expect(a.endingCapital).toBe(766.06);
+    expect(b).toMatchObject({ beginningCapital: 0, contributions: 100, withdrawals: 0, endingCapital: 433.94 });
+  });
+
+  it('shares each month by opening capital under an interim closing, layering earlier income', () => {
+    const [a, b] = allocateTaxItems({
+      taxYear: 2026,
+      method: 'interim_closing',
+      items: [
+        { category: 'long_term_capital_gain', amount: 300, date: '2026-01-15' },
+        { category: 'long_term_capital_gain', amount: 600, date: '2026-08-15' },
+      ],
+      partners,
+    });
+
+    expect(a.allocations.long_term_capital_gain).toBe(780);
+    expect(b.allocations.long_term_capital_gain).toBe(120);
+  });
+
+  it('lets losses and deductions reduce capital', () => {
+    const [a] = allocateTaxItems({
+      taxYear: 2026,
+      method: 'full_year',
+      items: [
+        { category: 'short_term_capital_gain', amount: -40, date: '2026-05-01' },
+        { category: 'portfolio_deductions', amount: 10, date: '2026-05-01' },
+      ],
+      partners: [partners[0]],
+    });
+
+    expect(a.allocations).toEqual({ short_term_capital_gain: -40, portfolio_deductions: 10 });
+    expect(a.netIncome).toBe(-50);
+    expect(a.endingCapital).toBe(50);
+  });
+
+  it('allocates nothing without items', () => {
+    const [a, b] = allocateTaxItems({ taxYear: 2026, method: 'interim_closing', items: [], partners });
+
+    expect(a.allocations).toEqual({});
+    expect(b.netIncome).toBe(0);
+  });
+});
+
+describe('rollForwardTaxBasis', () => {
+  const allocation = (overrides: Partial<PartnerAllocation>): PartnerAllocation => ({
+    capitalAccountId: 'a',
+    allocationPct: 100,
+    allocations: {},
+    beginningCapital: 0,
+    contributions: 0,
+    withdrawals: 0,
+    netIncome: 0,
+    endingCapital: 0,
+    ...overrides,
+  });
+
+  it('applies income before distributions and recognises gain on cash beyond basis', () => {
+    const result = rollForwardTaxBasis(100, allocation({
+      allocations: { ordinary_business_income: 50, portfolio_deductions: 30 },
+      withdrawals: 200,
+    }));
+
+    expect(result).toEqual({ beginningBasis: 100, increases: 50, decreases: 150, endingBasis: 0, excessDistributionGain: 50 });
+  });
+
+  it('never takes basis below zero for losses', () => {
+    const result = rollForwardTaxBasis(100, allocation({ allocations: { ordinary_business_income: -300 } }));
+
+    expect(result.endingBasis).toBe(0);
+    expect(result.excessDistributionGain).toBe(0);
+  });
+});
+
+describe('k1Boxes', () => {
+  it('reports qualified dividends inside box 6a and combines box 13 deductions', () => {
+    const boxes = k1Boxes({ non_qualified_dividends: 10, qualified_dividends: 5, portfolio_deductions: 3, other_deductions: 2 });
+
+    expect(boxes['6a']).toBe(15);
+    expect(boxes['6b']).toBe(5);
+    expect(boxes['13']).toBe(5);
+  });
+});
@@ -0,0 +1,899 @@
+import { supabase } from './supabase';
+import { sendEmail } from './email';
+import { createBrandedDocument, DocumentBranding, pdfToBase64 } from './pdfDocument';
+import { formatCurrency, formatDate } from './format';
+
+export type TaxItemCategory =
+  | 'ordinary_business_income'
+  | 'interest_income'
+  | 'non_qualified_dividends'
+  | 'qualified_dividends'
+  | 'short_term_capital_gain'
+  | 'long_term_capital_gain'
+  | 'section_1231_gain'
+  | 'other_income'
+  | 'portfolio_deductions'
+  | 'other_deductions'
+  | 'foreign_taxes_paid'
+  | 'tax_exempt_income'
+  | 'nondeductible_expenses';
+
+export type AllocationMethod = 'full_year' | 'interim_closing';
+
+/**
+ * How each category reaches the partner: `income` items (gains may be
+ * negative) raise tax capital and basis, `deduction` items lower both,
+ * `exempt` items move basis without being taxable.
+ */
+export const TAX_ITEM_CATEGORIES: {
+  id: TaxItemCategory;
+  label: string;
+  k1Box: string;
+  kind: 'income' | 'deduction' | 'exempt_income' | 'exempt_expense';
+}[] = [
+  { id: 'ordinary_business_income', label: 'Ordinary business income (loss)', k1Box: '1', kind: 'income' },
+  { id: 'interest_income', label: 'Interest income', k1Box: '5', kind: 'income' },
+  { id: 'non_qualified_dividends', label: 'Ordinary dividends (non-qualified)', k1Box: '6a', kind: 'income' },
+  { id: 'qualified_dividends', label: 'Qualified dividends', k1Box: '6b', kind: 'income' },
+  { id: 'short_term_capital_gain', label: 'Net short-term capital gain (loss)', k1Box: '8', kind: 'income' },
+  { id: 'long_term_capital_gain', label: 'Net long-term capital gain (loss)', k1Box: '9a', kind: 'income' },
+  { id: 'section_1231_gain', label: 'Net section 1231 gain (loss)', k1Box: '10', kind: 'income' },
+  { id: 'other_income', label: 'Other income (loss)', k1Box: '11', kind: 'income' },
+  { id: 'portfolio_deductions', label: 'Investment interest and portfolio deductions', k1Box: '13', kind: 'deduction' },
+  { id: 'other_deductions', label: 'Other deductions', k1Box: '13', kind: 'deduction' },
+  { id: 'foreign_taxes_paid', label: 'Foreign taxes paid or accrued', k1Box: '21', kind: 'deduction' },
+  { id: 'tax_exempt_income', label: 'Tax-exempt income', k1Box: '18A', kind: 'exempt_income' },
+  { id: 'nondeductible_expenses', label: 'Nondeductible expenses', k1Box: '18C', kind: 'exempt_expense' },
+];
+
+const CATEGORY_KIND = Object.fromEntries(TAX_ITEM_CATEGORIES.map(c => [c.id, c.kind])) as Record<
+  TaxItemCategory,
+  (typeof TAX_ITEM_CATEGORIES)[number]['kind']
+>;
+
+export interface FundTaxItem {
+  category: TaxItemCategory;
+  amount: number;
+  date: string;
+}
+
+export interface CapitalFlow {
+  date: string;
+  amount: number; // contributions positive, redemptions and distributions negative
+}
+
+export interface PartnerAllocationInput {
+  capitalAccountId: string;
+  openingCapital: number;
+  flows: CapitalFlow[];
+}
+
+export type CategoryAmounts = Partial<Record<TaxItemCategory, number>>;
+
+export interface PartnerAllocation {
+  capitalAccountId: string;
+  allocationPct: number;
+  allocations: CategoryAmounts;
+  beginningCapital: number;
+  contributions: number;
+  withdrawals: number;
+  netIncome: number;
+  endingCapital: number;
+}
+
+export interface TaxBasisRollForward {
+  beginningBasis: number;
+  increases: number;
+  decreases: number;
+  endingBasis: number;
+  excessDistributionGain: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function dayOf(date: string) {
+  return new Date(`${date}T00:00:00Z`).getTime();
+}
+
+/** Effect of a category on tax capital: income and gains add, deductions subtract. */
+export function capitalEffect(category: TaxItemCategory, amount: number) {
+  const kind = CATEGORY_KIND[category];
+  return kind === 'income' || kind === 'exempt_income' ? amount : -amount;
+}
+
+/**
+ * Splits `amount` by `weights`, rounding to cents with the largest weight
+ * taking the rounding difference so the parts always sum to the whole.
+ */
+function splitByWeights(amount: number, weights: Map<string, number>) {
+  const total = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+  const parts = new Map<string, number>();
+  if (total <= 0 || amount === 0) return parts;
+
+  let largest = '';
+  weights.forEach((weight, id) => {
+    parts.set(id, round2(amount * (weight / total)));
+    if (!largest || weight > (weights.get(largest) || 0)) largest = id;
+  });
+
+  const diff = round2(amount - Array.from(parts.values()).reduce((sum, v) => sum + v, 0));
+  if (diff !== 0) parts.set(largest, round2((parts.get(largest) || 0) + diff));
+  return parts;
+}
+
+function capitalAt(partner: PartnerAllocationInput, before: number) {
+  return partner.openingCapital + partner.flows
+    .filter(f => dayOf(f.date) < before)
+    .reduce((sum, f) => sum + f.amount, 0);
+}
+
+/**
+ * Allocates a year's fund-level tax items to partners.
+ *
+ * full_year: every item is shared by each partner's day-weighted average
+ * capital over the year, so a partner admitted mid-year shares in the whole
+ * year's items in proportion to time in the fund.
+ *
+ * interim_closing: the books close monthly; each month's items are shared by
+ * capital at the start of the month, and capital rolls forward with the
+ * allocations, contributions and withdrawals of earlier months (capital
+ * account layering).
+ */
+export function allocateTaxItems(params: {
+  taxYear: number;
+  method: AllocationMethod;
+  items: FundTaxItem[];
+  partners: PartnerAllocationInput[];
+}): PartnerAllocation[] {
+  const yearStart = Date.UTC(params.taxYear, 0, 1);
+  const yearEnd = Date.UTC(params.taxYear + 1, 0, 1);
+  const allocations = new Map<string, CategoryAmounts>(params.partners.map(p => [p.capitalAccountId, {}]));
+  const incomeToDate = new Map<string, number>(params.partners.map(p => [p.capitalAccountId, 0]));
+
+  const credit = (parts: Map<string, number>, category: TaxItemCategory) => {
+    parts.forEach((amount, id) => {
+      const partner = allocations.get(id)!;
+      partner[category] = round2((partner[category] || 0) + amount);
+      incomeToDate.set(id, (incomeToDate.get(id) || 0) + capitalEffect(category, amount));
+    });
+  };
+
+  const averageWeights = new Map<string, number>();
+  for (const partner of params.partners) {
+    // Integrate capital over each day of the year between flow dates
+    const changes = [yearStart, ...partner.flows.map(f => dayOf(f.date)).filter(d => d > yearStart && d < yearEnd), yearEnd]
+      .sort((a, b) => a - b);
+    let weighted = 0;
+    for (let i = 0; i < changes.length - 1; i++) {
+      weighted += Math.max(0, capitalAt(partner, changes[i] + 1)) * ((changes[i + 1] - changes[i]) / DAY_MS);
+    }
+    averageWeights.set(partner.capitalAccountId, weighted);
+  }
+
+  if (params.method === 'full_year') {
+    const totals = new Map<TaxItemCategory, number>();
+    params.items.forEach(item => totals.set(item.category, (totals.get(item.category) || 0) + item.amount));
+    totals.forEach((amount, category) => credit(splitByWeights(amount, averageWeights), category));
+  } else {
+    for (let month = 0; month < 12; month++) {
+      const start = Date.UTC(params.taxYear, month, 1);
+      const end = Date.UTC(params.taxYear, month + 1, 1);
+      const monthItems = params.items.filter(item => dayOf(item.date) >= start && dayOf(item.date) < end);
+      if (monthItems.length === 0) continue;
+
+      const weightsAt = (moment: number) => new Map(params.partners.map(p => [
+        p.capitalAccountId,
+        Math.max(0, capitalAt(p, moment) + (incomeToDate.get(p.capitalAccountId) || 0)),
+      ]));
+
+      // Partners admitted during a month with no capital at its start share
+      // in it only when nobody had capital at the start
+      let weights = weightsAt(start);
+      if (Array.from(weights.values()).every(w => w <= 0)) weights = weightsAt(end);
+
+      const totals = new Map<TaxItemCategory, number>();
+      monthItems.forEach(item => totals.set(item.category, (totals.get(item.category) || 0) + item.amount));
+      totals.forEach((amount, category) => credit(splitByWeights(amount, weights), category));
+    }
+  }
+
+  const totalWeight = Array.from(averageWeights.values()).reduce((sum, w) => sum + w, 0);
+
+  return params.partners.map(partner => {
+    const inYear = partner.flows.filter(f => dayOf(f.date) >= yearStart && dayOf(f.date) < yearEnd);
+    const beginningCapital = capitalAt(partner, yearStart);
+    const contributions = inYear.filter(f => f.amount > 0).reduce((sum, f) => sum + f.amount, 0);
+    const withdrawals = inYear.filter(f => f.amount < 0).reduce((sum, f) => sum - f.amount, 0);
+    const netIncome = round2(incomeToDate.get(partner.capitalAccountId) || 0);
+
+    return {
+      capitalAccountId: partner.capitalAccountId,
+      allocationPct: totalWeight > 0 ? ((averageWeights.get(partner.capitalAccountId) || 0) / totalWeight) * 100 : 0,
+      allocations: allocations.get(partner.capitalAccountId) || {},
+      beginningCapital: round2(beginningCapital),
+      contributions: round2(contributions),
+      withdrawals: round2(withdrawals),
+      netIncome,
+      endingCapital: round2(beginningCapital + contributions - withdrawals + netIncome),
+    };
+  });
+}
+
+/**
+ * Outside basis roll-forward in the IRC 705/733 order: increases for
+ * contributions and income (taxable and exempt), then decreases for
+ * distributions, then losses and deductions. Cash distributed beyond basis is
+ * recognised as gain; losses beyond basis are suspended.
+ */
+export function rollForwardTaxBasis(beginningBasis: number, allocation: PartnerAllocation): TaxBasisRollForward {
+  let increases = allocation.contributions;
+  let deductions = 0;
+
+  for (const [category, amount] of Object.entries(allocation.allocations) as [TaxItemCategory, number][]) {
+    const effect = capitalEffect(category, amount);
+    if (effect >= 0) increases += effect;
+    else deductions += -effect;
+  }
+
+  const afterIncreases = beginningBasis + increases;
+  const excessDistributionGain = Math.max(0, allocation.withdrawals - afterIncreases);
+  const afterDistributions = Math.max(0, afterIncreases - allocation.withdrawals);
+  const endingBasis = Math.max(0, afterDistributions - deductions);
+
+  return {
+    beginningBasis: round2(beginningBasis),
+    increases: round2(increases),
+    decreases: round2(beginningBasis + increases - endingBasis),
+    endingBasis: round2(endingBasis),
+    excessDistributionGain: round2(excessDistributionGain),
+  };
+}
+
+/** Schedule K-1 Part III boxes; 6a includes qualified dividends. */
+export function k1Boxes(allocations: CategoryAmounts): Record<string, number> {
+  const a = (category: TaxItemCategory) => allocations[category] || 0;
+  return {
+    '1': a('ordinary_business_income'),
+    '5': a('interest_income'),
+    '6a': round2(a('non_qualified_dividends') + a('qualified_dividends')),
+    '6b': a('qualified_dividends'),
+    '8': a('short_term_capital_gain'),
+    '9a': a('long_term_capital_gain'),
+    '10': a('section_1231_gain'),
+    '11': a('other_income'),
+    '13': round2(a('portfolio_deductions') + a('other_deductions')),
+    '18A': a('tax_exempt_income'),
+    '18C': a('nondeductible_expenses'),
+    '19A': 0,
+    '21': a('foreign_taxes_paid'),
+  };
+}
+
+const K1_BOX_LABELS: Record<string, string> = {
+  '1': 'Ordinary business income (loss)',
+  '5': 'Interest income',
+  '6a': 'Ordinary dividends',
+  '6b': 'Qualified dividends',
+  '8': 'Net short-term capital gain (loss)',
+  '9a': 'Net long-term capital gain (loss)',
+  '10': 'Net section 1231 gain (loss)',
+  '11': 'Other income (loss)',
+  '13': 'Other deductions',
+  '18A': 'Tax-exempt interest income',
+  '18C': 'Nondeductible expenses',
+  '19A': 'Distributions - cash and marketable securities',
+  '21': 'Foreign taxes paid or accrued',
+};
+
+// IRS minimum reporting amounts for 1099-DIV and 1099-INT
+const FORM_1099_THRESHOLD = 10;
+
+function isDistribution(type: string) {
+  return type === 'redemption' || type === 'distribution' || type === 'transfer_out';
+}
+
+function flowAmount(transaction: { transaction_type: string; amount: number }) {
+  const amount = Math.abs(Number(transaction.amount) || 0);
+  if (transaction.transaction_type === 'contribution' || transaction.transaction_type === 'transfer_in') return amount;
+  if (isDistribution(transaction.transaction_type)) return -amount;
+  return 0;
+}
+
+async function loadAllocationInputs(fundId: string, taxYear: number) {
+  const yearEnd = `${taxYear}-12-31`;
+
+  const [itemsResult, accountsResult, priorResult] = await Promise.all([
+    supabase
+      .from('fund_tax_items')
+      .select('category, amount, item_date')
+      .eq('fund_id', fundId)
+      .eq('tax_year', taxYear),
+    supabase
+      .from('capital_accounts')
+      .select('id, account_number, inception_date, status')
+      .eq('fund_id', fundId),
+    supabase
+      .from('partner_tax_basis')
+      .select('capital_account_id, ending_capital, ending_basis')
+      .eq('fund_id', fundId)
+      .eq('tax_year', taxYear - 1),
+  ]);
+
+  if (itemsResult.error) throw itemsResult.error;
+  if (accountsResult.error) throw accountsResult.error;
+  if (priorResult.error) throw priorResult.error;
+
+  const accountIds = (accountsResult.data || []).map(a => a.id);
+  const { data: transactions, error } = accountIds.length > 0
+    ? await supabase
+        .from('capital_transactions')
+        .select('capital_account_id, transaction_type, transaction_date, amount')
+        .in('capital_account_id', accountIds)
+        .eq('status', 'settled')
+        .lte('transaction_date', yearEnd)
+    : { data: [], error: null };
+
+  if (error) throw error;
+
+  const prior = new Map((priorResult.data || []).map(p => [p.capital_account_id, p]));
+  const yearStart = `${taxYear}-01-01`;
+
+  const partners: (PartnerAllocationInput & { priorBasis: number | null })[] = (accountsResult.data || []).map(account => {
+    const accountTransactions = (transactions || []).filter(t => t.capital_account_id === account.id);
+    const previous = prior.get(account.id);
+    const flows = accountTransactions
+      .filter(t => flowAmount(t) !== 0)
+      .map(t => ({ date: t.transaction_date, amount: flowAmount(t) }));
+
+    // Opening capital carries over from last year's K-1 where there is one;
+    // otherwise it is net contributed capital before the year
+    return {
+      capitalAccountId: account.id,
+      openingCapital: previous ? Number(previous.ending_capital) : 0,
+      flows: previous ? flows.filter(f => f.date >= yearStart) : flows,
+      priorBasis: previous ? Number(previous.ending_basis) : null,
+    };
+  });
+
+  const items: FundTaxItem[] = (itemsResult.data || []).map(i => ({
+    category: i.category,
+    amount: Number(i.amount),
+    date: i.item_date,
+  }));
+
+  return {
+    items,
+    accounts: accountsResult.data || [],
+    partners,
+    transactions: transactions || [],
+  };
+}
+
+/** The identifying columns of a `tax_documents` row; the rest vary by form. */
+interface TaxDocumentRow {
+  tenant_id: string;
+  capital_account_id: string;
+  fund_id: string;
+  tax_year: number;
+  document_type: string;
+  [column: string]: unknown;
+}
+
+/**
+ * Writes a tax document, refreshing an existing draft for the same account,
+ * form and year; finalised or sent documents are left untouched.
+ */
+async function upsertTaxDocument(document: TaxDocumentRow) {
+  const { data: existing, error } = await supabase
+    .from('tax_documents')
+    .select('id, document_status')
+    .eq('capital_account_id', document.capital_account_id)
+    .eq('tax_year', document.tax_year)
+    .eq('document_type', document.document_type)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (existing) {
+    if (existing.document_status !== 'draft' && existing.document_status !== 'review') return false;
+    const { error: updateError } = await supabase
+      .from('tax_documents')
+      .update({ ...document, updated_at: new Date().toISOString() })
+      .eq('id', existing.id);
+    if (updateError) throw updateError;
+    return true;
+  }
+
+  const { error: insertError } = await supabase.from('tax_documents').insert(document);
+  if (insertError) throw insertError;
+  return true;
+}
+
+/**
+ * Allocates the year's fund tax items, rolls tax capital and basis forward
+ * for every capital account and writes a draft K-1 per account. Returns the
+ * number of K-1s written.
+ */
+export async function generateK1Documents(params: {
+  tenantId: string;
+  fundId: string;
+  taxYear: number;
+  method: AllocationMethod;
+  userId?: string;
+}) {
+  const { items, partners } = await loadAllocationInputs(params.fundId, params.taxYear);
+  if (items.length === 0) {
+    throw new Error(`No fund tax items recorded for ${params.taxYear}`);
+  }
+
+  const allocations = allocateTaxItems({ taxYear: params.taxYear, method: params.method, items, partners });
+  const totalBeginning = allocations.reduce((sum, a) => sum + Math.max(0, a.beginningCapital), 0);
+  const totalEnding = allocations.reduce((sum, a) => sum + Math.max(0, a.endingCapital), 0);
+
+  let written = 0;
+  for (const allocation of allocations) {
+    const partner = partners.find(p => p.capitalAccountId === allocation.capitalAccountId)!;
+    const hasActivity = allocation.beginningCapital !== 0 || allocation.contributions !== 0 || allocation.withdrawals !== 0;
+    if (!hasActivity) continue;
+
+    // Without a prior K-1, opening basis is the opening tax capital
+    const basis = rollForwardTaxBasis(partner.priorBasis ?? allocation.beginningCapital, allocation);
+    const beginningPct = totalBeginning > 0 ? (Math.max(0, allocation.beginningCapital) / totalBeginning) * 100 : 0;
+    const endingPct = totalEnding > 0 ? (Math.max(0, allocation.endingCapital) / totalEnding) * 100 : 0;
+
+    const { error: basisError } = await supabase
+      .from('partner_tax_basis')
+      .upsert({
+        tenant_id: params.tenantId,
+        fund_id: params.fundId,
+        capital_account_id: allocation.capitalAccountId,
+        tax_year: params.taxYear,
+        allocation_method: params.method,
+        beginning_capital: allocation.beginningCapital,
+        contributions: allocation.contributions,
+        net_income: allocation.netIncome,
+        withdrawals: allocation.withdrawals,
+        ending_capital: allocation.endingCapital,
+        beginning_basis: basis.beginningBasis,
+        basis_increases: basis.increases,
+        basis_decreases: basis.decreases,
+        ending_basis: basis.endingBasis,
+        excess_distribution_gain: basis.excessDistributionGain,
+        beginning_pct: beginningPct,
+        ending_pct: endingPct,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'capital_account_id,tax_year' });
+
+    if (basisError) throw basisError;
+
+    const boxes = k1Boxes(allocation.allocations);
+    boxes['19A'] = allocation.withdrawals;
+    const a = (category: TaxItemCategory) => allocation.allocations[category] || 0;
+
+    const saved = await upsertTaxDocument({
+      tenant_id: params.tenantId,
+      capital_account_id: allocation.capitalAccountId,
+      fund_id: params.fundId,
+      document_type: 'k1',
+      tax_year: params.taxYear,
+      document_status: 'draft',
+      generation_date: new Date().toISOString().split('T')[0],
+      ordinary_income: a('ordinary_business_income'),
+      qualified_dividends: a('qualified_dividends'),
+      capital_gains_short: a('short_term_capital_gain'),
+      capital_gains_long: a('long_term_capital_gain'),
+      interest_income: a('interest_income'),
+      other_income: round2(a('other_income') + a('section_1231_gain') + a('non_qualified_dividends')),
+      allocation_details: {
+        method: params.method,
+        allocation_pct: allocation.allocationPct,
+        beginning_pct: beginningPct,
+        ending_pct: endingPct,
+        boxes,
+        capital: {
+          beginning: allocation.beginningCapital,
+          contributed: allocation.contributions,
+          net_income: allocation.netIncome,
+          withdrawals: allocation.withdrawals,
+          ending: allocation.endingCapital,
+        },
+        basis,
+      },
+      created_by: params.userId,
+    });
+
+    if (saved) written += 1;
+  }
+
+  return written;
+}
+
+/**
+ * 1099 variants for funds that report to investors as a corporation or RIC:
+ * DIV and INT from each account's share of dividend, gain and interest items,
+ * and B for each redemption with its average-cost basis.
+ */
+export async function generate1099Documents(params: {
+  tenantId: string;
+  fundId: string;
+  taxYear: number;
+  method: AllocationMethod;
+  userId?: string;
+}) {
+  const { items, accounts, partners, transactions } = await loadAllocationInputs(params.fundId, params.taxYear);
+  const allocations = allocateTaxItems({ taxYear: params.taxYear, method: params.method, items, partners });
+  const today = new Date().toISOString().split('T')[0];
+  let written = 0;
+
+  for (const allocation of allocations) {
+    const a = (category: TaxItemCategory) => allocation.allocations[category] || 0;
+    const base = {
+      tenant_id: params.tenantId,
+      capital_account_id: allocation.capitalAccountId,
+      fund_id: params.fundId,
+      tax_year: params.taxYear,
+      document_status: 'draft',
+      generation_date: today,
+      created_by: params.userId,
+    };
+
+    const ordinaryDividends = round2(
+      a('non_qualified_dividends') + a('qualified_dividends') + a('short_term_capital_gain') + a('ordinary_business_income')
+    );
+    const capitalGainDistributions = Math.max(0, a('long_term_capital_gain') + a('section_1231_gain'));
+
+    if (ordinaryDividends + capitalGainDistributions >= FORM_1099_THRESHOLD) {
+      if (await upsertTaxDocument({
+        ...base,
+        document_type: '1099_div',
+        ordinary_income: ordinaryDividends,
+        qualified_dividends: a('qualified_dividends'),
+        capital_gains_short: 0,
+        capital_gains_long: capitalGainDistributions,
+        interest_income: 0,
+        other_income: 0,
+        allocation_details: {
+          boxes: {
+            '1a': ordinaryDividends,
+            '1b': a('qualified_dividends'),
+            '2a': capitalGainDistributions,
+            '2f': Math.max(0, a('section_1231_gain')),
+            '7': a('foreign_taxes_paid'),
+            '12': a('tax_exempt_income'),
+          },
+        },
+      })) written += 1;
+    }
+
+    if (a('interest_income') >= FORM_1099_THRESHOLD) {
+      if (await upsertTaxDocument({
+        ...base,
+        document_type: '1099_int',
+        ordinary_income: 0,
+        qualified_dividends: 0,
+        capital_gains_short: 0,
+        capital_gains_long: 0,
+        interest_income: a('interest_income'),
+        other_income: 0,
+        allocation_details: {
+          boxes: {
+            '1': a('interest_income'),
+            '6': a('foreign_taxes_paid'),
+            '8': a('tax_exempt_income'),
+          },
+        },
+      })) written += 1;
+    }
+
+    // Average cost: basis per dollar of capital at the time of each redemption
+    const account = accounts.find(acc => acc.id === allocation.capitalAccountId);
+    const accountTransactions = transactions
+      .filter(t => t.capital_account_id === allocation.capitalAccountId)
+      .sort((x, y) => x.transaction_date.localeCompare(y.transaction_date));
+    const sales: TaxLotSale[] = [];
+    let basis = 0;
+    let capital = 0;
+
+    for (const transaction of accountTransactions) {
+      const amount = flowAmount(transaction);
+      if (amount > 0) {
+        basis += amount;
+        capital += amount;
+      } else if (transaction.transaction_type === 'redemption') {
+        const proceeds = -amount;
+        const costBasis = capital > 0 ? Math.min(basis, basis * (proceeds / capital)) : 0;
+        basis -= costBasis;
+        capital = Math.max(0, capital - proceeds);
+
+        if (transaction.transaction_date.startsWith(String(params.taxYear))) {
+          const acquired = account?.inception_date || null;
+          const longTerm = acquired
+            ? dayOf(transaction.transaction_date) - dayOf(acquired) > 365 * DAY_MS
+            : false;
+          sales.push({
+            date_acquired: acquired,
+            date_sold: transaction.transaction_date,
+            proceeds: round2(proceeds),
+            cost_basis: round2(costBasis),
+            gain_loss: round2(proceeds - costBasis),
+            term: longTerm ? 'long' : 'short',
+          });
+        }
+      } else if (amount < 0) {
+        capital = Math.max(0, capital + amount);
+      }
+    }
+
+    if (sales.length > 0) {
+      const gain = (term: string) => round2(sales.filter(s => s.term === term).reduce((sum, s) => sum + s.gain_loss, 0));
+      if (await upsertTaxDocument({
+        ...base,
+        document_type: '1099_b',
+        ordinary_income: 0,
+        qualified_dividends: 0,
+        capital_gains_short: gain('short'),
+        capital_gains_long: gain('long'),
+        interest_income: 0,
+        other_income: 0,
+        allocation_details: { sales },
+      })) written += 1;
+    }
+  }
+
+  return written;
+}
+
+/** A redemption reported on a 1099-B, with its average-cost basis. */
+export interface TaxLotSale {
+  date_acquired: string | null;
+  date_sold: string;
+  proceeds: number;
+  cost_basis: number;
+  gain_loss: number;
+  term: 'long' | 'short';
+}
+
+/** The `allocation_details` a generated tax document stores for its PDF. */
+export interface TaxDocumentDetails {
+  method?: AllocationMethod;
+  allocation_pct?: number;
+  beginning_pct?: number;
+  ending_pct?: number;
+  boxes?: Record<string, number>;
+  capital?: {
+    beginning?: number;
+    contributed?: number;
+    net_income?: number;
+    withdrawals?: number;
+    ending?: number;
+  };
+  basis?: TaxBasisRollForward;
+  sales?: TaxLotSale[];
+}
+
+export interface TaxDocumentPdfInput {
+  document_type: string;
+  tax_year: number;
+  allocation_details: TaxDocumentDetails;
+  ordinary_income: number | null;
+  qualified_dividends: number | null;
+  capital_gains_short: number | null;
+  capital_gains_long: number | null;
+  interest_income: number | null;
+  fund_name: string;
+  fund_ein?: string | null;
+  investor_name: string;
+  investor_email?: string | null;
+  investor_tin?: string | null;
+  account_number: string;
+}
+
+function maskTin(tin?: string | null) {
+  if (!tin) return 'On file';
+  const digits = tin.replace(/\D/g, '');
+  return digits.length >= 4 ? `***-**-${digits.slice(-4)}` : 'On file';
+}
+
+/** Printable investor copy of a K-1 or 1099 from its stored allocation details. */
+export async function buildTaxDocumentPdf(branding: DocumentBranding, doc: TaxDocumentPdfInput) {
+  const details = doc.allocation_details || {};
+  const boxes: Record<string, number> = details.boxes || {};
+  const money = (value: number | null | undefined) => formatCurrency(Number(value) || 0, 'USD');
+  const titles: Record<string, string> = {
+    k1: 'Schedule K-1 (Form 1065)',
+    '1099_div': 'Form 1099-DIV',
+    '1099_int': 'Form 1099-INT',
+    '1099_b': 'Form 1099-B',
+  };
+
+  const pdf = await createBrandedDocument(branding, titles[doc.document_type] || 'Tax Document', `Tax year ${doc.tax_year}`);
+
+  pdf.heading(doc.document_type === 'k1' ? 'Part I - Information About the Partnership' : 'Payer');
+  pdf.keyValues([
+    ['Name', doc.fund_name],
+    ['Employer identification number', doc.fund_ein || 'On file'],
+  ]);
+
+  pdf.heading(doc.document_type === 'k1' ? 'Part II - Information About the Partner' : 'Recipient');
+  pdf.keyValues([
+    ['Name', doc.investor_name],
+    ['Identifying number', maskTin(doc.investor_tin)],
+    ['Account number', doc.account_number],
+  ]);
+
+  if (doc.document_type === 'k1') {
+    const capital = details.capital || {};
+    pdf.keyValues([
+      ['Allocation method', details.method === 'interim_closing' ? 'Interim closing (monthly)' : 'Full-year proration'],
+      ['Share of capital - beginning', `${(Number(details.beginning_pct) || 0).toFixed(4)}%`],
+      ['Share of capital - ending', `${(Number(details.ending_pct) || 0).toFixed(4)}%`],
+    ]);
+
+    pdf.heading("Item L - Partner's Capital Account Analysis (tax basis)");
+    pdf.table(
+      ['', 'Amount'],
+      [
+        ['Beginning capital account', money(capital.beginning)],
+        ['Capital contributed during the year', money(capital.contributed)],
+        ['Current year net income (loss)', money(capital.net_income)],
+        ['Withdrawals and distributions', money(-(Number(capital.withdrawals) || 0))],
+        ['Ending capital account', money(capital.ending)],
+      ],
+      { widths: [345, 150] }
+    );
+
+    pdf.heading("Part III - Partner's Share of Current Year Income, Deductions, Credits, and Other Items");
+    pdf.table(
+      ['Box', 'Description', 'Amount'],
+      Object.entries(boxes)
+        .filter(([, amount]) => Number(amount) !== 0)
+        .map(([box, amount]) => [box, K1_BOX_LABELS[box] || '', money(amount)]),
+      { widths: [50, 295, 150], align: ['left', 'left', 'right'] }
+    );
+
+    if (details.basis) {
+      pdf.heading('Outside Basis (supplemental)');
+      pdf.table(
+        ['', 'Amount'],
+        [
+          ['Beginning basis', money(details.basis.beginningBasis)],
+          ['Increases', money(details.basis.increases)],
+          ['Decreases', money(-(Number(details.basis.decreases) || 0))],
+          ['Ending basis', money(details.basis.endingBasis)],
+          ...(Number(details.basis.excessDistributionGain) > 0
+            ? [['Gain on distributions in excess of basis', money(details.basis.excessDistributionGain)]]
+            : []),
+        ],
+        { widths: [345, 150] }
+      );
+    }
+  } else if (doc.document_type === '1099_b') {
+    pdf.heading('Proceeds From Broker and Barter Exchange Transactions');
+    pdf.table(
+      ['Acquired', 'Sold', 'Proceeds', 'Cost basis', 'Gain (loss)', 'Term'],
+      (details.sales || []).map(sale => [
+        sale.date_acquired ? formatDate(sale.date_acquired, 'short') : 'Various',
+        formatDate(sale.date_sold, 'short'),
+        money(sale.proceeds),
+        money(sale.cost_basis),
+        money(sale.gain_loss),
+        sale.term === 'long' ? 'Long' : 'Short',
+      ]),
+      { widths: [75, 75, 95, 95, 95, 60], align: ['left', 'left', 'right', 'right', 'right', 'left'] }
+    );
+  } else {
+    const labels: Record<string, string> = doc.document_type === '1099_int'
+      ? { '1': 'Interest income', '6': 'Foreign tax paid', '8': 'Tax-exempt interest' }
+      : {
+          '1a': 'Total ordinary dividends',
+          '1b': 'Qualified dividends',
+          '2a': 'Total capital gain distributions',
+          '2f': 'Section 1231 gain',
+          '7': 'Foreign tax paid',
+          '12': 'Exempt-interest dividends',
+        };
+    pdf.heading('Amounts');
+    pdf.table(
+      ['Box', 'Description', 'Amount'],
+      Object.entries(labels).map(([box, label]) => [box, label, money(boxes[box])]),
+      { widths: [50, 295, 150], align: ['left', 'left', 'right'] }
+    );
+  }
+
+  pdf.paragraph(
+    'This statement is furnished for your tax records. Amounts are based on the fund\'s books and may be revised ' +
+    'if the fund\'s tax return is amended. Consult your tax adviser about how to report these items.',
+    { size: 8 }
+  );
+
+  return pdf.save();
+}
+
+interface TaxDocumentWithParties extends Omit<TaxDocumentPdfInput, 'allocation_details' | 'fund_name' | 'investor_name' | 'account_number'> {
+  id: string;
+  allocation_details: TaxDocumentDetails | null;
+  fund: { fund_name: string; metadata: { ein?: string } | null } | null;
+  capital_account: {
+    account_number: string;
+    investor_id: string;
+    investor: { full_name: string; email: string | null } | null;
+  } | null;
+}
+
+/** Loads a tax document with the partnership and partner details its PDF needs. */
+export async function loadTaxDocumentForPdf(documentId: string): Promise<TaxDocumentPdfInput & { id: string }> {
+  const { data, error } = await supabase
+    .from('tax_documents')
+    .select(`
+      *,
+      fund:funds!fund_id(fund_name, metadata),
+      capital_account:capital_accounts!capital_account_id(
+        account_number,
+        investor_id,
+        investor:client_profiles!investor_id(full_name, email)
+      )
+    `)
+    .eq('id', documentId)
+    .single();
+
+  if (error) throw error;
+
+  const doc = data as TaxDocumentWithParties;
+  const { data: taxProfile } = await supabase
+    .from('investor_tax_profiles')
+    .select('tax_identification_numbers')
+    .eq('investor_id', doc.capital_account?.investor_id)
+    .maybeSingle();
+
+  const tins = (taxProfile?.tax_identification_numbers || {}) as Record<string, string>;
+
+  return {
+    ...doc,
+    allocation_details: doc.allocation_details || {},
+    fund_name: doc.fund?.fund_name || '',
+    fund_ein: doc.fund?.metadata?.ein || null,
+    investor_name: doc.capital_account?.investor?.full_name || '',
+    investor_email: doc.capital_account?.investor?.email || null,
+    investor_tin: tins.US || tins.us || Object.values(tins)[0] || null,
+    account_number: doc.capital_account?.account_number || '',
+  };
+}
+
+/** Emails the investor their tax document as a PDF and marks it sent. */
+export async function sendTaxDocument(documentId: string, branding: DocumentBranding, accountId: string) {
+  const doc = await loadTaxDocumentForPdf(documentId);
+  if (!doc.investor_email) {
+    throw new Error(`${doc.investor_name || 'Investor'} has no email address`);
+  }
+
+  const pdf = await buildTaxDocumentPdf(branding, doc);
+  const form = doc.document_type === 'k1' ? 'Schedule K-1' : `Form ${doc.document_type.replace('_', '-').toUpperCase()}`;
+
+  await sendEmail({
+    accountId,
+    to: [doc.investor_email],
+    subject: `${doc.tax_year} ${form} – ${doc.fund_name}`,
+    bodyHtml: `<p>Dear ${doc.investor_name},</p>` +
+      `<p>Please find attached your ${doc.tax_year} ${form} for ${doc.fund_name}.</p>` +
+      `<p>Kind regards,<br>${branding.tenantName}</p>`,
+    attachments: [{
+      filename: `${doc.document_type}-${doc.tax_year}-${doc.account_number}.pdf`,
+      content: pdfToBase64(pdf),
+      content_type: 'application/pdf',
+    }],
+  });
+
+  const { error } = await supabase
+    .from('tax_documents')
+    .update({
+      document_status: 'sent',
+      sent_date: new Date().toISOString().split('T')[0],
+    })
+    .eq('id', documentId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { buildStandardTiers, calculateFundWaterfall, preferredReturnOwed, runWaterfall, type WaterfallTerms } from './waterfall';
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const terms: WaterfallTerms = {
+  tiers: buildStandardTiers({ hurdleRate: 8, catchUpRate: 100, carriedInterestRate: 20 }),
+  carriedInterestRate: 20,
+  compounded: true,
+  gpCommitmentPercent: 0,
+};
+
+const contributions = [{ date: utc('2021-01-01'), amount: 100 }];
+
+function run(proceeds: number, waterfallTerms = terms) {
+  return runWaterfall({ proceeds, capital: 100, contributions, distributions: [], asOf: utc('2022-01-01'), terms: waterfallTerms });
+}
+
+describe('preferredReturnOwed', () => {
+  it('accrues the hurdle on each contribution and stops it on capital returned', () => {
+    expect(preferredReturnOwed(contributions, [], 8, utc('2022-01-01'), true)).toBeCloseTo(8, 10);
+    expect(preferredReturnOwed(contributions, [{ date: utc('2021-01-01'), amount: 100 }], 8, utc('2022-01-01'), true)).toBe(0);
+  });
+});
+
+describe('runWaterfall', () => {
+  it('returns capital, pays the pref, catches the GP up and splits the rest', () => {
+    const result = run(150);
+
+    expect(result.tiers.map(t => [t.lp, t.gp])).toEqual([[100, 0], [8, 0], [0, 2], [32, 8]]);
+    expect(result.preferredReturn).toBe(8);
+    expect(result.catchUpAmount).toBe(2);
+    expect(result.lpAllocation).toBe(140);
+    expect(result.gpAllocation).toBe(10);
+  });
+
+  it('pays everything to LPs while proceeds do not cover capital', () => {
+    const result = run(60);
+
+    expect(result.lpAllocation).toBe(60);
+    expect(result.gpAllocation).toBe(0);
+    expect(result.tiers[0].lp).toBe(60);
+  });
+
+  it('allocates nothing for zero or negative proceeds', () => {
+    for (const proceeds of [0, -25]) {
+      const result = run(proceeds);
+      expect(result.lpAllocation).toBe(0);
+      expect(result.gpAllocation).toBe(0);
+      expect(result.tiers.every(t => t.lp === 0 && t.gp === 0)).toBe(true);
+    }
+  });
+
+  it('moves to the next carry split once the LP IRR hurdle is met', () => {
+    const tiered: WaterfallTerms = {
+      ...terms,
+      tiers: buildStandardTiers({ hurdleRate: 8, catchUpRate: 100, carriedInterestRate: 20, additionalSplits: [{ hurdleRate: 15, gp: 30 }] }),
+    };
+    const result = run(200, tiered);
+    const [first, second] = result.tiers.filter(t => t.type === 'carry_split');
+
+    // LPs reach 115 (a 15% return) in the first split, 7 of 8.75 paid through it
+    expect(first.lp).toBe(7);
+    expect(first.gp).toBe(1.75);
+    expect(second.lp).toBeCloseTo(56.88, 1);
+    expect(second.gp).toBeCloseTo(24.38, 1);
+    expect(result.lpAllocation + result.gpAllocation).toBeCloseTo(200, 1);
+  });
+});
+
+describe('calculateFundWaterfall', () => {
+  it('carves the GP commitment out of a whole-fund waterfall before carry', () => {
+    const result = calculateFundWaterfall({
+      method: 'whole_fund',
+      terms: { ...terms, gpCommitmentPercent: 10 },
+      lps: [{ capitalAccountId: 'lp-1', contributions, distributions: [], currentValue: 150 }],
+      asOf: utc('2022-01-01'),
+      clawbackProvision: false,
+    });
+
+    expect(result.gpCommitment).toEqual({ capital: 10, proceeds: 15 });
+    expect(result.capital).toBe(90);
+    expect(result.gpAllocation).toBe(9);
+    expect(result.lpAllocation).toBe(126);
+  });
+
+  it('recovers earlier deal losses before carry on a later deal', () => {
+    const result = calculateFundWaterfall({
+      method: 'deal_by_deal',
+      terms,
+      lps: [{ capitalAccountId: 'lp-1', contributions: [{ date: utc('2021-01-01'), amount: 200 }], distributions: [], currentValue: 0 }],
+      deals: [
+        { id: 'a', name: 'Loss', investments: contributions, realizations: [{ date: utc('2021-06-30'), amount: 50 }], currentValue: 0, realized: true },
+        { id: 'b', name: 'Gain', investments: contributions, realizations: [{ date: utc('2022-01-01'), amount: 200 }], currentValue: 0, realized: true },
+      ],
+      asOf: utc('2022-01-01'),
+      clawbackProvision: false,
+    });
+
+    expect(result.deals.map(d => d.dealId)).toEqual(['a', 'b']);
+    expect(result.deals[0].gpAllocation).toBe(0);
+    expect(result.deals[1].capital).toBe(150);
+    expect(result.deals[1].priorLossesRecovered).toBe(50);
+    expect(result.deals[1].gpAllocation).toBe(10);
+    expect(result.investors[0].gpAllocation).toBe(10);
+  });
+
+  it('claws back deal-by-deal carry beyond what the whole fund earned', () => {
+    const result = calculateFundWaterfall({
+      method: 'deal_by_deal',
+      terms,
+      lps: [{ capitalAccountId: 'lp-1', contributions: [{ date: utc('2021-01-01'), amount: 200 }], distributions: [], currentValue: 0 }],
+      deals: [
+        { id: 'a', name: 'Gain', investments: contributions, realizations: [{ date: utc('2022-01-01'), amount: 200 }], currentValue: 0, realized: true },
+        { id: 'b', name: 'Loss', investments: contributions, realizations: [{ date: utc('2022-06-30'), amount: 20 }], currentValue: 0, realized: true },
+      ],
+      asOf: utc('2022-06-30'),
+      clawbackProvision: true,
+    });
+
+    const carryPaid = result.deals.reduce((sum, d) => sum + d.gpAllocation, 0);
+    expect(carryPaid).toBe(20);
+    // Across the fund the 20 of profit barely covers the LPs' pref, leaving
+    // the GP only the 3.38 of catch-up it reaches
+    expect(result.clawback).toBe(16.62);
+  });
+});
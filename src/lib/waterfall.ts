@@ -0,0 +1,460 @@
+export type WaterfallTierType = 'return_of_capital' | 'preferred_return' | 'catch_up' | 'carry_split';
+
+export interface WaterfallTier {
+  tier: number;
+  name: string;
+  type: WaterfallTierType;
+  allocation: { lp: number; gp: number };
+  /**
+   * preferred_return: the annual pref rate. carry_split: the LP IRR up to which
+   * this split applies (null or absent for the final, uncapped split).
+   */
+  hurdleRate?: number | null;
+  description?: string;
+}
+
+/** A tier as stored in `waterfall_structures.tiers`; legacy rows carry no type. */
+type StoredTier = Omit<WaterfallTier, 'type'> & { type?: WaterfallTierType };
+
+export interface WaterfallTerms {
+  tiers: WaterfallTier[];
+  carriedInterestRate: number;
+  compounded: boolean;
+  gpCommitmentPercent: number;
+}
+
+export interface CashFlow {
+  date: Date;
+  amount: number;
+}
+
+export interface LPCashFlows {
+  capitalAccountId: string;
+  investorName?: string;
+  contributions: CashFlow[];
+  distributions: CashFlow[];
+  currentValue: number;
+}
+
+export interface DealCashFlows {
+  id: string;
+  name: string;
+  investments: CashFlow[];
+  realizations: CashFlow[];
+  currentValue: number;
+  realized: boolean;
+}
+
+export interface TierAllocation {
+  tier: number;
+  name: string;
+  type: WaterfallTierType;
+  lp: number;
+  gp: number;
+}
+
+export interface WaterfallResult {
+  capital: number;
+  proceeds: number;
+  preferredReturn: number;
+  catchUpAmount: number;
+  lpAllocation: number;
+  gpAllocation: number;
+  tiers: TierAllocation[];
+}
+
+export interface LPWaterfallResult extends WaterfallResult {
+  capitalAccountId: string;
+  investorName?: string;
+}
+
+export interface DealWaterfallResult extends WaterfallResult {
+  dealId: string;
+  dealName: string;
+  realizationDate: string;
+  priorLossesRecovered: number;
+}
+
+export interface FundWaterfallResult extends WaterfallResult {
+  method: 'whole_fund' | 'deal_by_deal' | 'distribution_waterfall';
+  totalContributions: number;
+  totalDistributions: number;
+  currentValue: number;
+  gpCommitment: { capital: number; proceeds: number };
+  investors: LPWaterfallResult[];
+  deals: DealWaterfallResult[];
+  clawback: number;
+}
+
+const YEAR_MS = 1000 * 60 * 60 * 24 * 365;
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function sum(flows: CashFlow[]) {
+  return flows.reduce((total, flow) => total + flow.amount, 0);
+}
+
+function scaleFlows(flows: CashFlow[], factor: number): CashFlow[] {
+  return flows.map(flow => ({ date: flow.date, amount: flow.amount * factor }));
+}
+
+function growth(ratePct: number, from: Date, to: Date, compounded: boolean) {
+  const years = Math.max(0, (to.getTime() - from.getTime()) / YEAR_MS);
+  const rate = ratePct / 100;
+  return compounded ? Math.pow(1 + rate, years) : 1 + rate * years;
+}
+
+/**
+ * Standard European tier set from headline terms, optionally followed by
+ * further IRR-hurdled carry splits (e.g. 80/20 to 15% IRR, then 70/30).
+ */
+export function buildStandardTiers(terms: {
+  hurdleRate: number;
+  catchUpRate: number;
+  carriedInterestRate: number;
+  additionalSplits?: { hurdleRate: number; gp: number }[];
+}): WaterfallTier[] {
+  const splits = [...(terms.additionalSplits || [])].sort((a, b) => a.hurdleRate - b.hurdleRate);
+  const tiers: WaterfallTier[] = [
+    {
+      tier: 1,
+      name: 'Return of Capital',
+      type: 'return_of_capital',
+      allocation: { lp: 100, gp: 0 },
+      description: '100% to LPs until return of capital',
+    },
+    {
+      tier: 2,
+      name: 'Preferred Return',
+      type: 'preferred_return',
+      allocation: { lp: 100, gp: 0 },
+      hurdleRate: terms.hurdleRate,
+      description: `${terms.hurdleRate}% hurdle to LPs`,
+    },
+  ];
+
+  if (terms.catchUpRate > 0) {
+    tiers.push({
+      tier: 3,
+      name: 'Catch-Up',
+      type: 'catch_up',
+      allocation: { lp: 100 - terms.catchUpRate, gp: terms.catchUpRate },
+      description: `${terms.catchUpRate}% to GP until ${terms.carriedInterestRate}% of profits`,
+    });
+  }
+
+  const gpRates = [terms.carriedInterestRate, ...splits.map(s => s.gp)];
+  gpRates.forEach((gp, index) => {
+    const cap = splits[index]?.hurdleRate ?? null;
+    tiers.push({
+      tier: tiers.length + 1,
+      name: index === 0 ? 'Carried Interest' : `Carried Interest ${index + 1}`,
+      type: 'carry_split',
+      allocation: { lp: 100 - gp, gp },
+      hurdleRate: cap,
+      description: cap != null
+        ? `${100 - gp}% LP / ${gp}% GP until LP IRR of ${cap}%`
+        : `${100 - gp}% LP / ${gp}% GP`,
+    });
+  });
+
+  return tiers;
+}
+
+/**
+ * Reads the stored `tiers` jsonb. Structures saved before tier types existed
+ * hold the fixed four-tier layout, which is mapped by position.
+ */
+export function normaliseTiers(structure: {
+  tiers: unknown;
+  hurdle_rate: number | null;
+  catch_up_rate: number | null;
+  carried_interest_rate: number;
+}): WaterfallTier[] {
+  const stored: StoredTier[] = Array.isArray(structure.tiers) ? structure.tiers : [];
+  if (stored.length > 0 && stored.every(t => t.type)) {
+    return stored as WaterfallTier[];
+  }
+
+  if (stored.length === 0) {
+    return buildStandardTiers({
+      hurdleRate: structure.hurdle_rate || 0,
+      catchUpRate: structure.catch_up_rate || 0,
+      carriedInterestRate: structure.carried_interest_rate,
+    });
+  }
+
+  const legacyTypes: WaterfallTierType[] = ['return_of_capital', 'preferred_return', 'catch_up', 'carry_split'];
+  return stored.map((tier, index) => ({
+    ...tier,
+    type: legacyTypes[Math.min(index, legacyTypes.length - 1)],
+    hurdleRate: index === 1 ? structure.hurdle_rate || 0 : null,
+  }));
+}
+
+/**
+ * Amount above returned capital an LP must receive by `asOf` to earn the
+ * hurdle on each contribution from its own date. Distributions stop the
+ * hurdle accruing on the capital they return.
+ */
+export function preferredReturnOwed(
+  contributions: CashFlow[],
+  distributions: CashFlow[],
+  ratePct: number,
+  asOf: Date,
+  compounded: boolean
+): number {
+  const accrued = contributions.reduce((total, c) => total + c.amount * (growth(ratePct, c.date, asOf, compounded) - 1), 0);
+  const stopped = distributions.reduce((total, d) => total + d.amount * (growth(ratePct, d.date, asOf, compounded) - 1), 0);
+  return Math.max(0, accrued - stopped);
+}
+
+/**
+ * Runs proceeds through the tiers in order. Catch-up gives the GP its tier
+ * share of each dollar until it holds carriedInterestRate of all profit paid
+ * so far, so catch-up rates below 100% work as partial catch-ups.
+ */
+export function runWaterfall(params: {
+  proceeds: number;
+  capital: number;
+  contributions: CashFlow[];
+  distributions: CashFlow[];
+  asOf: Date;
+  terms: WaterfallTerms;
+}): WaterfallResult {
+  const { terms } = params;
+  const carry = terms.carriedInterestRate / 100;
+  let remaining = Math.max(0, params.proceeds);
+  let lpTotal = 0;
+  let gpTotal = 0;
+  let capitalReturned = 0;
+  let preferredReturn = 0;
+  let catchUpAmount = 0;
+
+  const tiers: TierAllocation[] = terms.tiers.map(tier => {
+    const lpShare = tier.allocation.lp / 100;
+    const gpShare = tier.allocation.gp / 100;
+    let amount = 0;
+
+    if (remaining > 0) {
+      switch (tier.type) {
+        case 'return_of_capital':
+          amount = Math.min(remaining, Math.max(0, params.capital - capitalReturned));
+          capitalReturned += amount;
+          break;
+        case 'preferred_return': {
+          const owed = preferredReturnOwed(params.contributions, params.distributions, tier.hurdleRate || 0, params.asOf, terms.compounded);
+          amount = Math.min(remaining, Math.max(0, owed - preferredReturn) / (lpShare || 1));
+          break;
+        }
+        case 'catch_up': {
+          const profitPaid = lpTotal + gpTotal - capitalReturned;
+          const target = gpShare > carry ? (carry * profitPaid - gpTotal) / (gpShare - carry) : 0;
+          amount = Math.min(remaining, Math.max(0, target));
+          break;
+        }
+        case 'carry_split': {
+          if (tier.hurdleRate == null) {
+            amount = remaining;
+          } else {
+            const lpNeeded = params.capital
+              + preferredReturnOwed(params.contributions, params.distributions, tier.hurdleRate, params.asOf, terms.compounded)
+              - lpTotal;
+            amount = Math.min(remaining, Math.max(0, lpNeeded) / (lpShare || 1));
+          }
+          break;
+        }
+      }
+    }
+
+    remaining -= amount;
+    lpTotal += amount * lpShare;
+    gpTotal += amount * gpShare;
+    if (tier.type === 'preferred_return') preferredReturn += amount * lpShare;
+    if (tier.type === 'catch_up') catchUpAmount += amount;
+
+    return { tier: tier.tier, name: tier.name, type: tier.type, lp: round2(amount * lpShare), gp: round2(amount * gpShare) };
+  });
+
+  // Anything left after a capped final tier belongs to the LPs
+  lpTotal += remaining;
+
+  return {
+    capital: round2(params.capital),
+    proceeds: round2(params.proceeds),
+    preferredReturn: round2(preferredReturn),
+    catchUpAmount: round2(catchUpAmount),
+    lpAllocation: round2(lpTotal),
+    gpAllocation: round2(gpTotal),
+    tiers,
+  };
+}
+
+function addTiers(into: TierAllocation[], from: TierAllocation[]) {
+  from.forEach((tier, index) => {
+    if (!into[index]) {
+      into[index] = { ...tier, lp: 0, gp: 0 };
+    }
+    into[index].lp = round2(into[index].lp + tier.lp);
+    into[index].gp = round2(into[index].gp + tier.gp);
+  });
+  return into;
+}
+
+function totalResult(results: WaterfallResult[], tiers: WaterfallTier[]): WaterfallResult {
+  return results.reduce<WaterfallResult>((total, r) => ({
+    capital: round2(total.capital + r.capital),
+    proceeds: round2(total.proceeds + r.proceeds),
+    preferredReturn: round2(total.preferredReturn + r.preferredReturn),
+    catchUpAmount: round2(total.catchUpAmount + r.catchUpAmount),
+    lpAllocation: round2(total.lpAllocation + r.lpAllocation),
+    gpAllocation: round2(total.gpAllocation + r.gpAllocation),
+    tiers: addTiers(total.tiers, r.tiers),
+  }), {
+    capital: 0,
+    proceeds: 0,
+    preferredReturn: 0,
+    catchUpAmount: 0,
+    lpAllocation: 0,
+    gpAllocation: 0,
+    tiers: tiers.map(t => ({ tier: t.tier, name: t.name, type: t.type, lp: 0, gp: 0 })),
+  });
+}
+
+/**
+ * Whole-fund (European) waterfall run per LP on each LP's own dated cash flows
+ * and hypothetical liquidation value. The GP commitment is a carry-free
+ * partner interest carved out pro-rata before the tiers are applied.
+ */
+function wholeFundWaterfall(lps: LPCashFlows[], terms: WaterfallTerms, asOf: Date, includeCurrentValue: boolean) {
+  const carriedShare = 1 - terms.gpCommitmentPercent / 100;
+
+  return lps.map(lp => {
+    const contributions = scaleFlows(lp.contributions, carriedShare);
+    const distributions = scaleFlows(lp.distributions, carriedShare);
+    const proceeds = sum(distributions) + (includeCurrentValue ? lp.currentValue * carriedShare : 0);
+
+    return {
+      capitalAccountId: lp.capitalAccountId,
+      investorName: lp.investorName,
+      ...runWaterfall({ proceeds, capital: sum(contributions), contributions, distributions, asOf, terms }),
+    };
+  });
+}
+
+/**
+ * American waterfall: each realized deal is run on its own proceeds, in
+ * realization order, after first returning capital lost on earlier realized
+ * deals. LPs share every deal in proportion to their contributed capital.
+ */
+function dealByDealWaterfall(deals: DealCashFlows[], lps: LPCashFlows[], terms: WaterfallTerms) {
+  const carriedShare = 1 - terms.gpCommitmentPercent / 100;
+  const lpCapital = lps.map(lp => sum(lp.contributions));
+  const totalCapital = lpCapital.reduce((a, b) => a + b, 0);
+
+  const realized = deals
+    .filter(d => d.realized && d.realizations.length > 0)
+    .map(d => ({ deal: d, realizedAt: new Date(Math.max(...d.realizations.map(r => r.date.getTime()))) }))
+    .sort((a, b) => a.realizedAt.getTime() - b.realizedAt.getTime());
+
+  let unrecoveredLosses = 0;
+  const dealResults: DealWaterfallResult[] = [];
+  const investorResults: LPWaterfallResult[] = lps.map(lp => ({
+    capitalAccountId: lp.capitalAccountId,
+    investorName: lp.investorName,
+    ...totalResult([], terms.tiers),
+  }));
+
+  for (const { deal, realizedAt } of realized) {
+    const investments = scaleFlows(deal.investments, carriedShare);
+    const proceeds = sum(deal.realizations) * carriedShare;
+    const capital = sum(investments) + unrecoveredLosses;
+    const result = runWaterfall({ proceeds, capital, contributions: investments, distributions: [], asOf: realizedAt, terms });
+
+    dealResults.push({
+      ...result,
+      dealId: deal.id,
+      dealName: deal.name,
+      realizationDate: realizedAt.toISOString().split('T')[0],
+      priorLossesRecovered: round2(Math.min(unrecoveredLosses, Math.max(0, proceeds - sum(investments)))),
+    });
+    unrecoveredLosses = Math.max(0, capital - proceeds);
+
+    // The waterfall is linear in its inputs, so each LP's slice is the deal
+    // result scaled by the LP's share of contributed capital
+    lps.forEach((_, index) => {
+      const share = totalCapital > 0 ? lpCapital[index] / totalCapital : 0;
+      const slice: WaterfallResult = {
+        capital: result.capital * share,
+        proceeds: result.proceeds * share,
+        preferredReturn: result.preferredReturn * share,
+        catchUpAmount: result.catchUpAmount * share,
+        lpAllocation: result.lpAllocation * share,
+        gpAllocation: result.gpAllocation * share,
+        tiers: result.tiers.map(t => ({ ...t, lp: t.lp * share, gp: t.gp * share })),
+      };
+      investorResults[index] = { ...investorResults[index], ...totalResult([investorResults[index], slice], terms.tiers) };
+    });
+  }
+
+  return { dealResults, investorResults };
+}
+
+export function calculateFundWaterfall(params: {
+  method: 'whole_fund' | 'deal_by_deal' | 'distribution_waterfall';
+  terms: WaterfallTerms;
+  lps: LPCashFlows[];
+  deals?: DealCashFlows[];
+  asOf: Date;
+  clawbackProvision: boolean;
+}): FundWaterfallResult {
+  const { terms, lps, asOf } = params;
+  const gpCommitmentShare = terms.gpCommitmentPercent / 100;
+  const totalContributions = lps.reduce((total, lp) => total + sum(lp.contributions), 0);
+  const totalDistributions = lps.reduce((total, lp) => total + sum(lp.distributions), 0);
+  const currentValue = lps.reduce((total, lp) => total + lp.currentValue, 0);
+
+  let investors: LPWaterfallResult[];
+  let deals: DealWaterfallResult[] = [];
+  let clawback = 0;
+
+  if (params.method === 'deal_by_deal') {
+    const dealByDeal = dealByDealWaterfall(params.deals || [], lps, terms);
+    investors = dealByDeal.investorResults;
+    deals = dealByDeal.dealResults;
+
+    if (params.clawbackProvision) {
+      // Clawback: GP carry cannot exceed what a whole-fund waterfall over the
+      // same deals (realized proceeds plus unrealized value) would pay
+      const allDeals = params.deals || [];
+      const invested = allDeals.flatMap(d => scaleFlows(d.investments, 1 - gpCommitmentShare));
+      const realizations = allDeals.flatMap(d => scaleFlows(d.realizations, 1 - gpCommitmentShare));
+      const proceeds = sum(realizations) + allDeals.reduce((total, d) => total + (d.realized ? 0 : d.currentValue), 0) * (1 - gpCommitmentShare);
+      const wholeFund = runWaterfall({ proceeds, capital: sum(invested), contributions: invested, distributions: realizations, asOf, terms });
+      const carryPaid = deals.reduce((total, d) => total + d.gpAllocation, 0);
+      clawback = round2(Math.max(0, carryPaid - wholeFund.gpAllocation));
+    }
+  } else {
+    investors = wholeFundWaterfall(lps, terms, asOf, params.method === 'whole_fund');
+  }
+
+  const totals = totalResult(deals.length > 0 ? deals : investors, terms.tiers);
+  const grossProceeds = params.method === 'distribution_waterfall' ? totalDistributions : totalDistributions + currentValue;
+
+  return {
+    ...totals,
+    method: params.method,
+    totalContributions: round2(totalContributions),
+    totalDistributions: round2(totalDistributions),
+    currentValue: round2(currentValue),
+    gpCommitment: {
+      capital: round2(totalContributions * gpCommitmentShare),
+      proceeds: round2(grossProceeds * gpCommitmentShare),
+    },
+    investors,
+    deals,
+    clawback,
+  };
+}
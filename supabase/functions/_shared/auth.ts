@@ -36,3 +36,54 @@ export function unauthorizedResponse(corsHeaders: Record<string, string>): Respo
     headers: { ...corsHeaders, "Content-Type": "application/json" },
   });
 }
+
+export type StaffPermission =
+  | "can_manage_funds"
+  | "can_manage_nav"
+  | "can_process_redemptions"
+  | "can_manage_exchange"
+  | "can_manage_clients"
+  | "can_view_reports"
+  | "can_send_communications"
+  | "can_manage_newsletters"
+  | "can_view_compliance"
+  | "can_access_analytics";
+
+/**
+ * Server-side twin of `hasPermission` in src/lib/auth.tsx. Only staff users
+ * are governed by permission flags; staff with the admin role hold all of
+ * them. Returns false for callers who are not staff so each function's own
+ * tenant or account checks still decide for them.
+ */
+export async function lacksStaffPermission(
+  client: ReturnType<typeof createClient>,
+  userId: string,
+  permission: StaffPermission,
+): Promise<boolean> {
+  const { data: role } = await client
+    .from("user_roles")
+    .select("role_category")
+    .eq("user_id", userId)
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (role?.role_category !== "staff_user") return false;
+
+  const { data: staff } = await client
+    .from("staff_accounts")
+    .select("role, permissions")
+    .eq("auth_user_id", userId)
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (!staff) return true;
+  if (staff.role === "admin") return false;
+  return staff.permissions?.[permission] !== true;
+}
+
+export function forbiddenResponse(corsHeaders: Record<string, string>, permission: StaffPermission): Response {
+  return new Response(JSON.stringify({ error: `Missing permission: ${permission}` }), {
+    status: 403,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,231 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+  content_type: string;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  reply_to?: string;
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+/** The sender columns of a `tenant_email_settings` row. */
+export interface EmailSettings {
+  provider_type?: string | null;
+  from_name?: string | null;
+  from_domain?: string | null;
+  reply_to?: string | null;
+  [column: string]: unknown;
+}
+
+export interface EmailProvider {
+  type: "resend" | "sendgrid";
+  apiKey: string;
+  settings: EmailSettings | null;
+}
+
+export interface SendResult {
+  success: boolean;
+  message_id: string | null;
+  error?: string;
+}
+
+/**
+ * Picks the tenant's active provider from `tenant_email_settings`. SendGrid
+ * is only used with the tenant's own key; otherwise mail goes through Resend
+ * with the tenant key or the platform key (env, then vault).
+ */
+export async function resolveEmailProvider(
+  client: ReturnType<typeof createClient>,
+  tenantId: string | null,
+): Promise<EmailProvider | null> {
+  const { data: settings } = tenantId
+    ? await client
+      .from("tenant_email_settings")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("is_active", true)
+      .maybeSingle()
+    : { data: null };
+
+  const tenantApiKey = settings?.api_key_encrypted || null;
+  if (settings?.provider_type === "sendgrid" && tenantApiKey) {
+    return { type: "sendgrid", apiKey: tenantApiKey, settings };
+  }
+
+  let platformApiKey = Deno.env.get("RESEND_API_KEY") || null;
+  if (!platformApiKey) {
+    const { data: vaultSecret } = await client
+      .from("vault.decrypted_secrets")
+      .select("decrypted_secret")
+      .eq("name", "RESEND_API_KEY")
+      .maybeSingle();
+    if (vaultSecret?.decrypted_secret) {
+      platformApiKey = vaultSecret.decrypted_secret;
+    }
+  }
+
+  const resendKey = tenantApiKey || platformApiKey;
+  return resendKey ? { type: "resend", apiKey: resendKey, settings } : null;
+}
+
+/**
+ * From address for tenant-originated mail: the tenant's own verified address,
+ * else `<localPart>@` the provider's sending domain, else the platform sender.
+ */
+export async function resolveSender(
+  client: ReturnType<typeof createClient>,
+  tenantId: string,
+  settings: EmailSettings | null,
+  localPart: string,
+) {
+  const { data: tenant } = await client
+    .from("platform_tenants")
+    .select("name, company_name, tenant_email_address, email_verified")
+    .eq("id", tenantId)
+    .maybeSingle();
+
+  const tenantName = settings?.from_name || tenant?.company_name || tenant?.name || "ClearNav";
+  const fromEmail = tenant?.tenant_email_address && tenant.email_verified
+    ? tenant.tenant_email_address
+    : settings?.from_domain
+      ? `${localPart}@${settings.from_domain}`
+      : "ny@clearnav.cv";
+
+  return {
+    tenantName,
+    from: `${tenantName} <${fromEmail}>`,
+    replyTo: settings?.reply_to || undefined,
+  };
+}
+
+/** Splits "Display Name <addr@example.com>" into SendGrid's address shape. */
+function parseFrom(from: string): { email: string; name?: string } {
+  const match = from.match(/^(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { email: match[2].trim(), name: match[1].trim() || undefined } : { email: from.trim() };
+}
+
+function toResendPayload(message: OutgoingEmail) {
+  return {
+    from: message.from,
+    to: message.to,
+    cc: message.cc || [],
+    bcc: message.bcc || [],
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    reply_to: message.reply_to,
+    headers: message.headers,
+    attachments: message.attachments?.length ? message.attachments : undefined,
+  };
+}
+
+async function sendViaSendGrid(apiKey: string, message: OutgoingEmail): Promise<SendResult> {
+  const from = parseFrom(message.from);
+  const sgPayload = {
+    personalizations: [{
+      to: message.to.map(email => ({ email })),
+      cc: message.cc?.length ? message.cc.map(email => ({ email })) : undefined,
+      bcc: message.bcc?.length ? message.bcc.map(email => ({ email })) : undefined,
+    }],
+    from,
+    reply_to: { email: message.reply_to || from.email },
+    subject: message.subject,
+    headers: message.headers,
+    content: [
+      ...(message.text ? [{ type: "text/plain", value: message.text }] : []),
+      ...(message.html ? [{ type: "text/html", value: message.html }] : []),
+    ],
+    attachments: message.attachments?.length
+      ? message.attachments.map((a) => ({
+        filename: a.filename,
+        content: a.content,
+        type: a.content_type,
+        disposition: "attachment",
+      }))
+      : undefined,
+  };
+
+  const res = await fetch("https://api.sendgrid.com/v3/mail/send", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(sgPayload),
+  });
+
+  if (res.ok || res.status === 202) {
+    return { success: true, message_id: res.headers.get("X-Message-Id") };
+  }
+  const data = await res.json().catch(() => ({}));
+  return { success: false, message_id: null, error: `SendGrid error: ${JSON.stringify(data)}` };
+}
+
+export async function sendEmail(provider: EmailProvider, message: OutgoingEmail): Promise<SendResult> {
+  if (provider.type === "sendgrid") {
+    return sendViaSendGrid(provider.apiKey, message);
+  }
+
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${provider.apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(toResendPayload(message)),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (res.ok) {
+    return { success: true, message_id: data.id };
+  }
+  return { success: false, message_id: null, error: `Resend error: ${data.message || JSON.stringify(data)}` };
+}
+
+/**
+ * Sends many single-recipient messages. Resend takes up to 100 per batch
+ * request; SendGrid messages go one by one. Results are in input order.
+ */
+export async function sendEmailBatch(provider: EmailProvider, messages: OutgoingEmail[]): Promise<SendResult[]> {
+  if (provider.type === "sendgrid") {
+    const results: SendResult[] = [];
+    for (const message of messages) {
+      results.push(await sendViaSendGrid(provider.apiKey, message));
+    }
+    return results;
+  }
+
+  const results: SendResult[] = [];
+  for (let i = 0; i < messages.length; i += 100) {
+    const chunk = messages.slice(i, i + 100);
+    const res = await fetch("https://api.resend.com/emails/batch", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${provider.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      // The batch endpoint does not accept attachments
+      body: JSON.stringify(chunk.map(m => ({ ...toResendPayload(m), attachments: undefined }))),
+    });
+
+    const data = await res.json().catch(() => ({}));
+    if (res.ok && Array.isArray(data.data)) {
+      results.push(...chunk.map((_, j) => ({ success: true, message_id: data.data[j]?.id ?? null })));
+    } else {
+      const error = `Resend error: ${data.message || JSON.stringify(data)}`;
+      results.push(...chunk.map(() => ({ success: false, message_id: null, error })));
+    }
+  }
+  return results;
+}
@@ -0,0 +1,85 @@
+/**
+ * Newsletter rendering shared by the delivery worker and the tracking
+ * endpoint. Click tracking refers to links by their position in the rendered
+ * body, so both sides must render the content the same way.
+ */
+
+const HREF_PATTERN = /href\s*=\s*"(https?:\/\/[^"]+)"/gi;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function isHtmlContent(content: string): boolean {
+  return /<(p|div|a|h[1-6]|ul|ol|table|br|img)\b/i.test(content);
+}
+
+/** Content written as HTML is used as-is; plain text is escaped and linkified. */
+export function renderNewsletterBody(content: string): string {
+  if (isHtmlContent(content)) {
+    return content;
+  }
+
+  return content
+    .split(/\n{2,}/)
+    .map(paragraph => {
+      const html = escapeHtml(paragraph.trim())
+        .replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)]/g, url => `<a href="${url}">${url}</a>`)
+        .replace(/\n/g, "<br>");
+      return `<p>${html}</p>`;
+    })
+    .join("\n");
+}
+
+export function extractNewsletterLinks(html: string): string[] {
+  return [...html.matchAll(HREF_PATTERN)].map(m => m[1].replace(/&amp;/g, "&"));
+}
+
+export function trackingUrl(baseUrl: string, token: string, event: "open" | "click" | "unsubscribe", link?: number) {
+  const params = new URLSearchParams({ e: event, t: token });
+  if (link !== undefined) params.set("l", String(link));
+  return `${baseUrl}?${params.toString()}`;
+}
+
+/** Full HTML document for one recipient, with tracked links, open pixel and unsubscribe footer. */
+export function buildNewsletterHtml(options: {
+  body: string;
+  subject: string;
+  tenantName: string;
+  baseUrl: string;
+  token: string;
+}): string {
+  const { body, subject, tenantName, baseUrl, token } = options;
+  let index = 0;
+  const tracked = body.replace(HREF_PATTERN, () => `href="${escapeHtml(trackingUrl(baseUrl, token, "click", index++))}"`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f5f7;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#1f2937;">
+  <div style="max-width:640px;margin:0 auto;padding:32px 24px;background:#ffffff;line-height:1.6;font-size:15px;">
+    ${tracked}
+  </div>
+  <div style="max-width:640px;margin:0 auto;padding:16px 24px;text-align:center;font-size:12px;color:#6b7280;">
+    <p>You are receiving this email from ${escapeHtml(tenantName)}.</p>
+    <p><a href="${escapeHtml(trackingUrl(baseUrl, token, "unsubscribe"))}" style="color:#6b7280;">Unsubscribe</a></p>
+  </div>
+  <img src="${escapeHtml(trackingUrl(baseUrl, token, "open"))}" width="1" height="1" alt="" style="display:block;border:0;">
+</body>
+</html>`;
+}
+
+export function buildNewsletterText(content: string, unsubscribeUrl: string, tenantName: string): string {
+  const text = isHtmlContent(content)
+    ? content.replace(/<br\s*\/?>/gi, "\n").replace(/<\/p>/gi, "\n\n").replace(/<[^>]+>/g, "").trim()
+    : content.trim();
+  return `${text}\n\n--\nYou are receiving this email from ${tenantName}.\nUnsubscribe: ${unsubscribeUrl}\n`;
+}
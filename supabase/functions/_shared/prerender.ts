@@ -0,0 +1,302 @@
+/**
+ * Static HTML for tenant public pages, served to crawlers and link
+ * unfurlers by the prerender-page function. The markup is deliberately plain:
+ * it carries the page's text, links and metadata, and the SPA replaces it
+ * when a browser runs the bundle.
+ */
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+const ENTITIES: Record<string, string> = { "&nbsp;": " ", "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&#39;": "'", "&#039;": "'" };
+
+/**
+ * Tenant-authored HTML (about/custom sections) reduced to escaped text, one
+ * paragraph per block. No tenant markup reaches the output, so crawlers get
+ * the words without any way to smuggle script onto the tenant's origin.
+ */
+export function richTextToHtml(html: string): string {
+  return String(html || "")
+    .replace(/<(script|style|iframe|object|embed|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, " ")
+    .replace(/<\/?(p|div|br|li|h[1-6]|blockquote|pre|tr|section|article)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(nbsp|amp|lt|gt|quot|#39|#039);/gi, (entity) => ENTITIES[entity.toLowerCase()] ?? entity)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join("");
+}
+
+function safeUrl(url: unknown): string | null {
+  const value = String(url || "").trim();
+  if (!value) return null;
+  if (value.startsWith("/") || value.startsWith("#") || /^(https?:|mailto:|tel:)/i.test(value)) return value;
+  return null;
+}
+
+function link(href: unknown, text: unknown): string {
+  const url = safeUrl(href);
+  return url ? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>` : escapeHtml(text);
+}
+
+// ─── TipTap JSON ─────────────────────────────────────────────────────────────
+
+interface TipTapMark {
+  type: string;
+  attrs?: { href?: string };
+}
+
+interface TipTapNode {
+  type?: string;
+  text?: string;
+  marks?: TipTapMark[];
+  attrs?: Record<string, unknown>;
+  content?: TipTapNode[];
+}
+
+function renderMarks(text: string, marks: TipTapMark[] = []): string {
+  return marks.reduce((html, mark) => {
+    switch (mark.type) {
+      case "bold": return `<strong>${html}</strong>`;
+      case "italic": return `<em>${html}</em>`;
+      case "underline": return `<u>${html}</u>`;
+      case "strike": return `<s>${html}</s>`;
+      case "code": return `<code>${html}</code>`;
+      case "link": {
+        const url = safeUrl(mark.attrs?.href);
+        return url ? `<a href="${escapeHtml(url)}">${html}</a>` : html;
+      }
+      default: return html;
+    }
+  }, escapeHtml(text));
+}
+
+/** Blog posts are stored as TipTap JSON; this covers the StarterKit, Link and Image nodes. */
+export function renderTipTap(node: TipTapNode | string | null | undefined): string {
+  if (!node) return "";
+  if (typeof node === "string") return richTextToHtml(node);
+  const children = (node.content || []).map(renderTipTap).join("");
+
+  switch (node.type) {
+    case "doc": return children;
+    case "text": return renderMarks(node.text || "", node.marks);
+    case "paragraph": return `<p>${children}</p>`;
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 2, 2), 6);
+      return `<h${level}>${children}</h${level}>`;
+    }
+    case "bulletList": return `<ul>${children}</ul>`;
+    case "orderedList": return `<ol>${children}</ol>`;
+    case "listItem": return `<li>${children}</li>`;
+    case "blockquote": return `<blockquote>${children}</blockquote>`;
+    case "codeBlock": return `<pre><code>${children}</code></pre>`;
+    case "hardBreak": return "<br>";
+    case "horizontalRule": return "<hr>";
+    case "image": {
+      const src = safeUrl(node.attrs?.src);
+      return src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(node.attrs?.alt || "")}">` : "";
+    }
+    default: return children;
+  }
+}
+
+// ─── Sections ────────────────────────────────────────────────────────────────
+
+export interface SectionData {
+  posts?: { title: string; slug: string; excerpt: string | null; published_at: string }[];
+  faqs?: { question: string; answer: string }[];
+  testimonials?: { client_name: string; client_company: string | null; testimonial_text: string }[];
+  form?: { name: string; description: string | null; slug: string } | null;
+}
+
+type ListItem = Record<string, unknown>;
+
+/** A section's `content` JSON as the page builder saves it; every key is optional. */
+interface SectionContent {
+  heading?: string;
+  title?: string;
+  subheading?: string;
+  subtitle?: string;
+  headline?: string;
+  subheadline?: string;
+  cta_text?: string;
+  ctaText?: string;
+  cta_href?: string;
+  ctaLink?: string;
+  body?: string;
+  text?: string;
+  html?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  offices?: { label?: string; lines?: string[] }[];
+  stats?: { value?: string | number; label?: string }[];
+  members?: { name?: string; title?: string; bio?: string }[];
+  features?: ListItem[];
+  items?: ListItem[];
+  steps?: ListItem[];
+}
+
+function heading(content: SectionContent, fallback = ""): string {
+  const text = content.heading || content.title || fallback;
+  const sub = content.subheading || content.subtitle;
+  return (text ? `<h2>${escapeHtml(text)}</h2>` : "") + (sub ? `<p>${escapeHtml(sub)}</p>` : "");
+}
+
+function itemList(items: ListItem[] | undefined, titleKey: string, textKey: string): string {
+  if (!Array.isArray(items) || items.length === 0) return "";
+  return `<ul>${items.map(i => `<li><strong>${escapeHtml(i?.[titleKey])}</strong> ${escapeHtml(i?.[textKey])}</li>`).join("")}</ul>`;
+}
+
+export function renderSection(type: string, content: SectionContent | null, data: SectionData = {}): string {
+  const c: SectionContent = content || {};
+  let inner = "";
+
+  switch (type) {
+    case "hero":
+      inner = `<h1>${escapeHtml(c.headline || "")}</h1>`
+        + (c.subheadline ? `<p>${escapeHtml(c.subheadline)}</p>` : "")
+        + ((c.cta_text || c.ctaText) ? `<p>${link(c.cta_href || c.ctaLink, c.cta_text || c.ctaText)}</p>` : "");
+      break;
+    case "features":
+      inner = heading(c) + itemList(c.features, "title", "description");
+      break;
+    case "about":
+      inner = heading(c) + richTextToHtml(c.body || c.text || "");
+      break;
+    case "contact":
+      inner = heading(c, "Contact Us")
+        + "<address>"
+        + (c.email ? `<p>${link(`mailto:${c.email}`, c.email)}</p>` : "")
+        + (c.phone ? `<p>${link(`tel:${String(c.phone).replace(/\s/g, "")}`, c.phone)}</p>` : "")
+        + (c.address ? `<p>${escapeHtml(c.address)}</p>` : "")
+        + (Array.isArray(c.offices)
+          ? c.offices.map((o) => `<p><strong>${escapeHtml(o.label)}</strong><br>${(o.lines || []).map(escapeHtml).join("<br>")}</p>`).join("")
+          : "")
+        + "</address>";
+      break;
+    case "stats":
+      inner = Array.isArray(c.stats)
+        ? `<ul>${c.stats.map((s) => `<li><strong>${escapeHtml(s.value)}</strong> ${escapeHtml(s.label)}</li>`).join("")}</ul>`
+        : "";
+      break;
+    case "cta":
+      inner = heading(c) + (c.cta_text ? `<p>${link(c.cta_href, c.cta_text)}</p>` : "");
+      break;
+    case "team":
+      inner = heading(c, "Our Team") + (Array.isArray(c.members)
+        ? c.members.map((m) => `<h3>${escapeHtml(m.name)}</h3><p>${escapeHtml(m.title)}</p><p>${escapeHtml(m.bio)}</p>`).join("")
+        : "");
+      break;
+    case "custom":
+      inner = c.html
+        ? richTextToHtml(c.html)
+        : heading(c) + itemList(c.items, "title", "description") + itemList(c.steps, "title", "description")
+          + (Array.isArray(c.members) ? itemList(c.members, "name", "bio") : "");
+      break;
+    case "blog":
+      inner = heading(c, "Insights") + (data.posts?.length
+        ? `<ul>${data.posts.map(p => `<li>${link(`/blog/${p.slug}`, p.title)}${p.excerpt ? ` — ${escapeHtml(p.excerpt)}` : ""}</li>`).join("")}</ul>`
+        : "");
+      break;
+    case "faq":
+      inner = heading(c, "Frequently Asked Questions")
+        + (data.faqs || []).map(f => `<h3>${escapeHtml(f.question)}</h3><p>${escapeHtml(f.answer)}</p>`).join("");
+      break;
+    case "testimonials":
+      inner = heading(c, "What Our Clients Say")
+        + (data.testimonials || []).map(t =>
+          `<blockquote><p>${escapeHtml(t.testimonial_text)}</p><footer>${escapeHtml([t.client_name, t.client_company].filter(Boolean).join(", "))}</footer></blockquote>`
+        ).join("");
+      break;
+    case "form":
+      inner = heading(c) + (data.form
+        ? `<p>${link(`/forms/${data.form.slug}`, data.form.name)}${data.form.description ? ` — ${escapeHtml(data.form.description)}` : ""}</p>`
+        : "");
+      break;
+    default:
+      inner = heading(c);
+  }
+
+  return inner ? `<section>${inner}</section>` : "";
+}
+
+// ─── Document ────────────────────────────────────────────────────────────────
+
+export interface PageMeta {
+  title: string;
+  description?: string | null;
+  canonicalUrl: string;
+  robots?: string[] | null;
+  keywords?: string[] | null;
+  siteName: string;
+  ogTitle?: string | null;
+  ogDescription?: string | null;
+  ogImage?: string | null;
+  ogType?: string | null;
+  twitterCard?: string | null;
+  twitterTitle?: string | null;
+  twitterDescription?: string | null;
+  twitterImage?: string | null;
+  twitterSite?: string | null;
+  twitterCreator?: string | null;
+  jsonLd?: unknown[];
+  favicon?: string | null;
+}
+
+/** Tags for the document head; the middleware swaps these in for index.html's generic title and description. */
+export function buildHead(meta: PageMeta): string {
+  const tags: string[] = [`<title>${escapeHtml(meta.title)}</title>`];
+  const add = (attr: "name" | "property", key: string, value: unknown) => {
+    if (value !== undefined && value !== null && String(value).trim() !== "") {
+      tags.push(`<meta ${attr}="${key}" content="${escapeHtml(value)}" />`);
+    }
+  };
+
+  add("name", "description", meta.description);
+  if (meta.keywords?.length) add("name", "keywords", meta.keywords.join(", "));
+  if (meta.robots?.length) add("name", "robots", meta.robots.join(", "));
+  tags.push(`<link rel="canonical" href="${escapeHtml(meta.canonicalUrl)}" />`);
+  if (meta.favicon) tags.push(`<link rel="icon" href="${escapeHtml(meta.favicon)}" />`);
+
+  add("property", "og:type", meta.ogType || "website");
+  add("property", "og:site_name", meta.siteName);
+  add("property", "og:title", meta.ogTitle || meta.title);
+  add("property", "og:description", meta.ogDescription || meta.description);
+  add("property", "og:url", meta.canonicalUrl);
+  add("property", "og:image", meta.ogImage);
+
+  add("name", "twitter:card", meta.twitterCard || (meta.ogImage || meta.twitterImage ? "summary_large_image" : "summary"));
+  add("name", "twitter:title", meta.twitterTitle || meta.ogTitle || meta.title);
+  add("name", "twitter:description", meta.twitterDescription || meta.ogDescription || meta.description);
+  add("name", "twitter:image", meta.twitterImage || meta.ogImage);
+  add("name", "twitter:site", meta.twitterSite);
+  add("name", "twitter:creator", meta.twitterCreator);
+
+  for (const schema of meta.jsonLd || []) {
+    // "</" would end the script element early
+    const json = JSON.stringify(schema).replace(/</g, "\\u003c");
+    tags.push(`<script type="application/ld+json">${json}</script>`);
+  }
+
+  return tags.join("\n    ");
+}
+
+export function buildBody(options: {
+  siteName: string;
+  nav: { label: string; href: string }[];
+  main: string;
+}): string {
+  const nav = options.nav
+    .map(item => link(item.href, item.label))
+    .join(" ");
+  return `<header><p>${link("/", options.siteName)}</p>${nav ? `<nav>${nav}</nav>` : ""}</header>
+<main>${options.main}</main>`;
+}
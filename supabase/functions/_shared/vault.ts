@@ -0,0 +1,98 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+/**
+ * Shared helpers for the public Investor Vault data room functions
+ * (get-vault-documents and vault-document). Prospects are identified by an
+ * opaque session token; every lookup here runs with the service role.
+ */
+
+export const VAULT_STAGES = ["prospect", "qualified", "due_diligence", "committed"] as const;
+export type VaultStage = typeof VAULT_STAGES[number];
+
+export function stageRank(stage: string | null | undefined): number {
+  const index = VAULT_STAGES.indexOf((stage ?? "prospect") as VaultStage);
+  return index === -1 ? 0 : index;
+}
+
+export interface VaultSession {
+  id: string;
+  tenant_id: string;
+  grant_id: string | null;
+  viewer_name: string;
+  viewer_email: string;
+  stage: VaultStage;
+  session_token: string;
+  expires_at: string;
+}
+
+export function createServiceClient() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false, autoRefreshToken: false } },
+  );
+}
+
+/**
+ * Loads a live session. Returns null when the token is unknown, the session
+ * has expired, or the access grant behind it has since been revoked or has
+ * lapsed — revoking a grant cuts off open sessions immediately.
+ */
+export async function loadVaultSession(
+  client: ReturnType<typeof createClient>,
+  sessionToken: string,
+): Promise<VaultSession | null> {
+  const { data: session } = await client
+    .from("vault_sessions")
+    .select("id, tenant_id, grant_id, viewer_name, viewer_email, stage, session_token, expires_at")
+    .eq("session_token", sessionToken)
+    .maybeSingle();
+
+  if (!session || new Date(session.expires_at).getTime() <= Date.now()) return null;
+
+  if (session.grant_id) {
+    const { data: grant } = await client
+      .from("vault_access_grants")
+      .select("revoked_at, expires_at")
+      .eq("id", session.grant_id)
+      .maybeSingle();
+    if (!grant || grant.revoked_at || new Date(grant.expires_at).getTime() <= Date.now()) return null;
+  }
+
+  return session as VaultSession;
+}
+
+/**
+ * Returns the active documents visible at the session's stage. A document
+ * is visible when it sits outside any folder or in a folder whose minimum
+ * stage the viewer has reached.
+ */
+export async function loadVisibleDocuments(
+  client: ReturnType<typeof createClient>,
+  tenantId: string,
+  stage: string,
+) {
+  const [{ data: folders, error: foldersError }, { data: documents, error: docsError }] = await Promise.all([
+    client
+      .from("vault_folders")
+      .select("id, name, description, min_stage, sort_order")
+      .eq("tenant_id", tenantId)
+      .order("sort_order", { ascending: true }),
+    client
+      .from("investor_vault_documents")
+      .select("id, document_name, document_type, storage_path, description, sort_order, folder_id, is_key_document")
+      .eq("tenant_id", tenantId)
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true }),
+  ]);
+
+  if (foldersError) throw foldersError;
+  if (docsError) throw docsError;
+
+  const rank = stageRank(stage);
+  const visibleFolders = (folders ?? []).filter((f) => stageRank(f.min_stage) <= rank);
+  const folderIds = new Set(visibleFolders.map((f) => f.id));
+  const visibleDocuments = (documents ?? []).filter((d) => !d.folder_id || folderIds.has(d.folder_id));
+
+  return { folders: visibleFolders, documents: visibleDocuments };
+}
@@ -0,0 +1,162 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { computeAuctionClearing } from "../../../src/lib/auctionClearing.ts";
+
+/**
+ * Exchange Auction Worker
+ *
+ * Invoked by the scheduler with the CRON_SECRET bearer token, like
+ * newsletter-worker. Each active auction-mode `exchange_books` row whose
+ * `next_auction_date` has arrived is cleared at the uniform price the book
+ * supports against its latest approved NAV, through `run_exchange_auction`,
+ * which also rolls the book to its next monthly or quarterly auction. A book
+ * where no bid crosses an ask is rolled forward without trading.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const MAX_BOOKS = 50;
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+interface DueBook {
+  id: string;
+  name: string;
+  fund_id: string;
+  share_class_id: string | null;
+  next_auction_date: string;
+}
+
+interface RestingOrder {
+  side: "bid" | "ask";
+  limit_price: number;
+  quantity: number;
+  quantity_filled: number;
+  expires_at: string | null;
+}
+
+interface AuctionRun {
+  book_id: string;
+  name: string;
+  auction_date: string;
+  price: number | null;
+  fills: number;
+  error?: string;
+}
+
+async function referencePrice(client: ServiceClient, book: DueBook) {
+  let query = client
+    .from("nav_calculations")
+    .select("nav_per_share")
+    .eq("fund_id", book.fund_id)
+    .eq("status", "approved");
+
+  query = book.share_class_id ? query.eq("share_class_id", book.share_class_id) : query.is("share_class_id", null);
+
+  const { data, error } = await query
+    .order("nav_date", { ascending: false })
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? Number((data as { nav_per_share: number }).nav_per_share) : null;
+}
+
+async function runBook(client: ServiceClient, book: DueBook): Promise<AuctionRun> {
+  const { data, error } = await client
+    .from("exchange_book_orders")
+    .select("side, limit_price, quantity, quantity_filled, expires_at")
+    .eq("book_id", book.id)
+    .in("status", ["open", "partially_filled"]);
+  if (error) throw error;
+
+  const now = Date.now();
+  const orders = ((data || []) as RestingOrder[]).filter((o) => !o.expires_at || new Date(o.expires_at).getTime() > now);
+  const remaining = (side: RestingOrder["side"]) => orders
+    .filter((o) => o.side === side)
+    .map((o) => ({ price: Number(o.limit_price), quantity: Number(o.quantity) - Number(o.quantity_filled) }));
+
+  const clearing = computeAuctionClearing(remaining("bid"), remaining("ask"), await referencePrice(client, book));
+
+  const { data: fills, error: runError } = await client.rpc("run_exchange_auction", {
+    p_book_id: book.id,
+    p_price: clearing?.price ?? null,
+  });
+  if (runError) throw runError;
+
+  return {
+    book_id: book.id,
+    name: book.name,
+    auction_date: book.next_auction_date,
+    price: clearing?.price ?? null,
+    fills: (fills as number) || 0,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const cronSecret = Deno.env.get("CRON_SECRET");
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured — rejecting exchange auction run");
+      return new Response(JSON.stringify({ error: "Cron secret not configured" }), {
+        status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: books, error } = await supabase
+      .from("exchange_books")
+      .select("id, name, fund_id, share_class_id, next_auction_date")
+      .eq("is_active", true)
+      .eq("mode", "auction")
+      .lte("next_auction_date", new Date().toISOString().slice(0, 10))
+      .order("next_auction_date", { ascending: true })
+      .limit(MAX_BOOKS);
+    if (error) throw error;
+
+    const runs: AuctionRun[] = [];
+    for (const book of (books || []) as DueBook[]) {
+      try {
+        runs.push(await runBook(supabase, book));
+      } catch (err) {
+        console.error(`exchange-auction-worker book ${book.id} error:`, err);
+        runs.push({
+          book_id: book.id,
+          name: book.name,
+          auction_date: book.next_auction_date,
+          price: null,
+          fills: 0,
+          error: err instanceof Error ? err.message : "Auction failed",
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, auctions: runs, timestamp: new Date().toISOString() }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("exchange-auction-worker error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Exchange auction run failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
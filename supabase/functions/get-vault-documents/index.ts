@@ -1,5 +1,17 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import { createServiceClient, loadVaultSession, loadVisibleDocuments } from "../_shared/vault.ts";
+
+/**
+ * Opens (or resumes) an Investor Vault data room session.
+ *
+ *   { access_token }                                          per-prospect invite link
+ *   { tenant_slug, passphrase, viewer_name, viewer_email }    shared tenant passphrase
+ *   { session_token }                                         resume an open session
+ *
+ * Responds with the session, the tenant and the folders and documents the
+ * viewer's stage may see. Files are never linked directly; they are served
+ * watermarked, and logged, by the vault-document function.
+ */
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,6 +19,8 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+const SESSION_MS = 2 * 60 * 60 * 1000;
+
 function timingSafeEqual(a: string, b: string): boolean {
   const encoder = new TextEncoder();
   const aBytes = encoder.encode(a);
@@ -19,6 +33,19 @@ function timingSafeEqual(a: string, b: string): boolean {
   return diff === 0;
 }
 
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function denied(reason: string, error: string) {
+  // Artificial delay to slow brute-force attempts
+  await new Promise((r) => setTimeout(r, 1200));
+  return json({ error, reason }, 401);
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
@@ -26,105 +53,144 @@ Deno.serve(async (req: Request) => {
 
   try {
     if (req.method !== "POST") {
-      return new Response(JSON.stringify({ error: "Method not allowed" }), {
-        status: 405,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return json({ error: "Method not allowed" }, 405);
     }
 
     const body = await req.json().catch(() => ({}));
-    const { passphrase, tenant_slug } = body as { passphrase?: string; tenant_slug?: string };
-
-    if (!passphrase || !tenant_slug) {
-      return new Response(JSON.stringify({ error: "Missing required fields" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // vault schema is not exposed to PostgREST; use a SECURITY DEFINER RPC instead
-    const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      { auth: { persistSession: false, autoRefreshToken: false } }
-    );
-    const { data: storedPassphraseData } = await supabaseAdmin.rpc(
-      "get_vault_passphrase",
-      { secret_name: "arkline_vault_passphrase" }
-    );
-    const storedPassphrase: string = storedPassphraseData ?? "";
-
-    // Validate passphrase using timing-safe comparison
-    const isValid = timingSafeEqual(passphrase, storedPassphrase);
-
-    if (!isValid) {
-      // Artificial delay to slow brute-force attempts
-      await new Promise((r) => setTimeout(r, 1200));
-      return new Response(JSON.stringify({ error: "Invalid passphrase" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    const { passphrase, tenant_slug, viewer_name, viewer_email, access_token, session_token } = body as {
+      passphrase?: string;
+      tenant_slug?: string;
+      viewer_name?: string;
+      viewer_email?: string;
+      access_token?: string;
+      session_token?: string;
+    };
+
+    const supabase = createServiceClient();
+    const userAgent = req.headers.get("user-agent")?.slice(0, 500) ?? null;
+    const ipAddress = req.headers.get("x-forwarded-for")?.split(",")[0].trim() ?? null;
+
+    let session;
+
+    if (session_token) {
+      session = await loadVaultSession(supabase, session_token);
+      if (!session) {
+        return json({ error: "Your vault session has expired", reason: "session_expired" }, 401);
+      }
+    } else if (access_token) {
+      const { data: grant } = await supabase
+        .from("vault_access_grants")
+        .select("id, tenant_id, prospect_name, prospect_email, stage, expires_at, revoked_at")
+        .eq("access_token", access_token)
+        .maybeSingle();
+
+      if (!grant) return denied("invalid", "This access link is not valid");
+      if (grant.revoked_at) return denied("revoked", "This access link has been withdrawn");
+      if (new Date(grant.expires_at).getTime() <= Date.now()) {
+        return json({ error: "This access link has expired", reason: "expired" }, 401);
+      }
+
+      const expiresAt = Math.min(Date.now() + SESSION_MS, new Date(grant.expires_at).getTime());
+      const { data: created, error: sessionError } = await supabase
+        .from("vault_sessions")
+        .insert({
+          tenant_id: grant.tenant_id,
+          grant_id: grant.id,
+          viewer_name: grant.prospect_name,
+          viewer_email: grant.prospect_email,
+          stage: grant.stage,
+          ip_address: ipAddress,
+          user_agent: userAgent,
+          expires_at: new Date(expiresAt).toISOString(),
+        })
+        .select("id, tenant_id, grant_id, viewer_name, viewer_email, stage, session_token, expires_at")
+        .single();
+      if (sessionError) throw sessionError;
+
+      await supabase
+        .from("vault_access_grants")
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq("id", grant.id);
+
+      session = created;
+    } else {
+      const name = viewer_name?.trim() ?? "";
+      const email = viewer_email?.trim().toLowerCase() ?? "";
+      if (!passphrase || !tenant_slug || !name || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return json({ error: "Missing required fields" }, 400);
+      }
+
+      // Each tenant's passphrase is stored as the vault secret "<slug>_vault_passphrase".
+      // vault schema is not exposed to PostgREST; use a SECURITY DEFINER RPC instead
+      const { data: storedPassphraseData } = await supabase.rpc(
+        "get_vault_passphrase",
+        { secret_name: `${tenant_slug.replace(/[^a-z0-9_-]/gi, "")}_vault_passphrase` }
+      );
+      const storedPassphrase: string = storedPassphraseData ?? "";
+
+      if (!storedPassphrase || !timingSafeEqual(passphrase, storedPassphrase)) {
+        return denied("invalid", "Incorrect passphrase. Please try again.");
+      }
+
+      const { data: tenant } = await supabase
+        .from("platform_tenants")
+        .select("id")
+        .eq("slug", tenant_slug)
+        .maybeSingle();
+      if (!tenant) return json({ error: "Tenant not found" }, 404);
+
+      const { data: settings } = await supabase
+        .from("vault_settings")
+        .select("passphrase_stage")
+        .eq("tenant_id", tenant.id)
+        .maybeSingle();
+
+      const { data: created, error: sessionError } = await supabase
+        .from("vault_sessions")
+        .insert({
+          tenant_id: tenant.id,
+          viewer_name: name.slice(0, 200),
+          viewer_email: email.slice(0, 320),
+          stage: settings?.passphrase_stage ?? "prospect",
+          ip_address: ipAddress,
+          user_agent: userAgent,
+        })
+        .select("id, tenant_id, grant_id, viewer_name, viewer_email, stage, session_token, expires_at")
+        .single();
+      if (sessionError) throw sessionError;
+
+      session = created;
     }
 
-    // Passphrase is correct — fetch documents using service role
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      { auth: { persistSession: false } }
-    );
-
-    // Resolve tenant by slug
-    const { data: tenant, error: tenantError } = await supabase
+    const { data: tenant } = await supabase
       .from("platform_tenants")
-      .select("id")
-      .eq("slug", tenant_slug)
+      .select("id, slug, name")
+      .eq("id", session.tenant_id)
       .maybeSingle();
 
-    if (tenantError || !tenant) {
-      return new Response(JSON.stringify({ error: "Tenant not found" }), {
-        status: 404,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // Fetch active documents for this tenant
-    const { data: documents, error: docsError } = await supabase
-      .from("investor_vault_documents")
-      .select("id, document_name, document_type, storage_path, description, sort_order")
-      .eq("tenant_id", tenant.id)
-      .eq("is_active", true)
-      .order("sort_order", { ascending: true });
+    const { folders, documents } = await loadVisibleDocuments(supabase, session.tenant_id, session.stage);
 
-    if (docsError) {
-      throw docsError;
-    }
-
-    // Generate signed URLs (2-hour expiry) for file documents;
     // internal: paths are served as in-app routes, not storage files.
-    const TWO_HOURS = 60 * 60 * 2;
-    const documentsWithUrls = await Promise.all(
-      (documents ?? []).map(async (doc) => {
-        if (!doc.storage_path) return { ...doc, signed_url: null, internal_path: null };
-        if (doc.storage_path.startsWith("internal:")) {
-          const internalPath = doc.storage_path.replace("internal:", "");
-          return { ...doc, signed_url: null, internal_path: internalPath };
-        }
-        const { data: signedData } = await supabase.storage
-          .from("investor-documents")
-          .createSignedUrl(doc.storage_path, TWO_HOURS);
-        return { ...doc, signed_url: signedData?.signedUrl ?? null, internal_path: null };
-      })
-    );
-
-    return new Response(JSON.stringify({ documents: documentsWithUrls }), {
-      status: 200,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    const visibleDocuments = documents.map(({ storage_path, ...doc }) => ({
+      ...doc,
+      internal_path: storage_path?.startsWith("internal:") ? storage_path.replace("internal:", "") : null,
+      file_type: storage_path?.startsWith("internal:") ? null : storage_path?.split(".").pop()?.toLowerCase() ?? null,
+    }));
+
+    return json({
+      session: {
+        token: session.session_token,
+        expires_at: session.expires_at,
+        viewer_name: session.viewer_name,
+        viewer_email: session.viewer_email,
+        stage: session.stage,
+      },
+      tenant,
+      folders,
+      documents: visibleDocuments,
     });
   } catch (err) {
     console.error("get-vault-documents error:", err);
-    return new Response(JSON.stringify({ error: "Internal server error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return json({ error: "Internal server error" }, 500);
   }
 });
@@ -1,4 +1,5 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { forbiddenResponse, lacksStaffPermission } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -82,7 +83,7 @@ Deno.serve(async (req: Request) => {
     const { data: staffAccount } = await supabaseAuth
       .from('staff_accounts')
       .select('tenant_id')
-      .eq('user_id', caller.id)
+      .eq('auth_user_id', caller.id)
       .maybeSingle();
 
     const tenantId = tenantUser?.tenant_id || staffAccount?.tenant_id;
@@ -102,6 +103,10 @@ Deno.serve(async (req: Request) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    if (await lacksStaffPermission(supabase, caller.id, 'can_manage_nav')) {
+      return forbiddenResponse(corsHeaders, 'can_manage_nav');
+    }
+
     const ibkrGatewayUrl = Deno.env.get('IBKR_GATEWAY_URL') || 'https://localhost:5000';
     const ibkrAccountId = Deno.env.get('IBKR_ACCOUNT_ID');
 
@@ -220,14 +225,32 @@ Deno.serve(async (req: Request) => {
     );
     const totalAUM = totalPositionsValue + accountSummary.totalCashValue;
 
-    const navPerUnit = trustAccount.total_units_outstanding > 0
-      ? totalAUM / trustAccount.total_units_outstanding
-      : 1.00;
+    // Units are held in capital accounts on the trust's pooled_trust fund
+    const { data: trustFund } = await supabase
+      .from('funds')
+      .select('id, share_classes(id, created_at)')
+      .eq('trust_account_id', trustAccount.id)
+      .maybeSingle();
+
+    let totalUnits = Number(trustAccount.total_units_outstanding) || 0;
+    let unitAccounts: { investor_id: string; shares_owned: number }[] = [];
+    if (trustFund) {
+      const { data: accounts } = await supabase
+        .from('capital_accounts')
+        .select('investor_id, shares_owned')
+        .eq('fund_id', trustFund.id)
+        .eq('status', 'active');
+      unitAccounts = accounts || [];
+      totalUnits = unitAccounts.reduce((sum, a) => sum + Number(a.shares_owned || 0), 0);
+    }
+
+    const navPerUnit = totalUnits > 0 ? totalAUM / totalUnits : 1.00;
 
     await supabase
       .from('trust_account')
       .update({
         total_aum: totalAUM,
+        total_units_outstanding: totalUnits,
         current_nav_per_unit: navPerUnit,
         last_sync_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -239,11 +262,55 @@ Deno.serve(async (req: Request) => {
       timestamp: new Date().toISOString(),
       nav_per_unit: navPerUnit,
       total_aum: totalAUM,
-      total_units: trustAccount.total_units_outstanding,
+      total_units: totalUnits,
       total_cash: accountSummary.totalCashValue,
       total_positions_value: totalPositionsValue,
     });
 
+    // The day's closing sync is the trust fund's approved NAV; earlier syncs
+    // the same day are overwritten
+    if (trustFund) {
+      const shareClasses: { id: string; created_at: string }[] = trustFund.share_classes || [];
+      const shareClassId = [...shareClasses].sort((a, b) => a.created_at.localeCompare(b.created_at))[0]?.id || null;
+      const navDate = new Date().toISOString().split('T')[0];
+      const nav = {
+        total_assets: totalAUM,
+        net_asset_value: totalAUM,
+        total_shares: totalUnits,
+        nav_per_share: navPerUnit,
+        calculation_method: 'ibkr_sync',
+        calculated_by: caller.id,
+        approved_by: caller.id,
+        approved_at: new Date().toISOString(),
+        calculation_data: {
+          cash: accountSummary.totalCashValue,
+          positions_value: totalPositionsValue,
+          positions: accountSummary.positions.length,
+        },
+      };
+
+      let existingNav = supabase
+        .from('nav_calculations')
+        .select('id')
+        .eq('fund_id', trustFund.id)
+        .eq('nav_date', navDate)
+        .eq('calculation_method', 'ibkr_sync');
+      existingNav = shareClassId ? existingNav.eq('share_class_id', shareClassId) : existingNav.is('share_class_id', null);
+      const { data: todayNav } = await existingNav.maybeSingle();
+
+      const { error: navError } = todayNav
+        ? await supabase.from('nav_calculations').update(nav).eq('id', todayNav.id)
+        : await supabase.from('nav_calculations').insert({
+          ...nav,
+          fund_id: trustFund.id,
+          share_class_id: shareClassId,
+          nav_date: navDate,
+          version: 1,
+          status: 'approved',
+        });
+      if (navError) console.error('Trust NAV write failed:', navError);
+    }
+
     await supabase
       .from('ibkr_sync_log')
       .update({
@@ -252,22 +319,14 @@ Deno.serve(async (req: Request) => {
       })
       .eq('id', syncLogId);
 
-    const { data: updatedClients } = await supabase
-      .from('client_units')
-      .select('client_id, units_owned')
-      .eq('trust_account_id', trustAccount.id);
-
-    if (updatedClients) {
-      for (const client of updatedClients) {
-        const currentValue = client.units_owned * navPerUnit;
-        await supabase
-          .from('client_profiles')
-          .update({
-            current_value: currentValue,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', client.client_id);
-      }
+    for (const account of unitAccounts) {
+      await supabase
+        .from('client_profiles')
+        .update({
+          current_value: Number(account.shares_owned || 0) * navPerUnit,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', account.investor_id);
     }
 
     return new Response(
@@ -0,0 +1,215 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { escapeHtml, extractNewsletterLinks, renderNewsletterBody } from "../_shared/newsletter.ts";
+
+/**
+ * Newsletter Tracking
+ *
+ * Public endpoint (no JWT) linked from every newsletter sent by
+ * newsletter-worker. Recipients are identified by their opaque tracking
+ * token only.
+ *
+ *   GET  ?e=open&t=…          1x1 pixel, records an open
+ *   GET  ?e=click&t=…&l=N     records a click on the Nth link and redirects
+ *   GET  ?e=unsubscribe&t=…   confirmation page
+ *   POST ?e=unsubscribe&t=…   unsubscribes (also RFC 8058 one-click)
+ *   POST ?e=webhook&secret=…  Resend or SendGrid delivery events
+ *
+ * Click redirects only ever go to a link present in the newsletter body, so
+ * the endpoint cannot be used as an open redirect.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const PIXEL = Uint8Array.from(
+  atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+  c => c.charCodeAt(0),
+);
+
+function pixelResponse() {
+  return new Response(PIXEL, {
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0",
+    },
+  });
+}
+
+function htmlPage(title: string, message: string, form?: string) {
+  return new Response(
+    `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#0f172a;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+  <div style="max-width:420px;padding:32px;background:#1e293b;border:1px solid #334155;border-radius:12px;text-align:center;color:#e2e8f0;">
+    <h1 style="font-size:20px;font-weight:600;margin:0 0 12px;color:#fff;">${escapeHtml(title)}</h1>
+    <p style="font-size:14px;color:#94a3b8;margin:0 0 20px;">${message}</p>
+    ${form || ""}
+  </div>
+</body>
+</html>`,
+    { headers: { "Content-Type": "text/html; charset=utf-8" } },
+  );
+}
+
+interface SendGridEvent {
+  event?: string;
+  sg_message_id?: string;
+  email?: string;
+}
+
+interface ResendEvent {
+  type?: string;
+  data?: { email_id?: string; to?: string[] };
+}
+
+/** Maps Resend and SendGrid webhook payloads to (message id, email, event) triples. */
+function parseDeliveryEvents(payload: SendGridEvent[] | ResendEvent | null): { messageId: string; email: string | null; event: string }[] {
+  if (Array.isArray(payload)) {
+    const sendgridEvents: Record<string, string> = {
+      delivered: "delivered",
+      bounce: "bounced",
+      dropped: "bounced",
+      spamreport: "complained",
+    };
+    return payload.flatMap(e => {
+      const event = e.event ? sendgridEvents[e.event] : undefined;
+      if (!event || !e.sg_message_id) return [];
+      // sg_message_id is "<X-Message-Id>.<filter suffix>"
+      return [{ messageId: String(e.sg_message_id).split(".")[0], email: e.email || null, event }];
+    });
+  }
+
+  const resendEvents: Record<string, string> = {
+    "email.delivered": "delivered",
+    "email.bounced": "bounced",
+    "email.complained": "complained",
+  };
+  const event = payload?.type ? resendEvents[payload.type] : undefined;
+  const messageId = payload?.data?.email_id;
+  if (!event || !messageId) return [];
+  const to = payload?.data?.to;
+  const recipients: (string | null)[] = Array.isArray(to) ? to : [null];
+  return recipients.map(email => ({ messageId, email, event }));
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const event = url.searchParams.get("e");
+  const token = url.searchParams.get("t") || "";
+  const siteUrl = Deno.env.get("SITE_URL") || "https://clearnav.cv";
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  try {
+    if (event === "open") {
+      const { error } = await supabase.rpc("record_newsletter_event", { p_token: token, p_event: "open" });
+      if (error) console.error("Open tracking failed:", error);
+      return pixelResponse();
+    }
+
+    if (event === "click") {
+      const { data: recipient } = await supabase
+        .from("newsletter_recipients")
+        .select("newsletter:newsletters!newsletter_id(content)")
+        .eq("tracking_token", token)
+        .maybeSingle();
+
+      const content = (recipient?.newsletter as { content: string } | null)?.content;
+      const links = content ? extractNewsletterLinks(renderNewsletterBody(content)) : [];
+      const index = url.searchParams.get("l");
+      const target = index === null ? undefined : links[Number(index)];
+      if (!target) {
+        return Response.redirect(siteUrl, 302);
+      }
+
+      const { error } = await supabase.rpc("record_newsletter_event", { p_token: token, p_event: "click", p_url: target });
+      if (error) console.error("Click tracking failed:", error);
+      return Response.redirect(target, 302);
+    }
+
+    if (event === "unsubscribe") {
+      if (req.method === "GET") {
+        const { data: recipient } = await supabase
+          .from("newsletter_recipients")
+          .select("email, unsubscribed_at")
+          .eq("tracking_token", token)
+          .maybeSingle();
+
+        if (!recipient) {
+          return htmlPage("Link expired", "This unsubscribe link is no longer valid.");
+        }
+        if (recipient.unsubscribed_at) {
+          return htmlPage("Unsubscribed", `${escapeHtml(recipient.email)} is already unsubscribed.`);
+        }
+        return htmlPage(
+          "Unsubscribe",
+          `Stop sending newsletters to ${escapeHtml(recipient.email)}?`,
+          `<form method="POST"><button type="submit" style="padding:10px 20px;background:#0891b2;color:#fff;border:0;border-radius:6px;font-size:14px;cursor:pointer;">Unsubscribe</button></form>`,
+        );
+      }
+
+      const { data, error } = await supabase.rpc("unsubscribe_newsletter_recipient", { p_token: token });
+      if (error) throw error;
+      if (!data) {
+        return htmlPage("Link expired", "This unsubscribe link is no longer valid.");
+      }
+      return htmlPage(
+        "Unsubscribed",
+        `${escapeHtml(data.email)} will no longer receive newsletters from ${escapeHtml(data.tenant_name || "this sender")}.`,
+      );
+    }
+
+    if (event === "webhook" && req.method === "POST") {
+      const webhookSecret = Deno.env.get("NEWSLETTER_WEBHOOK_SECRET");
+      if (!webhookSecret) {
+        console.error("NEWSLETTER_WEBHOOK_SECRET not configured — rejecting delivery webhook");
+        return new Response(JSON.stringify({ error: "Webhook secret not configured" }), {
+          status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (url.searchParams.get("secret") !== webhookSecret) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const events = parseDeliveryEvents(await req.json());
+      let matched = 0;
+      for (const e of events) {
+        const { data, error } = await supabase.rpc("record_newsletter_delivery_event", {
+          p_provider_message_id: e.messageId,
+          p_email: e.email,
+          p_event: e.event,
+        });
+        if (error) throw error;
+        matched += data || 0;
+      }
+
+      return new Response(JSON.stringify({ success: true, received: events.length, matched }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: "Unknown event" }), {
+      status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("newsletter-tracking error:", error);
+    if (event === "open") return pixelResponse();
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Tracking failed" }), {
+      status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
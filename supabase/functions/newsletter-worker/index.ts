@@ -0,0 +1,164 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { type OutgoingEmail, resolveEmailProvider, resolveSender, sendEmailBatch } from "../_shared/emailProvider.ts";
+import { buildNewsletterHtml, buildNewsletterText, renderNewsletterBody, trackingUrl } from "../_shared/newsletter.ts";
+
+/**
+ * Newsletter Delivery Worker
+ *
+ * Invoked by the scheduler with the CRON_SECRET bearer token, like
+ * ibkr-scheduled-sync. Each run moves due scheduled newsletters to `sending`,
+ * then works through the pending recipients of every sending newsletter in
+ * batches until the queue drains or the run's time budget is spent; the next
+ * run picks up where this one stopped.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+const TIME_BUDGET_MS = 45000;
+
+/** A recipient row leased by `claim_newsletter_batch`. */
+interface ClaimedRecipient {
+  id: string;
+  email: string;
+  tracking_token: string;
+  attempts: number | null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const cronSecret = Deno.env.get("CRON_SECRET");
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured — rejecting newsletter run");
+      return new Response(JSON.stringify({ error: "Cron secret not configured" }), {
+        status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const startedAt = Date.now();
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const trackingBase = `${supabaseUrl}/functions/v1/newsletter-tracking`;
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_due_newsletters");
+    if (claimError) throw claimError;
+
+    const { data: newsletters, error: listError } = await supabase
+      .from("newsletters")
+      .select("id, tenant_id, subject, content")
+      .eq("status", "sending")
+      .order("send_started_at", { ascending: true });
+    if (listError) throw listError;
+
+    const summary: { newsletter_id: string; sent: number; failed: number; completed: boolean; error?: string }[] = [];
+
+    for (const newsletter of newsletters || []) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+
+      const provider = await resolveEmailProvider(supabase, newsletter.tenant_id);
+      if (!provider) {
+        await supabase
+          .from("newsletters")
+          .update({ last_error: "No email provider configured for this tenant" })
+          .eq("id", newsletter.id);
+        summary.push({ newsletter_id: newsletter.id, sent: 0, failed: 0, completed: false, error: "no_provider" });
+        continue;
+      }
+
+      const { tenantName, from, replyTo } = await resolveSender(supabase, newsletter.tenant_id, provider.settings, "newsletter");
+      const body = renderNewsletterBody(newsletter.content);
+      let sent = 0;
+      let failed = 0;
+
+      while (Date.now() - startedAt < TIME_BUDGET_MS) {
+        const { data, error: batchError } = await supabase.rpc("claim_newsletter_batch", {
+          p_newsletter_id: newsletter.id,
+          p_limit: BATCH_SIZE,
+        });
+        if (batchError) throw batchError;
+        const batch = (data || []) as ClaimedRecipient[];
+        if (!batch.length) break;
+
+        const messages: OutgoingEmail[] = batch.map((r) => {
+          const unsubscribeUrl = trackingUrl(trackingBase, r.tracking_token, "unsubscribe");
+          return {
+            from,
+            to: [r.email],
+            subject: newsletter.subject,
+            html: buildNewsletterHtml({ body, subject: newsletter.subject, tenantName, baseUrl: trackingBase, token: r.tracking_token }),
+            text: buildNewsletterText(newsletter.content, unsubscribeUrl, tenantName),
+            reply_to: replyTo,
+            headers: {
+              "List-Unsubscribe": `<${unsubscribeUrl}>`,
+              "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+            },
+          };
+        });
+
+        const results = await sendEmailBatch(provider, messages);
+        const now = new Date().toISOString();
+
+        for (let i = 0; i < batch.length; i++) {
+          const recipient = batch[i];
+          const result = results[i];
+          if (result.success) {
+            sent++;
+            await supabase
+              .from("newsletter_recipients")
+              .update({ status: "sent", sent_at: now, provider_message_id: result.message_id, error_message: null, updated_at: now })
+              .eq("id", recipient.id);
+          } else {
+            failed++;
+            // Left pending, the lease expires and a later run retries it
+            const giveUp = (recipient.attempts || 0) >= MAX_ATTEMPTS;
+            await supabase
+              .from("newsletter_recipients")
+              .update({ status: giveUp ? "failed" : "pending", error_message: result.error || "Send failed", updated_at: now })
+              .eq("id", recipient.id);
+          }
+        }
+
+        if (failed > 0 && sent === 0) {
+          await supabase
+            .from("newsletters")
+            .update({ last_error: results.find(r => !r.success)?.error || "Send failed" })
+            .eq("id", newsletter.id);
+          break;
+        }
+      }
+
+      const { data: completed, error: completeError } = await supabase.rpc("complete_newsletter_if_done", {
+        p_newsletter_id: newsletter.id,
+      });
+      if (completeError) throw completeError;
+
+      summary.push({ newsletter_id: newsletter.id, sent, failed, completed: !!completed });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, claimed, newsletters: summary, timestamp: new Date().toISOString() }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("newsletter-worker error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Newsletter run failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
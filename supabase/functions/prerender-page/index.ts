@@ -0,0 +1,488 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  buildBody,
+  buildHead,
+  escapeHtml,
+  renderSection,
+  renderTipTap,
+  SectionData,
+} from "../_shared/prerender.ts";
+
+/**
+ * Prerender Page
+ *
+ * Public endpoint (no JWT) called by the Vercel edge middleware when a crawler
+ * or link unfurler requests a tenant website, and for every `/robots.txt` and
+ * `/sitemap.xml` request on a tenant domain.
+ *
+ *   GET ?domain=<host>&path=<pathname>
+ *   → { status, content_type, head, body }
+ *
+ * For HTML routes `head` holds the title/meta/Open Graph/JSON-LD tags and
+ * `body` the page markup; the middleware splices both into index.html. For
+ * the text routes `body` is the complete response.
+ *
+ * Output is cached in `prerendered_pages`. Triggers on the content tables
+ * clear a tenant's rows when anything is saved; the TTL covers blog posts
+ * whose scheduled publish time passes without a write.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const PLATFORM_DOMAIN = "clearnav.cv";
+const HTML = "text/html; charset=utf-8";
+
+interface Rendered {
+  status: number;
+  content_type: string;
+  head: string | null;
+  body: string;
+}
+
+interface Site {
+  tenantId: string;
+  slug: string;
+  name: string;
+  baseUrl: string;
+  siteStatus: string;
+  logoUrl: string | null;
+  faviconUrl: string | null;
+  nav: { label: string; href: string }[];
+}
+
+interface NavMenuItem {
+  label?: string;
+  href?: string;
+  external?: boolean;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function normalizePath(raw: string): string {
+  let path = raw.split(/[?#]/)[0] || "/";
+  if (!path.startsWith("/")) path = `/${path}`;
+  path = path.replace(/\/{2,}/g, "/");
+  if (path.length > 1) path = path.replace(/\/$/, "");
+  return path.toLowerCase() === "/home" ? "/" : path;
+}
+
+async function resolveTenantId(client: SupabaseClient, domain: string): Promise<string | null> {
+  const bare = domain.replace(/^www\./, "");
+  const { data: domainRow } = await client
+    .from("tenant_domains")
+    .select("tenant_id")
+    .in("domain", [bare, `www.${bare}`])
+    .eq("is_verified", true)
+    .limit(1)
+    .maybeSingle();
+
+  if (domainRow?.tenant_id) return domainRow.tenant_id;
+
+  const parts = bare.split(".");
+  if (parts.length >= 3 && bare.endsWith(`.${PLATFORM_DOMAIN}`)) {
+    const { data: tenant } = await client
+      .from("platform_tenants")
+      .select("id")
+      .eq("slug", parts[0])
+      .maybeSingle();
+    return tenant?.id ?? null;
+  }
+
+  return null;
+}
+
+async function loadSite(client: SupabaseClient, tenantId: string, domain: string): Promise<Site | null> {
+  const [{ data: tenant }, { data: settings }, { data: theme }, { data: menu }] = await Promise.all([
+    client.from("platform_tenants").select("slug, name, status").eq("id", tenantId).maybeSingle(),
+    client.from("tenant_settings").select("branding, site_status").eq("tenant_id", tenantId).maybeSingle(),
+    client.from("site_themes").select("logo_url, favicon_url").eq("tenant_id", tenantId).eq("is_active", true).maybeSingle(),
+    client.from("navigation_menus").select("items").eq("tenant_id", tenantId).eq("menu_type", "header").maybeSingle(),
+  ]);
+
+  if (!tenant || !["active", "trial"].includes(tenant.status)) return null;
+
+  const nav = (Array.isArray(menu?.items) ? menu.items : [])
+    .filter((item: NavMenuItem) => item?.label && item?.href && !item.external)
+    .map((item: NavMenuItem) => ({ label: String(item.label), href: String(item.href) }));
+
+  return {
+    tenantId,
+    slug: tenant.slug,
+    name: settings?.branding?.company_name || tenant.name,
+    baseUrl: `https://${domain}`,
+    siteStatus: settings?.site_status || "live",
+    logoUrl: theme?.logo_url || null,
+    faviconUrl: theme?.favicon_url || null,
+    nav,
+  };
+}
+
+function organizationSchema(site: Site) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Organization",
+    name: site.name,
+    url: site.baseUrl,
+    ...(site.logoUrl && !site.logoUrl.startsWith("data:") ? { logo: site.logoUrl } : {}),
+  };
+}
+
+function notFound(site: Site, path: string): Rendered {
+  return {
+    status: 404,
+    content_type: HTML,
+    head: buildHead({
+      title: `Page Not Found | ${site.name}`,
+      canonicalUrl: `${site.baseUrl}${path}`,
+      robots: ["noindex"],
+      siteName: site.name,
+      favicon: site.faviconUrl,
+    }),
+    body: buildBody({ siteName: site.name, nav: site.nav, main: "<h1>Page not found</h1>" }),
+  };
+}
+
+// ─── Routes ──────────────────────────────────────────────────────────────────
+
+function renderRobots(site: Site): Rendered {
+  const lines = site.siteStatus === "live"
+    ? ["User-agent: *", "Allow: /", "Disallow: /login", "Disallow: /portal", "", `Sitemap: ${site.baseUrl}/sitemap.xml`]
+    : ["User-agent: *", "Disallow: /"];
+  return { status: 200, content_type: "text/plain; charset=utf-8", head: null, body: lines.join("\n") + "\n" };
+}
+
+async function renderSitemap(client: SupabaseClient, site: Site): Promise<Rendered> {
+  const { data, error } = await client.rpc("generate_sitemap_xml", {
+    p_tenant_id: site.tenantId,
+    p_base_url: site.baseUrl,
+  });
+  if (error) throw error;
+  return { status: 200, content_type: "application/xml; charset=utf-8", head: null, body: data as string };
+}
+
+async function renderSitePage(client: SupabaseClient, site: Site, path: string): Promise<Rendered> {
+  const pageSlug = path === "/" ? "home" : path.slice(1);
+  if (pageSlug.includes("/")) return notFound(site, path);
+
+  const [{ data: page }, { data: sections }, { data: seo }] = await Promise.all([
+    client
+      .from("site_pages")
+      .select("slug, title, meta_description")
+      .eq("tenant_id", site.tenantId)
+      .eq("slug", pageSlug)
+      .eq("is_published", true)
+      .maybeSingle(),
+    client
+      .from("website_content")
+      .select("section_type, content")
+      .eq("tenant_id", site.tenantId)
+      .eq("page_slug", pageSlug)
+      .eq("is_published", true)
+      .order("section_order"),
+    client
+      .from("website_seo_settings")
+      .select("*")
+      .eq("tenant_id", site.tenantId)
+      .eq("page_slug", pageSlug)
+      .maybeSingle(),
+  ]);
+
+  // The home page renders from its sections even before a site_pages row exists
+  if (!page && !(pageSlug === "home" && sections?.length)) return notFound(site, path);
+
+  const types = new Set((sections || []).map((s) => s.section_type));
+  const data: SectionData = {};
+  const now = new Date().toISOString();
+
+  await Promise.all([
+    types.has("blog") && client
+      .from("blog_posts")
+      .select("title, slug, excerpt, published_at")
+      .eq("tenant_id", site.tenantId)
+      .eq("status", "published")
+      .lte("published_at", now)
+      .order("published_at", { ascending: false })
+      .limit(6)
+      .then(({ data: rows }) => { data.posts = rows || []; }),
+    types.has("faq") && client
+      .from("faq_items")
+      .select("question, answer")
+      .eq("tenant_id", site.tenantId)
+      .eq("is_active", true)
+      .order("display_order")
+      .then(({ data: rows }) => { data.faqs = rows || []; }),
+    types.has("testimonials") && client
+      .from("testimonials")
+      .select("client_name, client_company, testimonial_text")
+      .eq("tenant_id", site.tenantId)
+      .eq("is_active", true)
+      .order("display_order")
+      .then(({ data: rows }) => { data.testimonials = rows || []; }),
+  ]);
+
+  const mainParts: string[] = [];
+  for (const section of sections || []) {
+    let sectionData = data;
+    if (section.section_type === "form" && section.content?.form_slug) {
+      const { data: form } = await client
+        .from("custom_forms")
+        .select("name, description, slug")
+        .eq("tenant_id", site.tenantId)
+        .eq("slug", section.content.form_slug)
+        .eq("is_active", true)
+        .maybeSingle();
+      sectionData = { ...data, form };
+    }
+    mainParts.push(renderSection(section.section_type, section.content, sectionData));
+  }
+
+  const pageTitle = page?.title || "Home";
+  const defaultTitle = pageSlug === "home" ? site.name : `${pageTitle} | ${site.name}`;
+  const canonicalUrl = seo?.canonical_url || `${site.baseUrl}${path}`;
+  const jsonLd: unknown[] = [];
+  if (seo?.schema_markup && Object.keys(seo.schema_markup).length > 0) {
+    jsonLd.push(...(Array.isArray(seo.schema_markup) ? seo.schema_markup : [seo.schema_markup]));
+  } else if (pageSlug === "home") {
+    jsonLd.push(organizationSchema(site));
+  }
+
+  return {
+    status: 200,
+    content_type: HTML,
+    head: buildHead({
+      title: seo?.meta_title || defaultTitle,
+      description: seo?.meta_description || page?.meta_description,
+      keywords: seo?.meta_keywords,
+      canonicalUrl,
+      robots: seo?.robots_directives,
+      siteName: site.name,
+      ogTitle: seo?.og_title,
+      ogDescription: seo?.og_description,
+      ogImage: seo?.og_image_url,
+      ogType: seo?.og_type,
+      twitterCard: seo?.twitter_card_type,
+      twitterTitle: seo?.twitter_title,
+      twitterDescription: seo?.twitter_description,
+      twitterImage: seo?.twitter_image_url,
+      twitterSite: seo?.twitter_site,
+      twitterCreator: seo?.twitter_creator,
+      jsonLd,
+      favicon: site.faviconUrl,
+    }),
+    body: buildBody({ siteName: site.name, nav: site.nav, main: mainParts.join("\n") }),
+  };
+}
+
+async function renderBlogIndex(client: SupabaseClient, site: Site): Promise<Rendered> {
+  const { data: posts } = await client
+    .from("blog_posts")
+    .select("title, slug, excerpt, published_at")
+    .eq("tenant_id", site.tenantId)
+    .eq("status", "published")
+    .lte("published_at", new Date().toISOString())
+    .order("published_at", { ascending: false })
+    .limit(100);
+
+  const title = `Insights | ${site.name}`;
+  const description = `Articles and updates from ${site.name}.`;
+
+  return {
+    status: 200,
+    content_type: HTML,
+    head: buildHead({
+      title,
+      description,
+      canonicalUrl: `${site.baseUrl}/blog`,
+      siteName: site.name,
+      jsonLd: [{
+        "@context": "https://schema.org",
+        "@type": "Blog",
+        name: title,
+        url: `${site.baseUrl}/blog`,
+        publisher: organizationSchema(site),
+      }],
+      favicon: site.faviconUrl,
+    }),
+    body: buildBody({
+      siteName: site.name,
+      nav: site.nav,
+      main: `<h1>Insights</h1>${renderSection("blog", { heading: "" }, { posts: posts || [] })}`,
+    }),
+  };
+}
+
+async function renderBlogPost(client: SupabaseClient, site: Site, slug: string, path: string): Promise<Rendered> {
+  const { data: post } = await client
+    .from("blog_posts")
+    .select("title, slug, excerpt, content, featured_image_url, meta_title, meta_description, meta_keywords, author_name, published_at, updated_at")
+    .eq("tenant_id", site.tenantId)
+    .eq("slug", slug)
+    .eq("status", "published")
+    .lte("published_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (!post) return notFound(site, path);
+
+  const url = `${site.baseUrl}/blog/${post.slug}`;
+  const description = post.meta_description || post.excerpt;
+
+  return {
+    status: 200,
+    content_type: HTML,
+    head: buildHead({
+      title: `${post.meta_title || post.title} | ${site.name}`,
+      description,
+      keywords: post.meta_keywords,
+      canonicalUrl: url,
+      siteName: site.name,
+      ogTitle: post.meta_title || post.title,
+      ogType: "article",
+      ogImage: post.featured_image_url,
+      jsonLd: [{
+        "@context": "https://schema.org",
+        "@type": "BlogPosting",
+        headline: post.title,
+        description: description || undefined,
+        image: post.featured_image_url || undefined,
+        datePublished: post.published_at,
+        dateModified: post.updated_at || post.published_at,
+        author: post.author_name
+          ? { "@type": "Person", name: post.author_name }
+          : { "@type": "Organization", name: site.name },
+        publisher: organizationSchema(site),
+        mainEntityOfPage: url,
+      }],
+      favicon: site.faviconUrl,
+    }),
+    body: buildBody({
+      siteName: site.name,
+      nav: site.nav,
+      main: `<article><h1>${escapeHtml(post.title)}</h1>`
+        + `<p><time datetime="${escapeHtml(post.published_at)}">${escapeHtml(post.published_at.slice(0, 10))}</time>`
+        + (post.author_name ? ` · ${escapeHtml(post.author_name)}` : "")
+        + "</p>"
+        + renderTipTap(post.content)
+        + "</article>",
+    }),
+  };
+}
+
+async function renderFormPage(client: SupabaseClient, site: Site, slug: string, path: string): Promise<Rendered> {
+  const { data: form } = await client
+    .from("custom_forms")
+    .select("name, description, slug")
+    .eq("tenant_id", site.tenantId)
+    .eq("slug", slug)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (!form) return notFound(site, path);
+
+  return {
+    status: 200,
+    content_type: HTML,
+    head: buildHead({
+      title: `${form.name} | ${site.name}`,
+      description: form.description,
+      canonicalUrl: `${site.baseUrl}${path}`,
+      siteName: site.name,
+      favicon: site.faviconUrl,
+    }),
+    body: buildBody({
+      siteName: site.name,
+      nav: site.nav,
+      main: `<h1>${escapeHtml(form.name)}</h1>${form.description ? `<p>${escapeHtml(form.description)}</p>` : ""}`,
+    }),
+  };
+}
+
+async function render(client: SupabaseClient, site: Site, path: string): Promise<Rendered> {
+  if (path === "/robots.txt") return renderRobots(site);
+  if (path === "/sitemap.xml") return await renderSitemap(client, site);
+  if (path === "/blog") return await renderBlogIndex(client, site);
+
+  const blogMatch = path.match(/^\/blog\/([^/]+)$/);
+  if (blogMatch) return await renderBlogPost(client, site, decodeURIComponent(blogMatch[1]), path);
+
+  const formMatch = path.match(/^\/forms\/([^/]+)$/);
+  if (formMatch) return await renderFormPage(client, site, decodeURIComponent(formMatch[1]), path);
+
+  return await renderSitePage(client, site, path);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const domain = (params.get("domain") || "").toLowerCase().split(":")[0];
+    const path = normalizePath(params.get("path") || "/");
+
+    if (!domain) return json({ error: "domain is required" }, 400);
+
+    const client = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const tenantId = await resolveTenantId(client, domain);
+    if (!tenantId) return json({ error: "Unknown domain" }, 404);
+
+    const { data: cached } = await client
+      .from("prerendered_pages")
+      .select("status_code, content_type, head, body, rendered_at")
+      .eq("tenant_id", tenantId)
+      .eq("path", path)
+      .maybeSingle();
+
+    if (cached && Date.now() - new Date(cached.rendered_at).getTime() < CACHE_TTL_MS) {
+      return json({
+        status: cached.status_code,
+        content_type: cached.content_type,
+        head: cached.head,
+        body: cached.body,
+      });
+    }
+
+    const site = await loadSite(client, tenantId, domain);
+    if (!site) return json({ error: "Unknown domain" }, 404);
+
+    const rendered = await render(client, site, path);
+
+    // 404s aren't cached so probing arbitrary paths can't grow the table
+    if (rendered.status === 200) {
+      const { error: cacheError } = await client.from("prerendered_pages").upsert({
+        tenant_id: tenantId,
+        path,
+        status_code: rendered.status,
+        content_type: rendered.content_type,
+        head: rendered.head,
+        body: rendered.body,
+        rendered_at: new Date().toISOString(),
+      });
+      if (cacheError) console.error("Failed to cache prerendered page:", cacheError);
+    }
+
+    return json(rendered);
+  } catch (error) {
+    console.error("Error prerendering page:", error);
+    return json({ error: error instanceof Error ? error.message : "Failed to prerender page" }, 500);
+  }
+});
@@ -0,0 +1,195 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { resolveEmailProvider, resolveSender, sendEmail } from "../_shared/emailProvider.ts";
+import { escapeHtml } from "../_shared/newsletter.ts";
+import {
+  FILING_REGISTRATION_STATUSES,
+  OPEN_FILING_STATUSES,
+  REMINDER_DAYS,
+  daysUntil,
+  reminderDue,
+  syncFilingCalendar,
+} from "../../../src/lib/filingCalendar.ts";
+
+/**
+ * Regulatory Calendar Worker
+ *
+ * Invoked daily by the scheduler with the CRON_SECRET bearer token, like
+ * report-schedule-worker. For every tenant with a fund mapped to a
+ * regulatory framework it regenerates the coming year's filings in
+ * `regulatory_reporting_calendar`, then emails one reminder digest to the
+ * tenant's compliance staff (admins, compliance managers and staff with
+ * can_view_compliance) listing open filings that have reached a reminder
+ * threshold or are overdue. Each threshold is recorded in `reminders_sent`
+ * once the digest is sent, so it is not repeated; a failed send is retried
+ * on the next run.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const TIME_BUDGET_MS = 45000;
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+interface Reminder {
+  id: string;
+  threshold: number;
+  sent: number[];
+  line: string;
+}
+
+interface CalendarEntry {
+  id: string;
+  report_name: string;
+  due_date: string;
+  report_period_end: string | null;
+  filing_status: string;
+  reminders_sent: number[] | null;
+  funds: { fund_name: string } | null;
+}
+
+async function complianceRecipients(client: ServiceClient, tenantId: string): Promise<string[]> {
+  const { data, error } = await client
+    .from("staff_accounts")
+    .select("email")
+    .eq("tenant_id", tenantId)
+    .eq("status", "active")
+    .or("role.in.(admin,compliance_manager),permissions->>can_view_compliance.eq.true");
+  if (error) throw error;
+  return Array.from(new Set((data || []).map((s: { email: string }) => s.email).filter(Boolean)));
+}
+
+async function dueReminders(client: ServiceClient, tenantId: string, today: Date): Promise<Reminder[]> {
+  const horizon = new Date(today.getTime() + Math.max(...REMINDER_DAYS) * 24 * 60 * 60 * 1000);
+  const { data, error } = await client
+    .from("regulatory_reporting_calendar")
+    .select("id, report_name, due_date, report_period_end, filing_status, reminders_sent, funds(fund_name)")
+    .eq("tenant_id", tenantId)
+    .in("filing_status", OPEN_FILING_STATUSES)
+    .lte("due_date", horizon.toISOString().slice(0, 10))
+    .order("due_date", { ascending: true });
+  if (error) throw error;
+
+  const reminders: Reminder[] = [];
+  for (const entry of (data || []) as CalendarEntry[]) {
+    const sent = entry.reminders_sent || [];
+    const threshold = reminderDue(entry.due_date, sent, today);
+    if (threshold === null) continue;
+
+    const days = daysUntil(entry.due_date, today);
+    const when = days < 0 ? `overdue since ${entry.due_date}` : days === 0 ? "due today" : `due ${entry.due_date} (${days} day${days === 1 ? "" : "s"})`;
+    const draft = entry.filing_status === "in_progress" ? "draft in progress" : "not started";
+    reminders.push({
+      id: entry.id,
+      threshold,
+      sent,
+      line: `${entry.report_name} - ${entry.funds?.fund_name || "Fund"}, period ending ${entry.report_period_end || "-"}: ${when}, ${draft}`,
+    });
+  }
+  return reminders;
+}
+
+async function sendDigest(client: ServiceClient, tenantId: string, to: string[], reminders: Reminder[]) {
+  const provider = await resolveEmailProvider(client, tenantId);
+  if (!provider) return false;
+  const sender = await resolveSender(client, tenantId, provider.settings, "compliance");
+
+  const overdue = reminders.filter((r) => r.threshold === 0).length;
+  const subject = overdue > 0
+    ? `${overdue} regulatory filing${overdue === 1 ? "" : "s"} overdue`
+    : `${reminders.length} regulatory filing${reminders.length === 1 ? "" : "s"} coming due`;
+  const intro = "The following regulatory filings need attention. Assemble and review each draft in the Compliance Center's Filing Calendar before submitting it.";
+
+  const result = await sendEmail(provider, {
+    from: sender.from,
+    to,
+    subject,
+    text: `${intro}\n\n${reminders.map((r) => `- ${r.line}`).join("\n")}\n\n${sender.tenantName}`,
+    html: `<div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;font-size:14px;color:#1e293b;">
+  <p>${escapeHtml(intro)}</p>
+  <ul>${reminders.map((r) => `<li>${escapeHtml(r.line)}</li>`).join("")}</ul>
+  <p style="color:#64748b;">${escapeHtml(sender.tenantName)}</p>
+</div>`,
+    reply_to: sender.replyTo,
+  });
+  if (!result.success) console.error("regulatory-calendar-worker email failed:", result.error);
+  return result.success;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const cronSecret = Deno.env.get("CRON_SECRET");
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured — rejecting regulatory calendar run");
+      return new Response(JSON.stringify({ error: "Cron secret not configured" }), {
+        status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const startedAt = Date.now();
+    const today = new Date();
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: mappings, error: listError } = await supabase
+      .from("regulatory_framework_fund_mappings")
+      .select("tenant_id")
+      .in("registration_status", FILING_REGISTRATION_STATUSES);
+    if (listError) throw listError;
+
+    const tenantIds = Array.from(new Set((mappings || []).map((m: { tenant_id: string }) => m.tenant_id)));
+    const summary: { tenant_id: string; added: number; reminders: number; error?: string }[] = [];
+
+    for (const tenantId of tenantIds) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+
+      try {
+        const added = await syncFilingCalendar(supabase, tenantId, today);
+        const reminders = await dueReminders(supabase, tenantId, today);
+        const recipients = reminders.length > 0 ? await complianceRecipients(supabase, tenantId) : [];
+
+        let reminded = 0;
+        if (recipients.length > 0 && await sendDigest(supabase, tenantId, recipients, reminders)) {
+          for (const reminder of reminders) {
+            await supabase
+              .from("regulatory_reporting_calendar")
+              .update({ reminders_sent: [...reminder.sent, reminder.threshold] })
+              .eq("id", reminder.id);
+          }
+          reminded = reminders.length;
+        }
+
+        summary.push({ tenant_id: tenantId, added, reminders: reminded });
+      } catch (err) {
+        console.error(`regulatory-calendar-worker tenant ${tenantId} failed:`, err);
+        summary.push({ tenant_id: tenantId, added: 0, reminders: 0, error: err instanceof Error ? err.message : "Calendar run failed" });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, tenants: summary, timestamp: new Date().toISOString() }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("regulatory-calendar-worker error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Regulatory calendar run failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
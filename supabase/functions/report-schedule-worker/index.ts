@@ -0,0 +1,405 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { type EmailProvider, resolveEmailProvider, resolveSender, sendEmail } from "../_shared/emailProvider.ts";
+import { escapeHtml } from "../_shared/newsletter.ts";
+import {
+  calculateStatementFigures,
+  fetchStatementNavs,
+  generateReport,
+  type GeneratedReportContent,
+  type StatementNavs,
+} from "../../../src/lib/reportGenerator.ts";
+import {
+  type RenderedReport,
+  type ReportBranding,
+  type ReportFormat,
+  REPORT_FORMATS,
+  loadReportBranding,
+  renderReport,
+} from "../../../src/lib/reportRender.ts";
+import { pdfToBase64 } from "../../../src/lib/pdfDocument.ts";
+import {
+  type ReportFrequency,
+  type ReportRecipient,
+  nextRunAt,
+  periodLabel,
+  reportTypeLabel,
+  reportingPeriod,
+} from "../../../src/lib/reportSchedule.ts";
+
+/**
+ * Report Schedule Worker
+ *
+ * Invoked by the scheduler with the CRON_SECRET bearer token, like
+ * newsletter-worker. Each due `report_schedules` row is claimed through a
+ * `report_schedule_runs` row for its reporting period, generated with the
+ * app's own report builder, rendered to PDF and stored in `generated-reports`.
+ * Investor statement schedules produce one report and `investor_statements`
+ * row per capital account; accounts whose statement for the period has
+ * already been released are skipped. With `auto_send` the PDFs are emailed
+ * to the schedule's recipients and statements are published to the investor
+ * portal; otherwise statements wait as drafts in Investor Statements. A
+ * failed run is retried an hour later.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BUCKET = "generated-reports";
+const MAX_SCHEDULES = 20;
+const TIME_BUDGET_MS = 45000;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+const STATEMENT_TYPES: Record<ReportFrequency, string> = {
+  monthly: "monthly",
+  quarterly: "quarterly",
+  annually: "annual",
+};
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+interface DueSchedule {
+  id: string;
+  tenant_id: string;
+  report_type: string;
+  report_name: string | null;
+  frequency: ReportFrequency;
+  day_of_period: number;
+  auto_send: boolean;
+  fund_id: string | null;
+  recipients: ReportRecipient[] | null;
+  parameters: { formats?: string[]; fundIds?: string[]; capitalAccountIds?: string[] } | null;
+  next_run_at: string;
+  created_by: string;
+}
+
+interface Delivery {
+  client: ServiceClient;
+  provider: EmailProvider | null;
+  from: string;
+  replyTo?: string;
+  tenantName: string;
+}
+
+async function uploadPdf(client: ServiceClient, path: string, bytes: Uint8Array) {
+  const { error } = await client.storage
+    .from(BUCKET)
+    .upload(path, bytes, { contentType: "application/pdf", upsert: true });
+  if (error) throw error;
+}
+
+async function emailReport(
+  delivery: Delivery,
+  to: string[],
+  subject: string,
+  message: string,
+  files: RenderedReport[],
+) {
+  if (!delivery.provider || to.length === 0) return false;
+  const result = await sendEmail(delivery.provider, {
+    from: delivery.from,
+    to,
+    subject,
+    text: `${message}\n\n${delivery.tenantName}`,
+    html: `<div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;font-size:14px;color:#1e293b;">
+  <p>${escapeHtml(message)}</p>
+  <p style="color:#64748b;">${escapeHtml(delivery.tenantName)}</p>
+</div>`,
+    reply_to: delivery.replyTo,
+    attachments: files.map((f) => ({ filename: f.filename, content: pdfToBase64(f.bytes), content_type: f.contentType })),
+  });
+  if (!result.success) console.error("report-schedule-worker email failed:", result.error);
+  return result.success;
+}
+
+/** Claims the run for this schedule and period; null when another worker holds it. */
+async function claimRun(client: ServiceClient, schedule: DueSchedule, period: { start: string; end: string }) {
+  const { data: inserted, error } = await client
+    .from("report_schedule_runs")
+    .insert({ tenant_id: schedule.tenant_id, schedule_id: schedule.id, period_start: period.start, period_end: period.end })
+    .select("id")
+    .maybeSingle();
+  if (!error) return inserted?.id as string;
+  if (error.code !== "23505") throw error;
+
+  // The period has run before: re-run it unless a recent run is still going
+  const { data: existing } = await client
+    .from("report_schedule_runs")
+    .select("id, status, started_at")
+    .eq("schedule_id", schedule.id)
+    .eq("period_start", period.start)
+    .maybeSingle();
+  if (!existing) return null;
+  if (existing.status === "running" && Date.now() - new Date(existing.started_at).getTime() < STALE_RUN_MS) return null;
+
+  const { error: resetError } = await client
+    .from("report_schedule_runs")
+    .update({ status: "running", report_ids: [], delivered_count: 0, error: null, started_at: new Date().toISOString(), completed_at: null })
+    .eq("id", existing.id);
+  if (resetError) throw resetError;
+  return existing.id as string;
+}
+
+async function runStatements(
+  schedule: DueSchedule,
+  period: { start: string; end: string },
+  label: string,
+  branding: ReportBranding,
+  delivery: Delivery,
+) {
+  const { client } = delivery;
+  const recipients = schedule.recipients || [];
+  const emailInvestors = schedule.auto_send && recipients.some((r) => r.type === "investors");
+  const reportIds: string[] = [];
+  let delivered = 0;
+
+  let accountsQuery = client
+    .from("capital_accounts")
+    .select("id, fund_id, account_number, shares_owned, investor:client_profiles!investor_id(full_name, email)")
+    .eq("tenant_id", schedule.tenant_id)
+    .eq("status", "active");
+  if (schedule.fund_id) accountsQuery = accountsQuery.eq("fund_id", schedule.fund_id);
+  const { data: accounts, error: accountsError } = await accountsQuery;
+  if (accountsError) throw accountsError;
+
+  // Re-running a period replaces its drafts but never touches statements staff have already released
+  const { data: existing } = await client
+    .from("investor_statements")
+    .select("id, capital_account_id, status")
+    .eq("tenant_id", schedule.tenant_id)
+    .eq("period_start", period.start)
+    .eq("period_end", period.end);
+  const released = new Set((existing || []).filter((s) => s.status !== "draft").map((s) => s.capital_account_id));
+  const drafts = (existing || []).filter((s) => s.status === "draft").map((s) => s.id);
+  if (drafts.length > 0) {
+    await client.from("investor_statements").delete().in("id", drafts);
+  }
+
+  const navsByFund = new Map<string, StatementNavs>();
+
+  for (const account of accounts || []) {
+    if (released.has(account.id)) continue;
+    const investor = account.investor as { full_name: string | null; email: string | null } | null;
+    const investorName = investor?.full_name || account.account_number;
+
+    const { reportId, content, error } = await generateReport({
+      reportType: "investor_statement",
+      reportName: `${schedule.report_name || "Investor Statement"} - ${label} - ${investorName}`,
+      periodStart: period.start,
+      periodEnd: period.end,
+      fundIds: [account.fund_id],
+      capitalAccountIds: [account.id],
+      tenantId: schedule.tenant_id,
+      generatedBy: schedule.created_by,
+    }, client);
+    if (error || !reportId || !content) throw new Error(error || "Statement generation failed");
+    reportIds.push(reportId);
+
+    const pdf = await renderReport(content, "pdf", branding, "Investor Statement", `${investorName}  |  ${label}`);
+    const path = `${schedule.tenant_id}/statements/${account.id}/${reportId}.pdf`;
+    await uploadPdf(client, path, pdf.bytes);
+
+    if (!navsByFund.has(account.fund_id)) {
+      navsByFund.set(account.fund_id, await fetchStatementNavs(client, account.fund_id, period.start, period.end));
+    }
+    const figures = await calculateStatementFigures(client, account, navsByFund.get(account.fund_id)!, period.start, period.end);
+
+    const now = new Date().toISOString();
+    const { error: statementError } = await client.from("investor_statements").insert({
+      tenant_id: schedule.tenant_id,
+      capital_account_id: account.id,
+      fund_id: account.fund_id,
+      statement_date: period.end,
+      period_start: period.start,
+      period_end: period.end,
+      statement_type: STATEMENT_TYPES[schedule.frequency] || "on_demand",
+      ...figures,
+      report_id: reportId,
+      file_path: path,
+      status: schedule.auto_send ? "sent" : "draft",
+      sent_at: schedule.auto_send ? now : null,
+      created_by: schedule.created_by,
+    });
+    if (statementError) throw statementError;
+
+    await client
+      .from("reports")
+      .update({ file_url: path, file_size: pdf.bytes.length, status: schedule.auto_send ? "sent" : "generated", sent_at: schedule.auto_send ? now : null })
+      .eq("id", reportId);
+
+    if (schedule.auto_send) delivered++;
+    if (emailInvestors && investor?.email) {
+      await emailReport(
+        delivery,
+        [investor.email],
+        `Your ${label} statement from ${delivery.tenantName}`,
+        `Dear ${investorName}, your investor statement for ${label} is attached. It is also available in your investor portal.`,
+        [{ ...pdf, filename: `statement-${period.end}.pdf` }],
+      );
+    }
+  }
+
+  return { reportIds, delivered };
+}
+
+async function runReport(
+  schedule: DueSchedule,
+  period: { start: string; end: string },
+  label: string,
+  branding: ReportBranding,
+  delivery: Delivery,
+) {
+  const { client } = delivery;
+  const title = schedule.report_name || reportTypeLabel(schedule.report_type);
+
+  const { reportId, content, error } = await generateReport({
+    reportType: schedule.report_type,
+    reportName: `${title} - ${label}`,
+    periodStart: period.start,
+    periodEnd: period.end,
+    fundIds: schedule.fund_id ? [schedule.fund_id] : (schedule.parameters?.fundIds || []),
+    capitalAccountIds: schedule.parameters?.capitalAccountIds || [],
+    tenantId: schedule.tenant_id,
+    generatedBy: schedule.created_by,
+  }, client);
+  if (error || !reportId || !content) throw new Error(error || "Report generation failed");
+
+  const pdf = await renderReport(content as GeneratedReportContent, "pdf", branding, title, label);
+  const path = `${schedule.tenant_id}/reports/${reportId}.pdf`;
+  await uploadPdf(client, path, pdf.bytes);
+
+  const emails = (schedule.recipients || [])
+    .flatMap((r) => (r.type === "email" && r.email ? [r.email] : []));
+  let sent = false;
+  if (schedule.auto_send) {
+    // The PDF is always stored; recipients get whichever formats the schedule asks for
+    const formats = (schedule.parameters?.formats || ["pdf"])
+      .filter((f): f is ReportFormat => REPORT_FORMATS.some((known) => known.value === f));
+    const files = await Promise.all(formats.map((format) =>
+      format === "pdf" ? pdf : renderReport(content as GeneratedReportContent, format, branding, title, label)));
+    sent = await emailReport(
+      delivery,
+      emails,
+      `${title} - ${label}`,
+      `The scheduled ${title} for ${label} is attached.`,
+      files.length > 0 ? files : [pdf],
+    );
+  }
+
+  await client
+    .from("reports")
+    .update({ file_url: path, file_size: pdf.bytes.length, status: sent ? "sent" : "generated", sent_at: sent ? new Date().toISOString() : null })
+    .eq("id", reportId);
+
+  return { reportIds: [reportId], delivered: sent ? emails.length : 0 };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const cronSecret = Deno.env.get("CRON_SECRET");
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured — rejecting report schedule run");
+      return new Response(JSON.stringify({ error: "Cron secret not configured" }), {
+        status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const startedAt = Date.now();
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: schedules, error: listError } = await supabase
+      .from("report_schedules")
+      .select("*")
+      .eq("is_active", true)
+      .lte("next_run_at", new Date().toISOString())
+      .order("next_run_at", { ascending: true })
+      .limit(MAX_SCHEDULES);
+    if (listError) throw listError;
+
+    const summary: { schedule_id: string; period?: string; reports: number; delivered: number; error?: string }[] = [];
+
+    for (const schedule of (schedules || []) as DueSchedule[]) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+
+      const frequency = schedule.frequency;
+      const runAt = new Date(schedule.next_run_at);
+      const period = reportingPeriod(frequency, runAt);
+      const label = periodLabel(frequency, period);
+
+      const runId = await claimRun(supabase, schedule, period);
+      if (!runId) {
+        summary.push({ schedule_id: schedule.id, period: period.start, reports: 0, delivered: 0, error: "already_running" });
+        continue;
+      }
+
+      try {
+        const branding = await loadReportBranding(supabase, schedule.tenant_id);
+        const provider = schedule.auto_send ? await resolveEmailProvider(supabase, schedule.tenant_id) : null;
+        const sender = provider
+          ? await resolveSender(supabase, schedule.tenant_id, provider.settings, "reports")
+          : { tenantName: branding.tenantName, from: "", replyTo: undefined };
+        const delivery: Delivery = { client: supabase, provider, ...sender };
+
+        const result = schedule.report_type === "investor_statement"
+          ? await runStatements(schedule, period, label, branding, delivery)
+          : await runReport(schedule, period, label, branding, delivery);
+
+        const now = new Date();
+        await supabase
+          .from("report_schedule_runs")
+          .update({ status: "completed", report_ids: result.reportIds, delivered_count: result.delivered, completed_at: now.toISOString() })
+          .eq("id", runId);
+        await supabase
+          .from("report_schedules")
+          .update({
+            last_run_at: now.toISOString(),
+            next_run_at: nextRunAt(frequency, schedule.day_of_period, runAt).toISOString(),
+            last_error: null,
+            updated_at: now.toISOString(),
+          })
+          .eq("id", schedule.id);
+
+        summary.push({ schedule_id: schedule.id, period: period.start, reports: result.reportIds.length, delivered: result.delivered });
+      } catch (err) {
+        console.error(`report-schedule-worker schedule ${schedule.id} failed:`, err);
+        const message = err instanceof Error ? err.message : "Report run failed";
+        await supabase
+          .from("report_schedule_runs")
+          .update({ status: "failed", error: message, completed_at: new Date().toISOString() })
+          .eq("id", runId);
+        await supabase
+          .from("report_schedules")
+          .update({ last_error: message, next_run_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() })
+          .eq("id", schedule.id);
+        summary.push({ schedule_id: schedule.id, period: period.start, reports: 0, delivered: 0, error: message });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, schedules: summary, timestamp: new Date().toISOString() }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("report-schedule-worker error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Report schedule run failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -2,21 +2,12 @@ import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
 import { requireUser, unauthorizedResponse } from "../_shared/auth.ts";
 
-const ALLOWED_ORIGINS = [
-  "https://arklinetrust.com",
-  "https://www.arklinetrust.com",
-  "https://arkline.vercel.app",
-];
-
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowed = origin && ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
-  return {
-    "Access-Control-Allow-Origin": allowed,
-    "Access-Control-Allow-Methods": "POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
-    "Vary": "Origin",
-  };
-}
+// Applications are submitted from each tenant's own domain
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
 
 const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY") ?? "";
 
@@ -46,10 +37,90 @@ function section(title: string, rows: string) {
   `;
 }
 
-Deno.serve(async (req: Request) => {
-  const origin = req.headers.get("origin");
-  const corsHeaders = getCorsHeaders(origin);
+// ─── Schema-driven applications ───────────────────────────────────────────────
+// Mirrors the visibility rules in src/lib/applicationSchema.ts.
+
+interface SchemaField {
+  id: string;
+  type: string;
+  label: string;
+  options?: { value: string; label: string }[];
+  investor_types?: string[];
+  visible_when?: { field: string; equals?: string | boolean; in?: string[] }[];
+  sensitive?: boolean;
+  fields?: SchemaField[];
+  item_label?: string;
+}
+
+interface FormSchema {
+  title: string;
+  notification_emails?: string[];
+  investor_types: { value: string; label: string }[];
+  sections: { id: string; title: string; investor_types?: string[]; visible_when?: SchemaField["visible_when"]; fields: SchemaField[] }[];
+}
+
+interface AttachmentValue {
+  name: string;
+  path: string;
+  size: number;
+}
+
+type FieldValue = string | boolean | null | string[] | AttachmentValue | Values[];
+
+interface Values {
+  [fieldId: string]: FieldValue;
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function isShown(item: { investor_types?: string[]; visible_when?: SchemaField["visible_when"] }, investorType: string, values: Values) {
+  if (item.investor_types?.length && !item.investor_types.includes(investorType)) return false;
+  return (item.visible_when || []).every((c) => {
+    const actual = c.field === "investor_type" ? investorType : values[c.field];
+    if (c.in) {
+      if (Array.isArray(actual)) return actual.some((v) => typeof v === "string" && c.in!.includes(v));
+      return typeof actual === "string" && c.in.includes(actual);
+    }
+    if (c.equals !== undefined) return Array.isArray(actual) ? actual.some((v) => v === c.equals) : actual === c.equals;
+    return actual !== null && actual !== undefined && actual !== "" && actual !== false;
+  });
+}
+
+function displayValue(field: SchemaField, value: FieldValue | undefined): string {
+  if (value === null || value === undefined || value === "") return "";
+  const label = (v: string) => field.options?.find((o) => o.value === v)?.label ?? v;
+  switch (field.type) {
+    case "yes_no": return value === true ? "Yes" : value === false ? "No" : "";
+    case "checkbox": return value === true ? "Yes" : "";
+    case "checkboxes": return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string").map(label).join(", ") : "";
+    case "select":
+    case "radio": return label(String(value));
+    case "attachment": return typeof value === "object" && !Array.isArray(value) && value.name ? `Attached: ${value.name}` : "";
+    default: return typeof value === "string" ? value : "";
+  }
+}
+
+function fieldRows(fields: SchemaField[], investorType: string, formValues: Values, values: Values, prefix = ""): string {
+  return fields
+    .filter((field) => field.type !== "note" && isShown(field, investorType, { ...formValues, ...values }))
+    .map((field) => {
+      if (field.sensitive) return "";
+      if (field.type === "group") {
+        const group = values[field.id];
+        const items = Array.isArray(group) ? group.filter((item): item is Values => typeof item === "object") : [];
+        return items
+          .map((item, i) => fieldRows(field.fields || [], investorType, formValues, item, `${prefix}${field.item_label || field.label} ${i + 1} · `))
+          .join("");
+      }
+      const text = displayValue(field, values[field.id]);
+      return text ? row(escapeHtml(prefix + field.label), escapeHtml(text)) : "";
+    })
+    .join("");
+}
 
+Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
   }
@@ -95,7 +166,25 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    const investorTypeLabel = INVESTOR_TYPE_LABELS[app.investor_type] ?? app.investor_type ?? "Unknown";
+    const { data: tenant } = await supabase
+      .from("platform_tenants")
+      .select("name")
+      .eq("id", app.tenant_id)
+      .maybeSingle();
+    const tenantName: string = tenant?.name ?? "Investor Applications";
+
+    let schema: FormSchema | null = null;
+    if (app.schema_id) {
+      const { data: schemaRow } = await supabase
+        .from("application_form_schemas")
+        .select("schema")
+        .eq("id", app.schema_id)
+        .maybeSingle();
+      schema = (schemaRow?.schema as FormSchema) ?? null;
+    }
+
+    const investorTypeLabel = schema?.investor_types.find((t) => t.value === app.investor_type)?.label
+      ?? INVESTOR_TYPE_LABELS[app.investor_type] ?? app.investor_type ?? "Unknown";
 
     // Determine primary display name
     let primaryName = "";
@@ -113,6 +202,7 @@ Deno.serve(async (req: Request) => {
     if (app.invest_class_a && app.amount_class_a) investments.push(`Class A: A$${app.amount_class_a}`);
     if (app.invest_class_b && app.amount_class_b) investments.push(`Class B: A$${app.amount_class_b}`);
     if (app.invest_class_c && app.amount_class_c) investments.push(`Class C: A$${app.amount_class_c}`);
+    if (schema && app.total_committed_capital) investments.push(`Total committed: ${Number(app.total_committed_capital).toLocaleString("en-AU")}`);
 
     const contactRows = [
       row("Name", [app.contact_given_names, app.contact_surname].filter(Boolean).join(" ")),
@@ -177,6 +267,15 @@ Deno.serve(async (req: Request) => {
       row("Account Name", app.bank_account_name),
     ].join("");
 
+    // Forms built from a schema list every answered field by section; sensitive fields are left out
+    const responses = app.responses as { values?: Values } | null;
+    const schemaSections = schema && responses?.values
+      ? schema.sections
+        .filter((sec) => isShown(sec, app.investor_type, responses.values!))
+        .map((sec) => section(escapeHtml(sec.title), fieldRows(sec.fields, app.investor_type, responses.values!, responses.values!)))
+        .join("")
+      : "";
+
     const htmlBody = `
 <!DOCTYPE html>
 <html>
@@ -186,9 +285,9 @@ Deno.serve(async (req: Request) => {
 
     <!-- Header -->
     <div style="background:#0E2219;padding:28px 32px;display:flex;align-items:center;gap:12px;">
-      <div style="width:36px;height:36px;border-radius:4px;background:#B8934A;display:flex;align-items:center;justify-content:center;font-weight:700;font-size:16px;color:#0E2219;">A</div>
+      <div style="width:36px;height:36px;border-radius:4px;background:#B8934A;display:flex;align-items:center;justify-content:center;font-weight:700;font-size:16px;color:#0E2219;">${escapeHtml(tenantName.charAt(0).toUpperCase())}</div>
       <div>
-        <div style="color:#F5F2EE;font-size:17px;font-weight:500;letter-spacing:0.12em;text-transform:uppercase;">Arkline Trust</div>
+        <div style="color:#F5F2EE;font-size:17px;font-weight:500;letter-spacing:0.12em;text-transform:uppercase;">${escapeHtml(tenantName)}</div>
         <div style="color:#B8934A;font-size:11px;letter-spacing:0.1em;text-transform:uppercase;margin-top:2px;">New Application Received</div>
       </div>
     </div>
@@ -203,23 +302,24 @@ Deno.serve(async (req: Request) => {
         ${application_id ? `&nbsp;|&nbsp; ID: <code style="font-size:12px;background:#f3f4f6;padding:2px 6px;border-radius:3px;">${application_id}</code>` : ""}
       </p>
 
+      ${schemaSections || `
       ${section("Contact Details", contactRows)}
       ${section("Investment Details", investmentRows)}
       ${sectionARows ? section("Individual / Applicant A", sectionARows) : ""}
       ${sectionBRows ? section("Joint Applicant B", sectionBRows) : ""}
       ${sectionCRows ? section("Company Details", sectionCRows) : ""}
       ${sectionDRows ? section("Trust Details", sectionDRows) : ""}
-      ${bankRows ? section("Bank Account", bankRows) : ""}
+      ${bankRows ? section("Bank Account", bankRows) : ""}`}
 
       <div style="margin-top:32px;padding:16px;background:#fff8ed;border-radius:6px;border:1px solid #f3e0b5;">
         <p style="margin:0;font-size:13px;color:#92600a;">
-          <strong>Sensitive fields omitted from this email.</strong> TFN, bank account numbers, and BSB are stored securely and must be accessed via the admin portal.
+          <strong>Sensitive fields omitted from this email.</strong> Tax file numbers, bank account details and other sensitive answers are stored securely and must be accessed via the admin portal.
         </p>
       </div>
 
       <div style="margin-top:12px;padding:16px;background:#f9fafb;border-radius:6px;border:1px solid #e5e7eb;">
         <p style="margin:0;font-size:13px;color:#6b7280;">
-          Log in to the Arkline admin portal to review the full application and attached documents.
+          Log in to the admin portal to review the full application and attached documents.
         </p>
       </div>
     </div>
@@ -227,18 +327,26 @@ Deno.serve(async (req: Request) => {
     <!-- Footer -->
     <div style="background:#f9fafb;border-top:1px solid #e5e7eb;padding:20px 32px;">
       <p style="margin:0;font-size:12px;color:#9ca3af;text-align:center;">
-        Arkline Trust &nbsp;·&nbsp; Level 6, 111 Cecil Street, South Melbourne VIC 3205 &nbsp;·&nbsp; enquiries@arklinetrust.com
+        ${escapeHtml(tenantName)}${schema ? ` &nbsp;·&nbsp; ${escapeHtml(schema.title)}` : ""}
       </p>
     </div>
   </div>
 </body>
 </html>`;
 
-    const textBody = `New Arkline Trust Application\n\nApplicant: ${primaryName || "—"}\nType: ${investorTypeLabel}\nEmail: ${app.contact_email || "—"}\nPhone: ${app.contact_phone || "—"}\nInvestment: ${investments.join(", ") || "—"}\n\nApplication ID: ${application_id}\n\nSensitive fields (TFN, bank details) are excluded from this notification.\nLog in to the admin portal to review the full application.`;
+    const textBody = `New ${tenantName} Application\n\nApplicant: ${primaryName || "—"}\nType: ${investorTypeLabel}\nEmail: ${app.contact_email || "—"}\nPhone: ${app.contact_phone || "—"}\nInvestment: ${investments.join(", ") || "—"}\n\nApplication ID: ${application_id}\n\nSensitive fields (tax file numbers, bank details) are excluded from this notification.\nLog in to the admin portal to review the full application.`;
+
+    const recipients = schema ? schema.notification_emails ?? [] : ["noah@key13.co"];
+    if (recipients.length === 0) {
+      return new Response(JSON.stringify({ ok: true, skipped: "No notification recipients configured" }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     const emailPayload = {
-      from: "Arkline Trust <applications@clearnav.cv>",
-      to: ["noah@key13.co"],
+      from: `${tenantName} <applications@clearnav.cv>`,
+      to: recipients,
       subject: `New Application – ${primaryName || "Unknown Applicant"} (${investorTypeLabel})`,
       html: htmlBody,
       text: textBody,
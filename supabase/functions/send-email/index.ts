@@ -1,6 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { checkRateLimit, rateLimitResponse } from "../_shared/rateLimit.ts";
+import { forbiddenResponse, lacksStaffPermission } from "../_shared/auth.ts";
+import { type EmailAttachment, resolveEmailProvider, sendEmail } from "../_shared/emailProvider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,12 +10,6 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-interface AttachmentPayload {
-  filename: string;
-  content: string; // base64
-  content_type: string;
-}
-
 interface SendEmailPayload {
   account_id: string;
   to: string[];
@@ -23,34 +19,7 @@ interface SendEmailPayload {
   body_text?: string;
   body_html?: string;
   reply_to?: string;
-  attachments?: AttachmentPayload[];
-}
-
-async function sendViaResend(apiKey: string, payload: {
-  from: string;
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
-  subject: string;
-  text?: string;
-  html?: string;
-  reply_to?: string;
-  attachments?: AttachmentPayload[];
-}): Promise<{ success: boolean; message_id: string | null; error?: string }> {
-  const res = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
-
-  const data = await res.json();
-  if (res.ok) {
-    return { success: true, message_id: data.id };
-  }
-  return { success: false, message_id: null, error: data.message || JSON.stringify(data) };
+  attachments?: EmailAttachment[];
 }
 
 Deno.serve(async (req: Request) => {
@@ -86,6 +55,10 @@ Deno.serve(async (req: Request) => {
       return rateLimitResponse(rateLimitResult.resetAt);
     }
 
+    if (await lacksStaffPermission(supabase, user.id, "can_send_communications")) {
+      return forbiddenResponse(corsHeaders, "can_send_communications");
+    }
+
     const payload: SendEmailPayload = await req.json();
     const { account_id, to, cc, bcc, subject, body_text, body_html, reply_to, attachments } = payload;
 
@@ -139,91 +112,25 @@ Deno.serve(async (req: Request) => {
 
     let providerResult = { success: false, provider: "none", message_id: null as string | null };
 
-    const { data: emailSettings } = await supabase
-      .from("tenant_email_settings")
-      .select("*")
-      .eq("tenant_id", account.tenant_id)
-      .eq("is_active", true)
-      .maybeSingle();
-
-    const tenantApiKey = emailSettings?.api_key_encrypted || null;
-    let platformApiKey = Deno.env.get("RESEND_API_KEY") || null;
-
-    if (!platformApiKey) {
-      const { data: vaultSecret } = await supabase
-        .from("vault.decrypted_secrets")
-        .select("decrypted_secret")
-        .eq("name", "RESEND_API_KEY")
-        .maybeSingle();
-      if (vaultSecret?.decrypted_secret) {
-        platformApiKey = vaultSecret.decrypted_secret;
-      }
-    }
-
-    const resendKey = tenantApiKey || platformApiKey;
+    const provider = await resolveEmailProvider(supabase, account.tenant_id);
 
-    if (resendKey) {
-      const fromAddress = `${account.display_name} <${account.email_address}>`;
-
-      if (emailSettings?.provider_type === "sendgrid" && tenantApiKey) {
-        const sgPayload: any = {
-          personalizations: [{
-            to: to.map(email => ({ email })),
-            cc: cc?.map(email => ({ email })),
-            bcc: bcc?.map(email => ({ email })),
-          }],
-          from: { email: account.email_address, name: account.display_name },
-          reply_to: { email: reply_to || account.email_address },
-          subject,
-          content: [
-            ...(body_text ? [{ type: "text/plain", value: body_text }] : []),
-            ...(body_html ? [{ type: "text/html", value: body_html }] : []),
-          ],
-        };
-
-        if (attachments?.length) {
-          sgPayload.attachments = attachments.map((a) => ({
-            filename: a.filename,
-            content: a.content,
-            type: a.content_type,
-            disposition: "attachment",
-          }));
-        }
-
-        const sgRes = await fetch("https://api.sendgrid.com/v3/mail/send", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${tenantApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(sgPayload),
-        });
-
-        if (sgRes.ok || sgRes.status === 202) {
-          providerResult = { success: true, provider: "sendgrid", message_id: sgRes.headers.get("X-Message-Id") };
-        } else {
-          const sgData = await sgRes.json().catch(() => ({}));
-          throw new Error(`SendGrid error: ${JSON.stringify(sgData)}`);
-        }
-      } else {
-        const result = await sendViaResend(resendKey, {
-          from: fromAddress,
-          to,
-          cc: cc || [],
-          bcc: bcc || [],
-          subject,
-          text: body_text,
-          html: body_html,
-          reply_to: reply_to || account.email_address,
-          attachments: attachments?.length ? attachments : undefined,
-        });
+    if (provider) {
+      const result = await sendEmail(provider, {
+        from: `${account.display_name} <${account.email_address}>`,
+        to,
+        cc,
+        bcc,
+        subject,
+        text: body_text,
+        html: body_html,
+        reply_to: reply_to || account.email_address,
+        attachments,
+      });
 
-        if (result.success) {
-          providerResult = { success: true, provider: "resend", message_id: result.message_id };
-        } else {
-          throw new Error(`Resend error: ${result.error}`);
-        }
+      if (!result.success) {
+        throw new Error(result.error);
       }
+      providerResult = { success: true, provider: provider.type, message_id: result.message_id };
     }
 
     const { data: savedMessage, error: saveError } = await supabase
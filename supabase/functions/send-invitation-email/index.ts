@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { forbiddenResponse, lacksStaffPermission } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -127,6 +128,10 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (await lacksStaffPermission(supabase, caller.id, "can_send_communications")) {
+      return forbiddenResponse(corsHeaders, "can_send_communications");
+    }
+
     const { email, token, role, userType, tenantName, tenantId, customMessage, templateId, recipientName }: InvitationRequest = await req.json();
 
     const serviceClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
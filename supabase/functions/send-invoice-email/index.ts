@@ -1,6 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { PDFDocument, rgb, StandardFonts } from "npm:pdf-lib@1.17.1";
+import { forbiddenResponse, lacksStaffPermission } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -430,6 +431,10 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    if (await lacksStaffPermission(supabase, user.id, "can_send_communications")) {
+      return forbiddenResponse(corsHeaders, "can_send_communications");
+    }
+
     const payload: SendInvoicePayload = await req.json();
     const { invoice_id, to_emails, cc_emails } = payload;
     if (!invoice_id) {
@@ -0,0 +1,301 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { requireUser } from "../_shared/auth.ts";
+import { resolveEmailProvider, resolveSender, sendEmail } from "../_shared/emailProvider.ts";
+import { escapeHtml } from "../_shared/newsletter.ts";
+import { checkRateLimit, rateLimitResponse } from "../_shared/rateLimit.ts";
+
+/**
+ * Submit Form
+ *
+ * Public endpoint (no JWT) behind custom forms embedded on tenant websites.
+ * Submissions are validated against the form's field definitions and written
+ * with the service role; anon clients can no longer insert into
+ * form_submissions directly.
+ *
+ * Likely spam (honeypot filled, submitted implausibly fast, link-stuffed) is
+ * still stored, with status `spam` and no notification, so staff can review
+ * it. The caller gets the same success response either way.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const MIN_FILL_MS = 3000;
+const MAX_LINKS = 3;
+const MAX_VALUE_LENGTH = 10000;
+const HOURLY_LIMIT_PER_IP = 20;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function clientIp(req: Request): string | null {
+  const raw = req.headers.get("x-forwarded-for")?.split(",")[0].trim() || req.headers.get("x-real-ip") || "";
+  // Only IPv4/IPv6 literals are stored; the column is inet
+  return /^[0-9a-fA-F:.]+$/.test(raw) ? raw : null;
+}
+
+type FieldOption = string | { value?: string; label?: string };
+
+type SubmittedValue = string | number | boolean | string[];
+
+interface FormField {
+  id: string;
+  field_name: string;
+  field_label: string | null;
+  field_type: string;
+  options: FieldOption[] | { choices?: FieldOption[] } | null;
+  is_required: boolean;
+  min_length: number | null;
+  max_length: number | null;
+  pattern: string | null;
+  validation_message: string | null;
+}
+
+interface SubmissionBody {
+  tenant_id?: string;
+  form_id?: string;
+  values?: Record<string, unknown> | null;
+  started_at?: unknown;
+  website?: unknown;
+  referrer?: unknown;
+}
+
+function fieldOptions(field: FormField): string[] {
+  const raw = Array.isArray(field.options) ? field.options : field.options?.choices;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((o) => (typeof o === "string" ? o : o?.value ?? o?.label))
+    .filter((o): o is string => !!o);
+}
+
+/** Returns the cleaned values keyed by field name, or the first validation error. */
+function validateSubmission(
+  fields: FormField[],
+  values: Record<string, unknown>,
+): { data?: Record<string, SubmittedValue>; error?: string } {
+  const data: Record<string, SubmittedValue> = {};
+
+  for (const field of fields) {
+    if (field.field_type === "file") continue;
+    const label = field.field_label || field.field_name;
+    const invalid = (fallback: string) => ({ error: field.validation_message || fallback });
+    const raw = values[field.field_name];
+
+    if (field.field_type === "checkbox") {
+      const options = fieldOptions(field);
+      if (options.length > 0) {
+        const ticked = Array.isArray(raw) ? raw.filter((v): v is string => typeof v === "string" && options.includes(v)) : [];
+        if (field.is_required && ticked.length === 0) return invalid(`${label} is required`);
+        data[field.field_name] = ticked;
+      } else {
+        const checked = raw === true;
+        if (field.is_required && !checked) return invalid(`${label} is required`);
+        data[field.field_name] = checked;
+      }
+      continue;
+    }
+
+    const value = raw === undefined || raw === null ? "" : String(raw).trim();
+    if (value === "") {
+      if (field.is_required) return invalid(`${label} is required`);
+      continue;
+    }
+    if (value.length > MAX_VALUE_LENGTH) return invalid(`${label} is too long`);
+    if (field.min_length && value.length < field.min_length) return invalid(`${label} must be at least ${field.min_length} characters`);
+    if (field.max_length && value.length > field.max_length) return invalid(`${label} must be at most ${field.max_length} characters`);
+
+    if (field.field_type === "email" && !EMAIL_PATTERN.test(value)) return invalid(`${label} must be a valid email address`);
+    if (field.field_type === "number" && !Number.isFinite(Number(value))) return invalid(`${label} must be a number`);
+    if (field.field_type === "date" && Number.isNaN(Date.parse(value))) return invalid(`${label} must be a valid date`);
+    if ((field.field_type === "select" || field.field_type === "radio") && !fieldOptions(field).includes(value)) {
+      return invalid(`${label} has an invalid selection`);
+    }
+    if (field.pattern) {
+      try {
+        if (!new RegExp(`^(?:${field.pattern})$`).test(value)) return invalid(`${label} is not in the expected format`);
+      } catch {
+        console.error(`Ignoring invalid pattern on form field ${field.id}`);
+      }
+    }
+
+    data[field.field_name] = field.field_type === "number" ? Number(value) : value;
+  }
+
+  return { data };
+}
+
+function looksLikeSpam(body: SubmissionBody, data: Record<string, SubmittedValue>): boolean {
+  if (typeof body.website === "string" && body.website.trim() !== "") return true;
+  if (typeof body.started_at === "number" && Date.now() - body.started_at < MIN_FILL_MS) return true;
+  const text = Object.values(data).filter(v => typeof v === "string").join(" ");
+  return (text.match(/https?:\/\//gi) || []).length > MAX_LINKS;
+}
+
+function firstOfType(fields: FormField[], data: Record<string, SubmittedValue>, type: string, namePattern?: RegExp): string | null {
+  const field = fields.find(f => (f.field_type === type && (!namePattern || namePattern.test(f.field_name))) && data[f.field_name]);
+  return field ? String(data[field.field_name]) : null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const ip = clientIp(req);
+    const rateLimit = checkRateLimit(`submit-form:${ip || "unknown"}`, { maxRequests: 5, windowMs: 60000 });
+    if (!rateLimit.allowed) {
+      const limited = rateLimitResponse(rateLimit.resetAt);
+      Object.entries(corsHeaders).forEach(([k, v]) => limited.headers.set(k, v));
+      return limited;
+    }
+
+    const body: SubmissionBody | null = await req.json().catch(() => null);
+    if (!body?.tenant_id || !body?.form_id || typeof body.values !== "object" || body.values === null) {
+      return json({ error: "tenant_id, form_id and values are required" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: form, error: formError } = await supabase
+      .from("custom_forms")
+      .select("*")
+      .eq("id", body.form_id)
+      .eq("tenant_id", body.tenant_id)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (formError) throw formError;
+    if (!form) {
+      return json({ error: "Form not found" }, 404);
+    }
+
+    let userId: string | null = null;
+    if (form.require_authentication) {
+      const auth = await requireUser(req);
+      if (!auth) {
+        return json({ error: "Please sign in to submit this form" }, 401);
+      }
+      userId = auth.user.id;
+    }
+
+    if (ip) {
+      const { count } = await supabase
+        .from("form_submissions")
+        .select("id", { count: "exact", head: true })
+        .eq("tenant_id", form.tenant_id)
+        .eq("ip_address", ip)
+        .gte("submitted_at", new Date(Date.now() - 3600000).toISOString());
+      if ((count || 0) >= HOURLY_LIMIT_PER_IP) {
+        return json({ error: "Too many submissions. Please try again later." }, 429);
+      }
+    }
+
+    const { data: fields, error: fieldsError } = await supabase
+      .from("form_fields")
+      .select("*")
+      .eq("form_id", form.id)
+      .eq("is_active", true)
+      .order("display_order");
+    if (fieldsError) throw fieldsError;
+    const formFields = (fields || []) as FormField[];
+
+    const { data, error: validationError } = validateSubmission(formFields, body.values);
+    if (validationError || !data) {
+      return json({ error: validationError }, 422);
+    }
+
+    const submitterEmail = firstOfType(formFields, data, "email");
+    const submitterName = firstOfType(formFields, data, "text", /name/i);
+
+    if (!form.allow_multiple_submissions && (submitterEmail || userId)) {
+      let existing = supabase
+        .from("form_submissions")
+        .select("id", { count: "exact", head: true })
+        .eq("form_id", form.id)
+        .neq("status", "spam");
+      existing = userId ? existing.eq("submitter_user_id", userId) : existing.ilike("submitter_email", submitterEmail!);
+      const { count } = await existing;
+      if ((count || 0) > 0) {
+        return json({ error: "You have already submitted this form" }, 409);
+      }
+    }
+
+    const spam = looksLikeSpam(body, data);
+    const { data: submission, error: insertError } = await supabase
+      .from("form_submissions")
+      .insert({
+        form_id: form.id,
+        tenant_id: form.tenant_id,
+        submission_data: data,
+        submitter_name: submitterName,
+        submitter_email: submitterEmail,
+        submitter_user_id: userId,
+        ip_address: ip,
+        user_agent: req.headers.get("user-agent")?.slice(0, 500) || null,
+        referrer_url: typeof body.referrer === "string" ? body.referrer.slice(0, 2000) : req.headers.get("referer"),
+        status: spam ? "spam" : "new",
+      })
+      .select("id")
+      .single();
+    if (insertError) throw insertError;
+
+    if (!spam && form.send_notification_email && form.notification_email) {
+      try {
+        const provider = await resolveEmailProvider(supabase, form.tenant_id);
+        if (provider) {
+          const { from } = await resolveSender(supabase, form.tenant_id, provider.settings, "forms");
+          const rows = formFields
+            .filter(f => data[f.field_name] !== undefined)
+            .map(f => {
+              const submitted = data[f.field_name];
+              const value = Array.isArray(submitted) ? submitted.join(", ") : String(submitted);
+              return { label: f.field_label || f.field_name, value };
+            });
+
+          const result = await sendEmail(provider, {
+            from,
+            to: [form.notification_email],
+            reply_to: submitterEmail || undefined,
+            subject: form.notification_subject || `New submission: ${form.name}`,
+            text: rows.map(r => `${r.label}: ${r.value}`).join("\n"),
+            html: `<h2 style="font-family:sans-serif;">${escapeHtml(form.name)}</h2>
+<table style="font-family:sans-serif;font-size:14px;border-collapse:collapse;">
+${rows.map(r => `<tr><td style="padding:6px 12px 6px 0;color:#6b7280;vertical-align:top;">${escapeHtml(r.label)}</td><td style="padding:6px 0;white-space:pre-wrap;">${escapeHtml(r.value)}</td></tr>`).join("\n")}
+</table>`,
+          });
+          if (!result.success) console.error("Form notification failed:", result.error);
+        } else {
+          console.error(`No email provider configured for tenant ${form.tenant_id}; skipping form notification`);
+        }
+      } catch (notifyError) {
+        // The submission is stored; a failed notification must not fail the request
+        console.error("Form notification failed:", notifyError);
+      }
+    }
+
+    return json({
+      success: true,
+      submission_id: spam ? null : submission.id,
+      message: form.success_message,
+      redirect_url: form.redirect_url,
+    });
+  } catch (error) {
+    console.error("submit-form error:", error);
+    return json({ error: "Submission failed. Please try again." }, 500);
+  }
+});
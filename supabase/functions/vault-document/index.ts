@@ -0,0 +1,254 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { PDFDocument, StandardFonts, degrees, rgb } from "npm:pdf-lib@1.17.1";
+import { resolveEmailProvider, resolveSender, sendEmail } from "../_shared/emailProvider.ts";
+import { escapeHtml } from "../_shared/newsletter.ts";
+import { createServiceClient, loadVaultSession, loadVisibleDocuments, type VaultSession } from "../_shared/vault.ts";
+
+/**
+ * Investor Vault document delivery and tracking.
+ *
+ *   { session_token, document_id, action: "view" | "download" }
+ *       Streams the file. PDFs are stamped on every page with the viewer's
+ *       name and email. Internal (in-app) documents return JSON instead.
+ *       Every call logs a vault_document_events row, whose id is returned
+ *       in the X-Vault-Event-Id header.
+ *   { session_token, event_id, action: "heartbeat", seconds }
+ *       Adds time on document to an open view.
+ *
+ * The first time a session opens a key document, the tenant's vault
+ * notification recipients are emailed.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Expose-Headers": "X-Vault-Event-Id, Content-Disposition",
+};
+
+const MIME_BY_EXT: Record<string, string> = {
+  pdf: "application/pdf",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Standard PDF fonts only cover WinAnsi; anything else would abort drawText. */
+function winAnsi(text: string) {
+  return text.replace(/[–—]/g, "-").replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+async function watermarkPdf(bytes: Uint8Array, session: VaultSession, reference: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const stamp = new Date().toISOString().replace("T", " ").slice(0, 16) + " UTC";
+  const mark = winAnsi(`${session.viewer_name}  ${session.viewer_email}`);
+  const footerText = winAnsi(
+    `Confidential - prepared for ${session.viewer_name} (${session.viewer_email}) on ${stamp}. Ref ${reference}`,
+  );
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize();
+    const angle = Math.atan2(height, width);
+    const diagonal = Math.hypot(width, height);
+    const size = Math.min(44, (diagonal * 0.7) / font.widthOfTextAtSize(mark, 1));
+    const textWidth = font.widthOfTextAtSize(mark, size);
+
+    page.drawText(mark, {
+      x: width / 2 - (textWidth / 2) * Math.cos(angle) + (size / 3) * Math.sin(angle),
+      y: height / 2 - (textWidth / 2) * Math.sin(angle) - (size / 3) * Math.cos(angle),
+      size,
+      font,
+      color: rgb(0.55, 0.55, 0.55),
+      opacity: 0.18,
+      rotate: degrees((angle * 180) / Math.PI),
+    });
+
+    let footer = footerText;
+    while (footer.length > 20 && font.widthOfTextAtSize(footer, 7) > width - 48) {
+      footer = footer.slice(0, -2);
+    }
+    page.drawText(footer, { x: 24, y: 12, size: 7, font, color: rgb(0.4, 0.4, 0.4), opacity: 0.85 });
+  }
+
+  return pdf.save();
+}
+
+async function notifyKeyDocumentOpened(
+  client: ReturnType<typeof createServiceClient>,
+  session: VaultSession,
+  document: { document_name: string },
+  action: string,
+) {
+  const { data: settings } = await client
+    .from("vault_settings")
+    .select("notify_emails")
+    .eq("tenant_id", session.tenant_id)
+    .maybeSingle();
+
+  const recipients: string[] = settings?.notify_emails ?? [];
+  if (recipients.length === 0) return false;
+
+  const provider = await resolveEmailProvider(client, session.tenant_id);
+  if (!provider) return false;
+  const { tenantName, from } = await resolveSender(client, session.tenant_id, provider.settings, "vault");
+
+  const verb = action === "download" ? "downloaded" : "opened";
+  const result = await sendEmail(provider, {
+    from,
+    to: recipients,
+    subject: `${session.viewer_name} ${verb} ${document.document_name}`,
+    text: `${session.viewer_name} (${session.viewer_email}) ${verb} the key document "${document.document_name}" in the ${tenantName} investor vault.\n\nInvestor stage: ${session.stage.replace("_", " ")}`,
+    html: `<div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;font-size:14px;color:#1e293b;">
+  <p><strong>${escapeHtml(session.viewer_name)}</strong> (${escapeHtml(session.viewer_email)}) ${verb} the key document
+  <strong>${escapeHtml(document.document_name)}</strong> in the ${escapeHtml(tenantName)} investor vault.</p>
+  <p style="color:#64748b;">Investor stage: ${escapeHtml(session.stage.replace("_", " "))}</p>
+</div>`,
+  });
+
+  if (!result.success) {
+    console.error("vault-document notification failed:", result.error);
+  }
+  return result.success;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { session_token, document_id, event_id, action, seconds } = body as {
+      session_token?: string;
+      document_id?: string;
+      event_id?: string;
+      action?: string;
+      seconds?: number;
+    };
+
+    if (!session_token || !action) {
+      return json({ error: "Missing required fields" }, 400);
+    }
+
+    const supabase = createServiceClient();
+    const session = await loadVaultSession(supabase, session_token);
+    if (!session) {
+      return json({ error: "Your vault session has expired", reason: "session_expired" }, 401);
+    }
+
+    if (action === "heartbeat") {
+      if (!event_id) return json({ error: "Missing required fields" }, 400);
+      const { data: event } = await supabase
+        .from("vault_document_events")
+        .select("id")
+        .eq("id", event_id)
+        .eq("session_id", session.id)
+        .maybeSingle();
+      if (!event) return json({ error: "Event not found" }, 404);
+
+      const { error } = await supabase.rpc("record_vault_view_time", {
+        p_event_id: event.id,
+        p_seconds: Math.round(Number(seconds) || 0),
+      });
+      if (error) throw error;
+      return json({ success: true });
+    }
+
+    if (action !== "view" && action !== "download") {
+      return json({ error: "Unknown action" }, 400);
+    }
+    if (!document_id) return json({ error: "Missing required fields" }, 400);
+
+    const { documents } = await loadVisibleDocuments(supabase, session.tenant_id, session.stage);
+    const document = documents.find((d) => d.id === document_id);
+    if (!document) return json({ error: "Document not found" }, 404);
+    const storagePath: string | null = document.storage_path;
+    if (!storagePath) return json({ error: "Document is unavailable" }, 404);
+
+    const { count: priorOpens } = await supabase
+      .from("vault_document_events")
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", session.id)
+      .eq("document_id", document.id);
+
+    const { data: event, error: eventError } = await supabase
+      .from("vault_document_events")
+      .insert({
+        tenant_id: session.tenant_id,
+        session_id: session.id,
+        grant_id: session.grant_id,
+        document_id: document.id,
+        viewer_name: session.viewer_name,
+        viewer_email: session.viewer_email,
+        action,
+      })
+      .select("id")
+      .single();
+    if (eventError) throw eventError;
+
+    if (document.is_key_document && !priorOpens) {
+      try {
+        if (await notifyKeyDocumentOpened(supabase, session, document, action)) {
+          await supabase
+            .from("vault_document_events")
+            .update({ notified_at: new Date().toISOString() })
+            .eq("id", event.id);
+        }
+      } catch (err) {
+        console.error("vault-document notification error:", err);
+      }
+    }
+
+    if (storagePath.startsWith("internal:")) {
+      return json({ event_id: event.id, internal_path: storagePath.replace("internal:", "") });
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from("investor-documents")
+      .download(storagePath);
+    if (downloadError || !file) {
+      console.error("vault-document download error:", downloadError);
+      return json({ error: "Document is unavailable" }, 404);
+    }
+
+    const ext = storagePath.split(".").pop()?.toLowerCase() ?? "";
+    const contentType = MIME_BY_EXT[ext] ?? (file.type || "application/octet-stream");
+    let bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (contentType === "application/pdf") {
+      try {
+        bytes = await watermarkPdf(bytes, session, event.id.slice(0, 8).toUpperCase());
+      } catch (err) {
+        // Never fall back to the unmarked original
+        console.error("vault-document watermark error:", err);
+        return json({ error: "Document could not be prepared" }, 422);
+      }
+    }
+
+    const filename = `${document.document_name.replace(/[^a-z0-9 _.-]/gi, "").trim() || "document"}${ext ? `.${ext}` : ""}`;
+    return new Response(bytes, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": contentType,
+        "Content-Disposition": `${action === "download" ? "attachment" : "inline"}; filename="${filename}"`,
+        "Cache-Control": "no-store",
+        "X-Vault-Event-Id": event.id,
+      },
+    });
+  } catch (err) {
+    console.error("vault-document error:", err);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,33 @@
+/*
+  # Staff Permission Checks
+
+  1. Functions
+    - `staff_has_permission(p_tenant_id, p_permission)` - true when the caller
+      is active staff in the tenant and either holds the admin role or has the
+      `staff_accounts.permissions` flag set. SQL twin of `hasPermission` in
+      src/lib/auth.tsx and `lacksStaffPermission` in the edge functions
+
+  2. Notes
+    - RPCs and policies that act for a staff permission call this instead of
+      checking bare tenant membership, so the flags hold for API callers too
+*/
+
+CREATE OR REPLACE FUNCTION public.staff_has_permission(p_tenant_id uuid, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM staff_accounts
+    WHERE auth_user_id = auth.uid()
+      AND tenant_id = p_tenant_id
+      AND status = 'active'
+      AND (role = 'admin' OR permissions -> p_permission = 'true'::jsonb)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.staff_has_permission(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.staff_has_permission(uuid, text) TO authenticated;
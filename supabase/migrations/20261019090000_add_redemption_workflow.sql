@@ -0,0 +1,231 @@
+/*
+  # Redemption Workflow
+
+  1. Changes
+    - `share_classes`: liquidity terms used when reviewing redemption requests
+      - `redemption_frequency` (text) - monthly, quarterly, semi_annual, annual
+      - `redemption_notice_days` (integer) - Minimum notice before a dealing date
+      - `lock_up_months` (integer) - Hard lock-up from account inception
+      - `redemption_holdback_pct` (numeric) - % of proceeds held back pending audit
+    - `funds`: `redemption_gate_pct` (numeric) - Max % of NAV redeemable per dealing date (NULL = no gate)
+    - `redemption_requests`: dealing date, gate scaling, pricing, holdback and settlement references
+
+  2. Functions
+    - `settle_redemptions` posts a gated dealing date in one transaction: the
+      redemption transaction, the capital account update, the completed
+      request and any carried-forward residual. Only approved requests settle,
+      so a retry or double submit cannot post twice. Each request is priced at
+      the approved NAV for the dealing date (share class first, then fund
+      level); the caller supplies shares, never the price or amount
+
+  3. Notes
+    - Gated residuals are carried forward as new requests linked by `carried_forward_from`
+    - Holdbacks are released separately once the audit is finalised
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'share_classes' AND column_name = 'redemption_frequency') THEN
+    ALTER TABLE share_classes ADD COLUMN redemption_frequency text DEFAULT 'monthly'
+      CHECK (redemption_frequency IN ('monthly', 'quarterly', 'semi_annual', 'annual'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'share_classes' AND column_name = 'redemption_notice_days') THEN
+    ALTER TABLE share_classes ADD COLUMN redemption_notice_days integer DEFAULT 30;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'share_classes' AND column_name = 'lock_up_months') THEN
+    ALTER TABLE share_classes ADD COLUMN lock_up_months integer DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'share_classes' AND column_name = 'redemption_holdback_pct') THEN
+    ALTER TABLE share_classes ADD COLUMN redemption_holdback_pct numeric DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'funds' AND column_name = 'redemption_gate_pct') THEN
+    ALTER TABLE funds ADD COLUMN redemption_gate_pct numeric;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'dealing_date') THEN
+    ALTER TABLE redemption_requests ADD COLUMN dealing_date date;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'review_issues') THEN
+    ALTER TABLE redemption_requests ADD COLUMN review_issues jsonb DEFAULT '[]';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'gate_scale_factor') THEN
+    ALTER TABLE redemption_requests ADD COLUMN gate_scale_factor numeric;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'gated_amount') THEN
+    ALTER TABLE redemption_requests ADD COLUMN gated_amount numeric(20,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'carried_forward_from') THEN
+    ALTER TABLE redemption_requests ADD COLUMN carried_forward_from uuid REFERENCES redemption_requests(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'nav_calculation_id') THEN
+    ALTER TABLE redemption_requests ADD COLUMN nav_calculation_id uuid REFERENCES nav_calculations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'transaction_id') THEN
+    ALTER TABLE redemption_requests ADD COLUMN transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'holdback_pct') THEN
+    ALTER TABLE redemption_requests ADD COLUMN holdback_pct numeric DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'holdback_amount') THEN
+    ALTER TABLE redemption_requests ADD COLUMN holdback_amount numeric(20,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'holdback_released_amount') THEN
+    ALTER TABLE redemption_requests ADD COLUMN holdback_released_amount numeric(20,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'holdback_released_at') THEN
+    ALTER TABLE redemption_requests ADD COLUMN holdback_released_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'redemption_requests' AND column_name = 'holdback_released_by') THEN
+    ALTER TABLE redemption_requests ADD COLUMN holdback_released_by uuid REFERENCES auth.users(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_redemption_requests_dealing_date ON redemption_requests(fund_id, dealing_date);
+CREATE INDEX IF NOT EXISTS idx_redemption_requests_carried_forward ON redemption_requests(carried_forward_from);
+CREATE INDEX IF NOT EXISTS idx_redemption_requests_nav_calculation ON redemption_requests(nav_calculation_id);
+CREATE INDEX IF NOT EXISTS idx_redemption_requests_transaction ON redemption_requests(transaction_id);
+
+-- p_allocations: [{request_id, shares, gated_amount, holdback_pct, next_dealing_date}],
+-- gated by the caller (settleRedemptions in src/lib/redemptions.ts)
+CREATE OR REPLACE FUNCTION public.settle_redemptions(
+  p_fund_id uuid,
+  p_dealing_date date,
+  p_gate_scale_factor numeric,
+  p_currency text,
+  p_allocations jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fund      funds%ROWTYPE;
+  v_alloc     jsonb;
+  v_request   redemption_requests%ROWTYPE;
+  v_account   capital_accounts%ROWTYPE;
+  v_nav       nav_calculations%ROWTYPE;
+  v_amount    numeric;
+  v_shares    numeric;
+  v_gated     numeric;
+  v_holdback  numeric;
+  v_txn_id    uuid;
+  v_settled   integer := 0;
+BEGIN
+  SELECT * INTO v_fund FROM funds WHERE id = p_fund_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fund not found';
+  END IF;
+
+  IF NOT staff_has_permission(v_fund.tenant_id, 'can_process_redemptions') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  FOR v_alloc IN SELECT * FROM jsonb_array_elements(p_allocations) LOOP
+    SELECT * INTO v_request FROM redemption_requests WHERE id = (v_alloc->>'request_id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Redemption request % not found', v_alloc->>'request_id';
+    END IF;
+
+    IF v_request.status <> 'approved' THEN
+      RAISE EXCEPTION 'Redemption request % is % and cannot be settled', COALESCE(v_request.request_number, v_request.id::text), v_request.status;
+    END IF;
+
+    IF v_request.fund_id IS DISTINCT FROM p_fund_id OR v_request.dealing_date IS DISTINCT FROM p_dealing_date THEN
+      RAISE EXCEPTION 'Redemption request % is not for this fund and dealing date', COALESCE(v_request.request_number, v_request.id::text);
+    END IF;
+
+    SELECT * INTO v_account FROM capital_accounts WHERE id = v_request.capital_account_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Capital account for redemption request % not found', COALESCE(v_request.request_number, v_request.id::text);
+    END IF;
+
+    SELECT * INTO v_nav
+    FROM nav_calculations
+    WHERE fund_id = p_fund_id
+      AND nav_date = p_dealing_date
+      AND status = 'approved'
+      AND (share_class_id = v_account.share_class_id OR share_class_id IS NULL)
+    ORDER BY (share_class_id IS NULL), version DESC
+    LIMIT 1;
+    IF NOT FOUND OR COALESCE(v_nav.nav_per_share, 0) <= 0 THEN
+      RAISE EXCEPTION 'No approved NAV for %; approve the dealing date NAV before settling', p_dealing_date;
+    END IF;
+
+    v_shares := LEAST(COALESCE((v_alloc->>'shares')::numeric, 0), COALESCE(v_account.shares_owned, 0));
+    v_amount := ROUND(v_shares * v_nav.nav_per_share, 2);
+    v_gated := COALESCE((v_alloc->>'gated_amount')::numeric, 0);
+    v_holdback := ROUND(v_amount * COALESCE((v_alloc->>'holdback_pct')::numeric, 0) / 100, 2);
+    v_txn_id := NULL;
+
+    IF v_amount > 0 THEN
+      INSERT INTO transactions (
+        fund_id, capital_account_id, transaction_type, transaction_date, settlement_date,
+        amount, shares, price_per_share, currency, status, description, nav_calculation_id, created_by
+      ) VALUES (
+        p_fund_id, v_account.id, 'redemption', p_dealing_date, p_dealing_date,
+        v_amount, v_shares, v_nav.nav_per_share, COALESCE(p_currency, 'USD'), 'pending',
+        'Redemption for dealing date ' || p_dealing_date, v_nav.id, auth.uid()
+      )
+      RETURNING id INTO v_txn_id;
+
+      UPDATE capital_accounts
+      SET shares_owned = COALESCE(shares_owned, 0) - v_shares,
+          capital_returned = COALESCE(capital_returned, 0) + v_amount,
+          updated_at = now()
+      WHERE id = v_account.id;
+    END IF;
+
+    UPDATE redemption_requests
+    SET status = 'completed',
+        shares_approved = v_shares,
+        amount_approved = v_amount,
+        redemption_price = v_nav.nav_per_share,
+        gate_scale_factor = p_gate_scale_factor,
+        gated_amount = v_gated,
+        holdback_pct = COALESCE((v_alloc->>'holdback_pct')::numeric, 0),
+        holdback_amount = v_holdback,
+        settlement_amount = v_amount - v_holdback,
+        settlement_date = p_dealing_date,
+        nav_calculation_id = v_nav.id,
+        transaction_id = v_txn_id,
+        approved_by = auth.uid(),
+        processed_date = now()
+    WHERE id = v_request.id;
+
+    IF v_gated > 0 THEN
+      INSERT INTO redemption_requests (
+        tenant_id, client_id, fund_id, capital_account_id, amount, amount_requested, redemption_type,
+        request_date, dealing_date, currency, status, carried_forward_from, notes
+      ) VALUES (
+        v_request.tenant_id, v_request.client_id, p_fund_id, v_account.id, v_gated, v_gated, 'partial',
+        COALESCE(v_request.request_date, v_request.requested_date::date), (v_alloc->>'next_dealing_date')::date,
+        COALESCE(p_currency, 'USD'), 'approved', v_request.id,
+        'Gated residual carried forward from ' || p_dealing_date
+      );
+    END IF;
+
+    v_settled := v_settled + 1;
+  END LOOP;
+
+  RETURN v_settled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_redemptions(uuid, date, numeric, text, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.settle_redemptions(uuid, date, numeric, text, jsonb) TO authenticated;
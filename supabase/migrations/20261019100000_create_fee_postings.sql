@@ -0,0 +1,184 @@
+/*
+  # Fee Postings and Crystallisation Terms
+
+  1. Changes
+    - `fee_structures`: performance-fee crystallisation terms
+      - `crystallisation_frequency` (text) - quarterly, semi_annual, annual
+      - `crystallisation_month` (integer) - Month (1-12) the fee year ends
+      - `description` (text) - Display label for the fee
+
+  2. New Tables
+    - `fee_postings`
+      Fee-expense postings per capital account, produced when management fees
+      are posted for a period or performance fees crystallise.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`, `share_class_id`, `fee_structure_id`, `capital_account_id`
+      - `fee_type` (text) - management, performance, admin, other
+      - `period_start`, `period_end`, `posting_date` (date)
+      - `basis_amount` (numeric) - NAV the fee was computed on
+      - `amount` (numeric) - Fee expense charged to the account
+      - `currency` (text)
+      - `nav_calculation_id` (uuid) - NAV strike used
+      - `invoice_id` (uuid) - Management-company invoice the posting was billed on
+      - `status` (text) - posted, invoiced, reversed
+      - `created_by`, `created_at`
+
+  3. Functions
+    - `generate_fee_invoice(p_tenant_id, p_fund_id, p_posting_ids)` bills
+      un-invoiced postings to the fund as a draft invoice, one line per fee
+      type, share class and period, and marks them invoiced in one transaction
+
+  4. Security
+    - RLS enabled; tenant members manage their own tenant's postings
+    - A capital account carries at most one live posting per fee structure
+      and period end, so a period cannot be posted or crystallised twice
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'fee_structures' AND column_name = 'crystallisation_frequency') THEN
+    ALTER TABLE fee_structures ADD COLUMN crystallisation_frequency text DEFAULT 'annual'
+      CHECK (crystallisation_frequency IN ('quarterly', 'semi_annual', 'annual'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'fee_structures' AND column_name = 'crystallisation_month') THEN
+    ALTER TABLE fee_structures ADD COLUMN crystallisation_month integer DEFAULT 12
+      CHECK (crystallisation_month BETWEEN 1 AND 12);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'fee_structures' AND column_name = 'description') THEN
+    ALTER TABLE fee_structures ADD COLUMN description text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS fee_postings (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id           uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  fund_id             uuid NOT NULL REFERENCES funds(id) ON DELETE CASCADE,
+  share_class_id      uuid REFERENCES share_classes(id) ON DELETE SET NULL,
+  fee_structure_id    uuid REFERENCES fee_structures(id) ON DELETE SET NULL,
+  capital_account_id  uuid NOT NULL REFERENCES capital_accounts(id) ON DELETE CASCADE,
+  fee_type            text NOT NULL,
+  period_start        date NOT NULL,
+  period_end          date NOT NULL,
+  posting_date        date NOT NULL DEFAULT CURRENT_DATE,
+  basis_amount        numeric DEFAULT 0,
+  amount              numeric NOT NULL DEFAULT 0,
+  currency            text NOT NULL DEFAULT 'USD',
+  nav_calculation_id  uuid REFERENCES nav_calculations(id) ON DELETE SET NULL,
+  invoice_id          uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  status              text NOT NULL DEFAULT 'posted'
+                        CHECK (status IN ('posted', 'invoiced', 'reversed')),
+  created_by          uuid REFERENCES auth.users(id),
+  created_at          timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_postings_tenant ON fee_postings(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_fee_postings_fund_period ON fee_postings(fund_id, period_end);
+CREATE INDEX IF NOT EXISTS idx_fee_postings_account ON fee_postings(capital_account_id);
+CREATE INDEX IF NOT EXISTS idx_fee_postings_structure ON fee_postings(fee_structure_id);
+CREATE INDEX IF NOT EXISTS idx_fee_postings_invoice ON fee_postings(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_fee_postings_nav_calculation ON fee_postings(nav_calculation_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_postings_unique_period
+  ON fee_postings(fee_structure_id, capital_account_id, period_end)
+  WHERE status <> 'reversed';
+
+ALTER TABLE fee_postings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "select_own_fee_postings" ON fee_postings
+  FOR SELECT TO authenticated
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "insert_own_fee_postings" ON fee_postings
+  FOR INSERT TO authenticated
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "update_own_fee_postings" ON fee_postings
+  FOR UPDATE TO authenticated
+  USING (tenant_id = get_user_tenant_id())
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Investors can view fee postings on own accounts" ON fee_postings
+  FOR SELECT TO authenticated
+  USING (capital_account_id IN (SELECT id FROM capital_accounts WHERE investor_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.generate_fee_invoice(
+  p_tenant_id uuid,
+  p_fund_id uuid,
+  p_posting_ids uuid[]
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fund     funds%ROWTYPE;
+  v_invoice  invoices%ROWTYPE;
+  v_ids      uuid[];
+  v_total    numeric;
+BEGIN
+  SELECT * INTO v_fund FROM funds WHERE id = p_fund_id AND tenant_id = p_tenant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fund not found';
+  END IF;
+
+  IF NOT staff_has_permission(p_tenant_id, 'can_manage_funds') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT array_agg(id) INTO v_ids
+  FROM (
+    SELECT id FROM fee_postings
+    WHERE id = ANY(p_posting_ids)
+      AND tenant_id = p_tenant_id
+      AND fund_id = p_fund_id
+      AND status = 'posted'
+    FOR UPDATE
+  ) locked;
+
+  IF v_ids IS NULL THEN
+    RAISE EXCEPTION 'No un-invoiced fee postings selected';
+  END IF;
+
+  SELECT round(sum(amount), 2) INTO v_total FROM fee_postings WHERE id = ANY(v_ids);
+
+  INSERT INTO invoices (
+    tenant_id, invoice_number, to_name, to_company, currency, subtotal, total, status, notes, created_by
+  ) VALUES (
+    p_tenant_id, allocate_invoice_number(p_tenant_id), v_fund.fund_name, v_fund.fund_name,
+    COALESCE(v_fund.base_currency, 'USD'), v_total, v_total, 'draft',
+    'Fund fees per the offering documents.', auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO invoice_line_items (
+    invoice_id, sort_order, description, quantity, unit_price, tax_rate, discount_rate, line_total
+  )
+  SELECT
+    v_invoice.id,
+    (row_number() OVER (ORDER BY fp.fee_type, sc.class_code NULLS FIRST, fp.period_start, fp.period_end)) - 1,
+    initcap(fp.fee_type) || ' fee' || COALESCE(' – Class ' || sc.class_code, '')
+      || ' (' || fp.period_start || ' to ' || fp.period_end || ')',
+    1, round(sum(fp.amount), 2), 0, 0, round(sum(fp.amount), 2)
+  FROM fee_postings fp
+  LEFT JOIN share_classes sc ON sc.id = fp.share_class_id
+  WHERE fp.id = ANY(v_ids)
+  GROUP BY fp.fee_type, sc.class_code, fp.period_start, fp.period_end;
+
+  UPDATE fee_postings
+  SET invoice_id = v_invoice.id, status = 'invoiced'
+  WHERE id = ANY(v_ids);
+
+  INSERT INTO invoice_activity (invoice_id, actor_id, action, metadata)
+  VALUES (
+    v_invoice.id, auth.uid(), 'created',
+    jsonb_build_object('source', 'fee_manager', 'fund_id', p_fund_id, 'postings', array_length(v_ids, 1))
+  );
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_fee_invoice(uuid, uuid, uuid[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.generate_fee_invoice(uuid, uuid, uuid[]) TO authenticated;
@@ -0,0 +1,74 @@
+/*
+  # Investor High-Water Marks
+
+  Per-investor performance-fee state so fees are charged only on new profits
+  above each investor's own high-water mark (equalisation by investor HWM).
+
+  1. New Tables
+    - `investor_high_water_marks`
+      - `id` (uuid, primary key)
+      - `fund_id`, `share_class_id`, `capital_account_id`, `fee_structure_id`
+      - `high_water_mark` (numeric) - NAV per share the investor must exceed
+        before a performance fee accrues. Set from the subscription price and
+        blended on top-ups; reset to the post-fee NAV on crystallisation.
+      - `hurdle_start_date` (date) - Date the hurdle compounds from
+      - `loss_carryforward` (numeric) - Amount the account is below its
+        hurdle-adjusted HWM at the last crystallisation
+      - `last_crystallised_at` (date)
+      - `last_nav_calculation_id` (uuid)
+      - `created_at`, `updated_at`
+
+  2. Security
+    - RLS enabled; tenant users view, fund managers manage, investors view
+      their own accounts
+*/
+
+CREATE TABLE IF NOT EXISTS investor_high_water_marks (
+  id                       uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  fund_id                  uuid NOT NULL REFERENCES funds(id) ON DELETE CASCADE,
+  share_class_id           uuid REFERENCES share_classes(id) ON DELETE CASCADE,
+  capital_account_id       uuid NOT NULL REFERENCES capital_accounts(id) ON DELETE CASCADE,
+  fee_structure_id         uuid NOT NULL REFERENCES fee_structures(id) ON DELETE CASCADE,
+  high_water_mark          numeric NOT NULL DEFAULT 0,
+  hurdle_start_date        date NOT NULL DEFAULT CURRENT_DATE,
+  loss_carryforward        numeric NOT NULL DEFAULT 0,
+  last_crystallised_at     date,
+  last_nav_calculation_id  uuid REFERENCES nav_calculations(id) ON DELETE SET NULL,
+  created_at               timestamptz DEFAULT now(),
+  updated_at               timestamptz DEFAULT now(),
+  UNIQUE (capital_account_id, fee_structure_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_investor_hwm_fund_class ON investor_high_water_marks(fund_id, share_class_id);
+CREATE INDEX IF NOT EXISTS idx_investor_hwm_structure ON investor_high_water_marks(fee_structure_id);
+
+ALTER TABLE investor_high_water_marks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant users can view investor high-water marks"
+  ON investor_high_water_marks FOR SELECT
+  TO authenticated
+  USING (
+    fund_id IN (
+      SELECT f.id FROM funds f
+      JOIN tenant_users tu ON f.tenant_id = tu.tenant_id
+      WHERE tu.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Fund managers can manage investor high-water marks"
+  ON investor_high_water_marks FOR ALL
+  TO authenticated
+  USING (
+    fund_id IN (
+      SELECT f.id FROM funds f
+      JOIN tenant_users tu ON f.tenant_id = tu.tenant_id
+      WHERE tu.user_id = auth.uid() AND tu.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Investors can view own high-water marks"
+  ON investor_high_water_marks FOR SELECT
+  TO authenticated
+  USING (
+    capital_account_id IN (SELECT id FROM capital_accounts WHERE investor_id = auth.uid())
+  );
@@ -0,0 +1,76 @@
+/*
+  # Fund Deals for Deal-by-Deal Waterfalls
+
+  1. New Tables
+    - `fund_deals`
+      Portfolio investments of a closed-end fund, used by American
+      (deal-by-deal) waterfalls to allocate carry per realization.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`
+      - `deal_name` (text)
+      - `invested_amount` (numeric), `investment_date` (date)
+      - `realized_proceeds` (numeric), `realization_date` (date)
+      - `current_value` (numeric) - Fair value of any unrealized remainder
+      - `status` (text) - unrealized, partially_realized, realized, written_off
+      - `notes`, `created_at`, `updated_at`
+
+  2. Security
+    - RLS enabled; staff of the tenant can view and manage deals
+*/
+
+CREATE TABLE IF NOT EXISTS fund_deals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  deal_name text NOT NULL,
+  invested_amount numeric(20,2) NOT NULL DEFAULT 0,
+  investment_date date NOT NULL,
+  realized_proceeds numeric(20,2) NOT NULL DEFAULT 0,
+  realization_date date,
+  current_value numeric(20,2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'unrealized' CHECK (status IN (
+    'unrealized',
+    'partially_realized',
+    'realized',
+    'written_off'
+  )),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_deals_tenant ON fund_deals(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_fund_deals_fund ON fund_deals(fund_id);
+
+ALTER TABLE fund_deals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view fund deals for their tenant"
+  ON fund_deals FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create fund deals"
+  ON fund_deals FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can update fund deals"
+  ON fund_deals FOR UPDATE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ))
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can delete fund deals"
+  ON fund_deals FOR DELETE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
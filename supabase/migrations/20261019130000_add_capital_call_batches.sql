@@ -0,0 +1,222 @@
+/*
+  # Fund-Wide Capital Calls and Default Tracking
+
+  1. New Tables
+    - `capital_call_batches`
+      One fund-wide call, split pro-rata into a `capital_calls` row per investor.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`
+      - `batch_number` (text)
+      - `call_date`, `due_date` (date)
+      - `call_basis` (text) - amount or percent_of_commitment
+      - `total_amount` (numeric), `percentage_of_commitment` (numeric)
+      - `excluded_account_ids` (uuid[]) - Accounts left out of the call
+      - `excused_accounts` (jsonb) - [{capital_account_id, reason}] excused
+        investors whose share was reallocated to the others
+      - `default_interest_rate_pct` (numeric) - Annual rate on late payments
+      - `purpose`, `payment_instructions`, `notes`
+      - `notices_sent_at` (timestamptz)
+      - `created_by`, `created_at`
+
+  2. Changes
+    - `capital_calls`: `batch_id`, `default_interest_rate_pct`,
+      `default_interest_accrued`, `default_interest_as_of`, `default_status`
+      (none, notice_sent, cured, suspended, forfeited, forced_sale),
+      `default_notice_sent_at`, `remedy_notes`, `notice_sent_at`
+
+  3. Functions
+    - `issue_capital_call` creates the batch, every investor call and the
+      `capital_called` increments in one transaction
+
+  4. Security
+    - RLS on `capital_call_batches` mirrors `capital_calls`
+*/
+
+CREATE TABLE IF NOT EXISTS capital_call_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) NOT NULL,
+  batch_number text NOT NULL,
+  call_date date NOT NULL,
+  due_date date NOT NULL,
+  call_basis text NOT NULL DEFAULT 'amount' CHECK (call_basis IN ('amount', 'percent_of_commitment')),
+  total_amount numeric(20,2) NOT NULL,
+  percentage_of_commitment numeric(7,4),
+  currency text NOT NULL DEFAULT 'USD',
+  excluded_account_ids uuid[] DEFAULT '{}',
+  excused_accounts jsonb DEFAULT '[]',
+  default_interest_rate_pct numeric(7,4) DEFAULT 0,
+  purpose text,
+  payment_instructions text,
+  notes text,
+  notices_sent_at timestamptz,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_capital_call_batches_tenant ON capital_call_batches(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_capital_call_batches_fund ON capital_call_batches(fund_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'batch_id') THEN
+    ALTER TABLE capital_calls ADD COLUMN batch_id uuid REFERENCES capital_call_batches(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'default_interest_rate_pct') THEN
+    ALTER TABLE capital_calls ADD COLUMN default_interest_rate_pct numeric(7,4) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'default_interest_accrued') THEN
+    ALTER TABLE capital_calls ADD COLUMN default_interest_accrued numeric(20,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'default_interest_as_of') THEN
+    ALTER TABLE capital_calls ADD COLUMN default_interest_as_of date;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'default_status') THEN
+    ALTER TABLE capital_calls ADD COLUMN default_status text NOT NULL DEFAULT 'none'
+      CHECK (default_status IN ('none', 'notice_sent', 'cured', 'suspended', 'forfeited', 'forced_sale'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'default_notice_sent_at') THEN
+    ALTER TABLE capital_calls ADD COLUMN default_notice_sent_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'remedy_notes') THEN
+    ALTER TABLE capital_calls ADD COLUMN remedy_notes text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'capital_calls' AND column_name = 'notice_sent_at') THEN
+    ALTER TABLE capital_calls ADD COLUMN notice_sent_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_capital_calls_batch ON capital_calls(batch_id);
+
+ALTER TABLE capital_call_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view capital call batches for their tenant"
+  ON capital_call_batches FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create capital call batches"
+  ON capital_call_batches FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can update capital call batches"
+  ON capital_call_batches FOR UPDATE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ))
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+-- p_allocations: [{capital_account_id, call_amount, percentage_of_commitment}]
+CREATE OR REPLACE FUNCTION public.issue_capital_call(
+  p_tenant_id uuid,
+  p_fund_id uuid,
+  p_batch jsonb,
+  p_allocations jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id  uuid;
+  v_number    text;
+  v_alloc     jsonb;
+  v_seq       integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM funds WHERE id = p_fund_id AND tenant_id = p_tenant_id) THEN
+    RAISE EXCEPTION 'Fund not found';
+  END IF;
+
+  v_number := 'CALL-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(random()::text), 1, 4));
+
+  INSERT INTO capital_call_batches (
+    tenant_id, fund_id, batch_number, call_date, due_date, call_basis, total_amount,
+    percentage_of_commitment, currency, excluded_account_ids, excused_accounts,
+    default_interest_rate_pct, purpose, payment_instructions, notes, created_by
+  ) VALUES (
+    p_tenant_id,
+    p_fund_id,
+    v_number,
+    (p_batch->>'call_date')::date,
+    (p_batch->>'due_date')::date,
+    COALESCE(p_batch->>'call_basis', 'amount'),
+    (p_batch->>'total_amount')::numeric,
+    NULLIF(p_batch->>'percentage_of_commitment', '')::numeric,
+    COALESCE(p_batch->>'currency', 'USD'),
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_batch->'excluded_account_ids'))::uuid[], '{}'),
+    COALESCE(p_batch->'excused_accounts', '[]'::jsonb),
+    COALESCE((p_batch->>'default_interest_rate_pct')::numeric, 0),
+    p_batch->>'purpose',
+    p_batch->>'payment_instructions',
+    p_batch->>'notes',
+    auth.uid()
+  )
+  RETURNING id INTO v_batch_id;
+
+  FOR v_alloc IN SELECT * FROM jsonb_array_elements(p_allocations) LOOP
+    v_seq := v_seq + 1;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM capital_accounts
+      WHERE id = (v_alloc->>'capital_account_id')::uuid AND fund_id = p_fund_id
+    ) THEN
+      RAISE EXCEPTION 'Capital account % is not in this fund', v_alloc->>'capital_account_id';
+    END IF;
+
+    INSERT INTO capital_calls (
+      tenant_id, fund_id, capital_account_id, batch_id, call_number, call_date, due_date,
+      call_amount, percentage_of_commitment, currency, status, purpose, notes,
+      payment_instructions, default_interest_rate_pct, created_by
+    ) VALUES (
+      p_tenant_id,
+      p_fund_id,
+      (v_alloc->>'capital_account_id')::uuid,
+      v_batch_id,
+      v_number || '-' || lpad(v_seq::text, 3, '0'),
+      (p_batch->>'call_date')::date,
+      (p_batch->>'due_date')::date,
+      (v_alloc->>'call_amount')::numeric,
+      (v_alloc->>'percentage_of_commitment')::numeric,
+      COALESCE(p_batch->>'currency', 'USD'),
+      'issued',
+      p_batch->>'purpose',
+      p_batch->>'notes',
+      p_batch->>'payment_instructions',
+      COALESCE((p_batch->>'default_interest_rate_pct')::numeric, 0),
+      auth.uid()
+    );
+
+    UPDATE capital_accounts
+    SET capital_called = COALESCE(capital_called, 0) + (v_alloc->>'call_amount')::numeric,
+        updated_at = now()
+    WHERE id = (v_alloc->>'capital_account_id')::uuid;
+  END LOOP;
+
+  RETURN v_batch_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_capital_call(uuid, uuid, jsonb, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.issue_capital_call(uuid, uuid, jsonb, jsonb) TO authenticated;
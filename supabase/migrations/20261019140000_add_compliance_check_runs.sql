@@ -0,0 +1,135 @@
+/*
+  # Portfolio-Derived Compliance Checks
+
+  1. New Tables
+    - `security_issuer_mappings`
+      Issuer look-through and liquidity classification for holdings, keyed by
+      the symbol or description used on NAV lines and trust positions.
+      - `id` (uuid, primary key)
+      - `tenant_id`
+      - `security_identifier` (text) - Symbol or NAV line description
+      - `issuer_name` (text) - Direct issuer
+      - `ultimate_issuer` (text) - Parent used to aggregate exposure across
+        subsidiaries and look-through vehicles; falls back to `issuer_name`
+      - `issuer_type` (text) - corporate, government, fund, cash
+        (government and cash holdings count as diversified)
+      - `liquidity_bucket` (text) - 1d, 2_7d, 8_30d, 31_90d, 91_180d,
+        181_365d, over_365d (AIFMD reporting buckets)
+      - `created_at`, `updated_at`
+
+    - `compliance_check_runs`
+      One row per framework check, kept as history for trend reporting.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`, `framework_id`
+      - `compliance_monitoring_id` - Monitoring record written by the run
+      - `overall_status` (text) - compliant, warning, breach
+      - `holdings_source` (text) - nav_calculation, trust_positions, none
+      - `nav_calculation_id`, `as_of_date`
+      - `total_assets`, `net_asset_value` (numeric)
+      - `rule_results` (jsonb) - [{rule_code, rule_name, rule_category,
+        severity, status, message, metrics}]
+      - `violations`, `warnings` (jsonb)
+      - `run_by`, `run_at`
+
+  2. Changes
+    - `funds.trust_account_id` links pooled trust funds to their brokerage
+      positions so checks can fall back to `trust_positions`
+
+  3. Security
+    - RLS enabled; staff of the tenant can view and record runs and manage
+      issuer mappings
+*/
+
+CREATE TABLE IF NOT EXISTS security_issuer_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) ON DELETE CASCADE NOT NULL,
+  security_identifier text NOT NULL,
+  issuer_name text NOT NULL,
+  ultimate_issuer text,
+  issuer_type text NOT NULL DEFAULT 'corporate' CHECK (issuer_type IN ('corporate', 'government', 'fund', 'cash')),
+  liquidity_bucket text CHECK (liquidity_bucket IN (
+    '1d', '2_7d', '8_30d', '31_90d', '91_180d', '181_365d', 'over_365d'
+  )),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(tenant_id, security_identifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_issuer_mappings_tenant ON security_issuer_mappings(tenant_id);
+
+CREATE TABLE IF NOT EXISTS compliance_check_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) ON DELETE CASCADE NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  framework_id uuid REFERENCES regulatory_frameworks(id) ON DELETE RESTRICT NOT NULL,
+  compliance_monitoring_id uuid REFERENCES compliance_monitoring(id) ON DELETE SET NULL,
+  overall_status text NOT NULL CHECK (overall_status IN ('compliant', 'warning', 'breach')),
+  holdings_source text NOT NULL DEFAULT 'none' CHECK (holdings_source IN ('nav_calculation', 'trust_positions', 'none')),
+  nav_calculation_id uuid REFERENCES nav_calculations(id) ON DELETE SET NULL,
+  as_of_date date,
+  total_assets numeric DEFAULT 0,
+  net_asset_value numeric DEFAULT 0,
+  rule_results jsonb DEFAULT '[]',
+  violations jsonb DEFAULT '[]',
+  warnings jsonb DEFAULT '[]',
+  run_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  run_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_check_runs_tenant ON compliance_check_runs(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_compliance_check_runs_fund_framework ON compliance_check_runs(fund_id, framework_id, run_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'funds' AND column_name = 'trust_account_id') THEN
+    ALTER TABLE funds ADD COLUMN trust_account_id uuid REFERENCES trust_account(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE security_issuer_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE compliance_check_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view issuer mappings for their tenant"
+  ON security_issuer_mappings FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create issuer mappings"
+  ON security_issuer_mappings FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can update issuer mappings"
+  ON security_issuer_mappings FOR UPDATE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ))
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can delete issuer mappings"
+  ON security_issuer_mappings FOR DELETE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view compliance check runs for their tenant"
+  ON compliance_check_runs FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can record compliance check runs"
+  ON compliance_check_runs FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,155 @@
+/*
+  # Partnership Tax Allocations
+
+  1. New Tables
+    - `fund_tax_items`
+      Fund-level taxable items for a tax year, allocated to partners when
+      K-1s and 1099s are generated.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`
+      - `tax_year` (integer)
+      - `item_date` (date) - Decides the month an item falls in under the
+        interim-closing method
+      - `category` (text) - ordinary_business_income, interest_income,
+        non_qualified_dividends, qualified_dividends, short_term_capital_gain,
+        long_term_capital_gain, section_1231_gain, other_income,
+        portfolio_deductions, other_deductions, foreign_taxes_paid,
+        tax_exempt_income, nondeductible_expenses
+      - `amount` (numeric) - Gains and income positive, losses negative;
+        deductions and taxes as positive amounts
+      - `description`, `created_by`, `created_at`
+
+    - `partner_tax_basis`
+      Outside tax basis and tax capital roll-forward per capital account and
+      year; the ending figures open the following year.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`, `capital_account_id`
+      - `tax_year` (integer)
+      - `allocation_method` (text) - full_year or interim_closing
+      - `beginning_capital`, `contributions`, `net_income`, `withdrawals`,
+        `ending_capital` (numeric) - Schedule K-1 Item L
+      - `beginning_basis`, `basis_increases`, `basis_decreases`,
+        `ending_basis` (numeric)
+      - `excess_distribution_gain` (numeric) - Cash distributed above basis
+      - `beginning_pct`, `ending_pct` (numeric) - Share of fund capital
+      - `created_at`, `updated_at`
+
+  2. Changes
+    - `tax_documents.allocation_details` (jsonb) - Full K-1 box / 1099 field
+      breakdown behind the summary columns
+
+  3. Security
+    - RLS enabled; staff of the tenant can view and manage both tables
+*/
+
+CREATE TABLE IF NOT EXISTS fund_tax_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  tax_year integer NOT NULL,
+  item_date date NOT NULL,
+  category text NOT NULL CHECK (category IN (
+    'ordinary_business_income',
+    'interest_income',
+    'non_qualified_dividends',
+    'qualified_dividends',
+    'short_term_capital_gain',
+    'long_term_capital_gain',
+    'section_1231_gain',
+    'other_income',
+    'portfolio_deductions',
+    'other_deductions',
+    'foreign_taxes_paid',
+    'tax_exempt_income',
+    'nondeductible_expenses'
+  )),
+  amount numeric(20,2) NOT NULL,
+  description text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_tax_items_tenant ON fund_tax_items(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_fund_tax_items_fund_year ON fund_tax_items(fund_id, tax_year);
+
+CREATE TABLE IF NOT EXISTS partner_tax_basis (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  capital_account_id uuid REFERENCES capital_accounts(id) ON DELETE CASCADE NOT NULL,
+  tax_year integer NOT NULL,
+  allocation_method text NOT NULL DEFAULT 'full_year' CHECK (allocation_method IN ('full_year', 'interim_closing')),
+  beginning_capital numeric(20,2) DEFAULT 0,
+  contributions numeric(20,2) DEFAULT 0,
+  net_income numeric(20,2) DEFAULT 0,
+  withdrawals numeric(20,2) DEFAULT 0,
+  ending_capital numeric(20,2) DEFAULT 0,
+  beginning_basis numeric(20,2) DEFAULT 0,
+  basis_increases numeric(20,2) DEFAULT 0,
+  basis_decreases numeric(20,2) DEFAULT 0,
+  ending_basis numeric(20,2) DEFAULT 0,
+  excess_distribution_gain numeric(20,2) DEFAULT 0,
+  beginning_pct numeric(9,6) DEFAULT 0,
+  ending_pct numeric(9,6) DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(capital_account_id, tax_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_tax_basis_tenant ON partner_tax_basis(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_partner_tax_basis_fund_year ON partner_tax_basis(fund_id, tax_year);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tax_documents' AND column_name = 'allocation_details') THEN
+    ALTER TABLE tax_documents ADD COLUMN allocation_details jsonb DEFAULT '{}';
+  END IF;
+END $$;
+
+ALTER TABLE fund_tax_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE partner_tax_basis ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view fund tax items for their tenant"
+  ON fund_tax_items FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create fund tax items"
+  ON fund_tax_items FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can delete fund tax items"
+  ON fund_tax_items FOR DELETE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view partner tax basis for their tenant"
+  ON partner_tax_basis FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create partner tax basis"
+  ON partner_tax_basis FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can update partner tax basis"
+  ON partner_tax_basis FOR UPDATE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ))
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
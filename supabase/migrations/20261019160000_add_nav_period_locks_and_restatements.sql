@@ -0,0 +1,244 @@
+/*
+  # NAV Period Locking and Restatements
+
+  1. New Tables
+    - `nav_period_locks`
+      Closes a fund's books through a date. While a lock is active, capital
+      activity dated on or before `locked_through` is rejected and new NAV
+      versions for those dates can only be created as restatements.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`
+      - `locked_through` (date)
+      - `reason` (text)
+      - `locked_by`, `locked_at`
+      - `unlocked_by`, `unlocked_at` - Set when the lock is lifted; the row is
+        kept as history
+
+    - `nav_restatements`
+      One row per restated NAV: the approved version being replaced, the new
+      version, why, what changed and which downstream artifacts priced off the
+      old figures and need reissuing.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`, `share_class_id`, `nav_date`
+      - `original_nav_calculation_id`, `restated_nav_calculation_id`
+      - `from_version`, `to_version` (integer)
+      - `reason` (text)
+      - `diff` (jsonb) - Header and line item changes
+      - `affected_artifacts` (jsonb) - Statements, fee postings, waterfall
+        runs and redemptions that used the original NAV
+      - `status` (text) - draft, approved, reissued
+      - `created_by`, `created_at`, `approved_at`, `reissued_at`
+
+  2. Changes
+    - `nav_calculations.restatement_reason` (text) - Set on versions created by
+      a restatement
+    - `nav_calculations.supersedes_id` (uuid) - The version it restates
+
+  3. Functions and Triggers
+    - `nav_locked_through(fund_id)` returns the latest active lock date
+    - `transactions` and `capital_transactions` reject inserts dated on or
+      before the lock and any change to rows dated on or before it; the only
+      change allowed is moving a row on to processing or settled
+    - `nav_calculations` rejects new versions for locked dates, and changes
+      to existing ones, unless they carry a restatement reason; the only
+      change allowed to a locked original is being marked superseded
+
+  4. Security
+    - RLS enabled; staff of the tenant can view both tables and staff with
+      `can_manage_nav` can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS nav_period_locks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  locked_through date NOT NULL,
+  reason text,
+  locked_by uuid REFERENCES auth.users(id),
+  locked_at timestamptz DEFAULT now(),
+  unlocked_by uuid REFERENCES auth.users(id),
+  unlocked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_nav_period_locks_tenant ON nav_period_locks(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_nav_period_locks_fund ON nav_period_locks(fund_id, locked_through);
+
+CREATE TABLE IF NOT EXISTS nav_restatements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  share_class_id uuid REFERENCES share_classes(id) ON DELETE SET NULL,
+  nav_date date NOT NULL,
+  original_nav_calculation_id uuid REFERENCES nav_calculations(id) ON DELETE SET NULL,
+  restated_nav_calculation_id uuid REFERENCES nav_calculations(id) ON DELETE CASCADE,
+  from_version integer NOT NULL,
+  to_version integer NOT NULL,
+  reason text NOT NULL,
+  diff jsonb DEFAULT '{}',
+  affected_artifacts jsonb DEFAULT '[]',
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'reissued')),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  approved_at timestamptz,
+  reissued_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_nav_restatements_tenant ON nav_restatements(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_nav_restatements_fund ON nav_restatements(fund_id, nav_date);
+CREATE INDEX IF NOT EXISTS idx_nav_restatements_restated ON nav_restatements(restated_nav_calculation_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'nav_calculations' AND column_name = 'restatement_reason') THEN
+    ALTER TABLE nav_calculations ADD COLUMN restatement_reason text;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'nav_calculations' AND column_name = 'supersedes_id') THEN
+    ALTER TABLE nav_calculations ADD COLUMN supersedes_id uuid REFERENCES nav_calculations(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION nav_locked_through(p_fund_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max(locked_through)
+  FROM nav_period_locks
+  WHERE fund_id = p_fund_id
+    AND unlocked_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_locked_period_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_locked date;
+BEGIN
+  -- A locked row may only move on through settlement; every other column,
+  -- amount and date included, stays as the locked NAV saw it
+  IF TG_OP = 'UPDATE' THEN
+    v_locked := nav_locked_through(OLD.fund_id);
+    IF v_locked IS NOT NULL AND OLD.transaction_date <= v_locked THEN
+      IF NEW.status::text IN ('processing', 'settled')
+         AND (to_jsonb(NEW) - 'status' - 'updated_at') = (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+        RETURN NEW;
+      END IF;
+
+      RAISE EXCEPTION 'NAV period is locked through %; transactions dated % cannot be changed', v_locked, OLD.transaction_date
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  v_locked := nav_locked_through(NEW.fund_id);
+  IF v_locked IS NOT NULL AND NEW.transaction_date <= v_locked THEN
+    RAISE EXCEPTION 'NAV period is locked through %; transactions dated % cannot be recorded', v_locked, NEW.transaction_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_transactions_period_lock ON transactions;
+CREATE TRIGGER trg_transactions_period_lock
+  BEFORE INSERT OR UPDATE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION reject_locked_period_transaction();
+
+DROP TRIGGER IF EXISTS trg_capital_transactions_period_lock ON capital_transactions;
+CREATE TRIGGER trg_capital_transactions_period_lock
+  BEFORE INSERT OR UPDATE ON capital_transactions
+  FOR EACH ROW EXECUTE FUNCTION reject_locked_period_transaction();
+
+CREATE OR REPLACE FUNCTION reject_locked_period_nav()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_locked date;
+BEGIN
+  v_locked := nav_locked_through(NEW.fund_id);
+  IF v_locked IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.nav_date <= v_locked AND NEW.restatement_reason IS NULL THEN
+      RAISE EXCEPTION 'NAV period is locked through %; restate the NAV for % instead', v_locked, NEW.nav_date
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.nav_date > v_locked AND OLD.nav_date > v_locked THEN
+    RETURN NEW;
+  END IF;
+
+  -- Restatement versions stay editable until approved; any other version may
+  -- only be marked superseded, which approving its restatement does
+  IF OLD.restatement_reason IS NOT NULL AND NEW.restatement_reason IS NOT NULL AND NEW.nav_date = OLD.nav_date THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'superseded'
+     AND (to_jsonb(NEW) - 'status' - 'updated_at') = (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'NAV period is locked through %; the NAV for % cannot be changed, restate it instead', v_locked, OLD.nav_date
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_nav_calculations_period_lock ON nav_calculations;
+CREATE TRIGGER trg_nav_calculations_period_lock
+  BEFORE INSERT OR UPDATE ON nav_calculations
+  FOR EACH ROW EXECUTE FUNCTION reject_locked_period_nav();
+
+REVOKE EXECUTE ON FUNCTION nav_locked_through(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION nav_locked_through(uuid) TO authenticated;
+
+ALTER TABLE nav_period_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nav_restatements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view NAV period locks for their tenant"
+  ON nav_period_locks FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create NAV period locks"
+  ON nav_period_locks FOR INSERT
+  TO authenticated
+  WITH CHECK (staff_has_permission(tenant_id, 'can_manage_nav'));
+
+CREATE POLICY "Staff can update NAV period locks"
+  ON nav_period_locks FOR UPDATE
+  TO authenticated
+  USING (staff_has_permission(tenant_id, 'can_manage_nav'))
+  WITH CHECK (staff_has_permission(tenant_id, 'can_manage_nav'));
+
+CREATE POLICY "Users can view NAV restatements for their tenant"
+  ON nav_restatements FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create NAV restatements"
+  ON nav_restatements FOR INSERT
+  TO authenticated
+  WITH CHECK (staff_has_permission(tenant_id, 'can_manage_nav'));
+
+CREATE POLICY "Staff can update NAV restatements"
+  ON nav_restatements FOR UPDATE
+  TO authenticated
+  USING (staff_has_permission(tenant_id, 'can_manage_nav'))
+  WITH CHECK (staff_has_permission(tenant_id, 'can_manage_nav'));
@@ -0,0 +1,54 @@
+/*
+  # FX Revaluation and Hedged Share Classes
+
+  1. Changes
+    - `share_classes.is_hedged` (boolean) - Class carries its own currency
+      hedge; the hedge overlay P&L is allocated to this class only
+    - `share_classes.hedge_ratio` (numeric) - Target hedge ratio, 1 = fully
+      hedged
+    - `nav_calculation_details.hedge_share_class_id` (uuid) - Marks a line as
+      the currency hedge overlay of a hedged class
+
+  2. Security
+    - `exchange_rates` is shared market data; staff users may now insert,
+      update and delete rates (previously read-only)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'share_classes' AND column_name = 'is_hedged') THEN
+    ALTER TABLE share_classes ADD COLUMN is_hedged boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'share_classes' AND column_name = 'hedge_ratio') THEN
+    ALTER TABLE share_classes ADD COLUMN hedge_ratio numeric DEFAULT 1;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'nav_calculation_details' AND column_name = 'hedge_share_class_id') THEN
+    ALTER TABLE nav_calculation_details ADD COLUMN hedge_share_class_id uuid REFERENCES share_classes(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE POLICY "Staff can create exchange rates"
+  ON exchange_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can update exchange rates"
+  ON exchange_rates FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can delete exchange rates"
+  ON exchange_rates FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
@@ -0,0 +1,447 @@
+/*
+  # Secondary-Market Settlement
+
+  1. New Tables
+    - `exchange_transfer_confirmations`
+      One confirmation per party for every settled exchange trade.
+      - `id` (uuid, primary key)
+      - `tenant_id`
+      - `exchange_transaction_id`, `order_id`
+      - `party` (text) - buyer or seller
+      - `client_id` (uuid) - The buyer or seller profile
+      - `capital_account_id` (uuid) - Account the units moved into or out of
+      - `confirmation_number` (text)
+      - `quantity`, `price_per_unit`, `gross_amount`, `fee_amount`,
+        `net_amount` (numeric) - Net is what the buyer paid or the seller
+        received after platform fees
+      - `cost_basis` (numeric) - Basis transferred out (seller) or acquired
+        (buyer)
+      - `realized_gain_loss` (numeric) - Seller only
+      - `trade_date`, `issued_at`
+
+  2. Changes
+    - `funds.transfer_rofr_days` (integer) - Length of the GP right-of-first-
+      refusal window opened when an order is matched; 0 means none
+    - `funds.transfer_requires_consent` (boolean) - GP consent is needed
+      before a transfer can settle
+    - `exchange_orders`: `eligibility_checks` (jsonb), `rofr_status` (text:
+      not_applicable, open, waived, exercised), `rofr_deadline`,
+      `gp_consent_by`, `gp_consent_at`, `settled_at`, `settlement_error`
+    - `exchange_transactions`: `price_per_unit`, `buyer_fee`, `seller_fee`,
+      `net_to_seller`, `cost_basis_transferred`, `buyer_capital_account_id`,
+      `seller_capital_account_id`
+
+  3. Functions
+    - `settle_exchange_order` moves units and cost basis from the seller's
+      capital account to the buyer's, books the exchange transaction with
+      platform fees, records transfer_in/transfer_out capital transactions,
+      draws down the listing and issues both confirmations in one
+      transaction. It re-checks the buyer's KYC and accreditation and works
+      out the fees from the tenant's active `marketplace_fees` rules itself
+    - `exercise_exchange_rofr` records the GP exercising its right of first
+      refusal and cancels the matched order
+    - `exchange_trade_fees`, `client_kyc_approved` and `client_accredited`
+      are internal helpers and cannot be called from the API
+
+  4. Security
+    - RLS on `exchange_transfer_confirmations`; tenant staff see all, clients
+      see their own
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'funds' AND column_name = 'transfer_rofr_days') THEN
+    ALTER TABLE funds ADD COLUMN transfer_rofr_days integer DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'funds' AND column_name = 'transfer_requires_consent') THEN
+    ALTER TABLE funds ADD COLUMN transfer_requires_consent boolean DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'eligibility_checks') THEN
+    ALTER TABLE exchange_orders ADD COLUMN eligibility_checks jsonb DEFAULT '[]';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'rofr_status') THEN
+    ALTER TABLE exchange_orders ADD COLUMN rofr_status text DEFAULT 'not_applicable'
+      CHECK (rofr_status IN ('not_applicable', 'open', 'waived', 'exercised'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'rofr_deadline') THEN
+    ALTER TABLE exchange_orders ADD COLUMN rofr_deadline timestamptz;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'gp_consent_by') THEN
+    ALTER TABLE exchange_orders ADD COLUMN gp_consent_by uuid REFERENCES auth.users(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'gp_consent_at') THEN
+    ALTER TABLE exchange_orders ADD COLUMN gp_consent_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'settled_at') THEN
+    ALTER TABLE exchange_orders ADD COLUMN settled_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'settlement_error') THEN
+    ALTER TABLE exchange_orders ADD COLUMN settlement_error text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'price_per_unit') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN price_per_unit numeric(20,6);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'buyer_fee') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN buyer_fee numeric(20,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'seller_fee') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN seller_fee numeric(20,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'net_to_seller') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN net_to_seller numeric(20,2);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'cost_basis_transferred') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN cost_basis_transferred numeric(20,2);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'buyer_capital_account_id') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN buyer_capital_account_id uuid REFERENCES capital_accounts(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_transactions' AND column_name = 'seller_capital_account_id') THEN
+    ALTER TABLE exchange_transactions ADD COLUMN seller_capital_account_id uuid REFERENCES capital_accounts(id);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS exchange_transfer_confirmations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  exchange_transaction_id uuid REFERENCES exchange_transactions(id) ON DELETE CASCADE NOT NULL,
+  order_id uuid REFERENCES exchange_orders(id) ON DELETE SET NULL,
+  party text NOT NULL CHECK (party IN ('buyer', 'seller')),
+  client_id uuid REFERENCES client_profiles(id),
+  capital_account_id uuid REFERENCES capital_accounts(id),
+  confirmation_number text NOT NULL,
+  asset_name text,
+  quantity numeric(20,6) NOT NULL,
+  price_per_unit numeric(20,6) NOT NULL,
+  gross_amount numeric(20,2) NOT NULL,
+  fee_amount numeric(20,2) DEFAULT 0,
+  net_amount numeric(20,2) NOT NULL,
+  cost_basis numeric(20,2),
+  realized_gain_loss numeric(20,2),
+  trade_date date NOT NULL,
+  issued_at timestamptz DEFAULT now(),
+  UNIQUE(exchange_transaction_id, party)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_transfer_confirmations_tenant ON exchange_transfer_confirmations(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_transfer_confirmations_client ON exchange_transfer_confirmations(client_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_transfer_confirmations_capital_account ON exchange_transfer_confirmations(capital_account_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_transfer_confirmations_order ON exchange_transfer_confirmations(order_id);
+
+ALTER TABLE exchange_transfer_confirmations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view transfer confirmations for their tenant"
+  ON exchange_transfer_confirmations FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Clients can view own transfer confirmations"
+  ON exchange_transfer_confirmations FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- The tenant's active marketplace_fees rules applied to a trade. Rules whose
+-- fee type names the buyer are charged on top of the purchase price; every
+-- other rule comes out of the seller's proceeds
+CREATE OR REPLACE FUNCTION exchange_trade_fees(p_tenant_id uuid, p_gross numeric)
+RETURNS TABLE (buyer_fee numeric, seller_fee numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE payer = 'buyer'), 0),
+    COALESCE(sum(amount) FILTER (WHERE payer = 'seller'), 0)
+  FROM (
+    SELECT
+      CASE WHEN COALESCE(fee_type, '') LIKE '%buyer%' THEN 'buyer' ELSE 'seller' END AS payer,
+      round(CASE WHEN calculation_method = 'percentage'
+        THEN p_gross * COALESCE(percentage_rate, 0)
+        ELSE COALESCE(fixed_amount, 0)
+      END, 2) AS amount
+    FROM marketplace_fees
+    WHERE tenant_id = p_tenant_id
+      AND is_active
+  ) rules
+  WHERE amount > 0;
+$$;
+
+-- The client's latest identity verification is approved
+CREATE OR REPLACE FUNCTION client_kyc_approved(p_client_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT didit_session_status = 'Approved'
+    FROM kyc_aml_records
+    WHERE client_user_id = p_client_id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), false);
+$$;
+
+-- The client's CRM contact is verified accredited or holds an unexpired
+-- accreditation verification
+CREATE OR REPLACE FUNCTION client_accredited(p_client_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM crm_contacts c
+    WHERE c.converted_to_client_id = p_client_id
+      AND (
+        c.accreditation_status = 'verified_accredited'
+        OR EXISTS (
+          SELECT 1 FROM accreditation_verification av
+          WHERE av.contact_id = c.id
+            AND av.verified_accredited
+            AND (av.expiration_date IS NULL OR av.expiration_date >= CURRENT_DATE)
+        )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_exchange_order(p_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order       exchange_orders%ROWTYPE;
+  v_listing     marketplace_listings%ROWTYPE;
+  v_fund        funds%ROWTYPE;
+  v_seller      capital_accounts%ROWTYPE;
+  v_buyer_id    uuid;
+  v_gross       numeric;
+  v_buyer_fee   numeric;
+  v_seller_fee  numeric;
+  v_basis       numeric;
+  v_txn_id      uuid;
+  v_out_id      uuid;
+  v_number      text;
+  v_today       date := CURRENT_DATE;
+BEGIN
+  SELECT * INTO v_order FROM exchange_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT staff_has_permission(v_order.tenant_id, 'can_manage_exchange') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF v_order.status <> 'matched' THEN
+    RAISE EXCEPTION 'Only matched orders can settle (order is %)', v_order.status;
+  END IF;
+
+  SELECT * INTO v_listing FROM marketplace_listings WHERE id = v_order.listing_id FOR UPDATE;
+  IF NOT FOUND OR v_listing.asset_type <> 'fund_share' OR v_listing.asset_id IS NULL THEN
+    RAISE EXCEPTION 'Only fund share listings settle through capital accounts';
+  END IF;
+
+  IF v_listing.quantity_available < v_order.quantity THEN
+    RAISE EXCEPTION 'Listing has % units left; order is for %', v_listing.quantity_available, v_order.quantity;
+  END IF;
+
+  SELECT * INTO v_fund FROM funds WHERE id = v_listing.asset_id;
+
+  IF v_order.rofr_status = 'exercised' THEN
+    RAISE EXCEPTION 'The GP exercised its right of first refusal on this order';
+  END IF;
+  IF v_order.rofr_status = 'open' AND v_order.rofr_deadline > now() THEN
+    RAISE EXCEPTION 'Right-of-first-refusal window is open until %', v_order.rofr_deadline;
+  END IF;
+  IF COALESCE(v_fund.transfer_requires_consent, false) AND v_order.gp_consent_at IS NULL THEN
+    RAISE EXCEPTION 'GP consent to the transfer has not been recorded';
+  END IF;
+
+  IF NOT client_kyc_approved(v_order.buyer_id) THEN
+    RAISE EXCEPTION 'Buyer KYC/AML is not approved';
+  END IF;
+  IF COALESCE(v_listing.requires_accreditation, false) AND NOT client_accredited(v_order.buyer_id) THEN
+    RAISE EXCEPTION 'Buyer is not a verified accredited investor';
+  END IF;
+
+  SELECT * INTO v_seller
+  FROM capital_accounts
+  WHERE fund_id = v_listing.asset_id
+    AND investor_id = v_order.seller_id
+    AND status = 'active'
+  ORDER BY shares_owned DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR COALESCE(v_seller.shares_owned, 0) < v_order.quantity THEN
+    RAISE EXCEPTION 'Seller does not hold % units in %', v_order.quantity, v_fund.fund_name;
+  END IF;
+
+  SELECT id INTO v_buyer_id
+  FROM capital_accounts
+  WHERE fund_id = v_listing.asset_id
+    AND investor_id = v_order.buyer_id
+    AND share_class_id IS NOT DISTINCT FROM v_seller.share_class_id
+    AND status = 'active'
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_buyer_id IS NULL THEN
+    INSERT INTO capital_accounts (
+      tenant_id, fund_id, share_class_id, investor_id, account_number, status, inception_date
+    ) VALUES (
+      v_order.tenant_id,
+      v_listing.asset_id,
+      v_seller.share_class_id,
+      v_order.buyer_id,
+      v_fund.fund_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+      'active',
+      v_today
+    )
+    RETURNING id INTO v_buyer_id;
+  END IF;
+
+  v_gross := round(v_order.quantity * v_order.price_per_unit, 2);
+  SELECT buyer_fee, seller_fee INTO v_buyer_fee, v_seller_fee
+  FROM exchange_trade_fees(v_order.tenant_id, v_gross);
+  v_basis := round(COALESCE(v_seller.cost_basis, 0) * v_order.quantity / v_seller.shares_owned, 2);
+  v_number := 'TRF-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(random()::text), 1, 6));
+
+  UPDATE capital_accounts
+  SET shares_owned = shares_owned - v_order.quantity,
+      cost_basis = COALESCE(cost_basis, 0) - v_basis,
+      realized_gain_loss = COALESCE(realized_gain_loss, 0) + (v_gross - v_seller_fee - v_basis),
+      updated_at = now()
+  WHERE id = v_seller.id;
+
+  UPDATE capital_accounts
+  SET shares_owned = COALESCE(shares_owned, 0) + v_order.quantity,
+      cost_basis = COALESCE(cost_basis, 0) + v_gross + v_buyer_fee,
+      updated_at = now()
+  WHERE id = v_buyer_id;
+
+  INSERT INTO exchange_transactions (
+    tenant_id, listing_id, order_id, buyer_id, seller_id, asset_name, quantity, price_per_unit,
+    gross_amount, platform_fee, buyer_fee, seller_fee, net_to_seller, cost_basis_transferred,
+    buyer_capital_account_id, seller_capital_account_id, status, transaction_date, processed_by
+  ) VALUES (
+    v_order.tenant_id, v_listing.id, v_order.id, v_order.buyer_id, v_order.seller_id,
+    v_listing.asset_name, v_order.quantity, v_order.price_per_unit,
+    v_gross, v_buyer_fee + v_seller_fee, v_buyer_fee, v_seller_fee, v_gross - v_seller_fee, v_basis,
+    v_buyer_id, v_seller.id, 'completed', now(), auth.uid()
+  )
+  RETURNING id INTO v_txn_id;
+
+  INSERT INTO capital_transactions (
+    tenant_id, capital_account_id, fund_id, transaction_type, transaction_date, settlement_date,
+    amount, shares, price_per_share, currency, status, reference_number, description, created_by
+  ) VALUES (
+    v_order.tenant_id, v_seller.id, v_listing.asset_id, 'transfer_out', v_today, v_today,
+    v_gross, v_order.quantity, v_order.price_per_unit, COALESCE(v_fund.base_currency, 'USD'),
+    'settled', v_number, 'Secondary sale of ' || v_listing.asset_name, auth.uid()
+  )
+  RETURNING id INTO v_out_id;
+
+  INSERT INTO capital_transactions (
+    tenant_id, capital_account_id, fund_id, transaction_type, transaction_date, settlement_date,
+    amount, shares, price_per_share, currency, status, reference_number, description,
+    related_transaction_id, created_by
+  ) VALUES (
+    v_order.tenant_id, v_buyer_id, v_listing.asset_id, 'transfer_in', v_today, v_today,
+    v_gross, v_order.quantity, v_order.price_per_unit, COALESCE(v_fund.base_currency, 'USD'),
+    'settled', v_number, 'Secondary purchase of ' || v_listing.asset_name, v_out_id, auth.uid()
+  );
+
+  UPDATE marketplace_listings
+  SET quantity_available = quantity_available - v_order.quantity,
+      total_value = (quantity_available - v_order.quantity) * price_per_unit,
+      status = CASE WHEN quantity_available - v_order.quantity <= 0 THEN 'completed' ELSE status END
+  WHERE id = v_listing.id;
+
+  UPDATE exchange_orders
+  SET status = 'completed',
+      settled_at = now(),
+      settlement_error = NULL
+  WHERE id = v_order.id;
+
+  INSERT INTO exchange_transfer_confirmations (
+    tenant_id, exchange_transaction_id, order_id, party, client_id, capital_account_id,
+    confirmation_number, asset_name, quantity, price_per_unit, gross_amount, fee_amount,
+    net_amount, cost_basis, realized_gain_loss, trade_date
+  ) VALUES
+  (
+    v_order.tenant_id, v_txn_id, v_order.id, 'buyer', v_order.buyer_id, v_buyer_id,
+    v_number || '-B', v_listing.asset_name, v_order.quantity, v_order.price_per_unit, v_gross,
+    v_buyer_fee, v_gross + v_buyer_fee, v_gross + v_buyer_fee, NULL, v_today
+  ),
+  (
+    v_order.tenant_id, v_txn_id, v_order.id, 'seller', v_order.seller_id, v_seller.id,
+    v_number || '-S', v_listing.asset_name, v_order.quantity, v_order.price_per_unit, v_gross,
+    v_seller_fee, v_gross - v_seller_fee, v_basis, v_gross - v_seller_fee - v_basis, v_today
+  );
+
+  RETURN v_txn_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.exercise_exchange_rofr(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order exchange_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM exchange_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT staff_has_permission(v_order.tenant_id, 'can_manage_exchange') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF v_order.status <> 'matched' OR v_order.rofr_status <> 'open' THEN
+    RAISE EXCEPTION 'No right-of-first-refusal window is open on this order';
+  END IF;
+
+  UPDATE exchange_orders
+  SET rofr_status = 'exercised',
+      status = 'cancelled'
+  WHERE id = p_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION exchange_trade_fees(uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION client_kyc_approved(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION client_accredited(uuid) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.settle_exchange_order(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.settle_exchange_order(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.exercise_exchange_rofr(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.exercise_exchange_rofr(uuid) TO authenticated;
@@ -0,0 +1,794 @@
+/*
+  # Exchange Order Book and Periodic Auctions
+
+  1. New Tables
+    - `exchange_books`
+      One order book per fund (and optionally share class).
+      - `id` (uuid, primary key)
+      - `tenant_id`, `fund_id`, `share_class_id`
+      - `name` (text) - Shown to investors
+      - `mode` (text) - continuous (orders match as they arrive) or auction
+        (orders rest until a periodic call auction)
+      - `auction_frequency` (text) - monthly or quarterly
+      - `next_auction_date` (date) - Normally the next NAV date
+      - `price_band_pct` (numeric) - Limit prices must be within this
+        distance of the reference NAV; null for no band
+      - `requires_accreditation` (boolean) - Bidders must be accredited
+      - `last_price`, `last_auction_at`, `last_auction_price`
+      - `is_active` (boolean)
+
+    - `exchange_book_orders`
+      Investor bids and asks with limit prices.
+      - `id` (uuid, primary key)
+      - `tenant_id`, `book_id`
+      - `client_id` (uuid) - Investor placing the order
+      - `capital_account_id` (uuid) - For asks, the account the units come from
+      - `side` (text) - bid or ask
+      - `limit_price`, `quantity`, `quantity_filled` (numeric)
+      - `status` (text) - open, partially_filled, filled, cancelled, expired
+      - `expires_at` (timestamptz)
+      - `created_at`, `updated_at`
+
+  2. Changes
+    - `exchange_orders` can now come from the book: `fund_id`,
+      `share_class_id`, `bid_order_id`, `ask_order_id`, `order_source`
+      (listing, order_book, auction); `listing_id` becomes optional
+    - `settle_exchange_order` settles book trades from the ask's capital
+      account, checking accreditation against the book for them
+    - `exercise_exchange_rofr` puts the refused quantity back on the bid and
+      ask of a book trade so both can trade again
+
+  3. Functions
+    - `place_exchange_book_order` validates and records an investor order
+      (holdings for asks; KYC, accreditation and the price band for bids)
+      and matches continuous books straight away
+    - `cancel_exchange_book_order` cancels an open order
+    - `run_exchange_auction` crosses a book at one clearing price and rolls
+      `next_auction_date` on a period; a null price rolls the date without
+      crossing. The exchange-auction-worker Edge Function runs it for every
+      auction book that has come due
+    - `get_exchange_book_depth` returns aggregated depth and the reference
+      NAV without exposing who placed the orders
+    - Matched trades become `exchange_orders` in status matched and follow
+      the normal ROFR, consent and settlement flow
+
+  4. Security
+    - Staff manage books and see all orders for their tenant
+    - Investors see active books for their tenant and their own orders;
+      orders are only written through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS exchange_books (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  fund_id uuid REFERENCES funds(id) ON DELETE CASCADE NOT NULL,
+  share_class_id uuid REFERENCES share_classes(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mode text NOT NULL DEFAULT 'continuous' CHECK (mode IN ('continuous', 'auction')),
+  auction_frequency text DEFAULT 'monthly' CHECK (auction_frequency IN ('monthly', 'quarterly')),
+  next_auction_date date,
+  price_band_pct numeric(7,4),
+  requires_accreditation boolean DEFAULT true,
+  last_price numeric(20,6),
+  last_auction_at timestamptz,
+  last_auction_price numeric(20,6),
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_books_fund_class
+  ON exchange_books(fund_id, COALESCE(share_class_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_exchange_books_tenant ON exchange_books(tenant_id);
+
+CREATE TABLE IF NOT EXISTS exchange_book_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid REFERENCES platform_tenants(id) NOT NULL,
+  book_id uuid REFERENCES exchange_books(id) ON DELETE CASCADE NOT NULL,
+  client_id uuid REFERENCES client_profiles(id) NOT NULL,
+  capital_account_id uuid REFERENCES capital_accounts(id),
+  side text NOT NULL CHECK (side IN ('bid', 'ask')),
+  limit_price numeric(20,6) NOT NULL CHECK (limit_price > 0),
+  quantity numeric(20,6) NOT NULL CHECK (quantity > 0),
+  quantity_filled numeric(20,6) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'partially_filled', 'filled', 'cancelled', 'expired')),
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_book_orders_tenant ON exchange_book_orders(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_book_orders_book ON exchange_book_orders(book_id, side, status);
+CREATE INDEX IF NOT EXISTS idx_exchange_book_orders_client ON exchange_book_orders(client_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_book_orders_capital_account ON exchange_book_orders(capital_account_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'fund_id') THEN
+    ALTER TABLE exchange_orders ADD COLUMN fund_id uuid REFERENCES funds(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'share_class_id') THEN
+    ALTER TABLE exchange_orders ADD COLUMN share_class_id uuid REFERENCES share_classes(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'bid_order_id') THEN
+    ALTER TABLE exchange_orders ADD COLUMN bid_order_id uuid REFERENCES exchange_book_orders(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'ask_order_id') THEN
+    ALTER TABLE exchange_orders ADD COLUMN ask_order_id uuid REFERENCES exchange_book_orders(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'exchange_orders' AND column_name = 'order_source') THEN
+    ALTER TABLE exchange_orders ADD COLUMN order_source text DEFAULT 'listing'
+      CHECK (order_source IN ('listing', 'order_book', 'auction'));
+  END IF;
+END $$;
+
+ALTER TABLE exchange_orders ALTER COLUMN listing_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exchange_orders_fund ON exchange_orders(fund_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_orders_bid_order ON exchange_orders(bid_order_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_orders_ask_order ON exchange_orders(ask_order_id);
+
+ALTER TABLE exchange_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_book_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view exchange books for their tenant"
+  ON exchange_books FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Clients can view active exchange books for their tenant"
+  ON exchange_books FOR SELECT
+  TO authenticated
+  USING (is_active AND tenant_id IN (
+    SELECT tenant_id FROM client_profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can create exchange books"
+  ON exchange_books FOR INSERT
+  TO authenticated
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Staff can update exchange books"
+  ON exchange_books FOR UPDATE
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ))
+  WITH CHECK (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view exchange book orders for their tenant"
+  ON exchange_book_orders FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Clients can view own exchange book orders"
+  ON exchange_book_orders FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION exchange_reference_nav(p_fund_id uuid, p_share_class_id uuid)
+RETURNS TABLE (nav_per_share numeric, nav_date date)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT nc.nav_per_share, nc.nav_date
+  FROM nav_calculations nc
+  WHERE nc.fund_id = p_fund_id
+    AND nc.status = 'approved'
+    AND nc.share_class_id IS NOT DISTINCT FROM p_share_class_id
+  ORDER BY nc.nav_date DESC, nc.version DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_exchange_book_orders(p_book_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE exchange_book_orders
+  SET status = 'expired', updated_at = now()
+  WHERE book_id = p_book_id
+    AND status IN ('open', 'partially_filled')
+    AND expires_at IS NOT NULL
+    AND expires_at <= now();
+$$;
+
+-- Crosses the book in price-time priority. With p_price NULL (continuous
+-- trading) each trade prints at the resting order's limit; with a price
+-- (call auction) every trade prints at that uniform clearing price. Each
+-- fill becomes a matched exchange_orders row for settlement.
+CREATE OR REPLACE FUNCTION match_exchange_book(p_book_id uuid, p_price numeric)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book    exchange_books%ROWTYPE;
+  v_fund    funds%ROWTYPE;
+  v_pair    record;
+  v_qty     numeric;
+  v_price   numeric;
+  v_fills   integer := 0;
+BEGIN
+  SELECT * INTO v_book FROM exchange_books WHERE id = p_book_id FOR UPDATE;
+  SELECT * INTO v_fund FROM funds WHERE id = v_book.fund_id;
+
+  PERFORM expire_exchange_book_orders(p_book_id);
+
+  LOOP
+    SELECT
+      b.id AS bid_id, b.client_id AS buyer_id, b.limit_price AS bid_price,
+      b.quantity - b.quantity_filled AS bid_left, b.created_at AS bid_at,
+      a.id AS ask_id, a.client_id AS seller_id, a.limit_price AS ask_price,
+      a.quantity - a.quantity_filled AS ask_left, a.created_at AS ask_at
+    INTO v_pair
+    FROM exchange_book_orders b
+    JOIN exchange_book_orders a
+      ON a.book_id = b.book_id
+     AND a.side = 'ask'
+     AND a.status IN ('open', 'partially_filled')
+     AND a.client_id <> b.client_id
+     AND a.limit_price <= b.limit_price
+    WHERE b.book_id = p_book_id
+      AND b.side = 'bid'
+      AND b.status IN ('open', 'partially_filled')
+      AND (p_price IS NULL OR (b.limit_price >= p_price AND a.limit_price <= p_price))
+    ORDER BY b.limit_price DESC, b.created_at, a.limit_price, a.created_at
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+
+    v_qty := LEAST(v_pair.bid_left, v_pair.ask_left);
+    v_price := COALESCE(
+      p_price,
+      CASE WHEN v_pair.ask_at <= v_pair.bid_at THEN v_pair.ask_price ELSE v_pair.bid_price END
+    );
+
+    UPDATE exchange_book_orders
+    SET quantity_filled = quantity_filled + v_qty,
+        status = CASE WHEN quantity_filled + v_qty >= quantity THEN 'filled' ELSE 'partially_filled' END,
+        updated_at = now()
+    WHERE id IN (v_pair.bid_id, v_pair.ask_id);
+
+    INSERT INTO exchange_orders (
+      tenant_id, fund_id, share_class_id, buyer_id, seller_id, bid_order_id, ask_order_id,
+      order_source, quantity, price_per_unit, total_amount, status, matched_at,
+      eligibility_checks, rofr_status, rofr_deadline
+    ) VALUES (
+      v_book.tenant_id, v_book.fund_id, v_book.share_class_id, v_pair.buyer_id, v_pair.seller_id,
+      v_pair.bid_id, v_pair.ask_id,
+      CASE WHEN p_price IS NULL THEN 'order_book' ELSE 'auction' END,
+      v_qty, v_price, round(v_qty * v_price, 2), 'matched', now(),
+      jsonb_build_array(jsonb_build_object(
+        'id', 'placement', 'label', 'Checked when the orders were placed', 'passed', true,
+        'detail', 'Holdings, KYC, accreditation and price band validated at order entry'
+      )),
+      CASE WHEN COALESCE(v_fund.transfer_rofr_days, 0) > 0 THEN 'open' ELSE 'not_applicable' END,
+      CASE WHEN COALESCE(v_fund.transfer_rofr_days, 0) > 0
+        THEN now() + make_interval(days => v_fund.transfer_rofr_days) END
+    );
+
+    v_fills := v_fills + 1;
+
+    UPDATE exchange_books SET last_price = v_price WHERE id = p_book_id;
+  END LOOP;
+
+  RETURN v_fills;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_exchange_book_order(
+  p_book_id uuid,
+  p_side text,
+  p_quantity numeric,
+  p_limit_price numeric,
+  p_expires_at timestamptz
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book      exchange_books%ROWTYPE;
+  v_ref       numeric;
+  v_account   uuid;
+  v_free      numeric;
+  v_contact   uuid;
+  v_order_id  uuid;
+BEGIN
+  SELECT * INTO v_book FROM exchange_books WHERE id = p_book_id;
+  IF NOT FOUND OR NOT v_book.is_active THEN
+    RAISE EXCEPTION 'This order book is not open';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM client_profiles WHERE id = auth.uid() AND tenant_id = v_book.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF p_side NOT IN ('bid', 'ask') THEN
+    RAISE EXCEPTION 'Side must be bid or ask';
+  END IF;
+  IF p_quantity IS NULL OR p_quantity <= 0 OR p_limit_price IS NULL OR p_limit_price <= 0 THEN
+    RAISE EXCEPTION 'Quantity and limit price must be positive';
+  END IF;
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  IF v_book.price_band_pct IS NOT NULL THEN
+    SELECT nav_per_share INTO v_ref FROM exchange_reference_nav(v_book.fund_id, v_book.share_class_id);
+    IF v_ref IS NOT NULL AND v_ref > 0 AND abs(p_limit_price / v_ref - 1) * 100 > v_book.price_band_pct THEN
+      RAISE EXCEPTION 'Limit price must be within % percent of the reference NAV of %', v_book.price_band_pct, round(v_ref, 4);
+    END IF;
+  END IF;
+
+  IF p_side = 'ask' THEN
+    SELECT ca.id, ca.shares_owned - COALESCE((
+      SELECT sum(o.quantity - o.quantity_filled)
+      FROM exchange_book_orders o
+      WHERE o.capital_account_id = ca.id
+        AND o.side = 'ask'
+        AND o.status IN ('open', 'partially_filled')
+    ), 0)
+    INTO v_account, v_free
+    FROM capital_accounts ca
+    WHERE ca.fund_id = v_book.fund_id
+      AND ca.investor_id = auth.uid()
+      AND ca.status = 'active'
+      AND (v_book.share_class_id IS NULL OR ca.share_class_id = v_book.share_class_id)
+    ORDER BY ca.shares_owned DESC
+    LIMIT 1;
+
+    IF v_account IS NULL OR COALESCE(v_free, 0) < p_quantity THEN
+      RAISE EXCEPTION 'You have % units available to sell', round(GREATEST(COALESCE(v_free, 0), 0), 4);
+    END IF;
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM kyc_aml_records
+      WHERE client_user_id = auth.uid()
+        AND didit_session_status = 'Approved'
+    ) THEN
+      RAISE EXCEPTION 'Complete identity verification before placing a bid';
+    END IF;
+
+    IF v_book.requires_accreditation THEN
+      SELECT id INTO v_contact FROM crm_contacts WHERE converted_to_client_id = auth.uid() LIMIT 1;
+      IF NOT EXISTS (
+        SELECT 1 FROM crm_contacts
+        WHERE id = v_contact AND accreditation_status = 'verified_accredited'
+      ) AND NOT EXISTS (
+        SELECT 1 FROM accreditation_verification
+        WHERE contact_id = v_contact
+          AND verified_accredited
+          AND (expiration_date IS NULL OR expiration_date >= CURRENT_DATE)
+      ) THEN
+        RAISE EXCEPTION 'Only verified accredited investors can bid in this book';
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO exchange_book_orders (
+    tenant_id, book_id, client_id, capital_account_id, side, limit_price, quantity, expires_at
+  ) VALUES (
+    v_book.tenant_id, p_book_id, auth.uid(), v_account, p_side, p_limit_price, p_quantity, p_expires_at
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_book.mode = 'continuous' THEN
+    PERFORM match_exchange_book(p_book_id, NULL);
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_exchange_book_order(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order exchange_book_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM exchange_book_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.client_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid() AND tenant_id = v_order.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF v_order.status NOT IN ('open', 'partially_filled') THEN
+    RAISE EXCEPTION 'Order is already %', v_order.status;
+  END IF;
+
+  UPDATE exchange_book_orders
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- p_price is the clearing price worked out by the caller from the book
+-- (maximum executable volume, then smallest imbalance, then nearest the
+-- reference NAV), or null when nothing crosses. Staff run it by hand and
+-- exchange-auction-worker runs it with the service role when a book is due
+CREATE OR REPLACE FUNCTION public.run_exchange_auction(p_book_id uuid, p_price numeric)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book  exchange_books%ROWTYPE;
+  v_fills integer;
+BEGIN
+  SELECT * INTO v_book FROM exchange_books WHERE id = p_book_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order book not found';
+  END IF;
+
+  IF COALESCE(auth.role(), '') <> 'service_role'
+    AND NOT staff_has_permission(v_book.tenant_id, 'can_manage_exchange') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF p_price IS NOT NULL AND p_price <= 0 THEN
+    RAISE EXCEPTION 'Clearing price must be positive';
+  END IF;
+
+  v_fills := CASE WHEN p_price IS NULL THEN 0 ELSE match_exchange_book(p_book_id, p_price) END;
+
+  UPDATE exchange_books
+  SET last_auction_at = now(),
+      last_auction_price = CASE WHEN v_fills > 0 THEN p_price ELSE last_auction_price END,
+      next_auction_date = CASE
+        WHEN next_auction_date IS NULL THEN NULL
+        WHEN auction_frequency = 'quarterly' THEN (next_auction_date + interval '3 months')::date
+        ELSE (next_auction_date + interval '1 month')::date
+      END
+  WHERE id = p_book_id;
+
+  RETURN v_fills;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_exchange_book_depth(p_book_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book    exchange_books%ROWTYPE;
+  v_ref     record;
+BEGIN
+  SELECT * INTO v_book FROM exchange_books WHERE id = p_book_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order book not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM client_profiles WHERE id = auth.uid() AND tenant_id = v_book.tenant_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid() AND tenant_id = v_book.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT * INTO v_ref FROM exchange_reference_nav(v_book.fund_id, v_book.share_class_id);
+
+  RETURN jsonb_build_object(
+    'reference_nav', v_ref.nav_per_share,
+    'reference_nav_date', v_ref.nav_date,
+    'last_price', v_book.last_price,
+    'bids', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('price', price, 'quantity', qty, 'orders', n) ORDER BY price DESC)
+      FROM (
+        SELECT limit_price AS price, sum(quantity - quantity_filled) AS qty, count(*) AS n
+        FROM exchange_book_orders
+        WHERE book_id = p_book_id AND side = 'bid' AND status IN ('open', 'partially_filled')
+          AND (expires_at IS NULL OR expires_at > now())
+        GROUP BY limit_price
+      ) levels
+    ), '[]'::jsonb),
+    'asks', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('price', price, 'quantity', qty, 'orders', n) ORDER BY price)
+      FROM (
+        SELECT limit_price AS price, sum(quantity - quantity_filled) AS qty, count(*) AS n
+        FROM exchange_book_orders
+        WHERE book_id = p_book_id AND side = 'ask' AND status IN ('open', 'partially_filled')
+          AND (expires_at IS NULL OR expires_at > now())
+        GROUP BY limit_price
+      ) levels
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Order book trades have no listing: the fund comes from the order and the
+-- units from the ask's capital account
+CREATE OR REPLACE FUNCTION public.settle_exchange_order(p_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order       exchange_orders%ROWTYPE;
+  v_listing     marketplace_listings%ROWTYPE;
+  v_fund        funds%ROWTYPE;
+  v_fund_id     uuid;
+  v_asset_name  text;
+  v_ask_account uuid;
+  v_accr_only   boolean;
+  v_seller      capital_accounts%ROWTYPE;
+  v_buyer_id    uuid;
+  v_gross       numeric;
+  v_buyer_fee   numeric;
+  v_seller_fee  numeric;
+  v_basis       numeric;
+  v_txn_id      uuid;
+  v_out_id      uuid;
+  v_number      text;
+  v_today       date := CURRENT_DATE;
+BEGIN
+  SELECT * INTO v_order FROM exchange_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT staff_has_permission(v_order.tenant_id, 'can_manage_exchange') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF v_order.status <> 'matched' THEN
+    RAISE EXCEPTION 'Only matched orders can settle (order is %)', v_order.status;
+  END IF;
+
+  IF v_order.listing_id IS NOT NULL THEN
+    SELECT * INTO v_listing FROM marketplace_listings WHERE id = v_order.listing_id FOR UPDATE;
+    IF NOT FOUND OR v_listing.asset_type <> 'fund_share' OR v_listing.asset_id IS NULL THEN
+      RAISE EXCEPTION 'Only fund share listings settle through capital accounts';
+    END IF;
+
+    IF v_listing.quantity_available < v_order.quantity THEN
+      RAISE EXCEPTION 'Listing has % units left; order is for %', v_listing.quantity_available, v_order.quantity;
+    END IF;
+
+    v_fund_id := v_listing.asset_id;
+    v_accr_only := COALESCE(v_listing.requires_accreditation, false);
+  ELSE
+    v_fund_id := v_order.fund_id;
+    SELECT capital_account_id INTO v_ask_account FROM exchange_book_orders WHERE id = v_order.ask_order_id;
+    SELECT COALESCE(b.requires_accreditation, false) INTO v_accr_only
+    FROM exchange_book_orders o
+    JOIN exchange_books b ON b.id = o.book_id
+    WHERE o.id = v_order.bid_order_id;
+  END IF;
+
+  SELECT * INTO v_fund FROM funds WHERE id = v_fund_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order has no fund to settle in';
+  END IF;
+
+  v_asset_name := COALESCE(v_listing.asset_name, v_fund.fund_name || COALESCE(
+    ' - Class ' || (SELECT class_code FROM share_classes WHERE id = v_order.share_class_id), ''
+  ));
+
+  IF v_order.rofr_status = 'exercised' THEN
+    RAISE EXCEPTION 'The GP exercised its right of first refusal on this order';
+  END IF;
+  IF v_order.rofr_status = 'open' AND v_order.rofr_deadline > now() THEN
+    RAISE EXCEPTION 'Right-of-first-refusal window is open until %', v_order.rofr_deadline;
+  END IF;
+  IF COALESCE(v_fund.transfer_requires_consent, false) AND v_order.gp_consent_at IS NULL THEN
+    RAISE EXCEPTION 'GP consent to the transfer has not been recorded';
+  END IF;
+
+  IF NOT client_kyc_approved(v_order.buyer_id) THEN
+    RAISE EXCEPTION 'Buyer KYC/AML is not approved';
+  END IF;
+  IF COALESCE(v_accr_only, false) AND NOT client_accredited(v_order.buyer_id) THEN
+    RAISE EXCEPTION 'Buyer is not a verified accredited investor';
+  END IF;
+
+  SELECT * INTO v_seller
+  FROM capital_accounts
+  WHERE fund_id = v_fund_id
+    AND investor_id = v_order.seller_id
+    AND status = 'active'
+    AND (v_ask_account IS NULL OR id = v_ask_account)
+  ORDER BY shares_owned DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR COALESCE(v_seller.shares_owned, 0) < v_order.quantity THEN
+    RAISE EXCEPTION 'Seller does not hold % units in %', v_order.quantity, v_fund.fund_name;
+  END IF;
+
+  SELECT id INTO v_buyer_id
+  FROM capital_accounts
+  WHERE fund_id = v_fund_id
+    AND investor_id = v_order.buyer_id
+    AND share_class_id IS NOT DISTINCT FROM v_seller.share_class_id
+    AND status = 'active'
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_buyer_id IS NULL THEN
+    INSERT INTO capital_accounts (
+      tenant_id, fund_id, share_class_id, investor_id, account_number, status, inception_date
+    ) VALUES (
+      v_order.tenant_id,
+      v_fund_id,
+      v_seller.share_class_id,
+      v_order.buyer_id,
+      v_fund.fund_code || '-' || upper(substr(md5(random()::text), 1, 6)),
+      'active',
+      v_today
+    )
+    RETURNING id INTO v_buyer_id;
+  END IF;
+
+  v_gross := round(v_order.quantity * v_order.price_per_unit, 2);
+  SELECT buyer_fee, seller_fee INTO v_buyer_fee, v_seller_fee
+  FROM exchange_trade_fees(v_order.tenant_id, v_gross);
+  v_basis := round(COALESCE(v_seller.cost_basis, 0) * v_order.quantity / v_seller.shares_owned, 2);
+  v_number := 'TRF-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(random()::text), 1, 6));
+
+  UPDATE capital_accounts
+  SET shares_owned = shares_owned - v_order.quantity,
+      cost_basis = COALESCE(cost_basis, 0) - v_basis,
+      realized_gain_loss = COALESCE(realized_gain_loss, 0) + (v_gross - v_seller_fee - v_basis),
+      updated_at = now()
+  WHERE id = v_seller.id;
+
+  UPDATE capital_accounts
+  SET shares_owned = COALESCE(shares_owned, 0) + v_order.quantity,
+      cost_basis = COALESCE(cost_basis, 0) + v_gross + v_buyer_fee,
+      updated_at = now()
+  WHERE id = v_buyer_id;
+
+  INSERT INTO exchange_transactions (
+    tenant_id, listing_id, order_id, buyer_id, seller_id, asset_name, quantity, price_per_unit,
+    gross_amount, platform_fee, buyer_fee, seller_fee, net_to_seller, cost_basis_transferred,
+    buyer_capital_account_id, seller_capital_account_id, status, transaction_date, processed_by
+  ) VALUES (
+    v_order.tenant_id, v_order.listing_id, v_order.id, v_order.buyer_id, v_order.seller_id,
+    v_asset_name, v_order.quantity, v_order.price_per_unit,
+    v_gross, v_buyer_fee + v_seller_fee, v_buyer_fee, v_seller_fee, v_gross - v_seller_fee, v_basis,
+    v_buyer_id, v_seller.id, 'completed', now(), auth.uid()
+  )
+  RETURNING id INTO v_txn_id;
+
+  INSERT INTO capital_transactions (
+    tenant_id, capital_account_id, fund_id, transaction_type, transaction_date, settlement_date,
+    amount, shares, price_per_share, currency, status, reference_number, description, created_by
+  ) VALUES (
+    v_order.tenant_id, v_seller.id, v_fund_id, 'transfer_out', v_today, v_today,
+    v_gross, v_order.quantity, v_order.price_per_unit, COALESCE(v_fund.base_currency, 'USD'),
+    'settled', v_number, 'Secondary sale of ' || v_asset_name, auth.uid()
+  )
+  RETURNING id INTO v_out_id;
+
+  INSERT INTO capital_transactions (
+    tenant_id, capital_account_id, fund_id, transaction_type, transaction_date, settlement_date,
+    amount, shares, price_per_share, currency, status, reference_number, description,
+    related_transaction_id, created_by
+  ) VALUES (
+    v_order.tenant_id, v_buyer_id, v_fund_id, 'transfer_in', v_today, v_today,
+    v_gross, v_order.quantity, v_order.price_per_unit, COALESCE(v_fund.base_currency, 'USD'),
+    'settled', v_number, 'Secondary purchase of ' || v_asset_name, v_out_id, auth.uid()
+  );
+
+  IF v_order.listing_id IS NOT NULL THEN
+    UPDATE marketplace_listings
+    SET quantity_available = quantity_available - v_order.quantity,
+        total_value = (quantity_available - v_order.quantity) * price_per_unit,
+        status = CASE WHEN quantity_available - v_order.quantity <= 0 THEN 'completed' ELSE status END
+    WHERE id = v_listing.id;
+  END IF;
+
+  UPDATE exchange_orders
+  SET status = 'completed',
+      settled_at = now(),
+      settlement_error = NULL
+  WHERE id = v_order.id;
+
+  INSERT INTO exchange_transfer_confirmations (
+    tenant_id, exchange_transaction_id, order_id, party, client_id, capital_account_id,
+    confirmation_number, asset_name, quantity, price_per_unit, gross_amount, fee_amount,
+    net_amount, cost_basis, realized_gain_loss, trade_date
+  ) VALUES
+  (
+    v_order.tenant_id, v_txn_id, v_order.id, 'buyer', v_order.buyer_id, v_buyer_id,
+    v_number || '-B', v_asset_name, v_order.quantity, v_order.price_per_unit, v_gross,
+    v_buyer_fee, v_gross + v_buyer_fee, v_gross + v_buyer_fee, NULL, v_today
+  ),
+  (
+    v_order.tenant_id, v_txn_id, v_order.id, 'seller', v_order.seller_id, v_seller.id,
+    v_number || '-S', v_asset_name, v_order.quantity, v_order.price_per_unit, v_gross,
+    v_seller_fee, v_gross - v_seller_fee, v_basis, v_gross - v_seller_fee - v_basis, v_today
+  );
+
+  RETURN v_txn_id;
+END;
+$$;
+
+-- A refused book trade never moved any units, so the fill is unwound on both
+-- resting orders; cancelled or expired orders stay closed
+CREATE OR REPLACE FUNCTION public.exercise_exchange_rofr(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order exchange_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM exchange_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT staff_has_permission(v_order.tenant_id, 'can_manage_exchange') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF v_order.status <> 'matched' OR v_order.rofr_status <> 'open' THEN
+    RAISE EXCEPTION 'No right-of-first-refusal window is open on this order';
+  END IF;
+
+  UPDATE exchange_orders
+  SET rofr_status = 'exercised',
+      status = 'cancelled'
+  WHERE id = p_order_id;
+
+  UPDATE exchange_book_orders
+  SET quantity_filled = GREATEST(quantity_filled - v_order.quantity, 0),
+      status = CASE
+        WHEN status IN ('cancelled', 'expired') THEN status
+        WHEN quantity_filled - v_order.quantity > 0 THEN 'partially_filled'
+        ELSE 'open'
+      END,
+      updated_at = now()
+  WHERE id IN (v_order.bid_order_id, v_order.ask_order_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION exchange_reference_nav(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_exchange_book_orders(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION match_exchange_book(uuid, numeric) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.place_exchange_book_order(uuid, text, numeric, numeric, timestamptz) FROM anon;
+GRANT EXECUTE ON FUNCTION public.place_exchange_book_order(uuid, text, numeric, numeric, timestamptz) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_exchange_book_order(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.cancel_exchange_book_order(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_exchange_auction(uuid, numeric) FROM anon;
+GRANT EXECUTE ON FUNCTION public.run_exchange_auction(uuid, numeric) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.get_exchange_book_depth(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_exchange_book_depth(uuid) TO authenticated;
@@ -0,0 +1,469 @@
+/*
+  # Tenant Audit Trail
+
+  Every create, update and delete on a tenant's financial and investor
+  records is written to `audit_logs` by database triggers, so changes made
+  from the portal, RPCs, edge functions and webhooks are all captured.
+
+  1. Changes
+    - `audit_logs.sequence_number` (bigint) - Position in the tenant's hash chain
+    - The user and tenant foreign keys are dropped so deleting a user or
+      tenant never rewrites an existing entry
+
+  2. Functions
+    - `audit_row_change` trigger records actor, before/after diff of the
+      changed columns, IP address, user agent and reason. The reason is read
+      from the base64 `x-audit-reason` request header
+    - `chain_audit_log` numbers each entry and links it to the previous
+      entry's SHA-256 hash; `audit_log_hash` computes the digest
+    - `verify_audit_chain` walks a tenant's chain and reports the first break
+    - `log_audit_event` records application events such as exports
+    - `get_audit_trail_tenants` lists the tenants the caller may inspect
+    - `can_read_audit_trail` / `can_write_audit_event` decide who may read a
+      tenant's trail and who may add application events to it
+    - Audited tables: funds, share_classes, capital_accounts,
+      capital_transactions, transactions, nav_calculations, fee_structures,
+      kyc_aml_records and invoice_payments
+
+  3. Security
+    - `audit_logs` is append-only: updates, deletes and truncates raise, and
+      clients cannot write to it directly
+    - Tenant owners and admins (`tenant_users.role` owner/admin) and auditors
+      with an accepted or in-progress assignment for the tenant can read its
+      trail, alongside the existing staff policy. Investors are also
+      `tenant_users` (role `user`) and are excluded
+    - Only tenant staff, tenant owners/admins, platform admins and the
+      service role can record application events
+    - Entries written before this migration have no sequence number and sit
+      outside the chain
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_logs' AND column_name = 'sequence_number') THEN
+    ALTER TABLE audit_logs ADD COLUMN sequence_number bigint;
+  END IF;
+END $$;
+
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_fkey;
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_tenant_id_fkey;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_tenant_sequence
+  ON audit_logs(tenant_id, sequence_number) WHERE sequence_number IS NOT NULL;
+
+-- Access
+
+CREATE OR REPLACE FUNCTION public.can_read_audit_trail(p_tenant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid() AND tenant_id = p_tenant_id)
+    OR EXISTS (SELECT 1 FROM tenant_users WHERE user_id = auth.uid() AND tenant_id = p_tenant_id AND role IN ('owner', 'admin'))
+    OR EXISTS (SELECT 1 FROM platform_admin_users WHERE user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM auditor_assignments aa
+      JOIN auditor_profiles ap ON ap.id = aa.auditor_profile_id
+      WHERE ap.user_id = auth.uid()
+        AND aa.tenant_id = p_tenant_id
+        AND aa.assignment_status IN ('accepted', 'in_progress')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_write_audit_event(p_tenant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.role() = 'service_role'
+    OR EXISTS (SELECT 1 FROM staff_accounts WHERE auth_user_id = auth.uid() AND tenant_id = p_tenant_id)
+    OR EXISTS (SELECT 1 FROM tenant_users WHERE user_id = auth.uid() AND tenant_id = p_tenant_id AND role IN ('owner', 'admin'))
+    OR EXISTS (SELECT 1 FROM platform_admin_users WHERE user_id = auth.uid());
+$$;
+
+DROP POLICY IF EXISTS "Tenant owners view tenant audit logs" ON audit_logs;
+CREATE POLICY "Tenant owners view tenant audit logs"
+  ON audit_logs FOR SELECT TO authenticated
+  USING (tenant_id IN (SELECT tenant_id FROM tenant_users WHERE user_id = auth.uid() AND role IN ('owner', 'admin')));
+
+DROP POLICY IF EXISTS "Assigned auditors view tenant audit logs" ON audit_logs;
+CREATE POLICY "Assigned auditors view tenant audit logs"
+  ON audit_logs FOR SELECT TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT aa.tenant_id
+      FROM auditor_assignments aa
+      JOIN auditor_profiles ap ON ap.id = aa.auditor_profile_id
+      WHERE ap.user_id = auth.uid()
+        AND aa.assignment_status IN ('accepted', 'in_progress')
+    )
+  );
+
+-- Hash chain
+
+CREATE OR REPLACE FUNCTION public.audit_log_hash(p audit_logs)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    COALESCE(p.previous_hash, ''),
+    COALESCE(p.tenant_id::text, ''),
+    p.sequence_number::text,
+    p.event_type,
+    p.severity,
+    to_char(p.timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    COALESCE(p.user_id::text, ''),
+    COALESCE(host(p.ip_address), ''),
+    COALESCE(p.user_agent, ''),
+    COALESCE(p.resource, ''),
+    COALESCE(p.resource_id, ''),
+    COALESCE(p.action, ''),
+    COALESCE(p.changes::text, ''),
+    COALESCE(p.reason, ''),
+    COALESCE(p.additional_data::text, '')
+  ), 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last audit_logs%ROWTYPE;
+BEGIN
+  -- One writer per tenant chain at a time
+  PERFORM pg_advisory_xact_lock(hashtext('audit_logs:' || COALESCE(NEW.tenant_id::text, 'platform')));
+
+  SELECT * INTO v_last
+  FROM audit_logs
+  WHERE tenant_id IS NOT DISTINCT FROM NEW.tenant_id
+    AND sequence_number IS NOT NULL
+  ORDER BY sequence_number DESC
+  LIMIT 1;
+
+  NEW.timestamp := now();
+  NEW.created_at := now();
+  NEW.sequence_number := COALESCE(v_last.sequence_number, 0) + 1;
+  NEW.previous_hash := v_last.current_hash;
+  NEW.current_hash := audit_log_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chain_audit_log ON audit_logs;
+CREATE TRIGGER chain_audit_log
+  BEFORE INSERT ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.chain_audit_log();
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_mutation();
+
+DROP TRIGGER IF EXISTS audit_logs_no_truncate ON audit_logs;
+CREATE TRIGGER audit_logs_no_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_mutation();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_logs FROM anon, authenticated;
+
+-- Row change capture
+
+CREATE OR REPLACE FUNCTION public.audit_resolve_tenant(p_row jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant uuid;
+BEGIN
+  v_tenant := NULLIF(p_row->>'tenant_id', '')::uuid;
+
+  IF v_tenant IS NULL AND p_row ? 'fund_id' THEN
+    SELECT tenant_id INTO v_tenant FROM funds WHERE id = (p_row->>'fund_id')::uuid;
+  END IF;
+
+  IF v_tenant IS NULL AND p_row ? 'capital_account_id' THEN
+    SELECT tenant_id INTO v_tenant FROM capital_accounts WHERE id = (p_row->>'capital_account_id')::uuid;
+  END IF;
+
+  IF v_tenant IS NULL AND p_row ? 'invoice_id' THEN
+    SELECT tenant_id INTO v_tenant FROM invoices WHERE id = (p_row->>'invoice_id')::uuid;
+  END IF;
+
+  IF v_tenant IS NULL AND p_row ? 'contact_id' THEN
+    SELECT tenant_id INTO v_tenant FROM crm_contacts WHERE id = (p_row->>'contact_id')::uuid;
+  END IF;
+
+  IF v_tenant IS NULL THEN
+    SELECT tenant_id INTO v_tenant FROM staff_accounts WHERE auth_user_id = auth.uid() LIMIT 1;
+  END IF;
+
+  RETURN v_tenant;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old     jsonb;
+  v_new     jsonb;
+  v_before  jsonb;
+  v_after   jsonb;
+  v_key     text;
+  v_headers jsonb;
+  v_reason  text;
+  v_ip      inet;
+  v_event   text;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN v_old := to_jsonb(OLD); END IF;
+  IF TG_OP <> 'DELETE' THEN v_new := to_jsonb(NEW); END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_before := '{}'::jsonb;
+    v_after := '{}'::jsonb;
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key <> 'updated_at' AND v_new->v_key IS DISTINCT FROM v_old->v_key THEN
+        v_before := v_before || jsonb_build_object(v_key, v_old->v_key);
+        v_after := v_after || jsonb_build_object(v_key, v_new->v_key);
+      END IF;
+    END LOOP;
+
+    IF v_after = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    v_before := v_old;
+    v_after := v_new;
+  END IF;
+
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  EXCEPTION WHEN OTHERS THEN
+    v_headers := NULL;
+  END;
+
+  IF v_headers ? 'x-audit-reason' THEN
+    BEGIN
+      v_reason := convert_from(decode(v_headers->>'x-audit-reason', 'base64'), 'UTF8');
+    EXCEPTION WHEN OTHERS THEN
+      v_reason := v_headers->>'x-audit-reason';
+    END;
+  END IF;
+
+  IF v_headers ? 'x-forwarded-for' THEN
+    BEGIN
+      v_ip := trim(split_part(v_headers->>'x-forwarded-for', ',', 1))::inet;
+    EXCEPTION WHEN OTHERS THEN
+      v_ip := NULL;
+    END;
+  END IF;
+
+  v_event := CASE
+    WHEN TG_TABLE_NAME = 'nav_calculations' AND v_after->>'status' = 'approved' THEN 'nav_approved'
+    WHEN TG_TABLE_NAME = 'kyc_aml_records' AND TG_OP = 'UPDATE'
+      AND (v_after ? 'didit_session_status' OR v_after ? 'id_verification_status' OR v_after ? 'aml_screening_status') THEN 'kyc_decision'
+    WHEN TG_TABLE_NAME = 'invoice_payments' AND TG_OP = 'INSERT' THEN 'invoice_payment_recorded'
+    WHEN TG_OP = 'INSERT' THEN 'record_created'
+    WHEN TG_OP = 'UPDATE' THEN 'record_updated'
+    ELSE 'record_deleted'
+  END;
+
+  INSERT INTO audit_logs (
+    event_type, severity, user_id, tenant_id, ip_address, user_agent,
+    resource, resource_id, action, changes, reason, additional_data, current_hash
+  ) VALUES (
+    v_event,
+    CASE WHEN TG_OP = 'DELETE' THEN 'WARNING' ELSE 'INFO' END,
+    auth.uid(),
+    audit_resolve_tenant(COALESCE(v_new, v_old)),
+    v_ip,
+    v_headers->>'user-agent',
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old)->>'id',
+    lower(TG_OP),
+    jsonb_build_object('before', v_before, 'after', v_after),
+    v_reason,
+    jsonb_build_object(
+      'actor_email', auth.jwt()->>'email',
+      'actor_role', COALESCE(auth.role(), 'system')
+    ),
+    ''
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'funds', 'share_classes', 'capital_accounts', 'capital_transactions', 'transactions',
+    'nav_calculations', 'fee_structures', 'kyc_aml_records', 'invoice_payments'
+  ] LOOP
+    IF to_regclass('public.' || v_table) IS NOT NULL THEN
+      EXECUTE format('DROP TRIGGER IF EXISTS audit_row_change ON public.%I', v_table);
+      EXECUTE format(
+        'CREATE TRIGGER audit_row_change AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+        v_table
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- Application events, verification and tenant list
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(
+  p_tenant_id uuid,
+  p_event_type text,
+  p_resource text,
+  p_resource_id text,
+  p_reason text,
+  p_data jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers jsonb;
+  v_id      uuid;
+BEGIN
+  IF NOT can_write_audit_event(p_tenant_id) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  EXCEPTION WHEN OTHERS THEN
+    v_headers := NULL;
+  END;
+
+  INSERT INTO audit_logs (
+    event_type, severity, user_id, tenant_id, user_agent,
+    resource, resource_id, action, reason, additional_data, current_hash
+  ) VALUES (
+    p_event_type,
+    'INFO',
+    auth.uid(),
+    p_tenant_id,
+    v_headers->>'user-agent',
+    p_resource,
+    p_resource_id,
+    'event',
+    p_reason,
+    COALESCE(p_data, '{}'::jsonb) || jsonb_build_object('actor_email', auth.jwt()->>'email'),
+    ''
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_audit_chain(p_tenant_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r          audit_logs%ROWTYPE;
+  v_prev     text;
+  v_expected bigint := 1;
+BEGIN
+  IF NOT can_read_audit_trail(p_tenant_id) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  FOR r IN
+    SELECT * FROM audit_logs
+    WHERE tenant_id = p_tenant_id AND sequence_number IS NOT NULL
+    ORDER BY sequence_number
+  LOOP
+    IF r.sequence_number <> v_expected THEN
+      RETURN jsonb_build_object('valid', false, 'checked', v_expected - 1, 'broken_at', v_expected,
+        'entry_id', r.id, 'problem', format('Entry %s is missing', v_expected));
+    END IF;
+
+    IF r.previous_hash IS DISTINCT FROM v_prev THEN
+      RETURN jsonb_build_object('valid', false, 'checked', v_expected - 1, 'broken_at', r.sequence_number,
+        'entry_id', r.id, 'problem', 'Link to the previous entry does not match');
+    END IF;
+
+    IF r.current_hash <> audit_log_hash(r) THEN
+      RETURN jsonb_build_object('valid', false, 'checked', v_expected - 1, 'broken_at', r.sequence_number,
+        'entry_id', r.id, 'problem', 'Entry contents do not match its hash');
+    END IF;
+
+    v_prev := r.current_hash;
+    v_expected := v_expected + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('valid', true, 'checked', v_expected - 1, 'head_hash', v_prev);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_audit_trail_tenants()
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT pt.id, pt.name
+  FROM platform_tenants pt
+  WHERE pt.id IN (
+    SELECT tenant_id FROM staff_accounts WHERE auth_user_id = auth.uid()
+    UNION
+    SELECT tenant_id FROM tenant_users WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    UNION
+    SELECT aa.tenant_id
+    FROM auditor_assignments aa
+    JOIN auditor_profiles ap ON ap.id = aa.auditor_profile_id
+    WHERE ap.user_id = auth.uid()
+      AND aa.assignment_status IN ('accepted', 'in_progress')
+  )
+  ORDER BY pt.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_read_audit_trail(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.can_write_audit_event(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.chain_audit_log() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.audit_resolve_tenant(jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.audit_row_change() FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION public.log_audit_event(uuid, text, text, text, text, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.log_audit_event(uuid, text, text, text, text, jsonb) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.verify_audit_chain(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.verify_audit_chain(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_audit_trail_tenants() FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_audit_trail_tenants() TO authenticated;
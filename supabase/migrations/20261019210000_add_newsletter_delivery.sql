@@ -0,0 +1,544 @@
+/*
+  # Newsletter Delivery
+
+  Scheduled newsletters are picked up by the `newsletter-worker` edge
+  function, which queues one recipient row per address, sends in batches
+  through the tenant's email provider and marks the newsletter sent once the
+  queue drains. Opens, clicks, unsubscribes and provider bounce/complaint
+  webhooks are recorded by the `newsletter-tracking` edge function.
+
+  1. Changes
+    - `newsletters.include_subscribers` (boolean) - Also send to the public
+      `newsletter_subscribers` list
+    - `newsletters.send_started_at`, `newsletters.last_error`
+    - `newsletter_recipients.client_id` is now nullable; website subscribers
+      are linked through `subscriber_id` instead
+    - `newsletter_recipients.tracking_token` - Opaque token used in open,
+      click and unsubscribe links
+    - `newsletter_recipients.provider_message_id`, `error_message`,
+      `attempts`, `claimed_at`, `bounced_at`, `unsubscribed_at`,
+      `last_clicked_at`
+
+  2. Functions (service role only)
+    - `resolve_newsletter_audience` - Clients holding the targeted funds or
+      share classes (or every tenant client, or a custom list), plus
+      subscribed website subscribers when requested, minus suppressed
+      addresses
+    - `claim_due_newsletters` - Moves due scheduled newsletters to `sending`
+      and queues their recipients
+    - `claim_newsletter_batch` - Leases pending recipients to one worker run
+    - `complete_newsletter_if_done` - Marks the newsletter sent when no
+      recipient is left pending
+    - `record_newsletter_event` - Open and click tracking
+    - `unsubscribe_newsletter_recipient` - Suppresses the address for the tenant
+    - `record_newsletter_delivery_event` - Delivered, bounced and complained
+      provider webhooks
+
+  3. Suppression
+    - `newsletter_subscribers` doubles as the tenant's suppression list:
+      unsubscribed, bounced and complained addresses are never queued again,
+      whether they belong to a website subscriber or to a client
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletters' AND column_name = 'include_subscribers') THEN
+    ALTER TABLE newsletters ADD COLUMN include_subscribers boolean DEFAULT false;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletters' AND column_name = 'send_started_at') THEN
+    ALTER TABLE newsletters ADD COLUMN send_started_at timestamptz;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletters' AND column_name = 'last_error') THEN
+    ALTER TABLE newsletters ADD COLUMN last_error text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'subscriber_id') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN subscriber_id uuid REFERENCES newsletter_subscribers(id) ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'tracking_token') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN tracking_token text
+      DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'provider_message_id') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN provider_message_id text;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'error_message') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN error_message text;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'attempts') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN attempts integer DEFAULT 0;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'claimed_at') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN claimed_at timestamptz;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'bounced_at') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN bounced_at timestamptz;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'unsubscribed_at') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN unsubscribed_at timestamptz;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'newsletter_recipients' AND column_name = 'last_clicked_at') THEN
+    ALTER TABLE newsletter_recipients ADD COLUMN last_clicked_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE newsletter_recipients ALTER COLUMN client_id DROP NOT NULL;
+
+UPDATE newsletter_recipients
+SET tracking_token = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+WHERE tracking_token IS NULL;
+
+ALTER TABLE newsletter_recipients ALTER COLUMN tracking_token SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_newsletter_recipients_token ON newsletter_recipients(tracking_token);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_newsletter_recipients_email ON newsletter_recipients(newsletter_id, lower(email));
+CREATE INDEX IF NOT EXISTS idx_newsletter_recipients_pending ON newsletter_recipients(newsletter_id, created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_newsletter_recipients_provider_message ON newsletter_recipients(provider_message_id) WHERE provider_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_newsletter_recipients_subscriber_id_fk ON newsletter_recipients(subscriber_id);
+CREATE INDEX IF NOT EXISTS idx_newsletters_due ON newsletters(scheduled_send_at) WHERE status = 'scheduled';
+
+-- Staff read access to delivery stats (the original policies only cover tenant_users)
+
+DROP POLICY IF EXISTS "Staff can view tenant newsletter recipients" ON newsletter_recipients;
+CREATE POLICY "Staff can view tenant newsletter recipients"
+  ON newsletter_recipients FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM staff_accounts sa
+      WHERE sa.auth_user_id = auth.uid()
+      AND sa.tenant_id = newsletter_recipients.tenant_id
+      AND sa.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view tenant newsletter analytics" ON newsletter_analytics;
+CREATE POLICY "Staff can view tenant newsletter analytics"
+  ON newsletter_analytics FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM staff_accounts sa
+      WHERE sa.auth_user_id = auth.uid()
+      AND sa.tenant_id = newsletter_analytics.tenant_id
+      AND sa.status = 'active'
+    )
+  );
+
+-- Audience
+
+CREATE OR REPLACE FUNCTION public.resolve_newsletter_audience(p_newsletter_id uuid)
+RETURNS TABLE (client_id uuid, subscriber_id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH n AS (
+    SELECT * FROM newsletters WHERE id = p_newsletter_id
+  ),
+  clients AS (
+    SELECT DISTINCT ON (lower(cp.email)) cp.id AS client_id, NULL::uuid AS subscriber_id, cp.email
+    FROM client_profiles cp, n
+    WHERE cp.tenant_id = n.tenant_id
+      AND cp.email IS NOT NULL AND cp.email <> ''
+      AND CASE n.target_audience
+        WHEN 'all_clients' THEN true
+        WHEN 'specific_funds' THEN EXISTS (
+          SELECT 1 FROM capital_accounts ca
+          WHERE ca.investor_id = cp.id
+            AND ca.fund_id = ANY(COALESCE(n.target_fund_ids, '{}'))
+            AND COALESCE(ca.status, 'active') = 'active'
+            AND COALESCE(ca.shares_owned, 0) > 0
+        )
+        WHEN 'specific_share_classes' THEN EXISTS (
+          SELECT 1 FROM capital_accounts ca
+          WHERE ca.investor_id = cp.id
+            AND ca.share_class_id = ANY(COALESCE(n.target_share_class_ids, '{}'))
+            AND COALESCE(ca.status, 'active') = 'active'
+            AND COALESCE(ca.shares_owned, 0) > 0
+        )
+        WHEN 'custom_list' THEN cp.id = ANY(COALESCE(n.target_client_ids, '{}'))
+        ELSE false
+      END
+    ORDER BY lower(cp.email), cp.created_at
+  ),
+  subscribers AS (
+    SELECT NULL::uuid AS client_id, ns.id AS subscriber_id, ns.email
+    FROM newsletter_subscribers ns, n
+    WHERE n.include_subscribers
+      AND ns.tenant_id = n.tenant_id
+      AND ns.status = 'subscribed'
+      AND NOT EXISTS (SELECT 1 FROM clients c WHERE lower(c.email) = lower(ns.email))
+  )
+  SELECT a.client_id, a.subscriber_id, a.email
+  FROM (SELECT * FROM clients UNION ALL SELECT * FROM subscribers) a, n
+  WHERE NOT EXISTS (
+    SELECT 1 FROM newsletter_subscribers s
+    WHERE s.tenant_id = n.tenant_id
+      AND lower(s.email) = lower(a.email)
+      AND s.status IN ('unsubscribed', 'bounced', 'complained')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_newsletter_stats(p_newsletter_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE newsletters n
+  SET
+    total_recipients = s.total,
+    delivered_count = s.delivered,
+    opened_count = s.opened,
+    clicked_count = s.clicked,
+    bounced_count = s.bounced,
+    unsubscribed_count = s.unsubscribed,
+    updated_at = now()
+  FROM (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE sent_at IS NOT NULL AND status NOT IN ('bounced', 'failed')) AS delivered,
+      count(*) FILTER (WHERE first_opened_at IS NOT NULL) AS opened,
+      count(*) FILTER (WHERE click_count > 0) AS clicked,
+      count(*) FILTER (WHERE status = 'bounced') AS bounced,
+      count(*) FILTER (WHERE unsubscribed_at IS NOT NULL) AS unsubscribed
+    FROM newsletter_recipients
+    WHERE newsletter_id = p_newsletter_id
+  ) s
+  WHERE n.id = p_newsletter_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_newsletter_recipients(p_newsletter_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id uuid;
+  v_count integer;
+BEGIN
+  SELECT tenant_id INTO v_tenant_id FROM newsletters WHERE id = p_newsletter_id;
+
+  INSERT INTO newsletter_recipients (newsletter_id, tenant_id, client_id, subscriber_id, email, status)
+  SELECT p_newsletter_id, v_tenant_id, a.client_id, a.subscriber_id, a.email, 'pending'
+  FROM resolve_newsletter_audience(p_newsletter_id) a
+  ON CONFLICT (newsletter_id, lower(email)) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  PERFORM refresh_newsletter_stats(p_newsletter_id);
+  RETURN v_count;
+END;
+$$;
+
+-- Worker
+
+CREATE OR REPLACE FUNCTION public.claim_due_newsletters()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_newsletter record;
+  v_count integer := 0;
+BEGIN
+  FOR v_newsletter IN
+    SELECT id FROM newsletters
+    WHERE status = 'scheduled'
+    AND scheduled_send_at <= now()
+    ORDER BY scheduled_send_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE newsletters
+    SET status = 'sending', send_started_at = now(), last_error = NULL, updated_at = now()
+    WHERE id = v_newsletter.id;
+
+    PERFORM queue_newsletter_recipients(v_newsletter.id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+/*
+  Leases up to p_limit pending recipients. A lease older than ten minutes
+  is treated as abandoned by a crashed run and handed out again.
+*/
+CREATE OR REPLACE FUNCTION public.claim_newsletter_batch(p_newsletter_id uuid, p_limit integer DEFAULT 100)
+RETURNS SETOF newsletter_recipients
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE newsletter_recipients r
+  SET claimed_at = now(), attempts = COALESCE(r.attempts, 0) + 1, updated_at = now()
+  WHERE r.id IN (
+    SELECT id FROM newsletter_recipients
+    WHERE newsletter_id = p_newsletter_id
+    AND status = 'pending'
+    AND (claimed_at IS NULL OR claimed_at < now() - interval '10 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_newsletter_if_done(p_newsletter_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_newsletter_stats(p_newsletter_id);
+
+  IF EXISTS (SELECT 1 FROM newsletter_recipients WHERE newsletter_id = p_newsletter_id AND status = 'pending') THEN
+    RETURN false;
+  END IF;
+
+  UPDATE newsletters
+  SET status = 'sent', sent_at = now(), updated_at = now()
+  WHERE id = p_newsletter_id AND status = 'sending';
+
+  RETURN true;
+END;
+$$;
+
+-- Tracking
+
+CREATE OR REPLACE FUNCTION public.bump_newsletter_analytics(
+  p_newsletter_id uuid,
+  p_tenant_id uuid,
+  p_link_url text,
+  p_opens integer DEFAULT 0,
+  p_unique_opens integer DEFAULT 0,
+  p_clicks integer DEFAULT 0,
+  p_unique_clicks integer DEFAULT 0,
+  p_bounces integer DEFAULT 0,
+  p_unsubscribes integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date date := (now() AT TIME ZONE 'UTC')::date;
+  v_hour integer := extract(hour FROM now() AT TIME ZONE 'UTC')::integer;
+BEGIN
+  UPDATE newsletter_analytics
+  SET
+    opens = opens + p_opens,
+    unique_opens = unique_opens + p_unique_opens,
+    clicks = clicks + p_clicks,
+    unique_clicks = unique_clicks + p_unique_clicks,
+    link_clicks = link_clicks + CASE WHEN p_link_url IS NULL THEN 0 ELSE p_clicks END,
+    bounces = bounces + p_bounces,
+    unsubscribes = unsubscribes + p_unsubscribes
+  WHERE newsletter_id = p_newsletter_id
+  AND date = v_date
+  AND hour = v_hour
+  AND link_url IS NOT DISTINCT FROM p_link_url;
+
+  IF NOT FOUND THEN
+    INSERT INTO newsletter_analytics (
+      newsletter_id, tenant_id, date, hour, link_url, opens, unique_opens,
+      clicks, unique_clicks, link_clicks, bounces, unsubscribes
+    ) VALUES (
+      p_newsletter_id, p_tenant_id, v_date, v_hour, p_link_url, p_opens, p_unique_opens,
+      p_clicks, p_unique_clicks, CASE WHEN p_link_url IS NULL THEN 0 ELSE p_clicks END, p_bounces, p_unsubscribes
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_newsletter_event(p_token text, p_event text, p_url text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient newsletter_recipients;
+  v_first boolean;
+BEGIN
+  SELECT * INTO v_recipient FROM newsletter_recipients WHERE tracking_token = p_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_event = 'open' THEN
+    v_first := v_recipient.first_opened_at IS NULL;
+
+    UPDATE newsletter_recipients
+    SET
+      open_count = COALESCE(open_count, 0) + 1,
+      first_opened_at = COALESCE(first_opened_at, now()),
+      last_opened_at = now(),
+      status = CASE WHEN status IN ('sent', 'delivered') THEN 'opened' ELSE status END,
+      updated_at = now()
+    WHERE id = v_recipient.id;
+
+    IF v_recipient.subscriber_id IS NOT NULL THEN
+      UPDATE newsletter_subscribers
+      SET opens_count = COALESCE(opens_count, 0) + 1, last_opened_at = now(), updated_at = now()
+      WHERE id = v_recipient.subscriber_id;
+    END IF;
+
+    PERFORM bump_newsletter_analytics(
+      v_recipient.newsletter_id, v_recipient.tenant_id, NULL,
+      p_opens => 1, p_unique_opens => CASE WHEN v_first THEN 1 ELSE 0 END
+    );
+  ELSIF p_event = 'click' THEN
+    v_first := COALESCE(v_recipient.click_count, 0) = 0;
+
+    -- A click implies the message was opened even when images were blocked
+    UPDATE newsletter_recipients
+    SET
+      click_count = COALESCE(click_count, 0) + 1,
+      last_clicked_at = now(),
+      first_opened_at = COALESCE(first_opened_at, now()),
+      last_opened_at = COALESCE(last_opened_at, now()),
+      links_clicked = CASE
+        WHEN p_url IS NULL OR p_url = ANY(COALESCE(links_clicked, '{}')) THEN links_clicked
+        ELSE array_append(COALESCE(links_clicked, '{}'), p_url)
+      END,
+      status = CASE WHEN status IN ('sent', 'delivered', 'opened') THEN 'clicked' ELSE status END,
+      updated_at = now()
+    WHERE id = v_recipient.id;
+
+    IF v_recipient.subscriber_id IS NOT NULL THEN
+      UPDATE newsletter_subscribers
+      SET clicks_count = COALESCE(clicks_count, 0) + 1, last_clicked_at = now(), updated_at = now()
+      WHERE id = v_recipient.subscriber_id;
+    END IF;
+
+    PERFORM bump_newsletter_analytics(
+      v_recipient.newsletter_id, v_recipient.tenant_id, p_url,
+      p_clicks => 1, p_unique_clicks => CASE WHEN v_first THEN 1 ELSE 0 END
+    );
+  ELSE
+    RAISE EXCEPTION 'Unknown newsletter event: %', p_event;
+  END IF;
+
+  PERFORM refresh_newsletter_stats(v_recipient.newsletter_id);
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.suppress_newsletter_address(p_tenant_id uuid, p_email text, p_status text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO newsletter_subscribers (tenant_id, email, status, source, unsubscribed_at)
+  VALUES (p_tenant_id, lower(p_email), p_status, 'newsletter', now())
+  ON CONFLICT (tenant_id, email) DO UPDATE
+  SET status = EXCLUDED.status, unsubscribed_at = now(), updated_at = now();
+$$;
+
+CREATE OR REPLACE FUNCTION public.unsubscribe_newsletter_recipient(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient newsletter_recipients;
+  v_tenant_name text;
+BEGIN
+  SELECT * INTO v_recipient FROM newsletter_recipients WHERE tracking_token = p_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(company_name, name) INTO v_tenant_name FROM platform_tenants WHERE id = v_recipient.tenant_id;
+
+  IF v_recipient.unsubscribed_at IS NULL THEN
+    UPDATE newsletter_recipients
+    SET status = 'unsubscribed', unsubscribed_at = now(), updated_at = now()
+    WHERE id = v_recipient.id;
+
+    IF v_recipient.subscriber_id IS NOT NULL THEN
+      UPDATE newsletter_subscribers
+      SET status = 'unsubscribed', unsubscribed_at = now(), updated_at = now()
+      WHERE id = v_recipient.subscriber_id;
+    END IF;
+
+    PERFORM suppress_newsletter_address(v_recipient.tenant_id, v_recipient.email, 'unsubscribed');
+    PERFORM bump_newsletter_analytics(v_recipient.newsletter_id, v_recipient.tenant_id, NULL, p_unsubscribes => 1);
+    PERFORM refresh_newsletter_stats(v_recipient.newsletter_id);
+  END IF;
+
+  RETURN jsonb_build_object('email', v_recipient.email, 'tenant_name', v_tenant_name);
+END;
+$$;
+
+/*
+  Handles provider webhooks. Recipients are matched on the provider message
+  id; the email narrows the match because SendGrid reuses one id across a
+  multi-recipient send.
+*/
+CREATE OR REPLACE FUNCTION public.record_newsletter_delivery_event(p_provider_message_id text, p_email text, p_event text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient newsletter_recipients;
+  v_count integer := 0;
+BEGIN
+  FOR v_recipient IN
+    SELECT * FROM newsletter_recipients
+    WHERE provider_message_id = p_provider_message_id
+    AND (p_email IS NULL OR lower(email) = lower(p_email))
+    FOR UPDATE
+  LOOP
+    IF p_event = 'delivered' THEN
+      UPDATE newsletter_recipients
+      SET delivered_at = COALESCE(delivered_at, now()),
+          status = CASE WHEN status = 'sent' THEN 'delivered' ELSE status END,
+          updated_at = now()
+      WHERE id = v_recipient.id;
+    ELSIF p_event IN ('bounced', 'complained') THEN
+      UPDATE newsletter_recipients
+      SET status = CASE WHEN p_event = 'bounced' THEN 'bounced' ELSE 'unsubscribed' END,
+          bounced_at = CASE WHEN p_event = 'bounced' THEN now() ELSE bounced_at END,
+          unsubscribed_at = CASE WHEN p_event = 'complained' THEN COALESCE(unsubscribed_at, now()) ELSE unsubscribed_at END,
+          updated_at = now()
+      WHERE id = v_recipient.id;
+
+      PERFORM suppress_newsletter_address(v_recipient.tenant_id, v_recipient.email, p_event);
+      IF p_event = 'bounced' AND v_recipient.status <> 'bounced' THEN
+        PERFORM bump_newsletter_analytics(v_recipient.newsletter_id, v_recipient.tenant_id, NULL, p_bounces => 1);
+      END IF;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    PERFORM refresh_newsletter_stats(v_recipient.newsletter_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_newsletter_audience(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_newsletter_stats(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_newsletter_recipients(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_due_newsletters() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_newsletter_batch(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_newsletter_if_done(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.bump_newsletter_analytics(uuid, uuid, text, integer, integer, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_newsletter_event(text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.suppress_newsletter_address(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unsubscribe_newsletter_recipient(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_newsletter_delivery_event(text, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,30 @@
+/*
+  # Public Site Forms and Content
+
+  Custom forms embedded on tenant websites now post to the `submit-form`
+  edge function, which validates submissions against the form definition,
+  filters spam and sends the notification email.
+
+  1. Security
+    - Drop the anon/authenticated INSERT policy on `form_submissions`;
+      submissions are written by the edge function with the service role, so
+      field validation and spam checks cannot be bypassed by inserting
+      directly
+
+  2. Indexes
+    - `form_submissions (tenant_id, ip_address, submitted_at)` for the
+      per-address hourly submission limit
+    - `blog_posts (tenant_id, status, published_at)` for the public blog index
+
+  3. Notes
+    - Blog posts, FAQs, testimonials and form definitions are read with the
+      existing public SELECT policies
+*/
+
+DROP POLICY IF EXISTS "Anyone can submit forms" ON public.form_submissions;
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_tenant_ip_submitted
+  ON form_submissions(tenant_id, ip_address, submitted_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_blog_posts_public_listing
+  ON blog_posts(tenant_id, status, published_at DESC);
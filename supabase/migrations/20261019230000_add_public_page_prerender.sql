@@ -0,0 +1,197 @@
+/*
+  # Public Page Prerendering
+
+  Crawlers and link unfurlers requesting a tenant website are served HTML
+  prerendered by the `prerender-page` edge function (via the Vercel
+  middleware), with per-page meta, Open Graph tags and JSON-LD from
+  `website_seo_settings`. The same function serves `/sitemap.xml` and
+  `/robots.txt` for every tenant domain.
+
+  1. New Tables
+    - `prerendered_pages` - Rendered output per tenant and path
+      - `tenant_id`, `path` (primary key)
+      - `status_code`
+      - `content_type`
+      - `head` - Title, meta, Open Graph and JSON-LD tags (HTML pages only)
+      - `body` - Page markup, or the sitemap/robots text
+      - `rendered_at`
+
+  2. Cache Invalidation
+    - Saving any public content for a tenant (pages, sections, SEO settings,
+      blog, FAQs, testimonials, forms, theme, navigation, site settings or
+      domains) deletes that tenant's rendered pages, so the next crawler
+      request renders fresh output
+
+  3. Functions
+    - `generate_sitemap_xml(p_tenant_id, p_base_url)` replaces the earlier
+      version, which read from a table that no longer exists. Lists
+      published site pages (except those marked noindex), the blog index and
+      published blog posts
+
+  4. Security
+    - `prerendered_pages` has RLS enabled and no policies; only the service
+      role reads and writes it
+*/
+
+CREATE TABLE IF NOT EXISTS prerendered_pages (
+  tenant_id uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  path text NOT NULL,
+  status_code integer NOT NULL DEFAULT 200,
+  content_type text NOT NULL DEFAULT 'text/html; charset=utf-8',
+  head text,
+  body text NOT NULL DEFAULT '',
+  rendered_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (tenant_id, path)
+);
+
+ALTER TABLE prerendered_pages ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- CACHE INVALIDATION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION invalidate_prerendered_pages()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_tenant_id := OLD.tenant_id;
+  ELSE
+    v_tenant_id := NEW.tenant_id;
+  END IF;
+
+  IF v_tenant_id IS NOT NULL THEN
+    DELETE FROM prerendered_pages WHERE tenant_id = v_tenant_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.tenant_id IS DISTINCT FROM NEW.tenant_id AND OLD.tenant_id IS NOT NULL THEN
+    DELETE FROM prerendered_pages WHERE tenant_id = OLD.tenant_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invalidate_prerendered_pages() FROM PUBLIC, anon, authenticated;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'site_pages',
+    'website_content',
+    'website_seo_settings',
+    'blog_posts',
+    'blog_categories',
+    'faq_items',
+    'testimonials',
+    'custom_forms',
+    'site_themes',
+    'navigation_menus',
+    'tenant_settings',
+    'tenant_domains'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_invalidate_prerender ON %I', v_table, v_table);
+    EXECUTE format(
+      'CREATE TRIGGER trg_%s_invalidate_prerender
+         AFTER INSERT OR UPDATE OR DELETE ON %I
+         FOR EACH ROW EXECUTE FUNCTION invalidate_prerendered_pages()',
+      v_table, v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- SITEMAP
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS generate_sitemap_xml(uuid);
+
+CREATE FUNCTION generate_sitemap_xml(p_tenant_id uuid, p_base_url text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_base text;
+  v_sitemap text;
+  v_row record;
+BEGIN
+  v_base := rtrim(p_base_url, '/');
+
+  IF v_base IS NULL THEN
+    SELECT 'https://' || domain INTO v_base
+    FROM tenant_domains
+    WHERE tenant_id = p_tenant_id
+      AND is_verified = true
+    ORDER BY is_primary DESC NULLS LAST, created_at
+    LIMIT 1;
+  END IF;
+
+  IF v_base IS NULL THEN
+    SELECT 'https://' || slug || '.clearnav.cv' INTO v_base
+    FROM platform_tenants
+    WHERE id = p_tenant_id;
+  END IF;
+
+  v_sitemap := '<?xml version="1.0" encoding="UTF-8"?>' || E'\n'
+    || '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' || E'\n';
+
+  FOR v_row IN
+    SELECT
+      CASE WHEN sp.slug = 'home' THEN '/' ELSE '/' || sp.slug END AS path,
+      GREATEST(sp.updated_at, (
+        SELECT max(wc.updated_at) FROM website_content wc
+        WHERE wc.tenant_id = sp.tenant_id AND wc.page_slug = sp.slug AND wc.is_published = true
+      )) AS lastmod,
+      CASE WHEN sp.slug = 'home' THEN '1.0' ELSE '0.8' END AS priority
+    FROM site_pages sp
+    LEFT JOIN website_seo_settings seo
+      ON seo.tenant_id = sp.tenant_id AND seo.page_slug = sp.slug
+    WHERE sp.tenant_id = p_tenant_id
+      AND sp.is_published = true
+      AND NOT ('noindex' = ANY (COALESCE(seo.robots_directives, ARRAY[]::text[])))
+    ORDER BY sp.slug = 'home' DESC, sp.nav_order, sp.slug
+  LOOP
+    v_sitemap := v_sitemap
+      || '  <url><loc>' || v_base || v_row.path || '</loc>'
+      || COALESCE('<lastmod>' || to_char(v_row.lastmod, 'YYYY-MM-DD') || '</lastmod>', '')
+      || '<changefreq>weekly</changefreq><priority>' || v_row.priority || '</priority></url>' || E'\n';
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM blog_posts
+    WHERE tenant_id = p_tenant_id AND status = 'published' AND published_at <= now()
+  ) THEN
+    v_sitemap := v_sitemap
+      || '  <url><loc>' || v_base || '/blog</loc><changefreq>weekly</changefreq><priority>0.7</priority></url>' || E'\n';
+
+    FOR v_row IN
+      SELECT slug, COALESCE(updated_at, published_at) AS lastmod
+      FROM blog_posts
+      WHERE tenant_id = p_tenant_id AND status = 'published' AND published_at <= now()
+      ORDER BY published_at DESC
+    LOOP
+      v_sitemap := v_sitemap
+        || '  <url><loc>' || v_base || '/blog/' || replace(replace(v_row.slug, '&', '&amp;'), '<', '&lt;') || '</loc>'
+        || '<lastmod>' || to_char(v_row.lastmod, 'YYYY-MM-DD') || '</lastmod>'
+        || '<changefreq>monthly</changefreq><priority>0.6</priority></url>' || E'\n';
+    END LOOP;
+  END IF;
+
+  RETURN v_sitemap || '</urlset>';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_sitemap_xml(uuid, text) TO authenticated, anon;
+
+COMMENT ON FUNCTION generate_sitemap_xml(uuid, text) IS 'Generates the XML sitemap for a tenant website';
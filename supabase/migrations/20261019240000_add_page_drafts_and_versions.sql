@@ -0,0 +1,441 @@
+/*
+  # Page Drafts and Versions
+
+  The page builders used to write straight into `website_content`, so every
+  save was live. Edits now go to a per-page draft; publishing copies the
+  draft into `website_content` in one transaction and records an immutable
+  snapshot that can be diffed and restored later.
+
+  1. New Tables
+    - `page_drafts` - Work in progress for one tenant page
+      - `tenant_id`, `page_slug` (unique together)
+      - `sections` (jsonb) - Array of `{ section_type, section_order, content, is_published }`
+      - `base_version_id` - Version the draft was started from
+      - `preview_token` - Opaque token for the shareable preview URL
+      - `updated_by`, `created_at`, `updated_at`
+    - `page_versions` - Append-only publish history
+      - `tenant_id`, `page_slug`, `version_number` (unique together)
+      - `sections` (jsonb) - Exactly what went live
+      - `note`, `restored_from_version_id`
+      - `published_by`, `published_at`
+
+  2. Functions
+    - `publish_page_draft(p_draft_id, p_note)` - Publishes a draft atomically
+      and discards it
+    - `rollback_page_version(p_version_id, p_note)` - Republishes an earlier
+      snapshot as a new version
+    - `get_page_draft_preview(p_token)` - Draft sections for the preview URL
+      (callable by anon; the token is the credential)
+    - `process_scheduled_content()` - Now also publishes page drafts, scopes
+      blog post updates to the schedule's tenant and skips rows another run
+      has locked. Called by the new `content-schedule-worker` edge function
+      (service role only)
+
+  3. Changes
+    - `content_schedule.content_type` accepts `page`; `content_id` is the
+      `page_drafts.id` to publish
+
+  4. Existing Content
+    - Every page that already has sections gets a version 1 snapshot so there
+      is something to roll back to
+
+  5. Security
+    - Drafts and versions are readable by tenant admins and staff users, the
+      same audience that manages `website_content`
+    - Versions can't be updated or deleted except by tenant deletion
+*/
+
+CREATE TABLE IF NOT EXISTS page_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  page_slug text NOT NULL,
+  version_number integer NOT NULL,
+  sections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  note text,
+  restored_from_version_id uuid REFERENCES page_versions(id),
+  published_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, page_slug, version_number)
+);
+
+CREATE TABLE IF NOT EXISTS page_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  page_slug text NOT NULL,
+  sections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  base_version_id uuid REFERENCES page_versions(id) ON DELETE SET NULL,
+  preview_token text NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, page_slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_versions_tenant_page
+  ON page_versions(tenant_id, page_slug, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_page_versions_published_by ON page_versions(published_by);
+CREATE INDEX IF NOT EXISTS idx_page_versions_restored_from ON page_versions(restored_from_version_id);
+CREATE INDEX IF NOT EXISTS idx_page_drafts_base_version ON page_drafts(base_version_id);
+CREATE INDEX IF NOT EXISTS idx_page_drafts_updated_by ON page_drafts(updated_by);
+
+ALTER TABLE page_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant staff can view page versions" ON page_versions;
+CREATE POLICY "Tenant staff can view page versions"
+  ON page_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = page_versions.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Tenant staff can manage page drafts" ON page_drafts;
+CREATE POLICY "Tenant staff can manage page drafts"
+  ON page_drafts FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = page_drafts.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = page_drafts.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.prevent_page_version_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'page_versions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS page_versions_append_only ON page_versions;
+CREATE TRIGGER page_versions_append_only
+  BEFORE UPDATE ON page_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_page_version_mutation();
+
+-- ============================================================================
+-- CONTENT SCHEDULE
+-- ============================================================================
+
+ALTER TABLE content_schedule DROP CONSTRAINT IF EXISTS content_schedule_content_type_check;
+ALTER TABLE content_schedule ADD CONSTRAINT content_schedule_content_type_check
+  CHECK (content_type IN ('blog_post', 'newsletter', 'email', 'page'));
+
+CREATE INDEX IF NOT EXISTS idx_content_schedule_due
+  ON content_schedule(scheduled_for) WHERE status = 'pending';
+
+-- ============================================================================
+-- PUBLISHING
+-- ============================================================================
+
+/*
+  Replaces the live sections of one page and records the snapshot. Callers
+  check authorization; this is the only path that writes website_content
+  from a draft or version.
+*/
+CREATE OR REPLACE FUNCTION public.apply_page_publish(
+  p_tenant_id uuid,
+  p_page_slug text,
+  p_sections jsonb,
+  p_published_by uuid,
+  p_note text DEFAULT NULL,
+  p_restored_from uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sections jsonb;
+  v_version_number integer;
+  v_version_id uuid;
+BEGIN
+  -- Serialise publishes of the same page so version numbers stay gapless
+  PERFORM pg_advisory_xact_lock(hashtext(p_tenant_id::text || ':' || p_page_slug));
+
+  -- Renumber section_order from 0 so the snapshot matches what goes live
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'section_type', x.value->>'section_type',
+      'section_order', (x.position - 1)::integer,
+      'content', COALESCE(x.value->'content', '{}'::jsonb),
+      'is_published', COALESCE((x.value->>'is_published')::boolean, false)
+    ) ORDER BY x.position
+  ), '[]'::jsonb)
+  INTO v_sections
+  FROM (
+    SELECT
+      e.value,
+      row_number() OVER (
+        ORDER BY COALESCE((e.value->>'section_order')::integer, 0), e.ordinality
+      ) AS position
+    FROM jsonb_array_elements(COALESCE(p_sections, '[]'::jsonb)) WITH ORDINALITY AS e(value, ordinality)
+  ) x;
+
+  DELETE FROM website_content
+  WHERE tenant_id = p_tenant_id AND page_slug = p_page_slug;
+
+  INSERT INTO website_content (tenant_id, page_slug, section_type, section_order, content, is_published)
+  SELECT
+    p_tenant_id,
+    p_page_slug,
+    s->>'section_type',
+    (s->>'section_order')::integer,
+    s->'content',
+    (s->>'is_published')::boolean
+  FROM jsonb_array_elements(v_sections) AS s;
+
+  SELECT COALESCE(max(version_number), 0) + 1 INTO v_version_number
+  FROM page_versions
+  WHERE tenant_id = p_tenant_id AND page_slug = p_page_slug;
+
+  INSERT INTO page_versions (tenant_id, page_slug, version_number, sections, note, restored_from_version_id, published_by)
+  VALUES (p_tenant_id, p_page_slug, v_version_number, v_sections, p_note, p_restored_from, p_published_by)
+  RETURNING id INTO v_version_id;
+
+  RETURN v_version_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_page_publish(uuid, text, jsonb, uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_tenant_site_editor(p_tenant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = auth.uid()
+    AND ur.tenant_id = p_tenant_id
+    AND ur.role_category IN ('tenant_admin', 'staff_user')
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_tenant_site_editor(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.publish_page_draft(p_draft_id uuid, p_note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_draft page_drafts%ROWTYPE;
+  v_version_id uuid;
+BEGIN
+  SELECT * INTO v_draft FROM page_drafts WHERE id = p_draft_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found';
+  END IF;
+
+  IF NOT is_tenant_site_editor(v_draft.tenant_id) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  v_version_id := apply_page_publish(
+    v_draft.tenant_id, v_draft.page_slug, v_draft.sections, auth.uid(), NULLIF(trim(p_note), '')
+  );
+
+  DELETE FROM page_drafts WHERE id = p_draft_id;
+
+  UPDATE content_schedule
+  SET status = 'cancelled',
+      error_message = 'Draft was published manually',
+      updated_at = now()
+  WHERE content_type = 'page'
+    AND content_id = p_draft_id
+    AND status = 'pending';
+
+  RETURN v_version_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.publish_page_draft(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.rollback_page_version(p_version_id uuid, p_note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version page_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_version FROM page_versions WHERE id = p_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  IF NOT is_tenant_site_editor(v_version.tenant_id) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  RETURN apply_page_publish(
+    v_version.tenant_id,
+    v_version.page_slug,
+    v_version.sections,
+    auth.uid(),
+    COALESCE(NULLIF(trim(p_note), ''), 'Restored version ' || v_version.version_number),
+    v_version.id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollback_page_version(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_page_draft_preview(p_token text)
+RETURNS TABLE (
+  tenant_id uuid,
+  page_slug text,
+  title text,
+  sections jsonb,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.tenant_id, d.page_slug, sp.title, d.sections, d.updated_at
+  FROM page_drafts d
+  LEFT JOIN site_pages sp ON sp.tenant_id = d.tenant_id AND sp.slug = d.page_slug
+  WHERE p_token IS NOT NULL
+    AND length(p_token) >= 32
+    AND d.preview_token = p_token;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_page_draft_preview(text) TO anon, authenticated;
+
+-- ============================================================================
+-- SCHEDULED PUBLISHING
+-- ============================================================================
+
+/*
+  Replaces the phase 5 version, which never ran (nothing called it) and
+  published posts without checking the tenant. Now also publishes page drafts.
+  Rows are locked with SKIP LOCKED so overlapping worker runs don't collide.
+*/
+CREATE OR REPLACE FUNCTION public.process_scheduled_content()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_processed_count integer := 0;
+  v_schedule_record record;
+  v_draft page_drafts%ROWTYPE;
+BEGIN
+  FOR v_schedule_record IN
+    SELECT * FROM content_schedule
+    WHERE status = 'pending'
+      AND scheduled_for <= now()
+      AND content_type IN ('blog_post', 'page')
+    ORDER BY scheduled_for
+    LIMIT 100
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      IF v_schedule_record.content_type = 'blog_post' THEN
+        IF v_schedule_record.action = 'publish' THEN
+          UPDATE blog_posts
+          SET status = 'published',
+              published_at = LEAST(COALESCE(published_at, now()), now()),
+              updated_at = now()
+          WHERE id = v_schedule_record.content_id AND tenant_id = v_schedule_record.tenant_id;
+        ELSIF v_schedule_record.action = 'unpublish' THEN
+          UPDATE blog_posts
+          SET status = 'draft', updated_at = now()
+          WHERE id = v_schedule_record.content_id AND tenant_id = v_schedule_record.tenant_id;
+        ELSE
+          RAISE EXCEPTION 'Unsupported action % for blog posts', v_schedule_record.action;
+        END IF;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Blog post no longer exists';
+        END IF;
+      ELSE
+        IF v_schedule_record.action <> 'publish' THEN
+          RAISE EXCEPTION 'Unsupported action % for pages', v_schedule_record.action;
+        END IF;
+
+        SELECT * INTO v_draft FROM page_drafts
+        WHERE id = v_schedule_record.content_id AND tenant_id = v_schedule_record.tenant_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Draft no longer exists';
+        END IF;
+
+        PERFORM apply_page_publish(
+          v_draft.tenant_id, v_draft.page_slug, v_draft.sections,
+          v_schedule_record.created_by, 'Scheduled publish'
+        );
+        DELETE FROM page_drafts WHERE id = v_draft.id;
+      END IF;
+
+      UPDATE content_schedule
+      SET status = 'completed', executed_at = now(), error_message = NULL, updated_at = now()
+      WHERE id = v_schedule_record.id;
+
+      v_processed_count := v_processed_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE content_schedule
+      SET status = 'failed', executed_at = now(), error_message = SQLERRM, updated_at = now()
+      WHERE id = v_schedule_record.id;
+    END;
+  END LOOP;
+
+  RETURN v_processed_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_scheduled_content() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- BASELINE SNAPSHOTS
+-- ============================================================================
+
+INSERT INTO page_versions (tenant_id, page_slug, version_number, sections, note)
+SELECT
+  wc.tenant_id,
+  wc.page_slug,
+  1,
+  jsonb_agg(
+    jsonb_build_object(
+      'section_type', wc.section_type,
+      'section_order', wc.section_order,
+      'content', wc.content,
+      'is_published', COALESCE(wc.is_published, false)
+    ) ORDER BY wc.section_order
+  ),
+  'Content before versioning was enabled'
+FROM website_content wc
+WHERE NOT EXISTS (
+  SELECT 1 FROM page_versions pv
+  WHERE pv.tenant_id = wc.tenant_id AND pv.page_slug = wc.page_slug
+)
+GROUP BY wc.tenant_id, wc.page_slug;
@@ -0,0 +1,915 @@
+/*
+  # Tenant-configurable Subscription Application Forms
+
+  The online investor application was a single hard-coded form for one
+  trust. Each tenant now defines its own subscription form as a versioned
+  JSON schema: investor types, sections and fields with conditional logic,
+  required attachments and signature blocks. The web form, validation,
+  stored application and generated PDF are all driven by that schema.
+
+  1. New Tables
+    - `application_form_schemas` - Versioned form definitions per tenant
+      - `tenant_id`, `version` (unique together)
+      - `name` - Label shown to staff
+      - `schema` (jsonb) - The form definition (see src/lib/applicationSchema.ts)
+      - `status` - `draft`, `published` or `archived`; at most one published
+        version per tenant
+      - `published_at`, `created_by`, `created_at`, `updated_at`
+
+  2. Changes
+    - `investor_applications.schema_id` - Schema version the applicant completed
+    - `investor_applications.responses` (jsonb) - Answers keyed by field id,
+      plus investor type, signatures and declaration
+    - `investor_applications.investor_type` is no longer limited to the
+      original trust's list; tenants define their own types
+
+  3. Functions
+    - `publish_application_schema(p_schema_id)` - Publishes a draft and
+      archives the previously published version
+
+  4. Storage
+    - `application-attachments` bucket (private) for applicants' supporting
+      documents, stored under `<tenant_id>/...`
+
+  5. Security
+    - Published schemas are readable by anyone, since the public form needs
+      them; drafts and history only by tenant admins and staff users
+    - Published and archived versions are immutable so submitted applications
+      always reference the exact form they completed
+    - Applicants may upload attachments only into the folder of a tenant
+      with a published form; only that tenant's staff can read them
+
+  6. Existing Data
+    - The Arkline Investment Trust form is seeded as Arkline's published
+      version 1
+*/
+
+CREATE TABLE IF NOT EXISTS application_form_schemas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  name text NOT NULL DEFAULT 'Investor application',
+  schema jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  published_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_application_form_schemas_one_published
+  ON application_form_schemas(tenant_id) WHERE status = 'published';
+CREATE INDEX IF NOT EXISTS idx_application_form_schemas_created_by ON application_form_schemas(created_by);
+
+ALTER TABLE application_form_schemas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published application forms" ON application_form_schemas;
+CREATE POLICY "Anyone can view published application forms"
+  ON application_form_schemas FOR SELECT
+  TO anon, authenticated
+  USING (status = 'published');
+
+DROP POLICY IF EXISTS "Tenant staff can view application forms" ON application_form_schemas;
+CREATE POLICY "Tenant staff can view application forms"
+  ON application_form_schemas FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = application_form_schemas.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Tenant staff can create application form drafts" ON application_form_schemas;
+CREATE POLICY "Tenant staff can create application form drafts"
+  ON application_form_schemas FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = application_form_schemas.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Tenant staff can edit application form drafts" ON application_form_schemas;
+CREATE POLICY "Tenant staff can edit application form drafts"
+  ON application_form_schemas FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = application_form_schemas.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  )
+  WITH CHECK (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = application_form_schemas.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Tenant staff can delete application form drafts" ON application_form_schemas;
+CREATE POLICY "Tenant staff can delete application form drafts"
+  ON application_form_schemas FOR DELETE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.tenant_id = application_form_schemas.tenant_id
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.prevent_application_schema_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' AND (NEW.schema IS DISTINCT FROM OLD.schema OR NEW.version <> OLD.version) THEN
+    RAISE EXCEPTION 'Published application forms cannot be edited; save a new draft instead';
+  END IF;
+  IF OLD.status = 'archived' AND NEW.status <> 'archived' THEN
+    RAISE EXCEPTION 'Archived application forms cannot be republished';
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS application_form_schemas_immutable ON application_form_schemas;
+CREATE TRIGGER application_form_schemas_immutable
+  BEFORE UPDATE ON application_form_schemas
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_application_schema_mutation();
+
+-- ============================================================================
+-- APPLICATIONS
+-- ============================================================================
+
+ALTER TABLE investor_applications
+  ADD COLUMN IF NOT EXISTS schema_id uuid REFERENCES application_form_schemas(id),
+  ADD COLUMN IF NOT EXISTS responses jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_investor_applications_schema ON investor_applications(schema_id);
+
+ALTER TABLE investor_applications DROP CONSTRAINT IF EXISTS investor_applications_investor_type_check;
+
+-- ============================================================================
+-- PUBLISHING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.publish_application_schema(p_schema_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row application_form_schemas%ROWTYPE;
+BEGIN
+  SELECT * INTO v_row FROM application_form_schemas WHERE id = p_schema_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application form not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = auth.uid()
+    AND ur.tenant_id = v_row.tenant_id
+    AND ur.role_category IN ('tenant_admin', 'staff_user')
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to publish application forms for this tenant';
+  END IF;
+
+  IF v_row.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be published';
+  END IF;
+
+  UPDATE application_form_schemas
+  SET status = 'archived'
+  WHERE tenant_id = v_row.tenant_id AND status = 'published';
+
+  UPDATE application_form_schemas
+  SET status = 'published', published_at = now()
+  WHERE id = p_schema_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_application_schema(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_application_schema(uuid) TO authenticated;
+
+-- ============================================================================
+-- ATTACHMENTS
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'application-attachments',
+  'application-attachments',
+  false,
+  20971520,  -- 20 MB
+  ARRAY['application/pdf','image/jpeg','image/jpg','image/png','image/heic','image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "application_attachments_upload" ON storage.objects;
+CREATE POLICY "application_attachments_upload"
+  ON storage.objects FOR INSERT TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'application-attachments'
+    AND (storage.foldername(name))[1] IN (
+      SELECT s.tenant_id::text
+      FROM application_form_schemas s
+      WHERE s.status = 'published'
+    )
+  );
+
+DROP POLICY IF EXISTS "application_attachments_staff_read" ON storage.objects;
+CREATE POLICY "application_attachments_staff_read"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'application-attachments'
+    AND (
+      (storage.foldername(name))[1] IN (
+        SELECT sa.tenant_id::text
+        FROM staff_accounts sa
+        WHERE sa.auth_user_id = auth.uid() AND sa.status = 'active'
+      )
+      OR
+      (storage.foldername(name))[1] IN (
+        SELECT ur.tenant_id::text
+        FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.role_category IN ('tenant_admin', 'staff_user')
+      )
+    )
+  );
+
+-- ============================================================================
+-- ARKLINE
+-- ============================================================================
+
+INSERT INTO application_form_schemas (tenant_id, version, name, schema, status, published_at)
+SELECT t.id, 1, 'Arkline Investment Trust application', $schema$
+{
+  "title": "Investor Application Form",
+  "subtitle": "Arkline Investment Trust  |  Wholesale Investors Only",
+  "investor_types": [
+    {"value":"individual","label":"Individual"},
+    {"value":"joint","label":"Joint holding"},
+    {"value":"aus_proprietary_company","label":"Australian proprietary company"},
+    {"value":"aus_public_company","label":"Australian public company"},
+    {"value":"regulated_trust_individual_trustee","label":"Regulated trust — individual trustee"},
+    {"value":"regulated_trust_corporate_trustee","label":"Regulated trust — corporate trustee"},
+    {"value":"unregulated_trust_individual_trustee","label":"Unregulated trust — individual trustee"},
+    {"value":"unregulated_trust_corporate_trustee","label":"Unregulated trust — corporate trustee"}
+  ],
+  "sections": [
+    {
+      "id": "contact",
+      "title": "Contact Details",
+      "description": "The person we should contact about this application.",
+      "fields": [
+        {
+          "id": "contact_title",
+          "type": "select",
+          "label": "Title",
+          "options": [
+            {"value":"Mr","label":"Mr"},
+            {"value":"Mrs","label":"Mrs"},
+            {"value":"Ms","label":"Ms"},
+            {"value":"Miss","label":"Miss"},
+            {"value":"Dr","label":"Dr"},
+            {"value":"Prof","label":"Prof"},
+            {"value":"Other","label":"Other"}
+          ],
+          "width": "third",
+          "column": "contact_title"
+        },
+        {"id":"contact_given_names","type":"text","label":"Given name(s)","required":true,"width":"third","column":"contact_given_names"},
+        {"id":"contact_surname","type":"text","label":"Surname","required":true,"width":"third","column":"contact_surname"},
+        {"id":"contact_phone","type":"phone","label":"Phone","required":true,"width":"half","column":"contact_phone"},
+        {"id":"contact_email","type":"email","label":"Email address","required":true,"width":"half","column":"contact_email"},
+        {"id":"postal_address","type":"text","label":"Postal address","required":true,"column":"postal_address"},
+        {"id":"postal_suburb","type":"text","label":"Suburb / City","required":true,"width":"half","column":"postal_suburb"},
+        {"id":"postal_state","type":"text","label":"State","width":"half","column":"postal_state"},
+        {"id":"postal_postcode","type":"text","label":"Postcode","required":true,"width":"half","column":"postal_postcode"},
+        {"id":"postal_country","type":"text","label":"Country","required":true,"width":"half","column":"postal_country"}
+      ]
+    },
+    {
+      "id": "investment",
+      "title": "Investment",
+      "description": "Select one or more classes of Units in the Arkline Investment Trust. You must select at least one class for your application to be processed.",
+      "fields": [
+        {
+          "id": "unit_classes",
+          "type": "checkboxes",
+          "label": "Unit classes",
+          "required": true,
+          "options": [
+            {"value":"class_a","label":"Class A — Opportunistic Strategy Portfolio"},
+            {"value":"class_b","label":"Class B — Quant Value Portfolio"},
+            {"value":"class_c","label":"Class C — High Conviction Portfolio"}
+          ]
+        },
+        {
+          "id": "amount_class_a",
+          "type": "currency",
+          "label": "Committed capital — Class A (AUD)",
+          "required": true,
+          "commitment": true,
+          "width": "third",
+          "visible_when": [{"field":"unit_classes","equals":"class_a"}]
+        },
+        {
+          "id": "amount_class_b",
+          "type": "currency",
+          "label": "Committed capital — Class B (AUD)",
+          "required": true,
+          "commitment": true,
+          "width": "third",
+          "visible_when": [{"field":"unit_classes","equals":"class_b"}]
+        },
+        {
+          "id": "amount_class_c",
+          "type": "currency",
+          "label": "Committed capital — Class C (AUD)",
+          "required": true,
+          "commitment": true,
+          "width": "third",
+          "visible_when": [{"field":"unit_classes","equals":"class_c"}]
+        },
+        {
+          "id": "investment_note",
+          "type": "note",
+          "label": "Capital calls",
+          "help": "The committed capital will be called by the Trustee (in whole or in part) as notified to you, with a minimum three (3) Business Day notice period. The offer of Units is made under the Information Memorandum dated 21 May 2026."
+        }
+      ]
+    },
+    {
+      "id": "individual",
+      "title": "Individual Investor / Individual Trustee",
+      "investor_types": ["individual","joint","regulated_trust_individual_trustee","unregulated_trust_individual_trustee"],
+      "fields": [
+        {
+          "id": "a_title",
+          "type": "select",
+          "label": "Title",
+          "options": [
+            {"value":"Mr","label":"Mr"},
+            {"value":"Mrs","label":"Mrs"},
+            {"value":"Ms","label":"Ms"},
+            {"value":"Miss","label":"Miss"},
+            {"value":"Dr","label":"Dr"},
+            {"value":"Prof","label":"Prof"},
+            {"value":"Other","label":"Other"}
+          ],
+          "width": "third"
+        },
+        {"id":"a_given_names","type":"text","label":"Given name(s)","required":true,"width":"third"},
+        {"id":"a_surname","type":"text","label":"Surname","required":true,"width":"third"},
+        {"id":"a_dob","type":"date","label":"Date of birth","required":true,"width":"half"},
+        {"id":"a_email","type":"email","label":"Email address","width":"half"},
+        {"id":"a_residential_address","type":"text","label":"Residential address (not a PO Box)","required":true},
+        {"id":"a_residential_suburb","type":"text","label":"Suburb / City","required":true,"width":"half"},
+        {"id":"a_residential_state","type":"text","label":"State","width":"half"},
+        {"id":"a_residential_postcode","type":"text","label":"Postcode","required":true,"width":"half"},
+        {"id":"a_residential_country","type":"text","label":"Country","required":true,"width":"half"},
+        {"id":"a_aus_tax_resident","type":"yes_no","label":"Are you an Australian resident for tax purposes?","required":true},
+        {
+          "id": "a_tfn",
+          "type": "text",
+          "label": "Tax File Number (TFN) or exemption code",
+          "sensitive": true,
+          "pattern": "[0-9 ]{8,11}|[0-9]{6}",
+          "pattern_message": "Enter a 9 digit TFN or a 6 digit exemption code",
+          "visible_when": [{"field":"a_aus_tax_resident","equals":true}]
+        },
+        {
+          "id": "a_has_tin",
+          "type": "yes_no",
+          "label": "Do you have a Tax Identification Number (TIN) for another country?",
+          "required": true,
+          "visible_when": [{"field":"a_aus_tax_resident","equals":false}]
+        },
+        {
+          "id": "a_tins",
+          "type": "group",
+          "label": "Foreign tax residencies",
+          "item_label": "country",
+          "min_items": 1,
+          "max_items": 3,
+          "sensitive": true,
+          "visible_when": [{"field":"a_has_tin","equals":true}],
+          "fields": [
+            {"id":"country","type":"text","label":"Country","required":true,"width":"half"},
+            {"id":"tin","type":"text","label":"TIN","required":true,"width":"half"}
+          ]
+        },
+        {
+          "id": "a_no_tin_reason",
+          "type": "radio",
+          "label": "Reason no TIN is available",
+          "required": true,
+          "options": [
+            {"value":"not_issued","label":"The country does not issue TINs"},
+            {"value":"no_tin","label":"I have not been issued with a TIN"},
+            {"value":"not_required","label":"The country does not require the TIN to be disclosed"}
+          ],
+          "visible_when": [{"field":"a_has_tin","equals":false}]
+        },
+        {"id":"a_pep","type":"yes_no","label":"Are you a Politically Exposed Person (PEP)?","required":true},
+        {"id":"a_sole_trader","type":"yes_no","label":"Are you applying as a sole trader?","required":true},
+        {"id":"a_business_name","type":"text","label":"Business name","required":true,"width":"half","visible_when":[{"field":"a_sole_trader","equals":true}]},
+        {"id":"a_abn","type":"text","label":"ABN","width":"half","visible_when":[{"field":"a_sole_trader","equals":true}]},
+        {
+          "id": "a_wealth_sources",
+          "type": "checkboxes",
+          "label": "Source of funds used for this investment",
+          "required": true,
+          "options": [
+            {"value":"gainful_employment","label":"Gainful employment"},
+            {"value":"business_activity","label":"Business activity"},
+            {"value":"inheritance_gift","label":"Inheritance / gift"},
+            {"value":"superannuation","label":"Superannuation savings"},
+            {"value":"financial_investments","label":"Financial investments"},
+            {"value":"other","label":"Other"}
+          ]
+        },
+        {"id":"a_wealth_other","type":"text","label":"Other source of funds","required":true,"visible_when":[{"field":"a_wealth_sources","equals":"other"}]},
+        {"id":"a_identification","type":"attachment","label":"Certified copy of photo identification","required":true,"accept":".pdf,image/*"}
+      ]
+    },
+    {
+      "id": "joint",
+      "title": "Joint Investor",
+      "investor_types": ["joint"],
+      "fields": [
+        {
+          "id": "b_title",
+          "type": "select",
+          "label": "Title",
+          "options": [
+            {"value":"Mr","label":"Mr"},
+            {"value":"Mrs","label":"Mrs"},
+            {"value":"Ms","label":"Ms"},
+            {"value":"Miss","label":"Miss"},
+            {"value":"Dr","label":"Dr"},
+            {"value":"Prof","label":"Prof"},
+            {"value":"Other","label":"Other"}
+          ],
+          "width": "third"
+        },
+        {"id":"b_given_names","type":"text","label":"Given name(s)","required":true,"width":"third"},
+        {"id":"b_surname","type":"text","label":"Surname","required":true,"width":"third"},
+        {"id":"b_dob","type":"date","label":"Date of birth","required":true,"width":"half"},
+        {"id":"b_email","type":"email","label":"Email address","width":"half"},
+        {"id":"b_same_address","type":"checkbox","label":"Same residential address as the first investor"},
+        {
+          "id": "b_residential_address",
+          "type": "text",
+          "label": "Residential address (not a PO Box)",
+          "required": true,
+          "visible_when": [{"field":"b_same_address","equals":false}]
+        },
+        {
+          "id": "b_residential_suburb",
+          "type": "text",
+          "label": "Suburb / City",
+          "required": true,
+          "width": "half",
+          "visible_when": [{"field":"b_same_address","equals":false}]
+        },
+        {"id":"b_residential_state","type":"text","label":"State","width":"half","visible_when":[{"field":"b_same_address","equals":false}]},
+        {
+          "id": "b_residential_postcode",
+          "type": "text",
+          "label": "Postcode",
+          "required": true,
+          "width": "half",
+          "visible_when": [{"field":"b_same_address","equals":false}]
+        },
+        {"id":"b_residential_country","type":"text","label":"Country","required":true,"width":"half","visible_when":[{"field":"b_same_address","equals":false}]},
+        {"id":"b_aus_tax_resident","type":"yes_no","label":"Is the joint investor an Australian resident for tax purposes?","required":true},
+        {
+          "id": "b_tfn",
+          "type": "text",
+          "label": "Tax File Number (TFN) or exemption code",
+          "sensitive": true,
+          "pattern": "[0-9 ]{8,11}|[0-9]{6}",
+          "pattern_message": "Enter a 9 digit TFN or a 6 digit exemption code",
+          "visible_when": [{"field":"b_aus_tax_resident","equals":true}]
+        },
+        {
+          "id": "b_has_tin",
+          "type": "yes_no",
+          "label": "Do you have a Tax Identification Number (TIN) for another country?",
+          "required": true,
+          "visible_when": [{"field":"b_aus_tax_resident","equals":false}]
+        },
+        {
+          "id": "b_tins",
+          "type": "group",
+          "label": "Foreign tax residencies",
+          "item_label": "country",
+          "min_items": 1,
+          "max_items": 3,
+          "sensitive": true,
+          "visible_when": [{"field":"b_has_tin","equals":true}],
+          "fields": [
+            {"id":"country","type":"text","label":"Country","required":true,"width":"half"},
+            {"id":"tin","type":"text","label":"TIN","required":true,"width":"half"}
+          ]
+        },
+        {
+          "id": "b_no_tin_reason",
+          "type": "radio",
+          "label": "Reason no TIN is available",
+          "required": true,
+          "options": [
+            {"value":"not_issued","label":"The country does not issue TINs"},
+            {"value":"no_tin","label":"I have not been issued with a TIN"},
+            {"value":"not_required","label":"The country does not require the TIN to be disclosed"}
+          ],
+          "visible_when": [{"field":"b_has_tin","equals":false}]
+        },
+        {"id":"b_pep","type":"yes_no","label":"Is the joint investor a Politically Exposed Person (PEP)?","required":true},
+        {
+          "id": "b_wealth_sources",
+          "type": "checkboxes",
+          "label": "Source of funds used for this investment",
+          "required": true,
+          "options": [
+            {"value":"gainful_employment","label":"Gainful employment"},
+            {"value":"business_activity","label":"Business activity"},
+            {"value":"inheritance_gift","label":"Inheritance / gift"},
+            {"value":"superannuation","label":"Superannuation savings"},
+            {"value":"financial_investments","label":"Financial investments"},
+            {"value":"other","label":"Other"}
+          ]
+        },
+        {"id":"b_wealth_other","type":"text","label":"Other source of funds","required":true,"visible_when":[{"field":"b_wealth_sources","equals":"other"}]},
+        {"id":"b_identification","type":"attachment","label":"Certified copy of photo identification","required":true,"accept":".pdf,image/*"}
+      ]
+    },
+    {
+      "id": "company",
+      "title": "Company Details",
+      "description": "For company investors and corporate trustees.",
+      "investor_types": ["aus_proprietary_company","aus_public_company","regulated_trust_corporate_trustee","unregulated_trust_corporate_trustee"],
+      "fields": [
+        {"id":"c_company_name","type":"text","label":"Full company name","required":true},
+        {"id":"c_acn","type":"text","label":"ACN","required":true,"width":"half"},
+        {"id":"c_abn_tfn","type":"text","label":"ABN / TFN / exemption","width":"half","sensitive":true},
+        {"id":"c_registered_address","type":"text","label":"Registered office address","required":true},
+        {"id":"c_registered_suburb","type":"text","label":"Suburb / City","required":true,"width":"half"},
+        {"id":"c_registered_state","type":"text","label":"State","width":"half"},
+        {"id":"c_registered_postcode","type":"text","label":"Postcode","required":true,"width":"half"},
+        {"id":"c_registered_country","type":"text","label":"Country","required":true,"width":"half"},
+        {"id":"c_aus_tax_resident","type":"yes_no","label":"Is the company an Australian resident for tax purposes?","required":true},
+        {
+          "id": "c_tfn",
+          "type": "text",
+          "label": "Tax File Number (TFN) or exemption code",
+          "sensitive": true,
+          "pattern": "[0-9 ]{8,11}|[0-9]{6}",
+          "pattern_message": "Enter a 9 digit TFN or a 6 digit exemption code",
+          "visible_when": [{"field":"c_aus_tax_resident","equals":true}]
+        },
+        {
+          "id": "c_has_tin",
+          "type": "yes_no",
+          "label": "Do you have a Tax Identification Number (TIN) for another country?",
+          "required": true,
+          "visible_when": [{"field":"c_aus_tax_resident","equals":false}]
+        },
+        {
+          "id": "c_tins",
+          "type": "group",
+          "label": "Foreign tax residencies",
+          "item_label": "country",
+          "min_items": 1,
+          "max_items": 3,
+          "sensitive": true,
+          "visible_when": [{"field":"c_has_tin","equals":true}],
+          "fields": [
+            {"id":"country","type":"text","label":"Country","required":true,"width":"half"},
+            {"id":"tin","type":"text","label":"TIN","required":true,"width":"half"}
+          ]
+        },
+        {
+          "id": "c_no_tin_reason",
+          "type": "radio",
+          "label": "Reason no TIN is available",
+          "required": true,
+          "options": [
+            {"value":"not_issued","label":"The country does not issue TINs"},
+            {"value":"no_tin","label":"I have not been issued with a TIN"},
+            {"value":"not_required","label":"The country does not require the TIN to be disclosed"}
+          ],
+          "visible_when": [{"field":"c_has_tin","equals":false}]
+        },
+        {
+          "id": "c_directors",
+          "type": "group",
+          "label": "Directors",
+          "item_label": "director",
+          "required": true,
+          "min_items": 1,
+          "max_items": 6,
+          "fields": [
+            {"id":"given_names","type":"text","label":"Given name(s)","required":true,"width":"half"},
+            {"id":"surname","type":"text","label":"Surname","required":true,"width":"half"},
+            {"id":"dob","type":"date","label":"Date of birth","width":"half"},
+            {"id":"pep","type":"yes_no","label":"Politically Exposed Person?","required":true,"width":"half"}
+          ]
+        },
+        {
+          "id": "c_wealth_sources",
+          "type": "checkboxes",
+          "label": "Source of funds used for this investment",
+          "required": true,
+          "options": [
+            {"value":"gainful_employment","label":"Gainful employment"},
+            {"value":"business_activity","label":"Business activity"},
+            {"value":"inheritance_gift","label":"Inheritance / gift"},
+            {"value":"superannuation","label":"Superannuation savings"},
+            {"value":"financial_investments","label":"Financial investments"},
+            {"value":"other","label":"Other"}
+          ]
+        },
+        {"id":"c_wealth_other","type":"text","label":"Other source of funds","required":true,"visible_when":[{"field":"c_wealth_sources","equals":"other"}]},
+        {"id":"c_extract","type":"attachment","label":"Current ASIC company extract","required":true,"accept":".pdf"}
+      ]
+    },
+    {
+      "id": "trust",
+      "title": "Trust Details",
+      "investor_types": ["regulated_trust_individual_trustee","regulated_trust_corporate_trustee","unregulated_trust_individual_trustee","unregulated_trust_corporate_trustee"],
+      "fields": [
+        {"id":"d_trust_name","type":"text","label":"Trust name","required":true},
+        {"id":"d_business_name","type":"text","label":"Business name of trust","width":"half"},
+        {"id":"d_abn_tfn","type":"text","label":"ABN / TFN / exemption","width":"half","sensitive":true},
+        {"id":"d_trust_type","type":"text","label":"Type of trust (e.g. family trust, SMSF)","required":true,"width":"half"},
+        {"id":"d_country_established","type":"text","label":"Country where the trust was established","required":true,"width":"half"},
+        {"id":"d_settlor","type":"text","label":"Settlor of the trust","required":true},
+        {
+          "id": "d_trustees",
+          "type": "group",
+          "label": "Trustees",
+          "item_label": "trustee",
+          "required": true,
+          "min_items": 1,
+          "max_items": 4,
+          "fields": [{"id":"name","type":"text","label":"Full name of trustee","required":true},{"id":"address","type":"text","label":"Address","required":true}]
+        },
+        {
+          "id": "d_beneficiary_by_class",
+          "type": "yes_no",
+          "label": "Do the terms of the trust identify beneficiaries by reference to membership of a class?",
+          "required": true
+        },
+        {
+          "id": "d_beneficiary_class_terms",
+          "type": "textarea",
+          "label": "What are the terms?",
+          "required": true,
+          "visible_when": [{"field":"d_beneficiary_by_class","equals":true}]
+        },
+        {
+          "id": "d_beneficiaries",
+          "type": "group",
+          "label": "Beneficiaries",
+          "item_label": "beneficiary",
+          "min_items": 1,
+          "max_items": 10,
+          "visible_when": [{"field":"d_beneficiary_by_class","equals":false}],
+          "fields": [{"id":"name","type":"text","label":"Full name","required":true}]
+        },
+        {"id":"d_aus_tax_resident","type":"yes_no","label":"Is the trust an Australian resident for tax purposes?","required":true},
+        {
+          "id": "d_tfn",
+          "type": "text",
+          "label": "Tax File Number (TFN) or exemption code",
+          "sensitive": true,
+          "pattern": "[0-9 ]{8,11}|[0-9]{6}",
+          "pattern_message": "Enter a 9 digit TFN or a 6 digit exemption code",
+          "visible_when": [{"field":"d_aus_tax_resident","equals":true}]
+        },
+        {
+          "id": "d_has_tin",
+          "type": "yes_no",
+          "label": "Do you have a Tax Identification Number (TIN) for another country?",
+          "required": true,
+          "visible_when": [{"field":"d_aus_tax_resident","equals":false}]
+        },
+        {
+          "id": "d_tins",
+          "type": "group",
+          "label": "Foreign tax residencies",
+          "item_label": "country",
+          "min_items": 1,
+          "max_items": 3,
+          "sensitive": true,
+          "visible_when": [{"field":"d_has_tin","equals":true}],
+          "fields": [
+            {"id":"country","type":"text","label":"Country","required":true,"width":"half"},
+            {"id":"tin","type":"text","label":"TIN","required":true,"width":"half"}
+          ]
+        },
+        {
+          "id": "d_no_tin_reason",
+          "type": "radio",
+          "label": "Reason no TIN is available",
+          "required": true,
+          "options": [
+            {"value":"not_issued","label":"The country does not issue TINs"},
+            {"value":"no_tin","label":"I have not been issued with a TIN"},
+            {"value":"not_required","label":"The country does not require the TIN to be disclosed"}
+          ],
+          "visible_when": [{"field":"d_has_tin","equals":false}]
+        },
+        {
+          "id": "d_wealth_sources",
+          "type": "checkboxes",
+          "label": "Source of funds used for this investment",
+          "required": true,
+          "options": [
+            {"value":"gainful_employment","label":"Gainful employment"},
+            {"value":"business_activity","label":"Business activity"},
+            {"value":"inheritance_gift","label":"Inheritance / gift"},
+            {"value":"superannuation","label":"Superannuation savings"},
+            {"value":"financial_investments","label":"Financial investments"},
+            {"value":"other","label":"Other"}
+          ]
+        },
+        {"id":"d_wealth_other","type":"text","label":"Other source of funds","required":true,"visible_when":[{"field":"d_wealth_sources","equals":"other"}]},
+        {"id":"d_trust_deed","type":"attachment","label":"Certified extract of the trust deed","required":true,"accept":".pdf"}
+      ]
+    },
+    {
+      "id": "beneficial_ownership",
+      "title": "Beneficial Ownership",
+      "description": "Every individual who owns or controls 25% or more of the investor, directly or indirectly.",
+      "investor_types": [
+        "aus_proprietary_company",
+        "regulated_trust_corporate_trustee",
+        "unregulated_trust_corporate_trustee",
+        "regulated_trust_individual_trustee",
+        "unregulated_trust_individual_trustee"
+      ],
+      "fields": [
+        {
+          "id": "e_beneficial_owners",
+          "type": "group",
+          "label": "Beneficial owners",
+          "item_label": "owner",
+          "required": true,
+          "min_items": 1,
+          "max_items": 6,
+          "fields": [
+            {"id":"name","type":"text","label":"Full name","required":true,"width":"half"},
+            {"id":"dob","type":"date","label":"Date of birth","width":"half"},
+            {"id":"address","type":"text","label":"Residential address","required":true},
+            {"id":"pep","type":"yes_no","label":"Politically Exposed Person?","required":true,"width":"half"},
+            {"id":"aus_tax_resident","type":"yes_no","label":"Australian tax resident?","required":true,"width":"half"}
+          ]
+        }
+      ]
+    },
+    {
+      "id": "bank",
+      "title": "Bank Details",
+      "description": "All payments are calculated and paid in Australian dollars.",
+      "fields": [
+        {"id":"bank_reinvest","type":"yes_no","label":"Do you wish to reinvest distributions back into the fund?","required":true},
+        {"id":"bank_institution_name","type":"text","label":"Financial institution","required":true},
+        {"id":"bank_account_name","type":"text","label":"Account name","required":true},
+        {
+          "id": "bank_bsb",
+          "type": "text",
+          "label": "BSB",
+          "required": true,
+          "width": "third",
+          "sensitive": true,
+          "pattern": "[0-9]{3}-?[0-9]{3}",
+          "pattern_message": "Enter a 6 digit BSB"
+        },
+        {"id":"bank_account_number","type":"text","label":"Account number","required":true,"width":"third","sensitive":true},
+        {"id":"bank_swift","type":"text","label":"SWIFT code (international only)","width":"third"}
+      ]
+    },
+    {
+      "id": "payment",
+      "title": "Payment",
+      "fields": [
+        {
+          "id": "payment_note",
+          "type": "note",
+          "label": "Electronic funds transfer details",
+          "help": "Bank: National Australia Bank (NAB)\nAccount name: Alara Funds Management Pty Ltd ATF Arkline Investment Trust\nBSB: 083-817\nAccount number: 57-644-5635\nReference: your full legal name"
+        }
+      ]
+    },
+    {
+      "id": "fatca_crs",
+      "title": "FATCA & CRS",
+      "fields": [
+        {
+          "id": "fatca_note",
+          "type": "note",
+          "label": "Foreign Account Tax Compliance Act (FATCA) & Common Reporting Standard (CRS)",
+          "help": "The Trustee must identify the tax residency of all investors and their controlling persons and report foreign tax residents to the Australian Taxation Office, which may share this information with other participating countries."
+        },
+        {
+          "id": "fatca_entity_type",
+          "type": "radio",
+          "label": "Entity tax status",
+          "required": true,
+          "investor_types": [
+            "aus_proprietary_company",
+            "aus_public_company",
+            "regulated_trust_corporate_trustee",
+            "unregulated_trust_corporate_trustee",
+            "regulated_trust_individual_trustee",
+            "regulated_trust_corporate_trustee",
+            "unregulated_trust_individual_trustee",
+            "unregulated_trust_corporate_trustee"
+          ],
+          "options": [
+            {"value":"financial_institution","label":"Financial institution"},
+            {"value":"aus_listed","label":"Australian listed company, majority owned subsidiary or registered charity"},
+            {"value":"active_nfe","label":"Active non-financial entity (NFE)"},
+            {"value":"other","label":"Other"}
+          ]
+        },
+        {
+          "id": "fatca_giin",
+          "type": "text",
+          "label": "Global Intermediary Identification Number (GIIN)",
+          "visible_when": [{"field":"fatca_entity_type","equals":"financial_institution"}]
+        },
+        {"id":"crs_foreign_tax_resident","type":"yes_no","label":"Are you a tax resident of any country other than Australia?","required":true},
+        {
+          "id": "crs_countries",
+          "type": "group",
+          "label": "Foreign tax residencies",
+          "item_label": "country",
+          "min_items": 1,
+          "max_items": 4,
+          "sensitive": true,
+          "visible_when": [{"field":"crs_foreign_tax_resident","equals":true}],
+          "fields": [{"id":"country","type":"text","label":"Country","required":true,"width":"half"},{"id":"tin","type":"text","label":"TIN","width":"half"}]
+        }
+      ]
+    }
+  ],
+  "declaration": {
+    "title": "Declaration",
+    "agree_label": "I/we have read and agree to the declarations above",
+    "text": "1. I/we have received and read the Information Memorandum (IM) dated 21 May 2026 for units in the classes of the Arkline Investment Trust (Fund) known as Class A — Opportunistic Strategy Portfolio, Class B — Quant Value Portfolio, and Class C — High Conviction Portfolio.\n2. My/our application is true and correct.\n3. I/we am/are a Wholesale Client as defined by the Corporations Act 2001 (Cth).\n4. I/we agree to be bound by the provisions of the Trust Deed as amended from time to time and this Application Form.\n5. I/we have legal power to invest.\n6. I/we am/are acting in accordance with my/our designated powers and authority under the relevant constituent documents, and the execution, delivery, and performance under this application has been authorised by all necessary action and persons.\n7. I/we have all regulatory approvals required in Australia and any other relevant jurisdiction to hold Units and become a Unitholder of the Fund.\n8. I/we acknowledge that by executing this Application Form, I/we make a legally binding commitment to invest the committed capital in the Fund on the terms set out in the IM and the Trust Deed.\n9. I/we acknowledge that investments in the Fund are subject to risks including but not limited to those outlined in the IM, including the possible loss of income or capital invested.\n10. I/we have relied on my/our own independent investigation, enquiries, and appraisals, and have obtained or had the opportunity to obtain legal, accounting, tax, and financial advice in connection with the Fund before deciding to subscribe for Units.\n11. I/we acknowledge that an investment in the Fund does not represent an investment in, or a deposit or other liability of, the Trustee, the Investment Manager, or their related entities, and none of them guarantee the performance of the Fund or any return of capital.\n12. I/we acknowledge that my/our personal information will be stored in an online registry system known as ClearNAV, maintained by Grey Alpha LLC, and that Grey Alpha LLC is not responsible for the terms of this offer and is not liable for any loss incurred from investing in this offer.\n13. I/we agree and consent to the electronic delivery of Investor Communications.\n14. This application is not the result of an unsolicited meeting with, or telephone call from, another person."
+  },
+  "signatures": [
+    {
+      "id": "individuals",
+      "label": "Individual signatories",
+      "description": "Each individual investor or individual trustee signs.",
+      "investor_types": ["individual","joint","regulated_trust_individual_trustee","unregulated_trust_individual_trustee"],
+      "min_signers": 1,
+      "max_signers": 4,
+      "capacities": ["Individual","Trustee","Attorney"]
+    },
+    {
+      "id": "company",
+      "label": "Company execution",
+      "description": "Sign in accordance with section 127 of the Corporations Act 2001 (Cth): two directors, a director and secretary, or a sole director and secretary.",
+      "investor_types": ["aus_proprietary_company","aus_public_company","regulated_trust_corporate_trustee","unregulated_trust_corporate_trustee"],
+      "min_signers": 1,
+      "max_signers": 2,
+      "capacities": ["Director","Sole Director / Secretary","Director / Secretary","Attorney"]
+    }
+  ],
+  "submitted_message": "Thank you for your application to invest in the Arkline Investment Trust. Please transfer your committed capital to the account shown in the Payment section using your full legal name as the reference, and forward certified identification documents to info@arklinetrust.com.",
+  "contact_email": "enquiries@arklinetrust.com",
+  "notification_emails": ["noah@key13.co"]
+}
+$schema$::jsonb, 'published', now()
+FROM platform_tenants t
+WHERE t.slug = 'arkline'
+AND NOT EXISTS (SELECT 1 FROM application_form_schemas s WHERE s.tenant_id = t.id);
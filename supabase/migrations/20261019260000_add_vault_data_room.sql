@@ -0,0 +1,253 @@
+/*
+  # Investor Vault — Data Room
+
+  Turns the single-passphrase Investor Vault into a per-tenant data room with
+  individual prospect access, stage-based folder permissions and per-document
+  analytics.
+
+  1. New Tables
+     - `vault_folders` — groups vault documents; `min_stage` is the lowest
+       investor stage (prospect < qualified < due_diligence < committed) that
+       may see the folder. Documents without a folder are visible to everyone
+       admitted to the vault.
+     - `vault_access_grants` — one invite per prospect with its own opaque
+       access token, investor stage and expiry. Revoking sets `revoked_at`.
+     - `vault_sessions` — a viewer session opened by get-vault-documents,
+       either from an access grant or from the tenant passphrase (in which
+       case the viewer supplies their own name and email). Sessions expire
+       after two hours.
+     - `vault_document_events` — one row per document view or download,
+       with the viewer's identity and accumulated time on document.
+     - `vault_settings` — per-tenant stage granted to passphrase viewers,
+       emails notified when a key document is opened, and when staff last
+       reviewed vault alerts.
+
+  2. Modified Tables
+     - `investor_vault_documents` gains `folder_id` and `is_key_document`.
+
+  3. Functions
+     - `record_vault_view_time(p_event_id, p_seconds)` — atomically adds
+       heartbeat time to a view event. Service role only; called by the
+       vault-document Edge Function.
+
+  4. Security
+     - RLS on every new table; tenant admins (owner, admin, general_manager
+       in staff_accounts) manage folders, grants and settings and read
+       sessions and events. Prospects never touch these tables directly —
+       all prospect access goes through the vault Edge Functions using the
+       service role.
+
+  5. Realtime
+     - `vault_document_events` is published so managers see key-document
+       opens as they happen.
+*/
+
+-- ============================================================
+-- 1. FOLDERS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS vault_folders (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id   uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  name        text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  min_stage   text NOT NULL DEFAULT 'prospect'
+    CHECK (min_stage IN ('prospect', 'qualified', 'due_diligence', 'committed')),
+  sort_order  int  NOT NULL DEFAULT 0,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_folders_tenant
+  ON vault_folders(tenant_id, sort_order);
+
+ALTER TABLE investor_vault_documents
+  ADD COLUMN IF NOT EXISTS folder_id uuid REFERENCES vault_folders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_key_document boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_investor_vault_documents_folder
+  ON investor_vault_documents(folder_id);
+
+-- ============================================================
+-- 2. ACCESS GRANTS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS vault_access_grants (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id        uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  prospect_name    text NOT NULL,
+  prospect_email   text NOT NULL,
+  stage            text NOT NULL DEFAULT 'prospect'
+    CHECK (stage IN ('prospect', 'qualified', 'due_diligence', 'committed')),
+  access_token     text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  note             text NOT NULL DEFAULT '',
+  expires_at       timestamptz NOT NULL,
+  revoked_at       timestamptz,
+  last_accessed_at timestamptz,
+  invited_by       uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_access_grants_tenant
+  ON vault_access_grants(tenant_id, created_at DESC);
+
+-- ============================================================
+-- 3. SESSIONS AND DOCUMENT EVENTS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS vault_sessions (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id     uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  grant_id      uuid REFERENCES vault_access_grants(id) ON DELETE CASCADE,
+  viewer_name   text NOT NULL,
+  viewer_email  text NOT NULL,
+  stage         text NOT NULL
+    CHECK (stage IN ('prospect', 'qualified', 'due_diligence', 'committed')),
+  session_token text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  ip_address    text,
+  user_agent    text,
+  created_at    timestamptz NOT NULL DEFAULT now(),
+  expires_at    timestamptz NOT NULL DEFAULT now() + interval '2 hours'
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_sessions_tenant
+  ON vault_sessions(tenant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS vault_document_events (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id      uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  session_id     uuid NOT NULL REFERENCES vault_sessions(id) ON DELETE CASCADE,
+  grant_id       uuid REFERENCES vault_access_grants(id) ON DELETE SET NULL,
+  document_id    uuid NOT NULL REFERENCES investor_vault_documents(id) ON DELETE CASCADE,
+  viewer_name    text NOT NULL,
+  viewer_email   text NOT NULL,
+  action         text NOT NULL CHECK (action IN ('view', 'download')),
+  seconds_viewed int  NOT NULL DEFAULT 0,
+  started_at     timestamptz NOT NULL DEFAULT now(),
+  last_seen_at   timestamptz NOT NULL DEFAULT now(),
+  notified_at    timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_document_events_tenant
+  ON vault_document_events(tenant_id, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_vault_document_events_document
+  ON vault_document_events(document_id);
+
+CREATE INDEX IF NOT EXISTS idx_vault_document_events_session
+  ON vault_document_events(session_id, document_id);
+
+-- ============================================================
+-- 4. SETTINGS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS vault_settings (
+  tenant_id        uuid PRIMARY KEY REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  passphrase_stage text NOT NULL DEFAULT 'prospect'
+    CHECK (passphrase_stage IN ('prospect', 'qualified', 'due_diligence', 'committed')),
+  notify_emails    text[] NOT NULL DEFAULT '{}',
+  alerts_seen_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- 5. VIEW TIME
+-- ============================================================
+CREATE OR REPLACE FUNCTION record_vault_view_time(p_event_id uuid, p_seconds int)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE vault_document_events
+  SET seconds_viewed = seconds_viewed + GREATEST(0, LEAST(p_seconds, 60)),
+      last_seen_at   = now()
+  WHERE id = p_event_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_vault_view_time(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- 6. ROW LEVEL SECURITY
+-- ============================================================
+ALTER TABLE vault_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vault_access_grants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vault_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vault_document_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vault_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant admins can manage vault folders"
+  ON vault_folders FOR ALL
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  )
+  WITH CHECK (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  );
+
+CREATE POLICY "Tenant admins can manage vault access grants"
+  ON vault_access_grants FOR ALL
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  )
+  WITH CHECK (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  );
+
+CREATE POLICY "Tenant admins can view vault sessions"
+  ON vault_sessions FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  );
+
+CREATE POLICY "Tenant admins can view vault document events"
+  ON vault_document_events FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  );
+
+CREATE POLICY "Tenant admins can manage vault settings"
+  ON vault_settings FOR ALL
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  )
+  WITH CHECK (
+    tenant_id IN (
+      SELECT tenant_id FROM staff_accounts
+      WHERE auth_user_id = auth.uid()
+        AND role IN ('owner', 'admin', 'general_manager')
+    )
+  );
+
+-- ============================================================
+-- 7. REALTIME — live key-document alerts in VaultDocumentManager
+-- ============================================================
+ALTER PUBLICATION supabase_realtime ADD TABLE vault_document_events;
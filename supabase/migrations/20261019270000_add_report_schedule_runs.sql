@@ -0,0 +1,156 @@
+/*
+  # Scheduled Report Runs
+
+  Backs the report-schedule-worker Edge Function, which generates the reports
+  configured in `report_schedules`, renders them to PDF and delivers them.
+
+  1. New Tables
+     - `report_schedule_runs` — one row per schedule per reporting period.
+       The unique (schedule_id, period_start) constraint stops a retried or
+       overlapping worker run from generating the same period twice.
+
+  2. Modified Tables
+     - `report_schedules` — `frequency` is constrained to the values the
+       worker understands; `last_error` records why the latest run failed.
+     - `investor_statements` — `file_path` points at the statement PDF in the
+       `generated-reports` bucket.
+
+  3. Storage
+     - Private `generated-reports` bucket laid out as
+       `<tenant_id>/reports/<report_id>.pdf` and
+       `<tenant_id>/statements/<capital_account_id>/<report_id>.pdf`.
+       Only the service role writes to it.
+
+  4. Security
+     - Staff (user_roles tenant_admin / staff_user, as for report_schedules)
+       read runs and every file in their tenant's folder.
+     - Investors read their own statements once they are sent, and the
+       matching PDFs, from the investor portal.
+*/
+
+-- ============================================================
+-- 1. SCHEDULE RUNS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS report_schedule_runs (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id       uuid NOT NULL REFERENCES platform_tenants(id) ON DELETE CASCADE,
+  schedule_id     uuid NOT NULL REFERENCES report_schedules(id) ON DELETE CASCADE,
+  period_start    date NOT NULL,
+  period_end      date NOT NULL,
+  status          text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  report_ids      uuid[] NOT NULL DEFAULT '{}',
+  delivered_count int NOT NULL DEFAULT 0,
+  error           text,
+  started_at      timestamptz NOT NULL DEFAULT now(),
+  completed_at    timestamptz,
+  UNIQUE (schedule_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedule_runs_tenant
+  ON report_schedule_runs(tenant_id, started_at DESC);
+
+ALTER TABLE report_schedules
+  ADD COLUMN IF NOT EXISTS last_error text;
+
+ALTER TABLE report_schedules
+  DROP CONSTRAINT IF EXISTS report_schedules_frequency_check;
+ALTER TABLE report_schedules
+  ADD CONSTRAINT report_schedules_frequency_check
+  CHECK (frequency IN ('monthly', 'quarterly', 'annually'));
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due
+  ON report_schedules(next_run_at)
+  WHERE is_active = true;
+
+ALTER TABLE investor_statements
+  ADD COLUMN IF NOT EXISTS file_path text;
+
+-- ============================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================
+ALTER TABLE report_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view report schedule runs"
+  ON report_schedule_runs FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT ur.tenant_id FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.status = 'active'
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+DROP POLICY IF EXISTS "Investors can view own sent statements" ON investor_statements;
+CREATE POLICY "Investors can view own sent statements"
+  ON investor_statements FOR SELECT
+  TO authenticated
+  USING (
+    status IN ('sent', 'viewed')
+    AND capital_account_id IN (
+      SELECT id FROM capital_accounts WHERE investor_id = auth.uid()
+    )
+  );
+
+-- ============================================================
+-- 3. STORAGE
+-- ============================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'generated-reports',
+  'generated-reports',
+  false,
+  20971520,  -- 20 MB
+  ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "generated_reports_staff_read" ON storage.objects;
+CREATE POLICY "generated_reports_staff_read"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'generated-reports'
+    AND (storage.foldername(name))[1] IN (
+      SELECT ur.tenant_id::text
+      FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.status = 'active'
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+DROP POLICY IF EXISTS "generated_reports_investor_read" ON storage.objects;
+CREATE POLICY "generated_reports_investor_read"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'generated-reports'
+    AND (storage.foldername(name))[2] = 'statements'
+    AND (storage.foldername(name))[3] IN (
+      SELECT ca.id::text
+      FROM capital_accounts ca
+      JOIN investor_statements s ON s.capital_account_id = ca.id
+      WHERE ca.investor_id = auth.uid()
+      AND s.status IN ('sent', 'viewed')
+    )
+  );
+
+-- Investors may mark their own statements viewed; nothing else changes.
+CREATE OR REPLACE FUNCTION mark_investor_statement_viewed(p_statement_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE investor_statements
+  SET status = 'viewed', viewed_at = now()
+  WHERE id = p_statement_id
+    AND status = 'sent'
+    AND capital_account_id IN (
+      SELECT id FROM capital_accounts WHERE investor_id = auth.uid()
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_investor_statement_viewed(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_investor_statement_viewed(uuid) TO authenticated;
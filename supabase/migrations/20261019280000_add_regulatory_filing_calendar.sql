@@ -0,0 +1,101 @@
+/*
+  # Regulatory Filing Calendar
+
+  Populates `regulatory_reporting_calendar` from each fund's
+  `regulatory_framework_fund_mappings`. The regulatory-calendar-worker Edge
+  Function generates the upcoming filings daily and emails reminders ahead
+  of each deadline; the Compliance Center assembles a draft for each filing
+  from NAV and capital-account data for review before submission.
+
+  1. Modified Tables
+     - `regulatory_reporting_calendar`
+       - `mapping_id` — the framework mapping the filing was generated from.
+       - `draft_data` — the assembled filing draft (AUM, leverage, investor
+         concentration, liquidity buckets) that compliance reviews and exports.
+       - `draft_generated_at` / `draft_generated_by` — who assembled it, when.
+       - `reminders_sent` — days-before-due thresholds already reminded
+         (0 marks the overdue reminder), so each is sent once.
+       - A unique (fund_id, framework_id, report_type, report_period_end)
+         index keeps regeneration idempotent.
+
+  2. Security
+     - The calendar was readable and writable by every user role in the
+       tenant, investors included. It is now limited to tenant admins and
+       staff, matching report_schedule_runs.
+*/
+
+-- ============================================================
+-- 1. CALENDAR COLUMNS
+-- ============================================================
+ALTER TABLE regulatory_reporting_calendar
+  ADD COLUMN IF NOT EXISTS mapping_id uuid REFERENCES regulatory_framework_fund_mappings(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS draft_data jsonb,
+  ADD COLUMN IF NOT EXISTS draft_generated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS draft_generated_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS reminders_sent int[] NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reporting_calendar_filing_period
+  ON regulatory_reporting_calendar(fund_id, framework_id, report_type, report_period_end);
+
+CREATE INDEX IF NOT EXISTS idx_reporting_calendar_open
+  ON regulatory_reporting_calendar(tenant_id, due_date)
+  WHERE filing_status IN ('pending', 'in_progress');
+
+CREATE INDEX IF NOT EXISTS idx_reporting_calendar_mapping
+  ON regulatory_reporting_calendar(mapping_id);
+
+-- ============================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================
+DROP POLICY IF EXISTS "Users can view own tenant reporting calendar" ON regulatory_reporting_calendar;
+DROP POLICY IF EXISTS "Tenant users can insert reporting calendar" ON regulatory_reporting_calendar;
+DROP POLICY IF EXISTS "Tenant users can update reporting calendar" ON regulatory_reporting_calendar;
+DROP POLICY IF EXISTS "Tenant users can delete reporting calendar" ON regulatory_reporting_calendar;
+
+CREATE POLICY "Staff can view reporting calendar"
+  ON regulatory_reporting_calendar FOR SELECT
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT ur.tenant_id FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.status = 'active'
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+CREATE POLICY "Staff can insert reporting calendar"
+  ON regulatory_reporting_calendar FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    tenant_id IN (
+      SELECT ur.tenant_id FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.status = 'active'
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+CREATE POLICY "Staff can update reporting calendar"
+  ON regulatory_reporting_calendar FOR UPDATE
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT ur.tenant_id FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.status = 'active'
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
+
+CREATE POLICY "Staff can delete reporting calendar"
+  ON regulatory_reporting_calendar FOR DELETE
+  TO authenticated
+  USING (
+    tenant_id IN (
+      SELECT ur.tenant_id FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.status = 'active'
+      AND ur.role_category IN ('tenant_admin', 'staff_user')
+    )
+  );
@@ -0,0 +1,203 @@
+/*
+  # Pooled Trust as a Fund
+
+  The investor portal read the pooled trust's own unit ledger
+  (`trust_account`, `client_units`, `unit_transactions`) while the manager
+  portal runs on funds, share classes and capital accounts, so investors in
+  a manager-administered fund saw nothing. The pooled trust becomes a fund of
+  type `pooled_trust` and the portal reads capital accounts for every fund.
+
+  1. Backfill
+    - Each `trust_account` with a tenant gets a `pooled_trust` fund linked
+      through `funds.trust_account_id` (an already-linked fund is reused)
+      and a single "Trust Units" share class.
+    - Each `client_units` holding becomes a capital account in that class;
+      completed `unit_transactions` become settled `capital_transactions`.
+    - Daily closing `trust_nav_history` snapshots become approved
+      `nav_calculations` for the class. The IBKR sync now writes the day's
+      NAV there directly.
+    - `client_units` and `unit_transactions` are kept read-only for history.
+      `trust_positions` stays the brokerage holdings of the trust fund.
+
+  2. Security
+    - `investor_capital_account_ids()` / `investor_fund_ids()` (security
+      definer) list the caller's own accounts and funds without recursing
+      through the capital_accounts policy.
+    - Investors can read funds, share classes and approved NAVs of funds
+      they hold, and the capital transactions, distribution allocations and
+      distributions of their own accounts.
+    - `trust_positions` was readable by every signed-in user on the
+      platform; it is now limited to investors in the trust fund and the
+      trust's tenant staff.
+*/
+
+-- ============================================================
+-- 1. BACKFILL
+-- ============================================================
+DO $$
+DECLARE
+  v_trust       record;
+  v_holding     record;
+  v_fund_id     uuid;
+  v_fund_code   text;
+  v_class_id    uuid;
+  v_account_id  uuid;
+  v_seq         integer;
+BEGIN
+  FOR v_trust IN SELECT * FROM trust_account WHERE tenant_id IS NOT NULL LOOP
+    SELECT id, fund_code INTO v_fund_id, v_fund_code FROM funds WHERE trust_account_id = v_trust.id LIMIT 1;
+
+    IF v_fund_id IS NULL THEN
+      v_fund_code := 'TRUST-' || upper(substr(replace(v_trust.id::text, '-', ''), 1, 6));
+      INSERT INTO funds (tenant_id, fund_code, fund_name, fund_type, base_currency, inception_date, nav_frequency, trust_account_id)
+      VALUES (v_trust.tenant_id, v_fund_code, v_trust.name, 'pooled_trust', 'USD', v_trust.created_at::date, 'daily', v_trust.id)
+      RETURNING id INTO v_fund_id;
+    ELSE
+      UPDATE funds SET fund_type = 'pooled_trust', updated_at = now() WHERE id = v_fund_id;
+    END IF;
+
+    SELECT id INTO v_class_id FROM share_classes WHERE fund_id = v_fund_id ORDER BY created_at LIMIT 1;
+    IF v_class_id IS NULL THEN
+      INSERT INTO share_classes (fund_id, class_code, class_name, currency, high_water_mark, share_price_precision)
+      VALUES (v_fund_id, 'UNITS', 'Trust Units', 'USD', false, 4)
+      RETURNING id INTO v_class_id;
+    END IF;
+
+    SELECT count(*) INTO v_seq FROM capital_accounts WHERE fund_id = v_fund_id;
+
+    FOR v_holding IN SELECT * FROM client_units WHERE trust_account_id = v_trust.id ORDER BY created_at LOOP
+      SELECT id INTO v_account_id FROM capital_accounts
+      WHERE fund_id = v_fund_id AND investor_id = v_holding.client_id
+      LIMIT 1;
+
+      IF v_account_id IS NULL THEN
+        v_seq := v_seq + 1;
+        INSERT INTO capital_accounts (
+          tenant_id, fund_id, share_class_id, investor_id, account_number,
+          capital_contributed, shares_owned, cost_basis, inception_date, status
+        )
+        VALUES (
+          v_trust.tenant_id, v_fund_id, v_class_id, v_holding.client_id, v_fund_code || '-' || lpad(v_seq::text, 4, '0'),
+          v_holding.cost_basis, v_holding.units_owned, v_holding.cost_basis, COALESCE(v_holding.purchase_date, CURRENT_DATE), 'active'
+        )
+        RETURNING id INTO v_account_id;
+
+        INSERT INTO capital_transactions (
+          tenant_id, capital_account_id, fund_id, transaction_type, transaction_date, settlement_date,
+          amount, shares, price_per_share, currency, status, reference_number, description
+        )
+        SELECT
+          v_trust.tenant_id, v_account_id, v_fund_id,
+          CASE ut.transaction_type WHEN 'subscription' THEN 'contribution' ELSE 'redemption' END,
+          ut.transaction_date::date, ut.transaction_date::date,
+          ut.amount, ut.units, ut.nav_per_unit, 'USD', 'settled',
+          'UNIT-' || upper(substr(replace(ut.id::text, '-', ''), 1, 8)),
+          COALESCE(ut.notes, 'Pooled trust unit ' || ut.transaction_type)
+        FROM unit_transactions ut
+        WHERE ut.client_id = v_holding.client_id
+          AND ut.trust_account_id = v_trust.id
+          AND ut.status = 'completed';
+      END IF;
+    END LOOP;
+
+    IF NOT EXISTS (SELECT 1 FROM nav_calculations WHERE fund_id = v_fund_id) THEN
+      INSERT INTO nav_calculations (
+        fund_id, share_class_id, nav_date, version, status, total_assets, net_asset_value,
+        total_shares, nav_per_share, calculation_method, approved_at, notes
+      )
+      SELECT DISTINCT ON (h.timestamp::date)
+        v_fund_id, v_class_id, h.timestamp::date, 1, 'approved', h.total_aum, h.total_aum,
+        h.total_units, h.nav_per_unit, 'ibkr_sync', h.timestamp, 'Imported from trust NAV history'
+      FROM trust_nav_history h
+      WHERE h.trust_account_id = v_trust.id
+      ORDER BY h.timestamp::date, h.timestamp DESC;
+    END IF;
+  END LOOP;
+END $$;
+
+COMMENT ON TABLE client_units IS 'Superseded by capital_accounts on the pooled_trust fund; kept for history.';
+COMMENT ON TABLE unit_transactions IS 'Superseded by capital_transactions on the pooled_trust fund; kept for history.';
+
+DROP POLICY IF EXISTS "Clients can update own units" ON client_units;
+DROP POLICY IF EXISTS "Clients can create unit transactions" ON unit_transactions;
+
+-- ============================================================
+-- 2. INVESTOR ACCESS
+-- ============================================================
+CREATE OR REPLACE FUNCTION investor_capital_account_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM capital_accounts WHERE investor_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION investor_fund_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT fund_id FROM capital_accounts WHERE investor_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION investor_capital_account_ids() FROM anon;
+REVOKE EXECUTE ON FUNCTION investor_fund_ids() FROM anon;
+GRANT EXECUTE ON FUNCTION investor_capital_account_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION investor_fund_ids() TO authenticated;
+
+DROP POLICY IF EXISTS "Investors can view held funds" ON funds;
+CREATE POLICY "Investors can view held funds"
+  ON funds FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT investor_fund_ids()));
+
+DROP POLICY IF EXISTS "Investors can view share classes of held funds" ON share_classes;
+CREATE POLICY "Investors can view share classes of held funds"
+  ON share_classes FOR SELECT
+  TO authenticated
+  USING (fund_id IN (SELECT investor_fund_ids()));
+
+DROP POLICY IF EXISTS "Investors can view approved NAVs of held funds" ON nav_calculations;
+CREATE POLICY "Investors can view approved NAVs of held funds"
+  ON nav_calculations FOR SELECT
+  TO authenticated
+  USING (status = 'approved' AND fund_id IN (SELECT investor_fund_ids()));
+
+DROP POLICY IF EXISTS "Investors can view own capital transactions" ON capital_transactions;
+CREATE POLICY "Investors can view own capital transactions"
+  ON capital_transactions FOR SELECT
+  TO authenticated
+  USING (capital_account_id IN (SELECT investor_capital_account_ids()));
+
+DROP POLICY IF EXISTS "Investors can view own distribution allocations" ON distribution_allocations;
+CREATE POLICY "Investors can view own distribution allocations"
+  ON distribution_allocations FOR SELECT
+  TO authenticated
+  USING (capital_account_id IN (SELECT investor_capital_account_ids()));
+
+DROP POLICY IF EXISTS "Investors can view distributions on own accounts" ON distributions;
+CREATE POLICY "Investors can view distributions on own accounts"
+  ON distributions FOR SELECT
+  TO authenticated
+  USING (id IN (
+    SELECT distribution_id FROM distribution_allocations
+    WHERE capital_account_id IN (SELECT investor_capital_account_ids())
+  ));
+
+DROP POLICY IF EXISTS "Investors can view positions of held trusts" ON trust_positions;
+DROP POLICY IF EXISTS "Authenticated users can view trust positions" ON trust_positions;
+CREATE POLICY "Investors can view positions of held trusts"
+  ON trust_positions FOR SELECT
+  TO authenticated
+  USING (
+    trust_account_id IN (SELECT trust_account_id FROM funds WHERE id IN (SELECT investor_fund_ids()))
+    OR trust_account_id IN (
+      SELECT ta.id FROM trust_account ta
+      JOIN staff_accounts sa ON sa.tenant_id = ta.tenant_id
+      WHERE sa.auth_user_id = auth.uid()
+    )
+  );